@@ -67,6 +67,20 @@ jest.mock('expo-file-system', () => ({
   FileSystemUploadType: { BINARY_CONTENT: 'binary' },
 }));
 
+// Mock Expo Sharing
+jest.mock('expo-sharing', () => ({
+  isAvailableAsync: jest.fn(async () => true),
+  shareAsync: jest.fn(async () => {}),
+}));
+
+// Mock Expo Secure Store
+jest.mock('expo-secure-store', () => ({
+  getItemAsync: jest.fn(() => Promise.resolve(null)),
+  setItemAsync: jest.fn(() => Promise.resolve()),
+  deleteItemAsync: jest.fn(() => Promise.resolve()),
+  WHEN_UNLOCKED_THIS_DEVICE_ONLY: 'WHEN_UNLOCKED_THIS_DEVICE_ONLY',
+}));
+
 jest.mock('@supabase/supabase-js', () => {
   const chain = {
     select: jest.fn(function () {
@@ -0,0 +1,387 @@
+import { useEffect, useState } from 'react';
+import {
+  Modal,
+  View,
+  Text,
+  Pressable,
+  ScrollView,
+  TextInput,
+  Alert,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+
+import { useTheme } from '../theme/theme';
+import { SpaceChannel, SpaceChannelInput } from '../types/room';
+import { moveItem, validateChannelName } from '../utils/spaceChannels';
+import { notifyError } from '../utils/notify';
+
+type ChannelKind = NonNullable<SpaceChannelInput['channel_type']>;
+
+type Props = {
+  visible: boolean;
+  channels: SpaceChannel[];
+  onClose: () => void;
+  // どれも失敗時はエラーメッセージ、成功時は null を返す
+  onCreate: (input: SpaceChannelInput) => Promise<string | null>;
+  onUpdate: (
+    channelId: string,
+    changes: Partial<SpaceChannelInput>
+  ) => Promise<string | null>;
+  onSetArchived: (
+    channelId: string,
+    archived: boolean
+  ) => Promise<string | null>;
+  onReorder: (ordered: SpaceChannel[]) => Promise<string | null>;
+};
+
+const KIND_OPTIONS: { key: ChannelKind; label: string }[] = [
+  { key: 'text', label: 'テキスト' },
+  { key: 'announcement', label: 'お知らせ' },
+];
+
+/** スペースのオーナーがチャンネルを追加・名前変更・アーカイブ・並べ替えするシート */
+export default function ChannelManagerModal({
+  visible,
+  channels,
+  onClose,
+  onCreate,
+  onUpdate,
+  onSetArchived,
+  onReorder,
+}: Props) {
+  const theme = useTheme();
+  const { colors } = theme;
+  // 編集中のチャンネル（'new' は追加フォーム）
+  const [editing, setEditing] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [kind, setKind] = useState<ChannelKind>('text');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!visible) {
+      setEditing(null);
+    }
+  }, [visible]);
+
+  const active = channels.filter(c => c.is_active);
+  const archived = channels.filter(c => !c.is_active);
+
+  const startEdit = (channel: SpaceChannel | null) => {
+    setEditing(channel ? channel.id : 'new');
+    setName(channel?.name ?? '');
+    setKind(channel?.channel_type === 'announcement' ? 'announcement' : 'text');
+  };
+
+  const run = async (op: () => Promise<string | null>) => {
+    setSaving(true);
+    const failure = await op();
+    setSaving(false);
+    if (failure) {
+      notifyError(failure);
+      return false;
+    }
+    return true;
+  };
+
+  const handleSave = async () => {
+    if (!editing) {
+      return;
+    }
+    const others = channels.filter(c => c.id !== editing).map(c => c.name);
+    const invalid = validateChannelName(name, others);
+    if (invalid) {
+      notifyError(invalid);
+      return;
+    }
+    const input = { name: name.trim(), channel_type: kind };
+    const ok = await run(() =>
+      editing === 'new' ? onCreate(input) : onUpdate(editing, input)
+    );
+    if (ok) {
+      setEditing(null);
+    }
+  };
+
+  const confirmArchive = (channel: SpaceChannel) => {
+    Alert.alert(
+      'チャンネルをアーカイブ',
+      `#${channel.name} をアーカイブしますか？\n一覧から外れ、投稿できなくなります。メッセージは残ります。`,
+      [
+        { text: 'キャンセル', style: 'cancel' },
+        {
+          text: 'アーカイブ',
+          style: 'destructive',
+          onPress: () => run(() => onSetArchived(channel.id, true)),
+        },
+      ]
+    );
+  };
+
+  const move = (index: number, delta: number) => {
+    const next = moveItem(active, index, index + delta);
+    if (next !== active) {
+      run(() => onReorder([...next, ...archived]));
+    }
+  };
+
+  const iconButton = (
+    icon: keyof typeof Ionicons.glyphMap,
+    label: string,
+    onPress: () => void,
+    disabled = false
+  ) => (
+    <Pressable
+      accessibilityRole="button"
+      accessibilityLabel={label}
+      onPress={onPress}
+      disabled={disabled || saving}
+      hitSlop={6}
+      style={{ padding: 6, opacity: disabled ? 0.3 : 1 }}
+    >
+      <Ionicons name={icon} size={18} color={colors.text} />
+    </Pressable>
+  );
+
+  const renderForm = () => (
+    <View
+      style={{
+        padding: 12,
+        borderRadius: theme.radius.md,
+        backgroundColor: colors.surface,
+        marginBottom: 8,
+      }}
+    >
+      <TextInput
+        value={name}
+        onChangeText={setName}
+        placeholder="チャンネル名（例: sleep）"
+        placeholderTextColor={colors.subtext}
+        autoFocus
+        maxLength={50}
+        style={{
+          color: colors.text,
+          fontSize: 15,
+          paddingVertical: 8,
+          borderBottomWidth: 1,
+          borderBottomColor: colors.border,
+        }}
+      />
+      <View style={{ flexDirection: 'row', gap: 8, marginTop: 10 }}>
+        {KIND_OPTIONS.map(option => (
+          <Pressable
+            key={option.key}
+            accessibilityRole="button"
+            accessibilityState={{ selected: kind === option.key }}
+            onPress={() => setKind(option.key)}
+            style={{
+              paddingHorizontal: 12,
+              paddingVertical: 6,
+              borderRadius: 999,
+              backgroundColor: kind === option.key ? colors.pink : '#ffffff10',
+            }}
+          >
+            <Text
+              style={{
+                color: kind === option.key ? '#23181D' : colors.text,
+                fontSize: 13,
+              }}
+            >
+              {option.label}
+            </Text>
+          </Pressable>
+        ))}
+      </View>
+      {kind === 'announcement' && (
+        <Text style={{ color: colors.subtext, fontSize: 12, marginTop: 8 }}>
+          オーナーとモデレーターだけが投稿できます
+        </Text>
+      )}
+      <View
+        style={{
+          flexDirection: 'row',
+          justifyContent: 'flex-end',
+          gap: 16,
+          marginTop: 12,
+        }}
+      >
+        <Pressable onPress={() => setEditing(null)} disabled={saving}>
+          <Text style={{ color: colors.subtext }}>キャンセル</Text>
+        </Pressable>
+        <Pressable onPress={handleSave} disabled={saving}>
+          <Text style={{ color: colors.pink, fontWeight: '700' }}>
+            {saving ? '保存中...' : editing === 'new' ? '追加' : '保存'}
+          </Text>
+        </Pressable>
+      </View>
+    </View>
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      transparent
+      onRequestClose={onClose}
+    >
+      <View
+        style={{
+          flex: 1,
+          backgroundColor: 'rgba(0,0,0,0.5)',
+          justifyContent: 'flex-end',
+        }}
+      >
+        <View
+          style={{
+            maxHeight: '80%',
+            borderTopLeftRadius: 20,
+            borderTopRightRadius: 20,
+            padding: theme.spacing(2),
+            backgroundColor: colors.card,
+            borderColor: colors.border,
+            borderWidth: 1,
+          }}
+        >
+          <View
+            style={{
+              flexDirection: 'row',
+              justifyContent: 'space-between',
+              alignItems: 'center',
+              marginBottom: theme.spacing(1.5),
+            }}
+          >
+            <Text
+              style={{ color: colors.text, fontSize: 18, fontWeight: '700' }}
+            >
+              チャンネルの管理
+            </Text>
+            <Pressable
+              accessibilityRole="button"
+              accessibilityLabel="閉じる"
+              onPress={onClose}
+              hitSlop={8}
+            >
+              <Text style={{ color: colors.subtext, fontSize: 16 }}>✕</Text>
+            </Pressable>
+          </View>
+          <ScrollView keyboardShouldPersistTaps="handled">
+            {active.map((channel, index) =>
+              editing === channel.id ? (
+                <View key={channel.id}>{renderForm()}</View>
+              ) : (
+                <View
+                  key={channel.id}
+                  style={{
+                    flexDirection: 'row',
+                    alignItems: 'center',
+                    paddingVertical: 8,
+                    paddingHorizontal: 12,
+                    borderRadius: theme.radius.md,
+                    backgroundColor: colors.surface,
+                    marginBottom: 8,
+                  }}
+                >
+                  <Text
+                    style={{ flex: 1, color: colors.text, fontSize: 15 }}
+                    numberOfLines={1}
+                  >
+                    {channel.channel_type === 'announcement' ? '📢 ' : '# '}
+                    {channel.name}
+                  </Text>
+                  {iconButton(
+                    'chevron-up',
+                    `${channel.name}を上へ`,
+                    () => move(index, -1),
+                    index === 0
+                  )}
+                  {iconButton(
+                    'chevron-down',
+                    `${channel.name}を下へ`,
+                    () => move(index, 1),
+                    index === active.length - 1
+                  )}
+                  {iconButton('create-outline', `${channel.name}を編集`, () =>
+                    startEdit(channel)
+                  )}
+                  {iconButton(
+                    'archive-outline',
+                    `${channel.name}をアーカイブ`,
+                    () => confirmArchive(channel),
+                    active.length <= 1
+                  )}
+                </View>
+              )
+            )}
+
+            {editing === 'new' ? (
+              renderForm()
+            ) : (
+              <Pressable
+                accessibilityRole="button"
+                onPress={() => startEdit(null)}
+                disabled={saving}
+                style={{
+                  flexDirection: 'row',
+                  alignItems: 'center',
+                  justifyContent: 'center',
+                  paddingVertical: 10,
+                  borderRadius: theme.radius.md,
+                  borderWidth: 1,
+                  borderColor: colors.pink,
+                  marginBottom: 8,
+                }}
+              >
+                <Ionicons name="add" size={18} color={colors.pink} />
+                <Text style={{ color: colors.pink, marginLeft: 4 }}>
+                  チャンネルを追加
+                </Text>
+              </Pressable>
+            )}
+
+            {archived.length > 0 && (
+              <>
+                <Text
+                  style={{
+                    color: colors.subtext,
+                    fontSize: 12,
+                    fontWeight: '700',
+                    marginTop: 8,
+                    marginBottom: 6,
+                  }}
+                >
+                  アーカイブ済み
+                </Text>
+                {archived.map(channel => (
+                  <View
+                    key={channel.id}
+                    style={{
+                      flexDirection: 'row',
+                      alignItems: 'center',
+                      paddingVertical: 8,
+                      paddingHorizontal: 12,
+                      marginBottom: 8,
+                    }}
+                  >
+                    <Text
+                      style={{ flex: 1, color: colors.subtext, fontSize: 15 }}
+                      numberOfLines={1}
+                    >
+                      # {channel.name}
+                    </Text>
+                    <Pressable
+                      onPress={() =>
+                        run(() => onSetArchived(channel.id, false))
+                      }
+                      disabled={saving}
+                    >
+                      <Text style={{ color: colors.pink }}>戻す</Text>
+                    </Pressable>
+                  </View>
+                ))}
+              </>
+            )}
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+}
@@ -0,0 +1,57 @@
+import { View, Text, Pressable } from 'react-native';
+
+import { useTheme } from '../theme/theme';
+import { ContentWarningCategory } from '../types/post';
+import { CONTENT_WARNING_OPTIONS } from '../utils/contentWarnings';
+
+export default function ContentWarningPicker({
+  value,
+  onChange,
+}: {
+  value: ContentWarningCategory | null;
+  onChange: (next: ContentWarningCategory | null) => void;
+}) {
+  const { colors } = useTheme();
+  const chip = (
+    key: string,
+    label: string,
+    selected: boolean,
+    onPress: () => void
+  ) => (
+    <Pressable
+      key={key}
+      accessibilityRole="button"
+      accessibilityLabel={`内容の警告: ${label}`}
+      accessibilityState={{ selected }}
+      onPress={onPress}
+      style={({ pressed }) => ({
+        paddingHorizontal: 10,
+        paddingVertical: 4,
+        borderRadius: 999,
+        backgroundColor: selected ? colors.pink : '#ffffff14',
+        transform: [{ scale: pressed ? 0.97 : 1 }],
+      })}
+    >
+      <Text
+        style={{ color: selected ? '#23181D' : colors.subtext, fontSize: 12 }}
+      >
+        {label}
+      </Text>
+    </Pressable>
+  );
+  return (
+    <View style={{ gap: 6 }}>
+      <Text style={{ color: colors.subtext, fontSize: 12 }}>
+        ⚠️ 内容の警告（選ぶと折りたたんで表示されます）
+      </Text>
+      <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: 6 }}>
+        {chip('none', 'なし', value === null, () => onChange(null))}
+        {CONTENT_WARNING_OPTIONS.map(o =>
+          chip(o.category, o.label, value === o.category, () =>
+            onChange(o.category)
+          )
+        )}
+      </View>
+    </View>
+  );
+}
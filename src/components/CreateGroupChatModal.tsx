@@ -0,0 +1,156 @@
+import { useEffect, useState } from 'react';
+import {
+  Modal,
+  View,
+  Text,
+  TextInput,
+  Pressable,
+  ActivityIndicator,
+} from 'react-native';
+
+import { useTheme } from '../theme/theme';
+import chatService from '../services/chatService';
+import { ChatConstraints } from '../types/chat';
+import { notifyError } from '../utils/notify';
+
+import GroupMemberPicker, { PickedUser } from './GroupMemberPicker';
+
+type Props = {
+  visible: boolean;
+  onClose: () => void;
+  onCreated: (chatId: string, title: string) => void;
+};
+
+export default function CreateGroupChatModal({
+  visible,
+  onClose,
+  onCreated,
+}: Props) {
+  const theme = useTheme();
+  const { colors } = theme;
+  const [title, setTitle] = useState('');
+  const [members, setMembers] = useState<PickedUser[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (visible) {
+      setTitle('');
+      setMembers([]);
+    }
+  }, [visible]);
+
+  const canCreate = !!title.trim() && members.length > 0 && !saving;
+
+  const handleCreate = async () => {
+    if (!canCreate) {
+      return;
+    }
+    setSaving(true);
+    try {
+      const res = await chatService.createGroupChat({
+        title,
+        participant_ids: members.map(m => m.id),
+      });
+      if (!res.success) {
+        notifyError(res.error);
+        return;
+      }
+      onClose();
+      onCreated(res.data.id, title.trim());
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      transparent
+      onRequestClose={onClose}
+    >
+      <View
+        style={{
+          flex: 1,
+          backgroundColor: 'rgba(0,0,0,0.5)',
+          justifyContent: 'flex-end',
+        }}
+      >
+        <View
+          style={{
+            height: '80%',
+            borderTopLeftRadius: 20,
+            borderTopRightRadius: 20,
+            padding: theme.spacing(2),
+            backgroundColor: colors.card,
+            borderColor: colors.border,
+            borderWidth: 1,
+          }}
+        >
+          <View
+            style={{
+              flexDirection: 'row',
+              justifyContent: 'space-between',
+              alignItems: 'center',
+              marginBottom: theme.spacing(1.5),
+            }}
+          >
+            <Pressable
+              accessibilityRole="button"
+              accessibilityLabel="閉じる"
+              onPress={onClose}
+              hitSlop={8}
+            >
+              <Text style={{ color: colors.subtext, fontSize: 16 }}>✕</Text>
+            </Pressable>
+            <Text
+              style={{ color: colors.text, fontSize: 18, fontWeight: '700' }}
+            >
+              グループを作成
+            </Text>
+            <Pressable
+              accessibilityRole="button"
+              accessibilityLabel="グループを作成"
+              onPress={handleCreate}
+              disabled={!canCreate}
+              hitSlop={8}
+            >
+              {saving ? (
+                <ActivityIndicator size="small" color={colors.pink} />
+              ) : (
+                <Text
+                  style={{
+                    color: canCreate ? colors.pink : colors.subtext,
+                    fontWeight: '700',
+                  }}
+                >
+                  作成
+                </Text>
+              )}
+            </Pressable>
+          </View>
+          <TextInput
+            value={title}
+            onChangeText={setTitle}
+            placeholder="グループ名（例: 2026年4月生まれママ）"
+            placeholderTextColor={colors.subtext}
+            maxLength={ChatConstraints.group.maxTitleLength}
+            style={{
+              color: colors.text,
+              backgroundColor: colors.surface,
+              borderRadius: theme.radius.md,
+              paddingHorizontal: 12,
+              paddingVertical: 10,
+              marginBottom: theme.spacing(1.5),
+            }}
+          />
+          <GroupMemberPicker
+            selected={members}
+            onChange={setMembers}
+            maxSelectable={ChatConstraints.group.maxMembers - 1}
+          />
+        </View>
+      </View>
+    </Modal>
+  );
+}
@@ -0,0 +1,214 @@
+import { useEffect, useState } from 'react';
+import {
+  Modal,
+  View,
+  Text,
+  Pressable,
+  FlatList,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+
+import { useTheme } from '../theme/theme';
+import { PostDraft } from '../types/post';
+import { listDrafts, deleteDraft } from '../services/draftService';
+import { notifyError } from '../utils/notify';
+
+type Props = {
+  visible: boolean;
+  onClose: () => void;
+  onSelect: (draft: PostDraft) => void;
+};
+
+const statusLabel = (d: PostDraft) => {
+  switch (d.status) {
+    case 'scheduled':
+      return d.scheduled_at
+        ? `予約: ${new Date(d.scheduled_at).toLocaleString()}`
+        : '予約';
+    case 'failed':
+      return '予約投稿に失敗しました';
+    case 'draft':
+    default:
+      return `下書き: ${new Date(d.updated_at).toLocaleString()}`;
+  }
+};
+
+export default function DraftListModal({ visible, onClose, onSelect }: Props) {
+  const theme = useTheme();
+  const { colors } = theme;
+  const [items, setItems] = useState<PostDraft[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!visible) {
+      return;
+    }
+    let cancelled = false;
+    (async () => {
+      setLoading(true);
+      try {
+        const drafts = await listDrafts();
+        if (!cancelled) {
+          setItems(drafts);
+        }
+      } catch (e: any) {
+        notifyError(e?.message || '下書きの読み込みに失敗しました');
+      } finally {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [visible]);
+
+  const handleDelete = (draft: PostDraft) => {
+    Alert.alert(
+      '下書きを削除',
+      draft.status === 'scheduled'
+        ? 'この予約投稿を取り消して削除しますか？'
+        : 'この下書きを削除しますか？',
+      [
+        { text: 'キャンセル', style: 'cancel' },
+        {
+          text: '削除',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deleteDraft(draft.id);
+              setItems(prev => prev.filter(d => d.id !== draft.id));
+            } catch (e: any) {
+              notifyError(e?.message || '削除に失敗しました');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      transparent
+      onRequestClose={onClose}
+    >
+      <View
+        style={{
+          flex: 1,
+          backgroundColor: 'rgba(0,0,0,0.5)',
+          justifyContent: 'flex-end',
+        }}
+      >
+        <View
+          style={{
+            maxHeight: '75%',
+            borderTopLeftRadius: 20,
+            borderTopRightRadius: 20,
+            padding: theme.spacing(2),
+            backgroundColor: colors.card,
+            borderColor: colors.border,
+            borderWidth: 1,
+          }}
+        >
+          <View
+            style={{
+              flexDirection: 'row',
+              justifyContent: 'space-between',
+              alignItems: 'center',
+              marginBottom: theme.spacing(1.5),
+            }}
+          >
+            <Text
+              style={{ color: colors.text, fontSize: 18, fontWeight: '700' }}
+            >
+              下書き・予約投稿
+            </Text>
+            <Pressable
+              accessibilityRole="button"
+              accessibilityLabel="閉じる"
+              onPress={onClose}
+              hitSlop={8}
+            >
+              <Text style={{ color: colors.subtext, fontSize: 16 }}>✕</Text>
+            </Pressable>
+          </View>
+          {loading ? (
+            <ActivityIndicator color={colors.pink} />
+          ) : (
+            <FlatList
+              data={items}
+              keyExtractor={d => d.id}
+              ItemSeparatorComponent={() => <View style={{ height: 8 }} />}
+              ListEmptyComponent={
+                <Text
+                  style={{
+                    color: colors.subtext,
+                    textAlign: 'center',
+                    paddingVertical: 24,
+                  }}
+                >
+                  下書きはありません
+                </Text>
+              }
+              renderItem={({ item }) => (
+                <Pressable
+                  accessibilityRole="button"
+                  accessibilityLabel="下書きを開く"
+                  onPress={() => onSelect(item)}
+                  style={({ pressed }) => ({
+                    flexDirection: 'row',
+                    alignItems: 'center',
+                    padding: 12,
+                    borderRadius: theme.radius.md,
+                    backgroundColor: pressed ? '#ffffff20' : colors.surface,
+                  })}
+                >
+                  <View style={{ flex: 1 }}>
+                    <Text
+                      style={{ color: colors.text, fontSize: 15 }}
+                      numberOfLines={2}
+                    >
+                      {item.body.trim() ||
+                        (item.attachments.length > 0 ? '[画像のみ]' : '')}
+                    </Text>
+                    <Text
+                      style={{
+                        color:
+                          item.status === 'failed' ? '#ff8a8a' : colors.subtext,
+                        fontSize: 12,
+                        marginTop: 4,
+                      }}
+                    >
+                      {statusLabel(item)}
+                      {item.attachments.length > 0
+                        ? ` ・ 画像${item.attachments.length}枚`
+                        : ''}
+                    </Text>
+                  </View>
+                  <Pressable
+                    accessibilityRole="button"
+                    accessibilityLabel="下書きを削除"
+                    onPress={e => {
+                      e.stopPropagation();
+                      handleDelete(item);
+                    }}
+                    hitSlop={8}
+                    style={{ paddingHorizontal: 8 }}
+                  >
+                    <Text style={{ color: colors.pink, fontWeight: '700' }}>
+                      🗑
+                    </Text>
+                  </Pressable>
+                </Pressable>
+              )}
+            />
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+}
@@ -23,6 +23,10 @@ interface EmojiPickerProps {
   disabled?: boolean;
   /** Number of columns in grid */
   columns?: number;
+  /** Header title (defaults to avatar selection) */
+  title?: string;
+  /** Footer hint; null hides it */
+  hint?: string | null;
 }
 
 // =====================================================
@@ -151,6 +155,8 @@ export default function EmojiPicker({
   onEmojiSelect,
   disabled = false,
   columns = 8,
+  title = 'アバターを選択',
+  hint = 'タップして選択 • 後で変更可能です',
 }: EmojiPickerProps) {
   const theme = useTheme() as any;
   const { colors } = theme;
@@ -375,7 +381,7 @@ export default function EmojiPicker({
             textAlign: 'center',
           }}
         >
-          アバターを選択
+          {title}
         </Text>
         {selectedEmoji && (
           <Text
@@ -398,25 +404,27 @@ export default function EmojiPicker({
       {renderEmojiGrid()}
 
       {/* Footer hint */}
-      <View
-        style={{
-          paddingHorizontal: theme.spacing(1),
-          paddingTop: theme.spacing(0.5),
-          borderTopWidth: 1,
-          borderTopColor: colors.surface,
-          marginTop: theme.spacing(0.5),
-        }}
-      >
-        <Text
+      {hint !== null && (
+        <View
           style={{
-            color: colors.subtext,
-            fontSize: 10,
-            textAlign: 'center',
+            paddingHorizontal: theme.spacing(1),
+            paddingTop: theme.spacing(0.5),
+            borderTopWidth: 1,
+            borderTopColor: colors.surface,
+            marginTop: theme.spacing(0.5),
           }}
         >
-          タップして選択 • 後で変更可能です
-        </Text>
-      </View>
+          <Text
+            style={{
+              color: colors.subtext,
+              fontSize: 10,
+              textAlign: 'center',
+            }}
+          >
+            {hint}
+          </Text>
+        </View>
+      )}
     </Animated.View>
   );
 }
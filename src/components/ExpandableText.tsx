@@ -52,6 +52,18 @@ interface ExpandableTextProps {
    * Custom accessibility label for collapse action
    */
   collapseAccessibilityLabel?: string;
+  /**
+   * Content warning label. When set, the text stays hidden until tapped
+   */
+  contentWarning?: string | null;
+  /**
+   * Controlled reveal state for content warnings (uncontrolled when omitted)
+   */
+  revealed?: boolean;
+  /**
+   * Callback when the content warning is tapped to reveal
+   */
+  onReveal?: () => void;
 }
 
 // URL正規表現パターン
@@ -68,11 +80,16 @@ export default function ExpandableText({
   onExpandChange,
   expandAccessibilityLabel = '本文をもっと見る',
   collapseAccessibilityLabel = '本文を閉じる',
+  contentWarning,
+  revealed,
+  onReveal,
 }: ExpandableTextProps) {
   const theme = useTheme();
   const { colors } = theme;
   const { handPreference } = useHandPreference();
   const [expanded, setExpanded] = useState(false);
+  const [selfRevealed, setSelfRevealed] = useState(false);
+  const isRevealed = revealed ?? selfRevealed;
 
   // Handle null or undefined text
   const safeText = text || '';
@@ -148,6 +165,37 @@ export default function ExpandableText({
     },
   ];
 
+  if (contentWarning && !isRevealed) {
+    return (
+      <View style={containerStyle}>
+        <Pressable
+          accessibilityRole="button"
+          accessibilityLabel={`${contentWarning}の内容を含みます。タップして表示`}
+          onPress={() => {
+            setSelfRevealed(true);
+            onReveal?.();
+          }}
+          style={({ pressed }) => ({
+            borderRadius: 12,
+            paddingHorizontal: 12,
+            paddingVertical: 10,
+            backgroundColor: colors.surface,
+            borderWidth: 1,
+            borderColor: colors.border,
+            transform: [{ scale: pressed ? 0.98 : 1 }],
+          })}
+        >
+          <Text style={{ color: colors.text, fontWeight: '700' }}>
+            ⚠️ {contentWarning}
+          </Text>
+          <Text style={{ color: colors.subtext, fontSize: 12, marginTop: 2 }}>
+            センシティブな内容を含む可能性があります。タップして表示
+          </Text>
+        </Pressable>
+      </View>
+    );
+  }
+
   return (
     <View style={containerStyle}>
       <Text
@@ -0,0 +1,258 @@
+import { useEffect, useState } from 'react';
+import {
+  Modal,
+  View,
+  Text,
+  Pressable,
+  SectionList,
+  ActivityIndicator,
+} from 'react-native';
+
+import { useTheme } from '../theme/theme';
+import chatService from '../services/chatService';
+import { RoomService } from '../services/roomService';
+import {
+  ForwardableMessage,
+  forwardToChannel,
+  forwardToChat,
+} from '../services/messageForwardService';
+import { notifyError, notifyInfo } from '../utils/notify';
+
+type Props = {
+  message: ForwardableMessage | null; // null のときは閉じている
+  // 転送元の会話・チャンネル（候補から外す）
+  sourceId?: string;
+  onClose: () => void;
+};
+
+type Target = {
+  key: string;
+  kind: 'chat' | 'channel';
+  id: string;
+  label: string;
+  sublabel?: string;
+};
+
+/** メッセージの転送先（チャット・スペースのチャンネル）を選ぶシート */
+export default function ForwardMessageModal({
+  message,
+  sourceId,
+  onClose,
+}: Props) {
+  const theme = useTheme();
+  const { colors } = theme;
+  const [chats, setChats] = useState<Target[]>([]);
+  const [channels, setChannels] = useState<Target[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [sentKeys, setSentKeys] = useState<string[]>([]);
+  const [sendingKey, setSendingKey] = useState<string | null>(null);
+  const visible = !!message;
+
+  useEffect(() => {
+    if (!visible) {
+      return;
+    }
+    let cancelled = false;
+    setSentKeys([]);
+    (async () => {
+      setLoading(true);
+      const [chatRes, spaceRes] = await Promise.all([
+        chatService.getChats(),
+        RoomService.getUserSpaces(),
+      ]);
+      if (cancelled) {
+        return;
+      }
+      setChats(
+        (chatRes.success ? (chatRes.data?.chats ?? []) : [])
+          .filter(c => c.id !== sourceId)
+          .map(c => {
+            const other = c.participants[0];
+            return {
+              key: `chat:${c.id}`,
+              kind: 'chat' as const,
+              id: c.id,
+              label:
+                c.chat_type === 'group'
+                  ? `👥 ${c.metadata?.title || 'グループ'}`
+                  : `${other?.avatar_emoji || '👤'} ${
+                      other?.display_name || other?.username || '匿名'
+                    }`,
+            };
+          })
+      );
+      setChannels(
+        (spaceRes.success ? (spaceRes.data ?? []) : [])
+          .filter(ch => ch.id !== sourceId)
+          .map(ch => ({
+            key: `channel:${ch.id}`,
+            kind: 'channel' as const,
+            id: ch.id,
+            label: ch.space?.name || ch.name,
+            sublabel: `#${ch.name}`,
+          }))
+      );
+      setLoading(false);
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [visible, sourceId]);
+
+  // 続けて複数の宛先に送れるよう、送信後もシートは閉じない
+  const handleForward = async (target: Target) => {
+    if (!message || sendingKey) {
+      return;
+    }
+    setSendingKey(target.key);
+    try {
+      if (target.kind === 'chat') {
+        await forwardToChat(target.id, message);
+      } else {
+        await forwardToChannel(target.id, message);
+      }
+      setSentKeys(prev => [...prev, target.key]);
+      notifyInfo('転送しました');
+    } catch (e: any) {
+      notifyError(e?.message || '転送に失敗しました');
+    } finally {
+      setSendingKey(null);
+    }
+  };
+
+  const sections = [
+    { title: 'メッセージ', data: chats },
+    { title: 'スペース', data: channels },
+  ].filter(s => s.data.length > 0);
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      transparent
+      onRequestClose={onClose}
+    >
+      <View
+        style={{
+          flex: 1,
+          backgroundColor: 'rgba(0,0,0,0.5)',
+          justifyContent: 'flex-end',
+        }}
+      >
+        <View
+          style={{
+            maxHeight: '75%',
+            borderTopLeftRadius: 20,
+            borderTopRightRadius: 20,
+            padding: theme.spacing(2),
+            backgroundColor: colors.card,
+            borderColor: colors.border,
+            borderWidth: 1,
+          }}
+        >
+          <View
+            style={{
+              flexDirection: 'row',
+              justifyContent: 'space-between',
+              alignItems: 'center',
+              marginBottom: theme.spacing(1.5),
+            }}
+          >
+            <Text
+              style={{ color: colors.text, fontSize: 18, fontWeight: '700' }}
+            >
+              メッセージを転送
+            </Text>
+            <Pressable
+              accessibilityRole="button"
+              accessibilityLabel="閉じる"
+              onPress={onClose}
+              hitSlop={8}
+            >
+              <Text style={{ color: colors.subtext, fontSize: 16 }}>✕</Text>
+            </Pressable>
+          </View>
+          {loading ? (
+            <ActivityIndicator color={colors.pink} />
+          ) : (
+            <SectionList
+              sections={sections}
+              keyExtractor={t => t.key}
+              stickySectionHeadersEnabled={false}
+              ItemSeparatorComponent={() => <View style={{ height: 8 }} />}
+              ListEmptyComponent={
+                <Text
+                  style={{
+                    color: colors.subtext,
+                    textAlign: 'center',
+                    paddingVertical: 24,
+                  }}
+                >
+                  転送できるメッセージやスペースがありません
+                </Text>
+              }
+              renderSectionHeader={({ section }) => (
+                <Text
+                  style={{
+                    color: colors.subtext,
+                    fontSize: 12,
+                    fontWeight: '700',
+                    marginTop: 8,
+                    marginBottom: 6,
+                  }}
+                >
+                  {section.title}
+                </Text>
+              )}
+              renderItem={({ item }) => {
+                const sent = sentKeys.includes(item.key);
+                return (
+                  <Pressable
+                    accessibilityRole="button"
+                    accessibilityLabel={`${item.label}に転送`}
+                    disabled={!!sendingKey || sent}
+                    onPress={() => handleForward(item)}
+                    style={({ pressed }) => ({
+                      flexDirection: 'row',
+                      alignItems: 'center',
+                      padding: 12,
+                      borderRadius: theme.radius.md,
+                      backgroundColor: pressed ? '#ffffff20' : colors.surface,
+                      opacity: sendingKey && sendingKey !== item.key ? 0.5 : 1,
+                    })}
+                  >
+                    <View style={{ flex: 1 }}>
+                      <Text
+                        style={{ color: colors.text, fontSize: 15 }}
+                        numberOfLines={1}
+                      >
+                        {item.label}
+                      </Text>
+                      {!!item.sublabel && (
+                        <Text style={{ color: colors.subtext, fontSize: 12 }}>
+                          {item.sublabel}
+                        </Text>
+                      )}
+                    </View>
+                    {sendingKey === item.key ? (
+                      <ActivityIndicator size="small" color={colors.pink} />
+                    ) : (
+                      <Text
+                        style={{
+                          color: sent ? colors.subtext : colors.pink,
+                          fontWeight: '700',
+                        }}
+                      >
+                        {sent ? '送信済み' : '送る'}
+                      </Text>
+                    )}
+                  </Pressable>
+                );
+              }}
+            />
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+}
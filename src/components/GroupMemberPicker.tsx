@@ -0,0 +1,207 @@
+import { useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  Pressable,
+  FlatList,
+  ActivityIndicator,
+} from 'react-native';
+
+import { useTheme } from '../theme/theme';
+import { useAuth } from '../contexts/AuthContext';
+import { useBlockedList } from '../hooks/useBlock';
+import chatService from '../services/chatService';
+import { searchUsers } from '../services/searchService';
+
+export type PickedUser = {
+  id: string;
+  name: string;
+  avatarEmoji: string | null;
+};
+
+type Props = {
+  selected: PickedUser[];
+  onChange: (next: PickedUser[]) => void;
+  // すでにグループにいる人など、候補に出さないユーザー
+  excludeIds?: string[];
+  maxSelectable: number;
+};
+
+/**
+ * グループに入れるメンバーを選ぶリスト。
+ * 未入力のときは DM 相手を候補に出し、入力するとユーザー検索に切り替える。
+ */
+export default function GroupMemberPicker({
+  selected,
+  onChange,
+  excludeIds = [],
+  maxSelectable,
+}: Props) {
+  const theme = useTheme();
+  const { colors } = theme;
+  const { user } = useAuth();
+  const { blocked } = useBlockedList();
+  const [query, setQuery] = useState('');
+  const [contacts, setContacts] = useState<PickedUser[]>([]);
+  const [results, setResults] = useState<PickedUser[]>([]);
+  const [searching, setSearching] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    chatService.getChats().then(res => {
+      if (cancelled || !res.success) {
+        return;
+      }
+      const seen = new Set<string>();
+      const list: PickedUser[] = [];
+      for (const chat of res.data.chats) {
+        if (chat.chat_type !== 'direct') {
+          continue;
+        }
+        const other = chat.participants[0];
+        if (other && !seen.has(other.id)) {
+          seen.add(other.id);
+          list.push({
+            id: other.id,
+            name: other.display_name || other.username || 'ユーザー',
+            avatarEmoji: other.avatar_emoji || null,
+          });
+        }
+      }
+      setContacts(list);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    const term = query.replace(/^@/, '').trim();
+    if (!term) {
+      setResults([]);
+      setSearching(false);
+      return;
+    }
+    let cancelled = false;
+    setSearching(true);
+    const timer = setTimeout(async () => {
+      try {
+        const { items } = await searchUsers(term, { limit: 20 });
+        if (!cancelled) {
+          setResults(
+            items.map(i => ({
+              id: i.id,
+              name: i.displayName || i.username,
+              avatarEmoji: i.avatarEmoji ?? null,
+            }))
+          );
+        }
+      } catch {
+        if (!cancelled) {
+          setResults([]);
+        }
+      } finally {
+        if (!cancelled) {
+          setSearching(false);
+        }
+      }
+    }, 300);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query]);
+
+  const candidates = useMemo(() => {
+    const hidden = new Set([...excludeIds, ...blocked]);
+    if (user?.id) {
+      hidden.add(user.id);
+    }
+    return (query.trim() ? results : contacts).filter(u => !hidden.has(u.id));
+  }, [query, results, contacts, excludeIds, blocked, user?.id]);
+
+  const selectedIds = new Set(selected.map(u => u.id));
+  const full = selected.length >= maxSelectable;
+
+  const toggle = (u: PickedUser) => {
+    if (selectedIds.has(u.id)) {
+      onChange(selected.filter(s => s.id !== u.id));
+    } else if (!full) {
+      onChange([...selected, u]);
+    }
+  };
+
+  return (
+    <View style={{ flexShrink: 1 }}>
+      <TextInput
+        value={query}
+        onChangeText={setQuery}
+        placeholder="名前や @ユーザー名で探す"
+        placeholderTextColor={colors.subtext}
+        autoCapitalize="none"
+        autoCorrect={false}
+        style={{
+          color: colors.text,
+          backgroundColor: colors.surface,
+          borderRadius: theme.radius.md,
+          paddingHorizontal: 12,
+          paddingVertical: 10,
+          marginBottom: 8,
+        }}
+      />
+      <Text style={{ color: colors.subtext, fontSize: 12, marginBottom: 6 }}>
+        {selected.length}/{maxSelectable}人を選択中
+        {query.trim() ? '' : '（最近のメッセージ相手）'}
+      </Text>
+      {searching ? (
+        <ActivityIndicator color={colors.pink} />
+      ) : (
+        <FlatList
+          data={candidates}
+          keyExtractor={u => u.id}
+          keyboardShouldPersistTaps="handled"
+          ListEmptyComponent={
+            <Text
+              style={{
+                color: colors.subtext,
+                textAlign: 'center',
+                paddingVertical: 16,
+              }}
+            >
+              {query.trim() ? '見つかりませんでした' : '候補がありません'}
+            </Text>
+          }
+          renderItem={({ item }) => {
+            const checked = selectedIds.has(item.id);
+            return (
+              <Pressable
+                accessibilityRole="checkbox"
+                accessibilityState={{ checked, disabled: !checked && full }}
+                onPress={() => toggle(item)}
+                style={({ pressed }) => ({
+                  flexDirection: 'row',
+                  alignItems: 'center',
+                  paddingVertical: 10,
+                  paddingHorizontal: 4,
+                  opacity: !checked && full ? 0.4 : 1,
+                  backgroundColor: pressed ? '#ffffff10' : 'transparent',
+                })}
+              >
+                <Text style={{ fontSize: 18, marginRight: 10 }}>
+                  {item.avatarEmoji || '👤'}
+                </Text>
+                <Text style={{ color: colors.text, flex: 1 }} numberOfLines={1}>
+                  {item.name}
+                </Text>
+                <Text style={{ color: checked ? colors.pink : colors.subtext }}>
+                  {checked ? '✓' : '＋'}
+                </Text>
+              </Pressable>
+            );
+          }}
+        />
+      )}
+    </View>
+  );
+}
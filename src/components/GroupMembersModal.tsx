@@ -0,0 +1,407 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+  Modal,
+  View,
+  Text,
+  TextInput,
+  Pressable,
+  FlatList,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+
+import { useTheme } from '../theme/theme';
+import { useAuth } from '../contexts/AuthContext';
+import chatService from '../services/chatService';
+import { ChatConstraints, GroupMember, ParticipantRole } from '../types/chat';
+import { notifyError, notifyInfo } from '../utils/notify';
+
+import GroupMemberPicker, { PickedUser } from './GroupMemberPicker';
+
+type Props = {
+  chatId: string;
+  title: string;
+  visible: boolean;
+  onClose: () => void;
+  // 名前変更・メンバー変更のあとに呼ぶ（ヘッダーやメッセージの再読込用）
+  onChanged: (title: string) => void;
+  onLeft: () => void;
+};
+
+const ROLE_LABEL: Record<ParticipantRole, string> = {
+  [ParticipantRole.OWNER]: 'オーナー',
+  [ParticipantRole.ADMIN]: '管理者',
+  [ParticipantRole.MEMBER]: '',
+};
+
+export default function GroupMembersModal({
+  chatId,
+  title,
+  visible,
+  onClose,
+  onChanged,
+  onLeft,
+}: Props) {
+  const theme = useTheme();
+  const { colors } = theme;
+  const { user } = useAuth();
+  const [members, setMembers] = useState<GroupMember[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [draftTitle, setDraftTitle] = useState(title);
+  const [adding, setAdding] = useState<PickedUser[] | null>(null);
+
+  const myRole =
+    members.find(m => m.user.id === user?.id)?.role ?? ParticipantRole.MEMBER;
+  const canManage = myRole !== ParticipantRole.MEMBER;
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    const res = await chatService.getGroupMembers(chatId);
+    setLoading(false);
+    if (res.success) {
+      setMembers(res.data);
+    } else {
+      notifyError(res.error);
+    }
+  }, [chatId]);
+
+  useEffect(() => {
+    if (visible) {
+      setDraftTitle(title);
+      setAdding(null);
+      load();
+    }
+  }, [visible, title, load]);
+
+  const run = async (
+    action: () => Promise<{ success: boolean; error?: string }>,
+    done?: string
+  ) => {
+    setBusy(true);
+    try {
+      const res = await action();
+      if (!res.success) {
+        notifyError(res.error || '操作に失敗しました');
+        return false;
+      }
+      if (done) {
+        notifyInfo(done);
+      }
+      return true;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRename = async () => {
+    const next = draftTitle.trim();
+    if (!next || next === title) {
+      return;
+    }
+    if (await run(() => chatService.renameGroupChat(chatId, next))) {
+      onChanged(next);
+    }
+  };
+
+  const handleAdd = async () => {
+    if (!adding || adding.length === 0) {
+      setAdding(null);
+      return;
+    }
+    const ids = adding.map(u => u.id);
+    if (
+      await run(() => chatService.addGroupMembers(chatId, ids), '追加しました')
+    ) {
+      setAdding(null);
+      onChanged(title);
+      load();
+    }
+  };
+
+  const openMemberMenu = (m: GroupMember) => {
+    if (m.user.id === user?.id || m.role === ParticipantRole.OWNER) {
+      return;
+    }
+    const name = m.user.display_name || m.user.username || 'メンバー';
+    const actions: {
+      text: string;
+      onPress: () => void;
+      destructive?: boolean;
+    }[] = [];
+    if (myRole === ParticipantRole.OWNER) {
+      actions.push(
+        m.role === ParticipantRole.ADMIN
+          ? {
+              text: '管理者から外す',
+              onPress: () => changeRole(m, ParticipantRole.MEMBER),
+            }
+          : {
+              text: '管理者にする',
+              onPress: () => changeRole(m, ParticipantRole.ADMIN),
+            }
+      );
+    }
+    if (
+      myRole === ParticipantRole.OWNER ||
+      (myRole === ParticipantRole.ADMIN && m.role === ParticipantRole.MEMBER)
+    ) {
+      actions.push({
+        text: 'グループから外す',
+        destructive: true,
+        onPress: () => removeMember(m),
+      });
+    }
+    if (actions.length === 0) {
+      return;
+    }
+    Alert.alert(name, undefined, [
+      ...actions.map(a => ({
+        text: a.text,
+        style: a.destructive ? ('destructive' as const) : ('default' as const),
+        onPress: a.onPress,
+      })),
+      { text: 'キャンセル', style: 'cancel' },
+    ]);
+  };
+
+  const changeRole = async (
+    m: GroupMember,
+    role: ParticipantRole.ADMIN | ParticipantRole.MEMBER
+  ) => {
+    if (
+      await run(() => chatService.setGroupMemberRole(chatId, m.user.id, role))
+    ) {
+      onChanged(title);
+      load();
+    }
+  };
+
+  const removeMember = async (m: GroupMember) => {
+    if (await run(() => chatService.removeGroupMember(chatId, m.user.id))) {
+      onChanged(title);
+      load();
+    }
+  };
+
+  const handleLeave = () => {
+    Alert.alert(
+      'グループを退出',
+      myRole === ParticipantRole.OWNER
+        ? 'オーナー権限はほかのメンバーに引き継がれます。退出しますか？'
+        : 'このグループを退出しますか？',
+      [
+        { text: 'キャンセル', style: 'cancel' },
+        {
+          text: '退出',
+          style: 'destructive',
+          onPress: async () => {
+            if (await run(() => chatService.leaveGroupChat(chatId))) {
+              onClose();
+              onLeft();
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      transparent
+      onRequestClose={onClose}
+    >
+      <View
+        style={{
+          flex: 1,
+          backgroundColor: 'rgba(0,0,0,0.5)',
+          justifyContent: 'flex-end',
+        }}
+      >
+        <View
+          style={{
+            height: '80%',
+            borderTopLeftRadius: 20,
+            borderTopRightRadius: 20,
+            padding: theme.spacing(2),
+            backgroundColor: colors.card,
+            borderColor: colors.border,
+            borderWidth: 1,
+          }}
+        >
+          <View
+            style={{
+              flexDirection: 'row',
+              justifyContent: 'space-between',
+              alignItems: 'center',
+              marginBottom: theme.spacing(1.5),
+            }}
+          >
+            <Text
+              style={{ color: colors.text, fontSize: 18, fontWeight: '700' }}
+            >
+              {adding ? 'メンバーを追加' : `メンバー（${members.length}）`}
+            </Text>
+            <View style={{ flexDirection: 'row', alignItems: 'center' }}>
+              {busy && (
+                <ActivityIndicator
+                  size="small"
+                  color={colors.pink}
+                  style={{ marginRight: 12 }}
+                />
+              )}
+              <Pressable
+                accessibilityRole="button"
+                accessibilityLabel="閉じる"
+                onPress={adding ? () => setAdding(null) : onClose}
+                hitSlop={8}
+              >
+                <Text style={{ color: colors.subtext, fontSize: 16 }}>✕</Text>
+              </Pressable>
+            </View>
+          </View>
+
+          {adding ? (
+            <>
+              <GroupMemberPicker
+                selected={adding}
+                onChange={setAdding}
+                excludeIds={members.map(m => m.user.id)}
+                maxSelectable={Math.max(
+                  ChatConstraints.group.maxMembers - members.length,
+                  0
+                )}
+              />
+              <Pressable
+                accessibilityRole="button"
+                onPress={handleAdd}
+                disabled={busy || adding.length === 0}
+                style={{
+                  marginTop: theme.spacing(1),
+                  paddingVertical: 12,
+                  borderRadius: theme.radius.md,
+                  alignItems: 'center',
+                  backgroundColor:
+                    adding.length > 0 ? colors.pink : colors.surface,
+                }}
+              >
+                <Text style={{ color: '#23181D', fontWeight: '700' }}>
+                  {adding.length}人を追加
+                </Text>
+              </Pressable>
+            </>
+          ) : (
+            <>
+              {canManage && (
+                <View
+                  style={{
+                    flexDirection: 'row',
+                    alignItems: 'center',
+                    marginBottom: theme.spacing(1.5),
+                  }}
+                >
+                  <TextInput
+                    value={draftTitle}
+                    onChangeText={setDraftTitle}
+                    placeholder="グループ名"
+                    placeholderTextColor={colors.subtext}
+                    maxLength={ChatConstraints.group.maxTitleLength}
+                    style={{
+                      flex: 1,
+                      color: colors.text,
+                      backgroundColor: colors.surface,
+                      borderRadius: theme.radius.md,
+                      paddingHorizontal: 12,
+                      paddingVertical: 10,
+                    }}
+                  />
+                  <Pressable
+                    accessibilityRole="button"
+                    onPress={handleRename}
+                    disabled={
+                      busy || !draftTitle.trim() || draftTitle.trim() === title
+                    }
+                    style={{ marginLeft: 8, padding: 8 }}
+                  >
+                    <Text
+                      style={{
+                        color:
+                          draftTitle.trim() && draftTitle.trim() !== title
+                            ? colors.pink
+                            : colors.subtext,
+                        fontWeight: '700',
+                      }}
+                    >
+                      変更
+                    </Text>
+                  </Pressable>
+                </View>
+              )}
+              {loading ? (
+                <ActivityIndicator color={colors.pink} />
+              ) : (
+                <FlatList
+                  data={members}
+                  keyExtractor={m => m.user.id}
+                  renderItem={({ item }) => (
+                    <Pressable
+                      onPress={() => openMemberMenu(item)}
+                      disabled={!canManage}
+                      style={{
+                        flexDirection: 'row',
+                        alignItems: 'center',
+                        paddingVertical: 10,
+                      }}
+                    >
+                      <Text style={{ fontSize: 18, marginRight: 10 }}>
+                        {item.user.avatar_emoji || '👤'}
+                      </Text>
+                      <Text
+                        style={{ color: colors.text, flex: 1 }}
+                        numberOfLines={1}
+                      >
+                        {item.user.display_name ||
+                          item.user.username ||
+                          'メンバー'}
+                        {item.user.id === user?.id ? '（あなた）' : ''}
+                      </Text>
+                      {!!ROLE_LABEL[item.role] && (
+                        <Text style={{ color: colors.subtext, fontSize: 12 }}>
+                          {ROLE_LABEL[item.role]}
+                        </Text>
+                      )}
+                    </Pressable>
+                  )}
+                />
+              )}
+              {canManage &&
+                members.length < ChatConstraints.group.maxMembers && (
+                  <Pressable
+                    accessibilityRole="button"
+                    onPress={() => setAdding([])}
+                    style={{ paddingVertical: 12, alignItems: 'center' }}
+                  >
+                    <Text style={{ color: colors.pink, fontWeight: '700' }}>
+                      ＋ メンバーを追加
+                    </Text>
+                  </Pressable>
+                )}
+              <Pressable
+                accessibilityRole="button"
+                onPress={handleLeave}
+                disabled={busy}
+                style={{ paddingVertical: 12, alignItems: 'center' }}
+              >
+                <Text style={{ color: '#ff6b6b', fontWeight: '700' }}>
+                  グループを退出
+                </Text>
+              </Pressable>
+            </>
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+}
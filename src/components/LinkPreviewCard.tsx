@@ -0,0 +1,71 @@
+import { View, Text, Pressable, Linking } from 'react-native';
+import { Image } from 'expo-image';
+
+import { useTheme } from '../theme/theme';
+import { LinkPreview } from '../types/post';
+import { displayHost } from '../utils/linkPreview';
+
+type Props = {
+  preview: LinkPreview;
+  // 吹き出しの中では幅を詰める
+  compact?: boolean;
+};
+
+/** 本文中の URL のプレビュー。タップでブラウザを開く */
+export default function LinkPreviewCard({ preview, compact = false }: Props) {
+  const theme = useTheme();
+  const { colors } = theme;
+  const host = preview.site_name || displayHost(preview.url);
+
+  const open = async () => {
+    try {
+      await Linking.openURL(preview.url);
+    } catch {}
+  };
+
+  return (
+    <Pressable
+      accessibilityRole="link"
+      accessibilityLabel={`リンク: ${preview.title || host}`}
+      onPress={open}
+      style={({ pressed }) => ({
+        marginTop: 8,
+        width: compact ? 240 : undefined,
+        borderRadius: theme.radius.md,
+        borderWidth: 1,
+        borderColor: colors.border,
+        backgroundColor: colors.surface,
+        overflow: 'hidden',
+        opacity: pressed ? 0.8 : 1,
+      })}
+    >
+      {!!preview.image_url && (
+        <Image
+          source={{ uri: preview.image_url }}
+          style={{ width: '100%', aspectRatio: compact ? 1.91 : 2 }}
+          contentFit="cover"
+          transition={200}
+        />
+      )}
+      <View style={{ padding: 10 }}>
+        <Text style={{ color: colors.subtext, fontSize: 11 }} numberOfLines={1}>
+          {host}
+        </Text>
+        <Text
+          style={{ color: colors.text, fontSize: 14, fontWeight: '700' }}
+          numberOfLines={2}
+        >
+          {preview.title}
+        </Text>
+        {!!preview.description && (
+          <Text
+            style={{ color: colors.subtext, fontSize: 12, marginTop: 2 }}
+            numberOfLines={compact ? 2 : 3}
+          >
+            {preview.description}
+          </Text>
+        )}
+      </View>
+    </Pressable>
+  );
+}
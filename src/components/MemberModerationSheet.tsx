@@ -0,0 +1,199 @@
+import { useEffect, useState } from 'react';
+import { Modal, Text, Pressable, Alert } from 'react-native';
+
+import { useTheme } from '../theme/theme';
+import { ChannelMember, ChannelMemberWithUser } from '../types/room';
+import { MUTE_DURATIONS } from '../utils/spaceModeration';
+import { notifyError, notifyInfo } from '../utils/notify';
+
+type Props = {
+  member: ChannelMemberWithUser | null; // null のときは閉じている
+  actorRole: ChannelMember['role'] | null;
+  onClose: () => void;
+  // どれも失敗時はエラーメッセージ、成功時は null を返す
+  onSetRole: (
+    userId: string,
+    role: 'moderator' | 'member'
+  ) => Promise<string | null>;
+  onMute: (userId: string, minutes: number) => Promise<string | null>;
+  onKick: (userId: string) => Promise<string | null>;
+  onBan: (userId: string) => Promise<string | null>;
+  onDone?: () => void; // 操作が成功したあと（メンバー一覧の再取得など）
+};
+
+/** メンバー一覧から開く、オーナー・モデレーター向けの操作シート */
+export default function MemberModerationSheet({
+  member,
+  actorRole,
+  onClose,
+  onSetRole,
+  onMute,
+  onKick,
+  onBan,
+  onDone,
+}: Props) {
+  const theme = useTheme();
+  const { colors } = theme;
+  const [choosingMute, setChoosingMute] = useState(false);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    if (!member) {
+      setChoosingMute(false);
+    }
+  }, [member]);
+
+  if (!member) {
+    return null;
+  }
+  const name = member.user?.display_name || member.user?.username || 'ユーザー';
+
+  const run = async (op: () => Promise<string | null>, done: string) => {
+    setBusy(true);
+    const failure = await op();
+    setBusy(false);
+    if (failure) {
+      notifyError(failure);
+      return;
+    }
+    notifyInfo(done);
+    onClose();
+    onDone?.();
+  };
+
+  const confirm = (
+    title: string,
+    message: string,
+    label: string,
+    op: () => Promise<string | null>,
+    done: string
+  ) => {
+    Alert.alert(title, message, [
+      { text: 'キャンセル', style: 'cancel' },
+      { text: label, style: 'destructive', onPress: () => run(op, done) },
+    ]);
+  };
+
+  const button = (label: string, onPress: () => void, destructive = false) => (
+    <Pressable
+      key={label}
+      accessibilityRole="button"
+      onPress={onPress}
+      disabled={busy}
+      style={({ pressed }) => ({
+        paddingVertical: 12,
+        paddingHorizontal: 16,
+        borderRadius: theme.radius.md,
+        backgroundColor: pressed ? '#ffffff20' : colors.surface,
+        opacity: busy ? 0.5 : 1,
+      })}
+    >
+      <Text
+        style={{
+          color: destructive ? colors.danger : colors.text,
+          fontSize: 15,
+        }}
+      >
+        {label}
+      </Text>
+    </Pressable>
+  );
+
+  return (
+    <Modal visible animationType="fade" transparent onRequestClose={onClose}>
+      <Pressable
+        accessibilityRole="button"
+        accessibilityLabel="閉じる"
+        onPress={onClose}
+        style={{
+          flex: 1,
+          backgroundColor: 'rgba(0,0,0,0.5)',
+          justifyContent: 'flex-end',
+        }}
+      >
+        <Pressable
+          onPress={() => {}}
+          style={{
+            borderTopLeftRadius: 20,
+            borderTopRightRadius: 20,
+            padding: theme.spacing(2),
+            paddingBottom: theme.spacing(4),
+            backgroundColor: colors.card,
+            borderColor: colors.border,
+            borderWidth: 1,
+            gap: theme.spacing(1),
+          }}
+        >
+          <Text
+            style={{
+              color: colors.text,
+              fontSize: 17,
+              fontWeight: '700',
+              marginBottom: 4,
+            }}
+          >
+            {name}
+          </Text>
+          {choosingMute ? (
+            <>
+              <Text style={{ color: colors.subtext, fontSize: 13 }}>
+                ミュートする期間（その間はルームに投稿できません）
+              </Text>
+              {MUTE_DURATIONS.map(d =>
+                button(d.label, () =>
+                  run(
+                    () => onMute(member.user_id, d.minutes),
+                    `${name}さんを${d.label}ミュートしました`
+                  )
+                )
+              )}
+              {button('戻る', () => setChoosingMute(false))}
+            </>
+          ) : (
+            <>
+              {actorRole === 'owner' &&
+                (member.role === 'moderator'
+                  ? button('モデレーターから外す', () =>
+                      run(
+                        () => onSetRole(member.user_id, 'member'),
+                        `${name}さんをモデレーターから外しました`
+                      )
+                    )
+                  : button('モデレーターにする', () =>
+                      run(
+                        () => onSetRole(member.user_id, 'moderator'),
+                        `${name}さんをモデレーターにしました`
+                      )
+                    ))}
+              {button('一時的にミュート', () => setChoosingMute(true))}
+              {button(
+                'ルームから退出させる',
+                () =>
+                  confirm(
+                    '退出させる',
+                    `${name}さんをルームから退出させますか？\n本人はあとで参加し直せます。`,
+                    '退出させる',
+                    () => onKick(member.user_id),
+                    `${name}さんを退出させました`
+                  ),
+                true
+              )}
+              {button(
+                'BANする',
+                () =>
+                  confirm(
+                    'BAN',
+                    `${name}さんをBANしますか？\nルームから退出させ、再参加できなくします。`,
+                    'BANする',
+                    () => onBan(member.user_id),
+                    `${name}さんをBANしました`
+                  ),
+                true
+              )}
+            </>
+          )}
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+}
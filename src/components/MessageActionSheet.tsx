@@ -0,0 +1,156 @@
+import { useEffect, useState } from 'react';
+import { Modal, View, Text, Pressable } from 'react-native';
+
+import { useTheme } from '../theme/theme';
+import { QUICK_MESSAGE_REACTIONS } from '../utils/messageReactions';
+
+import EmojiPicker from './EmojiPicker';
+
+export type MessageAction = {
+  label: string;
+  destructive?: boolean;
+  onPress: () => void;
+};
+
+type Props = {
+  visible: boolean;
+  onClose: () => void;
+  onReact: (emoji: string) => void;
+  // リアクション以外の操作（削除・報告など）
+  actions?: MessageAction[];
+};
+
+/** メッセージ長押しで開く、リアクションの選択と操作のシート */
+export default function MessageActionSheet({
+  visible,
+  onClose,
+  onReact,
+  actions = [],
+}: Props) {
+  const theme = useTheme();
+  const { colors } = theme;
+  const [showAll, setShowAll] = useState(false);
+
+  useEffect(() => {
+    if (!visible) {
+      setShowAll(false);
+    }
+  }, [visible]);
+
+  const react = (emoji: string) => {
+    onClose();
+    onReact(emoji);
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="fade"
+      transparent
+      onRequestClose={onClose}
+    >
+      <Pressable
+        accessibilityRole="button"
+        accessibilityLabel="閉じる"
+        onPress={onClose}
+        style={{
+          flex: 1,
+          backgroundColor: 'rgba(0,0,0,0.5)',
+          justifyContent: 'flex-end',
+        }}
+      >
+        <Pressable
+          onPress={() => {}}
+          style={{
+            borderTopLeftRadius: 20,
+            borderTopRightRadius: 20,
+            padding: theme.spacing(2),
+            paddingBottom: theme.spacing(4),
+            backgroundColor: colors.card,
+            borderColor: colors.border,
+            borderWidth: 1,
+            gap: theme.spacing(1.5),
+          }}
+        >
+          <View
+            style={{
+              flexDirection: 'row',
+              justifyContent: 'space-between',
+              alignItems: 'center',
+            }}
+          >
+            {QUICK_MESSAGE_REACTIONS.map(emoji => (
+              <Pressable
+                key={emoji}
+                accessibilityRole="button"
+                accessibilityLabel={`${emoji}でリアクション`}
+                onPress={() => react(emoji)}
+                style={({ pressed }) => ({
+                  width: 44,
+                  height: 44,
+                  borderRadius: 22,
+                  alignItems: 'center',
+                  justifyContent: 'center',
+                  backgroundColor: pressed ? colors.surface : '#ffffff10',
+                })}
+              >
+                <Text style={{ fontSize: 24 }}>{emoji}</Text>
+              </Pressable>
+            ))}
+            <Pressable
+              accessibilityRole="button"
+              accessibilityLabel="ほかの絵文字を選ぶ"
+              accessibilityState={{ expanded: showAll }}
+              onPress={() => setShowAll(v => !v)}
+              style={({ pressed }) => ({
+                width: 44,
+                height: 44,
+                borderRadius: 22,
+                alignItems: 'center',
+                justifyContent: 'center',
+                backgroundColor:
+                  showAll || pressed ? colors.pink + '30' : '#ffffff10',
+              })}
+            >
+              <Text style={{ fontSize: 20, color: colors.text }}>＋</Text>
+            </Pressable>
+          </View>
+
+          {showAll && (
+            <EmojiPicker
+              onEmojiSelect={react}
+              title="リアクションを選択"
+              hint={null}
+            />
+          )}
+
+          {actions.map(action => (
+            <Pressable
+              key={action.label}
+              accessibilityRole="button"
+              onPress={() => {
+                onClose();
+                action.onPress();
+              }}
+              style={({ pressed }) => ({
+                paddingVertical: 12,
+                borderRadius: theme.radius.md,
+                alignItems: 'center',
+                backgroundColor: pressed ? colors.surface : '#ffffff10',
+              })}
+            >
+              <Text
+                style={{
+                  color: action.destructive ? '#ff6b6b' : colors.text,
+                  fontWeight: '700',
+                }}
+              >
+                {action.label}
+              </Text>
+            </Pressable>
+          ))}
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+}
@@ -0,0 +1,79 @@
+import { View, Text, Pressable } from 'react-native';
+
+import { useTheme } from '../theme/theme';
+import { MessageReaction } from '../types/chat';
+import { groupReactions } from '../utils/messageReactions';
+
+type Props = {
+  reactions: MessageReaction[] | undefined;
+  myUserId: string | null | undefined;
+  align?: 'left' | 'right';
+  onToggle: (emoji: string) => void;
+  // 長押しで「リアクションした人」を開く
+  onShowReactors: () => void;
+};
+
+/** 吹き出しの下に並べる絵文字ごとのリアクション */
+export default function MessageReactions({
+  reactions,
+  myUserId,
+  align = 'left',
+  onToggle,
+  onShowReactors,
+}: Props) {
+  const { colors } = useTheme();
+  const chips = groupReactions(reactions, myUserId);
+  if (chips.length === 0) {
+    return null;
+  }
+
+  return (
+    <View
+      style={{
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        justifyContent: align === 'right' ? 'flex-end' : 'flex-start',
+        gap: 4,
+        marginTop: 4,
+      }}
+    >
+      {chips.map(chip => (
+        <Pressable
+          key={chip.emoji}
+          accessibilityRole="button"
+          accessibilityLabel={`${chip.emoji} ${chip.count}件${chip.reactedByMe ? '（リアクション済み）' : ''}`}
+          accessibilityHint="長押しでリアクションした人を表示"
+          onPress={() => onToggle(chip.emoji)}
+          onLongPress={onShowReactors}
+          hitSlop={4}
+          style={({ pressed }) => ({
+            flexDirection: 'row',
+            alignItems: 'center',
+            paddingHorizontal: 8,
+            paddingVertical: 3,
+            borderRadius: 999,
+            borderWidth: 1,
+            borderColor: chip.reactedByMe ? colors.pink : '#ffffff20',
+            backgroundColor: chip.reactedByMe
+              ? colors.pink + '30'
+              : pressed
+                ? '#ffffff20'
+                : '#ffffff10',
+          })}
+        >
+          <Text style={{ fontSize: 13 }}>{chip.emoji}</Text>
+          <Text
+            style={{
+              marginLeft: 4,
+              fontSize: 12,
+              fontWeight: '700',
+              color: chip.reactedByMe ? colors.pink : colors.subtext,
+            }}
+          >
+            {chip.count}
+          </Text>
+        </Pressable>
+      ))}
+    </View>
+  );
+}
@@ -0,0 +1,93 @@
+import { useEffect, useState } from 'react';
+import { View, Text, Pressable, Alert } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+
+import { useTheme } from '../theme/theme';
+import { PinnedMessage } from '../types/chat';
+
+type Props = {
+  pins: PinnedMessage[]; // 新しく留めた順
+  onPressPin: (pin: PinnedMessage) => void;
+  onUnpin: (pin: PinnedMessage) => void;
+};
+
+function previewText(pin: PinnedMessage): string {
+  if (pin.metadata?.e2e_status === 'undecryptable') {
+    return '暗号化メッセージ';
+  }
+  if (pin.message_type === 'audio') {
+    return '🎤 ボイスメッセージ';
+  }
+  const text = pin.content === '[image]' ? '' : pin.content.trim();
+  if (text) {
+    return text.replace(/\s+/g, ' ');
+  }
+  const hasImage =
+    (pin.metadata?.attachments?.length ?? 0) > 0 ||
+    (pin.attachments?.length ?? 0) > 0;
+  return hasImage ? '📷 画像' : 'メッセージ';
+}
+
+/** ヘッダー下のピン留めバー。タップでそのメッセージへ移動し、次のピンに切り替わる */
+export default function PinnedMessagesBar({
+  pins,
+  onPressPin,
+  onUnpin,
+}: Props) {
+  const theme = useTheme();
+  const { colors } = theme;
+  const [index, setIndex] = useState(0);
+
+  useEffect(() => {
+    setIndex(i => (i < pins.length ? i : 0));
+  }, [pins.length]);
+
+  const pin = pins[index];
+  if (!pin) {
+    return null;
+  }
+
+  const confirmUnpin = () =>
+    Alert.alert(
+      'ピン留めを外しますか？',
+      'メンバー全員のピン留めから外れます。',
+      [
+        { text: 'キャンセル', style: 'cancel' },
+        { text: '外す', style: 'destructive', onPress: () => onUnpin(pin) },
+      ]
+    );
+
+  return (
+    <Pressable
+      accessibilityRole="button"
+      accessibilityLabel={`ピン留めしたメッセージ ${index + 1}/${pins.length}: ${previewText(pin)}`}
+      accessibilityHint="タップでメッセージへ移動、長押しでピン留めを外す"
+      onPress={() => {
+        onPressPin(pin);
+        setIndex(i => (i + 1) % pins.length);
+      }}
+      onLongPress={confirmUnpin}
+      style={({ pressed }) => ({
+        flexDirection: 'row',
+        alignItems: 'center',
+        paddingHorizontal: theme.spacing(2),
+        paddingVertical: 8,
+        backgroundColor: pressed ? colors.surface : colors.card,
+        borderBottomWidth: 1,
+        borderBottomColor: colors.border,
+      })}
+    >
+      <Ionicons name="pin" size={16} color={colors.pink} />
+      <View style={{ flex: 1, marginLeft: 8 }}>
+        <Text style={{ color: colors.pink, fontSize: 12, fontWeight: '700' }}>
+          {pins.length > 1
+            ? `ピン留め ${index + 1}/${pins.length}`
+            : 'ピン留め'}
+        </Text>
+        <Text style={{ color: colors.text, fontSize: 13 }} numberOfLines={1}>
+          {previewText(pin)}
+        </Text>
+      </View>
+    </Pressable>
+  );
+}
@@ -0,0 +1,211 @@
+import { useEffect, useRef, useState } from 'react';
+import { View, Text, Pressable } from 'react-native';
+
+import { useTheme } from '../theme/theme';
+import { Poll } from '../types/post';
+import {
+  applyMyVote,
+  fetchPoll,
+  isPollClosed,
+  pollPercentages,
+  unvotePoll,
+  votePoll,
+} from '../services/pollService';
+import { getSupabaseClient } from '../services/supabaseClient';
+import { notifyError } from '../utils/notify';
+
+function formatRemaining(closesAt: string, now: Date): string {
+  const ms = new Date(closesAt).getTime() - now.getTime();
+  if (ms <= 0) {
+    return '締切済み';
+  }
+  const minutes = Math.ceil(ms / 60000);
+  if (minutes < 60) {
+    return `残り${minutes}分`;
+  }
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) {
+    return `残り${hours}時間`;
+  }
+  return `残り${Math.floor(hours / 24)}日`;
+}
+
+export default function PollView({
+  poll: initialPoll,
+  isOwner = false,
+}: {
+  poll: Poll;
+  isOwner?: boolean;
+}) {
+  const theme = useTheme();
+  const { colors } = theme;
+  const [poll, setPoll] = useState<Poll>(initialPoll);
+  const [busy, setBusy] = useState(false);
+  const refetchTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const postId = initialPoll.post_id;
+
+  useEffect(() => {
+    setPoll(initialPoll);
+  }, [initialPoll]);
+
+  // 他のユーザーの投票をリアルタイムに反映（連続した変更はまとめて取り直す）
+  useEffect(() => {
+    let channel: any;
+    try {
+      const client = getSupabaseClient();
+      channel = client
+        .channel(`poll-${postId}`)
+        .on(
+          'postgres_changes',
+          {
+            event: '*',
+            schema: 'public',
+            table: 'post_poll_votes',
+            filter: `post_id=eq.${postId}`,
+          },
+          () => {
+            if (refetchTimer.current) {
+              clearTimeout(refetchTimer.current);
+            }
+            refetchTimer.current = setTimeout(async () => {
+              try {
+                const latest = await fetchPoll(postId);
+                if (latest) {
+                  setPoll(latest);
+                }
+              } catch {}
+            }, 500);
+          }
+        )
+        .subscribe();
+    } catch {}
+    return () => {
+      if (refetchTimer.current) {
+        clearTimeout(refetchTimer.current);
+      }
+      try {
+        if (channel) {
+          getSupabaseClient().removeChannel(channel);
+        }
+      } catch {}
+    };
+  }, [postId]);
+
+  const now = new Date();
+  const closed = isPollClosed(poll, now);
+  const hasVoted = poll.options.some(o => o.votedByMe);
+  // 投票前は結果を見せない（締切後と投稿者本人は常に表示）
+  const showResults = closed || hasVoted || isOwner;
+  const percentages = pollPercentages(poll);
+
+  const submit = async (optionIds: string[]) => {
+    if (busy || closed) {
+      return;
+    }
+    const prev = poll;
+    setPoll(applyMyVote(poll, optionIds));
+    setBusy(true);
+    try {
+      const latest =
+        optionIds.length > 0
+          ? await votePoll(postId, optionIds)
+          : await unvotePoll(postId);
+      if (latest) {
+        setPoll(latest);
+      }
+    } catch {
+      setPoll(prev);
+      notifyError('投票に失敗しました');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handlePress = (optionId: string) => {
+    const mine = poll.options.filter(o => o.votedByMe).map(o => o.id);
+    if (poll.allows_multiple) {
+      submit(
+        mine.includes(optionId)
+          ? mine.filter(id => id !== optionId)
+          : [...mine, optionId]
+      );
+      return;
+    }
+    // 単一選択: 同じ選択肢をもう一度タップで取り消し
+    submit(mine.includes(optionId) ? [] : [optionId]);
+  };
+
+  return (
+    <View style={{ marginBottom: theme.spacing(1.5), gap: 6 }}>
+      {poll.options.map((o, idx) => {
+        const pct = percentages[idx] ?? 0;
+        return (
+          <Pressable
+            key={o.id}
+            accessibilityRole={poll.allows_multiple ? 'checkbox' : 'radio'}
+            accessibilityLabel={
+              showResults ? `${o.label} ${pct}%` : `${o.label}に投票`
+            }
+            accessibilityState={{
+              checked: o.votedByMe,
+              disabled: closed || busy,
+            }}
+            disabled={closed || busy}
+            onPress={e => {
+              e.stopPropagation();
+              handlePress(o.id);
+            }}
+            style={({ pressed }) => ({
+              borderRadius: 12,
+              overflow: 'hidden',
+              borderWidth: 1,
+              borderColor: o.votedByMe ? colors.pink : colors.border,
+              backgroundColor: colors.surface,
+              transform: [{ scale: pressed ? 0.98 : 1 }],
+            })}
+          >
+            {showResults && (
+              <View
+                style={{
+                  position: 'absolute',
+                  top: 0,
+                  bottom: 0,
+                  left: 0,
+                  width: `${pct}%`,
+                  backgroundColor: o.votedByMe
+                    ? colors.pink + '55'
+                    : colors.pink + '22',
+                }}
+              />
+            )}
+            <View
+              style={{
+                flexDirection: 'row',
+                alignItems: 'center',
+                paddingHorizontal: 12,
+                paddingVertical: 8,
+              }}
+            >
+              <Text
+                style={{ color: colors.text, flex: 1, fontSize: 15 }}
+                numberOfLines={2}
+              >
+                {o.votedByMe ? '✓ ' : ''}
+                {o.label}
+              </Text>
+              {showResults && (
+                <Text style={{ color: colors.subtext, fontSize: 13 }}>
+                  {pct}%
+                </Text>
+              )}
+            </View>
+          </Pressable>
+        );
+      })}
+      <Text style={{ color: colors.subtext, fontSize: 12 }}>
+        {poll.voter_count}人が投票 ・ {formatRemaining(poll.closes_at, now)}
+        {poll.allows_multiple ? ' ・ 複数選択可' : ''}
+      </Text>
+    </View>
+  );
+}
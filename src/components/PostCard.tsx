@@ -1,11 +1,5 @@
-import React, { useMemo, useRef, useState } from 'react';
-import {
-  View,
-  Text,
-  Pressable,
-  Animated,
-  Alert,
-} from 'react-native';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { View, Text, Pressable, Animated, Alert } from 'react-native';
 import { Image } from 'expo-image';
 import ImageViewing from 'react-native-image-viewing';
 import { BlurView } from 'expo-blur';
@@ -13,33 +7,53 @@ import * as Haptics from 'expo-haptics';
 
 import { useTheme } from '../theme/theme';
 import { useHandPreference } from '../contexts/HandPreferenceContext';
-import { PostWithMeta } from '../types/post';
+import { PostBookmark, PostWithMeta, ReactionKind } from '../types/post';
 import { submitReport } from '../services/reportService';
 import { blockUser } from '../services/blockService';
+import { canEditPost } from '../services/postService';
+import {
+  bookmarkPost,
+  listCollections,
+  removeBookmark,
+} from '../services/bookmarkService';
 import { REPORT_REASONS } from '../utils/reportReasons';
 import { notifyError, notifyInfo } from '../utils/notify';
+import {
+  DEFAULT_REACTION_KIND,
+  REACTION_OPTIONS,
+  reactionEmoji,
+} from '../utils/postReactions';
+import { contentWarningLabel } from '../utils/contentWarnings';
 
 import VerifiedBadge from './VerifiedBadge';
 import ExpandableText from './ExpandableText';
+import PollView from './PollView';
+import LinkPreviewCard from './LinkPreviewCard';
+import PostEditHistoryModal from './PostEditHistoryModal';
+import SharePostModal from './SharePostModal';
 
 function PostCard({
   post,
   onOpenComments,
   onOpenUser,
-  onToggleLike,
+  onReact,
   commentDelta = 0,
   reactionDelta = 0,
   isOwner = false,
   onDelete,
+  onEdit,
 }: {
   post: PostWithMeta;
   onOpenComments?: (postId: string) => void;
   onOpenUser?: (userId: string) => void;
-  onToggleLike?: (postId: string, current: boolean) => void;
+  // kind はタップされた種類。現在と同じ種類なら取り消しとして扱う
+  onReact?: (postId: string, kind: ReactionKind) => void;
   commentDelta?: number;
   reactionDelta?: number;
   isOwner?: boolean;
   onDelete?: (postId: string) => void;
+  // 本人かつ編集期限内のときだけ編集ボタンを出す
+  onEdit?: (post: PostWithMeta) => void;
 }) {
   const theme = useTheme();
   const { colors } = theme;
@@ -104,14 +118,20 @@ function PostCard({
     reactedByMe: false,
     count: 0,
   };
+  const myReaction: ReactionKind | null = baseReaction.reactedByMe
+    ? (baseReaction.myReaction ?? DEFAULT_REACTION_KIND)
+    : null;
+  const reactionChips = REACTION_OPTIONS.filter(
+    o => (baseReaction.byKind?.[o.kind] || 0) > 0
+  );
   const baseComment = post.comment_summary || { count: 0 };
   const likeCount = Math.max(
     0,
-    (baseReaction.count || 0) + (reactionDelta || 0),
+    (baseReaction.count || 0) + (reactionDelta || 0)
   );
   const commentCount = Math.max(
     0,
-    (baseComment.count || 0) + (commentDelta || 0),
+    (baseComment.count || 0) + (commentDelta || 0)
   );
   const likeText = useMemo(
     () => (likeCount > 0 ? `${likeCount}` : ''),
@@ -123,14 +143,78 @@ function PostCard({
   );
 
   const [likeBusy, setLikeBusy] = React.useState(false as boolean);
+  const [pickerOpen, setPickerOpen] = useState(false);
+  // 警告つきの投稿は本文・画像・投票をタップするまで折りたたむ
+  const warning = contentWarningLabel(post.content_warning);
+  const [warningRevealed, setWarningRevealed] = useState(false);
+  const hidden = !!warning && !warningRevealed;
+  const visibleAttachments =
+    !hidden && Array.isArray(post.attachments) ? post.attachments : [];
   const [viewer, setViewer] = useState<{ visible: boolean; index: number }>({
     visible: false,
     index: 0,
   });
-  const handleLike = async () => {
+  const [bookmark, setBookmark] = useState<PostBookmark | null>(
+    post.bookmark ?? null
+  );
+  const [bookmarkBusy, setBookmarkBusy] = useState(false);
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [shareOpen, setShareOpen] = useState(false);
+  useEffect(() => {
+    setBookmark(post.bookmark ?? null);
+  }, [post.bookmark]);
+  const saveBookmark = async (collectionId: string | null) => {
+    setBookmarkBusy(true);
+    try {
+      setBookmark(await bookmarkPost(post.id, collectionId));
+      notifyInfo('保存しました');
+    } catch {
+      notifyError('保存に失敗しました');
+    } finally {
+      setBookmarkBusy(false);
+    }
+  };
+  // 保存済みなら解除。未保存ならコレクションを選んで保存する（なければ未分類）
+  const handleBookmark = async () => {
+    if (bookmarkBusy) {
+      return;
+    }
+    if (bookmark) {
+      const prev = bookmark;
+      setBookmark(null);
+      setBookmarkBusy(true);
+      try {
+        await removeBookmark(post.id);
+      } catch {
+        setBookmark(prev);
+        notifyError('保存の解除に失敗しました');
+      } finally {
+        setBookmarkBusy(false);
+      }
+      return;
+    }
+    let collections: { id: string; name: string }[] = [];
+    try {
+      collections = await listCollections();
+    } catch {}
+    if (collections.length === 0) {
+      await saveBookmark(null);
+      return;
+    }
+    Alert.alert('保存先を選択', undefined, [
+      { text: '未分類', onPress: () => saveBookmark(null) },
+      ...collections.map(c => ({
+        text: c.name,
+        onPress: () => saveBookmark(c.id),
+      })),
+      { text: 'キャンセル', style: 'cancel' as const },
+    ]);
+  };
+  const handleLike = async (kind: ReactionKind) => {
     if (likeBusy) {
       return;
     }
+    setPickerOpen(false);
     setLikeBusy(true);
     await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
     Animated.sequence([
@@ -153,7 +237,7 @@ function PostCard({
       duration: 450,
       useNativeDriver: true,
     }).start();
-    onToggleLike && onToggleLike(post.id, baseReaction.reactedByMe);
+    onReact && onReact(post.id, kind);
     setLikeBusy(false);
   };
 
@@ -235,6 +319,27 @@ function PostCard({
             >
               {new Date(post.created_at).toLocaleString()}
             </Text>
+            {!!post.edited_at && (
+              <Pressable
+                accessibilityRole="button"
+                accessibilityLabel="編集履歴を見る"
+                onPress={e => {
+                  e.stopPropagation();
+                  setHistoryOpen(true);
+                }}
+                hitSlop={{ top: 8, bottom: 8, left: 4, right: 4 }}
+              >
+                <Text
+                  style={{
+                    color: colors.subtext,
+                    fontSize: 12,
+                    textDecorationLine: 'underline',
+                  }}
+                >
+                  編集済み
+                </Text>
+              </Pressable>
+            )}
             {!isOwner && (
               <Pressable
                 accessibilityRole="button"
@@ -255,20 +360,23 @@ function PostCard({
         </View>
 
         {/* CONTENT SECTION: Post Body (hide placeholder when attachments-only) */}
-        {post.body && post.body !== '[image]' && (
+        {((post.body && post.body !== '[image]') || hidden) && (
           <ExpandableText
-            text={post.body}
+            text={post.body === '[image]' ? '' : post.body}
             maxLines={3}
             containerStyle={{ marginBottom: theme.spacing(2) }}
             textStyle={{ color: colors.text, fontSize: 16, lineHeight: 24 }}
+            contentWarning={warning}
+            revealed={warningRevealed}
+            onReveal={() => setWarningRevealed(true)}
           />
         )}
 
         {/* Attachments thumbnails */}
-        {Array.isArray(post.attachments) && post.attachments.length > 0 && (
+        {visibleAttachments.length > 0 && (
           <View style={{ marginBottom: theme.spacing(1.5) }}>
             <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: 8 }}>
-              {post.attachments.slice(0, 4).map((att, idx) => (
+              {visibleAttachments.slice(0, 4).map((att, idx) => (
                 <Pressable
                   key={idx}
                   onPress={() => setViewer({ visible: true, index: idx })}
@@ -304,6 +412,90 @@ function PostCard({
           </View>
         )}
 
+        {/* Link preview */}
+        {post.link_preview && !hidden && (
+          <LinkPreviewCard preview={post.link_preview} />
+        )}
+
+        {/* Poll */}
+        {post.poll && !hidden && (
+          <PollView poll={post.poll} isOwner={isOwner} />
+        )}
+
+        {/* Reaction counts by kind */}
+        {reactionChips.length > 0 && (
+          <View
+            style={{
+              flexDirection: 'row',
+              flexWrap: 'wrap',
+              gap: 6,
+              marginBottom: theme.spacing(1),
+            }}
+          >
+            {reactionChips.map(o => (
+              <View
+                key={o.kind}
+                accessibilityLabel={`${o.label} ${baseReaction.byKind?.[o.kind] || 0}件`}
+                style={{
+                  flexDirection: 'row',
+                  alignItems: 'center',
+                  paddingHorizontal: 8,
+                  paddingVertical: 2,
+                  borderRadius: 999,
+                  backgroundColor:
+                    myReaction === o.kind ? colors.pink + '33' : colors.surface,
+                }}
+              >
+                <Text>{o.emoji}</Text>
+                <Text
+                  style={{ color: colors.subtext, fontSize: 12, marginLeft: 4 }}
+                >
+                  {baseReaction.byKind?.[o.kind]}
+                </Text>
+              </View>
+            ))}
+          </View>
+        )}
+
+        {/* Reaction picker (long-press on like button) */}
+        {pickerOpen && (
+          <View
+            style={{
+              flexDirection: 'row',
+              alignSelf: handPreference === 'right' ? 'flex-end' : 'flex-start',
+              gap: 4,
+              padding: 6,
+              marginBottom: theme.spacing(1),
+              borderRadius: 999,
+              backgroundColor: colors.surface,
+            }}
+          >
+            {REACTION_OPTIONS.map(o => (
+              <Pressable
+                key={o.kind}
+                accessibilityRole="button"
+                accessibilityLabel={o.label}
+                accessibilityState={{ selected: myReaction === o.kind }}
+                onPress={e => {
+                  e.stopPropagation();
+                  handleLike(o.kind);
+                }}
+                style={({ pressed }) => ({
+                  paddingHorizontal: 8,
+                  paddingVertical: 4,
+                  borderRadius: 999,
+                  backgroundColor:
+                    myReaction === o.kind ? colors.pink + '33' : 'transparent',
+                  transform: [{ scale: pressed ? 1.2 : 1 }],
+                })}
+                hitSlop={{ top: 6, bottom: 6, left: 2, right: 2 }}
+              >
+                <Text style={{ fontSize: 20 }}>{o.emoji}</Text>
+              </Pressable>
+            ))}
+          </View>
+        )}
+
         {/* BOTTOM ACTION BAR: Like, Comment, Delete */}
         <View
           style={{
@@ -328,10 +520,17 @@ function PostCard({
               disabled={likeBusy}
               onPress={e => {
                 e.stopPropagation();
-                handleLike();
+                handleLike(myReaction ?? DEFAULT_REACTION_KIND);
+              }}
+              onLongPress={async e => {
+                e.stopPropagation();
+                await Haptics.selectionAsync();
+                setPickerOpen(open => !open);
               }}
+              delayLongPress={300}
               accessibilityRole="button"
               accessibilityLabel="共感"
+              accessibilityHint="長押しでリアクションの種類を選べます"
               style={({ pressed }) => [
                 {
                   flexDirection: 'row',
@@ -354,7 +553,7 @@ function PostCard({
                   fontWeight: '700',
                 }}
               >
-                {post.reaction_summary.reactedByMe ? '💗' : '🤍'}
+                {myReaction ? reactionEmoji(myReaction) : '🤍'}
               </Animated.Text>
               {likeText ? (
                 <Text style={{ color: colors.pink, marginLeft: 6 }}>
@@ -426,21 +625,45 @@ function PostCard({
                 </Text>
               ) : null}
             </Pressable>
-          </View>
 
-          {/* Right side: Delete button (only when owner AND handler provided) */}
-          {isOwner && !!onDelete && (
+            {/* Bookmark Button */}
+            <Pressable
+              accessibilityRole="button"
+              accessibilityLabel={bookmark ? '保存を解除' : '保存'}
+              accessibilityState={{ selected: !!bookmark }}
+              onPress={e => {
+                e.stopPropagation();
+                handleBookmark();
+              }}
+              style={({ pressed }) => [
+                {
+                  backgroundColor: colors.surface,
+                  paddingHorizontal: theme.spacing(1.25),
+                  paddingVertical: 8,
+                  borderRadius: 999,
+                  opacity: bookmarkBusy ? 0.6 : 1,
+                  transform: [{ scale: pressed ? 0.97 : 1 }],
+                },
+              ]}
+              hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+            >
+              <Text style={{ color: colors.pink, fontWeight: '700' }}>
+                {bookmark ? '🔖' : '📑'}
+              </Text>
+            </Pressable>
+
+            {/* Share Button */}
             <Pressable
               accessibilityRole="button"
-              accessibilityLabel="投稿を削除"
+              accessibilityLabel="メッセージやスペースにシェア"
               onPress={e => {
                 e.stopPropagation();
-                onDelete && onDelete(post.id);
+                setShareOpen(true);
               }}
               style={({ pressed }) => [
                 {
                   backgroundColor: colors.surface,
-                  paddingHorizontal: theme.spacing(1),
+                  paddingHorizontal: theme.spacing(1.25),
                   paddingVertical: 8,
                   borderRadius: 999,
                   transform: [{ scale: pressed ? 0.97 : 1 }],
@@ -448,24 +671,94 @@ function PostCard({
               ]}
               hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
             >
-              <Text style={{ color: colors.pink, fontWeight: '700' }}>🗑</Text>
+              <Text style={{ color: colors.pink, fontWeight: '700' }}>↗︎</Text>
             </Pressable>
-          )}
+          </View>
+
+          {/* Right side: owner actions */}
+          <View style={{ flexDirection: 'row', gap: 8 }}>
+            {/* Edit button (only within the edit window) */}
+            {isOwner && !!onEdit && canEditPost(post) && (
+              <Pressable
+                accessibilityRole="button"
+                accessibilityLabel="投稿を編集"
+                onPress={e => {
+                  e.stopPropagation();
+                  onEdit(post);
+                }}
+                style={({ pressed }) => [
+                  {
+                    backgroundColor: colors.surface,
+                    paddingHorizontal: theme.spacing(1),
+                    paddingVertical: 8,
+                    borderRadius: 999,
+                    transform: [{ scale: pressed ? 0.97 : 1 }],
+                  },
+                ]}
+                hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+              >
+                <Text style={{ color: colors.pink, fontWeight: '700' }}>
+                  ✏️
+                </Text>
+              </Pressable>
+            )}
+
+            {/* Delete button (only when owner AND handler provided) */}
+            {isOwner && !!onDelete && (
+              <Pressable
+                accessibilityRole="button"
+                accessibilityLabel="投稿を削除"
+                onPress={e => {
+                  e.stopPropagation();
+                  onDelete && onDelete(post.id);
+                }}
+                style={({ pressed }) => [
+                  {
+                    backgroundColor: colors.surface,
+                    paddingHorizontal: theme.spacing(1),
+                    paddingVertical: 8,
+                    borderRadius: 999,
+                    transform: [{ scale: pressed ? 0.97 : 1 }],
+                  },
+                ]}
+                hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+              >
+                <Text style={{ color: colors.pink, fontWeight: '700' }}>
+                  🗑
+                </Text>
+              </Pressable>
+            )}
+          </View>
         </View>
       </BlurView>
 
+      {!!post.edited_at && (
+        <PostEditHistoryModal
+          visible={historyOpen}
+          onClose={() => setHistoryOpen(false)}
+          postId={post.id}
+          currentBody={post.body}
+          editedAt={post.edited_at}
+        />
+      )}
+
+      <SharePostModal
+        postId={shareOpen ? post.id : null}
+        onClose={() => setShareOpen(false)}
+      />
+
       {/* Full screen viewer */}
       <ImageViewing
-        images={
-          post.attachments?.map(a => ({ uri: a.url || '' })) || []
-        }
+        images={post.attachments?.map(a => ({ uri: a.url || '' })) || []}
         imageIndex={viewer.index}
         visible={viewer.visible}
         onRequestClose={() => setViewer({ visible: false, index: 0 })}
         swipeToCloseEnabled={true}
         doubleTapToZoomEnabled={true}
         FooterComponent={({ imageIndex }) => (
-          <View style={{ padding: 20, paddingBottom: 40, alignItems: 'center' }}>
+          <View
+            style={{ padding: 20, paddingBottom: 40, alignItems: 'center' }}
+          >
             <Text style={{ color: '#FFF' }}>
               {imageIndex + 1} / {post.attachments?.length || 0}
             </Text>
@@ -490,7 +783,18 @@ export default React.memo(PostCard, (prev, next) => {
     // Compare summary counts
     prev.post.reaction_summary?.count === next.post.reaction_summary?.count &&
     prev.post.reaction_summary?.reactedByMe ===
-    next.post.reaction_summary?.reactedByMe &&
-    prev.post.comment_summary?.count === next.post.comment_summary?.count
+      next.post.reaction_summary?.reactedByMe &&
+    prev.post.reaction_summary?.myReaction ===
+      next.post.reaction_summary?.myReaction &&
+    JSON.stringify(prev.post.reaction_summary?.byKind) ===
+      JSON.stringify(next.post.reaction_summary?.byKind) &&
+    prev.post.comment_summary?.count === next.post.comment_summary?.count &&
+    prev.post.poll === next.post.poll &&
+    prev.post.link_preview === next.post.link_preview &&
+    prev.post.content_warning === next.post.content_warning &&
+    prev.post.body === next.post.body &&
+    prev.post.edited_at === next.post.edited_at &&
+    prev.post.bookmark?.collection_id === next.post.bookmark?.collection_id &&
+    !!prev.post.bookmark === !!next.post.bookmark
   );
 });
@@ -0,0 +1,155 @@
+import { useEffect, useState } from 'react';
+import {
+  Modal,
+  View,
+  Text,
+  Pressable,
+  FlatList,
+  ActivityIndicator,
+} from 'react-native';
+
+import { useTheme } from '../theme/theme';
+import { PostEdit } from '../types/post';
+import { fetchPostEditHistory } from '../services/postService';
+import { notifyError } from '../utils/notify';
+
+type Props = {
+  visible: boolean;
+  onClose: () => void;
+  postId: string;
+  currentBody: string;
+  editedAt: string;
+};
+
+type Version = { key: string; body: string; label: string };
+
+export default function PostEditHistoryModal({
+  visible,
+  onClose,
+  postId,
+  currentBody,
+  editedAt,
+}: Props) {
+  const theme = useTheme();
+  const { colors } = theme;
+  const [edits, setEdits] = useState<PostEdit[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!visible) {
+      return;
+    }
+    let cancelled = false;
+    (async () => {
+      setLoading(true);
+      try {
+        const history = await fetchPostEditHistory(postId);
+        if (!cancelled) {
+          setEdits(history);
+        }
+      } catch (e: any) {
+        notifyError(e?.message || '編集履歴の読み込みに失敗しました');
+      } finally {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [visible, postId]);
+
+  // 先頭が現在の本文。以降は書き換えられた日時の新しい順
+  const versions: Version[] = [
+    {
+      key: 'current',
+      body: currentBody,
+      label: `現在（${new Date(editedAt).toLocaleString()} に編集）`,
+    },
+    ...edits.map(e => ({
+      key: e.id,
+      body: e.body,
+      label: `${new Date(e.edited_at).toLocaleString()} まで`,
+    })),
+  ];
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      transparent
+      onRequestClose={onClose}
+    >
+      <View
+        style={{
+          flex: 1,
+          backgroundColor: 'rgba(0,0,0,0.5)',
+          justifyContent: 'flex-end',
+        }}
+      >
+        <View
+          style={{
+            maxHeight: '75%',
+            borderTopLeftRadius: 20,
+            borderTopRightRadius: 20,
+            padding: theme.spacing(2),
+            backgroundColor: colors.card,
+            borderColor: colors.border,
+            borderWidth: 1,
+          }}
+        >
+          <View
+            style={{
+              flexDirection: 'row',
+              justifyContent: 'space-between',
+              alignItems: 'center',
+              marginBottom: theme.spacing(1.5),
+            }}
+          >
+            <Text
+              style={{ color: colors.text, fontSize: 18, fontWeight: '700' }}
+            >
+              編集履歴
+            </Text>
+            <Pressable
+              accessibilityRole="button"
+              accessibilityLabel="閉じる"
+              onPress={onClose}
+              hitSlop={8}
+            >
+              <Text style={{ color: colors.subtext, fontSize: 16 }}>✕</Text>
+            </Pressable>
+          </View>
+          {loading ? (
+            <ActivityIndicator color={colors.pink} />
+          ) : (
+            <FlatList
+              data={versions}
+              keyExtractor={v => v.key}
+              ItemSeparatorComponent={() => <View style={{ height: 8 }} />}
+              renderItem={({ item }) => (
+                <View
+                  style={{
+                    padding: 12,
+                    borderRadius: theme.radius.md,
+                    backgroundColor: colors.surface,
+                  }}
+                >
+                  <Text style={{ color: colors.subtext, fontSize: 12 }}>
+                    {item.label}
+                  </Text>
+                  <Text
+                    style={{ color: colors.text, fontSize: 15, marginTop: 4 }}
+                  >
+                    {item.body}
+                  </Text>
+                </View>
+              )}
+            />
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+}
@@ -0,0 +1,146 @@
+import { useEffect, useState } from 'react';
+import {
+  Modal,
+  View,
+  Text,
+  Pressable,
+  TextInput,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+
+import { useTheme } from '../theme/theme';
+import { Post, PostWithMeta } from '../types/post';
+import { editPost } from '../services/postService';
+import { notifyError } from '../utils/notify';
+
+type Props = {
+  post: PostWithMeta | null;
+  onClose: () => void;
+  onSaved: (updated: Post) => void;
+};
+
+export default function PostEditModal({ post, onClose, onSaved }: Props) {
+  const theme = useTheme();
+  const { colors } = theme;
+  const [body, setBody] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    // 画像のみの投稿は本文が '[image]' なので空欄から始める
+    setBody(post && post.body !== '[image]' ? post.body : '');
+  }, [post]);
+
+  const handleSave = async () => {
+    if (!post || saving) {
+      return;
+    }
+    setSaving(true);
+    try {
+      onSaved(await editPost(post, body));
+      onClose();
+    } catch (e: any) {
+      notifyError(e?.message || '編集に失敗しました');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      visible={!!post}
+      animationType="slide"
+      transparent
+      onRequestClose={onClose}
+    >
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+        style={{
+          flex: 1,
+          backgroundColor: 'rgba(0,0,0,0.5)',
+          justifyContent: 'flex-end',
+        }}
+      >
+        <View
+          style={{
+            borderTopLeftRadius: 20,
+            borderTopRightRadius: 20,
+            padding: theme.spacing(2),
+            backgroundColor: colors.card,
+            borderColor: colors.border,
+            borderWidth: 1,
+          }}
+        >
+          <View
+            style={{
+              flexDirection: 'row',
+              justifyContent: 'space-between',
+              alignItems: 'center',
+              marginBottom: theme.spacing(1.5),
+            }}
+          >
+            <Text
+              style={{ color: colors.text, fontSize: 18, fontWeight: '700' }}
+            >
+              投稿を編集
+            </Text>
+            <Pressable
+              accessibilityRole="button"
+              accessibilityLabel="閉じる"
+              onPress={onClose}
+              hitSlop={8}
+            >
+              <Text style={{ color: colors.subtext, fontSize: 16 }}>✕</Text>
+            </Pressable>
+          </View>
+          <TextInput
+            multiline
+            value={body}
+            onChangeText={setBody}
+            maxLength={300}
+            placeholder="いまの気持ちをシェア"
+            placeholderTextColor={colors.subtext}
+            style={{
+              minHeight: 120,
+              maxHeight: 200,
+              color: colors.text,
+              fontSize: 16,
+              textAlignVertical: 'top',
+              backgroundColor: colors.surface,
+              borderRadius: theme.radius.md,
+              padding: 12,
+            }}
+          />
+          <View
+            style={{
+              flexDirection: 'row',
+              justifyContent: 'space-between',
+              alignItems: 'center',
+              marginTop: theme.spacing(1.5),
+            }}
+          >
+            <Text style={{ color: colors.subtext, fontSize: 12 }}>
+              {body.length}/300 ・ 編集前の本文は履歴として公開されます
+            </Text>
+            <Pressable
+              accessibilityRole="button"
+              accessibilityLabel="編集を保存"
+              disabled={saving}
+              onPress={handleSave}
+              style={({ pressed }) => ({
+                backgroundColor: colors.pink,
+                borderRadius: 999,
+                paddingHorizontal: 16,
+                paddingVertical: 8,
+                opacity: saving ? 0.5 : 1,
+                transform: [{ scale: pressed ? 0.97 : 1 }],
+              })}
+            >
+              <Text style={{ color: '#23181D', fontWeight: '700' }}>保存</Text>
+            </Pressable>
+          </View>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
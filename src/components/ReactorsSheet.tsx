@@ -0,0 +1,211 @@
+import { useEffect, useMemo, useState } from 'react';
+import {
+  Modal,
+  View,
+  Text,
+  Pressable,
+  FlatList,
+  ActivityIndicator,
+  Image,
+  ScrollView,
+} from 'react-native';
+
+import { useTheme } from '../theme/theme';
+import {
+  ReactionScope,
+  Reactor,
+  listReactors,
+} from '../services/messageReactionService';
+import { notifyError } from '../utils/notify';
+
+type Props = {
+  scope: ReactionScope;
+  messageId: string | null; // null のときは閉じている
+  onClose: () => void;
+  onOpenUser?: (userId: string) => void;
+};
+
+/** 「リアクションした人」の一覧。絵文字ごとに絞り込める */
+export default function ReactorsSheet({
+  scope,
+  messageId,
+  onClose,
+  onOpenUser,
+}: Props) {
+  const theme = useTheme();
+  const { colors } = theme;
+  const [reactors, setReactors] = useState<Reactor[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [filter, setFilter] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!messageId) {
+      return;
+    }
+    let cancelled = false;
+    setFilter(null);
+    setLoading(true);
+    listReactors(scope, messageId)
+      .then(list => {
+        if (!cancelled) {
+          setReactors(list);
+        }
+      })
+      .catch(() => {
+        if (!cancelled) {
+          notifyError('リアクションを読み込めませんでした');
+        }
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [scope, messageId]);
+
+  const tabs = useMemo(() => {
+    const counts = new Map<string, number>();
+    reactors.forEach(r => counts.set(r.emoji, (counts.get(r.emoji) || 0) + 1));
+    return Array.from(counts.entries());
+  }, [reactors]);
+  const shown = filter ? reactors.filter(r => r.emoji === filter) : reactors;
+
+  const renderTab = (key: string | null, label: string) => {
+    const selected = filter === key;
+    return (
+      <Pressable
+        key={key ?? 'all'}
+        accessibilityRole="button"
+        accessibilityState={{ selected }}
+        onPress={() => setFilter(key)}
+        style={{
+          paddingHorizontal: 12,
+          paddingVertical: 6,
+          borderRadius: 999,
+          marginRight: 6,
+          backgroundColor: selected ? colors.pink : colors.surface,
+        }}
+      >
+        <Text
+          style={{
+            color: selected ? '#23181D' : colors.text,
+            fontWeight: '700',
+          }}
+        >
+          {label}
+        </Text>
+      </Pressable>
+    );
+  };
+
+  return (
+    <Modal
+      visible={!!messageId}
+      animationType="slide"
+      transparent
+      onRequestClose={onClose}
+    >
+      <View
+        style={{
+          flex: 1,
+          backgroundColor: 'rgba(0,0,0,0.5)',
+          justifyContent: 'flex-end',
+        }}
+      >
+        <View
+          style={{
+            height: '60%',
+            borderTopLeftRadius: 20,
+            borderTopRightRadius: 20,
+            padding: theme.spacing(2),
+            backgroundColor: colors.card,
+            borderColor: colors.border,
+            borderWidth: 1,
+          }}
+        >
+          <View
+            style={{
+              flexDirection: 'row',
+              justifyContent: 'space-between',
+              alignItems: 'center',
+              marginBottom: theme.spacing(1.5),
+            }}
+          >
+            <Text
+              style={{ color: colors.text, fontSize: 18, fontWeight: '700' }}
+            >
+              リアクションした人
+            </Text>
+            <Pressable
+              accessibilityRole="button"
+              accessibilityLabel="閉じる"
+              onPress={onClose}
+              hitSlop={8}
+            >
+              <Text style={{ color: colors.subtext, fontWeight: '700' }}>
+                閉じる
+              </Text>
+            </Pressable>
+          </View>
+
+          <View style={{ marginBottom: theme.spacing(1.5) }}>
+            <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+              {renderTab(null, `すべて ${reactors.length}`)}
+              {tabs.map(([emoji, count]) =>
+                renderTab(emoji, `${emoji} ${count}`)
+              )}
+            </ScrollView>
+          </View>
+
+          {loading ? (
+            <ActivityIndicator color={colors.pink} />
+          ) : (
+            <FlatList
+              data={shown}
+              keyExtractor={r => `${r.user.id}:${r.emoji}`}
+              renderItem={({ item }) => (
+                <Pressable
+                  accessibilityRole="button"
+                  accessibilityLabel={`${item.user.display_name || item.user.username || 'ユーザー'}のプロフィールを開く`}
+                  disabled={!onOpenUser}
+                  onPress={() => {
+                    onClose();
+                    onOpenUser?.(item.user.id);
+                  }}
+                  style={{
+                    flexDirection: 'row',
+                    alignItems: 'center',
+                    paddingVertical: 10,
+                  }}
+                >
+                  {item.user.avatar_url ? (
+                    <Image
+                      source={{ uri: item.user.avatar_url }}
+                      style={{ width: 32, height: 32, borderRadius: 16 }}
+                    />
+                  ) : (
+                    <Text
+                      style={{ fontSize: 24, width: 32, textAlign: 'center' }}
+                    >
+                      {item.user.avatar_emoji || '👤'}
+                    </Text>
+                  )}
+                  <Text
+                    style={{ color: colors.text, flex: 1, marginLeft: 10 }}
+                    numberOfLines={1}
+                  >
+                    {item.user.display_name || item.user.username || 'ユーザー'}
+                  </Text>
+                  <Text style={{ fontSize: 20 }}>{item.emoji}</Text>
+                </Pressable>
+              )}
+            />
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+}
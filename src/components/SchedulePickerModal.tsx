@@ -0,0 +1,265 @@
+import { useEffect, useState } from 'react';
+import { Modal, View, Text, Pressable, ScrollView } from 'react-native';
+import { addDays, differenceInCalendarDays, format } from 'date-fns';
+import { ja } from 'date-fns/locale';
+
+import { useTheme } from '../theme/theme';
+import {
+  SCHEDULE_DAY_RANGE,
+  SCHEDULE_MINUTE_STEPS,
+  defaultScheduleDate,
+  scheduleDateAt,
+  schedulePresets,
+  validateScheduleTime,
+} from '../services/draftService';
+
+type Props = {
+  visible: boolean;
+  busy?: boolean;
+  onClose: () => void;
+  onConfirm: (date: Date) => void;
+};
+
+const HOURS = Array.from({ length: 24 }, (_, i) => i);
+
+const dayLabel = (dayOffset: number, now: Date) => {
+  if (dayOffset === 0) {
+    return '今日';
+  }
+  if (dayOffset === 1) {
+    return '明日';
+  }
+  return format(addDays(now, dayOffset), 'M/d(E)', { locale: ja });
+};
+
+/** 予約投稿の日時を選ぶシート（よく使う候補と、日付・時・分の指定） */
+export default function SchedulePickerModal({
+  visible,
+  busy,
+  onClose,
+  onConfirm,
+}: Props) {
+  const theme = useTheme();
+  const { colors } = theme;
+  const [now, setNow] = useState(() => new Date());
+  const [dayOffset, setDayOffset] = useState(0);
+  const [hour, setHour] = useState(0);
+  const [minute, setMinute] = useState(0);
+  const [errorText, setErrorText] = useState<string | null>(null);
+
+  const select = (date: Date, base: Date) => {
+    setDayOffset(differenceInCalendarDays(date, base));
+    setHour(date.getHours());
+    setMinute(date.getMinutes());
+    setErrorText(null);
+  };
+
+  // 開くたびに基準の時刻と初期値を取り直す
+  useEffect(() => {
+    if (!visible) {
+      return;
+    }
+    const current = new Date();
+    setNow(current);
+    select(defaultScheduleDate(current), current);
+  }, [visible]);
+
+  const selected = scheduleDateAt(dayOffset, hour, minute, now);
+
+  const handleConfirm = () => {
+    try {
+      // 開いてから時間が経っていることもあるので、確定時の時刻で確かめる
+      validateScheduleTime(selected);
+    } catch (e: any) {
+      setErrorText(e?.message || '予約日時を確認してください');
+      return;
+    }
+    onConfirm(selected);
+  };
+
+  const chip = (
+    key: string,
+    label: string,
+    isSelected: boolean,
+    onPress: () => void
+  ) => (
+    <Pressable
+      key={key}
+      accessibilityRole="button"
+      accessibilityState={{ selected: isSelected }}
+      onPress={() => {
+        onPress();
+        setErrorText(null);
+      }}
+      style={{
+        paddingHorizontal: 12,
+        paddingVertical: 6,
+        borderRadius: 999,
+        backgroundColor: isSelected ? colors.pink : '#ffffff10',
+      }}
+    >
+      <Text
+        style={{ color: isSelected ? '#23181D' : colors.text, fontSize: 13 }}
+      >
+        {label}
+      </Text>
+    </Pressable>
+  );
+
+  const sectionLabel = (text: string) => (
+    <Text
+      style={{
+        color: colors.subtext,
+        fontSize: 12,
+        fontWeight: '700',
+        marginTop: 14,
+        marginBottom: 6,
+      }}
+    >
+      {text}
+    </Text>
+  );
+
+  const presets = schedulePresets(now);
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      transparent
+      onRequestClose={onClose}
+    >
+      <View
+        style={{
+          flex: 1,
+          backgroundColor: 'rgba(0,0,0,0.5)',
+          justifyContent: 'flex-end',
+        }}
+      >
+        <View
+          style={{
+            maxHeight: '90%',
+            borderTopLeftRadius: 20,
+            borderTopRightRadius: 20,
+            padding: theme.spacing(2),
+            backgroundColor: colors.card,
+            borderColor: colors.border,
+            borderWidth: 1,
+          }}
+        >
+          <View
+            style={{
+              flexDirection: 'row',
+              justifyContent: 'space-between',
+              alignItems: 'center',
+              marginBottom: theme.spacing(1.5),
+            }}
+          >
+            <Text
+              style={{ color: colors.text, fontSize: 18, fontWeight: '700' }}
+            >
+              予約投稿
+            </Text>
+            <Pressable
+              accessibilityRole="button"
+              accessibilityLabel="閉じる"
+              onPress={onClose}
+              hitSlop={8}
+            >
+              <Text style={{ color: colors.subtext, fontSize: 16 }}>✕</Text>
+            </Pressable>
+          </View>
+          <ScrollView keyboardShouldPersistTaps="handled">
+            {presets.length > 0 && (
+              <>
+                {sectionLabel('よく使う時刻')}
+                <View
+                  style={{ flexDirection: 'row', flexWrap: 'wrap', gap: 8 }}
+                >
+                  {presets.map(p =>
+                    chip(
+                      p.label,
+                      p.label,
+                      p.date.getTime() === selected.getTime(),
+                      () => select(p.date, now)
+                    )
+                  )}
+                </View>
+              </>
+            )}
+            {sectionLabel('日にち')}
+            <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+              <View style={{ flexDirection: 'row', gap: 8 }}>
+                {Array.from({ length: SCHEDULE_DAY_RANGE }, (_, i) =>
+                  chip(`d${i}`, dayLabel(i, now), dayOffset === i, () =>
+                    setDayOffset(i)
+                  )
+                )}
+              </View>
+            </ScrollView>
+            {sectionLabel('時')}
+            <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+              <View style={{ flexDirection: 'row', gap: 8 }}>
+                {HOURS.map(h =>
+                  chip(`h${h}`, `${h}時`, hour === h, () => setHour(h))
+                )}
+              </View>
+            </ScrollView>
+            {sectionLabel('分')}
+            <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: 8 }}>
+              {SCHEDULE_MINUTE_STEPS.map(m =>
+                chip(
+                  `m${m}`,
+                  `${String(m).padStart(2, '0')}分`,
+                  minute === m,
+                  () => setMinute(m)
+                )
+              )}
+            </View>
+            <Text style={{ color: colors.text, fontSize: 14, marginTop: 16 }}>
+              {format(selected, 'M月d日(E) HH:mm', { locale: ja })} に投稿
+            </Text>
+            {errorText && (
+              <Text style={{ color: '#ff8a8a', fontSize: 12, marginTop: 6 }}>
+                {errorText}
+              </Text>
+            )}
+            <View style={{ flexDirection: 'row', gap: 12, marginTop: 20 }}>
+              <Pressable
+                accessibilityRole="button"
+                onPress={onClose}
+                style={{
+                  flex: 1,
+                  paddingVertical: 12,
+                  borderRadius: theme.radius.md,
+                  alignItems: 'center',
+                  borderWidth: 1,
+                  borderColor: colors.border,
+                }}
+              >
+                <Text style={{ color: colors.text }}>キャンセル</Text>
+              </Pressable>
+              <Pressable
+                accessibilityRole="button"
+                onPress={handleConfirm}
+                disabled={busy}
+                style={{
+                  flex: 1,
+                  paddingVertical: 12,
+                  borderRadius: theme.radius.md,
+                  alignItems: 'center',
+                  backgroundColor: colors.pink,
+                  opacity: busy ? 0.5 : 1,
+                }}
+              >
+                <Text style={{ color: '#23181D', fontWeight: '700' }}>
+                  {busy ? '保存中...' : '予約する'}
+                </Text>
+              </Pressable>
+            </View>
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+}
@@ -0,0 +1,249 @@
+import { useEffect, useState } from 'react';
+import {
+  Modal,
+  View,
+  Text,
+  Pressable,
+  SectionList,
+  TextInput,
+  ActivityIndicator,
+} from 'react-native';
+
+import { useTheme } from '../theme/theme';
+import chatService from '../services/chatService';
+import { RoomService } from '../services/roomService';
+import {
+  sharePostToChannel,
+  sharePostToChat,
+} from '../services/postShareService';
+import { notifyError, notifyInfo } from '../utils/notify';
+
+type Props = {
+  postId: string | null;
+  onClose: () => void;
+};
+
+type Target = {
+  key: string;
+  kind: 'chat' | 'channel';
+  id: string;
+  label: string;
+  sublabel?: string;
+};
+
+export default function SharePostModal({ postId, onClose }: Props) {
+  const theme = useTheme();
+  const { colors } = theme;
+  const [chats, setChats] = useState<Target[]>([]);
+  const [channels, setChannels] = useState<Target[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [comment, setComment] = useState('');
+  const [sendingKey, setSendingKey] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!postId) {
+      return;
+    }
+    let cancelled = false;
+    setComment('');
+    (async () => {
+      setLoading(true);
+      const [chatRes, spaceRes] = await Promise.all([
+        chatService.getChats(),
+        RoomService.getUserSpaces(),
+      ]);
+      if (cancelled) {
+        return;
+      }
+      setChats(
+        (chatRes.success ? (chatRes.data?.chats ?? []) : []).map(c => {
+          const other = c.participants[0];
+          return {
+            key: `chat:${c.id}`,
+            kind: 'chat' as const,
+            id: c.id,
+            label: `${other?.avatar_emoji || '👤'} ${
+              other?.display_name || other?.username || '匿名'
+            }`,
+          };
+        })
+      );
+      setChannels(
+        (spaceRes.success ? (spaceRes.data ?? []) : []).map(ch => ({
+          key: `channel:${ch.id}`,
+          kind: 'channel' as const,
+          id: ch.id,
+          label: ch.space?.name || ch.name,
+          sublabel: `#${ch.name}`,
+        }))
+      );
+      setLoading(false);
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [postId]);
+
+  const handleShare = async (target: Target) => {
+    if (!postId || sendingKey) {
+      return;
+    }
+    setSendingKey(target.key);
+    try {
+      if (target.kind === 'chat') {
+        await sharePostToChat(target.id, postId, comment);
+      } else {
+        await sharePostToChannel(target.id, postId, comment);
+      }
+      notifyInfo('シェアしました');
+      onClose();
+    } catch (e: any) {
+      notifyError(e?.message || 'シェアに失敗しました');
+    } finally {
+      setSendingKey(null);
+    }
+  };
+
+  const sections = [
+    { title: 'メッセージ', data: chats },
+    { title: 'スペース', data: channels },
+  ].filter(s => s.data.length > 0);
+
+  return (
+    <Modal
+      visible={!!postId}
+      animationType="slide"
+      transparent
+      onRequestClose={onClose}
+    >
+      <View
+        style={{
+          flex: 1,
+          backgroundColor: 'rgba(0,0,0,0.5)',
+          justifyContent: 'flex-end',
+        }}
+      >
+        <View
+          style={{
+            maxHeight: '75%',
+            borderTopLeftRadius: 20,
+            borderTopRightRadius: 20,
+            padding: theme.spacing(2),
+            backgroundColor: colors.card,
+            borderColor: colors.border,
+            borderWidth: 1,
+          }}
+        >
+          <View
+            style={{
+              flexDirection: 'row',
+              justifyContent: 'space-between',
+              alignItems: 'center',
+              marginBottom: theme.spacing(1.5),
+            }}
+          >
+            <Text
+              style={{ color: colors.text, fontSize: 18, fontWeight: '700' }}
+            >
+              ポストをシェア
+            </Text>
+            <Pressable
+              accessibilityRole="button"
+              accessibilityLabel="閉じる"
+              onPress={onClose}
+              hitSlop={8}
+            >
+              <Text style={{ color: colors.subtext, fontSize: 16 }}>✕</Text>
+            </Pressable>
+          </View>
+          <TextInput
+            value={comment}
+            onChangeText={setComment}
+            placeholder="ひとこと添える（任意）"
+            placeholderTextColor={colors.subtext}
+            maxLength={200}
+            style={{
+              color: colors.text,
+              backgroundColor: colors.surface,
+              borderRadius: theme.radius.md,
+              paddingHorizontal: 12,
+              paddingVertical: 10,
+              marginBottom: theme.spacing(1.5),
+            }}
+          />
+          {loading ? (
+            <ActivityIndicator color={colors.pink} />
+          ) : (
+            <SectionList
+              sections={sections}
+              keyExtractor={t => t.key}
+              stickySectionHeadersEnabled={false}
+              ItemSeparatorComponent={() => <View style={{ height: 8 }} />}
+              ListEmptyComponent={
+                <Text
+                  style={{
+                    color: colors.subtext,
+                    textAlign: 'center',
+                    paddingVertical: 24,
+                  }}
+                >
+                  シェアできるメッセージやスペースがありません
+                </Text>
+              }
+              renderSectionHeader={({ section }) => (
+                <Text
+                  style={{
+                    color: colors.subtext,
+                    fontSize: 12,
+                    fontWeight: '700',
+                    marginTop: 8,
+                    marginBottom: 6,
+                  }}
+                >
+                  {section.title}
+                </Text>
+              )}
+              renderItem={({ item }) => (
+                <Pressable
+                  accessibilityRole="button"
+                  accessibilityLabel={`${item.label}にシェア`}
+                  disabled={!!sendingKey}
+                  onPress={() => handleShare(item)}
+                  style={({ pressed }) => ({
+                    flexDirection: 'row',
+                    alignItems: 'center',
+                    padding: 12,
+                    borderRadius: theme.radius.md,
+                    backgroundColor: pressed ? '#ffffff20' : colors.surface,
+                    opacity: sendingKey && sendingKey !== item.key ? 0.5 : 1,
+                  })}
+                >
+                  <View style={{ flex: 1 }}>
+                    <Text
+                      style={{ color: colors.text, fontSize: 15 }}
+                      numberOfLines={1}
+                    >
+                      {item.label}
+                    </Text>
+                    {!!item.sublabel && (
+                      <Text style={{ color: colors.subtext, fontSize: 12 }}>
+                        {item.sublabel}
+                      </Text>
+                    )}
+                  </View>
+                  {sendingKey === item.key ? (
+                    <ActivityIndicator size="small" color={colors.pink} />
+                  ) : (
+                    <Text style={{ color: colors.pink, fontWeight: '700' }}>
+                      送る
+                    </Text>
+                  )}
+                </Pressable>
+              )}
+            />
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+}
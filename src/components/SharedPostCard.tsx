@@ -0,0 +1,123 @@
+import { useEffect, useState } from 'react';
+import { View, Text, Pressable, ActivityIndicator } from 'react-native';
+import { Image } from 'expo-image';
+
+import { useTheme } from '../theme/theme';
+import { SharedPostPreview } from '../types/post';
+import { fetchSharedPostPreview } from '../services/postShareService';
+import { contentWarningLabel } from '../utils/contentWarnings';
+
+/**
+ * DM・チャンネル内でシェアされたポストを表示するカード。
+ * 削除済みやブロック関係で見られないポストは「表示できません」とだけ出す。
+ */
+export default function SharedPostCard({
+  postId,
+  onOpen,
+}: {
+  postId: string;
+  onOpen?: (postId: string) => void;
+}) {
+  const theme = useTheme();
+  const { colors } = theme;
+  const [preview, setPreview] = useState<SharedPostPreview | null>(null);
+  const [status, setStatus] = useState<'loading' | 'ready' | 'unavailable'>(
+    'loading'
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+    setStatus('loading');
+    fetchSharedPostPreview(postId)
+      .then(p => {
+        if (!cancelled) {
+          setPreview(p);
+          setStatus(p ? 'ready' : 'unavailable');
+        }
+      })
+      .catch(() => {
+        if (!cancelled) {
+          setStatus('unavailable');
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [postId]);
+
+  const containerStyle = {
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: colors.border,
+    backgroundColor: colors.surface,
+    padding: 10,
+    marginBottom: 6,
+    minWidth: 200,
+  };
+
+  if (status === 'loading') {
+    return (
+      <View style={containerStyle}>
+        <ActivityIndicator size="small" color={colors.pink} />
+      </View>
+    );
+  }
+
+  if (status === 'unavailable' || !preview) {
+    return (
+      <View style={containerStyle}>
+        <Text style={{ color: colors.subtext, fontSize: 13 }}>
+          このポストは削除されたか、表示できません
+        </Text>
+      </View>
+    );
+  }
+
+  const warning = contentWarningLabel(preview.content_warning);
+  const thumbnail = warning ? null : preview.attachments[0]?.url;
+
+  return (
+    <Pressable
+      accessibilityRole="button"
+      accessibilityLabel="シェアされたポストを開く"
+      onPress={() => onOpen && onOpen(preview.id)}
+      disabled={!onOpen}
+      style={({ pressed }) => [
+        containerStyle,
+        { transform: [{ scale: pressed ? 0.98 : 1 }] },
+      ]}
+    >
+      <Text
+        style={{ color: colors.subtext, fontSize: 12, marginBottom: 4 }}
+        numberOfLines={1}
+      >
+        {preview.user.avatar_emoji || '👤'}{' '}
+        {preview.user.display_name || '匿名'} ・{' '}
+        {new Date(preview.created_at).toLocaleDateString()}
+      </Text>
+      {warning ? (
+        <Text style={{ color: colors.subtext, fontSize: 13 }}>
+          ⚠️ {warning}（タップして開く）
+        </Text>
+      ) : (
+        !!preview.body && (
+          <Text style={{ color: colors.text, fontSize: 14 }} numberOfLines={4}>
+            {preview.body}
+          </Text>
+        )
+      )}
+      {!!thumbnail && (
+        <Image
+          source={{ uri: thumbnail }}
+          style={{
+            width: '100%',
+            height: 120,
+            borderRadius: 8,
+            marginTop: 6,
+          }}
+          contentFit="cover"
+        />
+      )}
+    </Pressable>
+  );
+}
@@ -0,0 +1,226 @@
+import { useState } from 'react';
+import { View, Text, Pressable, ActivityIndicator } from 'react-native';
+
+import { useTheme } from '../theme/theme';
+import { useSpaceEvents } from '../hooks/useRooms';
+import { SpaceEvent, SpaceEventRsvpStatus } from '../types/room';
+import { exportEventIcs } from '../services/eventExportService';
+import {
+  EVENT_RSVP_OPTIONS,
+  canRsvpEvent,
+  describeEventAttendance,
+  describeEventLocation,
+  formatEventTime,
+  isEventFull,
+} from '../utils/spaceEvents';
+import { notifyError, notifyInfo } from '../utils/notify';
+
+type ViewProps = {
+  event: SpaceEvent;
+  spaceName?: string;
+  canCancel?: boolean; // 作成した人・オーナー・モデレーター
+  onRsvp: (status: SpaceEventRsvpStatus) => Promise<string | null>;
+  onCancel?: () => void;
+};
+
+/** イベント 1 件の表示。返事・カレンダーへの書き出し・中止ができる */
+export function SpaceEventView({
+  event,
+  spaceName,
+  canCancel = false,
+  onRsvp,
+  onCancel,
+}: ViewProps) {
+  const theme = useTheme();
+  const { colors } = theme;
+  const [busy, setBusy] = useState(false);
+  const open = canRsvpEvent(event);
+  const full = isEventFull(event);
+
+  const handleRsvp = async (status: SpaceEventRsvpStatus) => {
+    if (status === event.my_status) {
+      return;
+    }
+    setBusy(true);
+    const failure = await onRsvp(status);
+    setBusy(false);
+    if (failure) {
+      notifyError(failure);
+      return;
+    }
+    if (status !== 'not_going') {
+      notifyInfo('開始の1時間前にお知らせします');
+    }
+  };
+
+  const handleExport = async () => {
+    try {
+      await exportEventIcs(event, spaceName);
+    } catch {
+      notifyError('カレンダーに書き出せませんでした');
+    }
+  };
+
+  return (
+    <View
+      style={{
+        borderRadius: 12,
+        borderWidth: 1,
+        borderColor: colors.border,
+        backgroundColor: colors.surface,
+        padding: 12,
+        marginBottom: 6,
+        minWidth: 220,
+      }}
+    >
+      <Text style={{ color: colors.subtext, fontSize: 12 }}>
+        📅 {formatEventTime(event)}
+      </Text>
+      <Text
+        style={{
+          color: event.cancelled_at ? colors.subtext : colors.text,
+          fontSize: 16,
+          fontWeight: '700',
+          marginTop: 4,
+          textDecorationLine: event.cancelled_at ? 'line-through' : 'none',
+        }}
+      >
+        {event.title}
+      </Text>
+      <Text style={{ color: colors.subtext, fontSize: 13, marginTop: 2 }}>
+        📍 {describeEventLocation(event)}
+      </Text>
+      {!!event.description && (
+        <Text
+          style={{ color: colors.text, fontSize: 13, marginTop: 6 }}
+          numberOfLines={4}
+        >
+          {event.description}
+        </Text>
+      )}
+      <Text style={{ color: colors.subtext, fontSize: 12, marginTop: 6 }}>
+        {describeEventAttendance(event)}
+        {event.creator_name ? `・主催 ${event.creator_name}` : ''}
+      </Text>
+
+      {event.cancelled_at ? (
+        <Text style={{ color: colors.danger, fontSize: 13, marginTop: 8 }}>
+          このイベントは中止になりました
+        </Text>
+      ) : open ? (
+        <View style={{ flexDirection: 'row', gap: 8, marginTop: 10 }}>
+          {EVENT_RSVP_OPTIONS.map(o => {
+            const selected = event.my_status === o.status;
+            const disabled = busy || (o.status === 'going' && full);
+            return (
+              <Pressable
+                key={o.status}
+                accessibilityRole="button"
+                accessibilityState={{ selected, disabled }}
+                onPress={() => handleRsvp(o.status)}
+                disabled={disabled}
+                style={{
+                  paddingHorizontal: 12,
+                  paddingVertical: 6,
+                  borderRadius: 999,
+                  backgroundColor: selected ? colors.pink : '#ffffff10',
+                  opacity: disabled && !selected ? 0.5 : 1,
+                }}
+              >
+                <Text
+                  style={{
+                    color: selected ? '#23181D' : colors.text,
+                    fontSize: 13,
+                  }}
+                >
+                  {o.status === 'going' && full ? '満員' : o.label}
+                </Text>
+              </Pressable>
+            );
+          })}
+        </View>
+      ) : (
+        <Text style={{ color: colors.subtext, fontSize: 13, marginTop: 8 }}>
+          受付は終了しました
+        </Text>
+      )}
+
+      <View
+        style={{
+          flexDirection: 'row',
+          justifyContent: 'flex-end',
+          gap: 16,
+          marginTop: 10,
+        }}
+      >
+        {canCancel && open && !!onCancel && (
+          <Pressable accessibilityRole="button" onPress={onCancel} hitSlop={6}>
+            <Text style={{ color: colors.danger, fontSize: 13 }}>中止する</Text>
+          </Pressable>
+        )}
+        {!event.cancelled_at && (
+          <Pressable
+            accessibilityRole="button"
+            onPress={handleExport}
+            hitSlop={6}
+          >
+            <Text style={{ color: colors.pink, fontSize: 13 }}>
+              カレンダーに追加
+            </Text>
+          </Pressable>
+        )}
+      </View>
+    </View>
+  );
+}
+
+/**
+ * チャンネルに投稿されたイベントカード。最新の返事の数はその都度取り直す。
+ * スペースを抜けた・イベントが消えたときは「表示できません」とだけ出す
+ */
+export default function SpaceEventCard({
+  spaceId,
+  eventId,
+  spaceName,
+}: {
+  spaceId: string;
+  eventId: string;
+  spaceName?: string;
+}) {
+  const theme = useTheme();
+  const { colors } = theme;
+  const { events, loading, rsvp } = useSpaceEvents(spaceId, eventId);
+  const event = events[0];
+
+  if (!event) {
+    return (
+      <View
+        style={{
+          borderRadius: 12,
+          borderWidth: 1,
+          borderColor: colors.border,
+          backgroundColor: colors.surface,
+          padding: 10,
+          marginBottom: 6,
+          minWidth: 200,
+        }}
+      >
+        {loading ? (
+          <ActivityIndicator size="small" color={colors.pink} />
+        ) : (
+          <Text style={{ color: colors.subtext, fontSize: 13 }}>
+            このイベントは表示できません
+          </Text>
+        )}
+      </View>
+    );
+  }
+
+  return (
+    <SpaceEventView
+      event={event}
+      spaceName={spaceName}
+      onRsvp={status => rsvp(event.id, status)}
+    />
+  );
+}
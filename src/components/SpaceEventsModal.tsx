@@ -0,0 +1,389 @@
+import { useEffect, useState } from 'react';
+import {
+  Modal,
+  View,
+  Text,
+  Pressable,
+  ScrollView,
+  TextInput,
+  Alert,
+} from 'react-native';
+
+import { useTheme } from '../theme/theme';
+import { useSpaceEvents } from '../hooks/useRooms';
+import { SpaceEvent } from '../types/room';
+import {
+  EVENT_DAY_RANGE,
+  EVENT_DURATION_OPTIONS,
+  EVENT_TIME_SLOTS,
+  MAX_EVENT_DESCRIPTION_LENGTH,
+  MAX_EVENT_LOCATION_LENGTH,
+  MAX_EVENT_TITLE_LENGTH,
+  eventStartAt,
+  formatEventDayLabel,
+  formatEventTimeSlot,
+  validateSpaceEvent,
+} from '../utils/spaceEvents';
+import { notifyError, notifyInfo } from '../utils/notify';
+
+import { SpaceEventView } from './SpaceEventCard';
+
+type Props = {
+  spaceId: string;
+  spaceName: string;
+  channelId: string; // 作成したイベントのカードを投稿するチャンネル
+  userId?: string | null;
+  canModerate: boolean; // オーナー・モデレーターは他人のイベントも中止できる
+  visible: boolean;
+  onClose: () => void;
+};
+
+const DEFAULT_TIME_SLOT = 10 * 60;
+
+/** スペースのイベント一覧と作成フォーム */
+export default function SpaceEventsModal({
+  spaceId,
+  spaceName,
+  channelId,
+  userId,
+  canModerate,
+  visible,
+  onClose,
+}: Props) {
+  const theme = useTheme();
+  const { colors } = theme;
+  const [creating, setCreating] = useState(false);
+  const [title, setTitle] = useState('');
+  const [description, setDescription] = useState('');
+  const [dayOffset, setDayOffset] = useState(1);
+  const [timeSlot, setTimeSlot] = useState(DEFAULT_TIME_SLOT);
+  const [duration, setDuration] = useState<number | null>(120);
+  const [isOnline, setIsOnline] = useState(false);
+  const [location, setLocation] = useState('');
+  const [capacity, setCapacity] = useState('');
+  const [busy, setBusy] = useState(false);
+  // 開いている間だけ取得する（開くたびに取り直す）
+  const { events, loading, error, createEvent, rsvp, cancelEvent } =
+    useSpaceEvents(visible ? spaceId : null);
+
+  useEffect(() => {
+    if (!visible) {
+      setCreating(false);
+    }
+  }, [visible]);
+
+  const resetForm = () => {
+    setTitle('');
+    setDescription('');
+    setDayOffset(1);
+    setTimeSlot(DEFAULT_TIME_SLOT);
+    setDuration(120);
+    setIsOnline(false);
+    setLocation('');
+    setCapacity('');
+  };
+
+  const handleCreate = async () => {
+    const startsAt = eventStartAt(dayOffset, timeSlot);
+    const request = {
+      title,
+      description,
+      starts_at: startsAt.toISOString(),
+      ends_at:
+        duration === null
+          ? null
+          : new Date(startsAt.getTime() + duration * 60000).toISOString(),
+      location,
+      is_online: isOnline,
+      capacity: capacity.trim() ? Number(capacity.trim()) : null,
+    };
+    const invalid = validateSpaceEvent(request);
+    if (invalid) {
+      notifyError(invalid);
+      return;
+    }
+    setBusy(true);
+    const { eventId, error: failure } = await createEvent(channelId, request);
+    setBusy(false);
+    if (!eventId) {
+      notifyError(failure || 'イベントを作成できませんでした');
+      return;
+    }
+    notifyInfo('イベントを作成して、チャンネルに投稿しました');
+    resetForm();
+    setCreating(false);
+  };
+
+  const confirmCancel = (event: SpaceEvent) => {
+    Alert.alert(
+      'イベントを中止',
+      `「${event.title}」を中止しますか？\n参加予定の人に通知されます。`,
+      [
+        { text: 'やめる', style: 'cancel' },
+        {
+          text: '中止する',
+          style: 'destructive',
+          onPress: async () => {
+            const failure = await cancelEvent(event.id);
+            if (failure) {
+              notifyError(failure);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const chip = (
+    key: string,
+    label: string,
+    selected: boolean,
+    onPress: () => void
+  ) => (
+    <Pressable
+      key={key}
+      accessibilityRole="button"
+      accessibilityState={{ selected }}
+      onPress={onPress}
+      style={{
+        paddingHorizontal: 12,
+        paddingVertical: 6,
+        borderRadius: 999,
+        backgroundColor: selected ? colors.pink : '#ffffff10',
+      }}
+    >
+      <Text style={{ color: selected ? '#23181D' : colors.text, fontSize: 13 }}>
+        {label}
+      </Text>
+    </Pressable>
+  );
+
+  const sectionLabel = (text: string) => (
+    <Text
+      style={{
+        color: colors.subtext,
+        fontSize: 12,
+        fontWeight: '700',
+        marginTop: 14,
+        marginBottom: 6,
+      }}
+    >
+      {text}
+    </Text>
+  );
+
+  const inputStyle = {
+    color: colors.text,
+    fontSize: 14,
+    padding: 10,
+    borderRadius: theme.radius.md,
+    backgroundColor: colors.surface,
+  };
+
+  const renderForm = () => (
+    <>
+      {sectionLabel('タイトル')}
+      <TextInput
+        value={title}
+        onChangeText={setTitle}
+        placeholder="例: 公園で外遊び"
+        placeholderTextColor={colors.subtext}
+        maxLength={MAX_EVENT_TITLE_LENGTH}
+        style={inputStyle}
+      />
+      {sectionLabel('日にち')}
+      <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+        <View style={{ flexDirection: 'row', gap: 8 }}>
+          {Array.from({ length: EVENT_DAY_RANGE }, (_, i) =>
+            chip(`d${i}`, formatEventDayLabel(i), dayOffset === i, () =>
+              setDayOffset(i)
+            )
+          )}
+        </View>
+      </ScrollView>
+      {sectionLabel('開始時刻')}
+      <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+        <View style={{ flexDirection: 'row', gap: 8 }}>
+          {EVENT_TIME_SLOTS.map(slot =>
+            chip(`t${slot}`, formatEventTimeSlot(slot), timeSlot === slot, () =>
+              setTimeSlot(slot)
+            )
+          )}
+        </View>
+      </ScrollView>
+      {sectionLabel('長さ')}
+      <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: 8 }}>
+        {EVENT_DURATION_OPTIONS.map(o =>
+          chip(String(o.minutes), o.label, duration === o.minutes, () =>
+            setDuration(o.minutes)
+          )
+        )}
+      </View>
+      {sectionLabel('場所')}
+      <View style={{ flexDirection: 'row', gap: 8, marginBottom: 8 }}>
+        {chip('offline', '会場', !isOnline, () => setIsOnline(false))}
+        {chip('online', 'オンライン', isOnline, () => setIsOnline(true))}
+      </View>
+      <TextInput
+        value={location}
+        onChangeText={setLocation}
+        placeholder={isOnline ? '補足（任意）例: Zoom' : '例: ○○公園の噴水の前'}
+        placeholderTextColor={colors.subtext}
+        maxLength={MAX_EVENT_LOCATION_LENGTH}
+        style={inputStyle}
+      />
+      {sectionLabel('定員（任意）')}
+      <TextInput
+        value={capacity}
+        onChangeText={text => setCapacity(text.replace(/[^0-9]/g, ''))}
+        placeholder="空欄なら定員なし"
+        placeholderTextColor={colors.subtext}
+        keyboardType="number-pad"
+        maxLength={4}
+        style={inputStyle}
+      />
+      {sectionLabel('説明（任意）')}
+      <TextInput
+        value={description}
+        onChangeText={setDescription}
+        placeholder="持ち物や集合の目印など"
+        placeholderTextColor={colors.subtext}
+        maxLength={MAX_EVENT_DESCRIPTION_LENGTH}
+        multiline
+        style={[inputStyle, { minHeight: 80 }]}
+      />
+      <View style={{ flexDirection: 'row', gap: 12, marginTop: 20 }}>
+        <Pressable
+          accessibilityRole="button"
+          onPress={() => setCreating(false)}
+          style={{
+            flex: 1,
+            paddingVertical: 12,
+            borderRadius: theme.radius.md,
+            alignItems: 'center',
+            borderWidth: 1,
+            borderColor: colors.border,
+          }}
+        >
+          <Text style={{ color: colors.text }}>戻る</Text>
+        </Pressable>
+        <Pressable
+          accessibilityRole="button"
+          onPress={handleCreate}
+          disabled={busy}
+          style={{
+            flex: 1,
+            paddingVertical: 12,
+            borderRadius: theme.radius.md,
+            alignItems: 'center',
+            backgroundColor: colors.pink,
+            opacity: busy ? 0.5 : 1,
+          }}
+        >
+          <Text style={{ color: '#23181D', fontWeight: '700' }}>
+            {busy ? '作成中...' : '作成して投稿'}
+          </Text>
+        </Pressable>
+      </View>
+    </>
+  );
+
+  const renderList = () => (
+    <>
+      <Pressable
+        accessibilityRole="button"
+        onPress={() => setCreating(true)}
+        style={{
+          paddingVertical: 10,
+          borderRadius: theme.radius.md,
+          alignItems: 'center',
+          backgroundColor: colors.pink,
+          marginBottom: 12,
+        }}
+      >
+        <Text style={{ color: '#23181D', fontWeight: '700' }}>
+          イベントを作成
+        </Text>
+      </Pressable>
+      {events.length === 0 ? (
+        <Text
+          style={{
+            color: colors.subtext,
+            textAlign: 'center',
+            paddingVertical: 24,
+          }}
+        >
+          {loading
+            ? '読み込み中...'
+            : error || '予定されているイベントはありません'}
+        </Text>
+      ) : (
+        events.map(event => (
+          <SpaceEventView
+            key={event.id}
+            event={event}
+            spaceName={spaceName}
+            canCancel={canModerate || event.created_by === userId}
+            onRsvp={status => rsvp(event.id, status)}
+            onCancel={() => confirmCancel(event)}
+          />
+        ))
+      )}
+    </>
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      transparent
+      onRequestClose={onClose}
+    >
+      <View
+        style={{
+          flex: 1,
+          backgroundColor: 'rgba(0,0,0,0.5)',
+          justifyContent: 'flex-end',
+        }}
+      >
+        <View
+          style={{
+            maxHeight: '90%',
+            borderTopLeftRadius: 20,
+            borderTopRightRadius: 20,
+            padding: theme.spacing(2),
+            backgroundColor: colors.card,
+            borderColor: colors.border,
+            borderWidth: 1,
+          }}
+        >
+          <View
+            style={{
+              flexDirection: 'row',
+              justifyContent: 'space-between',
+              alignItems: 'center',
+              marginBottom: theme.spacing(1.5),
+            }}
+          >
+            <Text
+              style={{ color: colors.text, fontSize: 18, fontWeight: '700' }}
+            >
+              {creating ? 'イベントを作成' : 'イベント'}
+            </Text>
+            <Pressable
+              accessibilityRole="button"
+              accessibilityLabel="閉じる"
+              onPress={onClose}
+              hitSlop={8}
+            >
+              <Text style={{ color: colors.subtext, fontSize: 16 }}>✕</Text>
+            </Pressable>
+          </View>
+          <ScrollView keyboardShouldPersistTaps="handled">
+            {creating ? renderForm() : renderList()}
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+}
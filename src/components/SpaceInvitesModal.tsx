@@ -0,0 +1,426 @@
+import { useEffect, useState } from 'react';
+import {
+  Modal,
+  View,
+  Text,
+  Pressable,
+  ScrollView,
+  TextInput,
+  Share,
+} from 'react-native';
+import * as ExpoLinking from 'expo-linking';
+
+import { useTheme } from '../theme/theme';
+import { useSpaceInvites } from '../hooks/useRooms';
+import { SpaceInviteLink } from '../types/room';
+import {
+  INVITE_EXPIRY_OPTIONS,
+  INVITE_MAX_USE_OPTIONS,
+  INVITE_PATH,
+  describeInviteLink,
+} from '../utils/spaceInvites';
+import { notifyError, notifyInfo } from '../utils/notify';
+
+type Props = {
+  spaceId: string;
+  spaceName: string;
+  visible: boolean;
+  onClose: () => void;
+  onMembersChanged?: () => void; // 参加リクエストを承認したあと
+};
+
+type Tab = 'links' | 'requests';
+
+/** オーナー向け。招待リンクの発行・共有・無効化と、参加リクエストの承認・却下 */
+export default function SpaceInvitesModal({
+  spaceId,
+  spaceName,
+  visible,
+  onClose,
+  onMembersChanged,
+}: Props) {
+  const theme = useTheme();
+  const { colors } = theme;
+  const [tab, setTab] = useState<Tab>('links');
+  const [expiresInHours, setExpiresInHours] = useState<number | null>(24 * 7);
+  const [maxUses, setMaxUses] = useState<number | null>(null);
+  const [requiresApproval, setRequiresApproval] = useState(false);
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [busy, setBusy] = useState(false);
+  const {
+    links,
+    requests,
+    loading,
+    error,
+    refresh,
+    createLink,
+    revokeLink,
+    decideRequest,
+  } = useSpaceInvites(visible ? spaceId : null);
+
+  useEffect(() => {
+    if (visible) {
+      refresh();
+    } else {
+      setTab('links');
+      setNotes({});
+    }
+  }, [visible, refresh]);
+
+  const shareLink = async (link: SpaceInviteLink) => {
+    const url = ExpoLinking.createURL(`${INVITE_PATH}/${link.code}`);
+    try {
+      await Share.share({
+        message: `「${spaceName}」に招待します\n${url}`,
+        url,
+      });
+    } catch {}
+  };
+
+  const handleCreate = async () => {
+    setBusy(true);
+    const { link, error: failure } = await createLink({
+      expires_in_hours: expiresInHours,
+      max_uses: maxUses,
+      requires_approval: requiresApproval,
+    });
+    setBusy(false);
+    if (!link) {
+      notifyError(failure || '招待リンクを作成できませんでした');
+      return;
+    }
+    shareLink(link);
+  };
+
+  const handleRevoke = async (link: SpaceInviteLink) => {
+    const failure = await revokeLink(link.id);
+    if (failure) {
+      notifyError(failure);
+    }
+  };
+
+  const handleDecide = async (requestId: string, approve: boolean) => {
+    setBusy(true);
+    const failure = await decideRequest(requestId, approve, notes[requestId]);
+    setBusy(false);
+    if (failure) {
+      notifyError(failure);
+      return;
+    }
+    notifyInfo(approve ? '参加を承認しました' : 'リクエストを却下しました');
+    if (approve) {
+      onMembersChanged?.();
+    }
+  };
+
+  const chip = (
+    key: string,
+    label: string,
+    selected: boolean,
+    onPress: () => void
+  ) => (
+    <Pressable
+      key={key}
+      accessibilityRole="button"
+      accessibilityState={{ selected }}
+      onPress={onPress}
+      style={{
+        paddingHorizontal: 12,
+        paddingVertical: 6,
+        borderRadius: 999,
+        backgroundColor: selected ? colors.pink : '#ffffff10',
+      }}
+    >
+      <Text style={{ color: selected ? '#23181D' : colors.text, fontSize: 13 }}>
+        {label}
+      </Text>
+    </Pressable>
+  );
+
+  const sectionLabel = (text: string) => (
+    <Text
+      style={{
+        color: colors.subtext,
+        fontSize: 12,
+        fontWeight: '700',
+        marginTop: 12,
+        marginBottom: 6,
+      }}
+    >
+      {text}
+    </Text>
+  );
+
+  const renderLinks = () => (
+    <>
+      <View
+        style={{
+          padding: 12,
+          borderRadius: theme.radius.md,
+          backgroundColor: colors.surface,
+          marginBottom: 12,
+        }}
+      >
+        {sectionLabel('有効期限')}
+        <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: 8 }}>
+          {INVITE_EXPIRY_OPTIONS.map(o =>
+            chip(String(o.hours), o.label, expiresInHours === o.hours, () =>
+              setExpiresInHours(o.hours)
+            )
+          )}
+        </View>
+        {sectionLabel('利用回数')}
+        <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: 8 }}>
+          {INVITE_MAX_USE_OPTIONS.map(o =>
+            chip(String(o.uses), o.label, maxUses === o.uses, () =>
+              setMaxUses(o.uses)
+            )
+          )}
+        </View>
+        {sectionLabel('参加方法')}
+        <View style={{ flexDirection: 'row', gap: 8 }}>
+          {chip('direct', 'すぐ参加', !requiresApproval, () =>
+            setRequiresApproval(false)
+          )}
+          {chip('approval', '承認制', requiresApproval, () =>
+            setRequiresApproval(true)
+          )}
+        </View>
+        <Pressable
+          accessibilityRole="button"
+          onPress={handleCreate}
+          disabled={busy}
+          style={{
+            marginTop: 14,
+            paddingVertical: 10,
+            borderRadius: theme.radius.md,
+            alignItems: 'center',
+            backgroundColor: colors.pink,
+            opacity: busy ? 0.5 : 1,
+          }}
+        >
+          <Text style={{ color: '#23181D', fontWeight: '700' }}>
+            リンクを作成して共有
+          </Text>
+        </Pressable>
+      </View>
+
+      {links.length === 0 ? (
+        <Text
+          style={{
+            color: colors.subtext,
+            textAlign: 'center',
+            paddingVertical: 16,
+          }}
+        >
+          {loading ? '読み込み中...' : error || '招待リンクはまだありません'}
+        </Text>
+      ) : (
+        links.map(link => (
+          <View
+            key={link.id}
+            style={{
+              flexDirection: 'row',
+              alignItems: 'center',
+              padding: 12,
+              borderRadius: theme.radius.md,
+              backgroundColor: colors.surface,
+              marginBottom: 8,
+            }}
+          >
+            <View style={{ flex: 1 }}>
+              <Text style={{ color: colors.text, fontSize: 14 }}>
+                {link.code}
+              </Text>
+              <Text style={{ color: colors.subtext, fontSize: 12 }}>
+                {describeInviteLink(link)}
+              </Text>
+            </View>
+            {link.status === 'valid' && (
+              <Pressable
+                accessibilityRole="button"
+                onPress={() => shareLink(link)}
+                hitSlop={6}
+                style={{ marginRight: 16 }}
+              >
+                <Text style={{ color: colors.pink, fontWeight: '700' }}>
+                  共有
+                </Text>
+              </Pressable>
+            )}
+            <Pressable
+              accessibilityRole="button"
+              onPress={() => handleRevoke(link)}
+              hitSlop={6}
+            >
+              <Text style={{ color: colors.danger }}>無効にする</Text>
+            </Pressable>
+          </View>
+        ))
+      )}
+    </>
+  );
+
+  const renderRequests = () =>
+    requests.length === 0 ? (
+      <Text
+        style={{
+          color: colors.subtext,
+          textAlign: 'center',
+          paddingVertical: 24,
+        }}
+      >
+        {loading ? '読み込み中...' : '参加リクエストはありません'}
+      </Text>
+    ) : (
+      requests.map(request => (
+        <View
+          key={request.id}
+          style={{
+            padding: 12,
+            borderRadius: theme.radius.md,
+            backgroundColor: colors.surface,
+            marginBottom: 8,
+          }}
+        >
+          <View style={{ flexDirection: 'row', alignItems: 'center' }}>
+            <Text style={{ fontSize: 18, marginRight: 10 }}>
+              {request.avatar_emoji || '👤'}
+            </Text>
+            <Text style={{ color: colors.text, fontSize: 15, flex: 1 }}>
+              {request.display_name || request.username || 'ユーザー'}
+            </Text>
+          </View>
+          {!!request.message && (
+            <Text style={{ color: colors.text, fontSize: 13, marginTop: 6 }}>
+              {request.message}
+            </Text>
+          )}
+          {(request.answers ?? []).map((a, i) => (
+            <View key={i} style={{ marginTop: 8 }}>
+              <Text style={{ color: colors.subtext, fontSize: 12 }}>
+                {a.question}
+              </Text>
+              <Text style={{ color: colors.text, fontSize: 13 }}>
+                {a.answer}
+              </Text>
+            </View>
+          ))}
+          <TextInput
+            value={notes[request.id] ?? ''}
+            onChangeText={text =>
+              setNotes(prev => ({ ...prev, [request.id]: text }))
+            }
+            placeholder="メモ（任意・相手に届きます）"
+            placeholderTextColor={colors.subtext}
+            maxLength={200}
+            style={{
+              color: colors.text,
+              fontSize: 13,
+              paddingVertical: 6,
+              marginTop: 8,
+              borderBottomWidth: 1,
+              borderBottomColor: colors.border,
+            }}
+          />
+          <View
+            style={{
+              flexDirection: 'row',
+              justifyContent: 'flex-end',
+              gap: 16,
+              marginTop: 10,
+            }}
+          >
+            <Pressable
+              accessibilityRole="button"
+              onPress={() => handleDecide(request.id, false)}
+              disabled={busy}
+            >
+              <Text style={{ color: colors.subtext }}>却下</Text>
+            </Pressable>
+            <Pressable
+              accessibilityRole="button"
+              onPress={() => handleDecide(request.id, true)}
+              disabled={busy}
+            >
+              <Text style={{ color: colors.pink, fontWeight: '700' }}>
+                承認
+              </Text>
+            </Pressable>
+          </View>
+        </View>
+      ))
+    );
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      transparent
+      onRequestClose={onClose}
+    >
+      <View
+        style={{
+          flex: 1,
+          backgroundColor: 'rgba(0,0,0,0.5)',
+          justifyContent: 'flex-end',
+        }}
+      >
+        <View
+          style={{
+            maxHeight: '85%',
+            borderTopLeftRadius: 20,
+            borderTopRightRadius: 20,
+            padding: theme.spacing(2),
+            backgroundColor: colors.card,
+            borderColor: colors.border,
+            borderWidth: 1,
+          }}
+        >
+          <View
+            style={{
+              flexDirection: 'row',
+              justifyContent: 'space-between',
+              alignItems: 'center',
+              marginBottom: theme.spacing(1.5),
+            }}
+          >
+            <Text
+              style={{ color: colors.text, fontSize: 18, fontWeight: '700' }}
+            >
+              招待と参加リクエスト
+            </Text>
+            <Pressable
+              accessibilityRole="button"
+              accessibilityLabel="閉じる"
+              onPress={onClose}
+              hitSlop={8}
+            >
+              <Text style={{ color: colors.subtext, fontSize: 16 }}>✕</Text>
+            </Pressable>
+          </View>
+          <View
+            style={{
+              flexDirection: 'row',
+              gap: 8,
+              marginBottom: theme.spacing(1.5),
+            }}
+          >
+            {chip('links', '招待リンク', tab === 'links', () =>
+              setTab('links')
+            )}
+            {chip(
+              'requests',
+              `参加リクエスト（${requests.length}）`,
+              tab === 'requests',
+              () => setTab('requests')
+            )}
+          </View>
+          <ScrollView keyboardShouldPersistTaps="handled">
+            {tab === 'links' ? renderLinks() : renderRequests()}
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+}
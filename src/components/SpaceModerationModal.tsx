@@ -0,0 +1,257 @@
+import { useEffect, useState } from 'react';
+import {
+  Modal,
+  View,
+  Text,
+  Pressable,
+  FlatList,
+  ActivityIndicator,
+} from 'react-native';
+
+import { useTheme } from '../theme/theme';
+import { useModeration, useSpaceModerationLog } from '../hooks/useRooms';
+import { SpaceRestriction } from '../types/room';
+import { describeModerationEntry } from '../utils/spaceModeration';
+import { notifyError } from '../utils/notify';
+
+type Props = {
+  spaceId: string;
+  visible: boolean;
+  onClose: () => void;
+};
+
+type Tab = 'log' | 'restrictions';
+
+function formatDateTime(iso: string): string {
+  return new Date(iso).toLocaleString('ja-JP', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+/** オーナー・モデレーター向け。モデレーションログと、BAN・ミュート中のユーザー */
+export default function SpaceModerationModal({
+  spaceId,
+  visible,
+  onClose,
+}: Props) {
+  const theme = useTheme();
+  const { colors } = theme;
+  const [tab, setTab] = useState<Tab>('log');
+  const { entries, restrictions, loading, error, hasMore, refresh, loadMore } =
+    useSpaceModerationLog(visible ? spaceId : null);
+  const { unbanMember, unmuteMember } = useModeration(spaceId);
+
+  useEffect(() => {
+    if (visible) {
+      refresh();
+    } else {
+      setTab('log');
+    }
+  }, [visible, refresh]);
+
+  const lift = async (r: SpaceRestriction) => {
+    const failure =
+      r.kind === 'ban'
+        ? await unbanMember(r.user_id)
+        : await unmuteMember(r.user_id);
+    if (failure) {
+      notifyError(failure);
+      return;
+    }
+    refresh();
+  };
+
+  const tabButton = (key: Tab, label: string) => (
+    <Pressable
+      accessibilityRole="button"
+      accessibilityState={{ selected: tab === key }}
+      onPress={() => setTab(key)}
+      style={{
+        paddingHorizontal: 12,
+        paddingVertical: 6,
+        borderRadius: 999,
+        backgroundColor: tab === key ? colors.pink : '#ffffff10',
+      }}
+    >
+      <Text
+        style={{ color: tab === key ? '#23181D' : colors.text, fontSize: 13 }}
+      >
+        {label}
+      </Text>
+    </Pressable>
+  );
+
+  const empty = (text: string) => (
+    <Text
+      style={{
+        color: colors.subtext,
+        textAlign: 'center',
+        paddingVertical: 24,
+      }}
+    >
+      {loading ? '読み込み中...' : error || text}
+    </Text>
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      transparent
+      onRequestClose={onClose}
+    >
+      <View
+        style={{
+          flex: 1,
+          backgroundColor: 'rgba(0,0,0,0.5)',
+          justifyContent: 'flex-end',
+        }}
+      >
+        <View
+          style={{
+            height: '75%',
+            borderTopLeftRadius: 20,
+            borderTopRightRadius: 20,
+            padding: theme.spacing(2),
+            backgroundColor: colors.card,
+            borderColor: colors.border,
+            borderWidth: 1,
+          }}
+        >
+          <View
+            style={{
+              flexDirection: 'row',
+              justifyContent: 'space-between',
+              alignItems: 'center',
+              marginBottom: theme.spacing(1.5),
+            }}
+          >
+            <Text
+              style={{ color: colors.text, fontSize: 18, fontWeight: '700' }}
+            >
+              モデレーション
+            </Text>
+            <Pressable
+              accessibilityRole="button"
+              accessibilityLabel="閉じる"
+              onPress={onClose}
+              hitSlop={8}
+            >
+              <Text style={{ color: colors.subtext, fontSize: 16 }}>✕</Text>
+            </Pressable>
+          </View>
+          <View
+            style={{
+              flexDirection: 'row',
+              gap: 8,
+              marginBottom: theme.spacing(1.5),
+            }}
+          >
+            {tabButton('log', 'ログ')}
+            {tabButton(
+              'restrictions',
+              `BAN・ミュート（${restrictions.length}）`
+            )}
+          </View>
+
+          {tab === 'log' ? (
+            <FlatList
+              data={entries}
+              keyExtractor={e => e.id}
+              ItemSeparatorComponent={() => <View style={{ height: 8 }} />}
+              onEndReached={() => {
+                if (hasMore) {
+                  loadMore();
+                }
+              }}
+              onEndReachedThreshold={0.3}
+              ListEmptyComponent={empty('まだ記録はありません')}
+              ListFooterComponent={
+                loading && entries.length > 0 ? (
+                  <ActivityIndicator color={colors.pink} />
+                ) : null
+              }
+              renderItem={({ item }) => (
+                <View
+                  style={{
+                    padding: 12,
+                    borderRadius: theme.radius.md,
+                    backgroundColor: colors.surface,
+                  }}
+                >
+                  <Text style={{ color: colors.text, fontSize: 14 }}>
+                    {describeModerationEntry(item)}
+                  </Text>
+                  {!!item.reason && (
+                    <Text
+                      style={{
+                        color: colors.subtext,
+                        fontSize: 12,
+                        marginTop: 4,
+                      }}
+                    >
+                      理由: {item.reason}
+                    </Text>
+                  )}
+                  <Text
+                    style={{
+                      color: colors.subtext,
+                      fontSize: 11,
+                      marginTop: 4,
+                    }}
+                  >
+                    {formatDateTime(item.created_at)}
+                  </Text>
+                </View>
+              )}
+            />
+          ) : (
+            <FlatList
+              data={restrictions}
+              keyExtractor={r => `${r.kind}:${r.user_id}`}
+              ItemSeparatorComponent={() => <View style={{ height: 8 }} />}
+              ListEmptyComponent={empty('BAN・ミュート中のユーザーはいません')}
+              renderItem={({ item }) => (
+                <View
+                  style={{
+                    flexDirection: 'row',
+                    alignItems: 'center',
+                    padding: 12,
+                    borderRadius: theme.radius.md,
+                    backgroundColor: colors.surface,
+                  }}
+                >
+                  <Text style={{ fontSize: 18, marginRight: 10 }}>
+                    {item.avatar_emoji || '👤'}
+                  </Text>
+                  <View style={{ flex: 1 }}>
+                    <Text style={{ color: colors.text, fontSize: 15 }}>
+                      {item.display_name || item.username || 'ユーザー'}
+                    </Text>
+                    <Text style={{ color: colors.subtext, fontSize: 12 }}>
+                      {item.kind === 'ban'
+                        ? 'BAN中'
+                        : `ミュート中（${formatDateTime(item.until || item.created_at)}まで）`}
+                    </Text>
+                  </View>
+                  <Pressable
+                    accessibilityRole="button"
+                    onPress={() => lift(item)}
+                    hitSlop={6}
+                  >
+                    <Text style={{ color: colors.pink, fontWeight: '700' }}>
+                      解除
+                    </Text>
+                  </Pressable>
+                </View>
+              )}
+            />
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+}
@@ -0,0 +1,247 @@
+import { useEffect, useState } from 'react';
+import {
+  Modal,
+  View,
+  Text,
+  Pressable,
+  ScrollView,
+  TextInput,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+
+import { useTheme } from '../theme/theme';
+import { SpaceRules, UpdateSpaceRulesRequest } from '../types/room';
+import {
+  MAX_QUESTION_LENGTH,
+  MAX_RULES_LENGTH,
+  MAX_SCREENING_QUESTIONS,
+  MAX_WELCOME_LENGTH,
+  validateSpaceRules,
+} from '../utils/spaceRules';
+import { notifyError, notifyInfo } from '../utils/notify';
+
+type Props = {
+  visible: boolean;
+  rules: SpaceRules | null;
+  onClose: () => void;
+  // 失敗時はエラーメッセージ、成功時は null を返す
+  onSave: (request: UpdateSpaceRulesRequest) => Promise<string | null>;
+};
+
+/** オーナーがルール・ウェルカムメッセージ・参加時の質問を編集するシート */
+export default function SpaceRulesEditorModal({
+  visible,
+  rules,
+  onClose,
+  onSave,
+}: Props) {
+  const theme = useTheme();
+  const { colors } = theme;
+  const [rulesText, setRulesText] = useState('');
+  const [welcome, setWelcome] = useState('');
+  const [questions, setQuestions] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (visible) {
+      setRulesText(rules?.rules ?? '');
+      setWelcome(rules?.welcome_message ?? '');
+      setQuestions(rules?.screening_questions ?? []);
+    }
+  }, [visible, rules]);
+
+  const handleSave = async () => {
+    const request = {
+      rules: rulesText,
+      welcome_message: welcome,
+      screening_questions: questions,
+    };
+    const invalid = validateSpaceRules(request);
+    if (invalid) {
+      notifyError(invalid);
+      return;
+    }
+    setSaving(true);
+    const failure = await onSave(request);
+    setSaving(false);
+    if (failure) {
+      notifyError(failure);
+      return;
+    }
+    notifyInfo('ルールを保存しました');
+    onClose();
+  };
+
+  const label = (text: string, hint?: string) => (
+    <View style={{ marginTop: 16, marginBottom: 6 }}>
+      <Text style={{ color: colors.subtext, fontSize: 12, fontWeight: '700' }}>
+        {text}
+      </Text>
+      {!!hint && (
+        <Text style={{ color: colors.subtext, fontSize: 11, marginTop: 2 }}>
+          {hint}
+        </Text>
+      )}
+    </View>
+  );
+
+  const inputStyle = {
+    color: colors.text,
+    fontSize: 14,
+    padding: 10,
+    borderRadius: theme.radius.md,
+    backgroundColor: colors.surface,
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      transparent
+      onRequestClose={onClose}
+    >
+      <View
+        style={{
+          flex: 1,
+          backgroundColor: 'rgba(0,0,0,0.5)',
+          justifyContent: 'flex-end',
+        }}
+      >
+        <View
+          style={{
+            maxHeight: '90%',
+            borderTopLeftRadius: 20,
+            borderTopRightRadius: 20,
+            padding: theme.spacing(2),
+            backgroundColor: colors.card,
+            borderColor: colors.border,
+            borderWidth: 1,
+          }}
+        >
+          <View
+            style={{
+              flexDirection: 'row',
+              justifyContent: 'space-between',
+              alignItems: 'center',
+            }}
+          >
+            <Text
+              style={{ color: colors.text, fontSize: 18, fontWeight: '700' }}
+            >
+              ルールと参加時の質問
+            </Text>
+            <Pressable
+              accessibilityRole="button"
+              accessibilityLabel="閉じる"
+              onPress={onClose}
+              hitSlop={8}
+            >
+              <Text style={{ color: colors.subtext, fontSize: 16 }}>✕</Text>
+            </Pressable>
+          </View>
+          <ScrollView keyboardShouldPersistTaps="handled">
+            {label('ウェルカムメッセージ', '参加するときに表示されます')}
+            <TextInput
+              value={welcome}
+              onChangeText={setWelcome}
+              placeholder="例: 早産児ママの情報交換ルームへようこそ！"
+              placeholderTextColor={colors.subtext}
+              maxLength={MAX_WELCOME_LENGTH}
+              multiline
+              style={[inputStyle, { minHeight: 60 }]}
+            />
+            {label(
+              'ルール',
+              'メンバーは同意するまで投稿できません。内容を変えると同意し直してもらいます'
+            )}
+            <TextInput
+              value={rulesText}
+              onChangeText={setRulesText}
+              placeholder="例: 医療的な判断は主治医に相談しましょう"
+              placeholderTextColor={colors.subtext}
+              maxLength={MAX_RULES_LENGTH}
+              multiline
+              style={[inputStyle, { minHeight: 120 }]}
+            />
+            {label(
+              `参加時の質問（${MAX_SCREENING_QUESTIONS}つまで）`,
+              '質問があると参加はリクエスト制になり、回答を見て承認します'
+            )}
+            {questions.map((question, i) => (
+              <View
+                key={i}
+                style={{
+                  flexDirection: 'row',
+                  alignItems: 'center',
+                  marginBottom: 8,
+                }}
+              >
+                <TextInput
+                  value={question}
+                  onChangeText={text =>
+                    setQuestions(prev =>
+                      prev.map((q, j) => (j === i ? text : q))
+                    )
+                  }
+                  placeholder={`質問${i + 1}`}
+                  placeholderTextColor={colors.subtext}
+                  maxLength={MAX_QUESTION_LENGTH}
+                  style={[inputStyle, { flex: 1 }]}
+                />
+                <Pressable
+                  accessibilityRole="button"
+                  accessibilityLabel={`質問${i + 1}を削除`}
+                  onPress={() =>
+                    setQuestions(prev => prev.filter((_, j) => j !== i))
+                  }
+                  hitSlop={6}
+                  style={{ padding: 6, marginLeft: 4 }}
+                >
+                  <Ionicons name="close" size={18} color={colors.subtext} />
+                </Pressable>
+              </View>
+            ))}
+            {questions.length < MAX_SCREENING_QUESTIONS && (
+              <Pressable
+                accessibilityRole="button"
+                onPress={() => setQuestions(prev => [...prev, ''])}
+                style={{
+                  flexDirection: 'row',
+                  alignItems: 'center',
+                  justifyContent: 'center',
+                  paddingVertical: 10,
+                  borderRadius: theme.radius.md,
+                  borderWidth: 1,
+                  borderColor: colors.pink,
+                }}
+              >
+                <Ionicons name="add" size={18} color={colors.pink} />
+                <Text style={{ color: colors.pink, marginLeft: 4 }}>
+                  質問を追加
+                </Text>
+              </Pressable>
+            )}
+            <Pressable
+              accessibilityRole="button"
+              onPress={handleSave}
+              disabled={saving}
+              style={{
+                marginTop: 20,
+                marginBottom: 8,
+                paddingVertical: 12,
+                borderRadius: theme.radius.md,
+                alignItems: 'center',
+                backgroundColor: colors.pink,
+                opacity: saving ? 0.5 : 1,
+              }}
+            >
+              <Text style={{ color: '#23181D', fontWeight: '700' }}>
+                {saving ? '保存中...' : '保存'}
+              </Text>
+            </Pressable>
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+}
@@ -0,0 +1,232 @@
+import { useEffect, useState } from 'react';
+import {
+  Modal,
+  View,
+  Text,
+  Pressable,
+  ScrollView,
+  TextInput,
+} from 'react-native';
+
+import { useTheme } from '../theme/theme';
+import { SpaceRules } from '../types/room';
+import {
+  MAX_ANSWER_LENGTH,
+  validateScreeningAnswers,
+} from '../utils/spaceRules';
+import { notifyError } from '../utils/notify';
+
+type Props = {
+  visible: boolean;
+  spaceName: string;
+  rules: SpaceRules | null;
+  askQuestions?: boolean; // 参加前のみ、参加時の質問の回答欄を出す
+  submitLabel?: string; // 省略すると閲覧のみ
+  // 失敗時はエラーメッセージ、成功時は null を返す
+  onSubmit?: (answers: string[]) => Promise<string | null>;
+  onClose: () => void;
+};
+
+/** ルームのウェルカムメッセージとルール。参加時・チャンネルの固定表示から開く */
+export default function SpaceRulesSheet({
+  visible,
+  spaceName,
+  rules,
+  askQuestions = false,
+  submitLabel,
+  onSubmit,
+  onClose,
+}: Props) {
+  const theme = useTheme();
+  const { colors } = theme;
+  const [answers, setAnswers] = useState<string[]>([]);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    if (!visible) {
+      setAnswers([]);
+    }
+  }, [visible]);
+
+  const questions = askQuestions ? (rules?.screening_questions ?? []) : [];
+
+  const handleSubmit = async () => {
+    if (!onSubmit) {
+      return;
+    }
+    const invalid = validateScreeningAnswers(questions, answers);
+    if (invalid) {
+      notifyError(invalid);
+      return;
+    }
+    setBusy(true);
+    const failure = await onSubmit(questions.map((_, i) => answers[i] ?? ''));
+    setBusy(false);
+    if (failure) {
+      notifyError(failure);
+      return;
+    }
+    onClose();
+  };
+
+  const heading = (text: string) => (
+    <Text
+      style={{
+        color: colors.subtext,
+        fontSize: 12,
+        fontWeight: '700',
+        marginTop: 16,
+        marginBottom: 6,
+      }}
+    >
+      {text}
+    </Text>
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      transparent
+      onRequestClose={onClose}
+    >
+      <View
+        style={{
+          flex: 1,
+          backgroundColor: 'rgba(0,0,0,0.5)',
+          justifyContent: 'flex-end',
+        }}
+      >
+        <View
+          style={{
+            maxHeight: '85%',
+            borderTopLeftRadius: 20,
+            borderTopRightRadius: 20,
+            padding: theme.spacing(2),
+            backgroundColor: colors.card,
+            borderColor: colors.border,
+            borderWidth: 1,
+          }}
+        >
+          <View
+            style={{
+              flexDirection: 'row',
+              justifyContent: 'space-between',
+              alignItems: 'center',
+            }}
+          >
+            <Text
+              style={{ color: colors.text, fontSize: 18, fontWeight: '700' }}
+              numberOfLines={1}
+            >
+              {spaceName}
+            </Text>
+            <Pressable
+              accessibilityRole="button"
+              accessibilityLabel="閉じる"
+              onPress={onClose}
+              hitSlop={8}
+            >
+              <Text style={{ color: colors.subtext, fontSize: 16 }}>✕</Text>
+            </Pressable>
+          </View>
+          <ScrollView keyboardShouldPersistTaps="handled">
+            {!!rules?.welcome_message && (
+              <>
+                {heading('ようこそ')}
+                <Text style={{ color: colors.text, fontSize: 14 }}>
+                  {rules.welcome_message}
+                </Text>
+              </>
+            )}
+            {!!rules?.rules && (
+              <>
+                {heading('ルール')}
+                <Text
+                  style={{ color: colors.text, fontSize: 14, lineHeight: 21 }}
+                >
+                  {rules.rules}
+                </Text>
+              </>
+            )}
+            {!rules?.rules && !rules?.welcome_message && (
+              <Text
+                style={{ color: colors.subtext, fontSize: 14, marginTop: 16 }}
+              >
+                ルールはまだ設定されていません
+              </Text>
+            )}
+            {questions.length > 0 && (
+              <>
+                {heading('参加時の質問（オーナーが確認します）')}
+                {questions.map((question, i) => (
+                  <View key={`${i}:${question}`} style={{ marginBottom: 10 }}>
+                    <Text style={{ color: colors.text, fontSize: 14 }}>
+                      {question}
+                    </Text>
+                    <TextInput
+                      value={answers[i] ?? ''}
+                      onChangeText={text =>
+                        setAnswers(prev => {
+                          const next = [...prev];
+                          next[i] = text;
+                          return next;
+                        })
+                      }
+                      placeholder="回答"
+                      placeholderTextColor={colors.subtext}
+                      maxLength={MAX_ANSWER_LENGTH}
+                      multiline
+                      style={{
+                        color: colors.text,
+                        fontSize: 14,
+                        marginTop: 6,
+                        padding: 10,
+                        borderRadius: theme.radius.md,
+                        backgroundColor: colors.surface,
+                      }}
+                    />
+                  </View>
+                ))}
+              </>
+            )}
+            {submitLabel && onSubmit ? (
+              <Pressable
+                accessibilityRole="button"
+                onPress={handleSubmit}
+                disabled={busy}
+                style={{
+                  marginTop: 16,
+                  marginBottom: 8,
+                  paddingVertical: 12,
+                  borderRadius: theme.radius.md,
+                  alignItems: 'center',
+                  backgroundColor: colors.pink,
+                  opacity: busy ? 0.5 : 1,
+                }}
+              >
+                <Text style={{ color: '#23181D', fontWeight: '700' }}>
+                  {submitLabel}
+                </Text>
+              </Pressable>
+            ) : (
+              rules?.accepted &&
+              !!rules.rules && (
+                <Text
+                  style={{
+                    color: colors.subtext,
+                    fontSize: 12,
+                    marginTop: 16,
+                    marginBottom: 8,
+                  }}
+                >
+                  ルールに同意済みです
+                </Text>
+              )
+            )}
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+}
@@ -0,0 +1,214 @@
+import { useEffect, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  Pressable,
+  ActivityIndicator,
+  GestureResponderEvent,
+} from 'react-native';
+import { Audio, AVPlaybackStatus } from 'expo-av';
+import { Ionicons } from '@expo/vector-icons';
+
+import {
+  formatVoiceDuration,
+  nextPlaybackRate,
+  normalizeWaveform,
+} from '../utils/voiceMessage';
+import { notifyError } from '../utils/notify';
+
+type Props = {
+  url: string;
+  durationMs?: number;
+  waveform?: number[];
+  // 自分の吹き出し（ピンク背景）かどうかで色を変える
+  tint: string;
+  mutedTint: string;
+};
+
+export default function VoiceMessageBubble({
+  url,
+  durationMs,
+  waveform,
+  tint,
+  mutedTint,
+}: Props) {
+  const soundRef = useRef<Audio.Sound | null>(null);
+  const widthRef = useRef(0);
+  const [loading, setLoading] = useState(false);
+  const [playing, setPlaying] = useState(false);
+  const [positionMs, setPositionMs] = useState(0);
+  const [totalMs, setTotalMs] = useState(durationMs ?? 0);
+  const [rate, setRate] = useState<number>(1);
+
+  const bars = normalizeWaveform(waveform);
+  const progress = totalMs > 0 ? Math.min(positionMs / totalMs, 1) : 0;
+
+  useEffect(() => {
+    return () => {
+      soundRef.current?.unloadAsync().catch(() => {});
+      soundRef.current = null;
+    };
+  }, []);
+
+  const onStatus = (status: AVPlaybackStatus) => {
+    if (!status.isLoaded) {
+      return;
+    }
+    setPlaying(status.isPlaying);
+    setPositionMs(status.positionMillis);
+    if (status.durationMillis) {
+      setTotalMs(status.durationMillis);
+    }
+    if (status.didJustFinish) {
+      setPlaying(false);
+      setPositionMs(0);
+      soundRef.current?.setPositionAsync(0).catch(() => {});
+      soundRef.current?.pauseAsync().catch(() => {});
+    }
+  };
+
+  const ensureSound = async () => {
+    if (soundRef.current) {
+      return soundRef.current;
+    }
+    setLoading(true);
+    try {
+      await Audio.setAudioModeAsync({
+        allowsRecordingIOS: false,
+        playsInSilentModeIOS: true,
+      });
+      const { sound } = await Audio.Sound.createAsync(
+        { uri: url },
+        { shouldPlay: false, rate, shouldCorrectPitch: true },
+        onStatus
+      );
+      soundRef.current = sound;
+      return sound;
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const togglePlay = async () => {
+    try {
+      const sound = await ensureSound();
+      if (playing) {
+        await sound.pauseAsync();
+      } else {
+        await sound.playAsync();
+      }
+    } catch {
+      notifyError('音声を再生できませんでした');
+    }
+  };
+
+  const cycleRate = async () => {
+    const next = nextPlaybackRate(rate);
+    setRate(next);
+    await soundRef.current?.setRateAsync(next, true).catch(() => {});
+  };
+
+  const seek = async (e: GestureResponderEvent) => {
+    if (widthRef.current <= 0 || totalMs <= 0) {
+      return;
+    }
+    const ratio = Math.min(
+      Math.max(e.nativeEvent.locationX / widthRef.current, 0),
+      1
+    );
+    const target = Math.round(ratio * totalMs);
+    setPositionMs(target);
+    try {
+      const sound = await ensureSound();
+      await sound.setPositionAsync(target);
+    } catch {}
+  };
+
+  return (
+    <View
+      style={{
+        flexDirection: 'row',
+        alignItems: 'center',
+        width: 240,
+        paddingVertical: 2,
+      }}
+    >
+      <Pressable
+        accessibilityRole="button"
+        accessibilityLabel={playing ? '一時停止' : '再生'}
+        onPress={togglePlay}
+        hitSlop={8}
+        style={{ marginRight: 8 }}
+      >
+        {loading ? (
+          <ActivityIndicator size="small" color={tint} />
+        ) : (
+          <Ionicons name={playing ? 'pause' : 'play'} size={22} color={tint} />
+        )}
+      </Pressable>
+      <View
+        accessibilityRole="adjustable"
+        accessibilityLabel="再生位置"
+        onLayout={e => {
+          widthRef.current = e.nativeEvent.layout.width;
+        }}
+        onStartShouldSetResponder={() => true}
+        onMoveShouldSetResponder={() => true}
+        onResponderGrant={seek}
+        onResponderMove={seek}
+        style={{
+          flex: 1,
+          height: 28,
+          flexDirection: 'row',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+        }}
+      >
+        {bars.map((level, idx) => (
+          <View
+            key={idx}
+            pointerEvents="none"
+            style={{
+              width: 3,
+              height: Math.max(3, level * 26),
+              borderRadius: 2,
+              backgroundColor:
+                (idx + 0.5) / bars.length <= progress ? tint : mutedTint,
+            }}
+          />
+        ))}
+      </View>
+      <Text
+        style={{
+          color: tint,
+          fontSize: 11,
+          marginLeft: 8,
+          width: 32,
+          fontVariant: ['tabular-nums'],
+        }}
+      >
+        {formatVoiceDuration(
+          playing || positionMs > 0 ? totalMs - positionMs : totalMs
+        )}
+      </Text>
+      <Pressable
+        accessibilityRole="button"
+        accessibilityLabel={`再生速度 ${rate}倍`}
+        onPress={cycleRate}
+        hitSlop={6}
+        style={{
+          marginLeft: 4,
+          paddingHorizontal: 6,
+          paddingVertical: 2,
+          borderRadius: 999,
+          borderWidth: 1,
+          borderColor: mutedTint,
+        }}
+      >
+        <Text style={{ color: tint, fontSize: 11, fontWeight: '700' }}>
+          {rate}x
+        </Text>
+      </Pressable>
+    </View>
+  );
+}
@@ -0,0 +1,209 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { View, Text, Pressable, ActivityIndicator } from 'react-native';
+import { Audio } from 'expo-av';
+import { Ionicons } from '@expo/vector-icons';
+
+import { useTheme } from '../theme/theme';
+import { notifyError } from '../utils/notify';
+import {
+  VOICE_MAX_DURATION_MS,
+  compressWaveform,
+  formatVoiceDuration,
+  meteringToLevel,
+} from '../utils/voiceMessage';
+
+export type RecordedVoice = {
+  uri: string;
+  durationMs: number;
+  waveform: number[];
+};
+
+type Props = {
+  onCancel: () => void;
+  onSend: (voice: RecordedVoice) => void;
+};
+
+// 表示する直近のレベル数（録音中のライブ波形）
+const LIVE_BARS = 28;
+
+/**
+ * 入力欄の代わりに出す録音バー。表示と同時に録音を始め、
+ * 送信で録音を止めてファイルと波形を返す。上限に達すると自動で送信する。
+ */
+export default function VoiceRecorderBar({ onCancel, onSend }: Props) {
+  const { colors } = useTheme();
+  const recordingRef = useRef<Audio.Recording | null>(null);
+  const levelsRef = useRef<number[]>([]);
+  const finishingRef = useRef(false);
+  const elapsedMsRef = useRef(0);
+  const [elapsedMs, setElapsedMs] = useState(0);
+  const [live, setLive] = useState<number[]>([]);
+  const [ready, setReady] = useState(false);
+
+  const stop = useCallback(async () => {
+    const rec = recordingRef.current;
+    recordingRef.current = null;
+    if (!rec) {
+      return null;
+    }
+    try {
+      const status = await rec.stopAndUnloadAsync();
+      return { uri: rec.getURI(), durationMs: status.durationMillis };
+    } catch {
+      return { uri: rec.getURI(), durationMs: 0 };
+    } finally {
+      await Audio.setAudioModeAsync({ allowsRecordingIOS: false }).catch(
+        () => {}
+      );
+    }
+  }, []);
+
+  const finish = useCallback(async () => {
+    if (finishingRef.current) {
+      return;
+    }
+    finishingRef.current = true;
+    const result = await stop();
+    if (!result?.uri) {
+      onCancel();
+      return;
+    }
+    onSend({
+      uri: result.uri,
+      durationMs: result.durationMs || elapsedMsRef.current,
+      waveform: compressWaveform(levelsRef.current),
+    });
+  }, [stop, onSend, onCancel]);
+
+  const finishRef = useRef(finish);
+  finishRef.current = finish;
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const perm = await Audio.requestPermissionsAsync();
+        if (!perm.granted) {
+          notifyError('マイクへのアクセスが必要です');
+          onCancel();
+          return;
+        }
+        await Audio.setAudioModeAsync({
+          allowsRecordingIOS: true,
+          playsInSilentModeIOS: true,
+        });
+        // HIGH_QUALITY プリセットはメータリング有効の m4a（AAC）
+        const { recording } = await Audio.Recording.createAsync(
+          Audio.RecordingOptionsPresets.HIGH_QUALITY,
+          status => {
+            if (!status.isRecording) {
+              return;
+            }
+            const level = meteringToLevel(status.metering);
+            levelsRef.current.push(level);
+            elapsedMsRef.current = status.durationMillis;
+            setElapsedMs(status.durationMillis);
+            setLive(prev => [...prev, level].slice(-LIVE_BARS));
+            if (status.durationMillis >= VOICE_MAX_DURATION_MS) {
+              finishRef.current();
+            }
+          },
+          100
+        );
+        if (cancelled) {
+          await recording.stopAndUnloadAsync().catch(() => {});
+          return;
+        }
+        recordingRef.current = recording;
+        setReady(true);
+      } catch {
+        notifyError('録音を開始できませんでした');
+        onCancel();
+      }
+    })();
+    return () => {
+      cancelled = true;
+      if (!finishingRef.current) {
+        stop();
+      }
+    };
+    // 表示中に一度だけ録音を始める
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const handleCancel = async () => {
+    finishingRef.current = true;
+    await stop();
+    onCancel();
+  };
+
+  return (
+    <View style={{ flex: 1, flexDirection: 'row', alignItems: 'center' }}>
+      <Pressable
+        accessibilityRole="button"
+        accessibilityLabel="録音をやめる"
+        onPress={handleCancel}
+        hitSlop={8}
+        style={{ padding: 6 }}
+      >
+        <Ionicons name="trash-outline" size={20} color={colors.subtext} />
+      </Pressable>
+      <View
+        style={{
+          width: 8,
+          height: 8,
+          borderRadius: 4,
+          marginHorizontal: 6,
+          backgroundColor: ready ? '#ff6b6b' : colors.subtext,
+        }}
+      />
+      <Text
+        style={{ color: colors.text, width: 40, fontVariant: ['tabular-nums'] }}
+      >
+        {formatVoiceDuration(elapsedMs)}
+      </Text>
+      <View
+        style={{
+          flex: 1,
+          height: 32,
+          flexDirection: 'row',
+          alignItems: 'center',
+          justifyContent: 'flex-end',
+          gap: 2,
+          overflow: 'hidden',
+        }}
+      >
+        {ready ? (
+          live.map((level, idx) => (
+            <View
+              key={idx}
+              style={{
+                width: 3,
+                height: Math.max(3, level * 28),
+                borderRadius: 2,
+                backgroundColor: colors.pink,
+              }}
+            />
+          ))
+        ) : (
+          <ActivityIndicator size="small" color={colors.pink} />
+        )}
+      </View>
+      <Pressable
+        accessibilityRole="button"
+        accessibilityLabel="ボイスメッセージを送信"
+        onPress={finish}
+        disabled={!ready}
+        style={({ pressed }) => ({
+          marginLeft: 8,
+          padding: 8,
+          borderRadius: 20,
+          backgroundColor: colors.pink,
+          opacity: !ready ? 0.5 : pressed ? 0.7 : 1,
+        })}
+      >
+        <Ionicons name="send" size={20} color="#23181D" />
+      </Pressable>
+    </View>
+  );
+}
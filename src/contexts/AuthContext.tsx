@@ -36,8 +36,10 @@ import { secureLogger } from '../utils/privacyProtection';
 import { SESSION_CHECK_INTERVAL_MS } from '../config/notificationsConfig';
 import {
   registerDeviceForPush,
+  syncEventReminders,
   unregisterDeviceForPush,
 } from '../services/pushNotificationService';
+import { publishDeviceKey } from '../services/e2eService';
 
 // =====================================================
 // CONTEXT STATE TYPES
@@ -252,6 +254,16 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
             error: String(e),
           });
         }
+
+        // 暗号化 DM を受け取れるよう、この端末の公開鍵を登録しておく
+        publishDeviceKey(user.id).catch(e =>
+          secureLogger.warn('E2E key publish failed on session restore', {
+            error: String(e),
+          })
+        );
+
+        // 中止・退出したイベントのリマインダーが鳴らないよう予約を合わせ直す
+        syncEventReminders();
       } else {
         dispatch({ type: 'SET_USER', payload: null });
         secureLogger.info('AuthContext: No valid session found');
@@ -546,6 +558,14 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
               error: String(e),
             });
           }
+
+          publishDeviceKey(response.user.id).catch(e =>
+            secureLogger.warn('E2E key publish failed on login', {
+              error: String(e),
+            })
+          );
+
+          syncEventReminders();
         } else {
           const errorResponse = response as AuthErrorResponse;
           dispatch({ type: 'SET_ERROR', payload: errorResponse.error });
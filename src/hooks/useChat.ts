@@ -10,10 +10,23 @@
  * - Error handling and retry logic
  */
 
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 
 import { chatService } from '../services/chatService';
+import {
+  OutboxItem,
+  enqueueMessage,
+  getOutboxItems,
+  removeOutboxItem,
+  retryOutboxItem,
+  subscribeOutbox,
+} from '../services/outboxService';
 import { secureLogger } from '../utils/privacyProtection';
+import { applyReactionChange, hasReacted } from '../utils/messageReactions';
+import {
+  msUntilNextExpiry,
+  withoutExpiredMessages,
+} from '../utils/disappearingMessages';
 import {
   ChatWithParticipants,
   MessageWithSender,
@@ -24,15 +37,17 @@ import {
   ChatEvent,
   ChatEventType,
   MessageEvent,
+  ReactionEvent,
   TypingEvent,
   ReadStatusEvent,
   MessageType,
   PaginatedMessages,
   ChatPaginationParams,
   OptimisticMessage,
+  MessageMetadata,
+  PinnedMessage,
   sanitizeChatForLogging,
   sanitizeMessageForLogging,
-  createSendMessageRequest,
 } from '../types/chat';
 import { useAuth } from '../contexts/AuthContext';
 
@@ -65,6 +80,9 @@ const HOOK_CONFIG = {
   TYPING_DEBOUNCE_MS: 500,
   OPTIMISTIC_TIMEOUT_MS: 10000, // Remove optimistic message after 10s if no response
   AUTO_READ_DELAY_MS: 1000, // Mark as read after 1s of viewing
+  REVEAL_PAGE_SIZE: 100, // 検索結果へ飛ぶときは大きめのページで遡る
+  REVEAL_MAX_PAGES: 20,
+  REVEAL_CONTEXT: 10, // 対象より古いメッセージがこれより少なければもう 1 ページ読む
 } as const;
 
 // =====================================================
@@ -176,59 +194,21 @@ export function useChat(chatId: string) {
   }, []);
 
   /**
-   * Adds an optimistic message (before server confirmation)
+   * Pinned messages (fetched separately: they may be older than the loaded page)
    */
-  const addOptimisticMessage = useCallback(
-    (tempMessage: OptimisticMessage): string => {
-      const tempId = `temp_${Date.now()}_${Math.random()}`;
-      const optimisticMessage: OptimisticMessage = {
-        ...tempMessage,
-        id: tempId,
-        tempId,
-        isOptimistic: true,
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString(),
-      };
-
-      addMessage(optimisticMessage);
-
-      // Remove optimistic message after timeout if not confirmed
-      setTimeout(() => {
-        setState(prev => {
-          const stillOptimistic = prev.messages.find(m => {
-            if (!m || typeof m !== 'object') {
-              return false;
-            }
-            const hasTemp = 'tempId' in (m as any);
-            const hasOpt = 'isOptimistic' in (m as any);
-            return (
-              hasTemp &&
-              (m as any).tempId === tempId &&
-              hasOpt &&
-              (m as any).isOptimistic
-            );
-          });
-          if (stillOptimistic) {
-            return {
-              ...prev,
-              messages: prev.messages.filter(m => {
-                if (!m || typeof m !== 'object') {
-                  return true;
-                }
-                return (
-                  !('tempId' in (m as any)) || (m as any).tempId !== tempId
-                );
-              }),
-            };
-          }
-          return prev;
-        });
-      }, HOOK_CONFIG.OPTIMISTIC_TIMEOUT_MS);
-
-      return tempId;
-    },
-    [addMessage]
-  );
+  const [pinnedMessages, setPinnedMessages] = useState<PinnedMessage[]>([]);
+  const pinnedRef = useRef(pinnedMessages);
+  pinnedRef.current = pinnedMessages;
+  const loadPinnedMessages = useCallback(async () => {
+    if (!chatId) {
+      setPinnedMessages([]);
+      return;
+    }
+    const response = await chatService.getPinnedMessages(chatId);
+    if (response.success) {
+      setPinnedMessages(response.data);
+    }
+  }, [chatId]);
 
   // =====================================================
   // REAL-TIME EVENT HANDLERS
@@ -292,6 +272,11 @@ export function useChat(chatId: string) {
           case ChatEventType.MESSAGE_UPDATED: {
             const messageEvent = event as MessageEvent;
             updateMessage(messageEvent.data.id, messageEvent.data);
+            if (
+              pinnedRef.current.some(p => p.message_id === messageEvent.data.id)
+            ) {
+              loadPinnedMessages();
+            }
             break;
           }
 
@@ -308,6 +293,32 @@ export function useChat(chatId: string) {
               // Hard delete - remove from list
               removeMessage(messageEvent.data.id);
             }
+            if (
+              pinnedRef.current.some(p => p.message_id === messageEvent.data.id)
+            ) {
+              loadPinnedMessages();
+            }
+            break;
+          }
+
+          case ChatEventType.PINS_CHANGED: {
+            loadPinnedMessages();
+            break;
+          }
+
+          case ChatEventType.REACTION_ADDED:
+          case ChatEventType.REACTION_REMOVED: {
+            const reactionEvent = event as ReactionEvent;
+            const change =
+              event.type === ChatEventType.REACTION_ADDED ? 'added' : 'removed';
+            setState(prev => {
+              const messages = applyReactionChange(
+                prev.messages,
+                reactionEvent.data,
+                change
+              );
+              return messages === prev.messages ? prev : { ...prev, messages };
+            });
             break;
           }
 
@@ -380,7 +391,7 @@ export function useChat(chatId: string) {
         });
       }
     },
-    [user?.id, addMessage, updateMessage, removeMessage]
+    [user?.id, addMessage, updateMessage, removeMessage, loadPinnedMessages]
   );
 
   // =====================================================
@@ -484,6 +495,83 @@ export function useChat(chatId: string) {
     setError,
   ]);
 
+  /**
+   * Loads older pages until the message is in the list, so a search hit can be
+   * shown with the messages around it. Returns false if it was not found.
+   */
+  const revealMessage = useCallback(
+    async (messageId: string): Promise<boolean> => {
+      if (state.messages.some(m => m.id === messageId)) {
+        return true;
+      }
+      let cursor = state.nextCursor;
+      let hasMore = state.hasMoreMessages;
+      let found = false;
+      const pages: MessageWithSender[][] = [];
+      updateState({ isLoadingMessages: true });
+      try {
+        for (
+          let i = 0;
+          i < HOOK_CONFIG.REVEAL_MAX_PAGES && hasMore && cursor;
+          i++
+        ) {
+          const response = await chatService.getMessages(chatId, {
+            limit: HOOK_CONFIG.REVEAL_PAGE_SIZE,
+            cursor,
+            order: 'desc',
+          });
+          if (!response.success) {
+            setError(response.error);
+            return false;
+          }
+          const page = response.data.messages;
+          pages.push(page);
+          hasMore = response.data.has_more;
+          cursor = response.data.next_cursor;
+          if (found) {
+            break;
+          }
+          const index = page.findIndex(m => m.id === messageId);
+          if (index >= 0) {
+            found = true;
+            // ページの古い端にあるときは、前の流れも読めるようにもう 1 ページ読む
+            if (page.length - 1 - index >= HOOK_CONFIG.REVEAL_CONTEXT) {
+              break;
+            }
+          }
+        }
+        // loadMoreMessages を続けて呼んだときと同じ並びで前に足す
+        const older = pages.reverse().flat();
+        setState(prev => {
+          const known = new Set(prev.messages.map(m => m.id));
+          return {
+            ...prev,
+            messages: [
+              ...older.filter(m => !known.has(m.id)),
+              ...prev.messages,
+            ],
+            hasMoreMessages: hasMore,
+            nextCursor: cursor,
+            isLoadingMessages: false,
+          };
+        });
+        return found;
+      } catch (error) {
+        secureLogger.error('Error revealing message', { error, chatId });
+        setError('メッセージの読み込み中にエラーが発生しました。');
+        return false;
+      }
+    },
+    [
+      chatId,
+      state.messages,
+      state.hasMoreMessages,
+      state.nextCursor,
+      updateState,
+      setError,
+    ]
+  );
+
   /**
    * Sends a new message with optimistic updates
    */
@@ -514,92 +602,95 @@ export function useChat(chatId: string) {
       try {
         updateState({ isSending: true, error: null });
 
-        // Create optimistic message
-        const optimisticMessage: OptimisticMessage = {
-          id: '',
-          chat_id: chatId,
-          sender_id: user.id,
-          sender: user,
-          content: content.trim(),
-          message_type: messageType,
-          created_at: '',
-          updated_at: '',
-          edited_at: null,
-          deleted_at: null,
-          reply_to_message_id: replyToMessageId || null,
-          metadata: metadata || null,
-          read_by: [],
-          is_read: false, // Initially not read by anyone
-          isOptimistic: true,
-        };
-
-        const tempId = addOptimisticMessage(optimisticMessage);
-
-        // Send message to server
-        const request = createSendMessageRequest({
-          chat_id: chatId,
+        // Queue in the outbox; it shows up as pending until the server confirms
+        await enqueueMessage({
+          kind: 'dm',
+          targetId: chatId,
+          senderId: user.id,
           content: content.trim(),
-          message_type: messageType,
-          reply_to_message_id: replyToMessageId,
+          messageType,
+          replyToMessageId,
           metadata,
         });
 
-        const response = await chatService.sendMessage(request);
-
         updateState({ isSending: false });
-
-        if (response.success) {
-          // Replace optimistic message with real message immediately
-          setState(prev => ({
-            ...prev,
-            messages: prev.messages.map(m => {
-              if (!m || typeof m !== 'object') {
-                return m;
-              }
-              return 'tempId' in (m as any) && (m as any).tempId === tempId
-                ? { ...response.data, isOptimistic: false }
-                : m;
-            }),
-          }));
-
-          secureLogger.info('Message sent successfully', {
-            messageId: response.data.id,
-            chatId,
-          });
-        } else {
-          // Mark optimistic message as failed - cast to OptimisticMessage
-          const errorUpdate = {
-            isOptimistic: false,
-          } as Partial<OptimisticMessage>;
-          setState(prev => ({
-            ...prev,
-            messages: prev.messages.map(m => {
-              if (!m || typeof m !== 'object') {
-                return m;
-              }
-              return 'tempId' in (m as any) && (m as any).tempId === tempId
-                ? { ...(m as any), ...errorUpdate, error: response.error }
-                : m;
-            }),
-          }));
-          setError(response.error);
-        }
       } catch (error) {
         updateState({ isSending: false });
-        secureLogger.error('Error sending message', { error, chatId });
+        secureLogger.error('Error queueing message', { error, chatId });
         setError('メッセージの送信中にエラーが発生しました。');
       }
     },
-    [
-      user,
-      state.chat,
-      state.isSending,
-      chatId,
-      updateState,
-      setError,
-      addOptimisticMessage,
-      updateMessage,
-    ]
+    [user, state.chat, state.isSending, chatId, updateState, setError]
+  );
+
+  /**
+   * Resends a message that failed to leave the outbox
+   */
+  const retryMessage = useCallback((outboxId: string) => {
+    retryOutboxItem(outboxId);
+  }, []);
+
+  /**
+   * Drops a failed message from the outbox
+   */
+  const discardMessage = useCallback((outboxId: string) => {
+    removeOutboxItem(outboxId);
+  }, []);
+
+  /**
+   * Toggles the current user's emoji reaction (optimistic; rolled back on failure)
+   */
+  const toggleReaction = useCallback(
+    async (messageId: string, emoji: string) => {
+      if (!user) {
+        return;
+      }
+      const target = state.messages.find(m => m.id === messageId);
+      if (!target) {
+        return;
+      }
+      const reacted = !hasReacted(target.reactions, user.id, emoji);
+      const reaction = {
+        message_id: messageId,
+        user_id: user.id,
+        emoji,
+        created_at: new Date().toISOString(),
+      };
+      const apply = (change: 'added' | 'removed') =>
+        setState(prev => ({
+          ...prev,
+          messages: applyReactionChange(prev.messages, reaction, change),
+        }));
+
+      apply(reacted ? 'added' : 'removed');
+      const response = await chatService.setReaction(
+        chatId,
+        messageId,
+        emoji,
+        reacted
+      );
+      if (!response.success) {
+        apply(reacted ? 'removed' : 'added');
+        setError(response.error);
+      }
+    },
+    [user, state.messages, chatId, setError]
+  );
+
+  /**
+   * Pins or unpins a message for everyone in the chat
+   */
+  const togglePin = useCallback(
+    async (messageId: string) => {
+      const pinned = !pinnedMessages.some(p => p.message_id === messageId);
+      const response = await chatService.setPinned(chatId, messageId, pinned);
+      if (!response.success) {
+        setError(response.error);
+        return;
+      }
+      await loadPinnedMessages();
+    },
+    [chatId, pinnedMessages, loadPinnedMessages, setError]
   );
 
   /**
@@ -741,7 +832,7 @@ export function useChat(chatId: string) {
         setState(prev => ({
           ...prev,
           chat: cached.chat,
-          messages: cached.messages,
+          messages: withoutExpiredMessages(cached.messages),
           nextCursor: cached.nextCursor,
         }));
       }
@@ -766,7 +857,7 @@ export function useChat(chatId: string) {
       // 現在の状態をキャッシュに保存（次回マウントで即時反映）
       chatStateCache.set(chatId, {
         chat: state.chat,
-        messages: state.messages,
+        messages: withoutExpiredMessages(state.messages),
         nextCursor: state.nextCursor,
       });
     };
@@ -774,6 +865,89 @@ export function useChat(chatId: string) {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [chatId, isAuthenticated]);
 
+  /**
+   * Loads pinned messages when the chat changes
+   */
+  useEffect(() => {
+    if (chatId && isAuthenticated) {
+      loadPinnedMessages();
+    } else {
+      setPinnedMessages([]);
+    }
+  }, [chatId, isAuthenticated, loadPinnedMessages]);
+
+  /**
+   * Removes disappearing messages from the list when they expire
+   * (the server purge job runs only every few minutes)
+   */
+  useEffect(() => {
+    const delay = msUntilNextExpiry(state.messages);
+    if (delay === null) {
+      return;
+    }
+    const timer = setTimeout(
+      () =>
+        setState(prev => {
+          const messages = withoutExpiredMessages(prev.messages);
+          return messages === prev.messages ? prev : { ...prev, messages };
+        }),
+      // setTimeout は 2^31-1 ms を超えると即時発火する
+      Math.min(delay + 500, 2 ** 31 - 1)
+    );
+    return () => clearTimeout(timer);
+  }, [state.messages]);
+
+  /**
+   * Tracks this chat's queued messages in the outbox
+   */
+  const [outboxItems, setOutboxItems] = useState<OutboxItem[]>([]);
+  useEffect(() => {
+    if (!chatId) {
+      return;
+    }
+    let cancelled = false;
+    getOutboxItems(chatId).then(list => {
+      if (!cancelled) {
+        setOutboxItems(list);
+      }
+    });
+    const unsubscribe = subscribeOutbox(event => {
+      if (event.item.targetId !== chatId) {
+        return;
+      }
+      if (event.type === 'changed') {
+        setOutboxItems(prev =>
+          prev.some(i => i.id === event.item.id)
+            ? prev.map(i => (i.id === event.item.id ? event.item : i))
+            : [...prev, event.item]
+        );
+        return;
+      }
+      setOutboxItems(prev => prev.filter(i => i.id !== event.item.id));
+      if (event.type === 'sent' && event.message) {
+        addMessage(event.message);
+      }
+    });
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [chatId, addMessage]);
+
+  const messages = useMemo<OptimisticMessage[]>(() => {
+    if (outboxItems.length === 0 || !user) {
+      return state.messages;
+    }
+    // realtime で先に届いたものは二重に出さない
+    const delivered = new Set(
+      state.messages.map(m => m.metadata?.client_message_id).filter(Boolean)
+    );
+    const queued = outboxItems
+      .filter(i => !delivered.has(i.id))
+      .map(i => outboxItemToMessage(i, user));
+    return [...state.messages, ...queued];
+  }, [state.messages, outboxItems, user]);
+
   /**
    * Handle visibility change for auto-read
    */
@@ -792,20 +966,26 @@ export function useChat(chatId: string) {
   return {
     // State
     chat: state.chat,
-    messages: state.messages,
+    messages,
     isLoading: state.isLoading,
     isLoadingMessages: state.isLoadingMessages,
     isSending: state.isSending,
     error: state.error,
     hasMoreMessages: state.hasMoreMessages,
     typingUsers: state.typingUsers,
+    pinnedMessages,
 
     // Actions
     sendMessage,
+    retryMessage,
+    discardMessage,
+    toggleReaction,
+    togglePin,
     editMessage,
     deleteMessage,
     updateTypingStatus,
     loadMoreMessages,
+    revealMessage,
     retry,
     clearError,
 
@@ -815,4 +995,36 @@ export function useChat(chatId: string) {
   };
 }
 
+/**
+ * Shows a queued outbox entry as a message bubble
+ */
+function outboxItemToMessage(
+  item: OutboxItem,
+  sender: MessageWithSender['sender']
+): OptimisticMessage {
+  const failed = item.status === 'failed';
+  return {
+    id: item.id,
+    chat_id: item.targetId,
+    sender_id: item.senderId,
+    sender,
+    content: item.content,
+    message_type: item.messageType as MessageType,
+    created_at: item.createdAt,
+    updated_at: item.createdAt,
+    edited_at: null,
+    deleted_at: null,
+    reply_to_message_id: item.replyToMessageId ?? null,
+    metadata: { ...(item.metadata || {}), client_message_id: item.id },
+    read_by: [],
+    is_read: false,
+    delivery_status: [],
+    read_receipt_status: 'unread' as any,
+    isOptimistic: !failed,
+    tempId: item.id,
+    sendStatus: failed ? 'failed' : 'pending',
+    error: failed ? item.lastError || undefined : undefined,
+  };
+}
+
 export default useChat;
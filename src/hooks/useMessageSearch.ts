@@ -0,0 +1,125 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+import {
+  MessageSearchFilters,
+  SearchMessageItem,
+  searchMessages,
+} from '../services/searchService';
+
+type Status = 'idle' | 'loading' | 'success' | 'error';
+
+const PAGE_SIZE = 30;
+
+/** すべての会話をまたいだメッセージ検索。入力は 300ms 待ってから検索する */
+export function useMessageSearch(
+  input: string,
+  filters: MessageSearchFilters = {}
+) {
+  const [status, setStatus] = useState<Status>('idle');
+  const [items, setItems] = useState<SearchMessageItem[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const lastQuery = useRef<string>('');
+  const timer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const term = input
+    .normalize('NFKC')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, 100);
+  const scope = filters.scope ?? null;
+  const containerId = filters.containerId ?? null;
+  const senderId = filters.senderId ?? null;
+  const period = filters.period ?? 'all';
+
+  useEffect(() => {
+    setNextCursor(null);
+    if (timer.current) {
+      clearTimeout(timer.current);
+    }
+    if (!term) {
+      lastQuery.current = '';
+      setStatus('idle');
+      setItems([]);
+      setError(null);
+      return;
+    }
+
+    setStatus('loading');
+    setError(null);
+    const qKey = `${term}:${scope}:${containerId}:${senderId}:${period}`;
+    lastQuery.current = qKey;
+
+    timer.current = setTimeout(async () => {
+      try {
+        const res = await searchMessages(term, {
+          limit: PAGE_SIZE,
+          scope,
+          containerId,
+          senderId,
+          period,
+        });
+        if (lastQuery.current !== qKey) {
+          return;
+        }
+        setItems(res.items);
+        setNextCursor(res.nextCursor);
+        setStatus('success');
+      } catch (e: any) {
+        if (lastQuery.current !== qKey) {
+          return;
+        }
+        setError(String(e?.message || '検索に失敗しました'));
+        setStatus('error');
+      }
+    }, 300);
+
+    return () => {
+      if (timer.current) {
+        clearTimeout(timer.current);
+      }
+    };
+  }, [term, scope, containerId, senderId, period]);
+
+  const loadMore = useCallback(async () => {
+    if (!term || !nextCursor || loadingMore) {
+      return;
+    }
+    const qKey = lastQuery.current;
+    setLoadingMore(true);
+    try {
+      const res = await searchMessages(term, {
+        limit: PAGE_SIZE,
+        cursor: nextCursor,
+        scope,
+        containerId,
+        senderId,
+        period,
+      });
+      if (lastQuery.current !== qKey) {
+        return;
+      }
+      setItems(prev => {
+        const seen = new Set(prev.map(m => m.id));
+        return [...prev, ...res.items.filter(m => !seen.has(m.id))];
+      });
+      setNextCursor(res.nextCursor);
+    } catch (e: any) {
+      if (lastQuery.current === qKey) {
+        setError(String(e?.message || '検索に失敗しました'));
+      }
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [term, nextCursor, loadingMore, scope, containerId, senderId, period]);
+
+  return {
+    status,
+    items,
+    error,
+    loadMore,
+    hasMore: !!nextCursor,
+    loadingMore,
+  };
+}
@@ -5,10 +5,25 @@
  * Handles spaces, channels, messages, and real-time updates
  */
 
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 
 import { getSupabaseClient } from '../services/supabaseClient';
 import { roomService } from '../services/roomService';
+import {
+  OutboxItem,
+  enqueueMessage,
+  getOutboxItems,
+  removeOutboxItem,
+  retryOutboxItem,
+  subscribeOutbox,
+} from '../services/outboxService';
+import { toMessageReaction } from '../services/messageReactionService';
+import {
+  cancelEventReminder,
+  scheduleEventReminder,
+} from '../services/pushNotificationService';
+import { applyReactionChange, hasReacted } from '../utils/messageReactions';
+import { PinnedMessage } from '../types/chat';
 import {
   Space,
   SpaceWithOwner,
@@ -19,6 +34,19 @@ import {
   AnonymousRoom,
   AnonymousMessage,
   ChatListItem,
+  SpaceChannel,
+  SpaceChannelInput,
+  SpaceModerationLogEntry,
+  SpaceRestriction,
+  SpaceInviteLink,
+  CreateInviteLinkRequest,
+  SpaceInvitePreview,
+  SpaceJoinRequest,
+  SpaceRules,
+  UpdateSpaceRulesRequest,
+  SpaceEvent,
+  SpaceEventRsvpStatus,
+  CreateSpaceEventRequest,
   CreateSpaceRequest,
   SendChannelMessageRequest,
   SendAnonymousMessageRequest,
@@ -182,11 +210,11 @@ export function useSpaceOperations() {
     return response.data;
   }, []);
 
-  const joinSpace = useCallback(async (spaceId: string) => {
+  const joinSpace = useCallback(async (spaceId: string, answers?: string[]) => {
     setLoading(true);
     setError(null);
 
-    const response = await roomService.joinPublicSpace(spaceId);
+    const response = await roomService.joinPublicSpace(spaceId, { answers });
     setLoading(false);
 
     if (!response.success) {
@@ -281,6 +309,57 @@ export function useChannelMessages(channelId: string | null) {
     await fetchMessages(oldestMessage.id);
   }, [hasMore, loading, messages, fetchMessages]);
 
+  // Load older pages until the message is in the list (used by message search)
+  const revealMessage = useCallback(
+    async (messageId: string): Promise<boolean> => {
+      if (!channelId) {
+        return false;
+      }
+      if (messages.some(m => m.id === messageId)) {
+        return true;
+      }
+      let oldestId = messages[0]?.id;
+      let more = hasMore;
+      let found = false;
+      const pages: RoomMessageWithSender[][] = [];
+      setLoading(true);
+      // 最大 20 ページ（1000 件）まで遡る
+      for (let i = 0; i < 20 && more && oldestId; i++) {
+        const response = await roomService.getChannelMessages(channelId, {
+          limit: 50,
+          before_message_id: oldestId,
+        });
+        if (!response.success) {
+          break;
+        }
+        const page = response.data || [];
+        pages.unshift(page);
+        more = page.length === 50;
+        oldestId = page[0]?.id;
+        if (found) {
+          break;
+        }
+        const index = page.findIndex(m => m.id === messageId);
+        if (index >= 0) {
+          found = true;
+          // 前の流れも読めるよう、ページの古い端にあればもう 1 ページ読む
+          if (index >= 10) {
+            break;
+          }
+        }
+      }
+      const older = pages.flat();
+      setMessages(prev => {
+        const known = new Set(prev.map(m => m.id));
+        return [...older.filter(m => !known.has(m.id)), ...prev];
+      });
+      setHasMore(more);
+      setLoading(false);
+      return found;
+    },
+    [channelId, messages, hasMore]
+  );
+
   // Send message
   const sendMessage = useCallback(
     async (
@@ -306,60 +385,106 @@ export function useChannelMessages(channelId: string | null) {
         }
       }
 
-      // Add optimistic message
-      const tempId = `temp_${Date.now()}`;
-      const optimisticMessage: OptimisticRoomMessage = {
-        id: tempId,
-        channel_id: channelId,
-        anonymous_room_id: null,
-        sender_id:
-          (await getSupabaseClient().auth.getUser()).data.user?.id || '',
-        display_name: null,
-        message_type: messageType,
-        content,
-        attachments: attachments || [],
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString(),
-        deleted_at: null,
-        expires_at: null,
-        is_edited: false,
-        report_count: 0,
-        is_masked: false,
-        sender_username: 'You',
-        sender_display_name: 'You',
-        sender_avatar_emoji: null,
-        isOptimistic: true,
-        tempId,
-      };
-
-      setMessages(prev => [...prev, optimisticMessage]);
+      const senderId =
+        (await getSupabaseClient().auth.getUser()).data.user?.id || '';
+      if (!senderId) {
+        setError('Not authenticated');
+        return null;
+      }
 
-      const response = await roomService.sendChannelMessage({
-        channel_id: channelId,
+      // Queue in the outbox; it stays visible as pending until it is stored
+      return enqueueMessage({
+        kind: 'channel',
+        targetId: channelId,
+        senderId,
         content,
-        message_type: messageType,
+        messageType,
         attachments: attachments || [],
       });
+    },
+    [channelId]
+  );
 
-      if (response.success) {
-        // Remove optimistic message (real message will come via realtime)
-        setMessages(prev =>
-          prev.filter(msg => (msg as OptimisticRoomMessage).tempId !== tempId)
-        );
-        return response.data;
-      } else {
-        // Update optimistic message with error
+  const retryMessage = useCallback((outboxId: string) => {
+    retryOutboxItem(outboxId);
+  }, []);
+
+  const discardMessage = useCallback((outboxId: string) => {
+    removeOutboxItem(outboxId);
+  }, []);
+
+  // Toggle my emoji reaction (optimistic; rolled back on failure)
+  const toggleReaction = useCallback(
+    async (messageId: string, emoji: string) => {
+      if (!channelId) {
+        return false;
+      }
+      const userId = (await getSupabaseClient().auth.getUser()).data.user?.id;
+      const target = messages.find(m => m.id === messageId);
+      if (!userId || !target) {
+        return false;
+      }
+      const reacted = !hasReacted(target.reactions, userId, emoji);
+      const reaction = {
+        message_id: messageId,
+        user_id: userId,
+        emoji,
+        created_at: new Date().toISOString(),
+      };
+      setMessages(prev =>
+        applyReactionChange(prev, reaction, reacted ? 'added' : 'removed')
+      );
+      const response = await roomService.setMessageReaction(
+        channelId,
+        messageId,
+        emoji,
+        reacted
+      );
+      if (!response.success) {
         setMessages(prev =>
-          prev.map(msg =>
-            (msg as OptimisticRoomMessage).tempId === tempId
-              ? { ...msg, error: response.error }
-              : msg
-          ),
+          applyReactionChange(prev, reaction, reacted ? 'removed' : 'added')
         );
+        return false;
+      }
+      return true;
+    },
+    [channelId, messages]
+  );
+
+  // Pinned messages (fetched separately: they may be older than the loaded page)
+  const [pinnedMessages, setPinnedMessages] = useState<PinnedMessage[]>([]);
+  const pinnedRef = useRef(pinnedMessages);
+  pinnedRef.current = pinnedMessages;
+  const fetchPinnedMessages = useCallback(async () => {
+    if (!channelId) {
+      setPinnedMessages([]);
+      return;
+    }
+    const response = await roomService.getPinnedMessages(channelId);
+    if (response.success) {
+      setPinnedMessages(response.data || []);
+    }
+  }, [channelId]);
+
+  // Pin or unpin a message for every member; returns the error message on failure
+  const togglePin = useCallback(
+    async (messageId: string) => {
+      if (!channelId) {
         return null;
       }
+      const pinned = !pinnedMessages.some(p => p.message_id === messageId);
+      const response = await roomService.setMessagePinned(
+        channelId,
+        messageId,
+        pinned
+      );
+      if (!response.success) {
+        return response.error || 'Failed to update pin';
+      }
+      await fetchPinnedMessages();
+      return null;
     },
-    [channelId]
+    [channelId, pinnedMessages, fetchPinnedMessages]
   );
 
   // Mark channel as seen
@@ -410,8 +535,50 @@ export function useChannelMessages(channelId: string | null) {
           const updatedMessage = payload.new as RoomMessageWithSender;
           setMessages(prev =>
             prev.map(msg =>
-              msg.id === updatedMessage.id ? updatedMessage : msg
-            ),
+              msg.id === updatedMessage.id
+                ? { ...updatedMessage, reactions: msg.reactions }
+                : msg
+            )
+          );
+          // Edited or deleted pinned messages change the pinned bar too
+          if (pinnedRef.current.some(p => p.message_id === updatedMessage.id)) {
+            fetchPinnedMessages();
+          }
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'room_pinned_messages',
+          filter: `channel_id=eq.${channelId}`,
+        },
+        () => {
+          fetchPinnedMessages();
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'room_message_reactions',
+          filter: `channel_id=eq.${channelId}`,
+        },
+        payload => {
+          if (payload.eventType === 'UPDATE') {
+            return;
+          }
+          const reaction = toMessageReaction(
+            payload.eventType === 'INSERT' ? payload.new : payload.old
+          );
+          setMessages(prev =>
+            applyReactionChange(
+              prev,
+              reaction,
+              payload.eventType === 'INSERT' ? 'added' : 'removed'
+            )
           );
         }
       )
@@ -424,31 +591,124 @@ export function useChannelMessages(channelId: string | null) {
         getSupabaseClient().removeChannel(realtimeRef.current);
       }
     };
-  }, [channelId]);
+  }, [channelId, fetchPinnedMessages]);
 
   // Initial fetch
   useEffect(() => {
     if (channelId) {
       fetchMessages();
+      fetchPinnedMessages();
     } else {
       setMessages([]);
+      setPinnedMessages([]);
       setError(null);
       setHasMore(true);
     }
+  }, [channelId, fetchMessages, fetchPinnedMessages]);
+
+  // Outbox entries for this channel
+  const [outboxItems, setOutboxItems] = useState<OutboxItem[]>([]);
+  const messagesRef = useRef(messages);
+  messagesRef.current = messages;
+  useEffect(() => {
+    if (!channelId) {
+      setOutboxItems([]);
+      return;
+    }
+    let cancelled = false;
+    getOutboxItems(channelId).then(list => {
+      if (!cancelled) {
+        setOutboxItems(list);
+      }
+    });
+    const unsubscribe = subscribeOutbox(event => {
+      if (event.item.targetId !== channelId) {
+        return;
+      }
+      if (event.type === 'changed') {
+        setOutboxItems(prev =>
+          prev.some(i => i.id === event.item.id)
+            ? prev.map(i => (i.id === event.item.id ? event.item : i))
+            : [...prev, event.item]
+        );
+        return;
+      }
+      setOutboxItems(prev => prev.filter(i => i.id !== event.item.id));
+      // Realtime may have been down while the outbox was retrying
+      if (
+        event.type === 'sent' &&
+        event.item.attempts > 0 &&
+        !messagesRef.current.some(m => m.id === event.messageId)
+      ) {
+        fetchMessages();
+      }
+    });
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
   }, [channelId, fetchMessages]);
 
+  const mergedMessages = useMemo<RoomMessageWithSender[]>(() => {
+    if (outboxItems.length === 0) {
+      return messages;
+    }
+    const delivered = new Set(messages.map(m => m.client_id).filter(Boolean));
+    const queued = outboxItems
+      .filter(i => !delivered.has(i.id))
+      .map(outboxItemToRoomMessage);
+    return [...messages, ...queued];
+  }, [messages, outboxItems]);
+
   return {
-    messages,
+    messages: mergedMessages,
     loading,
     error,
     hasMore,
     sendMessage,
+    retryMessage,
+    discardMessage,
+    toggleReaction,
+    pinnedMessages,
+    togglePin,
     loadMore,
+    revealMessage,
     markSeen,
     refresh: () => fetchMessages(),
   };
 }
 
+/**
+ * Shows a queued outbox entry as a channel message
+ */
+function outboxItemToRoomMessage(item: OutboxItem): OptimisticRoomMessage {
+  const failed = item.status === 'failed';
+  return {
+    id: item.id,
+    channel_id: item.targetId,
+    anonymous_room_id: null,
+    sender_id: item.senderId,
+    display_name: null,
+    message_type: item.messageType as OptimisticRoomMessage['message_type'],
+    content: item.content,
+    attachments: item.attachments || [],
+    client_id: item.id,
+    created_at: item.createdAt,
+    updated_at: item.createdAt,
+    deleted_at: null,
+    expires_at: null,
+    is_edited: false,
+    report_count: 0,
+    is_masked: false,
+    sender_username: 'You',
+    sender_display_name: 'You',
+    isOptimistic: !failed,
+    tempId: item.id,
+    sendStatus: failed ? 'failed' : 'pending',
+    error: failed ? item.lastError || undefined : undefined,
+  };
+}
+
 // =====================================================
 // MEMBERS HOOKS
 // =====================================================
@@ -494,6 +754,119 @@ export function useChannelMembers(channelId: string | null) {
   };
 }
 
+/**
+ * Hook for the channels of a space (switcher + owner management)
+ */
+export function useSpaceChannels(spaceId: string | null | undefined) {
+  const [channels, setChannels] = useState<SpaceChannel[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchChannels = useCallback(async () => {
+    if (!spaceId) {
+      return;
+    }
+    setLoading(true);
+    setError(null);
+    const res = await roomService.getSpaceChannels(spaceId);
+    if (res.success) {
+      setChannels(res.data || []);
+    } else {
+      setError(res.error);
+    }
+    setLoading(false);
+  }, [spaceId]);
+
+  useEffect(() => {
+    if (spaceId) {
+      fetchChannels();
+    } else {
+      setChannels([]);
+      setError(null);
+    }
+  }, [spaceId, fetchChannels]);
+
+  // 管理操作は成功したら一覧を取り直す。失敗時はエラーメッセージを返す
+  const runAndRefresh = useCallback(
+    async (
+      op: () => Promise<{ success?: boolean; error?: string }>
+    ): Promise<string | null> => {
+      const res = await op();
+      if (!res.success) {
+        return res.error || 'チャンネルを更新できませんでした';
+      }
+      await fetchChannels();
+      return null;
+    },
+    [fetchChannels]
+  );
+
+  const createChannel = useCallback(
+    (input: SpaceChannelInput) =>
+      runAndRefresh(() =>
+        spaceId
+          ? roomService.createChannel(spaceId, input)
+          : Promise.resolve({ error: 'Space not found' })
+      ),
+    [spaceId, runAndRefresh]
+  );
+
+  const updateChannel = useCallback(
+    (channelId: string, changes: Partial<SpaceChannelInput>) =>
+      runAndRefresh(() => roomService.updateChannel(channelId, changes)),
+    [runAndRefresh]
+  );
+
+  const setChannelArchived = useCallback(
+    (channelId: string, archived: boolean) =>
+      runAndRefresh(() => roomService.setChannelArchived(channelId, archived)),
+    [runAndRefresh]
+  );
+
+  // 並べ替えは先に画面へ反映し、保存に失敗したら取り直す
+  const reorderChannels = useCallback(
+    async (ordered: SpaceChannel[]): Promise<string | null> => {
+      if (!spaceId) {
+        return null;
+      }
+      setChannels(ordered.map((c, position) => ({ ...c, position })));
+      const res = await roomService.reorderChannels(
+        spaceId,
+        ordered.map(c => c.id)
+      );
+      if (!res.success) {
+        await fetchChannels();
+        return res.error || '並び順を保存できませんでした';
+      }
+      return null;
+    },
+    [spaceId, fetchChannels]
+  );
+
+  // 開いたチャンネルの未読を手元で消す（サーバー側は markSeen が更新する）
+  const clearUnread = useCallback((channelId: string) => {
+    setChannels(prev =>
+      prev.map(c =>
+        c.id === channelId && (c.has_new || c.unread_count > 0)
+          ? { ...c, has_new: false, unread_count: 0 }
+          : c
+      )
+    );
+  }, []);
+
+  return {
+    channels,
+    loading,
+    error,
+    refresh: fetchChannels,
+    createChannel,
+    updateChannel,
+    setChannelArchived,
+    reorderChannels,
+    clearUnread,
+  };
+}
+
 // =====================================================
 // ANONYMOUS ROOM HOOKS
 // =====================================================
@@ -718,7 +1091,7 @@ export function useSpacePermissions() {
 /**
  * Hook for message moderation (reporting)
  */
-export function useModeration() {
+export function useModeration(spaceId?: string | null) {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -737,9 +1110,511 @@ export function useModeration() {
     return true;
   }, []);
 
+  // スペースのモデレーション操作。失敗時はエラーメッセージ、成功時は null を返す
+  const run = useCallback(
+    async (
+      op: (id: string) => Promise<{ success?: boolean; error?: string }>
+    ): Promise<string | null> => {
+      if (!spaceId) {
+        return 'ルームが見つかりません';
+      }
+      setLoading(true);
+      setError(null);
+      const response = await op(spaceId);
+      setLoading(false);
+      if (!response.success) {
+        const message = response.error || '操作に失敗しました';
+        setError(message);
+        return message;
+      }
+      return null;
+    },
+    [spaceId]
+  );
+
+  const setMemberRole = useCallback(
+    (userId: string, role: 'moderator' | 'member') =>
+      run(id => roomService.setMemberRole(id, userId, role)),
+    [run]
+  );
+  const kickMember = useCallback(
+    (userId: string, reason?: string) =>
+      run(id => roomService.kickMember(id, userId, reason)),
+    [run]
+  );
+  const banMember = useCallback(
+    (userId: string, reason?: string) =>
+      run(id => roomService.banMember(id, userId, reason)),
+    [run]
+  );
+  const unbanMember = useCallback(
+    (userId: string) => run(id => roomService.unbanMember(id, userId)),
+    [run]
+  );
+  const muteMember = useCallback(
+    (userId: string, minutes: number, reason?: string) =>
+      run(id => roomService.muteMember(id, userId, minutes, reason)),
+    [run]
+  );
+  const unmuteMember = useCallback(
+    (userId: string) => run(id => roomService.unmuteMember(id, userId)),
+    [run]
+  );
+  const deleteMessageAsModerator = useCallback(
+    (messageId: string, reason?: string) =>
+      run(() =>
+        roomService.deleteChannelMessage(messageId, {
+          asModerator: true,
+          reason,
+        })
+      ),
+    [run]
+  );
+
   return {
     loading,
     error,
     reportMessage,
+    setMemberRole,
+    kickMember,
+    banMember,
+    unbanMember,
+    muteMember,
+    unmuteMember,
+    deleteMessageAsModerator,
+  };
+}
+
+const MODERATION_LOG_PAGE_SIZE = 30;
+
+/**
+ * Hook for a space's moderation log and its banned / muted users
+ */
+export function useSpaceModerationLog(spaceId: string | null | undefined) {
+  const [entries, setEntries] = useState<SpaceModerationLogEntry[]>([]);
+  const [restrictions, setRestrictions] = useState<SpaceRestriction[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+
+  const refresh = useCallback(async () => {
+    if (!spaceId) {
+      return;
+    }
+    setLoading(true);
+    setError(null);
+    const [log, restricted] = await Promise.all([
+      roomService.getModerationLog(spaceId, {
+        limit: MODERATION_LOG_PAGE_SIZE,
+      }),
+      roomService.getSpaceRestrictions(spaceId),
+    ]);
+    if (log.success) {
+      setEntries(log.data || []);
+      setHasMore((log.data || []).length === MODERATION_LOG_PAGE_SIZE);
+    } else {
+      setError(log.error);
+    }
+    if (restricted.success) {
+      setRestrictions(restricted.data || []);
+    }
+    setLoading(false);
+  }, [spaceId]);
+
+  const loadMore = useCallback(async () => {
+    const oldest = entries[entries.length - 1];
+    if (!spaceId || !hasMore || loading || !oldest) {
+      return;
+    }
+    setLoading(true);
+    const log = await roomService.getModerationLog(spaceId, {
+      before: oldest.created_at,
+      limit: MODERATION_LOG_PAGE_SIZE,
+    });
+    if (log.success) {
+      const page = log.data || [];
+      setEntries(prev => [...prev, ...page]);
+      setHasMore(page.length === MODERATION_LOG_PAGE_SIZE);
+    }
+    setLoading(false);
+  }, [spaceId, hasMore, loading, entries]);
+
+  return {
+    entries,
+    restrictions,
+    loading,
+    error,
+    hasMore,
+    refresh,
+    loadMore,
+  };
+}
+
+/**
+ * Hook for the owner's invite links and pending join requests of a space
+ */
+export function useSpaceInvites(spaceId: string | null | undefined) {
+  const [links, setLinks] = useState<SpaceInviteLink[]>([]);
+  const [requests, setRequests] = useState<SpaceJoinRequest[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!spaceId) {
+      return;
+    }
+    setLoading(true);
+    setError(null);
+    const [linkRes, requestRes] = await Promise.all([
+      roomService.getInviteLinks(spaceId),
+      roomService.getJoinRequests(spaceId),
+    ]);
+    if (linkRes.success) {
+      setLinks(linkRes.data || []);
+    } else {
+      setError(linkRes.error);
+    }
+    if (requestRes.success) {
+      setRequests(requestRes.data || []);
+    }
+    setLoading(false);
+  }, [spaceId]);
+
+  // 作成したリンクを返す（失敗時はエラーメッセージ）
+  const createLink = useCallback(
+    async (
+      request: CreateInviteLinkRequest
+    ): Promise<{ link?: SpaceInviteLink; error?: string }> => {
+      if (!spaceId) {
+        return { error: 'ルームが見つかりません' };
+      }
+      const response = await roomService.createInviteLink(spaceId, request);
+      if (!response.success || !response.data) {
+        return { error: response.error || '招待リンクを作成できませんでした' };
+      }
+      const link = response.data;
+      setLinks(prev => [link, ...prev]);
+      return { link };
+    },
+    [spaceId]
+  );
+
+  const revokeLink = useCallback(
+    async (linkId: string): Promise<string | null> => {
+      const response = await roomService.revokeInviteLink(linkId);
+      if (!response.success) {
+        return response.error || '招待リンクを無効にできませんでした';
+      }
+      setLinks(prev => prev.filter(l => l.id !== linkId));
+      return null;
+    },
+    []
+  );
+
+  const decideRequest = useCallback(
+    async (
+      requestId: string,
+      approve: boolean,
+      note?: string
+    ): Promise<string | null> => {
+      const response = await roomService.decideJoinRequest(
+        requestId,
+        approve,
+        note
+      );
+      if (!response.success) {
+        return response.error || '操作に失敗しました';
+      }
+      setRequests(prev => prev.filter(r => r.id !== requestId));
+      return null;
+    },
+    []
+  );
+
+  return {
+    links,
+    requests,
+    loading,
+    error,
+    refresh,
+    createLink,
+    revokeLink,
+    decideRequest,
+  };
+}
+
+/**
+ * Hook for someone opening an invite link: preview, join and join requests
+ */
+export function useSpaceInvite(code: string | null | undefined) {
+  const [preview, setPreview] = useState<SpaceInvitePreview | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!code) {
+      return;
+    }
+    setLoading(true);
+    setError(null);
+    const response = await roomService.getInvitePreview(code);
+    if (response.success && response.data) {
+      setPreview(response.data);
+    } else {
+      setPreview(null);
+      setError(response.error || 'この招待リンクは無効です');
+    }
+    setLoading(false);
+  }, [code]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // 参加したチャンネル ID を返す
+  const join = useCallback(async (): Promise<{
+    channelId?: string;
+    error?: string;
+  }> => {
+    if (!code) {
+      return { error: 'この招待リンクは無効です' };
+    }
+    const response = await roomService.redeemInviteLink(code);
+    if (!response.success || !response.data) {
+      return { error: response.error || '参加に失敗しました' };
+    }
+    return { channelId: response.data.channel_id };
+  }, [code]);
+
+  const requestToJoin = useCallback(
+    async (message?: string, answers?: string[]): Promise<string | null> => {
+      if (!code) {
+        return 'この招待リンクは無効です';
+      }
+      const response = await roomService.requestToJoin(code, message, answers);
+      if (!response.success) {
+        return response.error || '参加リクエストを送信できませんでした';
+      }
+      setPreview(prev =>
+        prev ? { ...prev, request_status: 'pending' } : prev
+      );
+      return null;
+    },
+    [code]
+  );
+
+  const cancelRequest = useCallback(async (): Promise<string | null> => {
+    if (!preview) {
+      return null;
+    }
+    const response = await roomService.cancelJoinRequest(preview.space_id);
+    if (!response.success) {
+      return response.error || '参加リクエストを取り消せませんでした';
+    }
+    setPreview(prev =>
+      prev ? { ...prev, request_status: 'cancelled' } : prev
+    );
+    return null;
+  }, [preview]);
+
+  return {
+    preview,
+    loading,
+    error,
+    refresh,
+    join,
+    requestToJoin,
+    cancelRequest,
+  };
+}
+
+/**
+ * Hook for a space's rules, welcome message and screening questions
+ */
+export function useSpaceRules(
+  spaceId: string | null | undefined,
+  inviteCode?: string
+) {
+  const [rules, setRules] = useState<SpaceRules | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!spaceId) {
+      setRules(null);
+      return;
+    }
+    setLoading(true);
+    setError(null);
+    const response = await roomService.getSpaceRules(spaceId, inviteCode);
+    if (response.success && response.data) {
+      setRules(response.data);
+    } else {
+      setError(response.error);
+    }
+    setLoading(false);
+  }, [spaceId, inviteCode]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const accept = useCallback(async (): Promise<string | null> => {
+    if (!spaceId) {
+      return 'ルームが見つかりません';
+    }
+    const response = await roomService.acceptSpaceRules(spaceId);
+    if (!response.success) {
+      return response.error || 'ルールへの同意を保存できませんでした';
+    }
+    setRules(prev => (prev ? { ...prev, accepted: true } : prev));
+    return null;
+  }, [spaceId]);
+
+  const update = useCallback(
+    async (request: UpdateSpaceRulesRequest): Promise<string | null> => {
+      if (!spaceId) {
+        return 'ルームが見つかりません';
+      }
+      const response = await roomService.updateSpaceRules(spaceId, request);
+      if (!response.success) {
+        return response.error || 'ルールを保存できませんでした';
+      }
+      await refresh();
+      return null;
+    },
+    [spaceId, refresh]
+  );
+
+  return {
+    rules,
+    loading,
+    error,
+    refresh,
+    accept,
+    update,
+  };
+}
+
+/**
+ * Hook for a space's events. With eventId, only that event (for the event card in a channel).
+ * RSVP changes keep the local reminder notification in sync
+ */
+export function useSpaceEvents(
+  spaceId: string | null | undefined,
+  eventId?: string | null
+) {
+  const [events, setEvents] = useState<SpaceEvent[]>([]);
+  // カードが最初の取得前に「表示できません」を出さないよう、取得中から始める
+  const [loading, setLoading] = useState(!!spaceId);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!spaceId) {
+      setEvents([]);
+      return;
+    }
+    setLoading(true);
+    setError(null);
+    const response = await roomService.getSpaceEvents(
+      spaceId,
+      eventId ? [eventId] : undefined
+    );
+    if (response.success) {
+      const data = response.data || [];
+      setEvents(data);
+      // 別の端末で返事した分や、アプリを入れ直した分もここで予約し直す
+      data
+        .filter(e => e.my_status !== null)
+        .forEach(e => {
+          scheduleEventReminder(e);
+        });
+    } else {
+      setError(response.error);
+    }
+    setLoading(false);
+  }, [spaceId, eventId]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // 1 件だけ取り直して差し替える
+  const reloadEvent = useCallback(
+    async (id: string): Promise<SpaceEvent | null> => {
+      if (!spaceId) {
+        return null;
+      }
+      const response = await roomService.getSpaceEvents(spaceId, [id]);
+      const event = response.data?.[0];
+      if (!event) {
+        return null;
+      }
+      setEvents(prev =>
+        prev.some(e => e.id === id)
+          ? prev.map(e => (e.id === id ? event : e))
+          : [...prev, event].sort((a, b) =>
+              a.starts_at.localeCompare(b.starts_at)
+            )
+      );
+      scheduleEventReminder(event);
+      return event;
+    },
+    [spaceId]
+  );
+
+  // 作成したイベントの ID を返す（失敗時はエラーメッセージ）
+  const createEvent = useCallback(
+    async (
+      channelId: string,
+      request: CreateSpaceEventRequest
+    ): Promise<{ eventId?: string; error?: string }> => {
+      const response = await roomService.createSpaceEvent(channelId, request);
+      if (!response.success || !response.data) {
+        return { error: response.error || 'イベントを作成できませんでした' };
+      }
+      const id = response.data.event_id;
+      await reloadEvent(id);
+      return { eventId: id };
+    },
+    [reloadEvent]
+  );
+
+  const rsvp = useCallback(
+    async (
+      id: string,
+      status: SpaceEventRsvpStatus
+    ): Promise<string | null> => {
+      const response = await roomService.rsvpSpaceEvent(id, status);
+      if (!response.success) {
+        return response.error || '返事を保存できませんでした';
+      }
+      await reloadEvent(id);
+      return null;
+    },
+    [reloadEvent]
+  );
+
+  const cancelEvent = useCallback(
+    async (id: string): Promise<string | null> => {
+      const response = await roomService.cancelSpaceEvent(id);
+      if (!response.success) {
+        return response.error || 'イベントを中止できませんでした';
+      }
+      cancelEventReminder(id);
+      await reloadEvent(id);
+      return null;
+    },
+    [reloadEvent]
+  );
+
+  return {
+    events,
+    loading,
+    error,
+    refresh,
+    createEvent,
+    rsvp,
+    cancelEvent,
   };
 }
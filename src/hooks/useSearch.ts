@@ -1,8 +1,10 @@
-import { useEffect, useMemo, useRef, useState } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 
 import {
+  PostSearchFilters,
   QueryKind,
   parseQuery,
+  searchPosts,
   searchPostsByHashtag,
   searchUsers,
   SearchPostItem,
@@ -11,19 +13,24 @@ import {
 
 type Status = 'idle' | 'loading' | 'success' | 'error';
 
-export function useSearch(input: string) {
+export function useSearch(input: string, filters: PostSearchFilters = {}) {
   const [status, setStatus] = useState<Status>('idle');
   const [kind, setKind] = useState<QueryKind>('none');
   const [users, setUsers] = useState<SearchUserItem[]>([]);
   const [posts, setPosts] = useState<SearchPostItem[]>([]);
   const [error, setError] = useState<string | null>(null);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
   const lastQuery = useRef<string>('');
   const timer = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   const parsed = useMemo(() => parseQuery(input), [input]);
+  const period = filters.period ?? 'all';
+  const verifiedOnly = !!filters.verifiedOnly;
 
   useEffect(() => {
     setKind(parsed.kind);
+    setNextCursor(null);
     if (timer.current) {
       clearTimeout(timer.current);
     }
@@ -38,7 +45,7 @@ export function useSearch(input: string) {
 
     setStatus('loading');
     setError(null);
-    const qKey = `${parsed.kind}:${parsed.term}`;
+    const qKey = `${parsed.kind}:${parsed.term}:${period}:${verifiedOnly}`;
     lastQuery.current = qKey;
 
     timer.current = setTimeout(async () => {
@@ -64,6 +71,19 @@ export function useSearch(input: string) {
           setPosts(items);
           setUsers([]);
           setStatus('success');
+        } else if (parsed.kind === 'text') {
+          const res = await searchPosts(parsed.term, {
+            limit: 20,
+            period,
+            verifiedOnly,
+          });
+          if (lastQuery.current !== qKey) {
+            return;
+          }
+          setPosts(res.items);
+          setNextCursor(res.nextCursor ?? null);
+          setUsers([]);
+          setStatus('success');
         }
       } catch (e: any) {
         if (lastQuery.current !== qKey) {
@@ -79,7 +99,47 @@ export function useSearch(input: string) {
         clearTimeout(timer.current);
       }
     };
-  }, [parsed.kind, parsed.term]);
+  }, [parsed.kind, parsed.term, period, verifiedOnly]);
+
+  // 全文検索の次ページを読み込む（ハッシュタグ・ユーザー検索はページングなし）
+  const loadMore = useCallback(async () => {
+    if (parsed.kind !== 'text' || !nextCursor || loadingMore) {
+      return;
+    }
+    const qKey = lastQuery.current;
+    setLoadingMore(true);
+    try {
+      const res = await searchPosts(parsed.term, {
+        limit: 20,
+        cursor: nextCursor,
+        period,
+        verifiedOnly,
+      });
+      if (lastQuery.current !== qKey) {
+        return;
+      }
+      setPosts(prev => {
+        const seen = new Set(prev.map(p => p.id));
+        return [...prev, ...res.items.filter(p => !seen.has(p.id))];
+      });
+      setNextCursor(res.nextCursor ?? null);
+    } catch (e: any) {
+      if (lastQuery.current === qKey) {
+        setError(String(e?.message || '検索に失敗しました'));
+      }
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [parsed.kind, parsed.term, nextCursor, loadingMore, period, verifiedOnly]);
 
-  return { status, kind, users, posts, error };
+  return {
+    status,
+    kind,
+    users,
+    posts,
+    error,
+    loadMore,
+    hasMore: !!nextCursor,
+    loadingMore,
+  };
 }
@@ -24,6 +24,8 @@ import AuthGuard from '../components/AuthGuard';
 import ComposeScreen from '../screens/ComposeScreen';
 import SettingsScreen from '../screens/SettingsScreen';
 import BlockedUsersListScreen from '../screens/BlockedUsersListScreen';
+import MutedTermsScreen from '../screens/MutedTermsScreen';
+import SafetyNumberScreen from '../screens/SafetyNumberScreen';
 // import AnonFeedScreen from '../screens/AnonFeedScreen'; // Removed - now handled within RoomsScreen
 import RoomsListScreen from '../screens/RoomsListScreen';
 import ErrorBoundary from '../components/ErrorBoundary';
@@ -33,6 +35,7 @@ import FollowersListScreen from '../screens/FollowersListScreen';
 import FollowingListScreen from '../screens/FollowingListScreen';
 import AIChatBotScreen from '../screens/AIChatBotScreen';
 import LikedPostsListScreen from '../screens/LikedPostsListScreen';
+import SavedPostsScreen from '../screens/SavedPostsScreen';
 import MyPostsListScreen from '../screens/MyPostsListScreen';
 import LoginScreen from '../screens/LoginScreen';
 import SearchScreen from '../screens/SearchScreen';
@@ -40,7 +43,12 @@ import SignUpScreen from '../screens/SignUpScreen';
 import ProfileEditScreen from '../screens/ProfileEditScreen';
 import UserProfileScreen from '../screens/UserProfileScreen';
 import ChannelScreen from '../screens/ChannelScreen';
+import MessageSearchScreen, {
+  INITIAL_MESSAGE_SEARCH_STATE,
+  MessageSearchState,
+} from '../screens/MessageSearchScreen';
 import CreateSpaceScreen from '../screens/CreateSpaceScreen';
+import SpaceInviteScreen from '../screens/SpaceInviteScreen';
 import AnonRoomV2Screen from '../screens/AnonRoomV2Screen';
 import TutorialScreen from '../screens/TutorialScreen';
 import OnboardingPrompt from '../components/OnboardingPrompt';
@@ -58,14 +66,19 @@ type TabKey =
   | 'compose'
   | 'anon'
   | 'chat'
+  | 'channel'
+  | 'messageSearch'
+  | 'safetyNumber'
   | 'settings'
   | 'blockedList'
+  | 'mutedTerms'
   | 'roomsList'
   | 'comment'
   | 'comments'
   | 'followers'
   | 'following'
   | 'liked'
+  | 'saved'
   | 'myPosts'
   | 'profileEdit'
   | 'userProfile'
@@ -74,6 +87,7 @@ type TabKey =
   | 'tutorial'
   | 'search'
   | 'createRoom'
+  | 'spaceInvite'
   | 'chats'
   | 'login'
   | 'signup'
@@ -193,7 +207,7 @@ export default function CustomTabs({
           if (!flag) {
             setShowOnboarding(true);
           }
-        } catch { }
+        } catch {}
       }
     })();
   }, [isLoading, isAuthenticated]);
@@ -213,10 +227,10 @@ export default function CustomTabs({
             setShowSidebarHint(false);
             try {
               await AsyncStorage.setItem('has_seen_sidebar_hint_v1', '1');
-            } catch { }
+            } catch {}
           }, 5000);
         }
-      } catch { }
+      } catch {}
     })();
     return () => {
       mounted = false;
@@ -238,14 +252,15 @@ export default function CustomTabs({
       let parsedUnknown: unknown;
       try {
         parsedUnknown = JSON.parse(navigateTo);
-      } catch { }
+      } catch {}
       const parsed = parsedUnknown as
         | {
-          screen?: string;
-          chat_id?: string;
-          post_id?: string;
-          user_id?: string;
-        }
+            screen?: string;
+            chat_id?: string;
+            post_id?: string;
+            user_id?: string;
+            code?: string;
+          }
         | undefined;
       if (parsed && parsed.screen) {
         const s = String(parsed.screen);
@@ -260,6 +275,9 @@ export default function CustomTabs({
           setActive('userProfile');
         } else if (s === 'rooms') {
           setActive('rooms');
+        } else if (s === 'spaceInvite' && parsed.code) {
+          setInviteCode(String(parsed.code));
+          setActive('spaceInvite');
         } else {
           setActive(s as TabKey);
         }
@@ -279,8 +297,36 @@ export default function CustomTabs({
     null
   );
   const [chatReturnTo, setChatReturnTo] = useState<string>('chats'); // Track where to return from chat
+  // メッセージ検索から開いたメッセージ（トーク・チャンネルでその位置まで遡る）
+  const [messageFocus, setMessageFocus] = useState<{
+    containerId: string;
+    messageId: string;
+  } | null>(null);
+  const [activeChannel, setActiveChannel] = useState<{
+    channelId: string;
+    spaceName: string;
+    spaceId?: string;
+  } | null>(null);
+  // 招待リンクから開いたときのコードと、チャンネルから戻る先
+  const [inviteCode, setInviteCode] = useState<string | null>(null);
+  const [channelReturnTo, setChannelReturnTo] =
+    useState<TabKey>('messageSearch');
+  const [messageSearchState, setMessageSearchState] =
+    useState<MessageSearchState>(INITIAL_MESSAGE_SEARCH_STATE);
+  const [safetyNumberUserId, setSafetyNumberUserId] = useState<string | null>(
+    null
+  );
   const [commentsRefreshKey, setCommentsRefreshKey] = useState<number>(0);
+  const [replyTarget, setReplyTarget] = useState<{
+    commentId: string;
+    authorName: string;
+  } | null>(null);
   const [sidebarOpen, setSidebarOpen] = useState(false);
+  // DM・チャンネルでシェアされたポストを開く
+  const openPost = (postId: string) => {
+    setActivePostId(postId);
+    setActive('comments');
+  };
 
   // Authentication flow - show login/signup screens when not authenticated
   if (!isLoading && !isAuthenticated) {
@@ -369,7 +415,7 @@ export default function CustomTabs({
               />
             ) : active === 'rooms' ? (
               <ErrorBoundary>
-                <RoomsScreen />
+                <RoomsScreen onOpenPost={openPost} />
               </ErrorBoundary>
             ) : active === 'createRoom' ? (
               <CreateSpaceScreen
@@ -389,6 +435,85 @@ export default function CustomTabs({
                   }}
                   onOpenFollowers={() => setActive('followers')}
                   onOpenAIChat={() => setActive('aiChat')}
+                  onOpenMessageSearch={() => setActive('messageSearch')}
+                />
+              </ErrorBoundary>
+            ) : active === 'messageSearch' ? (
+              <ErrorBoundary>
+                <MessageSearchScreen
+                  state={messageSearchState}
+                  onChangeState={setMessageSearchState}
+                  onBack={() => setActive('chats')}
+                  onOpenMessage={item => {
+                    setMessageFocus({
+                      containerId: item.containerId,
+                      messageId: item.id,
+                    });
+                    if (item.scope === 'channel') {
+                      setChannelReturnTo('messageSearch');
+                      setActiveChannel({
+                        channelId: item.containerId,
+                        spaceName: item.spaceName || item.containerName,
+                        spaceId: item.spaceId ?? undefined,
+                      });
+                      setActive('channel');
+                      return;
+                    }
+                    setActiveChatId(item.containerId);
+                    setActiveChatUserName(item.containerName);
+                    setChatReturnTo('messageSearch');
+                    setActive('chat');
+                  }}
+                />
+              </ErrorBoundary>
+            ) : active === 'spaceInvite' && inviteCode ? (
+              <ErrorBoundary>
+                <SpaceInviteScreen
+                  code={inviteCode}
+                  onBack={() => {
+                    setInviteCode(null);
+                    setActive('rooms');
+                  }}
+                  onJoined={(channelId, spaceName, spaceId) => {
+                    setInviteCode(null);
+                    setChannelReturnTo('rooms');
+                    setActiveChannel({ channelId, spaceName, spaceId });
+                    setActive('channel');
+                  }}
+                />
+              </ErrorBoundary>
+            ) : active === 'channel' && activeChannel ? (
+              <ErrorBoundary>
+                <ChannelScreen
+                  channelId={activeChannel.channelId}
+                  spaceName={activeChannel.spaceName}
+                  spaceId={activeChannel.spaceId}
+                  focusMessageId={
+                    messageFocus?.containerId === activeChannel.channelId
+                      ? messageFocus.messageId
+                      : undefined
+                  }
+                  onBack={() => {
+                    setActiveChannel(null);
+                    setMessageFocus(null);
+                    setActive(channelReturnTo);
+                  }}
+                  onExit={() => {
+                    setActiveChannel(null);
+                    setMessageFocus(null);
+                    setActive('rooms');
+                  }}
+                  onNavigateToChat={(chatId: string, userName: string) => {
+                    setActiveChatId(chatId);
+                    setActiveChatUserName(userName);
+                    setChatReturnTo('messageSearch');
+                    setActive('chat');
+                  }}
+                  onOpenUser={(userId: string) => {
+                    setActiveUserId(userId);
+                    setActive('userProfile');
+                  }}
+                  onOpenPost={openPost}
                 />
               </ErrorBoundary>
             ) : active === 'anon' ? (
@@ -416,15 +541,26 @@ export default function CustomTabs({
                 <ChatScreen
                   chatId={activeChatId}
                   userName={activeChatUserName || 'ユーザー'}
+                  focusMessageId={
+                    messageFocus?.containerId === activeChatId
+                      ? messageFocus.messageId
+                      : undefined
+                  }
                   onBack={() => {
                     setActiveChatId(null);
                     setActiveChatUserName(null);
+                    setMessageFocus(null);
                     setActive(chatReturnTo as TabKey);
                   }}
                   onNavigateToUser={(userId: string) => {
                     setActiveUserId(userId);
                     setActive('userProfile');
                   }}
+                  onOpenPost={openPost}
+                  onOpenSafetyNumber={(_chatId: string, userId: string) => {
+                    setSafetyNumberUserId(userId);
+                    setActive('safetyNumber');
+                  }}
                 />
               ) : (
                 <ChatsListScreen
@@ -436,6 +572,12 @@ export default function CustomTabs({
                   }}
                 />
               )
+            ) : active === 'safetyNumber' && safetyNumberUserId ? (
+              <SafetyNumberScreen
+                userId={safetyNumberUserId}
+                userName={activeChatUserName || undefined}
+                onBack={() => setActive('chat')}
+              />
             ) : active === 'devAnonV2' ? (
               __DEV__ ? (
                 <AnonRoomV2Screen onCompose={() => setActive('compose')} />
@@ -451,6 +593,7 @@ export default function CustomTabs({
                   // and show login screen due to !isAuthenticated check above
                 }}
                 onOpenBlockedUsers={() => setActive('blockedList')}
+                onOpenMutedTerms={() => setActive('mutedTerms')}
                 onOpenPaywall={() => setActive('paywall')}
               />
             ) : active === 'blockedList' ? (
@@ -461,6 +604,8 @@ export default function CustomTabs({
                   setActive('userProfile');
                 }}
               />
+            ) : active === 'mutedTerms' ? (
+              <MutedTermsScreen onBack={() => setActive('settings')} />
             ) : active === 'paywall' ? (
               <PaywallScreen onClose={() => setActive('settings')} />
             ) : active === 'roomsList' ? (
@@ -468,12 +613,14 @@ export default function CustomTabs({
                 <RoomsListScreen
                   refreshKey={roomsListKey}
                   onBack={() => setActive('me')}
+                  onOpenPost={openPost}
                 />
               </ErrorBoundary>
             ) : active === 'comment' ? (
               activePostId ? (
                 <CommentComposeScreen
                   postId={activePostId}
+                  replyTo={replyTarget}
                   onPosted={() => {
                     setActive('comments');
                     setCommentsRefreshKey((k: number) => k + 1);
@@ -486,7 +633,21 @@ export default function CustomTabs({
                 <CommentsListScreen
                   refreshKey={commentsRefreshKey}
                   postId={activePostId}
-                  onCompose={() => setActive('comment')}
+                  onCompose={() => {
+                    setReplyTarget(null);
+                    setActive('comment');
+                  }}
+                  onReply={comment => {
+                    setReplyTarget({
+                      // 返信した相手のコメント（スレッドの先頭へのまとめはサーバー側で行う）
+                      commentId: comment.id,
+                      authorName:
+                        comment.user?.display_name ||
+                        comment.user?.username ||
+                        '匿名',
+                    });
+                    setActive('comment');
+                  }}
                   onOpenUser={(userId: string) => {
                     setActiveUserId(userId);
                     setActive('userProfile');
@@ -526,10 +687,19 @@ export default function CustomTabs({
                   setActive('comments');
                 }}
               />
+            ) : active === 'saved' ? (
+              <SavedPostsScreen
+                onOpen={postId => {
+                  setActivePostId(postId);
+                  setActive('comments');
+                }}
+              />
             ) : active === 'myPosts' ? (
               <MyPostsListScreen />
             ) : active === 'profileEdit' ? (
-              <ProfileEditScreen navigation={{ goBack: () => setActive('me') }} />
+              <ProfileEditScreen
+                navigation={{ goBack: () => setActive('me') }}
+              />
             ) : active === 'userProfile' ? (
               activeUserId ? (
                 <UserProfileScreen
@@ -602,13 +772,13 @@ export default function CustomTabs({
                   }
                   accessibilityHint={
                     (handPreference === 'right' && k === 'home') ||
-                      (handPreference === 'left' && k === 'me')
+                    (handPreference === 'left' && k === 'me')
                       ? '長押しでサイドバーを開きます'
                       : undefined
                   }
                   sublabel={
                     (handPreference === 'right' && k === 'home') ||
-                      (handPreference === 'left' && k === 'me')
+                    (handPreference === 'left' && k === 'me')
                       ? '長押しでサイドバー'
                       : undefined
                   }
@@ -616,7 +786,7 @@ export default function CustomTabs({
                   onPress={() => setActive(k as TabKey)}
                   onLongPress={
                     (handPreference === 'right' && k === 'home') ||
-                      (handPreference === 'left' && k === 'me')
+                    (handPreference === 'left' && k === 'me')
                       ? () => setSidebarOpen(true)
                       : __DEV__ && k === 'noti'
                         ? () => setActive('devAnonV2')
@@ -636,7 +806,8 @@ export default function CustomTabs({
               left: 12,
               right: 12,
               bottom: Math.max(92, (insets.bottom || 0) + 92),
-              alignItems: handPreference === 'right' ? 'flex-end' : 'flex-start',
+              alignItems:
+                handPreference === 'right' ? 'flex-end' : 'flex-start',
             }}
           >
             <View
@@ -654,7 +825,9 @@ export default function CustomTabs({
               <Text style={{ color: colors.text, fontWeight: '700' }}>
                 長押しでメニュー
               </Text>
-              <Text style={{ color: colors.subtext, marginTop: 4, fontSize: 12 }}>
+              <Text
+                style={{ color: colors.subtext, marginTop: 4, fontSize: 12 }}
+              >
                 {handPreference === 'right'
                   ? 'ホームを長押しでサイドバーが開きます'
                   : 'あなたを長押しでサイドバーが開きます'}
@@ -665,7 +838,7 @@ export default function CustomTabs({
                   setShowSidebarHint(false);
                   try {
                     await AsyncStorage.setItem('has_seen_sidebar_hint_v1', '1');
-                  } catch { }
+                  } catch {}
                 }}
                 style={({ pressed }) => ({
                   alignSelf: 'flex-end',
@@ -673,7 +846,9 @@ export default function CustomTabs({
                   opacity: pressed ? 0.7 : 1,
                 })}
               >
-                <Text style={{ color: colors.pink, fontWeight: '700' }}>OK</Text>
+                <Text style={{ color: colors.pink, fontWeight: '700' }}>
+                  OK
+                </Text>
               </Pressable>
             </View>
           </View>
@@ -7,6 +7,7 @@ import { AuthProvider, useAuth } from '../contexts/AuthContext';
 import { SubscriptionProvider } from '../contexts/SubscriptionContext';
 import { getSupabaseClient } from '../services/supabaseClient';
 import { getMyProfile } from '../services/profileService';
+import { parseInviteCode } from '../utils/spaceInvites';
 
 import CustomTabs from './CustomTabs';
 
@@ -88,15 +89,25 @@ function AuthLinkHandler({
       }
     };
 
+    // ルームの招待リンク（mamapace://invite/<code>）は招待画面へ、それ以外は認証コールバックとして扱う
+    const handleUrl = async (url: string) => {
+      const inviteCode = parseInviteCode(url);
+      if (inviteCode) {
+        onNavigate(JSON.stringify({ screen: 'spaceInvite', code: inviteCode }));
+        return;
+      }
+      await handleAuthCallback(url);
+    };
+
     const onUrl = ({ url }: { url: string }) => {
-      handleAuthCallback(url);
+      handleUrl(url);
     };
 
     (async () => {
       try {
         const initial = await Linking.getInitialURL();
         if (initial) {
-          await handleAuthCallback(initial);
+          await handleUrl(initial);
         }
       } catch {}
     })();
@@ -21,6 +21,7 @@ import {
   sendAnonMessage,
   getCurrentAnonSlotId,
 } from '../services/anonV2Service';
+import { getMuteMatcher } from '../services/mutedTermService';
 import { getSupabaseClient } from '../services/supabaseClient';
 import { notifyError } from '../utils/notify';
 
@@ -117,13 +118,19 @@ export default function AnonRoomV2Screen({
             created_at: String(row.created_at ?? ''),
             expires_at: row.expires_at ? String(row.expires_at) : undefined,
           } as const;
-          setLiveMessages(prev => {
-            const byId: Record<string, (typeof prev)[number]> = {};
-            for (const m of prev) {
-              byId[String(m.id)] = m;
+          // ミュート中の語句・タグを含むメッセージは追加しない
+          getMuteMatcher().then(isMuted => {
+            if (isMuted(msg.content)) {
+              return;
             }
-            byId[String(msg.id)] = msg;
-            return Object.values(byId);
+            setLiveMessages(prev => {
+              const byId: Record<string, (typeof prev)[number]> = {};
+              for (const m of prev) {
+                byId[String(m.id)] = m;
+              }
+              byId[String(msg.id)] = msg;
+              return Object.values(byId);
+            });
           });
         }
       )
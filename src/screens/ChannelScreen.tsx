@@ -5,7 +5,7 @@
  * Implements channel messaging with real-time updates and NEW badge functionality
  */
 
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import {
   View,
   Text,
@@ -21,6 +21,7 @@ import {
   Image,
   Keyboard,
   Modal,
+  ScrollView,
 } from 'react-native';
 import * as ImagePicker from 'expo-image-picker';
 import { Ionicons } from '@expo/vector-icons';
@@ -42,12 +43,48 @@ import {
   useModeration,
   useSpaceOperations,
   useChannelMembers,
+  useSpaceChannels,
+  useSpaceRules,
 } from '../hooks/useRooms';
-import { RoomMessageWithSender, ReportMessageRequest } from '../types/room';
+import {
+  ChannelMember,
+  ChannelMemberWithUser,
+  RoomMessageWithSender,
+  ReportMessageRequest,
+  OptimisticRoomMessage,
+} from '../types/room';
 import ExpandableText from '../components/ExpandableText';
+import SharedPostCard from '../components/SharedPostCard';
+import LinkPreviewCard from '../components/LinkPreviewCard';
+import MessageReactions from '../components/MessageReactions';
+import MessageActionSheet from '../components/MessageActionSheet';
+import ReactorsSheet from '../components/ReactorsSheet';
+import PinnedMessagesBar from '../components/PinnedMessagesBar';
+import ForwardMessageModal from '../components/ForwardMessageModal';
+import ChannelManagerModal from '../components/ChannelManagerModal';
+import MemberModerationSheet from '../components/MemberModerationSheet';
+import SpaceModerationModal from '../components/SpaceModerationModal';
+import SpaceInvitesModal from '../components/SpaceInvitesModal';
+import SpaceRulesSheet from '../components/SpaceRulesSheet';
+import SpaceRulesEditorModal from '../components/SpaceRulesEditorModal';
+import SpaceEventCard from '../components/SpaceEventCard';
+import SpaceEventsModal from '../components/SpaceEventsModal';
+import {
+  ForwardableMessage,
+  forwardableFromChannelMessage,
+} from '../services/messageForwardService';
+import {
+  SHARED_POST_DEFAULT_TEXT,
+  sharedPostIdFromAttachments,
+} from '../services/postShareService';
+import { notifyError, notifyInfo } from '../utils/notify';
+import { canPostInChannel } from '../utils/spaceChannels';
+import { canModerateMember, isSpaceModerator } from '../utils/spaceModeration';
+import { hasJoinGuidance, needsRulesAcceptance } from '../utils/spaceRules';
+import { eventIdFromAttachments } from '../utils/spaceEvents';
 
 interface ChannelScreenProps {
-  channelId: string;
+  channelId: string; // Channel opened first; the switcher can move to other channels of the space
   spaceName: string;
   spaceId?: string; // Optional - if not provided, exit functionality is disabled
   isPrivateSpace?: boolean; // Whether this is a private space (enables invite functionality)
@@ -57,6 +94,8 @@ interface ChannelScreenProps {
   onMembers?: () => void; // Called when members button is pressed
   onNavigateToChat?: (chatId: string, userName: string) => void; // Navigate to direct chat
   onOpenUser?: (userId: string) => void; // Navigate to user profile
+  onOpenPost?: (postId: string) => void; // Open a shared post
+  focusMessageId?: string; // Scroll to this message (opened from message search)
   tags?: string[]; // Space tags to determine special behaviors like read-only
 }
 
@@ -71,6 +110,8 @@ export default function ChannelScreen({
   onMembers,
   onNavigateToChat,
   onOpenUser,
+  onOpenPost,
+  focusMessageId,
   tags = [],
 }: ChannelScreenProps) {
   const theme = useTheme();
@@ -85,6 +126,12 @@ export default function ChannelScreen({
   const [selectedMessageId, setSelectedMessageId] = useState<string | null>(
     null
   );
+  // 長押しで開いたメッセージ（リアクション・操作シート）と「リアクションした人」
+  const [actionTarget, setActionTarget] = useState<{
+    id: string;
+    isOwn: boolean;
+  } | null>(null);
+  const [reactorsFor, setReactorsFor] = useState<string | null>(null);
   const [showExitMenu, setShowExitMenu] = useState(false);
   const [showMenu, setShowMenu] = useState(false);
   const [showMembers, setShowMembers] = useState(false);
@@ -94,6 +141,18 @@ export default function ChannelScreen({
     urls: string[];
   }>({ visible: false, index: 0, urls: [] });
   const [isOwner, setIsOwner] = useState(false);
+  const [myRole, setMyRole] = useState<ChannelMember['role'] | null>(null);
+  // スイッチャーで選んでいるチャンネル
+  const [activeChannelId, setActiveChannelId] = useState(channelId);
+  const [showChannelManager, setShowChannelManager] = useState(false);
+  // モデレーション（メンバー操作シートとログ）
+  const [moderatingMember, setModeratingMember] =
+    useState<ChannelMemberWithUser | null>(null);
+  const [showModeration, setShowModeration] = useState(false);
+  const [showInvites, setShowInvites] = useState(false);
+  const [showRules, setShowRules] = useState(false);
+  const [showRulesEditor, setShowRulesEditor] = useState(false);
+  const [showEvents, setShowEvents] = useState(false);
 
   // Refs
   const flatListRef = useRef<FlatList>(null);
@@ -101,6 +160,11 @@ export default function ChannelScreen({
   const membersSlide = useRef(new Animated.Value(0)).current; // 0: hidden, 1: shown
   const csTimerRef = useRef<NodeJS.Timeout | null>(null);
   const layoutTimerRef = useRef<NodeJS.Timeout | null>(null);
+  // 検索結果を表示している間は、最下部への自動スクロールを止める
+  const holdAutoScrollRef = useRef(!!focusMessageId);
+  const focusStartedRef = useRef(false);
+  const [focusTarget, setFocusTarget] = useState<string | null>(null);
+  const [highlightedId, setHighlightedId] = useState<string | null>(null);
 
   // Hooks
   const {
@@ -109,16 +173,27 @@ export default function ChannelScreen({
     error,
     hasMore,
     sendMessage,
+    retryMessage,
+    discardMessage,
+    toggleReaction,
+    pinnedMessages,
+    togglePin,
     loadMore,
+    revealMessage,
     markSeen,
     refresh,
-  } = useChannelMessages(channelId);
+  } = useChannelMessages(activeChannelId);
 
   const {
     loading: reportLoading,
     error: reportError,
     reportMessage,
-  } = useModeration();
+    setMemberRole,
+    kickMember,
+    banMember,
+    muteMember,
+    deleteMessageAsModerator,
+  } = useModeration(spaceId);
 
   const {
     loading: exitLoading,
@@ -131,16 +206,43 @@ export default function ChannelScreen({
     loading: membersLoading,
     error: membersError,
     refresh: refreshMembers,
-  } = useChannelMembers(channelId);
+  } = useChannelMembers(activeChannelId);
+
+  const {
+    channels: spaceChannels,
+    createChannel,
+    updateChannel,
+    setChannelArchived,
+    reorderChannels,
+    clearUnread,
+  } = useSpaceChannels(spaceId);
+  const switcherChannels = spaceChannels.filter(
+    c => c.is_active || c.id === activeChannelId
+  );
+  const activeChannel = spaceChannels.find(c => c.id === activeChannelId);
+
+  const {
+    rules: spaceRules,
+    accept: acceptRules,
+    update: updateRules,
+  } = useSpaceRules(spaceId);
+  // オーナー以外は、最新のルールに同意するまで投稿できない
+  const rulesPending = needsRulesAcceptance(spaceRules);
+
+  useEffect(() => {
+    setActiveChannelId(channelId);
+  }, [channelId]);
 
   // Determine if current user is owner
   useEffect(() => {
     if (!user?.id) {
       setIsOwner(false);
+      setMyRole(null);
       return;
     }
     const mine = members.find(m => m.user_id === user.id);
     setIsOwner(!!mine && mine.role === 'owner');
+    setMyRole(mine?.role ?? null);
   }, [members, user?.id]);
 
   // Start direct chat with selected member
@@ -225,12 +327,33 @@ export default function ChannelScreen({
     };
   }, []);
 
-  // Mark channel as seen when screen loads
+  // Mark channel as seen when screen loads or the channel is switched
   useEffect(() => {
-    if (channelId) {
+    if (activeChannelId) {
       markSeen();
+      clearUnread(activeChannelId);
     }
-  }, [channelId, markSeen]);
+  }, [activeChannelId, markSeen, clearUnread]);
+
+  const switchChannel = (nextId: string) => {
+    if (nextId === activeChannelId) {
+      return;
+    }
+    holdAutoScrollRef.current = false;
+    setMessageText('');
+    setImages([]);
+    setActiveChannelId(nextId);
+  };
+
+  // お知らせチャンネルなど、このチャンネルに投稿できないときの案内
+  const postLockedNotice =
+    tags.some(t => t.replace(/^#/, '') === 'official') && !isOwner
+      ? '公式ルームのため、管理者のみ投稿できます'
+      : !canPostInChannel(activeChannel, activeChannel?.member_role ?? myRole)
+        ? activeChannel?.is_active === false
+          ? 'アーカイブされたチャンネルです'
+          : 'お知らせチャンネルはオーナーとモデレーターだけが投稿できます'
+        : null;
 
   // Handle send message (bundle text + images into one message)
   const handleSendMessage = async () => {
@@ -240,6 +363,7 @@ export default function ChannelScreen({
 
     const content = messageText.trim();
     setMessageText('');
+    holdAutoScrollRef.current = false;
 
     let attachments: {
       url: string;
@@ -303,6 +427,164 @@ export default function ChannelScreen({
     }
   };
 
+  const confirmDeleteMessage = (messageId: string) => {
+    Alert.alert('メッセージ削除', 'このメッセージを削除しますか？', [
+      { text: 'キャンセル', style: 'cancel' },
+      {
+        text: '削除',
+        style: 'destructive',
+        onPress: async () => {
+          const res = await roomService.deleteChannelMessage(messageId);
+          if (!res.success) {
+            Alert.alert('エラー', res.error || '削除に失敗しました');
+          } else {
+            // Refresh list to remove the message immediately
+            refresh();
+          }
+        },
+      },
+    ]);
+  };
+
+  const confirmModeratorDelete = (messageId: string) => {
+    Alert.alert(
+      'メッセージ削除',
+      'このメッセージを削除しますか？\n削除はモデレーションログに記録されます。',
+      [
+        { text: 'キャンセル', style: 'cancel' },
+        {
+          text: '削除',
+          style: 'destructive',
+          onPress: async () => {
+            const failure = await deleteMessageAsModerator(messageId);
+            if (failure) {
+              Alert.alert('エラー', failure);
+            } else {
+              refresh();
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const confirmReportMessage = (messageId: string) => {
+    setSelectedMessageId(messageId);
+    Alert.alert('メッセージ操作', 'このメッセージを報告しますか？', [
+      { text: 'キャンセル', style: 'cancel' },
+      {
+        text: '報告',
+        style: 'destructive',
+        onPress: () => handleReportMessage(messageId, 'inappropriate'),
+      },
+    ]);
+  };
+
+  const handleToggleReaction = async (messageId: string, emoji: string) => {
+    if (!(await toggleReaction(messageId, emoji))) {
+      notifyError('リアクションを送信できませんでした');
+    }
+  };
+
+  const handleTogglePin = async (messageId: string) => {
+    const failure = await togglePin(messageId);
+    if (failure) {
+      // 上限に達したときだけ理由を出す（それ以外は内部向けのメッセージ）
+      notifyError(
+        failure.startsWith('ピン留めできるのは')
+          ? `${failure}。ほかのピン留めを外してからお試しください`
+          : 'ピン留めを変更できませんでした'
+      );
+    }
+  };
+
+  // ピン留めバーから、読み込み済みのメッセージへスクロールする
+  const visibleMessages = useMemo(
+    () => messages.filter(m => !m.deleted_at),
+    [messages]
+  );
+  const jumpToMessage = (messageId: string) => {
+    const index = visibleMessages.findIndex(m => m.id === messageId);
+    if (index < 0) {
+      notifyInfo(
+        '古いメッセージです。過去のメッセージを読み込んでから開いてください'
+      );
+      return;
+    }
+    flatListRef.current?.scrollToIndex({
+      index,
+      animated: true,
+      viewPosition: 0.3,
+    });
+  };
+
+  // 検索結果のメッセージまで遡って読み込み、前後が見える位置に出す
+  useEffect(() => {
+    if (
+      !focusMessageId ||
+      activeChannelId !== channelId ||
+      loading ||
+      messages.length === 0 ||
+      focusStartedRef.current
+    ) {
+      return;
+    }
+    focusStartedRef.current = true;
+    revealMessage(focusMessageId).then(found => {
+      if (!found) {
+        holdAutoScrollRef.current = false;
+        notifyInfo(
+          'メッセージが見つかりませんでした。削除された可能性があります'
+        );
+        return;
+      }
+      setFocusTarget(focusMessageId);
+    });
+  }, [
+    focusMessageId,
+    activeChannelId,
+    channelId,
+    loading,
+    messages.length,
+    revealMessage,
+  ]);
+
+  useEffect(() => {
+    if (!focusTarget) {
+      return;
+    }
+    const index = visibleMessages.findIndex(m => m.id === focusTarget);
+    if (index < 0) {
+      return;
+    }
+    setFocusTarget(null);
+    setHighlightedId(focusTarget);
+    setTimeout(() => {
+      flatListRef.current?.scrollToIndex({
+        index,
+        animated: false,
+        viewPosition: 0.4,
+      });
+    }, 150);
+    setTimeout(() => setHighlightedId(null), 2500);
+  }, [focusTarget, visibleMessages]);
+
+  const [forwarding, setForwarding] = useState<ForwardableMessage | null>(null);
+  const actionMessage = actionTarget
+    ? messages.find(m => m.id === actionTarget.id)
+    : undefined;
+  const actionForwardable = actionMessage
+    ? forwardableFromChannelMessage(actionMessage)
+    : null;
+  // 他人のメッセージでも、送信者より上のロールなら削除できる
+  const actionModeratable =
+    !!actionTarget &&
+    !actionTarget.isOwn &&
+    canModerateMember(
+      myRole,
+      members.find(m => m.user_id === actionMessage?.sender_id)?.role
+    );
+
   // Handle room exit
   const handleExitRoom = async () => {
     if (!spaceId) {
@@ -347,6 +629,8 @@ export default function ChannelScreen({
   }) => {
     const isOwnMessage = !!user && item.sender_id === user.id;
     const isDeleted = !!item.deleted_at;
+    // 端末のアウトボックスにある（まだサーバーに届いていない）メッセージ
+    const sendStatus = (item as OptimisticRoomMessage).sendStatus;
 
     return (
       <Pressable
@@ -354,41 +638,31 @@ export default function ChannelScreen({
           if (isDeleted) {
             return;
           }
+          if (sendStatus === 'failed') {
+            Alert.alert(
+              '送信できませんでした',
+              (item as OptimisticRoomMessage).error,
+              [
+                { text: 'キャンセル', style: 'cancel' },
+                {
+                  text: '削除',
+                  style: 'destructive',
+                  onPress: () => discardMessage(item.id),
+                },
+                { text: '再送', onPress: () => retryMessage(item.id) },
+              ]
+            );
+            return;
+          }
           // Avoid actions for optimistic (unsaved) messages
           const isOptimistic =
             (item as any).isOptimistic ||
+            !!sendStatus ||
             (typeof item.id === 'string' && item.id.startsWith('temp_'));
           if (isOptimistic) {
             return;
           }
-          if (isOwnMessage) {
-            Alert.alert('メッセージ削除', 'このメッセージを削除しますか？', [
-              { text: 'キャンセル', style: 'cancel' },
-              {
-                text: '削除',
-                style: 'destructive',
-                onPress: async () => {
-                  const res = await roomService.deleteChannelMessage(item.id);
-                  if (!res.success) {
-                    Alert.alert('エラー', res.error || '削除に失敗しました');
-                  } else {
-                    // Refresh list to remove the message immediately
-                    refresh();
-                  }
-                },
-              },
-            ]);
-          } else {
-            setSelectedMessageId(item.id);
-            Alert.alert('メッセージ操作', 'このメッセージを報告しますか？', [
-              { text: 'キャンセル', style: 'cancel' },
-              {
-                text: '報告',
-                style: 'destructive',
-                onPress: () => handleReportMessage(item.id, 'inappropriate'),
-              },
-            ]);
-          }
+          setActionTarget({ id: item.id, isOwn: isOwnMessage });
         }}
         style={({ pressed }) => [
           {
@@ -398,7 +672,15 @@ export default function ChannelScreen({
           },
         ]}
       >
-        <View style={{ borderRadius: theme.radius.lg, overflow: 'hidden' }}>
+        <View
+          style={{
+            borderRadius: theme.radius.lg,
+            overflow: 'hidden',
+            borderWidth: 1,
+            borderColor:
+              item.id === highlightedId ? colors.pink : 'transparent',
+          }}
+        >
           <BlurView
             intensity={30}
             tint="dark"
@@ -474,8 +756,58 @@ export default function ChannelScreen({
               )}
             </View>
 
+            {!isDeleted && item.is_forwarded && (
+              <View
+                style={{
+                  flexDirection: 'row',
+                  alignItems: 'center',
+                  marginBottom: 4,
+                }}
+              >
+                <Ionicons
+                  name="arrow-redo-outline"
+                  size={12}
+                  color={colors.subtext}
+                />
+                <Text
+                  style={{
+                    color: colors.subtext,
+                    fontSize: 11,
+                    fontStyle: 'italic',
+                    marginLeft: 4,
+                  }}
+                >
+                  転送されたメッセージ
+                </Text>
+              </View>
+            )}
+
+            {/* Shared post */}
+            {!isDeleted &&
+              item.message_type === 'post_share' &&
+              !!sharedPostIdFromAttachments(item.attachments) && (
+                <SharedPostCard
+                  postId={sharedPostIdFromAttachments(item.attachments)!}
+                  onOpen={onOpenPost}
+                />
+              )}
+
+            {/* Event card */}
+            {!isDeleted &&
+              item.message_type === 'event' &&
+              !!spaceId &&
+              !!eventIdFromAttachments(item.attachments) && (
+                <SpaceEventCard
+                  spaceId={spaceId}
+                  eventId={eventIdFromAttachments(item.attachments)!}
+                  spaceName={spaceName}
+                />
+              )}
+
             {/* Attachments (images) */}
             {!isDeleted &&
+              item.message_type !== 'post_share' &&
+              item.message_type !== 'event' &&
               Array.isArray(item.attachments) &&
               item.attachments.length > 0 && (
                 <View
@@ -516,6 +848,11 @@ export default function ChannelScreen({
             {/* Text content (if any) */}
             {!isDeleted &&
               !!(item.content && item.content.length) &&
+              !(
+                item.message_type === 'post_share' &&
+                item.content === SHARED_POST_DEFAULT_TEXT
+              ) &&
+              item.message_type !== 'event' &&
               (!item.message_type ||
                 item.message_type !== 'image' ||
                 (item.attachments?.length ?? 0) === 0) && (
@@ -530,6 +867,13 @@ export default function ChannelScreen({
                 />
               )}
 
+            {/* Link preview */}
+            {!isDeleted && !item.is_masked && !!item.link_preview && (
+              <View style={{ marginBottom: 8 }}>
+                <LinkPreviewCard preview={item.link_preview} />
+              </View>
+            )}
+
             {/* Legacy single-image fallback: content is URL and no attachments */}
             {!isDeleted &&
               !item.attachments?.length &&
@@ -575,7 +919,28 @@ export default function ChannelScreen({
                 hour: '2-digit',
                 minute: '2-digit',
               })}
+              {sendStatus === 'pending' ? '・送信待ち…' : ''}
             </Text>
+            {sendStatus === 'failed' && (
+              <Pressable
+                accessibilityRole="button"
+                accessibilityLabel="メッセージを再送"
+                onPress={() => retryMessage(item.id)}
+                hitSlop={6}
+              >
+                <Text style={{ color: '#ff4444', fontSize: 12, marginTop: 2 }}>
+                  送信に失敗しました・タップで再送
+                </Text>
+              </Pressable>
+            )}
+            {!isDeleted && (
+              <MessageReactions
+                reactions={item.reactions}
+                myUserId={user?.id}
+                onToggle={emoji => handleToggleReaction(item.id, emoji)}
+                onShowReactors={() => setReactorsFor(item.id)}
+              />
+            )}
           </BlurView>
         </View>
       </Pressable>
@@ -645,7 +1010,8 @@ export default function ChannelScreen({
                   {spaceName}
                 </Text>
                 <Text style={{ color: colors.subtext, fontSize: 14 }}>
-                  #general
+                  {activeChannel?.channel_type === 'announcement' ? '📢 ' : '#'}
+                  {activeChannel?.name ?? 'general'}
                 </Text>
               </View>
 
@@ -675,16 +1041,156 @@ export default function ChannelScreen({
             </View>
           </View>
 
+          {/* Channel switcher */}
+          {(switcherChannels.length > 1 || isOwner) && (
+            <ScrollView
+              horizontal
+              showsHorizontalScrollIndicator={false}
+              style={{ flexGrow: 0 }}
+              contentContainerStyle={{
+                paddingHorizontal: theme.spacing(2),
+                paddingVertical: 8,
+                gap: 8,
+              }}
+            >
+              {switcherChannels.map(c => {
+                const selected = c.id === activeChannelId;
+                return (
+                  <Pressable
+                    key={c.id}
+                    accessibilityRole="button"
+                    accessibilityState={{ selected }}
+                    accessibilityLabel={`${c.name}チャンネル${
+                      c.unread_count > 0 ? `（未読${c.unread_count}件）` : ''
+                    }`}
+                    onPress={() => switchChannel(c.id)}
+                    style={{
+                      flexDirection: 'row',
+                      alignItems: 'center',
+                      paddingHorizontal: 12,
+                      paddingVertical: 6,
+                      borderRadius: 999,
+                      backgroundColor: selected ? colors.pink : '#ffffff10',
+                    }}
+                  >
+                    <Text
+                      style={{
+                        color: selected ? '#23181D' : colors.text,
+                        fontSize: 13,
+                        fontWeight: selected ? 'bold' : 'normal',
+                      }}
+                    >
+                      {c.channel_type === 'announcement' ? '📢 ' : '#'}
+                      {c.name}
+                    </Text>
+                    {!selected && c.unread_count > 0 && (
+                      <View
+                        style={{
+                          backgroundColor: colors.pink,
+                          borderRadius: 8,
+                          minWidth: 16,
+                          height: 16,
+                          paddingHorizontal: 4,
+                          marginLeft: 6,
+                          alignItems: 'center',
+                          justifyContent: 'center',
+                        }}
+                      >
+                        <Text
+                          style={{
+                            color: 'white',
+                            fontSize: 10,
+                            fontWeight: 'bold',
+                          }}
+                        >
+                          {c.unread_count > 9 ? '9+' : c.unread_count}
+                        </Text>
+                      </View>
+                    )}
+                  </Pressable>
+                );
+              })}
+              {isOwner && (
+                <Pressable
+                  accessibilityRole="button"
+                  accessibilityLabel="チャンネルの管理"
+                  onPress={() => setShowChannelManager(true)}
+                  style={{
+                    paddingHorizontal: 10,
+                    paddingVertical: 6,
+                    borderRadius: 999,
+                    borderWidth: 1,
+                    borderColor: colors.subtext + '40',
+                  }}
+                >
+                  <Ionicons
+                    name="settings-outline"
+                    size={14}
+                    color={colors.text}
+                  />
+                </Pressable>
+              )}
+            </ScrollView>
+          )}
+
+          {hasJoinGuidance(spaceRules) && (
+            <Pressable
+              accessibilityRole="button"
+              onPress={() => setShowRules(true)}
+              style={{
+                flexDirection: 'row',
+                alignItems: 'center',
+                marginHorizontal: theme.spacing(2),
+                marginTop: 6,
+                paddingVertical: 8,
+                paddingHorizontal: 12,
+                borderRadius: theme.radius.md,
+                backgroundColor: '#ffffff10',
+              }}
+            >
+              <Text style={{ fontSize: 14, marginRight: 6 }}>📜</Text>
+              <Text style={{ color: colors.text, fontSize: 13, flex: 1 }}>
+                ルームのルール
+              </Text>
+              {rulesPending && (
+                <Text style={{ color: colors.pink, fontSize: 12 }}>未同意</Text>
+              )}
+            </Pressable>
+          )}
+
+          <PinnedMessagesBar
+            pins={pinnedMessages}
+            onPressPin={pin => jumpToMessage(pin.message_id)}
+            onUnpin={pin => handleTogglePin(pin.message_id)}
+          />
+
           {/* Messages */}
           <FlatList
             ref={flatListRef}
-            data={messages.filter(m => !m.deleted_at)}
+            data={visibleMessages}
             keyExtractor={item => item.id}
             renderItem={renderMessage}
             contentContainerStyle={{ paddingTop: 8, paddingBottom: 16 }}
+            onScrollToIndexFailed={info => {
+              // 高さが未計測の行は近くまでスクロールしてから合わせ直す
+              flatListRef.current?.scrollToOffset({
+                offset: info.averageItemLength * info.index,
+                animated: false,
+              });
+              setTimeout(() => {
+                flatListRef.current?.scrollToIndex({
+                  index: info.index,
+                  animated: true,
+                  viewPosition: 0.3,
+                });
+              }, 100);
+            }}
             inverted={false}
             showsVerticalScrollIndicator={false}
             onContentSizeChange={() => {
+              if (holdAutoScrollRef.current) {
+                return;
+              }
               if (csTimerRef.current) {
                 clearTimeout(csTimerRef.current);
               }
@@ -693,6 +1199,9 @@ export default function ChannelScreen({
               }, 50);
             }}
             onLayout={() => {
+              if (holdAutoScrollRef.current) {
+                return;
+              }
               if (layoutTimerRef.current) {
                 clearTimeout(layoutTimerRef.current);
               }
@@ -752,7 +1261,20 @@ export default function ChannelScreen({
           />
 
           {/* Message Input */}
-          {tags.some(t => t.replace(/^#/, '') === 'official') && !isOwner ? (
+          {postLockedNotice ? (
+            <View
+              style={{
+                padding: theme.spacing(2),
+                paddingBottom: Platform.OS === 'ios' ? 90 : 20,
+                alignItems: 'center',
+                justifyContent: 'center',
+              }}
+            >
+              <Text style={{ color: colors.subtext, fontSize: 14 }}>
+                {postLockedNotice}
+              </Text>
+            </View>
+          ) : rulesPending ? (
             <View
               style={{
                 padding: theme.spacing(2),
@@ -762,8 +1284,23 @@ export default function ChannelScreen({
               }}
             >
               <Text style={{ color: colors.subtext, fontSize: 14 }}>
-                公式ルームのため、管理者のみ投稿できます
+                ルームのルールに同意するとメッセージを送れます
               </Text>
+              <Pressable
+                accessibilityRole="button"
+                onPress={() => setShowRules(true)}
+                style={{
+                  marginTop: 10,
+                  paddingHorizontal: 16,
+                  paddingVertical: 8,
+                  borderRadius: theme.radius.md,
+                  backgroundColor: colors.pink,
+                }}
+              >
+                <Text style={{ color: '#23181D', fontWeight: '700' }}>
+                  ルールを確認
+                </Text>
+              </Pressable>
             </View>
           ) : (
             <View
@@ -995,6 +1532,140 @@ export default function ChannelScreen({
                   </Text>
                 </Pressable>
 
+                {/* Events - all members */}
+                <Pressable
+                  onPress={() => {
+                    setShowMenu(false);
+                    setShowEvents(true);
+                  }}
+                  style={({ pressed }) => [
+                    {
+                      backgroundColor: 'transparent',
+                      borderRadius: theme.radius.md,
+                      paddingHorizontal: theme.spacing(4),
+                      paddingVertical: theme.spacing(1.5),
+                      marginBottom: theme.spacing(2),
+                      opacity: pressed ? 0.7 : 1,
+                      minWidth: 120,
+                      alignItems: 'center',
+                      borderWidth: 1,
+                      borderColor: colors.subtext + '40',
+                    },
+                  ]}
+                >
+                  <Text
+                    style={{
+                      color: colors.text,
+                      fontSize: 16,
+                      fontWeight: 'bold',
+                    }}
+                  >
+                    イベント
+                  </Text>
+                </Pressable>
+
+                {/* Moderation log - owner and moderators */}
+                {isSpaceModerator(myRole) && (
+                  <Pressable
+                    onPress={() => {
+                      setShowMenu(false);
+                      setShowModeration(true);
+                    }}
+                    style={({ pressed }) => [
+                      {
+                        backgroundColor: 'transparent',
+                        borderRadius: theme.radius.md,
+                        paddingHorizontal: theme.spacing(4),
+                        paddingVertical: theme.spacing(1.5),
+                        marginBottom: theme.spacing(2),
+                        opacity: pressed ? 0.7 : 1,
+                        minWidth: 120,
+                        alignItems: 'center',
+                        borderWidth: 1,
+                        borderColor: colors.subtext + '40',
+                      },
+                    ]}
+                  >
+                    <Text
+                      style={{
+                        color: colors.text,
+                        fontSize: 16,
+                        fontWeight: 'bold',
+                      }}
+                    >
+                      モデレーション
+                    </Text>
+                  </Pressable>
+                )}
+
+                {/* Rules and screening questions - owner only */}
+                {isOwner && (
+                  <Pressable
+                    onPress={() => {
+                      setShowMenu(false);
+                      setShowRulesEditor(true);
+                    }}
+                    style={({ pressed }) => [
+                      {
+                        backgroundColor: 'transparent',
+                        borderRadius: theme.radius.md,
+                        paddingHorizontal: theme.spacing(4),
+                        paddingVertical: theme.spacing(1.5),
+                        marginBottom: theme.spacing(2),
+                        opacity: pressed ? 0.7 : 1,
+                        minWidth: 120,
+                        alignItems: 'center',
+                        borderWidth: 1,
+                        borderColor: colors.subtext + '40',
+                      },
+                    ]}
+                  >
+                    <Text
+                      style={{
+                        color: colors.text,
+                        fontSize: 16,
+                        fontWeight: 'bold',
+                      }}
+                    >
+                      ルールと参加時の質問
+                    </Text>
+                  </Pressable>
+                )}
+
+                {/* Invite links and join requests - owner only */}
+                {isOwner && (
+                  <Pressable
+                    onPress={() => {
+                      setShowMenu(false);
+                      setShowInvites(true);
+                    }}
+                    style={({ pressed }) => [
+                      {
+                        backgroundColor: 'transparent',
+                        borderRadius: theme.radius.md,
+                        paddingHorizontal: theme.spacing(4),
+                        paddingVertical: theme.spacing(1.5),
+                        marginBottom: theme.spacing(2),
+                        opacity: pressed ? 0.7 : 1,
+                        minWidth: 120,
+                        alignItems: 'center',
+                        borderWidth: 1,
+                        borderColor: colors.subtext + '40',
+                      },
+                    ]}
+                  >
+                    <Text
+                      style={{
+                        color: colors.text,
+                        fontSize: 16,
+                        fontWeight: 'bold',
+                      }}
+                    >
+                      招待リンク・参加リクエスト
+                    </Text>
+                  </Pressable>
+                )}
+
                 {/* Invite button - only show for private spaces */}
                 {isPrivateSpace && onInvite && (
                   <Pressable
@@ -1277,13 +1948,30 @@ export default function ChannelScreen({
                               : 'メンバー'}
                         </Text>
                       </View>
+                      {canModerateMember(
+                        myRole,
+                        item.role,
+                        item.user_id === user?.id
+                      ) && (
+                        <Pressable
+                          accessibilityRole="button"
+                          accessibilityLabel="メンバーを管理"
+                          onPress={() => setModeratingMember(item)}
+                          hitSlop={6}
+                          style={{ paddingHorizontal: 8, marginRight: 4 }}
+                        >
+                          <Text style={{ color: colors.subtext, fontSize: 16 }}>
+                            •••
+                          </Text>
+                        </Pressable>
+                      )}
                       <Pressable
                         onPress={() =>
                           handleStartChat(
                             item.user_id,
                             item.user?.display_name ||
-                            item.user?.username ||
-                            'ユーザー'
+                              item.user?.username ||
+                              'ユーザー'
                           )
                         }
                         style={({ pressed }) => ({
@@ -1367,9 +2055,9 @@ export default function ChannelScreen({
             </View>
           )}
         </KeyboardAvoidingView>
-      </Animated.View >
+      </Animated.View>
       {/* Simple image viewer modal */}
-      < Modal
+      <Modal
         visible={imageViewer.visible}
         transparent
         animationType="fade"
@@ -1393,7 +2081,140 @@ export default function ChannelScreen({
             />
           ) : null}
         </Pressable>
-      </Modal >
+      </Modal>
+      <MessageActionSheet
+        visible={!!actionTarget}
+        onClose={() => setActionTarget(null)}
+        onReact={emoji => {
+          if (actionTarget) {
+            handleToggleReaction(actionTarget.id, emoji);
+          }
+        }}
+        actions={
+          actionTarget
+            ? [
+                {
+                  label: pinnedMessages.some(
+                    p => p.message_id === actionTarget.id
+                  )
+                    ? 'ピン留めを外す'
+                    : 'ピン留め',
+                  onPress: () => handleTogglePin(actionTarget.id),
+                },
+                ...(actionForwardable
+                  ? [
+                      {
+                        label: '転送',
+                        onPress: () => setForwarding(actionForwardable),
+                      },
+                    ]
+                  : []),
+                actionTarget.isOwn
+                  ? {
+                      label: 'メッセージを削除',
+                      destructive: true,
+                      onPress: () => confirmDeleteMessage(actionTarget.id),
+                    }
+                  : {
+                      label: 'メッセージを報告',
+                      destructive: true,
+                      onPress: () => confirmReportMessage(actionTarget.id),
+                    },
+                ...(actionModeratable
+                  ? [
+                      {
+                        label: 'メッセージを削除（モデレーター）',
+                        destructive: true,
+                        onPress: () => confirmModeratorDelete(actionTarget.id),
+                      },
+                    ]
+                  : []),
+              ]
+            : []
+        }
+      />
+      <ReactorsSheet
+        scope="channel"
+        messageId={reactorsFor}
+        onClose={() => setReactorsFor(null)}
+        onOpenUser={onOpenUser}
+      />
+      <ForwardMessageModal
+        message={forwarding}
+        sourceId={activeChannelId}
+        onClose={() => setForwarding(null)}
+      />
+
+      <ChannelManagerModal
+        visible={showChannelManager}
+        channels={spaceChannels}
+        onClose={() => setShowChannelManager(false)}
+        onCreate={createChannel}
+        onUpdate={updateChannel}
+        onSetArchived={async (id, archived) => {
+          const failure = await setChannelArchived(id, archived);
+          // 開いているチャンネルをアーカイブしたら先頭のチャンネルへ移る
+          if (!failure && archived && id === activeChannelId) {
+            const next = spaceChannels.find(c => c.is_active && c.id !== id);
+            if (next) {
+              switchChannel(next.id);
+            }
+          }
+          return failure;
+        }}
+        onReorder={reorderChannels}
+      />
+      <MemberModerationSheet
+        member={moderatingMember}
+        actorRole={myRole}
+        onClose={() => setModeratingMember(null)}
+        onSetRole={setMemberRole}
+        onMute={muteMember}
+        onKick={userId => kickMember(userId)}
+        onBan={userId => banMember(userId)}
+        onDone={refreshMembers}
+      />
+      {spaceId && (
+        <SpaceModerationModal
+          spaceId={spaceId}
+          visible={showModeration}
+          onClose={() => setShowModeration(false)}
+        />
+      )}
+      {spaceId && (
+        <SpaceInvitesModal
+          spaceId={spaceId}
+          spaceName={spaceName}
+          visible={showInvites}
+          onClose={() => setShowInvites(false)}
+          onMembersChanged={refreshMembers}
+        />
+      )}
+      <SpaceRulesSheet
+        visible={showRules}
+        spaceName={spaceName}
+        rules={spaceRules}
+        submitLabel={rulesPending ? 'ルールに同意する' : undefined}
+        onSubmit={rulesPending ? () => acceptRules() : undefined}
+        onClose={() => setShowRules(false)}
+      />
+      <SpaceRulesEditorModal
+        visible={showRulesEditor}
+        rules={spaceRules}
+        onClose={() => setShowRulesEditor(false)}
+        onSave={updateRules}
+      />
+      {spaceId && (
+        <SpaceEventsModal
+          spaceId={spaceId}
+          spaceName={spaceName}
+          channelId={activeChannelId}
+          userId={user?.id}
+          canModerate={isSpaceModerator(myRole)}
+          visible={showEvents}
+          onClose={() => setShowEvents(false)}
+        />
+      )}
     </>
   );
 }
@@ -12,35 +12,68 @@ import {
   Image,
   Keyboard,
   Modal,
+  ActivityIndicator,
 } from 'react-native';
 import * as ImagePicker from 'expo-image-picker';
-import { useState, useCallback, useRef, useEffect } from 'react';
+import { useState, useCallback, useRef, useEffect, useMemo } from 'react';
 import { Ionicons } from '@expo/vector-icons';
 
 import {
   imagesOnlyMediaTypes,
   imageOnlyMediaTypeSingle,
 } from '../utils/imagePickerCompat';
-import { uploadChatImages } from '../services/storageService';
+import { uploadChatAudio, uploadChatImages } from '../services/storageService';
 import { useTheme } from '../theme/theme';
 import { useAuth } from '../contexts/AuthContext';
 import { useHandPreference } from '../contexts/HandPreferenceContext';
 import { useChat } from '../hooks/useChat';
-import { MessageType, OptimisticMessage } from '../types/chat';
-// import removed: chatService was unused
+import { MessageType, OptimisticMessage, ParticipantRole } from '../types/chat';
+import chatService from '../services/chatService';
 import { getSupabaseClient } from '../services/supabaseClient';
+import { E2E_ATTACHMENTS_UNAVAILABLE_TEXT } from '../services/e2eService';
 import VerifiedBadge from '../components/VerifiedBadge';
+import SharedPostCard from '../components/SharedPostCard';
+import LinkPreviewCard from '../components/LinkPreviewCard';
+import GroupMembersModal from '../components/GroupMembersModal';
+import VoiceRecorderBar, {
+  RecordedVoice,
+} from '../components/VoiceRecorderBar';
+import VoiceMessageBubble from '../components/VoiceMessageBubble';
+import MessageReactions from '../components/MessageReactions';
+import MessageActionSheet from '../components/MessageActionSheet';
+import ReactorsSheet from '../components/ReactorsSheet';
+import PinnedMessagesBar from '../components/PinnedMessagesBar';
+import ForwardMessageModal from '../components/ForwardMessageModal';
+import {
+  ForwardableMessage,
+  forwardableFromChatMessage,
+} from '../services/messageForwardService';
+import {
+  VOICE_MESSAGE_TEXT,
+  VOICE_MIN_DURATION_MS,
+} from '../utils/voiceMessage';
+import { SHARED_POST_DEFAULT_TEXT } from '../services/postShareService';
+import { ChatExportFormat, exportChat } from '../services/chatExportService';
 import { REPORT_REASONS } from '../utils/reportReasons';
 import { submitReport } from '../services/reportService';
 import { blockUser } from '../services/blockService';
 import { useBlockedList } from '../hooks/useBlock';
 import { notifyError, notifyInfo } from '../utils/notify';
+import {
+  DISAPPEARING_TIMER_OPTIONS,
+  formatDisappearingTimer,
+  latestDisappearingSetting,
+} from '../utils/disappearingMessages';
 
 interface ChatScreenProps {
   chatId?: string;
   userName?: string;
   onBack?: () => void;
   onNavigateToUser?: (userId: string) => void;
+  onOpenPost?: (postId: string) => void;
+  onOpenSafetyNumber?: (chatId: string, userId: string) => void;
+  // メッセージ検索から開いたとき、このメッセージまで遡って表示する
+  focusMessageId?: string;
   route?: {
     params?: {
       chatId?: string;
@@ -53,6 +86,9 @@ export default function ChatScreen({
   userName,
   onBack,
   onNavigateToUser,
+  onOpenPost,
+  onOpenSafetyNumber,
+  focusMessageId,
   route,
 }: ChatScreenProps) {
   const { colors } = useTheme();
@@ -60,6 +96,14 @@ export default function ChatScreen({
   const { handPreference } = useHandPreference();
   const [inputMessage, setInputMessage] = useState('');
   const [images, setImages] = useState<{ uri: string }[]>([]);
+  const [recording, setRecording] = useState(false);
+  // 長押しで開いたメッセージ（リアクション・操作シート）と「リアクションした人」
+  const [actionTarget, setActionTarget] = useState<{
+    id: string;
+    isMe: boolean;
+  } | null>(null);
+  const [reactorsFor, setReactorsFor] = useState<string | null>(null);
+  const [forwarding, setForwarding] = useState<ForwardableMessage | null>(null);
   const [viewer, setViewer] = useState<{
     visible: boolean;
     index: number;
@@ -69,6 +113,11 @@ export default function ChatScreen({
   const csTimerRef = useRef<NodeJS.Timeout | null>(null);
   const layoutTimerRef = useRef<NodeJS.Timeout | null>(null);
   const msgTimerRef = useRef<NodeJS.Timeout | null>(null);
+  // 検索結果を表示している間は、最下部への自動スクロールを止める
+  const holdAutoScrollRef = useRef(!!focusMessageId);
+  const focusStartedRef = useRef(false);
+  const [focusTarget, setFocusTarget] = useState<string | null>(null);
+  const [highlightedId, setHighlightedId] = useState<string | null>(null);
 
   // Get chatId from props or route params
   const chatId = propChatId || route?.params?.chatId;
@@ -81,12 +130,18 @@ export default function ChatScreen({
     isSending,
     error,
     sendMessage,
+    retryMessage,
+    discardMessage,
+    toggleReaction,
+    togglePin,
+    pinnedMessages,
     editMessage,
     deleteMessage,
     updateTypingStatus,
     clearError,
     retry,
     loadMoreMessages,
+    revealMessage,
     canLoadMore,
     typingUsers,
     isLoadingMessages,
@@ -100,14 +155,261 @@ export default function ChatScreen({
     null
   );
 
-  const otherUserId = chat?.participant_ids?.[0] || null;
+  const isGroup = chat?.chat_type === 'group';
+  const otherUserId = isGroup ? null : chat?.participant_ids?.[0] || null;
+  const [groupTitle, setGroupTitle] = useState<string | null>(null);
+  const [membersOpen, setMembersOpen] = useState(false);
+  useEffect(() => {
+    setGroupTitle(isGroup ? chat?.metadata?.title || null : null);
+  }, [isGroup, chat?.metadata?.title]);
   const { isBlocked: isBlockedFn, unblock, mutating } = useBlockedList();
   const chatBlocked = isBlockedFn(otherUserId);
+
+  // 暗号化の設定（切り替えのシステムメッセージが届いたらそちらを優先する）
+  const latestE2EEvent = useMemo(() => {
+    for (let i = messages.length - 1; i >= 0; i--) {
+      const m = messages[i];
+      if (typeof m?.metadata?.e2e_enabled === 'boolean') {
+        return { id: m.id, enabled: m.metadata.e2e_enabled };
+      }
+    }
+    return null;
+  }, [messages]);
+  const [e2eOverride, setE2eOverride] = useState<boolean | null>(null);
+  useEffect(() => {
+    setE2eOverride(null);
+  }, [latestE2EEvent?.id]);
+  const e2eEnabled =
+    e2eOverride ?? latestE2EEvent?.enabled ?? !!chat?.e2e_enabled;
+  // 暗号化中は写真・ボイスメッセージを送れないので、選択中のものは取り消す
+  useEffect(() => {
+    if (e2eEnabled) {
+      setImages([]);
+      setRecording(false);
+    }
+  }, [e2eEnabled]);
+  const [e2eSaving, setE2eSaving] = useState(false);
+  const toggleE2E = async (enabled: boolean) => {
+    if (!chatId || e2eSaving) {
+      return;
+    }
+    setE2eSaving(true);
+    const res = await chatService.setE2EEnabled(chatId, enabled);
+    setE2eSaving(false);
+    if (!res.success) {
+      notifyError(res.error);
+      return;
+    }
+    setE2eOverride(res.data);
+    notifyInfo(
+      res.data
+        ? 'エンドツーエンド暗号化をオンにしました'
+        : 'エンドツーエンド暗号化をオフにしました'
+    );
+  };
+
+  // 消えるメッセージ（こちらも設定変更のシステムメッセージを優先する）
+  const latestDisappearing = useMemo(
+    () => latestDisappearingSetting(messages),
+    [messages]
+  );
+  const [disappearingOverride, setDisappearingOverride] = useState<
+    number | null | undefined
+  >(undefined);
+  useEffect(() => {
+    setDisappearingOverride(undefined);
+  }, [latestDisappearing]);
+  const disappearingSeconds =
+    disappearingOverride !== undefined
+      ? disappearingOverride
+      : latestDisappearing !== undefined
+        ? latestDisappearing
+        : (chat?.metadata?.disappearing_seconds ?? null);
+  const canEditDisappearing =
+    !isGroup ||
+    chat?.my_role === ParticipantRole.OWNER ||
+    chat?.my_role === ParticipantRole.ADMIN;
+  const changeDisappearing = async (seconds: number | null) => {
+    if (!chatId) {
+      return;
+    }
+    const res = await chatService.setDisappearingTimer(chatId, seconds);
+    if (!res.success) {
+      notifyError(res.error);
+      return;
+    }
+    setDisappearingOverride(res.data);
+    notifyInfo(
+      res.data
+        ? `消えるメッセージを${formatDisappearingTimer(res.data)}に設定しました`
+        : '消えるメッセージをオフにしました'
+    );
+  };
+  const openDisappearingPicker = () => {
+    if (!canEditDisappearing) {
+      notifyInfo(
+        `消えるメッセージ: ${formatDisappearingTimer(disappearingSeconds)}（変更はオーナーか管理者のみ）`
+      );
+      return;
+    }
+    Alert.alert(
+      '消えるメッセージ',
+      '設定後に送信したメッセージは、選んだ期間が過ぎると全員の画面から消えます。',
+      [
+        ...DISAPPEARING_TIMER_OPTIONS.map(seconds => ({
+          text:
+            formatDisappearingTimer(seconds) +
+            (seconds === disappearingSeconds ? '（現在）' : ''),
+          onPress: () => {
+            if (seconds !== disappearingSeconds) {
+              changeDisappearing(seconds);
+            }
+          },
+        })),
+        { text: 'キャンセル', style: 'cancel' as const },
+      ]
+    );
+  };
+
+  // トーク履歴の書き出し（読み込み済みかどうかに関係なく全件を取り直す）
+  const [exporting, setExporting] = useState(false);
+  const runExport = async (format: ChatExportFormat) => {
+    if (!chatId || exporting) {
+      return;
+    }
+    setExporting(true);
+    try {
+      await exportChat(
+        chatId,
+        (isGroup ? groupTitle : headerName) || 'チャット',
+        format
+      );
+    } catch (e: any) {
+      notifyError(e?.message || '書き出しに失敗しました');
+    } finally {
+      setExporting(false);
+    }
+  };
+  const openExportPicker = () => {
+    if (exporting) {
+      notifyInfo('書き出し中です');
+      return;
+    }
+    Alert.alert(
+      'トーク履歴を書き出す',
+      '画像やボイスメッセージはリンクとして書き出されます。書き出したファイルの取り扱いにご注意ください。',
+      [
+        { text: 'テキスト (.txt)', onPress: () => runExport('text') },
+        { text: 'JSON (.json)', onPress: () => runExport('json') },
+        { text: 'キャンセル', style: 'cancel' },
+      ]
+    );
+  };
+
+  // ピン留めバーから、読み込み済みのメッセージへスクロールする
+  const visibleMessages = useMemo(
+    () => messages.filter((m: any) => !m.deleted_at),
+    [messages]
+  );
+  const jumpToMessage = (messageId: string) => {
+    const index = visibleMessages.findIndex(m => m.id === messageId);
+    if (index < 0) {
+      notifyInfo(
+        '古いメッセージです。上に引っぱって過去のメッセージを読み込んでください'
+      );
+      return;
+    }
+    flatListRef.current?.scrollToIndex({
+      index,
+      animated: true,
+      viewPosition: 0.3,
+    });
+  };
+
+  // 検索結果のメッセージまで遡って読み込み、前後が見える位置に出す
+  useEffect(() => {
+    if (!focusMessageId || !chat || isLoading || focusStartedRef.current) {
+      return;
+    }
+    focusStartedRef.current = true;
+    revealMessage(focusMessageId).then(found => {
+      if (!found) {
+        holdAutoScrollRef.current = false;
+        notifyInfo(
+          'メッセージが見つかりませんでした。削除された可能性があります'
+        );
+        return;
+      }
+      setFocusTarget(focusMessageId);
+    });
+  }, [focusMessageId, chat, isLoading, revealMessage]);
+
+  useEffect(() => {
+    if (!focusTarget) {
+      return;
+    }
+    const index = visibleMessages.findIndex(m => m.id === focusTarget);
+    if (index < 0) {
+      return;
+    }
+    setFocusTarget(null);
+    setHighlightedId(focusTarget);
+    setTimeout(() => {
+      flatListRef.current?.scrollToIndex({
+        index,
+        animated: false,
+        viewPosition: 0.4,
+      });
+    }, 150);
+    setTimeout(() => setHighlightedId(null), 2500);
+  }, [focusTarget, visibleMessages]);
+
+  const actionMessage = actionTarget
+    ? messages.find(m => m.id === actionTarget.id)
+    : undefined;
+  const actionForwardable = actionMessage
+    ? forwardableFromChatMessage(actionMessage)
+    : null;
+
   const handleMenuPress = () => {
     if (!otherUserId) {
       return;
     }
     Alert.alert('操作を選択', undefined, [
+      e2eEnabled
+        ? {
+            text: 'エンドツーエンド暗号化をオフにする',
+            onPress: () =>
+              Alert.alert(
+                '暗号化をオフにしますか？',
+                'これ以降のメッセージは暗号化されずに送信されます。',
+                [
+                  { text: 'キャンセル', style: 'cancel' },
+                  {
+                    text: 'オフにする',
+                    style: 'destructive',
+                    onPress: () => toggleE2E(false),
+                  },
+                ]
+              ),
+          }
+        : {
+            text: 'エンドツーエンド暗号化をオンにする',
+            onPress: () => toggleE2E(true),
+          },
+      ...(e2eEnabled && chatId && onOpenSafetyNumber
+        ? [
+            {
+              text: '安全確認番号を表示',
+              onPress: () => onOpenSafetyNumber(chatId, otherUserId),
+            },
+          ]
+        : []),
+      {
+        text: `消えるメッセージ: ${formatDisappearingTimer(disappearingSeconds)}`,
+        onPress: openDisappearingPicker,
+      },
+      { text: 'トーク履歴を書き出す', onPress: openExportPicker },
       {
         text: '通報する',
         onPress: () =>
@@ -201,6 +503,7 @@ export default function ChatScreen({
 
     const messageToSend = inputMessage.trim();
     setInputMessage('');
+    holdAutoScrollRef.current = false;
 
     try {
       // Upload selected images (if any) and bundle as attachments
@@ -238,9 +541,36 @@ export default function ChatScreen({
     }
   }, [inputMessage, images, isSending, sendMessage]);
 
+  // 録音したボイスメッセージをアップロードして送信
+  const handleSendVoice = useCallback(
+    async (voice: RecordedVoice) => {
+      setRecording(false);
+      holdAutoScrollRef.current = false;
+      if (voice.durationMs < VOICE_MIN_DURATION_MS) {
+        notifyInfo('録音が短すぎます');
+        return;
+      }
+      try {
+        if (!user?.id) {
+          throw new Error('ログインが必要です');
+        }
+        const { url, mime } = await uploadChatAudio(user.id, voice.uri);
+        await sendMessage(VOICE_MESSAGE_TEXT, MessageType.AUDIO, undefined, {
+          audio_url: url,
+          audio_duration_ms: voice.durationMs,
+          audio_waveform: voice.waveform,
+          audio_mime: mime,
+        });
+      } catch (e: any) {
+        notifyError(e?.message || 'ボイスメッセージを送信できませんでした');
+      }
+    },
+    [user?.id, sendMessage]
+  );
+
   // Auto-scroll to bottom on new messages (LINE style)
   useEffect(() => {
-    if (messages.length > 0) {
+    if (messages.length > 0 && !holdAutoScrollRef.current) {
       if (msgTimerRef.current) {
         clearTimeout(msgTimerRef.current);
       }
@@ -460,10 +790,36 @@ export default function ChatScreen({
       const isMe = item.sender_id === user?.id;
       const isOptimistic = item.isOptimistic;
       const hasError = item.error;
+      // 端末のアウトボックスにある（まだサーバーに届いていない）メッセージ
+      const sendStatus = item.sendStatus;
       const isDeleted = item.deleted_at;
       const senderName =
         item.sender?.display_name || item.sender?.username || '匿名';
 
+      // グループの参加・退出・設定変更は中央に小さく表示する
+      if (
+        item.message_type === MessageType.SYSTEM &&
+        !!item.metadata?.system_event
+      ) {
+        return (
+          <View style={{ alignItems: 'center', marginBottom: 10 }}>
+            <Text
+              style={{
+                color: colors.subtext,
+                fontSize: 12,
+                backgroundColor: '#ffffff0D',
+                paddingHorizontal: 10,
+                paddingVertical: 4,
+                borderRadius: 999,
+                overflow: 'hidden',
+              }}
+            >
+              {item.content}
+            </Text>
+          </View>
+        );
+      }
+
       // Check if this is an invitation message (check metadata for both text and system types)
       const isInvitation =
         (item.message_type === MessageType.SYSTEM ||
@@ -474,22 +830,29 @@ export default function ChatScreen({
       return (
         <Pressable
           onLongPress={() => {
-            if (isMe && !isDeleted && !isOptimistic) {
-              // Unified simple delete dialog (same style as room)
-              Alert.alert('メッセージ削除', 'このメッセージを削除しますか？', [
+            if (sendStatus === 'failed') {
+              Alert.alert('送信できませんでした', item.error, [
                 { text: 'キャンセル', style: 'cancel' },
                 {
                   text: '削除',
                   style: 'destructive',
-                  onPress: () => deleteMessage(item.id),
+                  onPress: () => discardMessage(item.id),
                 },
+                { text: '再送', onPress: () => retryMessage(item.id) },
               ]);
+              return;
+            }
+            if (!isDeleted && !isOptimistic && !sendStatus) {
+              setActionTarget({ id: item.id, isMe });
             }
           }}
           style={{
             alignItems: isMe ? 'flex-end' : 'flex-start',
             marginBottom: 10,
             opacity: isOptimistic ? 0.7 : isDeleted ? 0.5 : 1,
+            borderRadius: 16,
+            backgroundColor:
+              item.id === highlightedId ? colors.pink + '26' : 'transparent',
           }}
         >
           <View style={{ alignSelf: isMe ? 'flex-end' : 'flex-start' }}>
@@ -555,6 +918,31 @@ export default function ChatScreen({
                   </View>
                 )}
               </Pressable>
+              {item.metadata?.forwarded && (
+                <View
+                  style={{
+                    flexDirection: 'row',
+                    alignItems: 'center',
+                    marginBottom: 4,
+                  }}
+                >
+                  <Ionicons
+                    name="arrow-redo-outline"
+                    size={12}
+                    color={isMe ? '#23181D99' : colors.subtext}
+                  />
+                  <Text
+                    style={{
+                      color: isMe ? '#23181D99' : colors.subtext,
+                      fontSize: 11,
+                      fontStyle: 'italic',
+                      marginLeft: 4,
+                    }}
+                  >
+                    転送されたメッセージ
+                  </Text>
+                </View>
+              )}
               {/* Attachments (images) */}
               {Array.isArray(item.metadata?.attachments) &&
                 item.metadata!.attachments!.length > 0 && (
@@ -599,11 +987,71 @@ export default function ChatScreen({
                   </View>
                 )}
 
+              {/* Voice message */}
+              {!isDeleted &&
+                item.message_type === MessageType.AUDIO &&
+                !!item.metadata?.audio_url && (
+                  <VoiceMessageBubble
+                    url={item.metadata.audio_url}
+                    durationMs={item.metadata.audio_duration_ms}
+                    waveform={item.metadata.audio_waveform}
+                    tint={isMe ? '#23181D' : colors.text}
+                    mutedTint={isMe ? '#23181D55' : '#ffffff40'}
+                  />
+                )}
+
+              {/* Shared post */}
+              {!isDeleted &&
+                item.message_type === MessageType.POST_SHARE &&
+                !!item.metadata?.shared_post_id && (
+                  <SharedPostCard
+                    postId={item.metadata.shared_post_id}
+                    onOpen={onOpenPost}
+                  />
+                )}
+
               {/* Text content or legacy image-only content */}
               {(() => {
                 if (isDeleted) {
                   return null;
                 }
+                if (
+                  item.message_type === MessageType.POST_SHARE &&
+                  item.content === SHARED_POST_DEFAULT_TEXT
+                ) {
+                  return null;
+                }
+                if (
+                  item.message_type === MessageType.AUDIO &&
+                  !!item.metadata?.audio_url
+                ) {
+                  return null;
+                }
+                if (item.metadata?.e2e_status === 'undecryptable') {
+                  return (
+                    <View
+                      style={{
+                        flexDirection: 'row',
+                        alignItems: 'center',
+                        gap: 4,
+                      }}
+                    >
+                      <Ionicons
+                        name="lock-closed"
+                        size={12}
+                        color={isMe ? '#23181D99' : colors.subtext}
+                      />
+                      <Text
+                        style={{
+                          color: isMe ? '#23181D99' : colors.subtext,
+                          fontStyle: 'italic',
+                        }}
+                      >
+                        この端末では表示できない暗号化メッセージです
+                      </Text>
+                    </View>
+                  );
+                }
                 const hasAtt =
                   Array.isArray(item.metadata?.attachments) &&
                   item.metadata!.attachments!.length > 0;
@@ -657,6 +1105,11 @@ export default function ChatScreen({
                 return null;
               })()}
 
+              {/* Link preview */}
+              {!isDeleted && !!item.metadata?.link_preview && (
+                <LinkPreviewCard preview={item.metadata.link_preview} compact />
+              )}
+
               {/* Invitation response buttons */}
               {isInvitation && !isMe && !isDeleted && (
                 <View style={{ flexDirection: 'row', marginTop: 12, gap: 8 }}>
@@ -737,12 +1190,44 @@ export default function ChatScreen({
                   編集済み
                 </Text>
               )}
-              {hasError && (
-                <Text style={{ color: '#ff4444', fontSize: 10, marginTop: 2 }}>
-                  送信に失敗しました
+              {sendStatus === 'pending' && (
+                <Text
+                  style={{
+                    color: isMe ? '#23181D99' : colors.subtext,
+                    fontSize: 10,
+                    marginTop: 2,
+                  }}
+                >
+                  送信待ち…
                 </Text>
               )}
+              {hasError && (
+                <Pressable
+                  accessibilityRole="button"
+                  accessibilityLabel="メッセージを再送"
+                  onPress={() => retryMessage(item.id)}
+                  disabled={sendStatus !== 'failed'}
+                  hitSlop={6}
+                >
+                  <Text
+                    style={{ color: '#ff4444', fontSize: 10, marginTop: 2 }}
+                  >
+                    {sendStatus === 'failed'
+                      ? '送信に失敗しました・タップで再送'
+                      : '送信に失敗しました'}
+                  </Text>
+                </Pressable>
+              )}
             </View>
+            {!isDeleted && (
+              <MessageReactions
+                reactions={item.reactions}
+                myUserId={user?.id}
+                align={isMe ? 'right' : 'left'}
+                onToggle={emoji => toggleReaction(item.id, emoji)}
+                onShowReactors={() => setReactorsFor(item.id)}
+              />
+            )}
           </View>
         </Pressable>
       );
@@ -754,7 +1239,12 @@ export default function ChatScreen({
       colors.subtext,
       editMessage,
       deleteMessage,
+      retryMessage,
+      discardMessage,
+      toggleReaction,
       handleInvitationResponse,
+      onOpenPost,
+      highlightedId,
     ],
   );
 
@@ -949,9 +1439,9 @@ export default function ChatScreen({
                     marginRight: 8,
                   }}
                 />
-              ) : headerAvatarEmoji ? (
+              ) : headerAvatarEmoji || isGroup ? (
                 <Text style={{ fontSize: 16, marginRight: 8 }}>
-                  {headerAvatarEmoji}
+                  {isGroup ? '👥' : headerAvatarEmoji}
                 </Text>
               ) : null}
               <Text
@@ -967,7 +1457,7 @@ export default function ChatScreen({
                       fontWeight: '700',
                     }}
                   >
-                    {headerName || 'チャット'}
+                    {(isGroup ? groupTitle : headerName) || 'チャット'}
                   </Text>
                   {headerVerified && <VerifiedBadge size={16} />}
                 </View>
@@ -1046,9 +1536,9 @@ export default function ChatScreen({
                     marginRight: 8,
                   }}
                 />
-              ) : headerAvatarEmoji ? (
+              ) : headerAvatarEmoji || isGroup ? (
                 <Text style={{ fontSize: 16, marginRight: 8 }}>
-                  {headerAvatarEmoji}
+                  {isGroup ? '👥' : headerAvatarEmoji}
                 </Text>
               ) : null}
               <Text
@@ -1064,13 +1554,108 @@ export default function ChatScreen({
                       fontWeight: '700',
                     }}
                   >
-                    {headerName || 'チャット'}
+                    {(isGroup ? groupTitle : headerName) || 'チャット'}
                   </Text>
                   {headerVerified && <VerifiedBadge size={16} />}
+                  {e2eEnabled && (
+                    <Ionicons
+                      name="lock-closed"
+                      size={14}
+                      color={colors.subtext}
+                      accessibilityLabel="エンドツーエンド暗号化"
+                    />
+                  )}
+                  {!!disappearingSeconds && (
+                    <Pressable
+                      accessibilityRole="button"
+                      accessibilityLabel={`消えるメッセージ: ${formatDisappearingTimer(disappearingSeconds)}`}
+                      onPress={openDisappearingPicker}
+                      hitSlop={8}
+                      style={{ flexDirection: 'row', alignItems: 'center' }}
+                    >
+                      <Ionicons
+                        name="timer-outline"
+                        size={14}
+                        color={colors.subtext}
+                      />
+                      <Text
+                        style={{
+                          color: colors.subtext,
+                          fontSize: 11,
+                          marginLeft: 2,
+                        }}
+                      >
+                        {formatDisappearingTimer(disappearingSeconds)}
+                      </Text>
+                    </Pressable>
+                  )}
                 </View>
               </Text>
             </View>
 
+            {isGroup && canEditDisappearing && !disappearingSeconds && (
+              <Pressable
+                accessibilityRole="button"
+                accessibilityLabel="消えるメッセージを設定"
+                onPress={openDisappearingPicker}
+                style={({ pressed }) => ({
+                  marginLeft: 12,
+                  paddingHorizontal: 10,
+                  paddingVertical: 6,
+                  borderRadius: 999,
+                  backgroundColor: pressed ? '#ffffff20' : '#ffffff14',
+                })}
+              >
+                <Ionicons name="timer-outline" size={16} color={colors.text} />
+              </Pressable>
+            )}
+            {isGroup && (
+              <Pressable
+                accessibilityRole="button"
+                accessibilityLabel="トーク履歴を書き出す"
+                onPress={openExportPicker}
+                style={({ pressed }) => ({
+                  marginLeft: 12,
+                  paddingHorizontal: 10,
+                  paddingVertical: 6,
+                  borderRadius: 999,
+                  backgroundColor: pressed ? '#ffffff20' : '#ffffff14',
+                })}
+              >
+                {exporting ? (
+                  <ActivityIndicator size="small" color={colors.text} />
+                ) : (
+                  <Ionicons
+                    name="share-outline"
+                    size={16}
+                    color={colors.text}
+                  />
+                )}
+              </Pressable>
+            )}
+            {isGroup && (
+              <Pressable
+                accessibilityRole="button"
+                accessibilityLabel="メンバーとグループ設定"
+                onPress={() => setMembersOpen(true)}
+                style={({ pressed }) => ({
+                  marginLeft: 12,
+                  paddingHorizontal: 10,
+                  paddingVertical: 6,
+                  borderRadius: 999,
+                  backgroundColor: pressed ? '#ffffff20' : '#ffffff14',
+                  flexDirection: 'row',
+                  alignItems: 'center',
+                })}
+              >
+                <Ionicons name="people-outline" size={16} color={colors.text} />
+                {!!chat?.member_count && (
+                  <Text style={{ color: colors.text, marginLeft: 4 }}>
+                    {chat.member_count}
+                  </Text>
+                )}
+              </Pressable>
+            )}
             {otherUserId && (
               <Pressable
                 accessibilityRole="button"
@@ -1090,17 +1675,37 @@ export default function ChatScreen({
           </View>
         </View>
 
+        <PinnedMessagesBar
+          pins={pinnedMessages}
+          onPressPin={pin => jumpToMessage(pin.message_id)}
+          onUnpin={pin => togglePin(pin.message_id)}
+        />
+
         {/* メッセージリスト */}
         <FlatList
           ref={flatListRef}
           data={[
-            ...messages.filter((m: any) => !m.deleted_at),
+            ...visibleMessages,
             ...(typingUsers.length > 0
               ? [{ id: 'typing', isTyping: true }]
               : []),
           ]}
           keyExtractor={item => item.id || 'typing'}
           contentContainerStyle={{ padding: 16, paddingBottom: 100 }}
+          onScrollToIndexFailed={info => {
+            // 高さが未計測の行は近くまでスクロールしてから合わせ直す
+            flatListRef.current?.scrollToOffset({
+              offset: info.averageItemLength * info.index,
+              animated: false,
+            });
+            setTimeout(() => {
+              flatListRef.current?.scrollToIndex({
+                index: info.index,
+                animated: true,
+                viewPosition: 0.3,
+              });
+            }, 100);
+          }}
           renderItem={({ item }) =>
             item.isTyping ? renderTypingIndicator() : renderMessage({ item })
           }
@@ -1114,6 +1719,9 @@ export default function ChatScreen({
           }
           onContentSizeChange={() => {
             // Scroll to bottom when new messages are added
+            if (holdAutoScrollRef.current) {
+              return;
+            }
             if (csTimerRef.current) {
               clearTimeout(csTimerRef.current);
             }
@@ -1123,6 +1731,9 @@ export default function ChatScreen({
           }}
           onLayout={() => {
             // Scroll to bottom on initial layout
+            if (holdAutoScrollRef.current) {
+              return;
+            }
             if (layoutTimerRef.current) {
               clearTimeout(layoutTimerRef.current);
             }
@@ -1145,6 +1756,13 @@ export default function ChatScreen({
             borderTopWidth: 1,
           }}
         >
+          {e2eEnabled && (
+            <Text
+              style={{ color: colors.subtext, fontSize: 12, marginBottom: 6 }}
+            >
+              {E2E_ATTACHMENTS_UNAVAILABLE_TEXT}
+            </Text>
+          )}
           <View
             style={{
               backgroundColor: '#ffffff10',
@@ -1156,7 +1774,8 @@ export default function ChatScreen({
           >
             {/* 添付ボタン群 */}
             <Pressable
-              disabled={images.length >= 4}
+              accessibilityLabel="写真を選ぶ"
+              disabled={images.length >= 4 || e2eEnabled}
               onPress={async () => {
                 try {
                   const perm =
@@ -1186,12 +1805,14 @@ export default function ChatScreen({
                 justifyContent: 'center',
                 marginRight: 8,
                 backgroundColor: pressed ? '#ffffff20' : '#ffffff14',
+                opacity: e2eEnabled ? 0.4 : 1,
               })}
             >
               <Ionicons name="images-outline" size={18} color={colors.text} />
             </Pressable>
             <Pressable
-              disabled={images.length >= 4}
+              accessibilityLabel="写真を撮る"
+              disabled={images.length >= 4 || e2eEnabled}
               onPress={async () => {
                 try {
                   const perm =
@@ -1219,6 +1840,7 @@ export default function ChatScreen({
                 justifyContent: 'center',
                 marginRight: 8,
                 backgroundColor: pressed ? '#ffffff20' : '#ffffff14',
+                opacity: e2eEnabled ? 0.4 : 1,
               })}
             >
               <Ionicons name="camera-outline" size={18} color={colors.text} />
@@ -1268,57 +1890,98 @@ export default function ChatScreen({
                 )}
               </View>
             )}
-            <TextInput
-              placeholder="メッセージを入力"
-              placeholderTextColor={colors.subtext}
-              style={{ color: colors.text, height: 44, flex: 1 }}
-              value={inputMessage}
-              onChangeText={handleInputChange}
-              onBlur={handleInputBlur}
-              onSubmitEditing={handleSendMessage}
-              returnKeyType="send"
-              multiline
-              maxLength={1000}
-              editable={!isSending && !chatBlocked}
-            />
-            <Pressable
-              onPress={handleSendMessage}
-              disabled={
-                (!inputMessage.trim() && images.length === 0) ||
-                isSending ||
-                chatBlocked
-              }
-              style={({ pressed }) => ({
-                ...(handPreference === 'left'
-                  ? { marginRight: 8 }
-                  : { marginLeft: 8 }),
-                padding: 8,
-                borderRadius: 20,
-                backgroundColor:
-                  (inputMessage.trim() || images.length > 0) && !isSending
-                    ? colors.pink
-                    : colors.surface,
-                opacity: pressed ? 0.7 : 1,
-              })}
-            >
-              {isSending ? (
-                <Text style={{ color: colors.subtext, fontSize: 14 }}>...</Text>
-              ) : (
-                <Ionicons
-                  name={
-                    inputMessage.trim() || images.length > 0
-                      ? 'send'
-                      : 'send-outline'
-                  }
-                  size={20}
-                  color={
-                    inputMessage.trim() || images.length > 0
-                      ? '#23181D'
-                      : colors.subtext
-                  }
+            {recording ? (
+              <VoiceRecorderBar
+                onCancel={() => setRecording(false)}
+                onSend={handleSendVoice}
+              />
+            ) : (
+              <>
+                <TextInput
+                  placeholder="メッセージを入力"
+                  placeholderTextColor={colors.subtext}
+                  style={{ color: colors.text, height: 44, flex: 1 }}
+                  value={inputMessage}
+                  onChangeText={handleInputChange}
+                  onBlur={handleInputBlur}
+                  onSubmitEditing={handleSendMessage}
+                  returnKeyType="send"
+                  multiline
+                  maxLength={1000}
+                  editable={!isSending && !chatBlocked}
                 />
-              )}
-            </Pressable>
+                {!inputMessage.trim() &&
+                images.length === 0 &&
+                !chatBlocked &&
+                !e2eEnabled ? (
+                  <Pressable
+                    accessibilityRole="button"
+                    accessibilityLabel="ボイスメッセージを録音"
+                    onPress={() => {
+                      Keyboard.dismiss();
+                      setRecording(true);
+                    }}
+                    disabled={isSending}
+                    style={({ pressed }) => ({
+                      ...(handPreference === 'left'
+                        ? { marginRight: 8 }
+                        : { marginLeft: 8 }),
+                      padding: 8,
+                      borderRadius: 20,
+                      backgroundColor: colors.surface,
+                      opacity: pressed ? 0.7 : 1,
+                    })}
+                  >
+                    <Ionicons
+                      name="mic-outline"
+                      size={20}
+                      color={colors.text}
+                    />
+                  </Pressable>
+                ) : (
+                  <Pressable
+                    onPress={handleSendMessage}
+                    disabled={
+                      (!inputMessage.trim() && images.length === 0) ||
+                      isSending ||
+                      chatBlocked
+                    }
+                    style={({ pressed }) => ({
+                      ...(handPreference === 'left'
+                        ? { marginRight: 8 }
+                        : { marginLeft: 8 }),
+                      padding: 8,
+                      borderRadius: 20,
+                      backgroundColor:
+                        (inputMessage.trim() || images.length > 0) && !isSending
+                          ? colors.pink
+                          : colors.surface,
+                      opacity: pressed ? 0.7 : 1,
+                    })}
+                  >
+                    {isSending ? (
+                      <Text style={{ color: colors.subtext, fontSize: 14 }}>
+                        ...
+                      </Text>
+                    ) : (
+                      <Ionicons
+                        name={
+                          inputMessage.trim() || images.length > 0
+                            ? 'send'
+                            : 'send-outline'
+                        }
+                        size={20}
+                        color={
+                          inputMessage.trim() || images.length > 0
+                            ? '#23181D'
+                            : colors.subtext
+                        }
+                      />
+                    )}
+                  </Pressable>
+                )}
+              </>
+            )}
           </View>
         </View>
         {images.length > 0 && (
@@ -1379,6 +2042,85 @@ export default function ChatScreen({
           ) : null}
         </Pressable>
       </Modal>
+      {isGroup && chatId && (
+        <GroupMembersModal
+          chatId={chatId}
+          title={groupTitle || ''}
+          visible={membersOpen}
+          onClose={() => setMembersOpen(false)}
+          onChanged={setGroupTitle}
+          onLeft={() => {
+            if (onBack) {
+              onBack();
+            }
+          }}
+        />
+      )}
+      <MessageActionSheet
+        visible={!!actionTarget}
+        onClose={() => setActionTarget(null)}
+        onReact={emoji => {
+          if (actionTarget) {
+            toggleReaction(actionTarget.id, emoji);
+          }
+        }}
+        actions={[
+          ...(actionTarget
+            ? [
+                {
+                  label: pinnedMessages.some(
+                    p => p.message_id === actionTarget.id
+                  )
+                    ? 'ピン留めを外す'
+                    : 'ピン留め',
+                  onPress: () => togglePin(actionTarget.id),
+                },
+              ]
+            : []),
+          ...(actionForwardable
+            ? [
+                {
+                  label: '転送',
+                  onPress: () => setForwarding(actionForwardable),
+                },
+              ]
+            : []),
+          ...(actionTarget?.isMe
+            ? [
+                {
+                  label: 'メッセージを削除',
+                  destructive: true,
+                  onPress: () => {
+                    const id = actionTarget.id;
+                    Alert.alert(
+                      'メッセージ削除',
+                      'このメッセージを削除しますか？',
+                      [
+                        { text: 'キャンセル', style: 'cancel' },
+                        {
+                          text: '削除',
+                          style: 'destructive',
+                          onPress: () => deleteMessage(id),
+                        },
+                      ]
+                    );
+                  },
+                },
+              ]
+            : []),
+        ]}
+      />
+      <ForwardMessageModal
+        message={forwarding}
+        sourceId={chatId}
+        onClose={() => setForwarding(null)}
+      />
+      <ReactorsSheet
+        scope="dm"
+        messageId={reactorsFor}
+        onClose={() => setReactorsFor(null)}
+        onOpenUser={onNavigateToUser}
+      />
     </KeyboardAvoidingView>
   );
 }
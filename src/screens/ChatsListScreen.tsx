@@ -19,12 +19,14 @@ import { ChatWithParticipants } from '../types/chat';
 import { getSupabaseClient } from '../services/supabaseClient';
 // import { chatService } from '../services/chatService';
 import VerifiedBadge from '../components/VerifiedBadge';
+import CreateGroupChatModal from '../components/CreateGroupChatModal';
 import { useBlockedList } from '../hooks/useBlock';
 
 interface ChatsListScreenProps {
   onOpen?: (chatId: string, userName: string) => void;
   onOpenFollowers?: () => void;
   onOpenAIChat?: () => void;
+  onOpenMessageSearch?: () => void;
   filters?: {
     hasUnread?: boolean;
     chatType?: 'direct' | 'group';
@@ -36,12 +38,14 @@ export default function ChatsListScreen({
   onOpen,
   onOpenFollowers,
   onOpenAIChat,
+  onOpenMessageSearch,
   filters = {},
 }: ChatsListScreenProps) {
   const theme = useTheme();
   const { colors } = theme;
   const { user } = useAuth();
   const { blocked } = useBlockedList();
+  const [creatingGroup, setCreatingGroup] = useState(false);
   // AI FAB icon (fixed)
 
   // 開いたチャットの最終確認時刻を記録（NEWタグ管理用）
@@ -204,9 +208,11 @@ export default function ChatsListScreen({
           p => p.id !== user?.id
         );
         const userName =
-          otherParticipant?.display_name ||
-          otherParticipant?.username ||
-          'ユーザー';
+          chat.chat_type === 'group'
+            ? chat.metadata?.title || 'グループ'
+            : otherParticipant?.display_name ||
+              otherParticipant?.username ||
+              'ユーザー';
         onOpen(chat.id, userName);
       }
     },
@@ -247,10 +253,12 @@ export default function ChatsListScreen({
   const renderChatItem = ({ item }: { item: ChatWithParticipants }) => {
     try {
       const otherParticipant = item.participants?.find(p => p.id !== user?.id);
-      const displayName =
-        otherParticipant?.display_name ||
-        otherParticipant?.username ||
-        'ユーザー';
+      const isGroup = item.chat_type === 'group';
+      const displayName = isGroup
+        ? `${item.metadata?.title || 'グループ'}（${item.member_count ?? 0}）`
+        : otherParticipant?.display_name ||
+          otherParticipant?.username ||
+          'ユーザー';
       const isNew = hasNewMessage(item);
       const lastMessage = getLastMessagePreview(item);
 
@@ -299,7 +307,7 @@ export default function ChatsListScreen({
                 }}
               >
                 <Text style={{ fontSize: isNew ? 18 : 16 }}>
-                  {otherParticipant?.avatar_emoji || '👤'}
+                  {isGroup ? '👥' : otherParticipant?.avatar_emoji || '👤'}
                 </Text>
               </View>
             )}
@@ -498,6 +506,39 @@ export default function ChatsListScreen({
           >
             メッセージ ({chats.length})
           </Text>
+          <View style={{ flex: 1 }} />
+          {onOpenMessageSearch && (
+            <Pressable
+              accessibilityRole="button"
+              accessibilityLabel="メッセージを検索"
+              onPress={onOpenMessageSearch}
+              style={{
+                paddingHorizontal: 10,
+                paddingVertical: 6,
+                borderRadius: 8,
+                backgroundColor: colors.surface,
+                marginRight: 8,
+                transform: [{ translateY: -2 }],
+              }}
+            >
+              <Ionicons name="search-outline" size={18} color={colors.text} />
+            </Pressable>
+          )}
+          <Pressable
+            accessibilityRole="button"
+            accessibilityLabel="グループを作成"
+            onPress={() => setCreatingGroup(true)}
+            style={{
+              paddingHorizontal: 10,
+              paddingVertical: 6,
+              borderRadius: 8,
+              backgroundColor: colors.surface,
+              marginRight: 8,
+              transform: [{ translateY: -2 }],
+            }}
+          >
+            <Ionicons name="people-outline" size={18} color={colors.text} />
+          </Pressable>
           <Pressable
             accessibilityRole="button"
             accessibilityLabel="フォロワー一覧へ"
@@ -558,6 +599,17 @@ export default function ChatsListScreen({
       >
         <Ionicons name="heart-outline" size={26} color="#23181D" />
       </Pressable>
+
+      <CreateGroupChatModal
+        visible={creatingGroup}
+        onClose={() => setCreatingGroup(false)}
+        onCreated={(chatId, title) => {
+          refreshChats();
+          if (onOpen) {
+            onOpen(chatId, title);
+          }
+        }}
+      />
     </View>
   );
 }
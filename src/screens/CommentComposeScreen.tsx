@@ -27,13 +27,18 @@ import { uploadPostImages } from '../services/storageService';
 import { notifyError } from '../utils/notify';
 import { useAuth } from '../contexts/AuthContext';
 import { useHandPreference } from '../contexts/HandPreferenceContext';
+import ContentWarningPicker from '../components/ContentWarningPicker';
+import { ContentWarningCategory } from '../types/post';
 
 export default function CommentComposeScreen({
   postId,
+  replyTo,
   onClose,
   onPosted,
 }: {
   postId: string;
+  // 返信先のコメント（指定時はスレッドへの返信として投稿）
+  replyTo?: { commentId: string; authorName: string } | null;
   onClose?: () => void;
   onPosted?: () => void;
 }) {
@@ -52,6 +57,8 @@ export default function CommentComposeScreen({
   const [body, setBody] = useState('');
   const [submitting, setSubmitting] = useState(false);
   const [images, setImages] = useState<{ uri: string }[]>([]);
+  const [contentWarning, setContentWarning] =
+    useState<ContentWarningCategory | null>(null);
   return (
     <KeyboardAvoidingView
       style={{ flex: 1 }}
@@ -98,7 +105,9 @@ export default function CommentComposeScreen({
                       fontWeight: '700',
                     }}
                   >
-                    コメントを書く
+                    {replyTo
+                      ? `${replyTo.authorName}さんに返信`
+                      : 'コメントを書く'}
                   </Text>
                 </BlurView>
               </View>
@@ -243,6 +252,12 @@ export default function CommentComposeScreen({
                     }}
                     scrollEnabled={true}
                   />
+                  <View style={{ marginTop: 10 }}>
+                    <ContentWarningPicker
+                      value={contentWarning}
+                      onChange={setContentWarning}
+                    />
+                  </View>
                   {/* サムネイル */}
                   {images.length > 0 && (
                     <View
@@ -333,11 +348,18 @@ export default function CommentComposeScreen({
                             images.map(i => i.uri),
                           );
                         }
-                        await createComment(postId, body.trim(), attachments);
+                        await createComment(
+                          postId,
+                          body.trim(),
+                          attachments,
+                          replyTo?.commentId ?? null,
+                          contentWarning
+                        );
                         Keyboard.dismiss();
                         // 入力リセット
                         setBody('');
                         setImages([]);
+                        setContentWarning(null);
                         if (onPosted) {
                           onPosted();
                         } else {
@@ -444,10 +466,17 @@ export default function CommentComposeScreen({
                             images.map(i => i.uri),
                           );
                         }
-                        await createComment(postId, body.trim(), attachments);
+                        await createComment(
+                          postId,
+                          body.trim(),
+                          attachments,
+                          replyTo?.commentId ?? null,
+                          contentWarning
+                        );
                         Keyboard.dismiss();
                         setBody('');
                         setImages([]);
+                        setContentWarning(null);
                         if (onPosted) {
                           onPosted();
                         } else {
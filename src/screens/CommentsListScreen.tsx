@@ -15,8 +15,8 @@ import { SkeletonLine } from '../components/Skeleton';
 import { useTheme } from '../theme/theme';
 import { Comment } from '../types/post';
 import {
-  createComment,
   fetchComments,
+  fetchReplies,
   deleteComment,
 } from '../services/postService';
 import { notifyError } from '../utils/notify';
@@ -25,16 +25,19 @@ import { useHandPreference } from '../contexts/HandPreferenceContext';
 import { getSupabaseClient } from '../services/supabaseClient';
 import ExpandableText from '../components/ExpandableText';
 import VerifiedBadge from '../components/VerifiedBadge';
+import { contentWarningLabel } from '../utils/contentWarnings';
 
 export default function CommentsListScreen({
   postId,
   refreshKey,
   onCompose,
+  onReply,
   onOpenUser,
 }: {
   postId: string;
   refreshKey?: number;
   onCompose?: () => void;
+  onReply?: (comment: Comment) => void;
   onOpenUser?: (userId: string) => void;
 }) {
   const theme = useTheme();
@@ -57,6 +60,72 @@ export default function CommentsListScreen({
   const [loading, setLoading] = useState(false);
   const [refreshing, setRefreshing] = useState(false);
   const endReached = useRef(false);
+  // スレッドごとの返信（開いているスレッドのみ保持）
+  const [threads, setThreads] = useState<
+    Record<
+      string,
+      { items: Comment[]; cursor: string | null; loading: boolean }
+    >
+  >({});
+  const threadsRef = useRef(threads);
+  threadsRef.current = threads;
+  // 警告つきコメントのうち、タップして表示したもの
+  const [revealed, setRevealed] = useState<Record<string, boolean>>({});
+
+  const loadReplies = async (
+    parentId: string,
+    opts?: { refresh?: boolean }
+  ) => {
+    const current = threadsRef.current[parentId];
+    if (current?.loading) {
+      return;
+    }
+    setThreads(prev => ({
+      ...prev,
+      [parentId]: {
+        items: prev[parentId]?.items ?? [],
+        cursor: prev[parentId]?.cursor ?? null,
+        loading: true,
+      },
+    }));
+    try {
+      const res = await fetchReplies(parentId, {
+        after: opts?.refresh ? null : (current?.cursor ?? null),
+      });
+      setThreads(prev => ({
+        ...prev,
+        [parentId]: {
+          items: opts?.refresh
+            ? res.items
+            : [...(prev[parentId]?.items ?? []), ...res.items],
+          cursor: res.nextCursor,
+          loading: false,
+        },
+      }));
+    } catch (e: any) {
+      notifyError(e?.message || '返信の読み込みに失敗しました');
+      setThreads(prev => ({
+        ...prev,
+        [parentId]: {
+          items: prev[parentId]?.items ?? [],
+          cursor: prev[parentId]?.cursor ?? null,
+          loading: false,
+        },
+      }));
+    }
+  };
+
+  const toggleThread = (parentId: string) => {
+    if (threadsRef.current[parentId]) {
+      setThreads(prev => {
+        const next = { ...prev };
+        delete next[parentId];
+        return next;
+      });
+      return;
+    }
+    loadReplies(parentId, { refresh: true });
+  };
 
   const load = async (opts?: { refresh?: boolean }) => {
     if (loading) {
@@ -117,6 +186,13 @@ export default function CommentsListScreen({
               }
               // refetch list to include joined user fields consistently
               load({ refresh: true });
+              // 開いているスレッドへの返信なら返信一覧も取り直す
+              const parentId =
+                payload?.new?.parent_comment_id ??
+                payload?.old?.parent_comment_id;
+              if (parentId && threadsRef.current[parentId]) {
+                loadReplies(parentId, { refresh: true });
+              }
             }
           )
           .subscribe();
@@ -128,6 +204,145 @@ export default function CommentsListScreen({
       } catch {}
     };
   }, [postId]);
+  const renderComment = (item: Comment) => (
+    <View
+      accessible
+      accessibilityRole="summary"
+      accessibilityLabel={`${item.user?.display_name || item.user?.username || '匿名'}のコメント`}
+      style={{
+        borderRadius: theme.radius.lg,
+        overflow: 'hidden',
+        ...theme.shadow.card,
+      }}
+    >
+      <BlurView
+        intensity={30}
+        tint="dark"
+        style={{
+          padding: theme.spacing(1.25),
+          backgroundColor: '#ffffff10',
+        }}
+      >
+        <View
+          style={{
+            flexDirection: 'row',
+            alignItems: 'center',
+            justifyContent: 'space-between',
+            marginBottom: 6,
+          }}
+        >
+          <Pressable
+            accessibilityRole="button"
+            accessibilityLabel={`${item.user?.display_name || item.user?.username || '匿名'}のプロフィールを開く`}
+            onPress={() => {
+              onOpenUser && onOpenUser(item.user_id);
+            }}
+            style={{ flexDirection: 'row', alignItems: 'center' }}
+          >
+            {item.user?.avatar_url ? (
+              <Image
+                source={{ uri: item.user.avatar_url }}
+                style={{
+                  width: 20,
+                  height: 20,
+                  borderRadius: 10,
+                  marginRight: 6,
+                }}
+              />
+            ) : (
+              <Text style={{ fontSize: 14, marginRight: 6 }}>
+                {item.user?.avatar_emoji || '👤'}
+              </Text>
+            )}
+            <View
+              style={{
+                flexDirection: 'row',
+                alignItems: 'center',
+                gap: 6,
+              }}
+            >
+              <Text style={{ color: colors.subtext, fontSize: 12 }}>
+                {item.user?.display_name || item.user?.username || '匿名'}
+              </Text>
+              {item.user?.maternal_verified && <VerifiedBadge size={14} />}
+              <Text style={{ color: colors.subtext, fontSize: 12 }}>
+                ・ {new Date(item.created_at).toLocaleString()}
+              </Text>
+            </View>
+          </Pressable>
+          {item.user_id === user?.id && (
+            <Pressable
+              accessibilityRole="button"
+              accessibilityLabel="コメントを削除"
+              onPress={async () => {
+                try {
+                  await deleteComment(item.id);
+                  setItems(prev => prev.filter(c => c.id !== item.id));
+                  if (item.parent_comment_id) {
+                    loadReplies(item.parent_comment_id, {
+                      refresh: true,
+                    });
+                  }
+                } catch (e: any) {
+                  notifyError(e?.message || 'コメントの削除に失敗しました');
+                }
+              }}
+              style={({ pressed }) => [
+                {
+                  paddingHorizontal: 8,
+                  paddingVertical: 4,
+                  borderRadius: 999,
+                  backgroundColor: colors.surface,
+                  transform: [{ scale: pressed ? 0.97 : 1 }],
+                },
+              ]}
+            >
+              <Text style={{ color: colors.pink }}>🗑</Text>
+            </Pressable>
+          )}
+        </View>
+        {((item.body && item.body !== '[image]') ||
+          (item.content_warning && !revealed[item.id])) && (
+          <ExpandableText
+            text={item.body === '[image]' ? '' : item.body}
+            maxLines={3}
+            textStyle={{ color: colors.text }}
+            contentWarning={contentWarningLabel(item.content_warning)}
+            revealed={!!revealed[item.id]}
+            onReveal={() => setRevealed(prev => ({ ...prev, [item.id]: true }))}
+          />
+        )}
+        {/* Attachments */}
+        {(!item.content_warning || revealed[item.id]) &&
+          Array.isArray(item.attachments) &&
+          item.attachments.length > 0 && (
+            <View style={{ marginTop: 8 }}>
+              <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: 8 }}>
+                {item.attachments.slice(0, 4).map((att: any, idx: number) => (
+                  <Pressable
+                    key={idx}
+                    onPress={() => setViewer({ visible: true, url: att.url })}
+                    style={{
+                      width: '23%',
+                      aspectRatio: 1,
+                      borderRadius: 8,
+                      overflow: 'hidden',
+                      backgroundColor: '#ffffff12',
+                    }}
+                  >
+                    <Image
+                      source={{ uri: att.url }}
+                      style={{ width: '100%', height: '100%' }}
+                    />
+                  </Pressable>
+                ))}
+              </View>
+            </View>
+          )}
+      </BlurView>
+    </View>
+  );
+
   return (
     <Animated.View
       style={{
@@ -171,144 +386,79 @@ export default function CommentsListScreen({
         ItemSeparatorComponent={() => (
           <View style={{ height: theme.spacing(1) }} />
         )}
-        renderItem={({ item }) => (
-          <View
-            accessible
-            accessibilityRole="summary"
-            accessibilityLabel={`${item.user?.display_name || item.user?.username || '匿名'}のコメント`}
-            style={{
-              borderRadius: theme.radius.lg,
-              overflow: 'hidden',
-              ...theme.shadow.card,
-            }}
-          >
-            <BlurView
-              intensity={30}
-              tint="dark"
-              style={{
-                padding: theme.spacing(1.25),
-                backgroundColor: '#ffffff10',
-              }}
-            >
-              <View
-                style={{
-                  flexDirection: 'row',
-                  alignItems: 'center',
-                  justifyContent: 'space-between',
-                  marginBottom: 6,
-                }}
-              >
-                <Pressable
-                  accessibilityRole="button"
-                  accessibilityLabel={`${item.user?.display_name || item.user?.username || '匿名'}のプロフィールを開く`}
-                  onPress={() => {
-                    onOpenUser && onOpenUser(item.user_id);
+        renderItem={({ item }) => {
+          const thread = threads[item.id];
+          const replyCount = item.reply_count ?? 0;
+          return (
+            <View>
+              {renderComment(item)}
+              {(replyCount > 0 || !!onReply) && (
+                <View
+                  style={{
+                    flexDirection: 'row',
+                    gap: 12,
+                    marginTop: 6,
+                    paddingHorizontal: theme.spacing(1.5),
                   }}
-                  style={{ flexDirection: 'row', alignItems: 'center' }}
                 >
-                  {item.user?.avatar_url ? (
-                    <Image
-                      source={{ uri: item.user.avatar_url }}
-                      style={{
-                        width: 20,
-                        height: 20,
-                        borderRadius: 10,
-                        marginRight: 6,
-                      }}
-                    />
-                  ) : (
-                    <Text style={{ fontSize: 14, marginRight: 6 }}>
-                      {item.user?.avatar_emoji || '👤'}
-                    </Text>
-                  )}
-                  <View
-                    style={{
-                      flexDirection: 'row',
-                      alignItems: 'center',
-                      gap: 6,
-                    }}
-                  >
-                    <Text style={{ color: colors.subtext, fontSize: 12 }}>
-                      {item.user?.display_name || item.user?.username || '匿名'}
-                    </Text>
-                    {item.user?.maternal_verified && (
-                      <VerifiedBadge size={14} />
-                    )}
-                    <Text style={{ color: colors.subtext, fontSize: 12 }}>
-                      ・ {new Date(item.created_at).toLocaleString()}
-                    </Text>
-                  </View>
-                </Pressable>
-                {item.user_id === user?.id && (
-                  <Pressable
-                    accessibilityRole="button"
-                    accessibilityLabel="コメントを削除"
-                    onPress={async () => {
-                      try {
-                        await deleteComment(item.id);
-                        setItems(prev => prev.filter(c => c.id !== item.id));
-                      } catch (e: any) {
-                        notifyError(
-                          e?.message || 'コメントの削除に失敗しました'
-                        );
+                  {replyCount > 0 && (
+                    <Pressable
+                      accessibilityRole="button"
+                      accessibilityLabel={
+                        thread ? '返信を閉じる' : `返信${replyCount}件を表示`
                       }
-                    }}
-                    style={({ pressed }) => [
-                      {
-                        paddingHorizontal: 8,
-                        paddingVertical: 4,
-                        borderRadius: 999,
-                        backgroundColor: colors.surface,
-                        transform: [{ scale: pressed ? 0.97 : 1 }],
-                      },
-                    ]}
-                  >
-                    <Text style={{ color: colors.pink }}>🗑</Text>
-                  </Pressable>
-                )}
-              </View>
-              {item.body && item.body !== '[image]' && (
-                <ExpandableText
-                  text={item.body}
-                  maxLines={3}
-                  textStyle={{ color: colors.text }}
-                />
+                      onPress={() => toggleThread(item.id)}
+                      hitSlop={8}
+                    >
+                      <Text style={{ color: colors.pink, fontSize: 12 }}>
+                        {thread ? '返信を閉じる' : `返信${replyCount}件を表示`}
+                      </Text>
+                    </Pressable>
+                  )}
+                  {onReply && (
+                    <Pressable
+                      accessibilityRole="button"
+                      accessibilityLabel="このコメントに返信"
+                      onPress={() => onReply(item)}
+                      hitSlop={8}
+                    >
+                      <Text style={{ color: colors.subtext, fontSize: 12 }}>
+                        ↩︎ 返信する
+                      </Text>
+                    </Pressable>
+                  )}
+                </View>
               )}
-              {/* Attachments */}
-              {Array.isArray(item.attachments) &&
-                item.attachments.length > 0 && (
-                  <View style={{ marginTop: 8 }}>
-                    <View
-                      style={{ flexDirection: 'row', flexWrap: 'wrap', gap: 8 }}
+              {thread && (
+                <View
+                  style={{
+                    marginTop: theme.spacing(1),
+                    marginLeft: theme.spacing(3),
+                    gap: theme.spacing(1),
+                  }}
+                >
+                  {thread.items.map(reply => (
+                    <View key={reply.id}>{renderComment(reply)}</View>
+                  ))}
+                  {thread.loading ? (
+                    <SkeletonLine height={12} width={'60%'} />
+                  ) : thread.cursor ? (
+                    <Pressable
+                      accessibilityRole="button"
+                      accessibilityLabel="さらに返信を表示"
+                      onPress={() => loadReplies(item.id)}
+                      hitSlop={8}
                     >
-                      {item.attachments
-                        .slice(0, 4)
-                        .map((att: any, idx: number) => (
-                          <Pressable
-                            key={idx}
-                            onPress={() =>
-                              setViewer({ visible: true, url: att.url })
-                            }
-                            style={{
-                              width: '23%',
-                              aspectRatio: 1,
-                              borderRadius: 8,
-                              overflow: 'hidden',
-                              backgroundColor: '#ffffff12',
-                            }}
-                          >
-                            <Image
-                              source={{ uri: att.url }}
-                              style={{ width: '100%', height: '100%' }}
-                            />
-                          </Pressable>
-                        ))}
-                    </View>
-                  </View>
-                )}
-            </BlurView>
-          </View>
-        )}
+                      <Text style={{ color: colors.pink, fontSize: 12 }}>
+                        さらに返信を表示
+                      </Text>
+                    </Pressable>
+                  ) : null}
+                </View>
+              )}
+            </View>
+          );
+        }}
         onEndReachedThreshold={0.4}
         onEndReached={onEndReached}
         refreshControl={
@@ -19,6 +19,13 @@ import { Ionicons } from '@expo/vector-icons';
 import { useTheme } from '../theme/theme';
 import { notifyError } from '../utils/notify';
 import { createPost } from '../services/postService';
+import { saveDraft, deleteDraft } from '../services/draftService';
+import {
+  POLL_DURATION_PRESETS,
+  POLL_MAX_OPTIONS,
+  POLL_MIN_OPTIONS,
+  POLL_OPTION_MAX_LENGTH,
+} from '../services/pollService';
 import { triggerCompassionateAiComment } from '../services/aiCommentService';
 import {
   imagesOnlyMediaTypes,
@@ -26,6 +33,29 @@ import {
 } from '../utils/imagePickerCompat';
 import { uploadPostImages } from '../services/storageService';
 import { useAuth } from '../contexts/AuthContext';
+import DraftListModal from '../components/DraftListModal';
+import SchedulePickerModal from '../components/SchedulePickerModal';
+import ContentWarningPicker from '../components/ContentWarningPicker';
+import {
+  Attachment,
+  ContentWarningCategory,
+  PollInput,
+  PostDraft,
+} from '../types/post';
+
+type PollDraft = {
+  options: string[];
+  durationMs: number;
+  allowsMultiple: boolean;
+};
+
+const POLL_DRAFT_UNSUPPORTED_TEXT = '投票つきのポストは下書きに保存できません';
+
+const newPollDraft = (): PollDraft => ({
+  options: Array.from({ length: POLL_MIN_OPTIONS }, () => ''),
+  durationMs: POLL_DURATION_PRESETS[1]?.ms ?? 24 * 60 * 60 * 1000,
+  allowsMultiple: false,
+});
 
 export default function ComposeScreen({
   onClose,
@@ -40,8 +70,19 @@ export default function ComposeScreen({
   const [body, setBody] = useState('');
   const [submitting, setSubmitting] = useState(false);
   const [errorText, setErrorText] = useState<string | null>(null);
-  const [images, setImages] = useState<{ uri: string }[]>([]);
+  // attachment があるものはアップロード済み（下書きから復元した画像）
+  const [images, setImages] = useState<
+    { uri: string; attachment?: Attachment }[]
+  >([]);
+  const [draftId, setDraftId] = useState<string | null>(null);
+  const [draftsOpen, setDraftsOpen] = useState(false);
+  const [scheduleOpen, setScheduleOpen] = useState(false);
+  const [savingDraft, setSavingDraft] = useState(false);
   const [aiCommentLimitReached, setAiCommentLimitReached] = useState(false);
+  // null なら投票なし
+  const [poll, setPoll] = useState<PollDraft | null>(null);
+  const [contentWarning, setContentWarning] =
+    useState<ContentWarningCategory | null>(null);
   const fade = useRef(new Animated.Value(0)).current;
 
   const handleToggleAi = () => {
@@ -55,6 +96,133 @@ export default function ComposeScreen({
     setAiOn(v => !v);
   };
 
+  const hasContent = body.trim().length > 0 || images.length > 0;
+
+  const updatePollOption = (idx: number, text: string) => {
+    setPoll(prev =>
+      prev
+        ? {
+            ...prev,
+            options: prev.options.map((o, i) => (i === idx ? text : o)),
+          }
+        : prev
+    );
+  };
+
+  // 締切は投稿した時点から数える
+  const toPollInput = (draft: PollDraft): PollInput => ({
+    options: draft.options,
+    closes_at: new Date(Date.now() + draft.durationMs).toISOString(),
+    allows_multiple: draft.allowsMultiple,
+  });
+
+  // 未アップロードの画像だけをアップロードし、元の順序で添付を返す
+  const resolveAttachments = async (userId: string): Promise<Attachment[]> => {
+    const pending = images.filter(i => !i.attachment).map(i => i.uri);
+    const uploaded = pending.length
+      ? await uploadPostImages(userId, pending)
+      : [];
+    let cursor = 0;
+    const resolved = images.map(i => i.attachment ?? uploaded[cursor++]);
+    setImages(prev =>
+      prev.map((img, idx) =>
+        resolved[idx] ? { ...img, attachment: resolved[idx] } : img
+      )
+    );
+    return resolved.filter((a): a is Attachment => !!a);
+  };
+
+  const persistDraft = async (scheduledAt: Date | null) => {
+    if (!hasContent || savingDraft) {
+      return false;
+    }
+    // 投票は下書きに保存できない（予約投稿と同じ）
+    if (poll) {
+      notifyError(POLL_DRAFT_UNSUPPORTED_TEXT);
+      return false;
+    }
+    setSavingDraft(true);
+    try {
+      if (!user?.id) {
+        throw new Error('ログインが必要です');
+      }
+      const attachments = await resolveAttachments(user.id);
+      const saved = await saveDraft({
+        id: draftId,
+        body,
+        attachments,
+        contentWarning,
+        scheduledAt,
+      });
+      setDraftId(saved.id);
+      return true;
+    } catch (e: any) {
+      notifyError(e?.message || '下書きの保存に失敗しました');
+      return false;
+    } finally {
+      setSavingDraft(false);
+    }
+  };
+
+  const handleClose = () => {
+    if (!hasContent) {
+      onClose?.();
+      return;
+    }
+    Alert.alert(
+      poll ? '投稿を破棄しますか？' : '下書きに保存しますか？',
+      poll ? POLL_DRAFT_UNSUPPORTED_TEXT : undefined,
+      [
+        { text: 'キャンセル', style: 'cancel' },
+        {
+          text: '破棄',
+          style: 'destructive',
+          onPress: () => onClose?.(),
+        },
+        ...(poll
+          ? []
+          : [
+              {
+                text: '保存',
+                onPress: async () => {
+                  if (await persistDraft(null)) {
+                    onClose?.();
+                  }
+                },
+              },
+            ]),
+      ]
+    );
+  };
+
+  const handleSchedule = () => {
+    if (!hasContent) {
+      return;
+    }
+    setScheduleOpen(true);
+  };
+
+  // 日時は SchedulePickerModal が validateScheduleTime で確かめてから渡す（保存時にも再確認される）
+  const handleConfirmSchedule = async (date: Date) => {
+    if (await persistDraft(date)) {
+      setScheduleOpen(false);
+      Alert.alert(
+        '予約しました',
+        `${date.toLocaleString()} に投稿されます。下書き一覧から変更できます。`
+      );
+      onClose?.();
+    }
+  };
+
+  const handleSelectDraft = (draft: PostDraft) => {
+    setDraftsOpen(false);
+    setBody(draft.body === '[image]' ? '' : draft.body);
+    setImages(draft.attachments.map(a => ({ uri: a.url, attachment: a })));
+    setContentWarning(draft.content_warning);
+    setDraftId(draft.id);
+    setErrorText(null);
+  };
+
   useEffect(() => {
     Animated.timing(fade, {
       toValue: 1,
@@ -90,10 +258,11 @@ export default function ComposeScreen({
               marginBottom: 12,
               flexDirection: 'row',
               alignItems: 'center',
+              justifyContent: 'space-between',
             }}
           >
             <Pressable
-              onPress={onClose}
+              onPress={handleClose}
               style={({ pressed }) => [
                 {
                   width: 36,
@@ -108,6 +277,47 @@ export default function ComposeScreen({
             >
               <Ionicons name="chevron-back" size={20} color={colors.text} />
             </Pressable>
+            <View style={{ flexDirection: 'row', gap: 8 }}>
+              <Pressable
+                accessibilityRole="button"
+                accessibilityLabel="下書き一覧"
+                onPress={() => setDraftsOpen(true)}
+                style={({ pressed }) => ({
+                  paddingHorizontal: 12,
+                  paddingVertical: 8,
+                  borderRadius: 999,
+                  backgroundColor: pressed ? '#ffffff20' : '#ffffff14',
+                })}
+              >
+                <Text style={{ color: colors.subtext, fontSize: 12 }}>
+                  下書き
+                </Text>
+              </Pressable>
+              <Pressable
+                accessibilityRole="button"
+                accessibilityLabel="下書きに保存"
+                disabled={!hasContent || savingDraft || !!poll}
+                onPress={async () => {
+                  if (await persistDraft(null)) {
+                    await Haptics.notificationAsync(
+                      Haptics.NotificationFeedbackType.Success
+                    );
+                    Alert.alert('下書きに保存しました');
+                  }
+                }}
+                style={({ pressed }) => ({
+                  paddingHorizontal: 12,
+                  paddingVertical: 8,
+                  borderRadius: 999,
+                  opacity: !hasContent || savingDraft || poll ? 0.5 : 1,
+                  backgroundColor: pressed ? '#ffffff20' : '#ffffff14',
+                })}
+              >
+                <Text style={{ color: colors.text, fontSize: 12 }}>
+                  {savingDraft ? '保存中…' : '保存'}
+                </Text>
+              </Pressable>
+            </View>
           </View>
           <View style={{ borderRadius: 16, overflow: 'hidden' }}>
             <BlurView
@@ -234,6 +444,37 @@ export default function ComposeScreen({
                     color={colors.text}
                   />
                 </Pressable>
+                {/* 投票ボタン */}
+                <Pressable
+                  accessibilityRole="button"
+                  accessibilityLabel={poll ? '投票を削除' : '投票を追加'}
+                  accessibilityState={{ selected: !!poll }}
+                  onPress={() =>
+                    setPoll(prev => (prev ? null : newPollDraft()))
+                  }
+                  style={({ pressed }) => ({
+                    width: 36,
+                    height: 36,
+                    borderRadius: 18,
+                    alignItems: 'center',
+                    justifyContent: 'center',
+                    marginRight: 8,
+                    backgroundColor: poll
+                      ? colors.pink + '33'
+                      : pressed
+                        ? '#ffffff20'
+                        : '#ffffff14',
+                    borderWidth: 1,
+                    borderColor: poll ? colors.pink : '#ffffff22',
+                    transform: [{ scale: pressed ? 0.96 : 1 }],
+                  })}
+                >
+                  <Ionicons
+                    name="stats-chart-outline"
+                    size={18}
+                    color={colors.text}
+                  />
+                </Pressable>
                 <View
                   style={{
                     paddingHorizontal: 10,
@@ -308,6 +549,158 @@ export default function ComposeScreen({
                 }}
                 scrollEnabled={true}
               />
+              {/* 投票の編集 */}
+              {poll && (
+                <View style={{ marginTop: 12, gap: 8 }}>
+                  {poll.options.map((opt, idx) => (
+                    <View
+                      key={idx}
+                      style={{
+                        flexDirection: 'row',
+                        alignItems: 'center',
+                        gap: 8,
+                      }}
+                    >
+                      <TextInput
+                        placeholder={`選択肢${idx + 1}`}
+                        placeholderTextColor={colors.subtext}
+                        value={opt}
+                        onChangeText={t => updatePollOption(idx, t)}
+                        maxLength={POLL_OPTION_MAX_LENGTH}
+                        style={{
+                          flex: 1,
+                          color: colors.text,
+                          fontSize: 15,
+                          paddingHorizontal: 12,
+                          paddingVertical: 8,
+                          borderRadius: 10,
+                          borderWidth: 1,
+                          borderColor: '#ffffff22',
+                        }}
+                      />
+                      {poll.options.length > POLL_MIN_OPTIONS && (
+                        <Pressable
+                          accessibilityRole="button"
+                          accessibilityLabel={`選択肢${idx + 1}を削除`}
+                          onPress={() =>
+                            setPoll(prev =>
+                              prev
+                                ? {
+                                    ...prev,
+                                    options: prev.options.filter(
+                                      (_, i) => i !== idx
+                                    ),
+                                  }
+                                : prev
+                            )
+                          }
+                          hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+                        >
+                          <Ionicons
+                            name="close-circle-outline"
+                            size={20}
+                            color={colors.subtext}
+                          />
+                        </Pressable>
+                      )}
+                    </View>
+                  ))}
+                  {poll.options.length < POLL_MAX_OPTIONS && (
+                    <Pressable
+                      accessibilityRole="button"
+                      accessibilityLabel="選択肢を追加"
+                      onPress={() =>
+                        setPoll(prev =>
+                          prev
+                            ? { ...prev, options: [...prev.options, ''] }
+                            : prev
+                        )
+                      }
+                    >
+                      <Text style={{ color: colors.pink, fontSize: 13 }}>
+                        ＋ 選択肢を追加
+                      </Text>
+                    </Pressable>
+                  )}
+                  <View
+                    style={{ flexDirection: 'row', flexWrap: 'wrap', gap: 6 }}
+                  >
+                    {POLL_DURATION_PRESETS.map(p => {
+                      const selected = poll.durationMs === p.ms;
+                      return (
+                        <Pressable
+                          key={p.label}
+                          accessibilityRole="button"
+                          accessibilityLabel={`締切 ${p.label}`}
+                          accessibilityState={{ selected }}
+                          onPress={() =>
+                            setPoll(prev =>
+                              prev ? { ...prev, durationMs: p.ms } : prev
+                            )
+                          }
+                          style={{
+                            paddingHorizontal: 10,
+                            paddingVertical: 4,
+                            borderRadius: 999,
+                            backgroundColor: selected
+                              ? colors.pink
+                              : '#ffffff14',
+                          }}
+                        >
+                          <Text
+                            style={{
+                              color: selected ? '#23181D' : colors.subtext,
+                              fontSize: 12,
+                            }}
+                          >
+                            {p.label}
+                          </Text>
+                        </Pressable>
+                      );
+                    })}
+                    <Pressable
+                      accessibilityRole="checkbox"
+                      accessibilityLabel="複数選択を許可"
+                      accessibilityState={{ checked: poll.allowsMultiple }}
+                      onPress={() =>
+                        setPoll(prev =>
+                          prev
+                            ? { ...prev, allowsMultiple: !prev.allowsMultiple }
+                            : prev
+                        )
+                      }
+                      style={{
+                        paddingHorizontal: 10,
+                        paddingVertical: 4,
+                        borderRadius: 999,
+                        backgroundColor: poll.allowsMultiple
+                          ? colors.pink
+                          : '#ffffff14',
+                      }}
+                    >
+                      <Text
+                        style={{
+                          color: poll.allowsMultiple
+                            ? '#23181D'
+                            : colors.subtext,
+                          fontSize: 12,
+                        }}
+                      >
+                        複数選択
+                      </Text>
+                    </Pressable>
+                  </View>
+                  <Text style={{ color: colors.subtext, fontSize: 11 }}>
+                    ※投票は下書き・予約投稿には保存されません
+                  </Text>
+                </View>
+              )}
+              <View style={{ marginTop: 12 }}>
+                <ContentWarningPicker
+                  value={contentWarning}
+                  onChange={setContentWarning}
+                />
+              </View>
               {/* サムネイルプレビュー */}
               {images.length > 0 && (
                 <View style={{ marginTop: 12, gap: 8 }}>
@@ -368,19 +761,17 @@ export default function ComposeScreen({
                 if (!user?.id) {
                   throw new Error('ログインが必要です');
                 }
-                let attachments: {
-                  url: string;
-                  width?: number;
-                  height?: number;
-                  mime?: string;
-                }[] = [];
-                if (images.length > 0) {
-                  attachments = await uploadPostImages(
-                    user.id,
-                    images.map(i => i.uri)
-                  );
+                const attachments = await resolveAttachments(user.id);
+                const created = await createPost(
+                  body.trim(),
+                  attachments,
+                  poll ? toPollInput(poll) : null,
+                  contentWarning
+                );
+                if (draftId) {
+                  // 下書きから投稿した場合は下書きを片付ける（ベストエフォート）
+                  deleteDraft(draftId).catch(() => {});
                 }
-                const created = await createPost(body.trim(), attachments);
                 if (aiOn && created?.id) {
                   // Fire-and-forget; do not block UX
                   const bodyForAi =
@@ -436,12 +827,47 @@ export default function ComposeScreen({
             </Text>
           </Pressable>
 
+          <Pressable
+            accessibilityRole="button"
+            accessibilityLabel="予約投稿"
+            disabled={submitting || savingDraft || !hasContent || !!poll}
+            onPress={handleSchedule}
+            style={({ pressed }) => [
+              {
+                marginTop: 10,
+                borderRadius: 14,
+                paddingVertical: 12,
+                alignItems: 'center',
+                borderWidth: 1,
+                borderColor: colors.pink,
+                opacity:
+                  submitting || savingDraft || !hasContent || poll ? 0.5 : 1,
+                transform: [{ scale: pressed ? 0.97 : 1 }],
+              },
+            ]}
+          >
+            <Text style={{ color: colors.pink, fontWeight: '700' }}>
+              ⏰ 予約して投稿
+            </Text>
+          </Pressable>
+
           {errorText && (
             <View style={{ marginTop: 10 }}>
               <Text style={{ color: '#ff8a8a' }}>{errorText}</Text>
             </View>
           )}
         </ScrollView>
+        <DraftListModal
+          visible={draftsOpen}
+          onClose={() => setDraftsOpen(false)}
+          onSelect={handleSelectDraft}
+        />
+        <SchedulePickerModal
+          visible={scheduleOpen}
+          busy={savingDraft}
+          onClose={() => setScheduleOpen(false)}
+          onConfirm={handleConfirmSchedule}
+        />
       </Animated.View>
     </KeyboardAvoidingView>
   );
@@ -12,15 +12,21 @@ import { useSafeAreaInsets } from 'react-native-safe-area-context';
 
 import { useTheme } from '../theme/theme';
 import PostCard from '../components/PostCard';
-import { PostWithMeta } from '../types/post';
+import { PostWithMeta, ReactionKind } from '../types/post';
 import CustomActivityIndicator from '../components/CustomActivityIndicator';
 import {
   fetchHomeFeed,
   fetchHomeFeedFiltered,
-  toggleReaction,
+  setReaction,
 } from '../services/postService';
 import { getSupabaseClient } from '../services/supabaseClient';
 import { notifyError } from '../utils/notify';
+import {
+  adjustReactionCount,
+  applyMyReaction,
+  isReactionKind,
+  nextReactionFor,
+} from '../utils/postReactions';
 import { useAuth } from '../contexts/AuthContext';
 import { useHandPreference } from '../contexts/HandPreferenceContext';
 import { useBlockedList } from '../hooks/useBlock';
@@ -56,20 +62,17 @@ export default function HomeScreen({
   const [items, setItems] = useState<PostWithMeta[]>([]);
   const { blocked } = useBlockedList();
   const { isAdFree } = useSubscription();
-  const filteredItems = useMemo(
-    () => {
-      let result = items.filter(i => !blocked.includes(i.user_id));
-      // プレミアムユーザーは広告を非表示
-      if (isAdFree) {
-        result = result.filter(i => !i.is_ad);
-      }
-      return result;
-    },
-    [items, blocked, isAdFree]
-  );
+  const filteredItems = useMemo(() => {
+    let result = items.filter(i => !blocked.includes(i.user_id));
+    // プレミアムユーザーは広告を非表示
+    if (isAdFree) {
+      result = result.filter(i => !i.is_ad);
+    }
+    return result;
+  }, [items, blocked, isAdFree]);
   const [cursor, setCursor] = useState<string | null>(null);
   const [useFiltered, setUseFiltered] = useState<boolean>(
-    appConfig.useFilteredViews,
+    appConfig.useFilteredViews
   );
   const [loading, setLoading] = useState(false);
   const [refreshing, setRefreshing] = useState(false);
@@ -86,12 +89,12 @@ export default function HomeScreen({
       try {
         const v = await getFeatureFlag(
           'useFilteredViews',
-          appConfig.useFilteredViews,
+          appConfig.useFilteredViews
         );
         if (mounted) {
           setUseFiltered(v);
         }
-      } catch { }
+      } catch {}
     })();
     return () => {
       mounted = false;
@@ -154,6 +157,8 @@ export default function HomeScreen({
   // Realtime updates for reactions and comments counts
   useEffect(() => {
     let channel: any;
+    // 自分のリアクションは handleReact で反映済みなので、realtime では数えない
+    const isMine = (row: any) => !!user?.id && row?.user_id === user.id;
     (async () => {
       try {
         const client = getSupabaseClient();
@@ -171,13 +176,13 @@ export default function HomeScreen({
                 prev.map(p =>
                   p.id === postId
                     ? {
-                      ...p,
-                      comment_summary: {
-                        count: (p.comment_summary.count || 0) + 1,
-                      },
-                    }
+                        ...p,
+                        comment_summary: {
+                          count: (p.comment_summary.count || 0) + 1,
+                        },
+                      }
                     : p
-                ),
+                )
               );
             }
           )
@@ -193,16 +198,16 @@ export default function HomeScreen({
                 prev.map(p =>
                   p.id === postId
                     ? {
-                      ...p,
-                      comment_summary: {
-                        count: Math.max(
-                          0,
-                          (p.comment_summary.count || 0) - 1
-                        ),
-                      },
-                    }
+                        ...p,
+                        comment_summary: {
+                          count: Math.max(
+                            0,
+                            (p.comment_summary.count || 0) - 1
+                          ),
+                        },
+                      }
                     : p
-                ),
+                )
               );
             }
           )
@@ -211,24 +216,58 @@ export default function HomeScreen({
             { event: 'INSERT', schema: 'public', table: 'post_reactions' },
             (payload: any) => {
               const postId = payload?.new?.post_id;
-              if (!postId) {
+              if (!postId || isMine(payload?.new)) {
                 return;
               }
+              const kind = isReactionKind(payload?.new?.kind)
+                ? payload.new.kind
+                : null;
               setItems(prev =>
                 prev.map(p =>
                   p.id === postId
                     ? {
-                      ...p,
-                      reaction_summary: (() => {
-                        const base = p.reaction_summary || {
-                          reactedByMe: false,
-                          count: 0,
-                        };
-                        return { ...base, count: (base.count || 0) + 1 };
-                      })(),
-                    }
+                        ...p,
+                        reaction_summary: adjustReactionCount(
+                          p.reaction_summary,
+                          kind,
+                          +1
+                        ),
+                      }
                     : p
-                ),
+                )
+              );
+            }
+          )
+          .on(
+            'postgres_changes',
+            { event: 'UPDATE', schema: 'public', table: 'post_reactions' },
+            (payload: any) => {
+              // リアクションの種類の切り替え（件数の合計は変わらない）
+              const postId = payload?.new?.post_id;
+              const from = payload?.old?.kind;
+              const to = payload?.new?.kind;
+              if (
+                !postId ||
+                isMine(payload?.new) ||
+                !isReactionKind(from) ||
+                !isReactionKind(to) ||
+                from === to
+              ) {
+                return;
+              }
+              setItems(prev =>
+                prev.map(p =>
+                  p.id === postId
+                    ? {
+                        ...p,
+                        reaction_summary: adjustReactionCount(
+                          adjustReactionCount(p.reaction_summary, from, -1),
+                          to,
+                          +1
+                        ),
+                      }
+                    : p
+                )
               );
             }
           )
@@ -237,39 +276,37 @@ export default function HomeScreen({
             { event: 'DELETE', schema: 'public', table: 'post_reactions' },
             (payload: any) => {
               const postId = payload?.old?.post_id;
-              if (!postId) {
+              if (!postId || isMine(payload?.old)) {
                 return;
               }
+              const kind = isReactionKind(payload?.old?.kind)
+                ? payload.old.kind
+                : null;
               setItems(prev =>
                 prev.map(p =>
                   p.id === postId
                     ? {
-                      ...p,
-                      reaction_summary: (() => {
-                        const base = p.reaction_summary || {
-                          reactedByMe: false,
-                          count: 0,
-                        };
-                        return {
-                          ...base,
-                          count: Math.max(0, (base.count || 0) - 1),
-                        };
-                      })(),
-                    }
+                        ...p,
+                        reaction_summary: adjustReactionCount(
+                          p.reaction_summary,
+                          kind,
+                          -1
+                        ),
+                      }
                     : p
-                ),
+                )
               );
             }
           )
           .subscribe();
-      } catch { }
+      } catch {}
     })();
     return () => {
       try {
         channel && getSupabaseClient().removeChannel(channel);
-      } catch { }
+      } catch {}
     };
-  }, []);
+  }, [user?.id]);
 
   const onEndReached = () => {
     if (endReached.current || loading || !cursor) {
@@ -287,44 +324,35 @@ export default function HomeScreen({
     setRefreshing(false);
   };
 
-  const handleToggleLike = async (postId: string, current: boolean) => {
+  const handleReact = async (postId: string, tapped: ReactionKind) => {
+    const target = items.find(p => p.id === postId);
+    if (!target) {
+      return;
+    }
+    const previous = target.reaction_summary;
+    const next = nextReactionFor(previous, tapped);
     // optimistic update
     setItems(prev =>
-      prev.map(p => {
-        if (p.id !== postId) {
-          return p;
-        }
-        const base = p.reaction_summary || { reactedByMe: false, count: 0 };
-        return {
-          ...p,
-          reaction_summary: {
-            reactedByMe: !current,
-            count: (base.count || 0) + (current ? -1 : +1),
-          },
-        };
-      })
+      prev.map(p =>
+        p.id === postId
+          ? {
+              ...p,
+              reaction_summary: applyMyReaction(p.reaction_summary, next),
+            }
+          : p
+      )
     );
     try {
       if (!user?.id) {
         throw new Error('not logged in');
       }
-      await toggleReaction(postId, current);
+      await setReaction(postId, next);
     } catch (e) {
       // rollback on error
       setItems(prev =>
-        prev.map(p => {
-          if (p.id !== postId) {
-            return p;
-          }
-          const base = p.reaction_summary || { reactedByMe: false, count: 0 };
-          return {
-            ...p,
-            reaction_summary: {
-              reactedByMe: current,
-              count: (base.count || 0) + (current ? +1 : -1),
-            },
-          };
-        })
+        prev.map(p =>
+          p.id === postId ? { ...p, reaction_summary: previous } : p
+        )
       );
       notifyError('操作に失敗しました。時間をおいて再度お試しください');
     }
@@ -393,7 +421,7 @@ export default function HomeScreen({
             isOwner={item.user_id === user?.id}
             commentDelta={commentDeltas?.[item.id] || 0}
             onOpenComments={id => onOpenPost && onOpenPost(id)}
-            onToggleLike={handleToggleLike}
+            onReact={handleReact}
             onOpenUser={uid => onOpenUser && onOpenUser(uid)}
           />
         )}
@@ -409,7 +437,9 @@ export default function HomeScreen({
         ListEmptyComponent={
           !loading ? (
             <View style={{ alignItems: 'center', paddingTop: 80 }}>
-              <Text style={{ color: colors.subtext }}>まだポストがありません</Text>
+              <Text style={{ color: colors.subtext }}>
+                まだポストがありません
+              </Text>
             </View>
           ) : (
             <View
@@ -425,15 +455,13 @@ export default function HomeScreen({
         }
       />
       <Animated.View
-        style={[
-          {
-            position: 'absolute',
-            ...(handPreference === 'left' ? { left: 20 } : { right: 20 }),
-            bottom: (insets.bottom || 0) + 56 + 16,
-            zIndex: 100,
-            transform: [{ scale: fabScale }],
-          },
-        ]}
+        style={{
+          position: 'absolute',
+          ...(handPreference === 'left' ? { left: 20 } : { right: 20 }),
+          bottom: (insets.bottom || 0) + 56 + 16,
+          zIndex: 100,
+          transform: [{ scale: fabScale }],
+        }}
       >
         <Pressable
           accessibilityRole="button"
@@ -11,9 +11,10 @@ import { useEffect, useRef, useState } from 'react';
 
 import { useTheme } from '../theme/theme';
 import PostCard from '../components/PostCard';
-import { PostWithMeta } from '../types/post';
-import { fetchLikedPosts, toggleReaction } from '../services/postService';
+import { PostWithMeta, ReactionKind } from '../types/post';
+import { fetchLikedPosts, setReaction } from '../services/postService';
 import { notifyError } from '../utils/notify';
+import { applyMyReaction, nextReactionFor } from '../utils/postReactions';
 import { useAuth } from '../contexts/AuthContext';
 
 export default function LikedPostsListScreen({
@@ -78,9 +79,14 @@ export default function LikedPostsListScreen({
     setRefreshing(false);
   };
 
-  const handleToggleLike = async (postId: string, current: boolean) => {
+  const handleReact = async (postId: string, tapped: ReactionKind) => {
+    const target = items.find(p => p.id === postId);
+    if (!target) {
+      return;
+    }
+    const next = nextReactionFor(target.reaction_summary, tapped);
     // optimistic update + if un-like, remove from list
-    if (current) {
+    if (next === null) {
       setItems(prev => prev.filter(p => p.id !== postId));
     } else {
       setItems(prev =>
@@ -88,10 +94,7 @@ export default function LikedPostsListScreen({
           p.id === postId
             ? {
                 ...p,
-                reaction_summary: {
-                  reactedByMe: true,
-                  count: p.reaction_summary.count + 1,
-                },
+                reaction_summary: applyMyReaction(p.reaction_summary, next),
               }
             : p
         ),
@@ -99,7 +102,7 @@ export default function LikedPostsListScreen({
     }
     try {
       if (user?.id) {
-        await toggleReaction(postId, current);
+        await setReaction(postId, next);
       }
     } catch (e) {
       notifyError('操作に失敗しました。時間をおいて再度お試しください');
@@ -142,7 +145,7 @@ export default function LikedPostsListScreen({
               post={item}
               commentDelta={commentDeltas?.[item.id] || 0}
               onOpenComments={id => onOpen && onOpen(id)}
-              onToggleLike={handleToggleLike}
+              onReact={handleReact}
             />
           </Pressable>
         )}
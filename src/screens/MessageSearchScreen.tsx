@@ -0,0 +1,526 @@
+import { useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  TextInput,
+  Text,
+  FlatList,
+  Modal,
+  KeyboardAvoidingView,
+  Platform,
+  ActivityIndicator,
+  Pressable,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+
+import { useTheme } from '../theme/theme';
+import { useMessageSearch } from '../hooks/useMessageSearch';
+import chatService from '../services/chatService';
+import { RoomService } from '../services/roomService';
+import { SEARCH_PERIOD_OPTIONS } from '../services/searchService';
+import type {
+  MessageSearchScope,
+  SearchMessageItem,
+  SearchPeriod,
+} from '../services/searchService';
+import { highlightSegments, messageSnippet } from '../utils/searchHighlight';
+
+type FilterOption = {
+  id: string;
+  label: string;
+  // トークの絞り込みのときだけ。選ぶと検索範囲もそちらに揃える
+  scope?: MessageSearchScope;
+};
+
+/** 画面を離れて戻ったときに検索条件を復元するための状態 */
+export type MessageSearchState = {
+  query: string;
+  scope: MessageSearchScope | null;
+  period: SearchPeriod;
+  chat: FilterOption | null;
+  sender: FilterOption | null;
+};
+
+export const INITIAL_MESSAGE_SEARCH_STATE: MessageSearchState = {
+  query: '',
+  scope: null,
+  period: 'all',
+  chat: null,
+  sender: null,
+};
+
+const SCOPE_OPTIONS: { value: MessageSearchScope | null; label: string }[] = [
+  { value: null, label: 'すべて' },
+  { value: 'dm', label: 'メッセージ' },
+  { value: 'channel', label: 'スペース' },
+];
+
+export default function MessageSearchScreen({
+  state = INITIAL_MESSAGE_SEARCH_STATE,
+  onChangeState,
+  onBack,
+  onOpenMessage,
+}: {
+  state?: MessageSearchState;
+  onChangeState?: (state: MessageSearchState) => void;
+  onBack?: () => void;
+  onOpenMessage?: (item: SearchMessageItem) => void;
+}) {
+  const { colors, radius } = useTheme();
+  const [search, setSearch] = useState<MessageSearchState>(state);
+  const [picker, setPicker] = useState<'chat' | 'sender' | null>(null);
+  const [chatOptions, setChatOptions] = useState<FilterOption[]>([]);
+  const [people, setPeople] = useState<FilterOption[]>([]);
+  const { status, items, error, loadMore, hasMore, loadingMore } =
+    useMessageSearch(search.query, {
+      scope: search.scope,
+      containerId: search.chat?.id ?? null,
+      senderId: search.sender?.id ?? null,
+      period: search.period,
+    });
+
+  const update = (patch: Partial<MessageSearchState>) => {
+    const next = { ...search, ...patch };
+    setSearch(next);
+    onChangeState?.(next);
+  };
+
+  // 絞り込みの候補は転送先と同じく、参加中のトークとチャンネル
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      const [chatRes, spaceRes] = await Promise.all([
+        chatService.getChats(),
+        RoomService.getUserSpaces(),
+      ]);
+      if (cancelled) {
+        return;
+      }
+      const chats = chatRes.success ? (chatRes.data?.chats ?? []) : [];
+      const channels = spaceRes.success ? (spaceRes.data ?? []) : [];
+      setChatOptions([
+        ...chats.map(c => {
+          const other = c.participants[0];
+          return {
+            id: c.id,
+            scope: 'dm' as const,
+            label:
+              c.chat_type === 'group'
+                ? `👥 ${c.metadata?.title || 'グループ'}`
+                : `${other?.avatar_emoji || '👤'} ${
+                    other?.display_name || other?.username || '匿名'
+                  }`,
+          };
+        }),
+        ...channels.map(ch => ({
+          id: ch.id,
+          scope: 'channel' as const,
+          label: `${ch.space?.name || ch.name} #${ch.name}`,
+        })),
+      ]);
+      const seen = new Set<string>();
+      const participants: FilterOption[] = [];
+      for (const c of chats) {
+        for (const p of c.participants) {
+          if (!seen.has(p.id)) {
+            seen.add(p.id);
+            participants.push({
+              id: p.id,
+              label: `${p.avatar_emoji || '👤'} ${
+                p.display_name || p.username || '匿名'
+              }`,
+            });
+          }
+        }
+      }
+      setPeople(participants);
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // スペースでしか話していない相手も、結果に出てきたら送信者で絞れるようにする
+  const senderOptions = useMemo(() => {
+    const known = new Set(people.map(p => p.id));
+    const fromResults: FilterOption[] = [];
+    for (const it of items) {
+      if (!known.has(it.sender.id)) {
+        known.add(it.sender.id);
+        fromResults.push({
+          id: it.sender.id,
+          label: `${it.sender.avatarEmoji || '👤'} ${
+            it.sender.displayName || it.sender.username || '匿名'
+          }`,
+        });
+      }
+    }
+    return [...people, ...fromResults];
+  }, [people, items]);
+
+  const pickerOptions = picker === 'chat' ? chatOptions : senderOptions;
+
+  return (
+    <KeyboardAvoidingView
+      behavior={Platform.select({ ios: 'padding', android: undefined })}
+      style={{ flex: 1 }}
+    >
+      <SafeAreaView
+        style={{ flex: 1, backgroundColor: colors.bg }}
+        edges={['top'] as any}
+      >
+        <View
+          style={{
+            flex: 1,
+            paddingTop: 8,
+            paddingHorizontal: 16,
+            paddingBottom: 8,
+          }}
+        >
+          <View
+            style={{
+              flexDirection: 'row',
+              alignItems: 'center',
+              marginBottom: 12,
+            }}
+          >
+            <TextInput
+              placeholder="メッセージを検索"
+              placeholderTextColor={colors.subtext}
+              value={search.query}
+              onChangeText={query => update({ query })}
+              autoCapitalize="none"
+              autoCorrect={false}
+              autoFocus={!search.query}
+              accessibilityLabel="メッセージ検索入力"
+              style={{
+                flex: 1,
+                height: 44,
+                paddingHorizontal: 12,
+                borderRadius: radius.md,
+                backgroundColor: colors.card,
+                color: colors.text,
+                borderColor: '#22252B',
+                borderWidth: 1,
+              }}
+            />
+            {onBack && (
+              <Pressable
+                accessibilityRole="button"
+                onPress={onBack}
+                style={{
+                  marginLeft: 8,
+                  paddingHorizontal: 12,
+                  paddingVertical: 6,
+                  backgroundColor: colors.surface,
+                  borderRadius: 999,
+                }}
+              >
+                <Text style={{ color: colors.text, fontWeight: '700' }}>
+                  戻る
+                </Text>
+              </Pressable>
+            )}
+          </View>
+          <View
+            style={{
+              flexDirection: 'row',
+              flexWrap: 'wrap',
+              alignItems: 'center',
+            }}
+          >
+            {SCOPE_OPTIONS.map(opt => (
+              <FilterChip
+                key={opt.label}
+                label={opt.label}
+                active={search.scope === opt.value}
+                onPress={() =>
+                  update({
+                    scope: opt.value,
+                    // 範囲と合わないトークの絞り込みは外す
+                    chat:
+                      search.chat &&
+                      opt.value &&
+                      search.chat.scope !== opt.value
+                        ? null
+                        : search.chat,
+                  })
+                }
+              />
+            ))}
+          </View>
+          <View
+            style={{
+              flexDirection: 'row',
+              flexWrap: 'wrap',
+              alignItems: 'center',
+              marginBottom: 8,
+            }}
+          >
+            {SEARCH_PERIOD_OPTIONS.map(opt => (
+              <FilterChip
+                key={opt.value}
+                label={opt.label}
+                active={search.period === opt.value}
+                onPress={() => update({ period: opt.value })}
+              />
+            ))}
+            <FilterChip
+              label={search.chat ? search.chat.label : 'トーク ▾'}
+              active={!!search.chat}
+              onPress={() => setPicker('chat')}
+            />
+            <FilterChip
+              label={search.sender ? search.sender.label : '送信者 ▾'}
+              active={!!search.sender}
+              onPress={() => setPicker('sender')}
+            />
+          </View>
+          {status === 'idle' && (
+            <Text style={{ color: colors.subtext, paddingTop: 20 }}>
+              参加中のトークとスペースのメッセージを検索します。暗号化されたトークは検索できません。
+            </Text>
+          )}
+          {status === 'loading' && (
+            <View style={{ paddingTop: 20, alignItems: 'center' }}>
+              <ActivityIndicator color={colors.pink} />
+              <Text style={{ marginTop: 8, color: colors.subtext }}>
+                検索中…
+              </Text>
+            </View>
+          )}
+          {status === 'error' && (
+            <View style={{ paddingTop: 20, alignItems: 'center' }}>
+              <Text style={{ color: colors.text, fontWeight: '700' }}>
+                エラー
+              </Text>
+              <Text style={{ color: colors.subtext, marginTop: 6 }}>
+                {error}
+              </Text>
+            </View>
+          )}
+          {status === 'success' && (
+            <FlatList
+              keyboardShouldPersistTaps="handled"
+              data={items}
+              keyExtractor={i => `${i.scope}:${i.id}`}
+              renderItem={({ item }) => (
+                <MessageRow
+                  item={item}
+                  term={search.query}
+                  onPress={() => onOpenMessage && onOpenMessage(item)}
+                />
+              )}
+              onEndReached={() => {
+                if (hasMore) {
+                  loadMore();
+                }
+              }}
+              onEndReachedThreshold={0.5}
+              ListEmptyComponent={
+                <Text
+                  style={{
+                    color: colors.subtext,
+                    textAlign: 'center',
+                    paddingTop: 20,
+                  }}
+                >
+                  見つかりませんでした
+                </Text>
+              }
+              ListFooterComponent={
+                loadingMore ? (
+                  <ActivityIndicator
+                    color={colors.pink}
+                    style={{ paddingVertical: 12 }}
+                  />
+                ) : null
+              }
+            />
+          )}
+        </View>
+      </SafeAreaView>
+
+      <Modal
+        visible={!!picker}
+        animationType="slide"
+        transparent
+        onRequestClose={() => setPicker(null)}
+      >
+        <View
+          style={{
+            flex: 1,
+            backgroundColor: 'rgba(0,0,0,0.5)',
+            justifyContent: 'flex-end',
+          }}
+        >
+          <View
+            style={{
+              maxHeight: '70%',
+              borderTopLeftRadius: 20,
+              borderTopRightRadius: 20,
+              padding: 16,
+              backgroundColor: colors.card,
+              borderColor: colors.border,
+              borderWidth: 1,
+            }}
+          >
+            <View
+              style={{
+                flexDirection: 'row',
+                justifyContent: 'space-between',
+                alignItems: 'center',
+                marginBottom: 12,
+              }}
+            >
+              <Text
+                style={{ color: colors.text, fontSize: 18, fontWeight: '700' }}
+              >
+                {picker === 'chat' ? 'トークで絞り込む' : '送信者で絞り込む'}
+              </Text>
+              <Pressable
+                accessibilityRole="button"
+                accessibilityLabel="閉じる"
+                onPress={() => setPicker(null)}
+                hitSlop={8}
+              >
+                <Text style={{ color: colors.subtext, fontSize: 16 }}>✕</Text>
+              </Pressable>
+            </View>
+            <FlatList
+              data={[{ id: '', label: '指定しない' }, ...pickerOptions]}
+              keyExtractor={o => o.id || 'none'}
+              ItemSeparatorComponent={() => <View style={{ height: 8 }} />}
+              renderItem={({ item }) => {
+                const selected =
+                  (picker === 'chat' ? search.chat : search.sender)?.id ===
+                  (item.id || undefined);
+                return (
+                  <Pressable
+                    accessibilityRole="button"
+                    accessibilityState={{ selected }}
+                    onPress={() => {
+                      const option = item.id ? item : null;
+                      if (picker === 'chat') {
+                        update({
+                          chat: option,
+                          ...(option?.scope ? { scope: option.scope } : {}),
+                        });
+                      } else {
+                        update({ sender: option });
+                      }
+                      setPicker(null);
+                    }}
+                    style={({ pressed }) => ({
+                      padding: 12,
+                      borderRadius: radius.md,
+                      backgroundColor: pressed ? '#ffffff20' : colors.surface,
+                      borderWidth: 1,
+                      borderColor: selected ? colors.pink : 'transparent',
+                    })}
+                  >
+                    <Text
+                      style={{ color: colors.text, fontSize: 15 }}
+                      numberOfLines={1}
+                    >
+                      {item.label}
+                    </Text>
+                  </Pressable>
+                );
+              }}
+            />
+          </View>
+        </View>
+      </Modal>
+    </KeyboardAvoidingView>
+  );
+}
+
+function FilterChip({
+  label,
+  active,
+  onPress,
+}: {
+  label: string;
+  active: boolean;
+  onPress: () => void;
+}) {
+  const { colors } = useTheme();
+  return (
+    <Pressable
+      accessibilityRole="button"
+      accessibilityState={{ selected: active }}
+      onPress={onPress}
+      style={{
+        maxWidth: 200,
+        paddingHorizontal: 12,
+        paddingVertical: 6,
+        borderRadius: 999,
+        marginRight: 8,
+        marginBottom: 6,
+        borderWidth: 1,
+        borderColor: active ? colors.pink : colors.border,
+        backgroundColor: active ? colors.pink + '22' : 'transparent',
+      }}
+    >
+      <Text
+        style={{ color: active ? colors.pink : colors.subtext }}
+        numberOfLines={1}
+      >
+        {label}
+      </Text>
+    </Pressable>
+  );
+}
+
+function MessageRow({
+  item,
+  term,
+  onPress,
+}: {
+  item: SearchMessageItem;
+  term: string;
+  onPress?: () => void;
+}) {
+  const { colors } = useTheme();
+  const where =
+    item.scope === 'channel'
+      ? `${item.spaceName || 'スペース'} #${item.containerName}`
+      : item.containerName;
+  const sender = item.sender.displayName || item.sender.username || '匿名';
+  return (
+    <Pressable
+      accessibilityRole="button"
+      accessibilityLabel={`${where}の${sender}のメッセージを開く`}
+      style={{ paddingVertical: 10 }}
+      onPress={onPress}
+    >
+      <Text style={{ color: colors.subtext, fontSize: 12 }} numberOfLines={1}>
+        {item.scope === 'channel' ? '🏠 ' : '💬 '}
+        {where} · {new Date(item.createdAt).toLocaleString()}
+      </Text>
+      <Text style={{ color: colors.text, fontWeight: '700', marginTop: 2 }}>
+        {item.sender.avatarEmoji || '👤'} {sender}
+      </Text>
+      <Text style={{ color: colors.subtext, marginTop: 4 }} numberOfLines={3}>
+        {highlightSegments(messageSnippet(item.content, term), term).map(
+          (seg, i) => (
+            <Text
+              key={i}
+              style={
+                seg.match
+                  ? {
+                      color: colors.text,
+                      fontWeight: '700',
+                      backgroundColor: colors.pink + '33',
+                    }
+                  : undefined
+              }
+            >
+              {seg.text}
+            </Text>
+          )
+        )}
+      </Text>
+    </Pressable>
+  );
+}
@@ -0,0 +1,283 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  FlatList,
+  Pressable,
+  ActivityIndicator,
+  Alert,
+  RefreshControl,
+  TextInput,
+} from 'react-native';
+import { BlurView } from 'expo-blur';
+
+import { useTheme } from '../theme/theme';
+import {
+  MUTE_DURATION_OPTIONS,
+  MuteDuration,
+  MutedTerm,
+  addMutedTerm,
+  listMutedTerms,
+  removeMutedTerm,
+} from '../services/mutedTermService';
+import { notifyError } from '../utils/notify';
+
+interface MutedTermsScreenProps {
+  onBack?: () => void;
+}
+
+function expiryLabel(term: MutedTerm): string {
+  if (!term.expires_at) {
+    return '無期限';
+  }
+  return `${new Date(term.expires_at).toLocaleString()} まで`;
+}
+
+export default function MutedTermsScreen({ onBack }: MutedTermsScreenProps) {
+  const theme = useTheme();
+  const { colors } = theme;
+  const [terms, setTerms] = useState<MutedTerm[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [refreshing, setRefreshing] = useState(false);
+  const [input, setInput] = useState('');
+  const [duration, setDuration] = useState<MuteDuration>('forever');
+  const [saving, setSaving] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      setTerms(await listMutedTerms());
+    } catch {
+      notifyError('ミュート一覧の読み込みに失敗しました');
+    }
+  }, []);
+
+  useEffect(() => {
+    (async () => {
+      setLoading(true);
+      await load();
+      setLoading(false);
+    })();
+  }, [load]);
+
+  const handleAdd = async () => {
+    if (!input.trim() || saving) {
+      return;
+    }
+    setSaving(true);
+    try {
+      const added = await addMutedTerm(input, duration);
+      setTerms(prev => [added, ...prev.filter(t => t.id !== added.id)]);
+      setInput('');
+    } catch (e: any) {
+      notifyError(e?.message || 'ミュートの追加に失敗しました');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemove = (term: MutedTerm) => {
+    const label = term.kind === 'hashtag' ? `#${term.term}` : term.term;
+    Alert.alert('ミュート解除', `「${label}」のミュートを解除しますか？`, [
+      { text: 'キャンセル', style: 'cancel' },
+      {
+        text: '解除',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await removeMutedTerm(term.id);
+            setTerms(prev => prev.filter(t => t.id !== term.id));
+          } catch {
+            notifyError('ミュートの解除に失敗しました');
+          }
+        },
+      },
+    ]);
+  };
+
+  return (
+    <View style={{ flex: 1, backgroundColor: colors.bg, paddingTop: 48 }}>
+      <View
+        style={{
+          paddingHorizontal: 16,
+          paddingBottom: 12,
+          borderBottomWidth: 1,
+          borderBottomColor: '#ffffff10',
+          flexDirection: 'row',
+          justifyContent: 'space-between',
+          alignItems: 'center',
+        }}
+      >
+        <Text style={{ color: colors.text, fontSize: 18, fontWeight: '800' }}>
+          ミュートした語句
+        </Text>
+        {onBack && (
+          <Pressable
+            onPress={onBack}
+            style={{
+              paddingHorizontal: 12,
+              paddingVertical: 6,
+              backgroundColor: colors.surface,
+              borderRadius: 999,
+            }}
+          >
+            <Text style={{ color: colors.text, fontWeight: '700' }}>戻る</Text>
+          </Pressable>
+        )}
+      </View>
+
+      <View style={{ padding: theme.spacing(2), gap: 8 }}>
+        <View style={{ flexDirection: 'row', gap: 8 }}>
+          <TextInput
+            value={input}
+            onChangeText={setInput}
+            placeholder="語句 または #タグ"
+            placeholderTextColor={colors.subtext}
+            maxLength={49}
+            returnKeyType="done"
+            onSubmitEditing={handleAdd}
+            style={{
+              flex: 1,
+              color: colors.text,
+              backgroundColor: colors.surface,
+              borderRadius: theme.radius.md,
+              paddingHorizontal: 12,
+              paddingVertical: 10,
+            }}
+          />
+          <Pressable
+            accessibilityRole="button"
+            accessibilityLabel="ミュートに追加"
+            disabled={!input.trim() || saving}
+            onPress={handleAdd}
+            style={({ pressed }) => ({
+              backgroundColor: colors.pink,
+              borderRadius: theme.radius.md,
+              paddingHorizontal: 16,
+              justifyContent: 'center',
+              opacity: !input.trim() || saving ? 0.5 : 1,
+              transform: [{ scale: pressed ? 0.97 : 1 }],
+            })}
+          >
+            <Text style={{ color: '#23181D', fontWeight: '700' }}>追加</Text>
+          </Pressable>
+        </View>
+        <View style={{ flexDirection: 'row', gap: 8 }}>
+          {MUTE_DURATION_OPTIONS.map(o => {
+            const selected = duration === o.value;
+            return (
+              <Pressable
+                key={o.value}
+                accessibilityRole="button"
+                accessibilityLabel={`期間 ${o.label}`}
+                accessibilityState={{ selected }}
+                onPress={() => setDuration(o.value)}
+                style={{
+                  paddingHorizontal: 12,
+                  paddingVertical: 6,
+                  borderRadius: 999,
+                  backgroundColor: selected ? colors.pink : colors.surface,
+                }}
+              >
+                <Text
+                  style={{
+                    color: selected ? '#23181D' : colors.text,
+                    fontWeight: '700',
+                    fontSize: 12,
+                  }}
+                >
+                  {o.label}
+                </Text>
+              </Pressable>
+            );
+          })}
+        </View>
+        <Text style={{ color: colors.subtext, fontSize: 12 }}>
+          ホーム・コメント・検索・匿名ルームで、この語句を含む投稿が表示されなくなります
+        </Text>
+      </View>
+
+      {loading ? (
+        <View
+          style={{ flex: 1, alignItems: 'center', justifyContent: 'center' }}
+        >
+          <ActivityIndicator size="large" color={colors.pink} />
+        </View>
+      ) : (
+        <FlatList
+          data={terms}
+          keyExtractor={t => t.id}
+          refreshControl={
+            <RefreshControl
+              refreshing={refreshing}
+              onRefresh={async () => {
+                setRefreshing(true);
+                await load();
+                setRefreshing(false);
+              }}
+              tintColor={colors.pink}
+            />
+          }
+          contentContainerStyle={{
+            paddingHorizontal: theme.spacing(2),
+            paddingBottom: theme.spacing(10),
+          }}
+          ListEmptyComponent={() => (
+            <View style={{ padding: theme.spacing(4), alignItems: 'center' }}>
+              <Text style={{ color: colors.subtext }}>
+                ミュートしている語句はありません
+              </Text>
+            </View>
+          )}
+          ItemSeparatorComponent={() => (
+            <View style={{ height: theme.spacing(1) }} />
+          )}
+          renderItem={({ item }) => (
+            <View
+              style={{
+                borderRadius: theme.radius.lg,
+                overflow: 'hidden',
+                ...theme.shadow.card,
+              }}
+            >
+              <BlurView
+                intensity={30}
+                tint="dark"
+                style={{
+                  padding: theme.spacing(1.25),
+                  backgroundColor: '#ffffff10',
+                  flexDirection: 'row',
+                  alignItems: 'center',
+                }}
+              >
+                <View style={{ flex: 1 }}>
+                  <Text style={{ color: colors.text, fontWeight: '700' }}>
+                    {item.kind === 'hashtag' ? `#${item.term}` : item.term}
+                  </Text>
+                  <Text style={{ color: colors.subtext, fontSize: 12 }}>
+                    {expiryLabel(item)}
+                  </Text>
+                </View>
+                <Pressable
+                  accessibilityRole="button"
+                  accessibilityLabel="ミュート解除"
+                  onPress={() => handleRemove(item)}
+                  style={({ pressed }) => ({
+                    backgroundColor: colors.surface,
+                    borderRadius: 999,
+                    paddingHorizontal: 12,
+                    paddingVertical: 6,
+                    transform: [{ scale: pressed ? 0.97 : 1 }],
+                  })}
+                >
+                  <Text style={{ color: colors.text, fontWeight: '700' }}>
+                    解除
+                  </Text>
+                </Pressable>
+              </BlurView>
+            </View>
+          )}
+        />
+      )}
+    </View>
+  );
+}
@@ -11,13 +11,11 @@ import { useEffect, useRef, useState } from 'react';
 
 import { useTheme } from '../theme/theme';
 import PostCard from '../components/PostCard';
-import { PostWithMeta } from '../types/post';
-import {
-  fetchMyPosts,
-  toggleReaction,
-  deletePost,
-} from '../services/postService';
+import PostEditModal from '../components/PostEditModal';
+import { PostWithMeta, ReactionKind } from '../types/post';
+import { fetchMyPosts, setReaction, deletePost } from '../services/postService';
 import { notifyError } from '../utils/notify';
+import { applyMyReaction, nextReactionFor } from '../utils/postReactions';
 import { useAuth } from '../contexts/AuthContext';
 
 export default function MyPostsListScreen() {
@@ -35,6 +33,7 @@ export default function MyPostsListScreen() {
   const [loading, setLoading] = useState(false);
   const [refreshing, setRefreshing] = useState(false);
   const endReached = useRef(false);
+  const [editing, setEditing] = useState<PostWithMeta | null>(null);
 
   const load = async (opts?: { refresh?: boolean }) => {
     if (loading) {
@@ -73,39 +72,30 @@ export default function MyPostsListScreen() {
     setRefreshing(false);
   };
 
-  const handleToggleLike = async (postId: string, current: boolean) => {
+  const handleReact = async (postId: string, tapped: ReactionKind) => {
+    const target = items.find(p => p.id === postId);
+    if (!target) {
+      return;
+    }
+    const previous = target.reaction_summary;
+    const next = nextReactionFor(previous, tapped);
     setItems(prev =>
-      prev.map(p => {
-        if (p.id !== postId) {
-          return p;
-        }
-        const base = p.reaction_summary || { reactedByMe: false, count: 0 };
-        return {
-          ...p,
-          reaction_summary: {
-            reactedByMe: !current,
-            count: (base.count || 0) + (current ? -1 : +1),
-          },
-        };
-      })
+      prev.map(p =>
+        p.id === postId
+          ? {
+              ...p,
+              reaction_summary: applyMyReaction(p.reaction_summary, next),
+            }
+          : p
+      )
     );
     try {
-      await toggleReaction(postId, current);
+      await setReaction(postId, next);
     } catch (e) {
       setItems(prev =>
-        prev.map(p => {
-          if (p.id !== postId) {
-            return p;
-          }
-          const base = p.reaction_summary || { reactedByMe: false, count: 0 };
-          return {
-            ...p,
-            reaction_summary: {
-              reactedByMe: current,
-              count: (base.count || 0) + (current ? +1 : -1),
-            },
-          };
-        })
+        prev.map(p =>
+          p.id === postId ? { ...p, reaction_summary: previous } : p
+        )
       );
     }
   };
@@ -154,9 +144,10 @@ export default function MyPostsListScreen() {
           <PostCard
             post={item}
             onOpenComments={() => {}}
-            onToggleLike={handleToggleLike}
+            onReact={handleReact}
             isOwner={true}
             onDelete={handleDelete}
+            onEdit={setEditing}
           />
         )}
         onEndReachedThreshold={0.4}
@@ -180,6 +171,19 @@ export default function MyPostsListScreen() {
             : null
         }
       />
+      <PostEditModal
+        post={editing}
+        onClose={() => setEditing(null)}
+        onSaved={updated =>
+          setItems(prev =>
+            prev.map(p =>
+              p.id === updated.id
+                ? { ...p, body: updated.body, edited_at: updated.edited_at }
+                : p
+            )
+          )
+        }
+      />
     </Animated.View>
   );
 }
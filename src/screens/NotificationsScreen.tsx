@@ -19,13 +19,16 @@ import {
   notificationService,
   NotificationItem,
 } from '../services/notificationService';
+import { reactionEmoji } from '../utils/postReactions';
 
-const iconOf = (t: string) => {
-  switch (t) {
+const iconOf = (item: NotificationItem) => {
+  switch (item.type) {
     case 'like':
-      return '💗';
+      return reactionEmoji(item.metadata?.reaction);
     case 'comment':
       return '💬';
+    case 'comment_reply':
+      return '↩️';
     case 'message':
       return '✉️';
     case 'room':
@@ -196,9 +199,7 @@ export default function NotificationsScreen() {
                       <Text
                         style={{ color: colors.text, fontSize: 16, flex: 1 }}
                       >
-                        <Text style={{ marginRight: 6 }}>
-                          {iconOf(item.type as string)}
-                        </Text>{' '}
+                        <Text style={{ marginRight: 6 }}>{iconOf(item)}</Text>{' '}
                         {item.content}
                       </Text>
                       {/* Close button */}
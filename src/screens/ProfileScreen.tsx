@@ -239,6 +239,10 @@ export default function ProfileScreen({
                 label="共感したポスト"
                 onPress={() => onNavigate && onNavigate('liked')}
               />
+              <Pill
+                label="保存したポスト"
+                onPress={() => onNavigate && onNavigate('saved')}
+              />
               <Pill
                 label="参加ルーム"
                 onPress={() => onNavigate && onNavigate('roomsList')}
@@ -11,6 +11,7 @@ import { BlurView } from 'expo-blur';
 
 import { useTheme } from '../theme/theme';
 import { useChatList } from '../hooks/useRooms';
+import { groupChatListBySpace } from '../utils/spaceChannels';
 
 import AnonRoomV2Screen from './AnonRoomV2Screen';
 import ChannelScreen from './ChannelScreen';
@@ -20,12 +21,14 @@ interface RoomsListScreenProps {
   onNavigateToChannel?: (channelId: string, spaceName: string) => void;
   onBack?: () => void;
   refreshKey?: number;
+  onOpenPost?: (postId: string) => void;
 }
 
 export default function RoomsListScreen({
   onNavigateToChannel,
   onBack,
   refreshKey,
+  onOpenPost,
 }: RoomsListScreenProps) {
   const theme = useTheme();
   const { colors } = theme;
@@ -69,6 +72,11 @@ export default function RoomsListScreen({
 
   // Hooks: channel-based chat list (chat experience)
   const { chatList, loading, error, refresh } = useChatList();
+  // チャンネルごとの行をスペースごとにまとめ、未読数は合計で出す
+  const spaceList = React.useMemo(
+    () => groupChatListBySpace(chatList),
+    [chatList]
+  );
 
   // Refresh when navigated to this screen
   React.useEffect(() => {
@@ -122,6 +130,7 @@ export default function RoomsListScreen({
         spaceName={selectedSpaceName}
         spaceId={selectedSpaceId}
         isPrivateSpace={true} // Temporarily always show invite button for testing
+        onOpenPost={onOpenPost}
         onBack={() => {
           // Ensure immediate display when returning to list view
           fade.setValue(1);
@@ -288,11 +297,14 @@ export default function RoomsListScreen({
             has_new: false,
             unread_count: 0,
           },
-          ...chatList.map(item => ({
+          ...spaceList.map(item => ({
             id: item.channel_id,
             type: 'channel' as const,
             name: item.space_name,
-            desc: item.latest_message_content || 'メッセージがありません',
+            desc:
+              item.channel_count > 1
+                ? `#${item.channel_name} ${item.latest_message_content || 'メッセージがありません'}`
+                : item.latest_message_content || 'メッセージがありません',
             badge: item.space_is_public ? '公開' : '非公開',
             has_new: item.has_new,
             unread_count: item.unread_count,
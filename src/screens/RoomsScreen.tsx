@@ -20,8 +20,11 @@ import {
   useSpacePermissions,
   usePopularSpaces,
 } from '../hooks/useRooms';
-import { SpaceWithOwner } from '../types/room';
+import { roomService } from '../services/roomService';
+import { SpaceRules, SpaceWithOwner } from '../types/room';
 import VerifiedBadge from '../components/VerifiedBadge';
+import SpaceRulesSheet from '../components/SpaceRulesSheet';
+import { hasJoinGuidance } from '../utils/spaceRules';
 
 import AnonRoomV2Screen from './AnonRoomV2Screen';
 import ChannelScreen from './ChannelScreen';
@@ -30,9 +33,13 @@ import InviteFollowersScreen from './InviteFollowersScreen';
 
 interface RoomsScreenProps {
   onNavigateToChannel?: (channelId: string, spaceName: string) => void;
+  onOpenPost?: (postId: string) => void;
 }
 
-export default function RoomsScreen({ onNavigateToChannel }: RoomsScreenProps) {
+export default function RoomsScreen({
+  onNavigateToChannel,
+  onOpenPost,
+}: RoomsScreenProps) {
   const theme = useTheme();
   const { colors } = theme;
   const fade = useRef(new Animated.Value(0)).current;
@@ -64,6 +71,11 @@ export default function RoomsScreen({ onNavigateToChannel }: RoomsScreenProps) {
     null
   );
   const [selectedUserId, setSelectedUserId] = useState<string | null>(null);
+  // 参加前にルール・質問を見せているルーム
+  const [joinTarget, setJoinTarget] = useState<{
+    space: SpaceWithOwner;
+    rules: SpaceRules;
+  } | null>(null);
 
   // Hooks
   const {
@@ -131,15 +143,47 @@ export default function RoomsScreen({ onNavigateToChannel }: RoomsScreenProps) {
       return;
     }
 
-    const result = await joinSpace(space.id);
+    // ルール・ウェルカムメッセージ・参加時の質問があれば先に見せる
+    const rulesRes = await roomService.getSpaceRules(space.id);
+    if (rulesRes.success && rulesRes.data && hasJoinGuidance(rulesRes.data)) {
+      setJoinTarget({ space, rules: rulesRes.data });
+      return;
+    }
+    await completeJoin(space);
+  };
+
+  const completeJoin = async (
+    space: SpaceWithOwner,
+    rules?: SpaceRules,
+    answers?: string[]
+  ) => {
+    if (rules?.rules) {
+      await roomService.acceptSpaceRules(space.id);
+    }
+    const result = await joinSpace(space.id, answers);
+    if (result?.pending) {
+      Alert.alert(
+        '参加リクエストを送信しました',
+        'オーナーが回答を確認すると参加できます'
+      );
+      return;
+    }
     if (result) {
-      Alert.alert('参加完了', `${space.name}に参加しました`);
+      Alert.alert(
+        '参加完了',
+        rules?.welcome_message || `${space.name}に参加しました`
+      );
       // Refresh popular spaces to update join status
       refreshPopular();
       // NOTE: Joined rooms list is not shown on this screen anymore
       // Navigate based on channel availability
       if (result.channel_id) {
-        handleChannelSelect(result.channel_id, space.name, space.id, space.tags);
+        handleChannelSelect(
+          result.channel_id,
+          space.name,
+          space.id,
+          space.tags
+        );
       } else {
         setSelectedSpaceId(space.id);
         setSelectedSpaceName(space.name);
@@ -185,9 +229,9 @@ export default function RoomsScreen({ onNavigateToChannel }: RoomsScreenProps) {
       <ChannelScreen
         channelId={selectedChannelId}
         spaceName={selectedSpaceName}
-
         spaceId={selectedSpaceId || undefined}
         tags={selectedSpaceTags}
+        onOpenPost={onOpenPost}
         isPrivateSpace={true} // Temporarily always show invite button for testing
         onBack={() => {
           // Ensure immediate display when returning to prevent blank screen
@@ -868,6 +912,26 @@ export default function RoomsScreen({ onNavigateToChannel }: RoomsScreenProps) {
           />
         </>
       ) : null}
+      <SpaceRulesSheet
+        visible={!!joinTarget}
+        spaceName={joinTarget?.space.name ?? ''}
+        rules={joinTarget?.rules ?? null}
+        askQuestions
+        submitLabel={
+          joinTarget?.rules.screening_questions.length
+            ? '回答を送信して参加をリクエスト'
+            : joinTarget?.rules.rules
+              ? 'ルールに同意して参加'
+              : '参加する'
+        }
+        onSubmit={async answers => {
+          if (joinTarget) {
+            await completeJoin(joinTarget.space, joinTarget.rules, answers);
+          }
+          return null;
+        }}
+        onClose={() => setJoinTarget(null)}
+      />
     </Animated.View>
   );
 }
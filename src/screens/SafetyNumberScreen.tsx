@@ -0,0 +1,156 @@
+import { useEffect, useState } from 'react';
+import { View, Text, Pressable, ActivityIndicator } from 'react-native';
+
+import { useTheme } from '../theme/theme';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  DeviceKey,
+  computeSafetyNumber,
+  fetchDeviceKeys,
+  formatSafetyNumber,
+  publishDeviceKey,
+} from '../services/e2eService';
+
+interface SafetyNumberScreenProps {
+  userId: string; // 相手
+  userName?: string;
+  onBack?: () => void;
+}
+
+export default function SafetyNumberScreen({
+  userId,
+  userName,
+  onBack,
+}: SafetyNumberScreenProps) {
+  const theme = useTheme();
+  const { colors } = theme;
+  const { user } = useAuth();
+  const [groups, setGroups] = useState<string[]>([]);
+  const [deviceCounts, setDeviceCounts] = useState({ mine: 0, theirs: 0 });
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user?.id) {
+      return;
+    }
+    let cancelled = false;
+    (async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        await publishDeviceKey(user.id);
+        const keys = await fetchDeviceKeys([user.id, userId]);
+        const of = (id: string) =>
+          keys.filter((k: DeviceKey) => k.userId === id);
+        const mine = of(user.id);
+        const theirs = of(userId);
+        if (theirs.length === 0) {
+          throw new Error('相手の端末の鍵がまだ登録されていません');
+        }
+        const digits = await computeSafetyNumber(
+          { userId: user.id, keys: mine },
+          { userId, keys: theirs }
+        );
+        if (!cancelled) {
+          setGroups(formatSafetyNumber(digits));
+          setDeviceCounts({ mine: mine.length, theirs: theirs.length });
+        }
+      } catch (e: any) {
+        if (!cancelled) {
+          setError(e?.message || '安全確認番号を計算できませんでした');
+        }
+      } finally {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [user?.id, userId]);
+
+  return (
+    <View style={{ flex: 1, backgroundColor: colors.bg, paddingTop: 48 }}>
+      <View
+        style={{
+          paddingHorizontal: 16,
+          paddingBottom: 12,
+          borderBottomWidth: 1,
+          borderBottomColor: '#ffffff10',
+          flexDirection: 'row',
+          justifyContent: 'space-between',
+          alignItems: 'center',
+        }}
+      >
+        <Text style={{ color: colors.text, fontSize: 18, fontWeight: '800' }}>
+          安全確認番号
+        </Text>
+        {onBack && (
+          <Pressable
+            onPress={onBack}
+            style={{
+              paddingHorizontal: 12,
+              paddingVertical: 6,
+              backgroundColor: colors.surface,
+              borderRadius: 999,
+            }}
+          >
+            <Text style={{ color: colors.text, fontWeight: '700' }}>戻る</Text>
+          </Pressable>
+        )}
+      </View>
+
+      <View style={{ padding: theme.spacing(2), gap: 16 }}>
+        <Text style={{ color: colors.subtext, fontSize: 13, lineHeight: 20 }}>
+          {userName ? `${userName}さん` : '相手'}
+          の画面に表示されている番号と同じであれば、メッセージは途中で読み取られていません。会って見せ合うか、別の方法で確認してください。
+        </Text>
+
+        {loading ? (
+          <ActivityIndicator color={colors.pink} />
+        ) : error ? (
+          <Text style={{ color: colors.subtext }}>{error}</Text>
+        ) : (
+          <>
+            <View
+              accessibilityLabel={`安全確認番号 ${groups.join(' ')}`}
+              style={{
+                flexDirection: 'row',
+                flexWrap: 'wrap',
+                justifyContent: 'center',
+                backgroundColor: colors.surface,
+                borderRadius: theme.radius.md,
+                paddingVertical: 16,
+                paddingHorizontal: 8,
+              }}
+            >
+              {groups.map((group, i) => (
+                <Text
+                  key={i}
+                  style={{
+                    width: '33%',
+                    textAlign: 'center',
+                    color: colors.text,
+                    fontSize: 20,
+                    fontWeight: '700',
+                    fontVariant: ['tabular-nums'],
+                    paddingVertical: 6,
+                  }}
+                >
+                  {group}
+                </Text>
+              ))}
+            </View>
+            <Text style={{ color: colors.subtext, fontSize: 12 }}>
+              あなたの端末 {deviceCounts.mine} 台・相手の端末{' '}
+              {deviceCounts.theirs}{' '}
+              台の鍵から計算しています。どちらかが端末を追加・再インストールすると番号が変わります。
+            </Text>
+          </>
+        )}
+      </View>
+    </View>
+  );
+}
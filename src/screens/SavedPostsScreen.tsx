@@ -0,0 +1,383 @@
+import {
+  View,
+  Text,
+  FlatList,
+  Pressable,
+  Animated,
+  Alert,
+  RefreshControl,
+  ScrollView,
+  TextInput,
+} from 'react-native';
+import { useEffect, useRef, useState } from 'react';
+
+import { useTheme } from '../theme/theme';
+import PostCard from '../components/PostCard';
+import { BookmarkCollection, PostWithMeta, ReactionKind } from '../types/post';
+import { fetchBookmarks, setReaction } from '../services/postService';
+import {
+  COLLECTION_NAME_MAX_LENGTH,
+  createCollection,
+  deleteCollection,
+  listCollections,
+  renameCollection,
+} from '../services/bookmarkService';
+import { notifyError } from '../utils/notify';
+import { applyMyReaction, nextReactionFor } from '../utils/postReactions';
+import { useAuth } from '../contexts/AuthContext';
+
+export default function SavedPostsScreen({
+  commentDeltas,
+  onOpen,
+}: {
+  commentDeltas?: Record<string, number>;
+  onOpen?: (postId: string) => void;
+}) {
+  const theme = useTheme();
+  const { colors } = theme;
+  const fade = useRef(new Animated.Value(0)).current;
+  useEffect(() => {
+    Animated.timing(fade, {
+      toValue: 1,
+      duration: 200,
+      useNativeDriver: true,
+    }).start();
+  }, [fade]);
+  const { user } = useAuth();
+  const [items, setItems] = useState<PostWithMeta[]>([]);
+  const [collections, setCollections] = useState<BookmarkCollection[]>([]);
+  // null は「すべて」
+  const [selected, setSelected] = useState<string | null>(null);
+  const [cursor, setCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [refreshing, setRefreshing] = useState(false);
+  const endReached = useRef(false);
+  const [name, setName] = useState('');
+  const [renaming, setRenaming] = useState<BookmarkCollection | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const load = async (opts?: { refresh?: boolean }) => {
+    if (loading) {
+      return;
+    }
+    setLoading(true);
+    try {
+      const before = opts?.refresh ? null : cursor;
+      if (!user?.id) {
+        return;
+      }
+      const res = await fetchBookmarks({ before, collectionId: selected });
+      setItems(prev => (opts?.refresh ? res.items : [...prev, ...res.items]));
+      setCursor(res.nextCursor);
+    } catch {
+      notifyError('保存したポストの読み込みに失敗しました');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadCollections = async () => {
+    try {
+      setCollections(await listCollections());
+    } catch {}
+  };
+
+  useEffect(() => {
+    loadCollections();
+  }, []);
+
+  useEffect(() => {
+    load({ refresh: true });
+  }, [selected]);
+
+  const onEndReached = () => {
+    if (endReached.current || loading || !cursor) {
+      return;
+    }
+    endReached.current = true;
+    load().finally(() => {
+      endReached.current = false;
+    });
+  };
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await Promise.all([load({ refresh: true }), loadCollections()]);
+    setRefreshing(false);
+  };
+
+  const handleReact = async (postId: string, tapped: ReactionKind) => {
+    const target = items.find(p => p.id === postId);
+    if (!target) {
+      return;
+    }
+    const next = nextReactionFor(target.reaction_summary, tapped);
+    setItems(prev =>
+      prev.map(p =>
+        p.id === postId
+          ? {
+              ...p,
+              reaction_summary: applyMyReaction(p.reaction_summary, next),
+            }
+          : p
+      )
+    );
+    try {
+      if (user?.id) {
+        await setReaction(postId, next);
+      }
+    } catch {
+      notifyError('操作に失敗しました。時間をおいて再度お試しください');
+    }
+  };
+
+  const handleSubmitName = async () => {
+    if (!name.trim() || saving) {
+      return;
+    }
+    setSaving(true);
+    try {
+      if (renaming) {
+        const updated = await renameCollection(renaming.id, name);
+        setCollections(prev =>
+          prev.map(c => (c.id === updated.id ? updated : c))
+        );
+      } else {
+        const created = await createCollection(name);
+        setCollections(prev => [...prev, created]);
+      }
+      setName('');
+      setRenaming(null);
+    } catch (e: any) {
+      notifyError(e?.message || 'コレクションの保存に失敗しました');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCollectionMenu = (collection: BookmarkCollection) => {
+    Alert.alert(collection.name, undefined, [
+      {
+        text: '名前を変更',
+        onPress: () => {
+          setRenaming(collection);
+          setName(collection.name);
+        },
+      },
+      {
+        text: '削除',
+        style: 'destructive',
+        onPress: () =>
+          Alert.alert(
+            '確認',
+            'コレクションを削除しますか？保存したポストは未分類に戻ります',
+            [
+              { text: 'キャンセル', style: 'cancel' },
+              {
+                text: '削除',
+                style: 'destructive',
+                onPress: async () => {
+                  try {
+                    await deleteCollection(collection.id);
+                    setCollections(prev =>
+                      prev.filter(c => c.id !== collection.id)
+                    );
+                    if (selected === collection.id) {
+                      setSelected(null);
+                    } else {
+                      load({ refresh: true });
+                    }
+                  } catch {
+                    notifyError('コレクションの削除に失敗しました');
+                  }
+                },
+              },
+            ]
+          ),
+      },
+      { text: 'キャンセル', style: 'cancel' },
+    ]);
+  };
+
+  const chip = (
+    key: string,
+    label: string,
+    active: boolean,
+    onPress: () => void,
+    onLongPress?: () => void
+  ) => (
+    <Pressable
+      key={key}
+      accessibilityRole="button"
+      accessibilityLabel={label}
+      accessibilityState={{ selected: active }}
+      onPress={onPress}
+      onLongPress={onLongPress}
+      style={{
+        paddingHorizontal: 12,
+        paddingVertical: 6,
+        borderRadius: 999,
+        backgroundColor: active ? colors.pink : colors.surface,
+      }}
+    >
+      <Text
+        style={{
+          color: active ? '#23181D' : colors.text,
+          fontWeight: '700',
+          fontSize: 12,
+        }}
+      >
+        {label}
+      </Text>
+    </Pressable>
+  );
+
+  return (
+    <Animated.View
+      style={{
+        flex: 1,
+        backgroundColor: 'transparent',
+        paddingTop: 40,
+        opacity: fade,
+      }}
+    >
+      <View style={{ paddingHorizontal: theme.spacing(2), gap: 8 }}>
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          contentContainerStyle={{ gap: 8 }}
+        >
+          {chip('all', 'すべて', selected === null, () => setSelected(null))}
+          {collections.map(c =>
+            chip(
+              c.id,
+              c.name,
+              selected === c.id,
+              () => setSelected(c.id),
+              () => handleCollectionMenu(c)
+            )
+          )}
+        </ScrollView>
+        <View style={{ flexDirection: 'row', gap: 8 }}>
+          <TextInput
+            value={name}
+            onChangeText={setName}
+            placeholder={
+              renaming
+                ? `「${renaming.name}」の新しい名前`
+                : '新しいコレクション'
+            }
+            placeholderTextColor={colors.subtext}
+            maxLength={COLLECTION_NAME_MAX_LENGTH}
+            returnKeyType="done"
+            onSubmitEditing={handleSubmitName}
+            style={{
+              flex: 1,
+              color: colors.text,
+              backgroundColor: colors.surface,
+              borderRadius: theme.radius.md,
+              paddingHorizontal: 12,
+              paddingVertical: 8,
+            }}
+          />
+          {renaming && (
+            <Pressable
+              accessibilityRole="button"
+              accessibilityLabel="名前の変更をやめる"
+              onPress={() => {
+                setRenaming(null);
+                setName('');
+              }}
+              style={{
+                backgroundColor: colors.surface,
+                borderRadius: theme.radius.md,
+                paddingHorizontal: 12,
+                justifyContent: 'center',
+              }}
+            >
+              <Text style={{ color: colors.text, fontWeight: '700' }}>
+                やめる
+              </Text>
+            </Pressable>
+          )}
+          <Pressable
+            accessibilityRole="button"
+            accessibilityLabel={renaming ? '名前を変更' : 'コレクションを作成'}
+            disabled={!name.trim() || saving}
+            onPress={handleSubmitName}
+            style={({ pressed }) => ({
+              backgroundColor: colors.pink,
+              borderRadius: theme.radius.md,
+              paddingHorizontal: 16,
+              justifyContent: 'center',
+              opacity: !name.trim() || saving ? 0.5 : 1,
+              transform: [{ scale: pressed ? 0.97 : 1 }],
+            })}
+          >
+            <Text style={{ color: '#23181D', fontWeight: '700' }}>
+              {renaming ? '変更' : '作成'}
+            </Text>
+          </Pressable>
+        </View>
+        {collections.length > 0 && (
+          <Text style={{ color: colors.subtext, fontSize: 12 }}>
+            コレクションを長押しで名前の変更・削除ができます
+          </Text>
+        )}
+      </View>
+      <FlatList
+        data={items}
+        keyExtractor={i => i.id}
+        contentContainerStyle={{
+          padding: theme.spacing(2),
+          paddingBottom: theme.spacing(10),
+        }}
+        ItemSeparatorComponent={() => (
+          <View style={{ height: theme.spacing(1.25) }} />
+        )}
+        renderItem={({ item }) => (
+          <Pressable
+            accessibilityRole="button"
+            accessibilityLabel="ポストを開く"
+            onPress={() => onOpen && onOpen(item.id)}
+            style={({ pressed }) => [
+              {
+                borderRadius: theme.radius.lg,
+                overflow: 'hidden',
+                transform: [{ scale: pressed ? 0.98 : 1 }],
+                ...theme.shadow.card,
+              },
+            ]}
+          >
+            <PostCard
+              post={item}
+              commentDelta={commentDeltas?.[item.id] || 0}
+              onOpenComments={id => onOpen && onOpen(id)}
+              onReact={handleReact}
+            />
+          </Pressable>
+        )}
+        onEndReachedThreshold={0.4}
+        onEndReached={onEndReached}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={onRefresh}
+            tintColor={colors.pink}
+          />
+        }
+        ListEmptyComponent={
+          !loading
+            ? () => (
+                <View style={{ alignItems: 'center', paddingTop: 80 }}>
+                  <Text style={{ color: colors.subtext }}>
+                    保存したポストはまだありません
+                  </Text>
+                </View>
+              )
+            : null
+        }
+      />
+    </Animated.View>
+  );
+}
@@ -15,7 +15,12 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { useTheme } from '../theme/theme';
 import { useBlockedList } from '../hooks/useBlock';
 import { useSearch } from '../hooks/useSearch';
-import type { SearchPostItem, SearchUserItem } from '../services/searchService';
+import { SEARCH_PERIOD_OPTIONS } from '../services/searchService';
+import type {
+  SearchPeriod,
+  SearchPostItem,
+  SearchUserItem,
+} from '../services/searchService';
 
 export default function SearchScreen({
   onOpenUser,
@@ -27,7 +32,10 @@ export default function SearchScreen({
   const { colors, radius } = useTheme();
   const [q, setQ] = useState('');
   const { blocked } = useBlockedList();
-  const { status, kind, users, posts, error } = useSearch(q);
+  const [period, setPeriod] = useState<SearchPeriod>('all');
+  const [verifiedOnly, setVerifiedOnly] = useState(false);
+  const { status, kind, users, posts, error, loadMore, hasMore, loadingMore } =
+    useSearch(q, { period, verifiedOnly });
 
   const filteredUsers = useMemo(() => {
     return users.filter(u => !blocked.includes(u.id));
@@ -52,7 +60,7 @@ export default function SearchScreen({
         >
           <View style={{ flexDirection: 'row', marginBottom: 12 }}>
             <TextInput
-              placeholder="検索（#ハッシュタグ または @ユーザー）"
+              placeholder="検索（キーワード・#ハッシュタグ・@ユーザー）"
               placeholderTextColor={colors.subtext}
               value={q}
               onChangeText={setQ}
@@ -81,6 +89,34 @@ export default function SearchScreen({
                 text="#music でハッシュタグ検索"
                 colors={{ text: colors.text, sub: colors.subtext }}
               />
+              <HintRow
+                text="夜泣き 対策 のように入力するとポスト本文を検索"
+                colors={{ text: colors.text, sub: colors.subtext }}
+              />
+            </View>
+          )}
+          {kind === 'text' && (
+            <View
+              style={{
+                flexDirection: 'row',
+                flexWrap: 'wrap',
+                alignItems: 'center',
+                marginBottom: 8,
+              }}
+            >
+              {SEARCH_PERIOD_OPTIONS.map(opt => (
+                <FilterChip
+                  key={opt.value}
+                  label={opt.label}
+                  active={period === opt.value}
+                  onPress={() => setPeriod(opt.value)}
+                />
+              ))}
+              <FilterChip
+                label="認証ママのみ"
+                active={verifiedOnly}
+                onPress={() => setVerifiedOnly(v => !v)}
+              />
             </View>
           )}
           {status === 'loading' && (
@@ -114,7 +150,7 @@ export default function SearchScreen({
               )}
             />
           )}
-          {status === 'success' && kind === 'hashtag' && (
+          {status === 'success' && (kind === 'hashtag' || kind === 'text') && (
             <FlatList
               keyboardShouldPersistTaps="handled"
               data={posts}
@@ -125,6 +161,31 @@ export default function SearchScreen({
                   onPress={() => onOpenPost && onOpenPost(item.id)}
                 />
               )}
+              onEndReached={() => {
+                if (hasMore) {
+                  loadMore();
+                }
+              }}
+              onEndReachedThreshold={0.5}
+              ListEmptyComponent={
+                <Text
+                  style={{
+                    color: colors.subtext,
+                    textAlign: 'center',
+                    paddingTop: 20,
+                  }}
+                >
+                  見つかりませんでした
+                </Text>
+              }
+              ListFooterComponent={
+                loadingMore ? (
+                  <ActivityIndicator
+                    color={colors.pink}
+                    style={{ paddingVertical: 12 }}
+                  />
+                ) : null
+              }
             />
           )}
         </View>
@@ -147,6 +208,39 @@ function HintRow({
   );
 }
 
+function FilterChip({
+  label,
+  active,
+  onPress,
+}: {
+  label: string;
+  active: boolean;
+  onPress: () => void;
+}) {
+  const { colors } = useTheme();
+  return (
+    <Pressable
+      accessibilityRole="button"
+      accessibilityState={{ selected: active }}
+      onPress={onPress}
+      style={{
+        paddingHorizontal: 12,
+        paddingVertical: 6,
+        borderRadius: 999,
+        marginRight: 8,
+        marginBottom: 6,
+        borderWidth: 1,
+        borderColor: active ? colors.pink : colors.border,
+        backgroundColor: active ? colors.pink + '22' : 'transparent',
+      }}
+    >
+      <Text style={{ color: active ? colors.pink : colors.subtext }}>
+        {label}
+      </Text>
+    </Pressable>
+  );
+}
+
 function UserRow({
   item,
   onPress,
@@ -223,6 +317,11 @@ function PostRow({
       <Text style={{ color: colors.subtext, marginTop: 4 }}>
         {item.contentPreview}
       </Text>
+      {!!item.reactionCount && (
+        <Text style={{ color: colors.subtext, fontSize: 12, marginTop: 4 }}>
+          ♡ {item.reactionCount}
+        </Text>
+      )}
     </Pressable>
   );
 }
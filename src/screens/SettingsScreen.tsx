@@ -24,14 +24,19 @@ import OnboardingTutorial from '../components/OnboardingTutorial';
 import { notificationPreferencesService } from '../services/notificationPreferencesService';
 import { createBatchUpdater } from '../utils/batchUpdate';
 import { accountDeletionService } from '../services/accountDeletionService';
+import { contentPreferencesService } from '../services/contentPreferencesService';
+import { ContentWarningCategory } from '../types/post';
+import { CONTENT_WARNING_OPTIONS } from '../utils/contentWarnings';
 
 export default function SettingsScreen({
   onLogoutNavigate,
   onOpenBlockedUsers,
+  onOpenMutedTerms,
   onOpenPaywall,
 }: {
   onLogoutNavigate?: () => void;
   onOpenBlockedUsers?: () => void;
+  onOpenMutedTerms?: () => void;
   onOpenPaywall?: () => void;
 }) {
   const theme = useTheme();
@@ -80,6 +85,41 @@ export default function SettingsScreen({
     setPrefs(prev => ({ ...prev, [key]: value }));
     updaterRef.current.set(key, value);
   };
+
+  // ホームで非表示にする内容の警告カテゴリ
+  const [hiddenWarnings, setHiddenWarnings] = useState<
+    ContentWarningCategory[]
+  >([]);
+  useEffect(() => {
+    (async () => {
+      if (!user?.id) {
+        return;
+      }
+      const p = await contentPreferencesService.get(user.id);
+      setHiddenWarnings(p.hidden_content_warnings);
+    })();
+  }, [user?.id]);
+
+  const setWarningHidden = async (
+    category: ContentWarningCategory,
+    hide: boolean
+  ) => {
+    if (!user?.id) {
+      return;
+    }
+    const prev = hiddenWarnings;
+    const next = hide
+      ? Array.from(new Set([...prev, category]))
+      : prev.filter(c => c !== category);
+    setHiddenWarnings(next);
+    const ok = await contentPreferencesService.update(user.id, {
+      hidden_content_warnings: next,
+    });
+    if (!ok) {
+      setHiddenWarnings(prev);
+      Alert.alert('エラー', '設定の保存に失敗しました');
+    }
+  };
   const { handPreference, setHandPreference } = useHandPreference();
   const insets = useSafeAreaInsets();
   const [deleteOpen, setDeleteOpen] = useState(false);
@@ -372,6 +412,31 @@ export default function SettingsScreen({
           </Section>
           <View style={{ height: theme.spacing(2) }} />
 
+          <Section title="表示しない内容" collapsible initialOpen={false}>
+            <Text
+              style={{
+                color: colors.subtext,
+                fontSize: 12,
+                marginBottom: theme.spacing(1),
+              }}
+            >
+              オンにしたカテゴリの警告がついた投稿は、ホームに表示されません
+            </Text>
+            <View style={{ gap: 8 }}>
+              {CONTENT_WARNING_OPTIONS.map(o => (
+                <ToggleRow
+                  key={o.category}
+                  label={o.label}
+                  value={hiddenWarnings.includes(o.category)}
+                  onValueChange={(v: boolean) =>
+                    setWarningHidden(o.category, v)
+                  }
+                />
+              ))}
+            </View>
+          </Section>
+          <View style={{ height: theme.spacing(2) }} />
+
           <Section title="空き手">
             <View style={{ flexDirection: 'row', gap: 8 }}>
               <Toggle
@@ -430,6 +495,27 @@ export default function SettingsScreen({
 
             <View style={{ height: theme.spacing(1) }} />
 
+            <Pressable
+              onPress={() => onOpenMutedTerms?.()}
+              accessibilityLabel="ミュートした語句を管理"
+              style={({ pressed }) => [
+                {
+                  backgroundColor: colors.surface,
+                  borderRadius: theme.radius.md,
+                  paddingVertical: 12,
+                  alignItems: 'center',
+                  transform: [{ scale: pressed ? 0.98 : 1 }],
+                  ...theme.shadow.card,
+                },
+              ]}
+            >
+              <Text style={{ color: colors.text, fontWeight: '700' }}>
+                ミュートした語句・タグを管理
+              </Text>
+            </Pressable>
+
+            <View style={{ height: theme.spacing(1) }} />
+
             <Pressable
               onPress={async () => {
                 try {
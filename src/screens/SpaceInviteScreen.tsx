@@ -0,0 +1,289 @@
+import { useState } from 'react';
+import {
+  View,
+  Text,
+  Pressable,
+  TextInput,
+  ActivityIndicator,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+
+import { useTheme } from '../theme/theme';
+import { useSpaceInvite, useSpaceRules } from '../hooks/useRooms';
+import { SpaceInvitePreview } from '../types/room';
+import SpaceRulesSheet from '../components/SpaceRulesSheet';
+import { hasJoinGuidance } from '../utils/spaceRules';
+import { notifyError, notifyInfo } from '../utils/notify';
+
+interface SpaceInviteScreenProps {
+  code: string;
+  onBack: () => void;
+  onJoined: (channelId: string, spaceName: string, spaceId: string) => void;
+}
+
+// 直接参加できないときの理由
+function blockedReason(preview: SpaceInvitePreview): string | null {
+  if (preview.status === 'expired') {
+    return 'この招待リンクは期限切れです。オーナーに参加をリクエストできます。';
+  }
+  if (preview.status === 'used_up') {
+    return 'この招待リンクは利用回数の上限に達しています。オーナーに参加をリクエストできます。';
+  }
+  if (preview.requires_approval) {
+    return 'このルームはオーナーの承認が必要です。';
+  }
+  return null;
+}
+
+/**
+ * 招待リンク（mamapace://invite/<code>）を開いたときの画面。
+ * そのまま参加するか、オーナーに参加をリクエストする
+ */
+export default function SpaceInviteScreen({
+  code,
+  onBack,
+  onJoined,
+}: SpaceInviteScreenProps) {
+  const theme = useTheme();
+  const { colors } = theme;
+  const { preview, loading, error, join, requestToJoin, cancelRequest } =
+    useSpaceInvite(code);
+  const { rules, accept: acceptRules } = useSpaceRules(preview?.space_id, code);
+  const [message, setMessage] = useState('');
+  const [busy, setBusy] = useState(false);
+  // ルール・質問を見せてから参加（join）またはリクエスト（request）する
+  const [sheetMode, setSheetMode] = useState<'join' | 'request' | null>(null);
+
+  const doJoin = async (): Promise<string | null> => {
+    if (!preview) {
+      return null;
+    }
+    if (rules?.rules && !rules.accepted) {
+      const failure = await acceptRules();
+      if (failure) {
+        return failure;
+      }
+    }
+    const { channelId, error: failure } = await join();
+    if (!channelId) {
+      return failure || '参加に失敗しました';
+    }
+    if (!preview.is_member && rules?.welcome_message) {
+      notifyInfo(rules.welcome_message);
+    }
+    onJoined(channelId, preview.name, preview.space_id);
+    return null;
+  };
+
+  const doRequest = async (answers: string[]): Promise<string | null> => {
+    if (rules?.rules && !rules.accepted) {
+      const failure = await acceptRules();
+      if (failure) {
+        return failure;
+      }
+    }
+    const failure = await requestToJoin(message, answers);
+    if (failure) {
+      return failure;
+    }
+    setMessage('');
+    notifyInfo('参加リクエストを送信しました');
+    return null;
+  };
+
+  const runWithBusy = async (op: () => Promise<string | null>) => {
+    setBusy(true);
+    const failure = await op();
+    setBusy(false);
+    if (failure) {
+      notifyError(failure);
+    }
+  };
+
+  const handleJoin = () => {
+    if (preview && !preview.is_member && hasJoinGuidance(rules)) {
+      setSheetMode('join');
+      return;
+    }
+    runWithBusy(doJoin);
+  };
+
+  const handleRequest = () => {
+    if (hasJoinGuidance(rules)) {
+      setSheetMode('request');
+      return;
+    }
+    runWithBusy(() => doRequest([]));
+  };
+
+  const handleCancel = async () => {
+    setBusy(true);
+    const failure = await cancelRequest();
+    setBusy(false);
+    if (failure) {
+      notifyError(failure);
+    }
+  };
+
+  const primaryButton = (label: string, onPress: () => void) => (
+    <Pressable
+      accessibilityRole="button"
+      onPress={onPress}
+      disabled={busy}
+      style={({ pressed }) => ({
+        backgroundColor: colors.pink,
+        paddingVertical: 12,
+        borderRadius: theme.radius.md,
+        alignItems: 'center',
+        marginTop: 16,
+        opacity: busy ? 0.5 : 1,
+        transform: [{ scale: pressed ? 0.97 : 1 }],
+      })}
+    >
+      <Text style={{ color: 'white', fontWeight: 'bold' }}>{label}</Text>
+    </Pressable>
+  );
+
+  const renderAction = (p: SpaceInvitePreview) => {
+    if (p.is_member) {
+      return primaryButton('ルームを開く', handleJoin);
+    }
+    if (p.request_status === 'pending') {
+      return (
+        <View style={{ marginTop: 16 }}>
+          <Text style={{ color: colors.subtext, fontSize: 14 }}>
+            参加リクエストを送信済みです。オーナーの承認をお待ちください。
+          </Text>
+          <Pressable
+            accessibilityRole="button"
+            onPress={handleCancel}
+            disabled={busy}
+            style={{ marginTop: 12, alignSelf: 'flex-start' }}
+          >
+            <Text style={{ color: colors.subtext }}>リクエストを取り消す</Text>
+          </Pressable>
+        </View>
+      );
+    }
+    const reason = blockedReason(p);
+    if (!reason) {
+      if (p.member_count >= p.max_members) {
+        return (
+          <Text style={{ color: colors.subtext, fontSize: 14, marginTop: 16 }}>
+            このルームは満員です
+          </Text>
+        );
+      }
+      return primaryButton('参加する', handleJoin);
+    }
+    return (
+      <View style={{ marginTop: 16 }}>
+        <Text style={{ color: colors.subtext, fontSize: 14 }}>{reason}</Text>
+        {p.request_status === 'rejected' && (
+          <Text style={{ color: colors.subtext, fontSize: 12, marginTop: 6 }}>
+            前回のリクエストは承認されませんでした
+          </Text>
+        )}
+        <TextInput
+          value={message}
+          onChangeText={setMessage}
+          placeholder="オーナーへのひとこと（任意）"
+          placeholderTextColor={colors.subtext}
+          maxLength={200}
+          multiline
+          style={{
+            color: colors.text,
+            fontSize: 14,
+            minHeight: 60,
+            marginTop: 12,
+            padding: 10,
+            borderRadius: theme.radius.md,
+            backgroundColor: colors.surface,
+          }}
+        />
+        {primaryButton('参加をリクエスト', handleRequest)}
+      </View>
+    );
+  };
+
+  return (
+    <View
+      style={{
+        flex: 1,
+        backgroundColor: colors.bg || '#000000',
+        paddingTop: 48,
+        paddingHorizontal: theme.spacing(2),
+      }}
+    >
+      <View style={{ flexDirection: 'row', alignItems: 'center' }}>
+        <Pressable
+          accessibilityRole="button"
+          accessibilityLabel="戻る"
+          onPress={onBack}
+        >
+          <Ionicons name="chevron-back" size={20} color={colors.text} />
+        </Pressable>
+        <Text
+          style={{
+            color: colors.text,
+            fontSize: 18,
+            fontWeight: 'bold',
+            marginLeft: 12,
+          }}
+        >
+          ルームへの招待
+        </Text>
+      </View>
+
+      {loading && !preview ? (
+        <ActivityIndicator color={colors.pink} style={{ marginTop: 32 }} />
+      ) : !preview ? (
+        <Text style={{ color: colors.subtext, fontSize: 14, marginTop: 24 }}>
+          {error || 'この招待リンクは無効です'}
+        </Text>
+      ) : (
+        <View
+          style={{
+            marginTop: 24,
+            padding: theme.spacing(2),
+            borderRadius: theme.radius.lg,
+            backgroundColor: colors.card,
+            borderColor: colors.border,
+            borderWidth: 1,
+          }}
+        >
+          <Text style={{ color: colors.text, fontSize: 20, fontWeight: '700' }}>
+            {preview.name}
+          </Text>
+          <Text style={{ color: colors.subtext, fontSize: 12, marginTop: 4 }}>
+            {preview.is_public ? '公開' : '非公開'}・{preview.member_count}/
+            {preview.max_members}人
+          </Text>
+          {!!preview.description && (
+            <Text style={{ color: colors.text, fontSize: 14, marginTop: 12 }}>
+              {preview.description}
+            </Text>
+          )}
+          {renderAction(preview)}
+        </View>
+      )}
+      <SpaceRulesSheet
+        visible={!!sheetMode && !!preview}
+        spaceName={preview?.name ?? ''}
+        rules={rules}
+        askQuestions={sheetMode === 'request'}
+        submitLabel={
+          sheetMode === 'request'
+            ? '参加をリクエスト'
+            : rules?.rules
+              ? 'ルールに同意して参加'
+              : '参加する'
+        }
+        onSubmit={answers =>
+          sheetMode === 'request' ? doRequest(answers) : doJoin()
+        }
+        onClose={() => setSheetMode(null)}
+      />
+    </View>
+  );
+}
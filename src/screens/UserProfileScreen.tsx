@@ -572,7 +572,7 @@ export default function UserProfileScreen({
               post={item}
               onOpenComments={() => {}}
               onOpenUser={() => {}}
-              onToggleLike={() => {}}
+              onReact={() => {}}
             />
           )}
           ListEmptyComponent={() => (
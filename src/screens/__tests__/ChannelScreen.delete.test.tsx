@@ -41,6 +41,34 @@ jest.mock('../../hooks/useRooms', () => ({
     error: null,
     refresh: jest.fn(),
   }),
+  useSpaceChannels: () => ({
+    channels: [],
+    loading: false,
+    error: null,
+    refresh: jest.fn(),
+    createChannel: jest.fn(),
+    updateChannel: jest.fn(),
+    setChannelArchived: jest.fn(),
+    reorderChannels: jest.fn(),
+    clearUnread: jest.fn(),
+  }),
+  useSpaceRules: () => ({
+    rules: null,
+    loading: false,
+    error: null,
+    refresh: jest.fn(),
+    accept: jest.fn(),
+    update: jest.fn(),
+  }),
+  useSpaceEvents: () => ({
+    events: [],
+    loading: false,
+    error: null,
+    refresh: jest.fn(),
+    createEvent: jest.fn(),
+    rsvp: jest.fn(),
+    cancelEvent: jest.fn(),
+  }),
 }));
 
 jest.mock('../../contexts/AuthContext', () => ({
@@ -0,0 +1,106 @@
+import { jest } from '@jest/globals';
+
+const mockUpsert = jest.fn<(row: any, opts: any) => void>();
+const mockInsert = jest.fn<(row: any) => void>();
+const mockIn = jest.fn<() => Promise<any>>();
+const mockSingle = jest.fn<() => Promise<any>>();
+
+jest.mock('../supabaseClient', () => ({
+  getSupabaseClient: () => ({
+    auth: {
+      getUser: async () => ({ data: { user: { id: 'me' } } }),
+    },
+    from: () => {
+      const b: any = {
+        select: () => b,
+        eq: () => b,
+        in: () => mockIn(),
+        single: () => mockSingle(),
+        upsert: (row: any, opts: any) => {
+          mockUpsert(row, opts);
+          return b;
+        },
+        insert: (row: any) => {
+          mockInsert(row);
+          return b;
+        },
+      };
+      return b;
+    },
+  }),
+}));
+
+import {
+  bookmarkPost,
+  createCollection,
+  fillBookmarks,
+} from '../bookmarkService';
+
+describe('bookmarkService', () => {
+  beforeEach(() => {
+    mockUpsert.mockReset();
+    mockInsert.mockReset();
+    mockIn.mockReset();
+    mockSingle.mockReset();
+  });
+
+  it('upserts the bookmark so saving again moves it between collections', async () => {
+    mockSingle.mockResolvedValue({
+      data: { collection_id: 'c1', created_at: '2026-01-01T00:00:00Z' },
+      error: null,
+    });
+    const res = await bookmarkPost('p1', 'c1');
+    expect(mockUpsert).toHaveBeenCalledWith(
+      { user_id: 'me', post_id: 'p1', collection_id: 'c1' },
+      { onConflict: 'user_id,post_id' }
+    );
+    expect(res).toEqual({
+      collection_id: 'c1',
+      bookmarked_at: '2026-01-01T00:00:00Z',
+    });
+  });
+
+  it('validates collection names before inserting', async () => {
+    await expect(createCollection('   ')).rejects.toMatchObject({
+      code: 'BOOKMARK_INVALID_INPUT',
+    });
+    await expect(createCollection('あ'.repeat(31))).rejects.toMatchObject({
+      code: 'BOOKMARK_INVALID_INPUT',
+    });
+    expect(mockInsert).not.toHaveBeenCalled();
+
+    mockSingle.mockResolvedValue({
+      data: null,
+      error: { code: '23505', message: 'duplicate key' },
+    });
+    await expect(createCollection(' 育児メモ ')).rejects.toMatchObject({
+      code: 'BOOKMARK_SAVE_FAILED',
+      message: '同じ名前のコレクションがあります',
+    });
+    expect(mockInsert).toHaveBeenCalledWith({
+      user_id: 'me',
+      name: '育児メモ',
+    });
+  });
+
+  it('marks saved posts and clears the rest', async () => {
+    mockIn.mockResolvedValue({
+      data: [{ post_id: 'p2', collection_id: null, created_at: '2026-01-02' }],
+      error: null,
+    });
+    const res = await fillBookmarks([{ id: 'p1' }, { id: 'p2' }]);
+    expect(res).toEqual([
+      { id: 'p1', bookmark: null },
+      {
+        id: 'p2',
+        bookmark: { collection_id: null, bookmarked_at: '2026-01-02' },
+      },
+    ]);
+  });
+
+  it('keeps items unchanged when the lookup fails', async () => {
+    mockIn.mockResolvedValue({ data: null, error: { message: 'boom' } });
+    const items = [{ id: 'p1' }];
+    await expect(fillBookmarks(items)).resolves.toBe(items);
+  });
+});
@@ -0,0 +1,123 @@
+import { jest } from '@jest/globals';
+
+const mockGetMessages =
+  jest.fn<(chatId: string, params: any) => Promise<any>>();
+
+// setup.ts はロガーだけのモックに差し替えているので、本物の伏せ字処理を使う
+jest.mock('../../utils/privacyProtection', () =>
+  jest.requireActual('../../utils/privacyProtection')
+);
+jest.mock('../supabaseClient', () => ({
+  getSupabaseClient: () => ({}),
+}));
+jest.mock('../chatService', () => ({
+  __esModule: true,
+  default: {
+    getMessages: (chatId: string, params: any) =>
+      mockGetMessages(chatId, params),
+  },
+}));
+
+import { MessageType } from '../../types/chat';
+import {
+  collectChatMessages,
+  formatChatExportText,
+  toChatExportEntry,
+} from '../chatExportService';
+
+function msg(id: string, createdAt: string, extra: any = {}): any {
+  return {
+    id,
+    chat_id: 'c1',
+    sender_id: 'u1',
+    content: `本文${id}`,
+    message_type: MessageType.TEXT,
+    created_at: createdAt,
+    updated_at: createdAt,
+    deleted_at: null,
+    metadata: null,
+    edited_at: null,
+    sender: { id: 'u1', display_name: 'はな', username: 'hana' },
+    ...extra,
+  };
+}
+
+describe('chatExportService', () => {
+  beforeEach(() => {
+    mockGetMessages.mockReset();
+  });
+
+  it('pages through getMessages with the cursor and returns oldest first', async () => {
+    mockGetMessages
+      .mockResolvedValueOnce({
+        success: true,
+        data: {
+          messages: [msg('3', 't3'), msg('2', 't2')],
+          has_more: true,
+          next_cursor: 't2',
+        },
+      })
+      .mockResolvedValueOnce({
+        success: true,
+        data: {
+          messages: [msg('2', 't2'), msg('1', 't1')],
+          has_more: false,
+          next_cursor: 't1',
+        },
+      });
+    const messages = await collectChatMessages('c1');
+    expect(messages.map(m => m.id)).toEqual(['1', '2', '3']);
+    expect(mockGetMessages).toHaveBeenLastCalledWith('c1', {
+      limit: 100,
+      cursor: 't2',
+    });
+  });
+
+  it('lists images as links and redacts sensitive metadata', () => {
+    const entry = toChatExportEntry(
+      msg('1', '2026-10-01T00:00:00.000Z', {
+        content: '[image]',
+        message_type: MessageType.IMAGE,
+        metadata: {
+          attachments: [{ url: 'https://x/a.jpg' }],
+          e2e: { v: 1 },
+          note: { access_token: 'abc', label: 'ok' },
+        },
+      })
+    );
+    expect(entry).toMatchObject({
+      text: '',
+      images: ['https://x/a.jpg'],
+      metadata: { note: { access_token: '[REDACTED]', label: 'ok' } },
+    });
+    expect(
+      toChatExportEntry(
+        msg('2', 't', { metadata: { e2e_status: 'undecryptable' } })
+      )
+    ).toBeNull();
+  });
+
+  it('formats a readable transcript', () => {
+    const sentAt = new Date(2026, 9, 1, 9, 5).toISOString();
+    const entry = toChatExportEntry(
+      msg('1', sentAt, {
+        content: 'こんにちは',
+        edited_at: sentAt,
+        metadata: { forwarded: true, audio_url: 'https://x/v.m4a' },
+      })
+    )!;
+    const text = formatChatExportText(
+      'はな',
+      [entry],
+      new Date(2026, 9, 2, 10, 0)
+    );
+    expect(text.split('\n')).toEqual([
+      'はな のトーク履歴',
+      '書き出し日時: 2026/10/02 10:00',
+      '',
+      '2026/10/01 09:05 はな: （転送）こんにちは（編集済み）',
+      '  [ボイスメッセージ] https://x/v.m4a',
+      '',
+    ]);
+  });
+});
@@ -0,0 +1,189 @@
+import { jest } from '@jest/globals';
+
+const mockRpc = jest.fn<(...args: any[]) => Promise<any>>();
+
+jest.mock('../supabaseClient', () => ({
+  getSupabaseClient: () => ({
+    rpc: mockRpc,
+    from: () => ({
+      select: () => ({
+        eq: () => ({
+          maybeSingle: async () => ({ data: null, error: null }),
+        }),
+      }),
+    }),
+    auth: {
+      getUser: async () => ({ data: { user: { id: 'me' } }, error: null }),
+    },
+  }),
+  supabaseClient: {},
+  initializeSupabase: jest.fn(),
+}));
+
+import { chatService } from '../chatService';
+import { ChatErrorCode, ParticipantRole } from '../../types/chat';
+
+describe('chatService group chats', () => {
+  beforeEach(() => {
+    mockRpc.mockReset();
+  });
+
+  it('validates title and member count before creating', async () => {
+    const noTitle = await chatService.createGroupChat({
+      title: '  ',
+      participant_ids: ['u1'],
+    });
+    expect(noTitle.success).toBe(false);
+
+    const tooMany = await chatService.createGroupChat({
+      title: '4月生まれ',
+      participant_ids: Array.from({ length: 20 }, (_, i) => `u${i}`),
+    });
+    expect(tooMany).toMatchObject({
+      success: false,
+      error_code: ChatErrorCode.VALIDATION_ERROR,
+    });
+    expect(mockRpc).not.toHaveBeenCalled();
+  });
+
+  it('creates a group with the current user as owner', async () => {
+    mockRpc.mockResolvedValue({ data: 'g1', error: null });
+    const res = await chatService.createOrGetChat({
+      participantIds: ['u1', 'u2', 'u1'],
+      type: 'group',
+      metadata: { title: ' 4月生まれ ' },
+    });
+    expect(mockRpc).toHaveBeenCalledWith('create_group_chat_v2', {
+      p_title: '4月生まれ',
+      p_member_ids: ['u1', 'u2'],
+    });
+    expect(res.success && res.data).toMatchObject({
+      id: 'g1',
+      chat_type: 'group',
+      metadata: { title: '4月生まれ' },
+      member_count: 3,
+      my_role: ParticipantRole.OWNER,
+    });
+  });
+
+  it('maps permission errors from member management', async () => {
+    mockRpc.mockResolvedValue({
+      data: null,
+      error: { message: 'Permission denied' },
+    });
+    const res = await chatService.removeGroupMember('g1', 'u1');
+    expect(res).toMatchObject({
+      success: false,
+      error_code: ChatErrorCode.ACCESS_DENIED,
+    });
+  });
+
+  it('includes groups in the chat list sorted by latest activity', async () => {
+    mockRpc.mockImplementation(async (fn: string) => {
+      if (fn === 'get_user_conversations') {
+        return {
+          data: [
+            {
+              id: 'd1',
+              participant_id: 'u1',
+              participant_username: 'u1',
+              last_message_content: 'hi',
+              last_message_created_at: '2026-01-01T00:00:00Z',
+              updated_at: '2026-01-01T00:00:00Z',
+            },
+          ],
+          error: null,
+        };
+      }
+      return {
+        data: [
+          {
+            id: 'g1',
+            title: '4月生まれ',
+            member_count: 5,
+            my_role: 'admin',
+            last_message_content: 'さくらさんが参加しました',
+            last_message_type: 'system',
+            last_message_created_at: '2026-01-02T00:00:00Z',
+            unread_count: 2,
+            updated_at: '2026-01-02T00:00:00Z',
+          },
+        ],
+        error: null,
+      };
+    });
+
+    const res = await chatService.getChats();
+    expect(res.success).toBe(true);
+    const chats = res.success ? res.data.chats : [];
+    expect(chats.map(c => c.id)).toEqual(['g1', 'd1']);
+    expect(chats[0]).toMatchObject({
+      chat_type: 'group',
+      member_count: 5,
+      my_role: ParticipantRole.ADMIN,
+      unread_count: 2,
+    });
+  });
+
+  it('opens a group by id even when it is not in the recent list', async () => {
+    mockRpc.mockImplementation(async (fn: string, args: any) => {
+      if (fn === 'get_user_conversations') {
+        return { data: [], error: null };
+      }
+      return {
+        data:
+          args.p_conversation_id === 'g9'
+            ? [{ id: 'g9', title: '古いグループ', member_count: 3 }]
+            : [],
+        error: null,
+      };
+    });
+
+    const res = await chatService.getChat('g9');
+    expect(mockRpc).toHaveBeenCalledWith('get_group_conversations_v2', {
+      p_limit: 1,
+      p_conversation_id: 'g9',
+    });
+    expect(res.success && res.data).toMatchObject({
+      id: 'g9',
+      chat_type: 'group',
+      member_count: 3,
+    });
+
+    const missing = await chatService.getChat('g10');
+    expect(missing).toMatchObject({
+      success: false,
+      error_code: ChatErrorCode.CHAT_NOT_FOUND,
+    });
+  });
+
+  it('sends to a group when the chat is not a direct conversation', async () => {
+    mockRpc.mockImplementation(async (fn: string) => {
+      if (fn === 'get_user_conversations') {
+        return { data: [], error: null };
+      }
+      return {
+        data: {
+          id: 'm1',
+          conversation_id: 'g1',
+          sender_id: 'me',
+          content: 'こんにちは',
+          message_type: 'text',
+          created_at: '2026-01-01T00:00:00Z',
+          updated_at: '2026-01-01T00:00:00Z',
+          metadata: {},
+        },
+        error: null,
+      };
+    });
+    const res = await chatService.sendMessage({
+      chat_id: 'g1',
+      content: 'こんにちは',
+    });
+    expect(res.success).toBe(true);
+    expect(mockRpc).toHaveBeenCalledWith(
+      'send_group_message_v2',
+      expect.objectContaining({ p_conversation_id: 'g1' })
+    );
+  });
+});
@@ -0,0 +1,133 @@
+import { jest } from '@jest/globals';
+
+const mockAuthGetUser = jest.fn(async () => ({
+  data: { user: { id: 'me' } },
+  error: null,
+}));
+
+let mockLastWrite: { op: string; row: any } | null = null;
+let mockShouldError = false;
+
+jest.mock('../supabaseClient', () => ({
+  getSupabaseClient: () => ({
+    auth: { getUser: mockAuthGetUser },
+    from: () => {
+      const builder: any = {
+        insert(row: any) {
+          mockLastWrite = { op: 'insert', row };
+          return builder;
+        },
+        update(row: any) {
+          mockLastWrite = { op: 'update', row };
+          return builder;
+        },
+        eq() {
+          return builder;
+        },
+        select() {
+          return builder;
+        },
+        single() {
+          if (mockShouldError) {
+            return Promise.resolve({ data: null, error: { message: 'boom' } });
+          }
+          return Promise.resolve({
+            data: {
+              id: 'd1',
+              ...mockLastWrite?.row,
+              created_at: '2026-01-01T00:00:00Z',
+              updated_at: '2026-01-01T00:00:00Z',
+            },
+            error: null,
+          });
+        },
+      };
+      return builder;
+    },
+  }),
+}));
+
+import {
+  defaultScheduleDate,
+  saveDraft,
+  scheduleDateAt,
+  schedulePresets,
+  validateScheduleTime,
+} from '../draftService';
+
+describe('draftService', () => {
+  beforeEach(() => {
+    mockLastWrite = null;
+    mockShouldError = false;
+  });
+
+  it('saveDraft inserts a plain draft for the current user', async () => {
+    const d = await saveDraft({ body: 'hello' });
+    expect(mockLastWrite?.op).toBe('insert');
+    expect(mockLastWrite?.row).toMatchObject({
+      user_id: 'me',
+      body: 'hello',
+      status: 'draft',
+      scheduled_at: null,
+      content_warning: null,
+    });
+    expect(d.id).toBe('d1');
+  });
+
+  it('saveDraft keeps the content warning of the post', async () => {
+    const d = await saveDraft({ body: 'つらい話', contentWarning: 'nicu' });
+    expect(mockLastWrite?.row).toMatchObject({ content_warning: 'nicu' });
+    expect(d.content_warning).toBe('nicu');
+  });
+
+  it('saveDraft updates and schedules an existing draft', async () => {
+    const at = new Date(Date.now() + 2 * 60 * 60 * 1000);
+    await saveDraft({ id: 'd1', body: 'later', scheduledAt: at });
+    expect(mockLastWrite?.op).toBe('update');
+    expect(mockLastWrite?.row).toMatchObject({
+      status: 'scheduled',
+      scheduled_at: at.toISOString(),
+    });
+  });
+
+  it('saveDraft rejects empty content', async () => {
+    await expect(saveDraft({ body: '   ' })).rejects.toThrow(
+      '投稿内容または画像を追加してください'
+    );
+  });
+
+  it('saveDraft throws contextual error on failure', async () => {
+    mockShouldError = true;
+    await expect(saveDraft({ body: 'x' })).rejects.toThrow('[saveDraft]');
+  });
+
+  it('validateScheduleTime rejects times too soon or too far', () => {
+    const now = new Date('2026-01-01T10:00:00');
+    expect(() =>
+      validateScheduleTime(new Date('2026-01-01T10:01:00'), now)
+    ).toThrow();
+    expect(() =>
+      validateScheduleTime(new Date('2026-03-01T10:00:00'), now)
+    ).toThrow();
+    expect(() =>
+      validateScheduleTime(new Date('2026-01-01T12:00:00'), now)
+    ).not.toThrow();
+  });
+
+  it('schedulePresets drops presets that already passed', () => {
+    const late = new Date('2026-01-01T22:00:00');
+    const labels = schedulePresets(late).map(p => p.label);
+    expect(labels).not.toContain('今夜21:00');
+    expect(labels).toContain('明日の朝7:00');
+  });
+
+  it('scheduleDateAt builds a local date from the picked day and time', () => {
+    const now = new Date('2026-01-31T22:10:00');
+    expect(scheduleDateAt(1, 9, 45, now)).toEqual(
+      new Date('2026-02-01T09:45:00')
+    );
+    const initial = defaultScheduleDate(now);
+    expect(initial).toEqual(new Date('2026-01-31T23:15:00'));
+    expect(() => validateScheduleTime(initial, now)).not.toThrow();
+  });
+});
@@ -0,0 +1,213 @@
+import { jest } from '@jest/globals';
+import { webcrypto } from 'crypto';
+import { TextDecoder, TextEncoder } from 'util';
+
+const mockSecureStore = new Map<string, string>();
+
+jest.mock('expo-secure-store', () => ({
+  WHEN_UNLOCKED_THIS_DEVICE_ONLY: 'WHEN_UNLOCKED_THIS_DEVICE_ONLY',
+  getItemAsync: async (key: string) => mockSecureStore.get(key) ?? null,
+  setItemAsync: async (key: string, value: string) => {
+    mockSecureStore.set(key, value);
+  },
+}));
+
+// user_device_keys の代わり。テストごとに登録済みの端末の鍵を入れる
+const mockRegisteredKeys: {
+  user_id: string;
+  device_id: string;
+  public_key: string;
+}[] = [];
+// conversations.e2e_enabled の読み取り結果
+let mockConversationRead: { data: any; error: any } = {
+  data: null,
+  error: null,
+};
+
+jest.mock('../supabaseClient', () => ({
+  getSupabaseClient: () => ({
+    from: () => ({
+      select: () => ({
+        in: (_column: string, userIds: string[]) => ({
+          is: () => ({
+            order: async () => ({
+              data: mockRegisteredKeys.filter(k => userIds.includes(k.user_id)),
+              error: null,
+            }),
+          }),
+        }),
+        eq: () => ({
+          maybeSingle: async () => mockConversationRead,
+        }),
+      }),
+    }),
+  }),
+}));
+
+// テスト環境に WebCrypto がない場合は Node の実装を使う
+if (!(globalThis as any).crypto?.subtle) {
+  Object.defineProperty(globalThis, 'crypto', {
+    value: webcrypto,
+    configurable: true,
+  });
+}
+Object.assign(globalThis, { TextEncoder, TextDecoder });
+
+type E2E = typeof import('../e2eService');
+
+// 端末ごとの鍵をモジュール内にキャッシュするので、端末ごとに読み込み直す
+function loadDevice(): E2E {
+  let mod!: E2E;
+  jest.isolateModules(() => {
+    mod = require('../e2eService');
+  });
+  return mod;
+}
+
+// 端末の鍵を作って登録済みにする
+async function deviceKey(e2e: E2E, userId: string) {
+  const identity = await e2e.getDeviceIdentity(userId);
+  mockRegisteredKeys.push({
+    user_id: userId,
+    device_id: identity.deviceId,
+    public_key: identity.publicKey,
+  });
+  return { userId, deviceId: identity.deviceId, publicKey: identity.publicKey };
+}
+
+describe('e2eService', () => {
+  beforeEach(() => {
+    mockSecureStore.clear();
+    mockRegisteredKeys.length = 0;
+    mockConversationRead = { data: null, error: null };
+  });
+
+  it('lets the recipient and the sender read the message, but not a new device', async () => {
+    const alice = loadDevice();
+    const bob = loadDevice();
+    const recipients = [
+      await deviceKey(alice, 'alice'),
+      await deviceKey(bob, 'bob'),
+    ];
+    const payload = {
+      content: 'こんにちは',
+      metadata: { attachments: [{ url: 'https://example.com/a.jpg' }] },
+    };
+
+    const envelope = await alice.encryptPayload(
+      'alice',
+      'chat-1',
+      payload,
+      recipients
+    );
+    expect(JSON.stringify(envelope)).not.toContain('こんにちは');
+
+    expect(
+      await bob.decryptEnvelope('bob', 'chat-1', envelope, 'alice')
+    ).toEqual(payload);
+    expect(
+      await alice.decryptEnvelope('alice', 'chat-1', envelope, 'alice')
+    ).toEqual(payload);
+
+    // 送信後に追加した bob の端末には鍵が包まれていない
+    mockSecureStore.clear();
+    const bobNewPhone = loadDevice();
+    expect(
+      await bobNewPhone.decryptEnvelope('bob', 'chat-1', envelope, 'alice')
+    ).toBeNull();
+  });
+
+  it('rejects tampered ciphertext and other conversations', async () => {
+    const alice = loadDevice();
+    const bob = loadDevice();
+    const envelope = await alice.encryptPayload(
+      'alice',
+      'chat-1',
+      { content: 'secret' },
+      [await deviceKey(bob, 'bob')]
+    );
+
+    const tampered = {
+      ...envelope,
+      ciphertext: envelope.ciphertext.replace(/^./, c =>
+        c === 'A' ? 'B' : 'A'
+      ),
+    };
+    expect(
+      await bob.decryptEnvelope('bob', 'chat-1', tampered, 'alice')
+    ).toBeNull();
+    expect(
+      await bob.decryptEnvelope('bob', 'chat-2', envelope, 'alice')
+    ).toBeNull();
+  });
+
+  it('rejects a sender key that is not registered to the sender', async () => {
+    const alice = loadDevice();
+    const bob = loadDevice();
+    const bobKey = await deviceKey(bob, 'bob');
+    // 登録していない端末の鍵で、alice になりすまして送る
+    const mallory = loadDevice();
+    const forged = await mallory.encryptPayload(
+      'mallory',
+      'chat-1',
+      { content: 'なりすまし' },
+      [bobKey]
+    );
+    expect(
+      await bob.decryptEnvelope('bob', 'chat-1', forged, 'alice')
+    ).toBeNull();
+
+    // 登録済みの鍵でも、別の人の鍵では受け付けない
+    await deviceKey(alice, 'alice');
+    const fromAlice = await alice.encryptPayload(
+      'alice',
+      'chat-1',
+      { content: 'こんにちは' },
+      [bobKey]
+    );
+    expect(
+      await bob.decryptEnvelope('bob', 'chat-1', fromAlice, 'bob')
+    ).toBeNull();
+    expect(
+      await bob.decryptEnvelope('bob', 'chat-1', fromAlice, 'alice')
+    ).toEqual({ content: 'こんにちは' });
+  });
+
+  it('refuses to encrypt when the recipient has no devices', async () => {
+    const alice = loadDevice();
+    await expect(
+      alice.encryptPayload('alice', 'chat-1', { content: 'x' }, [])
+    ).rejects.toMatchObject({ code: 'E2E_NO_RECIPIENT_KEYS' });
+  });
+
+  it('computes the same safety number on both sides and changes with the keys', async () => {
+    const alice = loadDevice();
+    const bob = loadDevice();
+    const a = { userId: 'alice', keys: [await deviceKey(alice, 'alice')] };
+    const b = { userId: 'bob', keys: [await deviceKey(bob, 'bob')] };
+
+    const fromAlice = await alice.computeSafetyNumber(a, b);
+    const fromBob = await bob.computeSafetyNumber(b, a);
+    expect(fromAlice).toMatch(/^\d{60}$/);
+    expect(fromBob).toBe(fromAlice);
+    expect(alice.formatSafetyNumber(fromAlice)).toHaveLength(12);
+
+    mockSecureStore.clear();
+    const bobNewPhone = loadDevice();
+    const changed = await alice.computeSafetyNumber(a, {
+      userId: 'bob',
+      keys: [...b.keys, await deviceKey(bobNewPhone, 'bob')],
+    });
+    expect(changed).not.toBe(fromAlice);
+  });
+
+  it('fails closed when the E2E setting cannot be read', async () => {
+    const e2e = loadDevice();
+    mockConversationRead = { data: { e2e_enabled: true }, error: null };
+    await expect(e2e.isConversationE2E('chat-1')).resolves.toBe(true);
+    mockConversationRead = { data: null, error: { message: 'timeout' } };
+    await expect(e2e.isConversationE2E('chat-1')).rejects.toThrow(
+      '[isConversationE2E]'
+    );
+  });
+});
@@ -0,0 +1,46 @@
+import { jest } from '@jest/globals';
+
+const mockWrite = jest.fn<(uri: string, content: string) => Promise<void>>();
+const mockShare = jest.fn<(uri: string, options: any) => Promise<void>>();
+const mockAvailable = jest.fn<() => Promise<boolean>>();
+
+jest.mock('expo-file-system', () => ({
+  cacheDirectory: 'file:///cache/',
+  writeAsStringAsync: (uri: string, content: string) => mockWrite(uri, content),
+}));
+jest.mock('expo-sharing', () => ({
+  isAvailableAsync: () => mockAvailable(),
+  shareAsync: (uri: string, options: any) => mockShare(uri, options),
+}));
+
+import { ICS_FILE_TYPE, shareTextFile } from '../fileShareService';
+
+describe('fileShareService', () => {
+  beforeEach(() => {
+    mockWrite.mockReset().mockResolvedValue();
+    mockShare.mockReset().mockResolvedValue();
+    mockAvailable.mockReset().mockResolvedValue(true);
+  });
+
+  it('writes the content to a cache file and shares its uri', async () => {
+    await shareTextFile('event-1.ics', 'BEGIN:VCALENDAR', ICS_FILE_TYPE);
+    expect(mockWrite).toHaveBeenCalledWith(
+      'file:///cache/event-1.ics',
+      'BEGIN:VCALENDAR'
+    );
+    expect(mockShare).toHaveBeenCalledWith('file:///cache/event-1.ics', {
+      mimeType: 'text/calendar',
+      UTI: 'com.apple.ical.ics',
+      dialogTitle: 'event-1.ics',
+    });
+  });
+
+  it('fails without writing when sharing is not available', async () => {
+    mockAvailable.mockResolvedValue(false);
+    await expect(
+      shareTextFile('chat.txt', '本文', ICS_FILE_TYPE)
+    ).rejects.toThrow();
+    expect(mockWrite).not.toHaveBeenCalled();
+    expect(mockShare).not.toHaveBeenCalled();
+  });
+});
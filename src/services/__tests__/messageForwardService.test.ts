@@ -0,0 +1,122 @@
+import { jest } from '@jest/globals';
+
+const mockSendMessage = jest.fn<(req: any) => Promise<any>>();
+const mockSendChannelMessage = jest.fn<(req: any) => Promise<any>>();
+
+jest.mock('../supabaseClient', () => ({
+  getSupabaseClient: () => ({}),
+}));
+jest.mock('../chatService', () => ({
+  __esModule: true,
+  default: { sendMessage: (req: any) => mockSendMessage(req) },
+}));
+jest.mock('../roomService', () => ({
+  RoomService: {
+    sendChannelMessage: (req: any) => mockSendChannelMessage(req),
+  },
+}));
+
+import { MessageType } from '../../types/chat';
+import {
+  forwardToChannel,
+  forwardToChat,
+  forwardableFromChannelMessage,
+  forwardableFromChatMessage,
+} from '../messageForwardService';
+
+describe('messageForwardService', () => {
+  beforeEach(() => {
+    mockSendMessage.mockReset();
+    mockSendChannelMessage.mockReset();
+  });
+
+  it('forwards a channel image message to a DM with the forwarded marker', async () => {
+    mockSendMessage.mockResolvedValue({ success: true });
+    const message = forwardableFromChannelMessage({
+      content: '[image]',
+      message_type: 'image',
+      attachments: [{ url: 'https://x/a.jpg', width: 10, height: 20 }],
+      deleted_at: null,
+      is_masked: false,
+    });
+    await forwardToChat('chat1', message!);
+    expect(mockSendMessage).toHaveBeenCalledWith({
+      chat_id: 'chat1',
+      content: '',
+      message_type: MessageType.IMAGE,
+      metadata: {
+        forwarded: true,
+        attachments: [
+          {
+            url: 'https://x/a.jpg',
+            width: 10,
+            height: 20,
+            mime: undefined,
+          },
+        ],
+      },
+    });
+  });
+
+  it('forwards a shared post from a DM to a channel as a post reference', async () => {
+    mockSendChannelMessage.mockResolvedValue({ success: true });
+    const message = forwardableFromChatMessage({
+      content: 'これ見て',
+      message_type: MessageType.POST_SHARE,
+      metadata: { shared_post_id: 'p1' },
+      deleted_at: null,
+    });
+    await forwardToChannel('ch1', message!);
+    expect(mockSendChannelMessage).toHaveBeenCalledWith({
+      channel_id: 'ch1',
+      content: 'これ見て',
+      message_type: 'post_share',
+      attachments: [{ type: 'post', post_id: 'p1' }],
+      is_forwarded: true,
+    });
+  });
+
+  it('reports channel send failures with a user-facing message', async () => {
+    mockSendChannelMessage.mockResolvedValue({ error: 'Not authenticated' });
+    const message = forwardableFromChatMessage({
+      content: 'これ見て',
+      message_type: MessageType.TEXT,
+      metadata: null,
+      deleted_at: null,
+    });
+    await expect(forwardToChannel('ch1', message!)).rejects.toMatchObject({
+      code: 'FORWARD_FAILED',
+      message: '転送に失敗しました',
+    });
+  });
+
+  it('refuses system, unreadable and voice-to-channel forwards', async () => {
+    expect(
+      forwardableFromChatMessage({
+        content: '参加しました',
+        message_type: MessageType.SYSTEM,
+        metadata: null,
+        deleted_at: null,
+      })
+    ).toBeNull();
+    expect(
+      forwardableFromChatMessage({
+        content: '暗号化されたメッセージ',
+        message_type: MessageType.TEXT,
+        metadata: { e2e_status: 'undecryptable' },
+        deleted_at: null,
+      })
+    ).toBeNull();
+
+    const voice = forwardableFromChatMessage({
+      content: '🎤 ボイスメッセージ',
+      message_type: MessageType.AUDIO,
+      metadata: { audio_url: 'https://x/v.m4a', audio_duration_ms: 1200 },
+      deleted_at: null,
+    });
+    await expect(forwardToChannel('ch1', voice!)).rejects.toMatchObject({
+      code: 'FORWARD_UNSUPPORTED',
+    });
+    expect(mockSendChannelMessage).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,93 @@
+import { jest } from '@jest/globals';
+
+const mockSelectResult = jest.fn<() => Promise<any>>();
+
+jest.mock('../supabaseClient', () => ({
+  getSupabaseClient: () => ({
+    auth: {
+      getUser: async () => ({ data: { user: { id: 'me' } } }),
+    },
+    from: () => {
+      const b: any = {
+        select: () => b,
+        eq: () => b,
+        order: () => mockSelectResult(),
+      };
+      return b;
+    },
+  }),
+}));
+
+import {
+  MutedTerm,
+  clearMutedTermCache,
+  createMuteMatcher,
+  filterMuted,
+  muteExpiresAt,
+  normalizeMuteInput,
+} from '../mutedTermService';
+
+const NOW = new Date('2026-01-01T00:00:00Z');
+
+const term = (overrides: Partial<MutedTerm>): MutedTerm => ({
+  id: 't1',
+  kind: 'word',
+  term: 'ネタバレ',
+  expires_at: null,
+  created_at: '2025-12-31T00:00:00Z',
+  ...overrides,
+});
+
+describe('mutedTermService', () => {
+  beforeEach(() => {
+    clearMutedTermCache();
+    mockSelectResult.mockReset();
+  });
+
+  it('normalizes words and hashtags with NFKC', () => {
+    expect(normalizeMuteInput('  ＡＢＣ  ')).toEqual({ kind: 'word', term: 'abc' });
+    expect(normalizeMuteInput('#夜泣き！')).toEqual({
+      kind: 'hashtag',
+      term: '夜泣き',
+    });
+    expect(normalizeMuteInput('＃ＮＩＣＵ')).toEqual({
+      kind: 'hashtag',
+      term: 'nicu',
+    });
+    expect(normalizeMuteInput('#!!')).toBeNull();
+    expect(normalizeMuteInput('   ')).toBeNull();
+  });
+
+  it('computes expiry for each duration', () => {
+    expect(muteExpiresAt('24h', NOW)).toBe('2026-01-02T00:00:00.000Z');
+    expect(muteExpiresAt('7d', NOW)).toBe('2026-01-08T00:00:00.000Z');
+    expect(muteExpiresAt('forever', NOW)).toBeNull();
+  });
+
+  it('matches words by substring and hashtags exactly, ignoring expired terms', () => {
+    const isMuted = createMuteMatcher(
+      [
+        term({ term: 'abc' }),
+        term({ id: 't2', kind: 'hashtag', term: '夜泣き' }),
+        term({ id: 't3', term: '離乳食', expires_at: '2025-12-31T23:00:00Z' }),
+      ],
+      NOW
+    );
+    expect(isMuted('今日はＡＢＣの日')).toBe(true);
+    expect(isMuted('つらい #夜泣き')).toBe(true);
+    expect(isMuted('つらい #夜泣き対策')).toBe(false);
+    expect(isMuted('離乳食はじめました')).toBe(false);
+    expect(isMuted(null)).toBe(false);
+  });
+
+  it('filterMuted drops items whose text is muted', async () => {
+    mockSelectResult.mockResolvedValue({
+      data: [term({ term: 'ネタバレ' })],
+      error: null,
+    });
+    const items = [{ body: '最終回のネタバレ' }, { body: 'おはよう' }];
+    await expect(filterMuted(items, it => it.body)).resolves.toEqual([
+      { body: 'おはよう' },
+    ]);
+  });
+});
@@ -0,0 +1,167 @@
+import { jest } from '@jest/globals';
+
+const mockSendMessage = jest.fn<(...args: any[]) => Promise<any>>();
+const mockSendChannelMessage = jest.fn<(...args: any[]) => Promise<any>>();
+const mockStore = new Map<string, string>();
+
+jest.mock('@react-native-async-storage/async-storage', () => ({
+  __esModule: true,
+  default: {
+    getItem: async (key: string) => mockStore.get(key) ?? null,
+    setItem: async (key: string, value: string) => {
+      mockStore.set(key, value);
+    },
+  },
+}));
+
+jest.mock('../chatService', () => ({
+  __esModule: true,
+  default: { sendMessage: (...args: any[]) => mockSendMessage(...args) },
+}));
+
+jest.mock('../roomService', () => ({
+  RoomService: {
+    sendChannelMessage: (...args: any[]) => mockSendChannelMessage(...args),
+  },
+}));
+
+jest.mock('../supabaseClient', () => ({
+  getSupabaseClient: () => ({
+    auth: {
+      getSession: async () => ({
+        data: { session: { user: { id: 'me' } } },
+      }),
+    },
+  }),
+}));
+
+import { ChatErrorCode } from '../../types/chat';
+
+type Outbox = typeof import('../outboxService');
+
+// モジュール内にキューを持つので、テストごとに読み込み直す
+function loadOutbox(): Outbox {
+  let mod!: Outbox;
+  jest.isolateModules(() => {
+    mod = require('../outboxService');
+  });
+  return mod;
+}
+
+const dm = {
+  kind: 'dm' as const,
+  targetId: 'chat-1',
+  senderId: 'me',
+  content: 'こんにちは',
+  messageType: 'text',
+};
+
+describe('outboxService', () => {
+  beforeEach(() => {
+    mockStore.clear();
+    mockSendMessage.mockReset();
+    mockSendChannelMessage.mockReset();
+  });
+
+  it('sends a DM with its client id as the idempotency key', async () => {
+    mockSendMessage.mockResolvedValue({
+      success: true,
+      data: { id: 'm1' },
+    });
+    const outbox = loadOutbox();
+    const events: string[] = [];
+    outbox.subscribeOutbox(e => events.push(e.type));
+
+    const item = await outbox.enqueueMessage(dm);
+    await outbox.flushOutbox();
+
+    expect(mockSendMessage).toHaveBeenCalledWith(
+      expect.objectContaining({
+        chat_id: 'chat-1',
+        metadata: { client_message_id: item.id },
+      })
+    );
+    expect(events).toContain('sent');
+    expect(await outbox.getOutboxItems('chat-1')).toEqual([]);
+  });
+
+  it('keeps network failures pending with backoff and reuses the same id', async () => {
+    mockSendMessage.mockResolvedValueOnce({
+      success: false,
+      error: '通信できませんでした。',
+      error_code: ChatErrorCode.NETWORK_ERROR,
+    });
+    const outbox = loadOutbox();
+    const item = await outbox.enqueueMessage(dm);
+    await outbox.flushOutbox();
+
+    const [queued] = await outbox.getOutboxItems('chat-1');
+    expect(queued).toMatchObject({ status: 'pending', attempts: 1 });
+    expect(queued!.nextAttemptAt).toBeGreaterThan(Date.now());
+
+    // 待ち時間中は送らない
+    await outbox.flushOutbox();
+    expect(mockSendMessage).toHaveBeenCalledTimes(1);
+
+    mockSendMessage.mockResolvedValueOnce({
+      success: true,
+      data: { id: 'm1' },
+    });
+    await outbox.flushOutbox(true);
+    expect(mockSendMessage).toHaveBeenCalledTimes(2);
+    expect(mockSendMessage.mock.calls[1]![0]).toMatchObject({
+      metadata: { client_message_id: item.id },
+    });
+    expect(await outbox.getOutboxItems('chat-1')).toEqual([]);
+  });
+
+  it('marks server rejections as failed until retried by hand', async () => {
+    mockSendChannelMessage.mockResolvedValue({ error: 'permission denied' });
+    const outbox = loadOutbox();
+    const item = await outbox.enqueueMessage({
+      ...dm,
+      kind: 'channel',
+      targetId: 'ch-1',
+    });
+    await outbox.flushOutbox();
+
+    expect(mockSendChannelMessage).toHaveBeenCalledWith(
+      expect.objectContaining({ channel_id: 'ch-1', client_id: item.id })
+    );
+    const [failed] = await outbox.getOutboxItems('ch-1');
+    expect(failed).toMatchObject({
+      status: 'failed',
+      lastError: 'permission denied',
+    });
+
+    mockSendChannelMessage.mockResolvedValue({
+      success: true,
+      data: { message_id: 'r1' },
+    });
+    await outbox.retryOutboxItem(item.id);
+    await outbox.flushOutbox();
+    expect(await outbox.getOutboxItems('ch-1')).toEqual([]);
+  });
+
+  it('restores queued messages after a restart', async () => {
+    mockSendMessage.mockResolvedValue({
+      success: false,
+      error: '通信できませんでした。',
+      error_code: ChatErrorCode.NETWORK_ERROR,
+    });
+    const first = loadOutbox();
+    const item = await first.enqueueMessage(dm);
+    await first.flushOutbox();
+
+    const second = loadOutbox();
+    const [restored] = await second.getOutboxItems('chat-1');
+    expect(restored).toMatchObject({ id: item.id, status: 'pending' });
+  });
+
+  it('backs off exponentially up to a cap', async () => {
+    const { retryDelayMs } = loadOutbox();
+    expect(retryDelayMs(1)).toBe(2000);
+    expect(retryDelayMs(3)).toBe(8000);
+    expect(retryDelayMs(20)).toBe(5 * 60 * 1000);
+  });
+});
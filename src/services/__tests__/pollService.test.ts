@@ -0,0 +1,112 @@
+import { jest } from '@jest/globals';
+
+const mockRpc = jest.fn<(...args: any[]) => Promise<any>>();
+
+jest.mock('../supabaseClient', () => ({
+  getSupabaseClient: () => ({ rpc: mockRpc }),
+}));
+
+import {
+  applyMyVote,
+  fetchPolls,
+  normalizePollInput,
+  pollPercentages,
+  votePoll,
+} from '../pollService';
+import { Poll } from '../../types/post';
+
+const NOW = new Date('2026-01-01T00:00:00Z');
+
+const poll = (overrides: Partial<Poll> = {}): Poll => ({
+  post_id: 'p1',
+  allows_multiple: false,
+  closes_at: '2026-01-02T00:00:00Z',
+  total_votes: 3,
+  voter_count: 3,
+  options: [
+    { id: 'a', label: 'A', position: 0, votes: 2, votedByMe: true },
+    { id: 'b', label: 'B', position: 1, votes: 1, votedByMe: false },
+  ],
+  ...overrides,
+});
+
+describe('pollService', () => {
+  beforeEach(() => {
+    mockRpc.mockReset();
+  });
+
+  it('normalizePollInput trims options and validates count and closing time', () => {
+    expect(
+      normalizePollInput(
+        { options: [' A ', 'B', ''], closes_at: '2026-01-02T00:00:00Z' },
+        NOW
+      )
+    ).toEqual({
+      options: ['A', 'B'],
+      closes_at: '2026-01-02T00:00:00Z',
+      allows_multiple: false,
+    });
+    expect(() =>
+      normalizePollInput(
+        { options: ['A'], closes_at: '2026-01-02T00:00:00Z' },
+        NOW
+      )
+    ).toThrow('選択肢は2〜4個');
+    expect(() =>
+      normalizePollInput({ options: ['A', 'A'], closes_at: '2026-01-02T00:00:00Z' }, NOW)
+    ).toThrow('同じ選択肢');
+    expect(() =>
+      normalizePollInput({ options: ['A', 'B'], closes_at: '2026-01-09T00:00:00Z' }, NOW)
+    ).toThrow('締切');
+  });
+
+  it('applyMyVote moves a single-choice vote and keeps voter count', () => {
+    const next = applyMyVote(poll(), ['b']);
+    expect(next.options.map(o => [o.votes, o.votedByMe])).toEqual([
+      [1, false],
+      [2, true],
+    ]);
+    expect(next.voter_count).toBe(3);
+    const cleared = applyMyVote(poll(), []);
+    expect(cleared.voter_count).toBe(2);
+    expect(cleared.total_votes).toBe(2);
+  });
+
+  it('pollPercentages uses voters as the base for multiple choice', () => {
+    expect(pollPercentages(poll())).toEqual([67, 33]);
+    expect(
+      pollPercentages(poll({ allows_multiple: true, total_votes: 3, voter_count: 2 }))
+    ).toEqual([100, 50]);
+  });
+
+  it('fetchPolls maps rows by post id and votePoll refetches the poll', async () => {
+    const row = {
+      post_id: 'p1',
+      allows_multiple: false,
+      closes_at: '2026-01-02T00:00:00Z',
+      total_votes: '1',
+      voter_count: '1',
+      options: [
+        { id: 'b', label: 'B', position: 1, votes: 0, voted_by_me: false },
+        { id: 'a', label: 'A', position: 0, votes: 1, voted_by_me: true },
+      ],
+    };
+    mockRpc.mockResolvedValueOnce({ data: [row], error: null });
+    const map = await fetchPolls(['p1', 'p2', 'p1']);
+    expect(mockRpc).toHaveBeenCalledWith('get_post_polls_v2', {
+      p_post_ids: ['p1', 'p2'],
+    });
+    expect(map.p1?.options.map(o => o.id)).toEqual(['a', 'b']);
+    expect(map.p2).toBeUndefined();
+
+    mockRpc
+      .mockResolvedValueOnce({ data: true, error: null })
+      .mockResolvedValueOnce({ data: [row], error: null });
+    const updated = await votePoll('p1', ['a']);
+    expect(mockRpc).toHaveBeenCalledWith('vote_poll_v2', {
+      p_post_id: 'p1',
+      p_option_ids: ['a'],
+    });
+    expect(updated?.total_votes).toBe(1);
+  });
+});
@@ -0,0 +1,66 @@
+import { jest } from '@jest/globals';
+
+const mockRpc = jest.fn<(...args: any[]) => Promise<any>>();
+
+jest.mock('../supabaseClient', () => ({
+  getSupabaseClient: () => ({
+    rpc: mockRpc,
+  }),
+}));
+
+import { POST_EDIT_WINDOW_MS, canEditPost, editPost } from '../postService';
+
+const NOW = new Date('2026-01-01T00:30:00Z');
+
+const minutesAgo = (m: number) =>
+  new Date(Date.now() - m * 60 * 1000).toISOString();
+
+describe('postService edit', () => {
+  beforeEach(() => {
+    mockRpc.mockReset();
+  });
+
+  it('allows editing only within the edit window', () => {
+    const at = (ms: number) => ({
+      created_at: new Date(NOW.getTime() - ms).toISOString(),
+    });
+    expect(canEditPost(at(0), NOW)).toBe(true);
+    expect(canEditPost(at(POST_EDIT_WINDOW_MS - 1000), NOW)).toBe(true);
+    expect(canEditPost(at(POST_EDIT_WINDOW_MS), NOW)).toBe(false);
+  });
+
+  it('sends the trimmed body with re-extracted hashtags', async () => {
+    mockRpc.mockResolvedValueOnce({
+      data: { id: 'p1', body: '夜泣き #ねんね', edited_at: NOW.toISOString() },
+      error: null,
+    });
+    const post = { id: 'p1', created_at: minutesAgo(5), attachments: [] };
+    const updated = await editPost(post, '  夜泣き #ねんね  ');
+    expect(mockRpc).toHaveBeenCalledWith('edit_post_v2', {
+      p_post_id: 'p1',
+      p_body: '夜泣き #ねんね',
+      p_tags: ['ねんね'],
+    });
+    expect(updated.edited_at).toBe(NOW.toISOString());
+  });
+
+  it('rejects empty or expired edits without calling the server', async () => {
+    await expect(
+      editPost({ id: 'p1', created_at: minutesAgo(5), attachments: [] }, ' ')
+    ).rejects.toMatchObject({ code: 'POST_EDIT_INVALID_INPUT' });
+    await expect(
+      editPost({ id: 'p1', created_at: minutesAgo(31), attachments: [] }, 'x')
+    ).rejects.toMatchObject({ code: 'POST_EDIT_WINDOW_CLOSED' });
+    expect(mockRpc).not.toHaveBeenCalled();
+  });
+
+  it('maps a server-side window error', async () => {
+    mockRpc.mockResolvedValueOnce({
+      data: null,
+      error: { message: 'Edit window has passed' },
+    });
+    await expect(
+      editPost({ id: 'p1', created_at: minutesAgo(29) }, 'x')
+    ).rejects.toMatchObject({ code: 'POST_EDIT_WINDOW_CLOSED' });
+  });
+});
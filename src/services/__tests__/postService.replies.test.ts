@@ -0,0 +1,81 @@
+import { jest } from '@jest/globals';
+
+const mockRpc = jest.fn<(...args: any[]) => Promise<any>>();
+
+jest.mock('../supabaseClient', () => ({
+  getSupabaseClient: () => ({
+    rpc: mockRpc,
+    from: () => {
+      const b: any = {
+        select: () => b,
+        in: () => b,
+        then: (resolve: any) => resolve({ data: [] }),
+      };
+      return b;
+    },
+  }),
+}));
+
+import { createComment, fetchReplies } from '../postService';
+
+const replyRow = (id: string, createdAt: string) => ({
+  id,
+  post_id: 'p1',
+  user_id: 'u1',
+  parent_comment_id: 'c1',
+  body: 'reply',
+  attachments: [],
+  created_at: createdAt,
+  display_name: 'Alice',
+  avatar_emoji: null,
+});
+
+describe('postService replies', () => {
+  beforeEach(() => {
+    mockRpc.mockReset();
+  });
+
+  it('fetchReplies maps parent id and pages with the last created_at', async () => {
+    mockRpc.mockResolvedValueOnce({
+      data: [replyRow('r1', '2026-01-01T00:00:00Z'), replyRow('r2', '2026-01-01T00:01:00Z')],
+      error: null,
+    });
+    const res = await fetchReplies('c1', { limit: 2 });
+    expect(mockRpc).toHaveBeenCalledWith('get_comment_replies_v2', {
+      p_parent_comment_id: 'c1',
+      p_after: null,
+      p_limit: 2,
+    });
+    expect(res.items.map(c => c.parent_comment_id)).toEqual(['c1', 'c1']);
+    expect(res.nextCursor).toBe('2026-01-01T00:01:00Z');
+  });
+
+  it('fetchReplies returns null cursor on the last page', async () => {
+    mockRpc.mockResolvedValueOnce({
+      data: [replyRow('r3', '2026-01-01T00:02:00Z')],
+      error: null,
+    });
+    const res = await fetchReplies('c1', {
+      after: '2026-01-01T00:01:00Z',
+      limit: 2,
+    });
+    expect(res.nextCursor).toBeNull();
+  });
+
+  it('createComment sends parent id for replies without legacy fallback', async () => {
+    mockRpc.mockResolvedValueOnce({
+      data: null,
+      error: { message: 'Parent comment not found for this post' },
+    });
+    await expect(createComment('p1', 'hi', [], 'c1')).rejects.toEqual({
+      message: 'Parent comment not found for this post',
+    });
+    expect(mockRpc).toHaveBeenCalledTimes(1);
+    expect(mockRpc).toHaveBeenCalledWith('create_comment_v2', {
+      p_post_id: 'p1',
+      p_body: 'hi',
+      p_attachments: [],
+      p_parent_comment_id: 'c1',
+    });
+  });
+});
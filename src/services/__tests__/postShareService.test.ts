@@ -0,0 +1,99 @@
+import { jest } from '@jest/globals';
+
+const mockRpc = jest.fn<(...args: any[]) => Promise<any>>();
+const mockSendMessage = jest.fn<(req: any) => Promise<any>>();
+const mockSendChannelMessage = jest.fn<(req: any) => Promise<any>>();
+
+jest.mock('../supabaseClient', () => ({
+  getSupabaseClient: () => ({ rpc: mockRpc }),
+}));
+jest.mock('../chatService', () => ({
+  __esModule: true,
+  default: { sendMessage: (req: any) => mockSendMessage(req) },
+}));
+jest.mock('../roomService', () => ({
+  RoomService: {
+    sendChannelMessage: (req: any) => mockSendChannelMessage(req),
+  },
+}));
+
+import {
+  SHARED_POST_DEFAULT_TEXT,
+  clearSharedPostCache,
+  fetchSharedPostPreviews,
+  sharePostToChannel,
+  sharePostToChat,
+  sharedPostIdFromAttachments,
+} from '../postShareService';
+
+describe('postShareService', () => {
+  beforeEach(() => {
+    clearSharedPostCache();
+    mockRpc.mockReset();
+    mockSendMessage.mockReset();
+    mockSendChannelMessage.mockReset();
+  });
+
+  it('shares to a DM as a post_share message with the post id in metadata', async () => {
+    mockSendMessage.mockResolvedValue({ success: true });
+    await sharePostToChat('chat1', 'p1', '  ');
+    expect(mockSendMessage).toHaveBeenCalledWith({
+      chat_id: 'chat1',
+      content: SHARED_POST_DEFAULT_TEXT,
+      message_type: 'post_share',
+      metadata: { shared_post_id: 'p1' },
+    });
+  });
+
+  it('shares to a channel with a post reference attachment', async () => {
+    mockSendChannelMessage.mockResolvedValue({ success: true });
+    await sharePostToChannel('ch1', 'p1', 'これ読んで');
+    const req = mockSendChannelMessage.mock.calls[0]![0];
+    expect(req).toMatchObject({
+      channel_id: 'ch1',
+      content: 'これ読んで',
+      message_type: 'post_share',
+    });
+    expect(sharedPostIdFromAttachments(req.attachments)).toBe('p1');
+  });
+
+  it('surfaces send failures as ServiceError', async () => {
+    mockSendChannelMessage.mockResolvedValue({ error: 'denied' });
+    await expect(sharePostToChannel('ch1', 'p1')).rejects.toMatchObject({
+      code: 'POST_SHARE_FAILED',
+      message: 'シェアに失敗しました',
+    });
+  });
+
+  it('ignores image attachments when looking for a shared post', () => {
+    expect(
+      sharedPostIdFromAttachments([{ url: 'https://example.com/a.jpg' }])
+    ).toBeNull();
+    expect(sharedPostIdFromAttachments(null)).toBeNull();
+  });
+
+  it('returns null for posts the server does not return and caches results', async () => {
+    mockRpc.mockResolvedValue({
+      data: [
+        {
+          id: 'p1',
+          user_id: 'u1',
+          body: '[image]',
+          attachments: [{ url: 'https://example.com/a.jpg' }],
+          content_warning: null,
+          created_at: '2026-01-01T00:00:00Z',
+          display_name: 'Alice',
+          avatar_emoji: null,
+        },
+      ],
+      error: null,
+    });
+    const res = await fetchSharedPostPreviews(['p1', 'gone']);
+    expect(res.p1?.body).toBe('');
+    expect(res.p1?.user.display_name).toBe('Alice');
+    expect(res.gone).toBeNull();
+
+    await fetchSharedPostPreviews(['p1', 'gone']);
+    expect(mockRpc).toHaveBeenCalledTimes(1);
+  });
+});
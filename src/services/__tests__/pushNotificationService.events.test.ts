@@ -0,0 +1,84 @@
+import { jest } from '@jest/globals';
+
+const mockRpc = jest.fn<(fn: string) => Promise<any>>();
+const mockGetScheduled = jest.fn<() => Promise<any[]>>();
+const mockCancel = jest.fn<(id: string) => Promise<void>>();
+const mockSchedule = jest.fn<(req: any) => Promise<string>>();
+
+jest.mock('expo-notifications', () => ({
+  getPermissionsAsync: async () => ({ granted: true }),
+  requestPermissionsAsync: async () => ({ granted: true }),
+  getAllScheduledNotificationsAsync: () => mockGetScheduled(),
+  cancelScheduledNotificationAsync: (id: string) => mockCancel(id),
+  scheduleNotificationAsync: (req: any) => mockSchedule(req),
+  setNotificationChannelAsync: async () => null,
+  setNotificationHandler: () => {},
+  IosAuthorizationStatus: { PROVISIONAL: 3 },
+  AndroidImportance: { DEFAULT: 3, HIGH: 4 },
+  SchedulableTriggerInputTypes: { DATE: 'date' },
+}));
+jest.mock('expo-device', () => ({ isDevice: true }));
+jest.mock('../supabaseClient', () => ({
+  getSupabaseClient: () => ({ rpc: (fn: string) => mockRpc(fn) }),
+}));
+
+import { syncEventReminders } from '../pushNotificationService';
+
+describe('syncEventReminders', () => {
+  beforeEach(() => {
+    mockRpc.mockReset();
+    mockGetScheduled.mockReset();
+    mockCancel.mockReset().mockResolvedValue();
+    mockSchedule.mockReset().mockResolvedValue('id');
+  });
+
+  it('cancels reminders for cancelled or unknown events and reschedules the rest', async () => {
+    const startsAt = new Date(Date.now() + 3 * 86400000).toISOString();
+    mockRpc.mockResolvedValue({
+      data: [
+        {
+          id: 'e1',
+          channel_id: 'ch1',
+          title: 'お茶会',
+          starts_at: startsAt,
+          cancelled_at: null,
+          my_status: 'going',
+        },
+        {
+          id: 'e2',
+          channel_id: 'ch1',
+          title: '外遊び',
+          starts_at: startsAt,
+          cancelled_at: new Date().toISOString(),
+          my_status: 'maybe',
+        },
+      ],
+      error: null,
+    });
+    mockGetScheduled.mockResolvedValue([
+      { identifier: 'space-event-e1' },
+      { identifier: 'space-event-e2' },
+      { identifier: 'space-event-e3' },
+      { identifier: 'other-reminder' },
+    ]);
+
+    await syncEventReminders();
+
+    expect(mockRpc).toHaveBeenCalledWith('get_my_event_reminders');
+    expect(mockCancel.mock.calls.map(c => c[0]).sort()).toEqual([
+      'space-event-e2',
+      'space-event-e3',
+    ]);
+    expect(mockSchedule).toHaveBeenCalledTimes(1);
+    expect(mockSchedule.mock.calls[0]![0]).toMatchObject({
+      identifier: 'space-event-e1',
+    });
+  });
+
+  it('leaves scheduled reminders alone when the server cannot be reached', async () => {
+    mockRpc.mockResolvedValue({ data: null, error: { message: 'offline' } });
+    await syncEventReminders();
+    expect(mockGetScheduled).not.toHaveBeenCalled();
+    expect(mockCancel).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,73 @@
+import { jest } from '@jest/globals';
+
+const mockClient: any = {
+  auth: {
+    getUser: jest
+      .fn()
+      .mockResolvedValue({ data: { user: { id: 'u1' } }, error: null }),
+  },
+  rpc: jest.fn(),
+  from: jest.fn(),
+};
+
+jest.mock('../supabaseClient', () => ({
+  getSupabaseClient: () => mockClient,
+}));
+
+import { roomService } from '../roomService';
+
+describe('roomService channel management', () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+  });
+
+  test('createChannel: calls RPC and maps duplicate names to Japanese', async () => {
+    mockClient.rpc
+      .mockResolvedValueOnce({ data: 'c2', error: null })
+      .mockResolvedValueOnce({
+        data: null,
+        error: { message: 'Channel name already exists' },
+      });
+
+    const ok = await roomService.createChannel('s1', {
+      name: ' お知らせ ',
+      channel_type: 'announcement',
+    });
+    expect(ok.success).toBe(true);
+    expect(ok.data?.channel_id).toBe('c2');
+    expect(mockClient.rpc).toHaveBeenCalledWith('create_space_channel', {
+      p_space_id: 's1',
+      p_name: 'お知らせ',
+      p_channel_type: 'announcement',
+      p_description: null,
+    });
+
+    const dup = await roomService.createChannel('s1', { name: 'general' });
+    expect(dup.success).toBeUndefined();
+    expect(dup.error).toBe('同じ名前のチャンネルがあります');
+  });
+
+  test('getSpaceChannels: returns channels with numeric unread counts', async () => {
+    mockClient.rpc.mockResolvedValueOnce({
+      data: [
+        {
+          id: 'c1',
+          space_id: 's1',
+          name: 'general',
+          description: null,
+          channel_type: 'text',
+          is_active: true,
+          position: 0,
+          created_at: new Date().toISOString(),
+          member_role: 'member',
+          has_new: true,
+          unread_count: '4',
+        },
+      ],
+      error: null,
+    });
+    const res = await roomService.getSpaceChannels('s1');
+    expect(res.success).toBe(true);
+    expect(res.data?.[0]?.unread_count).toBe(4);
+  });
+});
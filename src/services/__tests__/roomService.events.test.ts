@@ -0,0 +1,84 @@
+import { jest } from '@jest/globals';
+
+const mockClient: any = {
+  auth: {
+    getUser: jest.fn(),
+  },
+  rpc: jest.fn(),
+  from: jest.fn(),
+};
+
+jest.mock('../supabaseClient', () => ({
+  getSupabaseClient: () => mockClient,
+}));
+
+import { roomService } from '../roomService';
+
+describe('roomService space events', () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+  });
+
+  test('createSpaceEvent: trims input and returns the new event id', async () => {
+    mockClient.rpc.mockResolvedValueOnce({ data: 'e1', error: null });
+
+    const res = await roomService.createSpaceEvent('c1', {
+      title: ' 公園で外遊び ',
+      description: ' ',
+      starts_at: '2026-10-20T01:00:00.000Z',
+      ends_at: '2026-10-20T03:00:00.000Z',
+      location: ' 中央公園 ',
+      is_online: false,
+      capacity: 8,
+    });
+    expect(res.success).toBe(true);
+    expect(res.data?.event_id).toBe('e1');
+    expect(mockClient.rpc).toHaveBeenCalledWith('create_space_event', {
+      p_channel_id: 'c1',
+      p_title: '公園で外遊び',
+      p_description: null,
+      p_starts_at: '2026-10-20T01:00:00.000Z',
+      p_ends_at: '2026-10-20T03:00:00.000Z',
+      p_location: '中央公園',
+      p_is_online: false,
+      p_capacity: 8,
+    });
+  });
+
+  test('rsvpSpaceEvent / createSpaceEvent: map server errors to Japanese', async () => {
+    mockClient.rpc
+      .mockResolvedValueOnce({ data: null, error: { message: 'Event full' } })
+      .mockResolvedValueOnce({
+        data: null,
+        error: { message: 'Announcement channel is read-only' },
+      });
+
+    const rsvp = await roomService.rsvpSpaceEvent('e1', 'going');
+    expect(rsvp.error).toBe('定員に達しています');
+    expect(mockClient.rpc).toHaveBeenCalledWith('rsvp_space_event', {
+      p_event_id: 'e1',
+      p_status: 'going',
+    });
+
+    const created = await roomService.createSpaceEvent('c1', {
+      title: 'お茶会',
+      starts_at: '2026-10-20T01:00:00.000Z',
+      is_online: true,
+    });
+    expect(created.error).toBe(
+      'お知らせチャンネルはオーナーとモデレーターだけが投稿できます'
+    );
+  });
+
+  test('getSpaceEvents: fetches only the given events for a card', async () => {
+    mockClient.rpc.mockResolvedValueOnce({ data: null, error: null });
+
+    const res = await roomService.getSpaceEvents('s1', ['e1']);
+    expect(res.success).toBe(true);
+    expect(res.data).toEqual([]);
+    expect(mockClient.rpc).toHaveBeenCalledWith('get_space_events', {
+      p_space_id: 's1',
+      p_event_ids: ['e1'],
+    });
+  });
+});
@@ -0,0 +1,76 @@
+import { jest } from '@jest/globals';
+
+const mockClient: any = {
+  auth: {
+    getUser: jest.fn(),
+  },
+  rpc: jest.fn(),
+  from: jest.fn(),
+};
+
+jest.mock('../supabaseClient', () => ({
+  getSupabaseClient: () => mockClient,
+}));
+
+import { roomService } from '../roomService';
+
+describe('roomService invite links and join requests', () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+  });
+
+  test('createInviteLink: passes options and returns the new link as valid', async () => {
+    mockClient.rpc.mockResolvedValueOnce({
+      data: [
+        {
+          id: 'l1',
+          code: 'abcdef123456',
+          requires_approval: true,
+          expires_at: '2026-10-08T00:00:00Z',
+          max_uses: 10,
+          use_count: 0,
+          created_at: '2026-10-01T00:00:00Z',
+        },
+      ],
+      error: null,
+    });
+
+    const res = await roomService.createInviteLink('s1', {
+      expires_in_hours: 168,
+      max_uses: 10,
+      requires_approval: true,
+    });
+    expect(res.success).toBe(true);
+    expect(res.data?.code).toBe('abcdef123456');
+    expect(res.data?.status).toBe('valid');
+    expect(mockClient.rpc).toHaveBeenCalledWith('create_space_invite_link', {
+      p_space_id: 's1',
+      p_expires_in_hours: 168,
+      p_max_uses: 10,
+      p_requires_approval: true,
+    });
+  });
+
+  test('redeemInviteLink / requestToJoin: map server errors to Japanese', async () => {
+    mockClient.rpc
+      .mockResolvedValueOnce({
+        data: null,
+        error: { message: 'Invite expired' },
+      })
+      .mockResolvedValueOnce({
+        data: null,
+        error: { message: 'Request already pending' },
+      });
+
+    const joined = await roomService.redeemInviteLink('abcdef123456');
+    expect(joined.error).toBe('この招待リンクは期限切れです');
+
+    const requested = await roomService.requestToJoin('abcdef123456', ' ');
+    expect(requested.error).toBe('参加リクエストはすでに送信済みです');
+    expect(mockClient.rpc).toHaveBeenLastCalledWith('request_to_join_space', {
+      p_code: 'abcdef123456',
+      p_message: null,
+      p_answers: [],
+    });
+  });
+});
@@ -0,0 +1,60 @@
+import { jest } from '@jest/globals';
+
+const mockClient: any = {
+  auth: {
+    getUser: jest.fn(),
+  },
+  rpc: jest.fn(),
+  from: jest.fn(),
+};
+
+jest.mock('../supabaseClient', () => ({
+  getSupabaseClient: () => mockClient,
+}));
+
+import { roomService } from '../roomService';
+
+describe('roomService space moderation', () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+    mockClient.auth.getUser.mockResolvedValue({
+      data: { user: { id: 'u1' } },
+      error: null,
+    });
+  });
+
+  test('banMember: calls RPC and maps permission errors to Japanese', async () => {
+    mockClient.rpc
+      .mockResolvedValueOnce({ data: null, error: null })
+      .mockResolvedValueOnce({
+        data: null,
+        error: { message: 'Permission denied' },
+      });
+
+    const ok = await roomService.banMember('s1', 'u2', 'スパム');
+    expect(ok.success).toBe(true);
+    expect(mockClient.rpc).toHaveBeenCalledWith('ban_space_member', {
+      p_space_id: 's1',
+      p_user_id: 'u2',
+      p_reason: 'スパム',
+    });
+
+    const denied = await roomService.banMember('s1', 'u3');
+    expect(denied.success).toBeUndefined();
+    expect(denied.error).toBe('この操作をする権限がありません');
+  });
+
+  test('deleteChannelMessage asModerator: deletes through the moderation RPC', async () => {
+    mockClient.rpc.mockResolvedValueOnce({ data: null, error: null });
+
+    const res = await roomService.deleteChannelMessage('m1', {
+      asModerator: true,
+    });
+    expect(res.success).toBe(true);
+    expect(mockClient.rpc).toHaveBeenCalledWith(
+      'moderate_delete_channel_message',
+      { p_message_id: 'm1', p_reason: null }
+    );
+    expect(mockClient.from).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,78 @@
+import { jest } from '@jest/globals';
+
+const mockClient: any = {
+  auth: {
+    getUser: jest.fn(),
+  },
+  rpc: jest.fn(),
+  from: jest.fn(),
+};
+
+jest.mock('../supabaseClient', () => ({
+  getSupabaseClient: () => mockClient,
+}));
+
+import { roomService } from '../roomService';
+
+describe('roomService space rules and screening', () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+  });
+
+  test('getSpaceRules: passes the invite code and normalizes questions', async () => {
+    mockClient.rpc.mockResolvedValueOnce({
+      data: [
+        {
+          rules: '医療相談はしない',
+          welcome_message: 'ようこそ',
+          screening_questions: null,
+          rules_updated_at: '2026-10-01T00:00:00Z',
+          accepted: false,
+        },
+      ],
+      error: null,
+    });
+
+    const res = await roomService.getSpaceRules('s1', 'abcdef123456');
+    expect(res.success).toBe(true);
+    expect(res.data?.screening_questions).toEqual([]);
+    expect(res.data?.accepted).toBe(false);
+    expect(mockClient.rpc).toHaveBeenCalledWith('get_space_rules', {
+      p_space_id: 's1',
+      p_invite_code: 'abcdef123456',
+    });
+  });
+
+  test('updateSpaceRules / requestToJoin: trim input and map server errors', async () => {
+    mockClient.rpc
+      .mockResolvedValueOnce({
+        data: null,
+        error: { message: 'Too many questions' },
+      })
+      .mockResolvedValueOnce({
+        data: null,
+        error: { message: 'Answers required' },
+      });
+
+    const updated = await roomService.updateSpaceRules('s1', {
+      rules: '  ',
+      welcome_message: ' ようこそ ',
+      screening_questions: [' 月齢は？ ', ''],
+    });
+    expect(updated.error).toBe('参加時の質問は5つまでです');
+    expect(mockClient.rpc).toHaveBeenCalledWith('update_space_rules', {
+      p_space_id: 's1',
+      p_rules: null,
+      p_welcome_message: 'ようこそ',
+      p_questions: ['月齢は？'],
+    });
+
+    const requested = await roomService.requestToJoin('abcdef123456');
+    expect(requested.error).toBe('参加するには質問にすべて回答してください');
+    expect(mockClient.rpc).toHaveBeenLastCalledWith('request_to_join_space', {
+      p_code: 'abcdef123456',
+      p_message: null,
+      p_answers: [],
+    });
+  });
+});
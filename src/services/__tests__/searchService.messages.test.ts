@@ -0,0 +1,96 @@
+import { jest } from '@jest/globals';
+
+const mockRpc = jest.fn<(...args: any[]) => Promise<any>>();
+
+jest.mock('../supabaseClient', () => ({
+  getSupabaseClient: () => ({ rpc: mockRpc }),
+}));
+
+import { searchMessages } from '../searchService';
+
+function row(id: string, createdAt: string, extra: Record<string, any> = {}) {
+  return {
+    scope: 'dm',
+    message_id: id,
+    container_id: 'c1',
+    container_name: 'Alice',
+    space_id: null,
+    space_name: null,
+    sender_id: 'u1',
+    sender_username: 'alice',
+    sender_display_name: 'Alice',
+    sender_avatar_emoji: null,
+    content: '離乳食の相談',
+    created_at: createdAt,
+    ...extra,
+  };
+}
+
+describe('searchService message search', () => {
+  beforeEach(() => {
+    mockRpc.mockReset();
+  });
+
+  it('passes filters to the RPC and pages by the last created_at', async () => {
+    mockRpc.mockResolvedValue({
+      data: [
+        row('m1', '2026-01-02T00:00:00Z'),
+        row('m2', '2026-01-01T00:00:00Z', {
+          scope: 'channel',
+          container_id: 'ch1',
+          container_name: '雑談',
+          space_id: 's1',
+          space_name: '0歳ママ',
+        }),
+      ],
+      error: null,
+    });
+    const res = await searchMessages('離乳食', {
+      limit: 2,
+      cursor: '2026-01-03T00:00:00Z',
+      senderId: 'u1',
+      period: '7d',
+    });
+
+    const [fn, args] = mockRpc.mock.calls[0]!;
+    expect(fn).toBe('search_messages_v2');
+    expect(args).toMatchObject({
+      p_query: '離乳食',
+      p_scope: null,
+      p_container_id: null,
+      p_sender_id: 'u1',
+      p_before: '2026-01-03T00:00:00Z',
+      p_limit: 2,
+    });
+    expect(args.p_since).not.toBeNull();
+    expect(res.items.map(i => [i.id, i.scope])).toEqual([
+      ['m1', 'dm'],
+      ['m2', 'channel'],
+    ]);
+    expect(res.items[1]).toMatchObject({
+      containerId: 'ch1',
+      spaceId: 's1',
+      spaceName: '0歳ママ',
+    });
+    expect(res.nextCursor).toBe('2026-01-01T00:00:00Z');
+  });
+
+  it('stops paging on a short page and surfaces RPC errors', async () => {
+    mockRpc.mockResolvedValueOnce({
+      data: [row('m1', '2026-01-02T00:00:00Z')],
+      error: null,
+    });
+    const res = await searchMessages('相談', {
+      scope: 'dm',
+      containerId: 'c1',
+    });
+    expect(mockRpc.mock.calls[0]![1]).toMatchObject({
+      p_scope: 'dm',
+      p_container_id: 'c1',
+    });
+    expect(res.nextCursor).toBeNull();
+
+    mockRpc.mockResolvedValueOnce({ data: null, error: new Error('boom') });
+    await expect(searchMessages('相談')).rejects.toThrow('boom');
+  });
+});
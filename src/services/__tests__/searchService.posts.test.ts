@@ -0,0 +1,87 @@
+import { jest } from '@jest/globals';
+
+const mockRpc = jest.fn<(...args: any[]) => Promise<any>>();
+
+jest.mock('../supabaseClient', () => ({
+  getSupabaseClient: () => ({ rpc: mockRpc }),
+}));
+jest.mock('../mutedTermService', () => ({
+  filterMuted: async (items: any[], textOf: (it: any) => string) =>
+    items.filter(it => !textOf(it).includes('ネタバレ')),
+}));
+
+import { parseQuery, searchPosts, searchSince } from '../searchService';
+
+function row(id: string, body: string, extra: Record<string, any> = {}) {
+  return {
+    id,
+    user_id: 'u1',
+    body,
+    content_warning: null,
+    created_at: '2026-01-01T00:00:00Z',
+    username: 'alice',
+    display_name: 'Alice',
+    avatar_emoji: null,
+    maternal_verified: false,
+    reaction_count: 3,
+    ...extra,
+  };
+}
+
+describe('searchService full-text search', () => {
+  beforeEach(() => {
+    mockRpc.mockReset();
+  });
+
+  it('treats plain input as a normalized text query', () => {
+    expect(parseQuery('  夜泣き　　対策 ')).toEqual({
+      kind: 'text',
+      term: '夜泣き 対策',
+    });
+  });
+
+  it('computes the since bound from the period', () => {
+    const now = new Date('2026-01-08T00:00:00Z');
+    expect(searchSince('all', now)).toBeNull();
+    expect(searchSince('7d', now)).toBe('2026-01-01T00:00:00.000Z');
+  });
+
+  it('passes filters to the RPC and pages by offset before muting', async () => {
+    mockRpc.mockResolvedValue({
+      data: [row('p1', '夜泣き対策'), row('p2', 'ネタバレ夜泣き')],
+      error: null,
+    });
+    const now = Date.now();
+    const res = await searchPosts('夜泣き', {
+      limit: 2,
+      cursor: '4',
+      period: '24h',
+      verifiedOnly: true,
+    });
+
+    const [fn, args] = mockRpc.mock.calls[0]!;
+    expect(fn).toBe('search_posts_v2');
+    expect(args).toMatchObject({
+      p_query: '夜泣き',
+      p_limit: 2,
+      p_offset: 4,
+      p_verified_only: true,
+    });
+    const since = new Date(args.p_since).getTime();
+    expect(now - since).toBeGreaterThanOrEqual(24 * 60 * 60 * 1000 - 1000);
+    expect(res.items.map(i => i.id)).toEqual(['p1']);
+    expect(res.items[0]?.reactionCount).toBe(3);
+    expect(res.nextCursor).toBe('6');
+  });
+
+  it('hides the body of posts with a content warning and stops on a short page', async () => {
+    mockRpc.mockResolvedValue({
+      data: [row('p1', '詳しい話', { content_warning: 'medical' })],
+      error: null,
+    });
+    const res = await searchPosts('話');
+    expect(res.items[0]?.contentPreview.startsWith('⚠️')).toBe(true);
+    expect(res.items[0]?.contentPreview).not.toContain('詳しい話');
+    expect(res.nextCursor).toBeNull();
+  });
+});
@@ -1,3 +1,4 @@
+import { filterMuted } from './mutedTermService';
 import { getSupabaseClient } from './supabaseClient';
 
 export interface AnonV2Message {
@@ -16,7 +17,7 @@ export async function fetchLiveMessages(): Promise<AnonV2Message[]> {
     .select('id, content, display_name, created_at, expires_at')
     .order('created_at', { ascending: true });
   if (!error && Array.isArray(data)) {
-    return (data || []).map(row => {
+    const messages = (data || []).map(row => {
       const r = row as Record<string, unknown>;
       return {
         id: String(r.id ?? ''),
@@ -26,6 +27,8 @@ export async function fetchLiveMessages(): Promise<AnonV2Message[]> {
         expires_at: r.expires_at ? String(r.expires_at) : undefined,
       };
     });
+    // ミュート中の語句・タグを含むメッセージは表示しない
+    return filterMuted(messages, m => m.content);
   }
 
   // 2) Fallback to existing RPCs (pre-V2)
@@ -49,7 +52,7 @@ export async function fetchLiveMessages(): Promise<AnonV2Message[]> {
     if (err2 || !Array.isArray(rows)) {
       return [];
     }
-    return (rows as any[]).map(row => {
+    const messages = (rows as any[]).map(row => {
       const rr = row as Record<string, unknown>;
       return {
         id: String(rr.id ?? ''),
@@ -59,6 +62,7 @@ export async function fetchLiveMessages(): Promise<AnonV2Message[]> {
         expires_at: rr.expires_at ? String(rr.expires_at) : undefined,
       };
     });
+    return await filterMuted(messages, m => m.content);
   } catch {
     return [];
   }
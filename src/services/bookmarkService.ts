@@ -0,0 +1,205 @@
+import { BookmarkCollection, PostBookmark } from '../types/post';
+import { ServiceError } from '../utils/errors';
+
+import { getSupabaseClient } from './supabaseClient';
+
+export const COLLECTION_NAME_MAX_LENGTH = 30;
+
+function toCollection(row: any): BookmarkCollection {
+  return {
+    id: row.id,
+    name: row.name ?? '',
+    created_at: row.created_at,
+  };
+}
+
+function toBookmark(row: any): PostBookmark {
+  return {
+    collection_id: row.collection_id ?? null,
+    bookmarked_at: row.created_at ?? row.bookmarked_at,
+  };
+}
+
+async function requireUserId(): Promise<string> {
+  const supabase = getSupabaseClient();
+  const { data: userRes } = await supabase.auth.getUser();
+  const user = userRes?.user;
+  if (!user) {
+    throw new ServiceError('NOT_AUTHENTICATED', 'Not authenticated');
+  }
+  return user.id;
+}
+
+function normalizeCollectionName(name: string): string {
+  const trimmed = (name || '').normalize('NFKC').trim();
+  if (!trimmed) {
+    throw new ServiceError(
+      'BOOKMARK_INVALID_INPUT',
+      'コレクション名を入力してください'
+    );
+  }
+  if (trimmed.length > COLLECTION_NAME_MAX_LENGTH) {
+    throw new ServiceError(
+      'BOOKMARK_INVALID_INPUT',
+      `コレクション名は${COLLECTION_NAME_MAX_LENGTH}文字以内にしてください`
+    );
+  }
+  return trimmed;
+}
+
+export async function listCollections(): Promise<BookmarkCollection[]> {
+  const supabase = getSupabaseClient();
+  const userId = await requireUserId();
+  const { data, error } = await supabase
+    .from('bookmark_collections')
+    .select('id,name,created_at')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: true });
+  if (error) {
+    throw new ServiceError(
+      'BOOKMARK_LIST_FAILED',
+      `[listCollections] ${error.message || 'collection list failed'}`,
+      error
+    );
+  }
+  return (data ?? []).map(toCollection);
+}
+
+export async function createCollection(
+  name: string
+): Promise<BookmarkCollection> {
+  const supabase = getSupabaseClient();
+  const userId = await requireUserId();
+  const { data, error } = await supabase
+    .from('bookmark_collections')
+    .insert({ user_id: userId, name: normalizeCollectionName(name) })
+    .select('id,name,created_at')
+    .single();
+  if (error) {
+    throw new ServiceError(
+      'BOOKMARK_SAVE_FAILED',
+      error.code === '23505'
+        ? '同じ名前のコレクションがあります'
+        : `[createCollection] ${error.message || 'collection insert failed'}`,
+      error
+    );
+  }
+  return toCollection(data);
+}
+
+export async function renameCollection(
+  id: string,
+  name: string
+): Promise<BookmarkCollection> {
+  const supabase = getSupabaseClient();
+  const userId = await requireUserId();
+  const { data, error } = await supabase
+    .from('bookmark_collections')
+    .update({ name: normalizeCollectionName(name) })
+    .eq('id', id)
+    .eq('user_id', userId)
+    .select('id,name,created_at')
+    .single();
+  if (error) {
+    throw new ServiceError(
+      'BOOKMARK_SAVE_FAILED',
+      error.code === '23505'
+        ? '同じ名前のコレクションがあります'
+        : `[renameCollection] ${error.message || 'collection update failed'}`,
+      error
+    );
+  }
+  return toCollection(data);
+}
+
+/** コレクションを削除する。中の保存は未分類に戻る */
+export async function deleteCollection(id: string): Promise<void> {
+  const supabase = getSupabaseClient();
+  const userId = await requireUserId();
+  const { error } = await supabase
+    .from('bookmark_collections')
+    .delete()
+    .eq('id', id)
+    .eq('user_id', userId);
+  if (error) {
+    throw new ServiceError(
+      'BOOKMARK_DELETE_FAILED',
+      `[deleteCollection] ${error.message || 'collection delete failed'}`,
+      error
+    );
+  }
+}
+
+/** 投稿を保存する。保存済みならコレクションを移動する */
+export async function bookmarkPost(
+  postId: string,
+  collectionId: string | null = null
+): Promise<PostBookmark> {
+  const supabase = getSupabaseClient();
+  const userId = await requireUserId();
+  const { data, error } = await supabase
+    .from('post_bookmarks')
+    .upsert(
+      { user_id: userId, post_id: postId, collection_id: collectionId },
+      { onConflict: 'user_id,post_id' }
+    )
+    .select('collection_id,created_at')
+    .single();
+  if (error) {
+    throw new ServiceError(
+      'BOOKMARK_SAVE_FAILED',
+      `[bookmarkPost] ${error.message || 'bookmark upsert failed'}`,
+      error
+    );
+  }
+  return toBookmark(data);
+}
+
+export async function removeBookmark(postId: string): Promise<void> {
+  const supabase = getSupabaseClient();
+  const userId = await requireUserId();
+  const { error } = await supabase
+    .from('post_bookmarks')
+    .delete()
+    .eq('user_id', userId)
+    .eq('post_id', postId);
+  if (error) {
+    throw new ServiceError(
+      'BOOKMARK_DELETE_FAILED',
+      `[removeBookmark] ${error.message || 'bookmark delete failed'}`,
+      error
+    );
+  }
+}
+
+/**
+ * フィード取得後に自分の保存状態を付与する（ベストエフォート。失敗しても投稿は表示する）
+ */
+export async function fillBookmarks<
+  T extends { id: string; bookmark?: PostBookmark | null },
+>(items: T[]): Promise<T[]> {
+  if (items.length === 0) {
+    return items;
+  }
+  try {
+    const supabase = getSupabaseClient();
+    const userId = await requireUserId();
+    const { data, error } = await supabase
+      .from('post_bookmarks')
+      .select('post_id,collection_id,created_at')
+      .eq('user_id', userId)
+      .in(
+        'post_id',
+        items.map(it => it.id)
+      );
+    if (error) {
+      return items;
+    }
+    const map = new Map<string, PostBookmark>(
+      (data ?? []).map((r: any) => [r.post_id, toBookmark(r)])
+    );
+    return items.map(it => ({ ...it, bookmark: map.get(it.id) ?? null }));
+  } catch {
+    return items;
+  }
+}
@@ -0,0 +1,233 @@
+import { MessageType, MessageWithSender } from '../types/chat';
+import { ServiceError } from '../utils/errors';
+import { sanitizeObject } from '../utils/privacyProtection';
+
+import chatService from './chatService';
+import {
+  JSON_FILE_TYPE,
+  TEXT_FILE_TYPE,
+  shareTextFile,
+} from './fileShareService';
+
+export type ChatExportFormat = 'text' | 'json';
+
+/** 書き出す 1 件分。画像・ボイスはファイルではなくリンクで残す */
+export type ChatExportEntry = {
+  id: string;
+  sent_at: string;
+  sender: { id: string; name: string };
+  type: MessageType;
+  text: string;
+  images: string[];
+  audio_url?: string;
+  shared_post_id?: string;
+  forwarded?: boolean;
+  edited: boolean;
+  // 上の項目に含めなかった metadata（機微な項目は伏せる）
+  metadata: Record<string, unknown> | null;
+};
+
+// 長い会話でも端末のメモリを使い切らないよう上限を設ける
+export const CHAT_EXPORT_MAX_MESSAGES = 10000;
+const PAGE_SIZE = 100;
+
+// 画像だけのメッセージに入る仮の本文
+const IMAGE_PLACEHOLDER = '[image]';
+
+// 中身は entry 側に取り出すか、書き出す意味がないもの
+const OMITTED_METADATA_KEYS = [
+  'e2e',
+  'e2e_status',
+  'attachments',
+  'audio_url',
+  'audio_waveform',
+  'shared_post_id',
+  'forwarded',
+];
+
+function pad(n: number): string {
+  return String(n).padStart(2, '0');
+}
+
+function formatTimestamp(iso: string): string {
+  const d = new Date(iso);
+  return `${d.getFullYear()}/${pad(d.getMonth() + 1)}/${pad(d.getDate())} ${pad(
+    d.getHours()
+  )}:${pad(d.getMinutes())}`;
+}
+
+/** 会話の全メッセージを古い順に集める（getMessages は新しい順にページングする） */
+export async function collectChatMessages(
+  chatId: string,
+  maxMessages: number = CHAT_EXPORT_MAX_MESSAGES
+): Promise<MessageWithSender[]> {
+  const collected: MessageWithSender[] = [];
+  let cursor: string | undefined;
+  while (collected.length < maxMessages) {
+    const res = await chatService.getMessages(chatId, {
+      limit: PAGE_SIZE,
+      ...(cursor ? { cursor } : {}),
+    });
+    if (!res.success) {
+      throw new ServiceError(
+        'CHAT_EXPORT_FAILED',
+        res.error || 'メッセージの取得に失敗しました'
+      );
+    }
+    const page = res.data?.messages ?? [];
+    collected.push(...page);
+    const next = res.data?.next_cursor;
+    if (!res.data?.has_more || !next || next === cursor) {
+      break;
+    }
+    cursor = next;
+  }
+  // 同じ時刻のメッセージがページの境目で重複しないようにする
+  const seen = new Set<string>();
+  const unique = collected.filter(m => {
+    if (seen.has(m.id)) {
+      return false;
+    }
+    seen.add(m.id);
+    return true;
+  });
+  return unique.slice(0, maxMessages).reverse();
+}
+
+/** 削除済みとこの端末で読めない暗号文は null（書き出さない） */
+export function toChatExportEntry(
+  message: MessageWithSender
+): ChatExportEntry | null {
+  const meta = message.metadata || {};
+  if (
+    message.deleted_at ||
+    message.message_type === MessageType.DELETED ||
+    meta.e2e_status === 'undecryptable'
+  ) {
+    return null;
+  }
+  const images = (meta.attachments ?? [])
+    .map(a => a?.url)
+    .filter((url): url is string => typeof url === 'string' && !!url);
+  const content = message.content || '';
+  // 旧形式の画像メッセージは本文が画像の URL
+  if (
+    message.message_type === MessageType.IMAGE &&
+    images.length === 0 &&
+    content.startsWith('http')
+  ) {
+    images.push(content);
+  }
+  const text =
+    content === IMAGE_PLACEHOLDER || images.includes(content) ? '' : content;
+  const rest = Object.fromEntries(
+    Object.entries(meta).filter(([key]) => !OMITTED_METADATA_KEYS.includes(key))
+  );
+  return {
+    id: message.id,
+    sent_at: message.created_at,
+    sender: {
+      id: message.sender_id,
+      name: message.sender?.display_name || message.sender?.username || '匿名',
+    },
+    type: message.message_type,
+    text,
+    images,
+    ...(meta.audio_url ? { audio_url: meta.audio_url } : {}),
+    ...(meta.shared_post_id ? { shared_post_id: meta.shared_post_id } : {}),
+    ...(meta.forwarded ? { forwarded: true } : {}),
+    edited: !!message.edited_at,
+    metadata:
+      Object.keys(rest).length > 0
+        ? (sanitizeObject(rest) as Record<string, unknown>)
+        : null,
+  };
+}
+
+export function formatChatExportText(
+  title: string,
+  entries: ChatExportEntry[],
+  exportedAt: Date = new Date()
+): string {
+  const lines = [
+    `${title} のトーク履歴`,
+    `書き出し日時: ${formatTimestamp(exportedAt.toISOString())}`,
+    '',
+  ];
+  for (const e of entries) {
+    const time = formatTimestamp(e.sent_at);
+    if (e.type === MessageType.SYSTEM) {
+      lines.push(`${time} --- ${e.text} ---`);
+      continue;
+    }
+    const body = [
+      e.forwarded ? '（転送）' : '',
+      e.text,
+      e.edited ? '（編集済み）' : '',
+    ].join('');
+    lines.push(`${time} ${e.sender.name}: ${body}`.trimEnd());
+    for (const url of e.images) {
+      lines.push(`  [画像] ${url}`);
+    }
+    if (e.audio_url) {
+      lines.push(`  [ボイスメッセージ] ${e.audio_url}`);
+    }
+    if (e.shared_post_id) {
+      lines.push(`  [シェアされた投稿] ${e.shared_post_id}`);
+    }
+  }
+  return lines.join('\n') + '\n';
+}
+
+export function formatChatExportJson(
+  chatId: string,
+  title: string,
+  entries: ChatExportEntry[],
+  exportedAt: Date = new Date()
+): string {
+  return JSON.stringify(
+    {
+      chat_id: chatId,
+      title,
+      exported_at: exportedAt.toISOString(),
+      message_count: entries.length,
+      messages: entries,
+    },
+    null,
+    2
+  );
+}
+
+/** 会話を書き出して共有シートを開く。書き出したメッセージ数を返す */
+export async function exportChat(
+  chatId: string,
+  title: string,
+  format: ChatExportFormat
+): Promise<number> {
+  const messages = await collectChatMessages(chatId);
+  const entries = messages
+    .map(toChatExportEntry)
+    .filter((e): e is ChatExportEntry => e !== null);
+  const now = new Date();
+  const content =
+    format === 'json'
+      ? formatChatExportJson(chatId, title, entries, now)
+      : formatChatExportText(title, entries, now);
+
+  const stamp = formatTimestamp(now.toISOString()).replace(/[/: ]/g, '');
+  const fileName = `chat-${stamp}.${format === 'json' ? 'json' : 'txt'}`;
+  try {
+    await shareTextFile(
+      fileName,
+      content,
+      format === 'json' ? JSON_FILE_TYPE : TEXT_FILE_TYPE
+    );
+  } catch (e: any) {
+    throw new ServiceError(
+      'CHAT_EXPORT_FAILED',
+      `[exportChat] ${e?.message || 'share failed'}`,
+      e
+    );
+  }
+  return entries.length;
+}
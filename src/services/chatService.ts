@@ -11,6 +11,13 @@
  */
 
 import { secureLogger } from '../utils/privacyProtection';
+import { isNetworkError } from '../utils/networkError';
+import { ServiceError } from '../utils/errors';
+import {
+  DISAPPEARING_TIMER_OPTIONS,
+  msUntilNextExpiry,
+  withoutExpiredMessages,
+} from '../utils/disappearingMessages';
 import {
   Chat,
   ChatWithParticipants,
@@ -23,6 +30,7 @@ import {
   MarkAsReadRequest,
   UpdateTypingRequest,
   ChatResponse,
+  ChatErrorResponse,
   ChatErrorCode,
   ChatPaginationParams,
   PaginatedChats,
@@ -32,18 +40,46 @@ import {
   ChatEvent,
   MessageEvent,
   TypingEvent,
+  ReactionEvent,
+  PinsChangedEvent,
+  PinnedMessage,
   ReadStatusEvent,
   ChatSearchParams,
   MessageSearchParams,
   MessageValidation,
   ChatValidation,
   ChatConstraints,
+  CreateGroupChatRequest,
+  GroupMember,
+  ParticipantRole,
   sanitizeChatForLogging,
   sanitizeMessageForLogging,
 } from '../types/chat';
 import { PublicUserProfile } from '../types/auth';
 
 import { authService } from './authService';
+import {
+  E2E_ATTACHMENTS_UNAVAILABLE_TEXT,
+  E2E_PLACEHOLDER_TEXT,
+  decryptEnvelope,
+  encryptPayload,
+  fetchDeviceKeys,
+  isConversationE2E,
+  publishDeviceKey,
+  setConversationE2E,
+} from './e2eService';
+import { attachLinkPreview } from './linkPreviewService';
+import {
+  addMessageReaction,
+  fetchMessageReactions,
+  removeMessageReaction,
+  toMessageReaction,
+} from './messageReactionService';
+import {
+  fetchPinnedMessages,
+  pinMessage,
+  unpinMessage,
+} from './pinnedMessageService';
 import {
   getSupabaseClient,
   supabaseClient,
@@ -320,7 +356,9 @@ class ChatService {
       content_type:
         messageType === MessageType.TEXT ||
         messageType === MessageType.IMAGE ||
-        messageType === MessageType.FILE,
+        messageType === MessageType.FILE ||
+        messageType === MessageType.POST_SHARE ||
+        messageType === MessageType.AUDIO,
       mentions: true, // TODO: Implement mention validation
       profanity: true, // TODO: Implement profanity filter
     };
@@ -569,6 +607,17 @@ class ChatService {
         })
       );
 
+      // グループは別 RPC で取得し、最終メッセージの新しい順に混ぜる
+      const groups = await this.fetchGroupChats(limit);
+      if (groups.length > 0) {
+        chats.push(...groups);
+        chats.sort((a, b) =>
+          (b.last_message_at || b.updated_at).localeCompare(
+            a.last_message_at || a.updated_at
+          )
+        );
+      }
+
       return {
         success: true,
         data: {
@@ -626,6 +675,21 @@ class ChatService {
       // Find the specific conversation by ID
       const conversation = data?.find((c: any) => c.id === chatId);
       if (!conversation) {
+        const group = await this.fetchGroupChat(chatId);
+        if (group) {
+          return {
+            success: true,
+            data: {
+              ...group,
+              metadata: {
+                ...group.metadata,
+                disappearing_seconds: await this.fetchDisappearingSeconds(
+                  group.id
+                ),
+              },
+            },
+          };
+        }
         return {
           success: false,
           error: 'チャットが見つかりません。',
@@ -641,7 +705,11 @@ class ChatService {
         updated_at: conversation.updated_at,
         last_message_at: conversation.last_message_created_at,
         is_active: true,
-        metadata: null,
+        metadata: {
+          disappearing_seconds: await this.fetchDisappearingSeconds(
+            conversation.id
+          ),
+        },
         participants: [
           {
             id: conversation.participant_id,
@@ -659,6 +727,10 @@ class ChatService {
         unread_count: conversation.unread_count || 0,
         participants_presence: [],
         typing_users: [],
+        // 表示用。読めなくても開けるようにし、送信時にあらためて確かめる
+        e2e_enabled: await isConversationE2E(conversation.id).catch(
+          () => false
+        ),
       };
 
       return {
@@ -697,6 +769,9 @@ class ChatService {
       } = await client.auth.getUser();
       if (authError || !user) {
         secureLogger.error('User authentication failed', { authError });
+        if (isNetworkError(authError)) {
+          return this.networkErrorResponse();
+        }
         return {
           success: false,
           error: '認証が必要です。',
@@ -735,6 +810,9 @@ class ChatService {
         secureLogger.error('Failed to get conversation details', {
           error: convError,
         });
+        if (isNetworkError(convError)) {
+          return this.networkErrorResponse();
+        }
         return {
           success: false,
           error: 'メッセージの送信に失敗しました。',
@@ -742,16 +820,10 @@ class ChatService {
         };
       }
 
+      // 1:1 の一覧にない場合はグループとして送る（在籍はサーバー側で確認）
       const conversation = conversations.find(
         (c: any) => c.id === request.chat_id
       );
-      if (!conversation) {
-        return {
-          success: false,
-          error: 'チャットが見つかりません。',
-          error_code: ChatErrorCode.CHAT_NOT_FOUND,
-        };
-      }
 
       // If content is empty but attachments exist, send placeholder to satisfy DB constraints
       const hasAttachments = !!(
@@ -766,19 +838,82 @@ class ChatService {
             ? '[image]'
             : request.content;
 
-      const { data, error } = await client.rpc('send_message_guarded', {
-        p_sender_id: user.id,
-        p_recipient_id: conversation.participant_id,
-        p_content: contentToSend,
-        p_message_type: request.message_type || MessageType.TEXT,
-        p_metadata: request.metadata || {},
-      });
+      // 暗号化がオンの 1:1 では本文と添付情報を暗号文にして送る
+      let contentForServer = contentToSend;
+      let metadataForServer = request.metadata || {};
+      // 設定を読めないときは平文で送らずに中止する
+      let e2eEnabled = false;
+      if (conversation) {
+        try {
+          e2eEnabled = await isConversationE2E(conversation.id);
+        } catch (error) {
+          secureLogger.error('Failed to read E2E setting', {
+            error,
+            chatId: request.chat_id,
+          });
+          if (isNetworkError((error as ServiceError).cause)) {
+            return this.networkErrorResponse();
+          }
+          return {
+            success: false,
+            error: '暗号化の設定を確認できなかったため、送信を中止しました。',
+            error_code: ChatErrorCode.ENCRYPTION_FAILED,
+          };
+        }
+      }
+      if (conversation && e2eEnabled) {
+        // 写真・音声のファイルは暗号化せずにアップロードされるため、暗号化中は送らない
+        if (hasAttachments || request.metadata?.audio_url) {
+          return {
+            success: false,
+            error: E2E_ATTACHMENTS_UNAVAILABLE_TEXT,
+            error_code: ChatErrorCode.VALIDATION_ERROR,
+          };
+        }
+        const sealed = await this.sealForE2E(
+          user.id,
+          conversation.participant_id,
+          request.chat_id,
+          contentToSend,
+          request.metadata
+        );
+        if (!sealed.success) {
+          return sealed;
+        }
+        contentForServer = E2E_PLACEHOLDER_TEXT;
+        metadataForServer = sealed.data;
+      }
+
+      const { data, error } = conversation
+        ? await client.rpc('send_message_guarded', {
+            p_sender_id: user.id,
+            p_recipient_id: conversation.participant_id,
+            p_content: contentForServer,
+            p_message_type: request.message_type || MessageType.TEXT,
+            p_metadata: metadataForServer,
+          })
+        : await client.rpc('send_group_message_v2', {
+            p_conversation_id: request.chat_id,
+            p_content: contentToSend,
+            p_message_type: request.message_type || MessageType.TEXT,
+            p_metadata: request.metadata || {},
+          });
 
       if (error) {
         secureLogger.error('Send message RPC error', {
           error,
           chatId: request.chat_id,
         });
+        if (isNetworkError(error)) {
+          return this.networkErrorResponse();
+        }
+        if (!conversation && /not a member/i.test(error.message || '')) {
+          return {
+            success: false,
+            error: 'チャットが見つかりません。',
+            error_code: ChatErrorCode.CHAT_NOT_FOUND,
+          };
+        }
         return {
           success: false,
           error: 'メッセージの送信に失敗しました。',
@@ -808,48 +943,58 @@ class ChatService {
       } catch (_) {}
 
       // Transform message to MessageWithSender format
-      const messageWithSender: MessageWithSender = {
-        id: data.id,
-        chat_id: data.conversation_id,
-        sender_id: data.sender_id,
-        content: data.content,
-        message_type: data.message_type,
-        created_at: data.created_at,
-        updated_at: data.updated_at,
-        edited_at: data.is_edited ? data.updated_at : null,
-        deleted_at: data.deleted_at,
-        reply_to_message_id: null,
-        metadata: data.metadata,
-        sender: senderProfile
-          ? {
-              id: senderProfile.id,
-              username: senderProfile.username || '',
-              display_name: senderProfile.display_name || '',
-              avatar_emoji: senderProfile.avatar_emoji || '👤',
-              avatar_url: senderProfile.avatar_url || null,
-              bio: '',
-              created_at: senderProfile.created_at || '',
-              updated_at: senderProfile.updated_at || '',
-              profile_visibility: senderProfile.profile_visibility || 'public',
-              is_active: senderProfile.is_active ?? true,
-            }
-          : {
-              id: user.id,
-              username: user.user_metadata?.username || '',
-              display_name: user.user_metadata?.display_name || '',
-              avatar_emoji: user.user_metadata?.avatar_emoji || '👤',
-              bio: '',
-              created_at: '',
-              updated_at: '',
-              profile_visibility: 'public',
-              is_active: true,
-            },
-        read_by: [],
-        is_read: true,
-        is_edited: data.is_edited || false,
-        delivery_status: [],
-        read_receipt_status: 'unread' as any,
-      };
+      const messageWithSender: MessageWithSender = await this.decryptMessage(
+        user.id,
+        {
+          id: data.id,
+          chat_id: data.conversation_id,
+          sender_id: data.sender_id,
+          content: data.content,
+          message_type: data.message_type,
+          created_at: data.created_at,
+          updated_at: data.updated_at,
+          edited_at: data.is_edited ? data.updated_at : null,
+          deleted_at: data.deleted_at,
+          reply_to_message_id: null,
+          metadata: data.metadata,
+          expires_at: data.expires_at ?? null,
+          sender: senderProfile
+            ? {
+                id: senderProfile.id,
+                username: senderProfile.username || '',
+                display_name: senderProfile.display_name || '',
+                avatar_emoji: senderProfile.avatar_emoji || '👤',
+                avatar_url: senderProfile.avatar_url || null,
+                bio: '',
+                created_at: senderProfile.created_at || '',
+                updated_at: senderProfile.updated_at || '',
+                profile_visibility:
+                  senderProfile.profile_visibility || 'public',
+                is_active: senderProfile.is_active ?? true,
+              }
+            : {
+                id: user.id,
+                username: user.user_metadata?.username || '',
+                display_name: user.user_metadata?.display_name || '',
+                avatar_emoji: user.user_metadata?.avatar_emoji || '👤',
+                bio: '',
+                created_at: '',
+                updated_at: '',
+                profile_visibility: 'public',
+                is_active: true,
+              },
+          read_by: [],
+          is_read: true,
+          is_edited: data.is_edited || false,
+          delivery_status: [],
+          read_receipt_status: 'unread' as any,
+        }
+      );
+
+      // 暗号化していない本文の URL だけプレビューを作る（保存後に realtime で届く）
+      if (!data.metadata?.e2e) {
+        attachLinkPreview('message', data.id, contentToSend);
+      }
 
       // Invalidate message cache for this chat
       this.invalidateMessageCache(request.chat_id);
@@ -868,6 +1013,9 @@ class ChatService {
         error,
         chatId: request.chat_id,
       });
+      if (isNetworkError(error)) {
+        return this.networkErrorResponse();
+      }
       return {
         success: false,
         error: 'メッセージの送信中にエラーが発生しました。',
@@ -911,9 +1059,18 @@ class ChatService {
             chatId,
             messageCount: cachedMessages.messages.length,
           });
+          // キャッシュ中に期限が来たメッセージは返さない
+          const visible = withoutExpiredMessages(cachedMessages.messages);
           return {
             success: true,
-            data: cachedMessages,
+            data:
+              visible === cachedMessages.messages
+                ? cachedMessages
+                : {
+                    ...cachedMessages,
+                    messages: visible,
+                    total_count: visible.length,
+                  },
           };
         }
       }
@@ -951,6 +1108,7 @@ class ChatService {
         deleted_at: null,
         reply_to_message_id: null,
         metadata: msg.metadata,
+        expires_at: msg.expires_at ?? null,
         sender: {
           id: msg.sender_id,
           username: msg.sender_username,
@@ -993,10 +1151,32 @@ class ChatService {
         }
       }
 
+      // 削除ジョブが走るまでの間に期限切れが混ざっても表示しない
+      const fetchedCount = messages.length;
+      messages = withoutExpiredMessages(messages);
+
+      messages = await Promise.all(
+        messages.map(m => this.decryptMessage(user.id, m))
+      );
+
+      // リアクションは取れなくてもメッセージは表示する
+      try {
+        const reactions = await fetchMessageReactions(
+          'dm',
+          messages.map(m => m.id)
+        );
+        messages = messages.map(m => ({
+          ...m,
+          reactions: reactions.get(m.id) || [],
+        }));
+      } catch (error) {
+        secureLogger.warn('Get message reactions failed', { error, chatId });
+      }
+
       const result = {
         messages,
         total_count: messages.length,
-        has_more: messages.length >= limit,
+        has_more: fetchedCount >= limit,
         next_cursor:
           messages.length > 0
             ? messages[messages.length - 1].created_at
@@ -1005,7 +1185,13 @@ class ChatService {
 
       // Cache the result (only for initial loads, not pagination)
       if (!params.cursor) {
-        this.cacheManager.set(cacheKey, result, 2 * 60 * 1000); // Cache for 2 minutes
+        // Cache for 2 minutes, or until the next disappearing message expires
+        const untilExpiry = msUntilNextExpiry(messages);
+        this.cacheManager.set(
+          cacheKey,
+          result,
+          Math.min(2 * 60 * 1000, untilExpiry ?? Infinity)
+        );
       }
 
       return {
@@ -1136,6 +1322,12 @@ class ChatService {
         read_receipt_status: 'unread' as any,
       };
 
+      if (!data.message.metadata?.e2e) {
+        attachLinkPreview('message', data.message.id, request.content, {
+          hadPreview: !!data.message.metadata?.link_preview,
+        });
+      }
+
       // Invalidate message cache for this chat
       this.invalidateMessageCache(data.message.conversation_id);
 
@@ -1393,6 +1585,113 @@ class ChatService {
     }
   }
 
+  /**
+   * Adds or removes the current user's emoji reaction on a message
+   */
+  async setReaction(
+    chatId: string,
+    messageId: string,
+    emoji: string,
+    reacted: boolean
+  ): Promise<ChatResponse<boolean>> {
+    try {
+      if (reacted) {
+        await addMessageReaction('dm', chatId, messageId, emoji);
+      } else {
+        await removeMessageReaction('dm', messageId, emoji);
+      }
+      this.invalidateMessageCache(chatId);
+      return { success: true, data: reacted };
+    } catch (error) {
+      secureLogger.error('Set reaction failed', { error, chatId, messageId });
+      if (isNetworkError(error)) {
+        return this.networkErrorResponse();
+      }
+      return {
+        success: false,
+        error: 'リアクションを送信できませんでした。',
+        error_code: ChatErrorCode.SYSTEM_ERROR,
+      };
+    }
+  }
+
+  /**
+   * Gets the messages pinned to a chat (newest pin first, decrypted on this device)
+   */
+  async getPinnedMessages(
+    chatId: string
+  ): Promise<ChatResponse<PinnedMessage[]>> {
+    try {
+      const client = getSupabaseClient();
+      const {
+        data: { user },
+      } = await client.auth.getUser();
+      if (!user) {
+        return {
+          success: false,
+          error: '認証が必要です。',
+          error_code: ChatErrorCode.ACCESS_DENIED,
+        };
+      }
+      const pins = await fetchPinnedMessages('dm', chatId);
+      return {
+        success: true,
+        data: await Promise.all(
+          pins.map(pin =>
+            this.decryptMessage(user.id, { ...pin, chat_id: chatId })
+          )
+        ),
+      };
+    } catch (error) {
+      secureLogger.error('Get pinned messages failed', { error, chatId });
+      if (isNetworkError(error)) {
+        return this.networkErrorResponse();
+      }
+      return {
+        success: false,
+        error: 'ピン留めしたメッセージを読み込めませんでした。',
+        error_code: ChatErrorCode.SYSTEM_ERROR,
+      };
+    }
+  }
+
+  /**
+   * Pins or unpins a message for everyone in the chat
+   */
+  async setPinned(
+    chatId: string,
+    messageId: string,
+    pinned: boolean
+  ): Promise<ChatResponse<boolean>> {
+    try {
+      if (pinned) {
+        await pinMessage('dm', chatId, messageId);
+      } else {
+        await unpinMessage('dm', messageId);
+      }
+      return { success: true, data: pinned };
+    } catch (error) {
+      secureLogger.error('Set pinned failed', { error, chatId, messageId });
+      if (isNetworkError(error)) {
+        return this.networkErrorResponse();
+      }
+      if (error instanceof ServiceError && error.code === 'PIN_LIMIT_REACHED') {
+        return {
+          success: false,
+          error: `${error.message}。ほかのピン留めを外してからお試しください。`,
+          error_code: ChatErrorCode.VALIDATION_ERROR,
+        };
+      }
+      return {
+        success: false,
+        error: pinned
+          ? 'ピン留めできませんでした。'
+          : 'ピン留めを外せませんでした。',
+        error_code: ChatErrorCode.SYSTEM_ERROR,
+      };
+    }
+  }
+
   // =====================================================
   // REAL-TIME SUBSCRIPTIONS
   // =====================================================
@@ -1438,8 +1737,11 @@ class ChatService {
             table: 'messages',
             filter: `conversation_id=eq.${chatId}`,
           },
-          payload => {
-            const eventData = payload.new || payload.old || {};
+          async payload => {
+            const eventData = await this.decryptMessage(
+              user.id,
+              (payload.new || payload.old || {}) as MessageWithSender
+            );
             const event: MessageEvent = {
               type:
                 payload.eventType === 'INSERT'
@@ -1455,6 +1757,59 @@ class ChatService {
             onEvent(event);
           }
         )
+        .on(
+          'postgres_changes',
+          {
+            event: '*',
+            schema: 'public',
+            table: 'message_reactions',
+            filter: `conversation_id=eq.${chatId}`,
+          },
+          payload => {
+            if (payload.eventType === 'UPDATE') {
+              return;
+            }
+            const reaction = toMessageReaction(
+              payload.eventType === 'INSERT' ? payload.new : payload.old
+            );
+            const event: ReactionEvent = {
+              type:
+                payload.eventType === 'INSERT'
+                  ? ChatEventType.REACTION_ADDED
+                  : ChatEventType.REACTION_REMOVED,
+              chat_id: chatId,
+              user_id: reaction.user_id,
+              timestamp: new Date().toISOString(),
+              data: reaction,
+            };
+            onEvent(event);
+          }
+        )
+        .on(
+          'postgres_changes',
+          {
+            event: '*',
+            schema: 'public',
+            table: 'pinned_messages',
+            filter: `conversation_id=eq.${chatId}`,
+          },
+          payload => {
+            const row = (
+              payload.eventType === 'DELETE' ? payload.old : payload.new
+            ) as any;
+            const event: PinsChangedEvent = {
+              type: ChatEventType.PINS_CHANGED,
+              chat_id: chatId,
+              user_id: row?.pinned_by || '',
+              timestamp: new Date().toISOString(),
+              data: {
+                message_id: row?.message_id || '',
+                pinned: payload.eventType !== 'DELETE',
+              },
+            };
+            onEvent(event);
+          }
+        )
         .on(
           'postgres_changes',
           {
@@ -1951,9 +2306,16 @@ class ChatService {
         };
       }
 
+      if (request.type === 'group') {
+        return this.createGroupChat({
+          title: request.metadata?.title || '',
+          participant_ids: request.participantIds,
+        });
+      }
+
       return {
         success: false,
-        error: 'グループチャットはまだサポートされていません',
+        error: '参加者を選択してください',
         error_code: ChatErrorCode.VALIDATION_ERROR,
       };
     } catch (error) {
@@ -1966,6 +2328,553 @@ class ChatService {
     }
   }
 
+  // =====================================================
+  // GROUP CHATS
+  // =====================================================
+
+  /**
+   * Maps a get_group_conversations_v2 row to ChatWithParticipants
+   */
+  private mapGroupConversation(row: any): ChatWithParticipants {
+    return {
+      id: row.id,
+      chat_type: 'group',
+      created_at: row.created_at || row.updated_at,
+      updated_at: row.updated_at,
+      last_message_at: row.last_message_created_at ?? null,
+      is_active: true,
+      metadata: { title: row.title || '' },
+      last_message: row.last_message_content
+        ? ({
+            id: 'temp-' + row.id,
+            chat_id: row.id,
+            sender_id: row.last_message_sender_id || 'unknown',
+            content: row.last_message_content,
+            message_type: row.last_message_type || MessageType.TEXT,
+            created_at: row.last_message_created_at || row.updated_at,
+            updated_at: row.last_message_created_at || row.updated_at,
+            edited_at: null,
+            deleted_at: null,
+            reply_to_message_id: null,
+            metadata: null,
+          } as MessageWithSender)
+        : undefined,
+      participants: [],
+      participant_ids: [],
+      unread_count: Number(row.unread_count || 0),
+      participants_presence: [],
+      typing_users: [],
+      member_count: Number(row.member_count || 0),
+      my_role: (row.my_role as ParticipantRole) || ParticipantRole.MEMBER,
+    };
+  }
+
+  /**
+   * Gets group chats the current user belongs to (best-effort: [] on error)
+   */
+  private async fetchGroupChats(
+    limit: number
+  ): Promise<ChatWithParticipants[]> {
+    try {
+      const client = getSupabaseClient();
+      const { data, error } = await client.rpc('get_group_conversations_v2', {
+        p_limit: limit,
+      });
+      if (error) {
+        secureLogger.error('Get group chats RPC error', { error });
+        return [];
+      }
+      return ((data || []) as any[]).map(row => this.mapGroupConversation(row));
+    } catch (error) {
+      secureLogger.error('Get group chats exception', { error });
+      return [];
+    }
+  }
+
+  /**
+   * Gets one group chat by ID if the current user is a member (null otherwise)
+   */
+  private async fetchGroupChat(
+    chatId: string
+  ): Promise<ChatWithParticipants | null> {
+    try {
+      const client = getSupabaseClient();
+      const { data, error } = await client.rpc('get_group_conversations_v2', {
+        p_limit: 1,
+        p_conversation_id: chatId,
+      });
+      if (error) {
+        secureLogger.error('Get group chat RPC error', { error, chatId });
+        return null;
+      }
+      const row = ((data || []) as any[])[0];
+      return row ? this.mapGroupConversation(row) : null;
+    } catch (error) {
+      secureLogger.error('Get group chat exception', { error, chatId });
+      return null;
+    }
+  }
+
+  /**
+   * Converts group RPC errors into user-facing responses
+   */
+  private groupErrorResponse(error: any, fallback: string): ChatErrorResponse {
+    const message = String(error?.message || '');
+    if (/permission denied/i.test(message)) {
+      return {
+        success: false,
+        error: 'この操作を行う権限がありません。',
+        error_code: ChatErrorCode.ACCESS_DENIED,
+      };
+    }
+    if (/member limit/i.test(message)) {
+      return {
+        success: false,
+        error: `グループは最大${ChatConstraints.group.maxMembers}人までです。`,
+        error_code: ChatErrorCode.VALIDATION_ERROR,
+      };
+    }
+    if (/blocked/i.test(message)) {
+      return {
+        success: false,
+        error: 'ブロック関係にあるユーザーは追加できません。',
+        error_code: ChatErrorCode.ACCESS_DENIED,
+      };
+    }
+    if (/not a member/i.test(message)) {
+      return {
+        success: false,
+        error: 'チャットが見つかりません。',
+        error_code: ChatErrorCode.CHAT_NOT_FOUND,
+      };
+    }
+    return {
+      success: false,
+      error: fallback,
+      error_code: ChatErrorCode.SYSTEM_ERROR,
+    };
+  }
+
+  /**
+   * Turns end-to-end encryption on or off for a direct chat.
+   * The server posts a system message so the other participant sees the change
+   */
+  async setE2EEnabled(
+    chatId: string,
+    enabled: boolean
+  ): Promise<ChatResponse<boolean>> {
+    try {
+      const result = await setConversationE2E(chatId, enabled);
+      this.invalidateMessageCache(chatId);
+      return { success: true, data: result };
+    } catch (error) {
+      secureLogger.error('Toggle E2E failed', { error, chatId });
+      if (isNetworkError(error)) {
+        return this.networkErrorResponse();
+      }
+      return {
+        success: false,
+        error: '暗号化の設定を変更できませんでした。',
+        error_code: ChatErrorCode.SYSTEM_ERROR,
+      };
+    }
+  }
+
+  /**
+   * Sets the disappearing messages timer (null = off). Applies to messages
+   * sent after the change; the server announces it with a system message
+   */
+  async setDisappearingTimer(
+    chatId: string,
+    seconds: number | null
+  ): Promise<ChatResponse<number | null>> {
+    if (!DISAPPEARING_TIMER_OPTIONS.includes(seconds)) {
+      return {
+        success: false,
+        error: '選択できない期間です。',
+        error_code: ChatErrorCode.VALIDATION_ERROR,
+      };
+    }
+    try {
+      const client = getSupabaseClient();
+      const { data, error } = await client.rpc(
+        'set_conversation_disappearing_v2',
+        { p_conversation_id: chatId, p_seconds: seconds }
+      );
+      if (error) {
+        throw error;
+      }
+      this.invalidateMessageCache(chatId);
+      return { success: true, data: data ?? null };
+    } catch (error) {
+      secureLogger.error('Set disappearing timer failed', { error, chatId });
+      if (isNetworkError(error)) {
+        return this.networkErrorResponse();
+      }
+      if (/permission denied/i.test(String((error as any)?.message || ''))) {
+        return {
+          success: false,
+          error: '消えるメッセージはオーナーか管理者だけが変更できます。',
+          error_code: ChatErrorCode.ACCESS_DENIED,
+        };
+      }
+      return {
+        success: false,
+        error: '消えるメッセージの設定を変更できませんでした。',
+        error_code: ChatErrorCode.SYSTEM_ERROR,
+      };
+    }
+  }
+
+  /**
+   * Reads the disappearing messages timer of a chat (best-effort: null on error)
+   */
+  private async fetchDisappearingSeconds(
+    chatId: string
+  ): Promise<number | null> {
+    const { data, error } = await getSupabaseClient()
+      .from('conversations')
+      .select('disappearing_seconds')
+      .eq('id', chatId)
+      .maybeSingle();
+    if (error) {
+      secureLogger.warn('Failed to read disappearing timer', { chatId, error });
+      return null;
+    }
+    return data?.disappearing_seconds ?? null;
+  }
+
+  /**
+   * Encrypts an outgoing direct message for every device of both participants
+   * and returns the metadata to store (the plaintext never leaves the device)
+   */
+  private async sealForE2E(
+    userId: string,
+    recipientId: string,
+    chatId: string,
+    content: string,
+    metadata: SendMessageRequest['metadata']
+  ): Promise<ChatResponse<Record<string, any>>> {
+    try {
+      // この端末の鍵が未登録だと自分の送信済みメッセージを読めないので先に登録する
+      await publishDeviceKey(userId);
+      const devices = await fetchDeviceKeys([userId, recipientId]);
+      if (!devices.some(d => d.userId === recipientId)) {
+        return {
+          success: false,
+          error:
+            '相手の端末が暗号化に対応していないため送信できません。相手がアプリを更新するまでお待ちください。',
+          error_code: ChatErrorCode.ENCRYPTION_FAILED,
+        };
+      }
+      const { client_message_id, ...sealedMetadata } = metadata || {};
+      const envelope = await encryptPayload(
+        userId,
+        chatId,
+        { content, metadata: sealedMetadata },
+        devices
+      );
+      return {
+        success: true,
+        data: client_message_id
+          ? { client_message_id, e2e: envelope }
+          : { e2e: envelope },
+      };
+    } catch (error) {
+      secureLogger.error('E2E encryption failed', { error, chatId });
+      if (isNetworkError(error)) {
+        return this.networkErrorResponse();
+      }
+      return {
+        success: false,
+        error: 'メッセージを暗号化できませんでした。',
+        error_code: ChatErrorCode.ENCRYPTION_FAILED,
+      };
+    }
+  }
+
+  /**
+   * Replaces the placeholder of an encrypted message with its plaintext.
+   * Messages this device cannot open are flagged so the UI can show a fallback label
+   */
+  private async decryptMessage<T extends { metadata?: any; content: string }>(
+    userId: string,
+    message: T
+  ): Promise<T> {
+    const envelope = message.metadata?.e2e;
+    if (!envelope) {
+      return message;
+    }
+    const chatId =
+      (message as any).chat_id || (message as any).conversation_id || '';
+    const payload = await decryptEnvelope(
+      userId,
+      chatId,
+      envelope,
+      (message as any).sender_id || ''
+    );
+    if (!payload) {
+      return {
+        ...message,
+        metadata: { ...message.metadata, e2e_status: 'undecryptable' },
+      };
+    }
+    return {
+      ...message,
+      content: payload.content,
+      metadata: {
+        ...message.metadata,
+        ...(payload.metadata || {}),
+        e2e_status: 'decrypted',
+      },
+    };
+  }
+
+  /**
+   * Failure caused by the connection rather than the server; the outbox retries these
+   */
+  private networkErrorResponse(): ChatErrorResponse {
+    return {
+      success: false,
+      error: '通信できませんでした。接続を確認してください。',
+      error_code: ChatErrorCode.NETWORK_ERROR,
+    };
+  }
+
+  /**
+   * Runs a group management RPC and refreshes the chat's message cache
+   * (the server records each change as a system message)
+   */
+  private async runGroupRpc(
+    chatId: string,
+    fn: string,
+    args: Record<string, any>,
+    fallback: string
+  ): Promise<ChatResponse<boolean>> {
+    try {
+      const client = getSupabaseClient();
+      const { error } = await client.rpc(fn, args);
+      if (error) {
+        secureLogger.error('Group chat RPC error', { error, fn, chatId });
+        return this.groupErrorResponse(error, fallback);
+      }
+      this.invalidateMessageCache(chatId);
+      return { success: true, data: true };
+    } catch (error) {
+      secureLogger.error('Group chat RPC exception', { error, fn, chatId });
+      return {
+        success: false,
+        error: fallback,
+        error_code: ChatErrorCode.SYSTEM_ERROR,
+      };
+    }
+  }
+
+  /**
+   * Creates a group chat; the current user becomes the owner
+   */
+  async createGroupChat(
+    request: CreateGroupChatRequest
+  ): Promise<ChatResponse<ChatWithParticipants>> {
+    const title = (request.title || '').trim();
+    const memberIds = Array.from(new Set(request.participant_ids || []));
+    if (!title || title.length > ChatConstraints.group.maxTitleLength) {
+      return {
+        success: false,
+        error: `グループ名は1〜${ChatConstraints.group.maxTitleLength}文字で入力してください。`,
+        error_code: ChatErrorCode.VALIDATION_ERROR,
+      };
+    }
+    if (memberIds.length < 1) {
+      return {
+        success: false,
+        error: 'メンバーを1人以上選択してください。',
+        error_code: ChatErrorCode.VALIDATION_ERROR,
+      };
+    }
+    if (memberIds.length + 1 > ChatConstraints.group.maxMembers) {
+      return {
+        success: false,
+        error: `グループは最大${ChatConstraints.group.maxMembers}人までです。`,
+        error_code: ChatErrorCode.VALIDATION_ERROR,
+      };
+    }
+
+    try {
+      const client = getSupabaseClient();
+      const { data: chatId, error } = await client.rpc('create_group_chat_v2', {
+        p_title: title,
+        p_member_ids: memberIds,
+      });
+      if (error || !chatId) {
+        secureLogger.error('Create group chat RPC error', { error });
+        return this.groupErrorResponse(error, 'グループの作成に失敗しました。');
+      }
+
+      secureLogger.info('Group chat created', {
+        chatId,
+        memberCount: memberIds.length + 1,
+      });
+
+      const now = new Date().toISOString();
+      return {
+        success: true,
+        data: {
+          id: chatId,
+          chat_type: 'group',
+          created_at: now,
+          updated_at: now,
+          last_message_at: now,
+          is_active: true,
+          metadata: { title },
+          participants: [],
+          participant_ids: memberIds,
+          unread_count: 0,
+          participants_presence: [],
+          typing_users: [],
+          member_count: memberIds.length + 1,
+          my_role: ParticipantRole.OWNER,
+        },
+      };
+    } catch (error) {
+      secureLogger.error('Create group chat exception', { error });
+      return {
+        success: false,
+        error: 'グループの作成中にエラーが発生しました。',
+        error_code: ChatErrorCode.SYSTEM_ERROR,
+      };
+    }
+  }
+
+  /**
+   * Gets active members of a group chat (owner, admins, then members)
+   */
+  async getGroupMembers(chatId: string): Promise<ChatResponse<GroupMember[]>> {
+    try {
+      const client = getSupabaseClient();
+      const { data, error } = await client.rpc('get_group_members_v2', {
+        p_conversation_id: chatId,
+      });
+      if (error) {
+        secureLogger.error('Get group members RPC error', { error, chatId });
+        return this.groupErrorResponse(error, 'メンバーの取得に失敗しました。');
+      }
+      const members: GroupMember[] = ((data || []) as any[]).map(row => ({
+        user: {
+          id: row.user_id,
+          username: row.username || '',
+          display_name: row.display_name || '',
+          avatar_emoji: row.avatar_emoji || '👤',
+          avatar_url: row.avatar_url ?? null,
+          bio: '',
+          created_at: '',
+          updated_at: '',
+          profile_visibility: 'public',
+          is_active: true,
+        } as PublicUserProfile,
+        role: (row.role as ParticipantRole) || ParticipantRole.MEMBER,
+        joined_at: row.joined_at,
+      }));
+      return { success: true, data: members };
+    } catch (error) {
+      secureLogger.error('Get group members exception', { error, chatId });
+      return {
+        success: false,
+        error: 'メンバーの取得中にエラーが発生しました。',
+        error_code: ChatErrorCode.SYSTEM_ERROR,
+      };
+    }
+  }
+
+  /**
+   * Adds members to a group chat (owner/admin only)
+   */
+  async addGroupMembers(
+    chatId: string,
+    userIds: string[]
+  ): Promise<ChatResponse<boolean>> {
+    const ids = Array.from(new Set(userIds));
+    if (ids.length === 0) {
+      return { success: true, data: true };
+    }
+    return this.runGroupRpc(
+      chatId,
+      'add_group_members_v2',
+      { p_conversation_id: chatId, p_user_ids: ids },
+      'メンバーの追加に失敗しました。'
+    );
+  }
+
+  /**
+   * Removes a member from a group chat (admins remove members, the owner also admins)
+   */
+  async removeGroupMember(
+    chatId: string,
+    userId: string
+  ): Promise<ChatResponse<boolean>> {
+    return this.runGroupRpc(
+      chatId,
+      'remove_group_member_v2',
+      { p_conversation_id: chatId, p_user_id: userId },
+      'メンバーの削除に失敗しました。'
+    );
+  }
+
+  /**
+   * Promotes a member to admin or demotes an admin (owner only)
+   */
+  async setGroupMemberRole(
+    chatId: string,
+    userId: string,
+    role: ParticipantRole.ADMIN | ParticipantRole.MEMBER
+  ): Promise<ChatResponse<boolean>> {
+    return this.runGroupRpc(
+      chatId,
+      'set_group_member_role_v2',
+      { p_conversation_id: chatId, p_user_id: userId, p_role: role },
+      '権限の変更に失敗しました。'
+    );
+  }
+
+  /**
+   * Renames a group chat (owner/admin only)
+   */
+  async renameGroupChat(
+    chatId: string,
+    title: string
+  ): Promise<ChatResponse<boolean>> {
+    const trimmed = (title || '').trim();
+    if (!trimmed || trimmed.length > ChatConstraints.group.maxTitleLength) {
+      return {
+        success: false,
+        error: `グループ名は1〜${ChatConstraints.group.maxTitleLength}文字で入力してください。`,
+        error_code: ChatErrorCode.VALIDATION_ERROR,
+      };
+    }
+    return this.runGroupRpc(
+      chatId,
+      'update_group_chat_v2',
+      { p_conversation_id: chatId, p_title: trimmed },
+      'グループ名の変更に失敗しました。'
+    );
+  }
+
+  /**
+   * Leaves a group chat; ownership passes to the longest-standing admin or member
+   */
+  async leaveGroupChat(chatId: string): Promise<ChatResponse<boolean>> {
+    const res = await this.runGroupRpc(
+      chatId,
+      'leave_group_chat_v2',
+      { p_conversation_id: chatId },
+      'グループからの退出に失敗しました。'
+    );
+    if (res.success) {
+      await this.unsubscribeFromChat(chatId);
+    }
+    return res;
+  }
+
   // =====================================================
   // CLEANUP AND UTILITIES
   // =====================================================
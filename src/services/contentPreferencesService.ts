@@ -0,0 +1,70 @@
+import { ContentWarningCategory } from '../types/post';
+import { isContentWarningCategory } from '../utils/contentWarnings';
+import { secureLogger } from '../utils/privacyProtection';
+
+import { getSupabaseClient } from './supabaseClient';
+
+export type ContentPreferences = {
+  // ホームフィードで常に非表示にするカテゴリ
+  hidden_content_warnings: ContentWarningCategory[];
+};
+
+const defaultPrefs: ContentPreferences = {
+  hidden_content_warnings: [],
+};
+
+export const contentPreferencesService = {
+  async get(userId: string): Promise<ContentPreferences> {
+    try {
+      const client = getSupabaseClient();
+      const { data, error } = await client
+        .from('user_content_preferences')
+        .select('hidden_content_warnings')
+        .eq('user_id', userId)
+        .maybeSingle();
+      if (error) {
+        throw error;
+      }
+      if (!data) {
+        return defaultPrefs;
+      }
+      const hidden = ((data as any).hidden_content_warnings ?? []) as unknown[];
+      return {
+        hidden_content_warnings: hidden.filter(isContentWarningCategory),
+      };
+    } catch (e) {
+      secureLogger.error('Failed to load content preferences', {
+        error: String(e),
+      });
+      return defaultPrefs;
+    }
+  },
+
+  async update(
+    userId: string,
+    patch: Partial<ContentPreferences>
+  ): Promise<boolean> {
+    try {
+      const client = getSupabaseClient();
+      const payload = {
+        user_id: userId,
+        ...patch,
+        updated_at: new Date().toISOString(),
+      } as any;
+      const { error } = await client
+        .from('user_content_preferences')
+        .upsert(payload, { onConflict: 'user_id' });
+      if (error) {
+        throw error;
+      }
+      return true;
+    } catch (e) {
+      secureLogger.error('Failed to update content preferences', {
+        error: String(e),
+      });
+      return false;
+    }
+  },
+};
+
+export default contentPreferencesService;
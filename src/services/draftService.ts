@@ -0,0 +1,191 @@
+import { Attachment, ContentWarningCategory, PostDraft } from '../types/post';
+import { ServiceError } from '../utils/errors';
+
+import { getSupabaseClient } from './supabaseClient';
+
+const DRAFT_COLUMNS =
+  'id,user_id,body,attachments,content_warning,status,scheduled_at,published_post_id,last_error,created_at,updated_at';
+
+// 予約は最短でも数分先（cron は毎分実行）
+export const MIN_SCHEDULE_LEAD_MS = 5 * 60 * 1000;
+export const MAX_SCHEDULE_AHEAD_MS = 30 * 24 * 60 * 60 * 1000;
+
+function toDraft(row: any): PostDraft {
+  return {
+    id: row.id,
+    user_id: row.user_id,
+    body: row.body ?? '',
+    attachments: row.attachments || [],
+    content_warning: row.content_warning ?? null,
+    status: row.status,
+    scheduled_at: row.scheduled_at ?? null,
+    published_post_id: row.published_post_id ?? null,
+    last_error: row.last_error ?? null,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+  };
+}
+
+async function requireUserId(): Promise<string> {
+  const supabase = getSupabaseClient();
+  const { data: userRes } = await supabase.auth.getUser();
+  const user = userRes?.user;
+  if (!user) {
+    throw new ServiceError('NOT_AUTHENTICATED', 'Not authenticated');
+  }
+  return user.id;
+}
+
+export function validateScheduleTime(
+  scheduledAt: Date,
+  now: Date = new Date()
+): void {
+  const diff = scheduledAt.getTime() - now.getTime();
+  if (Number.isNaN(diff) || diff < MIN_SCHEDULE_LEAD_MS) {
+    throw new ServiceError(
+      'DRAFT_INVALID_INPUT',
+      '予約日時は5分以上先を指定してください'
+    );
+  }
+  if (diff > MAX_SCHEDULE_AHEAD_MS) {
+    throw new ServiceError(
+      'DRAFT_INVALID_INPUT',
+      '予約できるのは30日先までです'
+    );
+  }
+}
+
+/** 下書き・予約投稿の一覧（公開済みは含めない） */
+export async function listDrafts(): Promise<PostDraft[]> {
+  const supabase = getSupabaseClient();
+  const userId = await requireUserId();
+  const { data, error } = await supabase
+    .from('post_drafts')
+    .select(DRAFT_COLUMNS)
+    .eq('user_id', userId)
+    .in('status', ['draft', 'scheduled', 'failed'])
+    .order('updated_at', { ascending: false });
+  if (error) {
+    throw new ServiceError(
+      'DRAFT_LIST_FAILED',
+      `[listDrafts] ${error.message || 'draft list failed'}`,
+      error
+    );
+  }
+  return (data ?? []).map(toDraft);
+}
+
+/**
+ * 下書きを保存する。id があれば上書き、なければ新規作成。
+ * scheduledAt を渡すと予約投稿になり、null を渡すと予約を解除して下書きに戻す。
+ */
+export async function saveDraft(input: {
+  id?: string | null;
+  body: string;
+  attachments?: Attachment[];
+  contentWarning?: ContentWarningCategory | null;
+  scheduledAt?: Date | null;
+}): Promise<PostDraft> {
+  const body = input.body ?? '';
+  const attachments = input.attachments ?? [];
+  if (body.trim().length === 0 && attachments.length === 0) {
+    throw new ServiceError(
+      'DRAFT_INVALID_INPUT',
+      '投稿内容または画像を追加してください'
+    );
+  }
+  if (body.length > 300) {
+    throw new ServiceError(
+      'DRAFT_INVALID_INPUT',
+      '投稿は300文字以内にしてください'
+    );
+  }
+  if (input.scheduledAt) {
+    validateScheduleTime(input.scheduledAt);
+  }
+  const supabase = getSupabaseClient();
+  const userId = await requireUserId();
+  const row = {
+    user_id: userId,
+    body,
+    attachments: attachments.slice(0, 4),
+    content_warning: input.contentWarning ?? null,
+    status: input.scheduledAt ? 'scheduled' : 'draft',
+    scheduled_at: input.scheduledAt ? input.scheduledAt.toISOString() : null,
+    last_error: null,
+  };
+  const query = input.id
+    ? supabase
+        .from('post_drafts')
+        .update(row)
+        .eq('id', input.id)
+        .eq('user_id', userId)
+    : supabase.from('post_drafts').insert(row);
+  const { data, error } = await query.select(DRAFT_COLUMNS).single();
+  if (error || !data) {
+    throw new ServiceError(
+      'DRAFT_SAVE_FAILED',
+      `[saveDraft] ${error?.message || 'draft save failed'}`,
+      error
+    );
+  }
+  return toDraft(data);
+}
+
+export async function deleteDraft(draftId: string): Promise<void> {
+  const supabase = getSupabaseClient();
+  const userId = await requireUserId();
+  const { error } = await supabase
+    .from('post_drafts')
+    .delete()
+    .eq('id', draftId)
+    .eq('user_id', userId);
+  if (error) {
+    throw new ServiceError(
+      'DRAFT_DELETE_FAILED',
+      `[deleteDraft] ${error.message || 'draft delete failed'}`,
+      error
+    );
+  }
+}
+
+/** 予約日時の候補（1時間後 / 今夜21時 / 明日の朝7時）。過ぎている候補は除外する */
+export function schedulePresets(
+  now: Date = new Date()
+): { label: string; date: Date }[] {
+  const inOneHour = new Date(now.getTime() + 60 * 60 * 1000);
+  const tonight = new Date(now);
+  tonight.setHours(21, 0, 0, 0);
+  const tomorrowMorning = new Date(now);
+  tomorrowMorning.setDate(tomorrowMorning.getDate() + 1);
+  tomorrowMorning.setHours(7, 0, 0, 0);
+  return [
+    { label: '1時間後', date: inOneHour },
+    { label: '今夜21:00', date: tonight },
+    { label: '明日の朝7:00', date: tomorrowMorning },
+  ].filter(p => p.date.getTime() - now.getTime() >= MIN_SCHEDULE_LEAD_MS);
+}
+
+/** 日時を指定するときに選べる日数（今日から30日後まで） */
+export const SCHEDULE_DAY_RANGE = 31;
+/** 日時を指定するときに選べる分（15分刻み） */
+export const SCHEDULE_MINUTE_STEPS = [0, 15, 30, 45];
+
+/** 今日から dayOffset 日後の hour:minute（端末のタイムゾーン） */
+export function scheduleDateAt(
+  dayOffset: number,
+  hour: number,
+  minute: number,
+  now: Date = new Date()
+): Date {
+  const date = new Date(now);
+  date.setDate(date.getDate() + dayOffset);
+  date.setHours(hour, minute, 0, 0);
+  return date;
+}
+
+/** 日時を指定するときの初期値（1時間後を15分単位に切り上げ） */
+export function defaultScheduleDate(now: Date = new Date()): Date {
+  const step = 15 * 60 * 1000;
+  return new Date(Math.ceil((now.getTime() + 60 * 60 * 1000) / step) * step);
+}
@@ -0,0 +1,492 @@
+import * as SecureStore from 'expo-secure-store';
+
+import { E2EEnvelope, MessageMetadata } from '../types/chat';
+import { ServiceError } from '../utils/errors';
+import { secureLogger } from '../utils/privacyProtection';
+
+import { getSupabaseClient } from './supabaseClient';
+
+/**
+ * 1:1 DM のエンドツーエンド暗号化。
+ *
+ * - 端末ごとに ECDH(P-256) の鍵ペアを作り、秘密鍵は SecureStore、公開鍵は user_device_keys に置く
+ * - 送信側の端末と受信側の各端末のあいだで ECDH + HKDF によりセッション鍵を決める
+ * - 本文と添付情報はメッセージごとのランダムな鍵で AES-GCM 暗号化し、その鍵を端末ごとのセッション鍵で包む
+ *
+ * 画像・音声ファイル自体はストレージに置いたままで、暗号化されるのはその URL を含むメタデータ。
+ */
+
+/** 暗号化した DM の content（一覧のプレビューや通知に出る） */
+export const E2E_PLACEHOLDER_TEXT = '🔒 暗号化されたメッセージ';
+
+/** 暗号化中の DM では写真・ボイスメッセージを送れない（ファイル自体は暗号化されないため） */
+export const E2E_ATTACHMENTS_UNAVAILABLE_TEXT =
+  '暗号化中のチャットでは写真とボイスメッセージは送れません';
+
+const IDENTITY_KEY_PREFIX = 'e2e_device_identity_v1_';
+const HKDF_INFO = 'mamapace-dm-e2e-v1';
+const IV_LENGTH = 12;
+
+const EC_PARAMS = { name: 'ECDH', namedCurve: 'P-256' } as const;
+
+export type DeviceKey = {
+  userId: string;
+  deviceId: string;
+  publicKey: string; // base64（非圧縮の raw 形式）
+};
+
+type DeviceIdentity = {
+  deviceId: string;
+  publicKey: string;
+  privateKeyJwk: JsonWebKey;
+};
+
+/** 暗号化の対象（本文と、添付・音声などのメタデータ） */
+export type E2EPayload = {
+  content: string;
+  metadata?: Partial<MessageMetadata>;
+};
+
+const identities = new Map<string, Promise<DeviceIdentity>>();
+const privateKeys = new Map<string, Promise<CryptoKey>>();
+const sessionKeys = new Map<string, Promise<CryptoKey>>();
+// 送信者の登録済みの鍵。一覧の読み込みでは同じ送信者のメッセージが続くので少しの間使い回す
+const SENDER_KEYS_TTL_MS = 60 * 1000;
+const senderKeys = new Map<
+  string,
+  { at: number; keys: Promise<DeviceKey[]> }
+>();
+
+function subtle(): SubtleCrypto {
+  const s = (globalThis as any).crypto?.subtle as SubtleCrypto | undefined;
+  if (!s) {
+    throw new ServiceError(
+      'E2E_UNAVAILABLE',
+      'この端末では暗号化を利用できません'
+    );
+  }
+  return s;
+}
+
+function randomBytes(length: number): Uint8Array {
+  return (globalThis as any).crypto.getRandomValues(new Uint8Array(length));
+}
+
+function toBase64(bytes: ArrayBuffer | Uint8Array): string {
+  const arr = bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes);
+  let binary = '';
+  for (let i = 0; i < arr.length; i++) {
+    binary += String.fromCharCode(arr[i]!);
+  }
+  return btoa(binary);
+}
+
+function fromBase64(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+const utf8 = (text: string) => new TextEncoder().encode(text);
+
+async function createIdentity(): Promise<DeviceIdentity> {
+  const pair = (await subtle().generateKey(EC_PARAMS, true, [
+    'deriveBits',
+  ])) as CryptoKeyPair;
+  const [rawPublic, privateKeyJwk] = await Promise.all([
+    subtle().exportKey('raw', pair.publicKey),
+    subtle().exportKey('jwk', pair.privateKey),
+  ]);
+  return {
+    deviceId: toBase64(randomBytes(12)).replace(/[^A-Za-z0-9]/g, 'x'),
+    publicKey: toBase64(rawPublic),
+    privateKeyJwk,
+  };
+}
+
+/**
+ * この端末の鍵ペア。初回は作成して SecureStore に保存し、公開鍵を登録する。
+ */
+export function getDeviceIdentity(userId: string): Promise<DeviceIdentity> {
+  let pending = identities.get(userId);
+  if (!pending) {
+    pending = (async () => {
+      const storageKey = `${IDENTITY_KEY_PREFIX}${userId}`;
+      try {
+        const stored = await SecureStore.getItemAsync(storageKey);
+        if (stored) {
+          return JSON.parse(stored) as DeviceIdentity;
+        }
+        const identity = await createIdentity();
+        await SecureStore.setItemAsync(storageKey, JSON.stringify(identity), {
+          keychainAccessible: SecureStore.WHEN_UNLOCKED_THIS_DEVICE_ONLY,
+        });
+        return identity;
+      } catch (error) {
+        identities.delete(userId);
+        if (error instanceof ServiceError) {
+          throw error;
+        }
+        throw new ServiceError(
+          'E2E_KEY_FAILED',
+          '暗号化の鍵を準備できませんでした',
+          error
+        );
+      }
+    })();
+    identities.set(userId, pending);
+  }
+  return pending;
+}
+
+/** この端末の公開鍵を登録（既に登録済みなら最終利用日時だけ更新） */
+export async function publishDeviceKey(userId: string): Promise<DeviceKey> {
+  const identity = await getDeviceIdentity(userId);
+  const { error } = await getSupabaseClient().from('user_device_keys').upsert(
+    {
+      user_id: userId,
+      device_id: identity.deviceId,
+      public_key: identity.publicKey,
+      last_seen_at: new Date().toISOString(),
+      revoked_at: null,
+    },
+    { onConflict: 'user_id,device_id' }
+  );
+  if (error) {
+    throw new ServiceError(
+      'E2E_KEY_FAILED',
+      `[publishDeviceKey] ${error.message || 'publish failed'}`,
+      error
+    );
+  }
+  return {
+    userId,
+    deviceId: identity.deviceId,
+    publicKey: identity.publicKey,
+  };
+}
+
+/** ユーザーの有効な端末の公開鍵 */
+export async function fetchDeviceKeys(userIds: string[]): Promise<DeviceKey[]> {
+  if (userIds.length === 0) {
+    return [];
+  }
+  const { data, error } = await getSupabaseClient()
+    .from('user_device_keys')
+    .select('user_id, device_id, public_key')
+    .in('user_id', userIds)
+    .is('revoked_at', null)
+    .order('created_at', { ascending: true });
+  if (error) {
+    throw new ServiceError(
+      'E2E_KEY_FAILED',
+      `[fetchDeviceKeys] ${error.message || 'fetch failed'}`,
+      error
+    );
+  }
+  return (data ?? []).map((row: any) => ({
+    userId: row.user_id,
+    deviceId: row.device_id,
+    publicKey: row.public_key,
+  }));
+}
+
+function registeredKeysOf(
+  userId: string,
+  fresh: boolean
+): Promise<DeviceKey[]> {
+  const cached = senderKeys.get(userId);
+  if (!fresh && cached && Date.now() - cached.at < SENDER_KEYS_TTL_MS) {
+    return cached.keys;
+  }
+  const keys = fetchDeviceKeys([userId]);
+  senderKeys.set(userId, { at: Date.now(), keys });
+  keys.catch(() => senderKeys.delete(userId));
+  return keys;
+}
+
+/**
+ * 暗号文に添えられた送信元の公開鍵が、送信者本人の登録済みの端末の鍵か。
+ * 添えられた鍵をそのまま信じると、他人がなりすました暗号文も復号できてしまう
+ */
+async function isRegisteredSenderKey(
+  senderId: string,
+  envelope: E2EEnvelope
+): Promise<boolean> {
+  const matches = (keys: DeviceKey[]) =>
+    keys.some(
+      k =>
+        k.deviceId === envelope.sender_device_id &&
+        k.publicKey === envelope.sender_public_key
+    );
+  if (matches(await registeredKeysOf(senderId, false))) {
+    return true;
+  }
+  // 送信の直前に登録された端末かもしれないので、1 度だけ取り直す
+  return matches(await registeredKeysOf(senderId, true));
+}
+
+function getPrivateKey(identity: DeviceIdentity): Promise<CryptoKey> {
+  let pending = privateKeys.get(identity.deviceId);
+  if (!pending) {
+    pending = subtle().importKey(
+      'jwk',
+      identity.privateKeyJwk,
+      EC_PARAMS,
+      false,
+      ['deriveBits']
+    );
+    privateKeys.set(identity.deviceId, pending);
+  }
+  return pending;
+}
+
+/**
+ * 自分の端末と相手の端末のあいだのセッション鍵（ECDH の共有秘密を HKDF で AES-GCM 鍵にする）。
+ * 会話 ID を salt に入れるので、同じ端末の組でも会話ごとに鍵が変わる。
+ */
+function getSessionKey(
+  identity: DeviceIdentity,
+  peerPublicKey: string,
+  conversationId: string
+): Promise<CryptoKey> {
+  const cacheKey = `${identity.deviceId}:${peerPublicKey}:${conversationId}`;
+  let pending = sessionKeys.get(cacheKey);
+  if (!pending) {
+    pending = (async () => {
+      const peer = await subtle().importKey(
+        'raw',
+        fromBase64(peerPublicKey),
+        EC_PARAMS,
+        false,
+        []
+      );
+      const shared = await subtle().deriveBits(
+        { name: 'ECDH', public: peer },
+        await getPrivateKey(identity),
+        256
+      );
+      const hkdf = await subtle().importKey('raw', shared, 'HKDF', false, [
+        'deriveKey',
+      ]);
+      return subtle().deriveKey(
+        {
+          name: 'HKDF',
+          hash: 'SHA-256',
+          salt: utf8(conversationId),
+          info: utf8(HKDF_INFO),
+        },
+        hkdf,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['encrypt', 'decrypt']
+      );
+    })();
+    pending.catch(() => sessionKeys.delete(cacheKey));
+    sessionKeys.set(cacheKey, pending);
+  }
+  return pending;
+}
+
+/**
+ * 本文と添付情報を暗号化する。recipients には相手と自分の全端末を渡す
+ * （自分のほかの端末でも送信済みメッセージを読めるように）。
+ */
+export async function encryptPayload(
+  userId: string,
+  conversationId: string,
+  payload: E2EPayload,
+  recipients: DeviceKey[]
+): Promise<E2EEnvelope> {
+  if (recipients.length === 0) {
+    throw new ServiceError(
+      'E2E_NO_RECIPIENT_KEYS',
+      '相手の端末が暗号化に対応していません'
+    );
+  }
+  const identity = await getDeviceIdentity(userId);
+  const messageKey = (await subtle().generateKey(
+    { name: 'AES-GCM', length: 256 },
+    true,
+    ['encrypt', 'decrypt']
+  )) as CryptoKey;
+  const iv = randomBytes(IV_LENGTH);
+  const ciphertext = await subtle().encrypt(
+    { name: 'AES-GCM', iv },
+    messageKey,
+    utf8(JSON.stringify(payload))
+  );
+  const rawMessageKey = await subtle().exportKey('raw', messageKey);
+
+  const keys: E2EEnvelope['keys'] = {};
+  for (const device of recipients) {
+    const sessionKey = await getSessionKey(
+      identity,
+      device.publicKey,
+      conversationId
+    );
+    const wrapIv = randomBytes(IV_LENGTH);
+    const wrapped = await subtle().encrypt(
+      { name: 'AES-GCM', iv: wrapIv },
+      sessionKey,
+      rawMessageKey
+    );
+    keys[device.deviceId] = { iv: toBase64(wrapIv), key: toBase64(wrapped) };
+  }
+
+  return {
+    v: 1,
+    sender_device_id: identity.deviceId,
+    sender_public_key: identity.publicKey,
+    iv: toBase64(iv),
+    ciphertext: toBase64(ciphertext),
+    keys,
+  };
+}
+
+/**
+ * 暗号文を復号する。この端末あての鍵がない（送信後に追加した端末など）か、
+ * 送信元の鍵が送信者の登録済みの鍵でないか、改ざん等で復号できないときは null を返す。
+ */
+export async function decryptEnvelope(
+  userId: string,
+  conversationId: string,
+  envelope: E2EEnvelope,
+  senderId: string
+): Promise<E2EPayload | null> {
+  try {
+    const identity = await getDeviceIdentity(userId);
+    const wrapped = envelope.keys?.[identity.deviceId];
+    if (!wrapped) {
+      return null;
+    }
+    if (!(await isRegisteredSenderKey(senderId, envelope))) {
+      secureLogger.warn('E2E sender key is not registered', {
+        conversationId,
+      });
+      return null;
+    }
+    // 自分が送ったものは相手の公開鍵ではなく自分の鍵どうしで包まれている
+    const sessionKey = await getSessionKey(
+      identity,
+      envelope.sender_public_key,
+      conversationId
+    );
+    const rawMessageKey = await subtle().decrypt(
+      { name: 'AES-GCM', iv: fromBase64(wrapped.iv) },
+      sessionKey,
+      fromBase64(wrapped.key)
+    );
+    const messageKey = await subtle().importKey(
+      'raw',
+      rawMessageKey,
+      'AES-GCM',
+      false,
+      ['decrypt']
+    );
+    const plaintext = await subtle().decrypt(
+      { name: 'AES-GCM', iv: fromBase64(envelope.iv) },
+      messageKey,
+      fromBase64(envelope.ciphertext)
+    );
+    const payload = JSON.parse(new TextDecoder().decode(plaintext));
+    if (typeof payload?.content !== 'string') {
+      return null;
+    }
+    return payload as E2EPayload;
+  } catch (error) {
+    secureLogger.warn('Failed to decrypt E2E message', {
+      conversationId,
+      error,
+    });
+    return null;
+  }
+}
+
+/**
+ * 安全確認用の番号（60 桁）。2 人の端末の公開鍵から計算し、どちらの端末でも同じ並びになる。
+ * 相手の端末が増えたり鍵が作り直されたりすると番号が変わる。
+ */
+export async function computeSafetyNumber(
+  a: { userId: string; keys: DeviceKey[] },
+  b: { userId: string; keys: DeviceKey[] }
+): Promise<string> {
+  const [first, second] = [a, b].sort((x, y) =>
+    x.userId.localeCompare(y.userId)
+  ) as [typeof a, typeof b];
+  const parts = await Promise.all(
+    [first, second].map(async side => {
+      const material = [
+        side.userId,
+        ...side.keys.map(k => k.publicKey).sort(),
+      ].join(':');
+      const digest = new Uint8Array(
+        await subtle().digest('SHA-256', utf8(material))
+      );
+      return fingerprintDigits(digest);
+    })
+  );
+  return parts.join('');
+}
+
+/** ハッシュ先頭 30 バイトを 5 バイトずつ 5 桁の数字に変換（計 30 桁） */
+function fingerprintDigits(digest: Uint8Array): string {
+  let out = '';
+  for (let i = 0; i < 30; i += 5) {
+    let n = 0;
+    for (let j = 0; j < 5; j++) {
+      n = n * 256 + (digest[i + j] ?? 0);
+    }
+    out += String(n % 100000).padStart(5, '0');
+  }
+  return out;
+}
+
+/** 安全確認番号を 5 桁ずつの組に分ける（表示用） */
+export function formatSafetyNumber(digits: string): string[] {
+  return digits.match(/.{1,5}/g) ?? [];
+}
+
+/** 会話の暗号化設定を切り替える（相手にはシステムメッセージで通知される） */
+export async function setConversationE2E(
+  conversationId: string,
+  enabled: boolean
+): Promise<boolean> {
+  const { data, error } = await getSupabaseClient().rpc(
+    'set_conversation_e2e_v2',
+    { p_conversation_id: conversationId, p_enabled: enabled }
+  );
+  if (error) {
+    throw new ServiceError(
+      'E2E_TOGGLE_FAILED',
+      `[setConversationE2E] ${error.message || 'toggle failed'}`,
+      error
+    );
+  }
+  return Boolean(data);
+}
+
+/**
+ * 会話の暗号化設定を読む。読めなかったときは「オフ」とみなさずに例外を投げる
+ * （平文で送ってしまわないよう、送信側は失敗として扱う）
+ */
+export async function isConversationE2E(
+  conversationId: string
+): Promise<boolean> {
+  const { data, error } = await getSupabaseClient()
+    .from('conversations')
+    .select('e2e_enabled')
+    .eq('id', conversationId)
+    .maybeSingle();
+  if (error) {
+    throw new ServiceError(
+      'E2E_UNAVAILABLE',
+      `[isConversationE2E] ${error.message || 'read failed'}`,
+      error
+    );
+  }
+  return Boolean(data?.e2e_enabled);
+}
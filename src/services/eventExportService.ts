@@ -0,0 +1,23 @@
+import { SpaceEvent } from '../types/room';
+import { ServiceError } from '../utils/errors';
+import { buildEventIcs } from '../utils/spaceEvents';
+
+import { ICS_FILE_TYPE, shareTextFile } from './fileShareService';
+
+/** イベント 1 件を .ics にして共有シートを開く（カレンダーアプリに取り込める） */
+export async function exportEventIcs(
+  event: SpaceEvent,
+  spaceName?: string
+): Promise<void> {
+  const content = buildEventIcs(event, spaceName);
+  const fileName = `event-${event.id.slice(0, 8)}.ics`;
+  try {
+    await shareTextFile(fileName, content, ICS_FILE_TYPE);
+  } catch (e: any) {
+    throw new ServiceError(
+      'EVENT_EXPORT_FAILED',
+      `[exportEventIcs] ${e?.message || 'share failed'}`,
+      e
+    );
+  }
+}
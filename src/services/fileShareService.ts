@@ -0,0 +1,39 @@
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+
+/** 共有するファイルの種類（Android には mimeType、iOS には UTI で伝える） */
+export type SharedFileType = { mimeType: string; UTI: string };
+
+export const TEXT_FILE_TYPE: SharedFileType = {
+  mimeType: 'text/plain',
+  UTI: 'public.plain-text',
+};
+export const JSON_FILE_TYPE: SharedFileType = {
+  mimeType: 'application/json',
+  UTI: 'public.json',
+};
+export const ICS_FILE_TYPE: SharedFileType = {
+  mimeType: 'text/calendar',
+  UTI: 'com.apple.ical.ics',
+};
+
+/**
+ * 文字列を端末のキャッシュにファイルとして書き、共有シートで渡す（iOS・Android 共通）。
+ * 失敗したときは例外をそのまま投げるので、呼び出し側でそれぞれのエラーに包む
+ */
+export async function shareTextFile(
+  fileName: string,
+  content: string,
+  type: SharedFileType
+): Promise<void> {
+  if (!FileSystem.cacheDirectory || !(await Sharing.isAvailableAsync())) {
+    throw new Error('file sharing is not available');
+  }
+  const uri = `${FileSystem.cacheDirectory}${fileName}`;
+  await FileSystem.writeAsStringAsync(uri, content);
+  await Sharing.shareAsync(uri, {
+    mimeType: type.mimeType,
+    UTI: type.UTI,
+    dialogTitle: fileName,
+  });
+}
@@ -0,0 +1,73 @@
+import { LinkPreview } from '../types/post';
+import { ServiceError } from '../utils/errors';
+import { extractFirstUrl, toLinkPreview } from '../utils/linkPreview';
+
+import { getSupabaseClient } from './supabaseClient';
+
+/** プレビューを保存する対象。DM は messages、スペースのチャンネルは room_messages */
+export type LinkPreviewTarget = 'post' | 'message' | 'room_message';
+
+/**
+ * 保存済みの投稿・メッセージの本文から URL を読み、プレビューを取得して対象に保存する。
+ * 取得と保存はサーバー（link-preview 関数）で行い、本人が書いたものにしか保存されない。
+ */
+export async function requestLinkPreview(
+  targetType: LinkPreviewTarget,
+  targetId: string
+): Promise<LinkPreview | null> {
+  const { data, error } = await getSupabaseClient().functions.invoke(
+    'link-preview',
+    { body: { target_type: targetType, target_id: targetId } }
+  );
+  if (error) {
+    throw new ServiceError(
+      'LINK_PREVIEW_FAILED',
+      `[requestLinkPreview] ${(error as any)?.message || 'invoke failed'}`,
+      error
+    );
+  }
+  return toLinkPreview((data as { preview?: unknown } | null)?.preview);
+}
+
+/**
+ * 送信・投稿の後に呼ぶ。本文に URL が無ければ何もしない（hadPreview なら外すために呼ぶ）。
+ * 失敗しても送信自体には影響させない。
+ */
+export function attachLinkPreview(
+  targetType: LinkPreviewTarget,
+  targetId: string,
+  text: string | null | undefined,
+  options: { hadPreview?: boolean } = {}
+): void {
+  if (!targetId || (!extractFirstUrl(text) && !options.hadPreview)) {
+    return;
+  }
+  requestLinkPreview(targetType, targetId).catch(() => {});
+}
+
+/** フィードの RPC は link_preview を返さないので、後からまとめて補う */
+export async function fillLinkPreviews<
+  T extends { id: string; body: string; link_preview?: LinkPreview | null },
+>(items: T[]): Promise<T[]> {
+  const ids = items.filter(it => extractFirstUrl(it.body)).map(it => it.id);
+  if (ids.length === 0) {
+    return items;
+  }
+  try {
+    const { data, error } = await getSupabaseClient()
+      .from('posts')
+      .select('id,link_preview')
+      .in('id', ids);
+    if (error) {
+      return items;
+    }
+    const map = new Map<string, LinkPreview | null>(
+      (data ?? []).map((r: any) => [r.id, toLinkPreview(r.link_preview)])
+    );
+    return items.map(it =>
+      map.has(it.id) ? { ...it, link_preview: map.get(it.id) ?? null } : it
+    );
+  } catch {
+    return items;
+  }
+}
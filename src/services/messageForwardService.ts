@@ -0,0 +1,149 @@
+import { Message, MessageMetadata, MessageType } from '../types/chat';
+import { RoomMessage } from '../types/room';
+import { ServiceError } from '../utils/errors';
+
+import chatService from './chatService';
+import { sharedPostIdFromAttachments } from './postShareService';
+import { RoomService } from './roomService';
+
+type ForwardImage = {
+  url: string;
+  width?: number;
+  height?: number;
+  mime?: string;
+};
+
+/** 転送する中身。DM とチャンネルのメッセージを同じ形にそろえたもの */
+export type ForwardableMessage = {
+  content: string;
+  images: ForwardImage[];
+  shared_post_id?: string;
+  audio?: Pick<
+    MessageMetadata,
+    'audio_url' | 'audio_duration_ms' | 'audio_waveform' | 'audio_mime'
+  >;
+};
+
+// 画像だけのメッセージに入る仮の本文
+const IMAGE_PLACEHOLDER = '[image]';
+
+function bodyText(content: string | null | undefined): string {
+  const text = (content || '').trim();
+  return text === IMAGE_PLACEHOLDER ? '' : text;
+}
+
+function toImages(list: any[] | null | undefined): ForwardImage[] {
+  return (list ?? [])
+    .map(a => (typeof a === 'string' ? { url: a } : a))
+    .filter(a => a && typeof a.url === 'string' && a.url)
+    .map(({ url, width, height, mime }) => ({ url, width, height, mime }));
+}
+
+/** 転送できないもの（システム・削除済み・この端末で読めない暗号文）は null */
+export function forwardableFromChatMessage(
+  message: Pick<Message, 'content' | 'message_type' | 'metadata' | 'deleted_at'>
+): ForwardableMessage | null {
+  const meta = message.metadata || {};
+  if (
+    message.deleted_at ||
+    message.message_type === MessageType.SYSTEM ||
+    message.message_type === MessageType.DELETED ||
+    meta.e2e_status === 'undecryptable'
+  ) {
+    return null;
+  }
+  return {
+    content: bodyText(message.content),
+    images: toImages(meta.attachments),
+    ...(meta.shared_post_id ? { shared_post_id: meta.shared_post_id } : {}),
+    ...(message.message_type === MessageType.AUDIO && meta.audio_url
+      ? {
+          audio: {
+            audio_url: meta.audio_url,
+            audio_duration_ms: meta.audio_duration_ms,
+            audio_waveform: meta.audio_waveform,
+            audio_mime: meta.audio_mime,
+          },
+        }
+      : {}),
+  };
+}
+
+export function forwardableFromChannelMessage(
+  message: Pick<
+    RoomMessage,
+    'content' | 'message_type' | 'attachments' | 'deleted_at' | 'is_masked'
+  >
+): ForwardableMessage | null {
+  if (
+    message.deleted_at ||
+    message.is_masked ||
+    message.message_type === 'system'
+  ) {
+    return null;
+  }
+  const postId = sharedPostIdFromAttachments(message.attachments);
+  return {
+    content: bodyText(message.content),
+    images: postId ? [] : toImages(message.attachments),
+    ...(postId ? { shared_post_id: postId } : {}),
+  };
+}
+
+export async function forwardToChat(
+  chatId: string,
+  message: ForwardableMessage
+): Promise<void> {
+  const metadata: Partial<MessageMetadata> = {
+    forwarded: true,
+    ...(message.images.length > 0 ? { attachments: message.images } : {}),
+    ...(message.shared_post_id
+      ? { shared_post_id: message.shared_post_id }
+      : {}),
+    ...(message.audio || {}),
+  };
+  const res = await chatService.sendMessage({
+    chat_id: chatId,
+    content: message.content,
+    message_type: message.audio
+      ? MessageType.AUDIO
+      : message.shared_post_id
+        ? MessageType.POST_SHARE
+        : !message.content && message.images.length > 0
+          ? MessageType.IMAGE
+          : MessageType.TEXT,
+    metadata,
+  });
+  if (!res.success) {
+    throw new ServiceError('FORWARD_FAILED', res.error || '転送に失敗しました');
+  }
+}
+
+/** チャンネルはボイスメッセージに対応していないので転送できない */
+export async function forwardToChannel(
+  channelId: string,
+  message: ForwardableMessage
+): Promise<void> {
+  if (message.audio) {
+    throw new ServiceError(
+      'FORWARD_UNSUPPORTED',
+      'ボイスメッセージはスペースに転送できません'
+    );
+  }
+  const res = await RoomService.sendChannelMessage({
+    channel_id: channelId,
+    content: message.content,
+    message_type: message.shared_post_id
+      ? 'post_share'
+      : !message.content && message.images.length > 0
+        ? 'image'
+        : 'text',
+    attachments: message.shared_post_id
+      ? [{ type: 'post', post_id: message.shared_post_id }]
+      : message.images,
+    is_forwarded: true,
+  });
+  if (res.error) {
+    throw new ServiceError('FORWARD_FAILED', '転送に失敗しました', res.error);
+  }
+}
@@ -0,0 +1,176 @@
+import { MessageReaction } from '../types/chat';
+import { ServiceError } from '../utils/errors';
+
+import { getSupabaseClient } from './supabaseClient';
+
+/** DM / グループは messages、スペースのチャンネルは room_messages へのリアクション */
+export type ReactionScope = 'dm' | 'channel';
+
+const SCOPES: Record<ReactionScope, { table: string; container: string }> = {
+  dm: { table: 'message_reactions', container: 'conversation_id' },
+  channel: { table: 'room_message_reactions', container: 'channel_id' },
+};
+
+export type Reactor = {
+  emoji: string;
+  created_at: string;
+  user: {
+    id: string;
+    username: string | null;
+    display_name: string | null;
+    avatar_emoji: string | null;
+    avatar_url: string | null;
+  };
+};
+
+export function toMessageReaction(row: any): MessageReaction {
+  return {
+    message_id: row.message_id,
+    user_id: row.user_id,
+    emoji: row.emoji,
+    created_at: row.created_at ?? new Date().toISOString(),
+  };
+}
+
+async function requireUserId(): Promise<string> {
+  const { data: userRes } = await getSupabaseClient().auth.getUser();
+  const user = userRes?.user;
+  if (!user) {
+    throw new ServiceError('NOT_AUTHENTICATED', 'Not authenticated');
+  }
+  return user.id;
+}
+
+/** メッセージ ID ごとのリアクション（一覧の読み込み時にまとめて取る） */
+export async function fetchMessageReactions(
+  scope: ReactionScope,
+  messageIds: string[]
+): Promise<Map<string, MessageReaction[]>> {
+  const byMessage = new Map<string, MessageReaction[]>();
+  if (messageIds.length === 0) {
+    return byMessage;
+  }
+  const { data, error } = await getSupabaseClient()
+    .from(SCOPES[scope].table)
+    .select('message_id, user_id, emoji, created_at')
+    .in('message_id', messageIds)
+    .order('created_at', { ascending: true });
+  if (error) {
+    throw new ServiceError(
+      'REACTION_FETCH_FAILED',
+      `[fetchMessageReactions] ${error.message || 'reaction fetch failed'}`,
+      error
+    );
+  }
+  for (const row of data ?? []) {
+    const reaction = toMessageReaction(row);
+    byMessage.set(reaction.message_id, [
+      ...(byMessage.get(reaction.message_id) || []),
+      reaction,
+    ]);
+  }
+  return byMessage;
+}
+
+/** containerId は DM なら chat_id、チャンネルなら channel_id */
+export async function addMessageReaction(
+  scope: ReactionScope,
+  containerId: string,
+  messageId: string,
+  emoji: string
+): Promise<MessageReaction> {
+  const trimmed = (emoji || '').trim();
+  if (!trimmed || trimmed.length > 16) {
+    throw new ServiceError('REACTION_INVALID_INPUT', 'Invalid emoji');
+  }
+  const userId = await requireUserId();
+  const { table, container } = SCOPES[scope];
+  const { data, error } = await getSupabaseClient()
+    .from(table)
+    .upsert(
+      {
+        message_id: messageId,
+        [container]: containerId,
+        user_id: userId,
+        emoji: trimmed,
+      },
+      { onConflict: 'message_id,user_id,emoji', ignoreDuplicates: true }
+    )
+    .select('message_id, user_id, emoji, created_at')
+    .maybeSingle();
+  if (error) {
+    throw new ServiceError(
+      'REACTION_SAVE_FAILED',
+      `[addMessageReaction] ${error.message || 'reaction save failed'}`,
+      error
+    );
+  }
+  return toMessageReaction(
+    data ?? { message_id: messageId, user_id: userId, emoji: trimmed }
+  );
+}
+
+export async function removeMessageReaction(
+  scope: ReactionScope,
+  messageId: string,
+  emoji: string
+): Promise<void> {
+  const userId = await requireUserId();
+  const { error } = await getSupabaseClient()
+    .from(SCOPES[scope].table)
+    .delete()
+    .eq('message_id', messageId)
+    .eq('user_id', userId)
+    .eq('emoji', emoji);
+  if (error) {
+    throw new ServiceError(
+      'REACTION_DELETE_FAILED',
+      `[removeMessageReaction] ${error.message || 'reaction delete failed'}`,
+      error
+    );
+  }
+}
+
+/** 「リアクションした人」シート用。プロフィールを付けて新しい順に返す */
+export async function listReactors(
+  scope: ReactionScope,
+  messageId: string
+): Promise<Reactor[]> {
+  const supabase = getSupabaseClient();
+  const { data, error } = await supabase
+    .from(SCOPES[scope].table)
+    .select('user_id, emoji, created_at')
+    .eq('message_id', messageId)
+    .order('created_at', { ascending: false });
+  if (error) {
+    throw new ServiceError(
+      'REACTION_FETCH_FAILED',
+      `[listReactors] ${error.message || 'reactor fetch failed'}`,
+      error
+    );
+  }
+  const rows = data ?? [];
+  const userIds = Array.from(new Set(rows.map((r: any) => r.user_id)));
+  const profiles = new Map<string, any>();
+  if (userIds.length > 0) {
+    const { data: users } = await supabase
+      .from('user_profiles')
+      .select('id, username, display_name, avatar_emoji, avatar_url')
+      .in('id', userIds);
+    (users ?? []).forEach((u: any) => profiles.set(u.id, u));
+  }
+  return rows.map((r: any) => {
+    const p = profiles.get(r.user_id);
+    return {
+      emoji: r.emoji,
+      created_at: r.created_at,
+      user: {
+        id: r.user_id,
+        username: p?.username ?? null,
+        display_name: p?.display_name ?? null,
+        avatar_emoji: p?.avatar_emoji ?? null,
+        avatar_url: p?.avatar_url ?? null,
+      },
+    };
+  });
+}
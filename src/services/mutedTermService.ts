@@ -0,0 +1,234 @@
+import { ServiceError } from '../utils/errors';
+import { extractHashtagsFromText, normalizeHashtag } from '../utils/hashtag';
+
+import { getSupabaseClient } from './supabaseClient';
+
+export type MutedTermKind = 'word' | 'hashtag';
+export type MuteDuration = '24h' | '7d' | 'forever';
+
+export interface MutedTerm {
+  id: string;
+  kind: MutedTermKind;
+  term: string; // 正規化済み（hashtag は # なし）
+  expires_at: string | null; // null は無期限
+  created_at: string;
+}
+
+export const MUTE_DURATION_OPTIONS: { value: MuteDuration; label: string }[] = [
+  { value: '24h', label: '24時間' },
+  { value: '7d', label: '7日間' },
+  { value: 'forever', label: '無期限' },
+];
+
+const MUTE_DURATION_MS: Record<Exclude<MuteDuration, 'forever'>, number> = {
+  '24h': 24 * 60 * 60 * 1000,
+  '7d': 7 * 24 * 60 * 60 * 1000,
+};
+
+// フィード取得のたびに問い合わせないよう、一覧を短時間キャッシュする
+const CACHE_TTL_MS = 60 * 1000;
+let cache: { userId: string; terms: MutedTerm[]; fetchedAt: number } | null =
+  null;
+
+function toMutedTerm(row: any): MutedTerm {
+  return {
+    id: row.id,
+    kind: row.kind === 'hashtag' ? 'hashtag' : 'word',
+    term: row.term ?? '',
+    expires_at: row.expires_at ?? null,
+    created_at: row.created_at,
+  };
+}
+
+async function requireUserId(): Promise<string> {
+  const supabase = getSupabaseClient();
+  const { data: userRes } = await supabase.auth.getUser();
+  const user = userRes?.user;
+  if (!user) {
+    throw new ServiceError('NOT_AUTHENTICATED', 'Not authenticated');
+  }
+  return user.id;
+}
+
+function normalizeText(text: string): string {
+  return text.normalize('NFKC').toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * 入力をミュート対象に正規化する。`#` で始まればハッシュタグ（検索と同じ規則）、
+ * それ以外は語句として NFKC + 小文字化する。空になる場合は null。
+ */
+export function normalizeMuteInput(
+  input: string
+): { kind: MutedTermKind; term: string } | null {
+  const raw = (input || '').trim();
+  if (raw.startsWith('#') || raw.startsWith('＃')) {
+    const term = normalizeHashtag(raw.slice(1)).toLowerCase();
+    return term ? { kind: 'hashtag', term } : null;
+  }
+  const term = normalizeText(raw).slice(0, 48);
+  return term ? { kind: 'word', term } : null;
+}
+
+export function muteExpiresAt(
+  duration: MuteDuration,
+  now: Date = new Date()
+): string | null {
+  if (duration === 'forever') {
+    return null;
+  }
+  return new Date(now.getTime() + MUTE_DURATION_MS[duration]).toISOString();
+}
+
+export function isMuteActive(term: MutedTerm, now: Date = new Date()): boolean {
+  return (
+    !term.expires_at || new Date(term.expires_at).getTime() > now.getTime()
+  );
+}
+
+/**
+ * 本文がミュート対象かを判定する関数を作る。
+ * 語句は部分一致、ハッシュタグは本文中のタグとの完全一致（大文字小文字は区別しない）。
+ */
+export function createMuteMatcher(
+  terms: MutedTerm[],
+  now: Date = new Date()
+): (text: string | null | undefined) => boolean {
+  const active = terms.filter(t => isMuteActive(t, now));
+  const words = active.filter(t => t.kind === 'word').map(t => t.term);
+  const tags = new Set(
+    active.filter(t => t.kind === 'hashtag').map(t => t.term)
+  );
+  if (words.length === 0 && tags.size === 0) {
+    return () => false;
+  }
+  return text => {
+    if (!text) {
+      return false;
+    }
+    const normalized = normalizeText(text);
+    if (words.some(w => normalized.includes(w))) {
+      return true;
+    }
+    if (tags.size > 0) {
+      return extractHashtagsFromText(text).some(tag =>
+        tags.has(tag.toLowerCase())
+      );
+    }
+    return false;
+  };
+}
+
+/** 有効なミュート一覧（期限切れは含めない） */
+export async function listMutedTerms(): Promise<MutedTerm[]> {
+  const supabase = getSupabaseClient();
+  const userId = await requireUserId();
+  const { data, error } = await supabase
+    .from('muted_terms')
+    .select('id,kind,term,expires_at,created_at')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+  if (error) {
+    throw new ServiceError(
+      'MUTE_LIST_FAILED',
+      `[listMutedTerms] ${error.message || 'muted term list failed'}`,
+      error
+    );
+  }
+  const terms = (data ?? []).map(toMutedTerm).filter(t => isMuteActive(t));
+  cache = { userId, terms, fetchedAt: Date.now() };
+  return terms;
+}
+
+/** 同じ語句が既にあれば期限を上書きする */
+export async function addMutedTerm(
+  input: string,
+  duration: MuteDuration
+): Promise<MutedTerm> {
+  const normalized = normalizeMuteInput(input);
+  if (!normalized) {
+    throw new ServiceError(
+      'MUTE_INVALID_INPUT',
+      'ミュートする語句を入力してください'
+    );
+  }
+  const supabase = getSupabaseClient();
+  const userId = await requireUserId();
+  const { data, error } = await supabase
+    .from('muted_terms')
+    .upsert(
+      {
+        user_id: userId,
+        kind: normalized.kind,
+        term: normalized.term,
+        expires_at: muteExpiresAt(duration),
+      },
+      { onConflict: 'user_id,kind,term' }
+    )
+    .select('id,kind,term,expires_at,created_at')
+    .single();
+  if (error) {
+    throw new ServiceError(
+      'MUTE_SAVE_FAILED',
+      `[addMutedTerm] ${error.message || 'muted term save failed'}`,
+      error
+    );
+  }
+  cache = null;
+  return toMutedTerm(data);
+}
+
+export async function removeMutedTerm(id: string): Promise<void> {
+  const supabase = getSupabaseClient();
+  const userId = await requireUserId();
+  const { error } = await supabase
+    .from('muted_terms')
+    .delete()
+    .eq('id', id)
+    .eq('user_id', userId);
+  if (error) {
+    throw new ServiceError(
+      'MUTE_DELETE_FAILED',
+      `[removeMutedTerm] ${error.message || 'muted term delete failed'}`,
+      error
+    );
+  }
+  cache = null;
+}
+
+/**
+ * キャッシュ済みのミュート一覧から判定関数を返す。
+ * 取得に失敗した場合は何もミュートしない（表示を止めない）。
+ */
+export async function getMuteMatcher(): Promise<
+  (text: string | null | undefined) => boolean
+> {
+  try {
+    const userId = await requireUserId();
+    const terms =
+      cache &&
+      cache.userId === userId &&
+      Date.now() - cache.fetchedAt < CACHE_TTL_MS
+        ? cache.terms
+        : await listMutedTerms();
+    return createMuteMatcher(terms);
+  } catch {
+    return () => false;
+  }
+}
+
+export async function filterMuted<T>(
+  items: T[],
+  textOf: (item: T) => string | null | undefined
+): Promise<T[]> {
+  if (items.length === 0) {
+    return items;
+  }
+  const isMuted = await getMuteMatcher();
+  return items.filter(it => !isMuted(textOf(it)));
+}
+
+/** テスト用: キャッシュを破棄する */
+export function clearMutedTermCache(): void {
+  cache = null;
+}
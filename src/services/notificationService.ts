@@ -1,13 +1,29 @@
 import { secureLogger } from '../utils/privacyProtection';
+import { ReactionKind } from '../types/post';
 
 import { getSupabaseClient } from './supabaseClient';
 
 export type NotificationItem = {
   id: string;
-  type: 'like' | 'comment' | 'system' | 'follow' | 'message' | 'room';
+  type:
+    | 'like'
+    | 'comment'
+    | 'comment_reply'
+    | 'system'
+    | 'follow'
+    | 'message'
+    | 'room';
   content: string;
   created_at: string;
   read: boolean;
+  // 通知の付加情報（like の場合はリアクションの種類など）
+  metadata?: {
+    post_id?: string;
+    actor_id?: string;
+    comment_id?: string;
+    parent_comment_id?: string;
+    reaction?: ReactionKind;
+  } & Record<string, unknown>;
 };
 
 export const notificationService = {
@@ -16,7 +32,7 @@ export const notificationService = {
       const client = getSupabaseClient();
       let q = client
         .from('notifications')
-        .select('id,type,content,created_at,read_at')
+        .select('id,type,content,created_at,read_at,metadata')
         .eq('user_id', userId)
         .order('created_at', { ascending: false });
 
@@ -36,6 +52,7 @@ export const notificationService = {
         content: n.content,
         created_at: n.created_at,
         read: Boolean(n.read_at),
+        metadata: n.metadata ?? {},
       }));
       const nextCursor =
         items.length > 0 ? items[items.length - 1].created_at : null;
@@ -0,0 +1,360 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AppState, AppStateStatus } from 'react-native';
+
+import {
+  ChatErrorCode,
+  MessageMetadata,
+  MessageType,
+  MessageWithSender,
+} from '../types/chat';
+import { isNetworkError } from '../utils/networkError';
+import { secureLogger } from '../utils/privacyProtection';
+
+import chatService from './chatService';
+import { RoomService } from './roomService';
+import { getSupabaseClient } from './supabaseClient';
+
+/**
+ * 送信待ちメッセージのキュー（アウトボックス）。
+ *
+ * DM とスペースのチャンネルへの送信はいったんここに積み、端末に保存したうえで送る。
+ * 通信できずに失敗したものは間隔を広げながら再送し、アプリが前面に戻ったときにも送り直す。
+ * 各メッセージの id はサーバー側の冪等キーになるので、同じメッセージが二重に届くことはない。
+ */
+
+const STORAGE_KEY = 'message_outbox_v1';
+
+export const OUTBOX_MAX_ATTEMPTS = 6;
+const RETRY_BASE_DELAY_MS = 2000;
+const RETRY_MAX_DELAY_MS = 5 * 60 * 1000;
+
+export type OutboxKind = 'dm' | 'channel';
+export type OutboxStatus = 'pending' | 'sending' | 'failed';
+
+export type OutboxItem = {
+  id: string; // client_message_id（サーバーでの重複判定に使う）
+  kind: OutboxKind;
+  targetId: string; // DM は chat_id、チャンネルは channel_id
+  senderId: string;
+  content: string;
+  messageType: string;
+  replyToMessageId?: string;
+  metadata?: Partial<MessageMetadata>;
+  attachments?: any[];
+  status: OutboxStatus;
+  attempts: number;
+  nextAttemptAt: number;
+  lastError: string | null;
+  createdAt: string;
+};
+
+export type OutboxEvent =
+  | { type: 'changed'; item: OutboxItem }
+  | { type: 'removed'; item: OutboxItem }
+  | {
+      type: 'sent';
+      item: OutboxItem;
+      messageId: string;
+      // DM は送信結果のメッセージを返す（チャンネルは realtime で届く）
+      message: MessageWithSender | null;
+    };
+
+type DeliveryResult =
+  | { ok: true; messageId: string; message: MessageWithSender | null }
+  | { ok: false; error: string; retryable: boolean };
+
+let items: OutboxItem[] = [];
+let loaded: Promise<void> | null = null;
+let flushing: Promise<void> | null = null;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+let appStateSub: { remove: () => void } | null = null;
+const listeners = new Set<(event: OutboxEvent) => void>();
+
+/** 端末側で生成する冪等キー（UUID v4 形式） */
+export function createClientMessageId(): string {
+  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, c => {
+    const r = (Math.random() * 16) | 0;
+    return (c === 'x' ? r : (r & 0x3) | 0x8).toString(16);
+  });
+}
+
+/** attempts 回目の失敗のあと、次に送るまでの待ち時間 */
+export function retryDelayMs(attempts: number): number {
+  const exp = RETRY_BASE_DELAY_MS * 2 ** Math.max(attempts - 1, 0);
+  return Math.min(exp, RETRY_MAX_DELAY_MS);
+}
+
+function emit(event: OutboxEvent) {
+  listeners.forEach(listener => {
+    try {
+      listener(event);
+    } catch {}
+  });
+}
+
+async function persist() {
+  try {
+    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(items));
+  } catch (error) {
+    secureLogger.warn('Failed to persist outbox', { error });
+  }
+}
+
+function ensureLoaded(): Promise<void> {
+  if (!loaded) {
+    loaded = (async () => {
+      try {
+        const raw = await AsyncStorage.getItem(STORAGE_KEY);
+        const stored: OutboxItem[] = raw ? JSON.parse(raw) : [];
+        // 送信中にアプリが終了したものは送信待ちに戻す
+        const restored = (Array.isArray(stored) ? stored : []).map(i =>
+          i.status === 'sending' ? { ...i, status: 'pending' as const } : i
+        );
+        const known = new Set(items.map(i => i.id));
+        items = [...restored.filter(i => !known.has(i.id)), ...items];
+      } catch (error) {
+        secureLogger.warn('Failed to load outbox', { error });
+      }
+    })();
+  }
+  return loaded;
+}
+
+function ensureStarted() {
+  if (!appStateSub) {
+    appStateSub = AppState.addEventListener(
+      'change',
+      (next: AppStateStatus) => {
+        if (next === 'active') {
+          flushOutbox(true);
+        }
+      }
+    );
+  }
+}
+
+function update(id: string, patch: Partial<OutboxItem>): OutboxItem | null {
+  let next: OutboxItem | null = null;
+  items = items.map(i => {
+    if (i.id !== id) {
+      return i;
+    }
+    next = { ...i, ...patch };
+    return next;
+  });
+  if (next) {
+    emit({ type: 'changed', item: next });
+  }
+  return next;
+}
+
+function scheduleRetry() {
+  if (retryTimer) {
+    clearTimeout(retryTimer);
+    retryTimer = null;
+  }
+  const due = items
+    .filter(i => i.status === 'pending')
+    .map(i => i.nextAttemptAt);
+  if (due.length === 0) {
+    return;
+  }
+  const wait = Math.max(Math.min(...due) - Date.now(), 0);
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    flushOutbox();
+  }, wait);
+}
+
+async function deliver(item: OutboxItem): Promise<DeliveryResult> {
+  if (item.kind === 'dm') {
+    const res = await chatService.sendMessage({
+      chat_id: item.targetId,
+      content: item.content,
+      message_type: item.messageType as MessageType,
+      reply_to_message_id: item.replyToMessageId,
+      metadata: { ...(item.metadata || {}), client_message_id: item.id },
+    });
+    if (res.success) {
+      return { ok: true, messageId: res.data.id, message: res.data };
+    }
+    return {
+      ok: false,
+      error: res.error,
+      retryable: res.error_code === ChatErrorCode.NETWORK_ERROR,
+    };
+  }
+  const res = await RoomService.sendChannelMessage({
+    channel_id: item.targetId,
+    content: item.content,
+    message_type: item.messageType as 'text' | 'image' | 'file',
+    attachments: item.attachments || [],
+    client_id: item.id,
+  });
+  if (res.success && res.data) {
+    return { ok: true, messageId: res.data.message_id, message: null };
+  }
+  const error = res.error || 'Failed to send message';
+  return { ok: false, error, retryable: isNetworkError(error) };
+}
+
+async function runFlush(force: boolean) {
+  await ensureLoaded();
+  const {
+    data: { session },
+  } = await getSupabaseClient().auth.getSession();
+  const uid = session?.user?.id;
+  if (!uid) {
+    return;
+  }
+  // 同じ宛先の中では積んだ順に送る。通信できなければ残りはまとめて次回へ回す
+  const queue = items
+    .filter(i => i.senderId === uid && i.status === 'pending')
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  const blockedTargets = new Set<string>();
+  for (const queued of queue) {
+    if (blockedTargets.has(queued.targetId)) {
+      continue;
+    }
+    if (!force && queued.nextAttemptAt > Date.now()) {
+      blockedTargets.add(queued.targetId);
+      continue;
+    }
+    const item = update(queued.id, { status: 'sending' });
+    if (!item) {
+      continue;
+    }
+    let result: DeliveryResult;
+    try {
+      result = await deliver(item);
+    } catch (error) {
+      result = {
+        ok: false,
+        error: 'メッセージの送信に失敗しました。',
+        retryable: isNetworkError(error),
+      };
+    }
+    if (result.ok) {
+      items = items.filter(i => i.id !== item.id);
+      await persist();
+      emit({
+        type: 'sent',
+        item,
+        messageId: result.messageId,
+        message: result.message,
+      });
+      continue;
+    }
+    const attempts = item.attempts + 1;
+    const giveUp = !result.retryable || attempts >= OUTBOX_MAX_ATTEMPTS;
+    update(item.id, {
+      status: giveUp ? 'failed' : 'pending',
+      attempts,
+      nextAttemptAt: Date.now() + retryDelayMs(attempts),
+      lastError: result.error,
+    });
+    if (result.retryable) {
+      // オフラインとみなして、まだ送っていないものも同じ時刻まで待たせる
+      const retryAt = Date.now() + retryDelayMs(attempts);
+      items = items.map(i =>
+        i.status === 'pending' && i.nextAttemptAt < retryAt
+          ? { ...i, nextAttemptAt: retryAt }
+          : i
+      );
+      await persist();
+      break;
+    }
+    await persist();
+    blockedTargets.add(item.targetId);
+  }
+}
+
+/**
+ * 送信待ちのメッセージを送る。force のときは待ち時間を無視してすぐ送り直す。
+ */
+export function flushOutbox(force = false): Promise<void> {
+  if (flushing) {
+    return flushing;
+  }
+  flushing = runFlush(force)
+    .catch(error => {
+      secureLogger.error('Outbox flush failed', { error });
+    })
+    .finally(() => {
+      flushing = null;
+      scheduleRetry();
+    });
+  return flushing;
+}
+
+/**
+ * メッセージをキューに積んで送信を始める。戻り値の id が冪等キー兼一時 ID になる。
+ */
+export async function enqueueMessage(input: {
+  kind: OutboxKind;
+  targetId: string;
+  senderId: string;
+  content: string;
+  messageType: string;
+  replyToMessageId?: string;
+  metadata?: Partial<MessageMetadata>;
+  attachments?: any[];
+}): Promise<OutboxItem> {
+  ensureStarted();
+  await ensureLoaded();
+  const item: OutboxItem = {
+    ...input,
+    id: createClientMessageId(),
+    status: 'pending',
+    attempts: 0,
+    nextAttemptAt: Date.now(),
+    lastError: null,
+    createdAt: new Date().toISOString(),
+  };
+  items = [...items, item];
+  await persist();
+  emit({ type: 'changed', item });
+  flushOutbox();
+  return item;
+}
+
+/** 宛先（チャット / チャンネル）ごとの送信待ち・送信失敗のメッセージ */
+export async function getOutboxItems(targetId: string): Promise<OutboxItem[]> {
+  await ensureLoaded();
+  return items.filter(i => i.targetId === targetId);
+}
+
+/** 送信に失敗したメッセージを手動で送り直す */
+export async function retryOutboxItem(id: string): Promise<void> {
+  await ensureLoaded();
+  if (
+    update(id, { status: 'pending', attempts: 0, nextAttemptAt: Date.now() })
+  ) {
+    await persist();
+    flushOutbox();
+  }
+}
+
+/** 送信をあきらめてキューから消す */
+export async function removeOutboxItem(id: string): Promise<void> {
+  await ensureLoaded();
+  const item = items.find(i => i.id === id);
+  if (!item || item.status === 'sending') {
+    return;
+  }
+  items = items.filter(i => i.id !== id);
+  await persist();
+  emit({ type: 'removed', item });
+}
+
+export function subscribeOutbox(
+  listener: (event: OutboxEvent) => void
+): () => void {
+  ensureStarted();
+  listeners.add(listener);
+  // 前回の起動で残ったメッセージがあれば送り直す
+  ensureLoaded().then(() => flushOutbox());
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -0,0 +1,131 @@
+import { PinnedMessage } from '../types/chat';
+import { ServiceError } from '../utils/errors';
+
+import { ReactionScope } from './messageReactionService';
+import { getSupabaseClient } from './supabaseClient';
+
+/** 会話・チャンネルごとに留められる件数（サーバーのトリガーと揃えること） */
+export const PINNED_MESSAGE_LIMIT = 5;
+
+/** DM / グループは messages、スペースのチャンネルは room_messages のピン留め */
+export type PinScope = ReactionScope;
+
+const SCOPES: Record<
+  PinScope,
+  { table: string; container: string; message: string }
+> = {
+  dm: {
+    table: 'pinned_messages',
+    container: 'conversation_id',
+    message:
+      'message:messages(id, sender_id, content, message_type, metadata, created_at, deleted_at, expires_at)',
+  },
+  channel: {
+    table: 'room_pinned_messages',
+    container: 'channel_id',
+    message:
+      'message:room_messages(id, sender_id, content, message_type, attachments, created_at, deleted_at)',
+  },
+};
+
+async function requireUserId(): Promise<string> {
+  const { data: userRes } = await getSupabaseClient().auth.getUser();
+  const user = userRes?.user;
+  if (!user) {
+    throw new ServiceError('NOT_AUTHENTICATED', 'Not authenticated');
+  }
+  return user.id;
+}
+
+/** 削除済み・期限切れのメッセージは除く */
+export function toPinnedMessage(row: any): PinnedMessage | null {
+  const m = Array.isArray(row.message) ? row.message[0] : row.message;
+  if (
+    !m ||
+    m.deleted_at ||
+    (m.expires_at && new Date(m.expires_at).getTime() <= Date.now())
+  ) {
+    return null;
+  }
+  return {
+    message_id: row.message_id,
+    pinned_by: row.pinned_by,
+    pinned_at: row.pinned_at,
+    sender_id: m.sender_id,
+    content: m.content ?? '',
+    message_type: m.message_type,
+    created_at: m.created_at,
+    metadata: m.metadata ?? null,
+    ...(m.attachments ? { attachments: m.attachments } : {}),
+  };
+}
+
+/** containerId は DM なら chat_id、チャンネルなら channel_id。新しく留めた順 */
+export async function fetchPinnedMessages(
+  scope: PinScope,
+  containerId: string
+): Promise<PinnedMessage[]> {
+  const { table, container, message } = SCOPES[scope];
+  const { data, error } = await getSupabaseClient()
+    .from(table)
+    .select(`message_id, pinned_by, pinned_at, ${message}`)
+    .eq(container, containerId)
+    .order('pinned_at', { ascending: false })
+    .limit(PINNED_MESSAGE_LIMIT);
+  if (error) {
+    throw new ServiceError(
+      'PIN_FETCH_FAILED',
+      `[fetchPinnedMessages] ${error.message || 'pin fetch failed'}`,
+      error
+    );
+  }
+  return (data ?? [])
+    .map(toPinnedMessage)
+    .filter((p): p is PinnedMessage => p !== null);
+}
+
+export async function pinMessage(
+  scope: PinScope,
+  containerId: string,
+  messageId: string
+): Promise<void> {
+  const userId = await requireUserId();
+  const { table, container } = SCOPES[scope];
+  const { error } = await getSupabaseClient()
+    .from(table)
+    .upsert(
+      { message_id: messageId, [container]: containerId, pinned_by: userId },
+      { onConflict: 'message_id', ignoreDuplicates: true }
+    );
+  if (error) {
+    if (/pin limit/i.test(error.message || '')) {
+      throw new ServiceError(
+        'PIN_LIMIT_REACHED',
+        `ピン留めできるのは${PINNED_MESSAGE_LIMIT}件までです`,
+        error
+      );
+    }
+    throw new ServiceError(
+      'PIN_SAVE_FAILED',
+      `[pinMessage] ${error.message || 'pin save failed'}`,
+      error
+    );
+  }
+}
+
+export async function unpinMessage(
+  scope: PinScope,
+  messageId: string
+): Promise<void> {
+  const { error } = await getSupabaseClient()
+    .from(SCOPES[scope].table)
+    .delete()
+    .eq('message_id', messageId);
+  if (error) {
+    throw new ServiceError(
+      'PIN_DELETE_FAILED',
+      `[unpinMessage] ${error.message || 'pin delete failed'}`,
+      error
+    );
+  }
+}
@@ -0,0 +1,205 @@
+import { Poll, PollInput, PollOption } from '../types/post';
+import { ServiceError } from '../utils/errors';
+
+import { getSupabaseClient } from './supabaseClient';
+
+export const POLL_MIN_OPTIONS = 2;
+export const POLL_MAX_OPTIONS = 4;
+export const POLL_OPTION_MAX_LENGTH = 40;
+// サーバー側 create_post_v2 のチェックと揃える
+export const POLL_MIN_DURATION_MS = 5 * 60 * 1000;
+export const POLL_MAX_DURATION_MS = 7 * 24 * 60 * 60 * 1000;
+
+export const POLL_DURATION_PRESETS: { label: string; ms: number }[] = [
+  { label: '1時間', ms: 60 * 60 * 1000 },
+  { label: '1日', ms: 24 * 60 * 60 * 1000 },
+  { label: '3日', ms: 3 * 24 * 60 * 60 * 1000 },
+  { label: '7日', ms: POLL_MAX_DURATION_MS },
+];
+
+function toPoll(row: any): Poll {
+  const options: PollOption[] = ((row.options ?? []) as any[])
+    .map(o => ({
+      id: o.id,
+      label: o.label ?? '',
+      position: Number(o.position ?? 0),
+      votes: Number(o.votes ?? 0),
+      votedByMe: !!o.voted_by_me,
+    }))
+    .sort((a, b) => a.position - b.position);
+  return {
+    post_id: row.post_id,
+    allows_multiple: !!row.allows_multiple,
+    closes_at: row.closes_at,
+    total_votes: Number(row.total_votes ?? 0),
+    voter_count: Number(row.voter_count ?? 0),
+    options,
+  };
+}
+
+/**
+ * 投票の入力を検証し、送信用に整形したものを返す（空の選択肢は除外）。
+ */
+export function normalizePollInput(
+  input: PollInput,
+  now: Date = new Date()
+): PollInput {
+  const options = input.options.map(o => o.trim()).filter(o => o.length > 0);
+  if (options.length < POLL_MIN_OPTIONS || options.length > POLL_MAX_OPTIONS) {
+    throw new ServiceError(
+      'POLL_INVALID_INPUT',
+      `選択肢は${POLL_MIN_OPTIONS}〜${POLL_MAX_OPTIONS}個で入力してください`
+    );
+  }
+  if (options.some(o => o.length > POLL_OPTION_MAX_LENGTH)) {
+    throw new ServiceError(
+      'POLL_INVALID_INPUT',
+      `選択肢は${POLL_OPTION_MAX_LENGTH}文字以内にしてください`
+    );
+  }
+  if (new Set(options).size !== options.length) {
+    throw new ServiceError('POLL_INVALID_INPUT', '同じ選択肢が含まれています');
+  }
+  const diff = new Date(input.closes_at).getTime() - now.getTime();
+  if (
+    Number.isNaN(diff) ||
+    diff < POLL_MIN_DURATION_MS ||
+    diff > POLL_MAX_DURATION_MS
+  ) {
+    throw new ServiceError(
+      'POLL_INVALID_INPUT',
+      '締切は5分後〜7日後の間で指定してください'
+    );
+  }
+  return {
+    options,
+    closes_at: input.closes_at,
+    allows_multiple: !!input.allows_multiple,
+  };
+}
+
+export function isPollClosed(poll: Poll, now: Date = new Date()): boolean {
+  return new Date(poll.closes_at).getTime() <= now.getTime();
+}
+
+/** 選択肢ごとの得票率（0〜100の整数）。複数選択は投票者数を母数にする */
+export function pollPercentages(poll: Poll): number[] {
+  const base = poll.allows_multiple ? poll.voter_count : poll.total_votes;
+  return poll.options.map(o =>
+    base > 0 ? Math.round((o.votes / base) * 100) : 0
+  );
+}
+
+/**
+ * 楽観的更新用に自分の投票を差し替えた Poll を返す。
+ * optionIds が空なら投票の取り消し。
+ */
+export function applyMyVote(poll: Poll, optionIds: string[]): Poll {
+  const next = new Set(optionIds);
+  const hadVoted = poll.options.some(o => o.votedByMe);
+  const options = poll.options.map(o => {
+    const delta = (next.has(o.id) ? 1 : 0) - (o.votedByMe ? 1 : 0);
+    return {
+      ...o,
+      votes: Math.max(0, o.votes + delta),
+      votedByMe: next.has(o.id),
+    };
+  });
+  const willVote = next.size > 0;
+  return {
+    ...poll,
+    options,
+    total_votes: options.reduce((sum, o) => sum + o.votes, 0),
+    voter_count: Math.max(
+      0,
+      poll.voter_count + (willVote ? 1 : 0) - (hadVoted ? 1 : 0)
+    ),
+  };
+}
+
+/** 複数投稿の投票をまとめて取得する（投票のない投稿は含まれない） */
+export async function fetchPolls(
+  postIds: string[]
+): Promise<Record<string, Poll>> {
+  const ids = Array.from(new Set(postIds));
+  if (ids.length === 0) {
+    return {};
+  }
+  const client = getSupabaseClient();
+  const { data, error } = await client.rpc('get_post_polls_v2', {
+    p_post_ids: ids,
+  });
+  if (error) {
+    throw new ServiceError(
+      'POLL_FETCH_FAILED',
+      `[fetchPolls] ${error.message || 'poll fetch failed'}`,
+      error
+    );
+  }
+  const map: Record<string, Poll> = {};
+  for (const row of (data ?? []) as any[]) {
+    const poll = toPoll(row);
+    map[poll.post_id] = poll;
+  }
+  return map;
+}
+
+export async function fetchPoll(postId: string): Promise<Poll | null> {
+  const map = await fetchPolls([postId]);
+  return map[postId] ?? null;
+}
+
+/**
+ * フィード取得後に投票を付与する（ベストエフォート。失敗しても投稿は表示する）
+ */
+export async function fillPolls<T extends { id: string; poll?: Poll | null }>(
+  items: T[]
+): Promise<T[]> {
+  if (items.length === 0) {
+    return items;
+  }
+  try {
+    const map = await fetchPolls(items.map(it => it.id));
+    return items.map(it => ({ ...it, poll: map[it.id] ?? null }));
+  } catch {
+    return items;
+  }
+}
+
+/** 投票する。既に投票済みなら選び直しとして置き換える */
+export async function votePoll(
+  postId: string,
+  optionIds: string[]
+): Promise<Poll | null> {
+  if (optionIds.length === 0) {
+    throw new ServiceError('POLL_INVALID_INPUT', '選択肢を選んでください');
+  }
+  const client = getSupabaseClient();
+  const { error } = await client.rpc('vote_poll_v2', {
+    p_post_id: postId,
+    p_option_ids: optionIds,
+  });
+  if (error) {
+    throw new ServiceError(
+      'POLL_VOTE_FAILED',
+      `[votePoll] ${error.message || 'vote failed'}`,
+      error
+    );
+  }
+  return fetchPoll(postId);
+}
+
+export async function unvotePoll(postId: string): Promise<Poll | null> {
+  const client = getSupabaseClient();
+  const { error } = await client.rpc('unvote_poll_v2', {
+    p_post_id: postId,
+  });
+  if (error) {
+    throw new ServiceError(
+      'POLL_VOTE_FAILED',
+      `[unvotePoll] ${error.message || 'unvote failed'}`,
+      error
+    );
+  }
+  return fetchPoll(postId);
+}
@@ -4,16 +4,32 @@ import {
   PaginatedResult,
   Comment,
   Attachment,
+  ReactionKind,
+  PollInput,
+  ContentWarningCategory,
+  PostEdit,
 } from '../types/post';
+import { ServiceError } from '../utils/errors';
 import {
   fillMissingAvatarUrls,
   fillMaternalVerified,
 } from '../utils/profileCompletion';
 import { extractHashtagsFromText } from '../utils/hashtag';
+import {
+  DEFAULT_REACTION_KIND,
+  toReactionSummary,
+} from '../utils/postReactions';
+import { toContentWarning } from '../utils/contentWarnings';
 
+import { fillBookmarks } from './bookmarkService';
+import { attachLinkPreview, fillLinkPreviews } from './linkPreviewService';
+import { filterMuted } from './mutedTermService';
+import { fillPolls, normalizePollInput } from './pollService';
 import { getSupabaseClient } from './supabaseClient';
 
 const PAGE_SIZE_DEFAULT = 20;
+// サーバー側 edit_post_v2 の期限と揃える
+export const POST_EDIT_WINDOW_MS = 30 * 60 * 1000;
 
 function computeNextCursor<T extends { created_at: string }>(
   items: T[]
@@ -25,6 +41,27 @@ function computeNextCursor<T extends { created_at: string }>(
   return last.created_at;
 }
 
+function toComment(row: any): Comment {
+  return {
+    id: row.id,
+    post_id: row.post_id,
+    user_id: row.user_id,
+    parent_comment_id: row.parent_comment_id ?? null,
+    reply_count: Number(row.reply_count ?? 0),
+    body: row.body,
+    content_warning: toContentWarning(row.content_warning),
+    created_at: row.created_at,
+    attachments: row.attachments || [],
+    user: {
+      id: row.user_id,
+      username: row.user_username ?? row.username ?? '',
+      display_name: row.user_display_name ?? row.display_name ?? null,
+      avatar_emoji: row.user_avatar_emoji ?? row.avatar_emoji ?? null,
+      avatar_url: row.user_avatar_url ?? row.avatar_url ?? null,
+    },
+  };
+}
+
 export async function fetchHomeFeed(
   options: { before?: string | null; limit?: number } = {}
 ): Promise<PaginatedResult<PostWithMeta>> {
@@ -45,11 +82,10 @@ export async function fetchHomeFeed(
     body: row.body,
     created_at: row.created_at,
     attachments: row.attachments || [],
+    content_warning: toContentWarning(row.content_warning),
+    edited_at: row.edited_at ?? null,
     is_ad: row.is_ad ?? false,
-    reaction_summary: {
-      count: Number(row.reaction_count ?? 0),
-      reactedByMe: false,
-    },
+    reaction_summary: toReactionSummary(row),
     comment_summary: { count: Number(row.comment_count ?? 0) },
     user: {
       id: row.user_id,
@@ -61,9 +97,15 @@ export async function fetchHomeFeed(
     },
   }));
 
+  const nextCursor = computeNextCursor(items);
+  // ミュート中の語句・タグを含む投稿は除く（カーソルは除外前の最後の投稿から）
+  items = await filterMuted(items, p => p.body);
   items = await fillMissingAvatarUrls(client, items);
   items = await fillMaternalVerified(client, items);
-  return { items, nextCursor: computeNextCursor(items) };
+  items = await fillPolls(items);
+  items = await fillLinkPreviews(items);
+  items = await fillBookmarks(items);
+  return { items, nextCursor };
 }
 
 export async function fetchHomeFeedFiltered(
@@ -86,11 +128,10 @@ export async function fetchHomeFeedFiltered(
     body: row.body,
     created_at: row.created_at,
     attachments: row.attachments || [],
+    content_warning: toContentWarning(row.content_warning),
+    edited_at: row.edited_at ?? null,
     is_ad: row.is_ad ?? false,
-    reaction_summary: {
-      count: Number(row.reaction_count ?? 0),
-      reactedByMe: false,
-    },
+    reaction_summary: toReactionSummary(row),
     comment_summary: { count: Number(row.comment_count ?? 0) },
     user: {
       id: row.user_id,
@@ -102,9 +143,15 @@ export async function fetchHomeFeedFiltered(
     },
   }));
 
+  const nextCursor = computeNextCursor(items);
+  // ミュート中の語句・タグを含む投稿は除く（カーソルは除外前の最後の投稿から）
+  items = await filterMuted(items, p => p.body);
   items = await fillMissingAvatarUrls(client, items);
   items = await fillMaternalVerified(client, items);
-  return { items, nextCursor: computeNextCursor(items) };
+  items = await fillPolls(items);
+  items = await fillLinkPreviews(items);
+  items = await fillBookmarks(items);
+  return { items, nextCursor };
 }
 
 export async function fetchMyPosts(options?: {
@@ -128,10 +175,9 @@ export async function fetchMyPosts(options?: {
     body: row.body,
     created_at: row.created_at,
     attachments: row.attachments || [],
-    reaction_summary: {
-      count: Number(row.reaction_count ?? 0),
-      reactedByMe: false,
-    },
+    content_warning: toContentWarning(row.content_warning),
+    edited_at: row.edited_at ?? null,
+    reaction_summary: toReactionSummary(row),
     comment_summary: { count: Number(row.comment_count ?? 0) },
     user: {
       id: row.user_id,
@@ -143,6 +189,9 @@ export async function fetchMyPosts(options?: {
   }));
   items = await fillMissingAvatarUrls(client, items);
   items = await fillMaternalVerified(client, items);
+  items = await fillPolls(items);
+  items = await fillLinkPreviews(items);
+  items = await fillBookmarks(items);
   return { items, nextCursor: computeNextCursor(items) };
 }
 
@@ -167,10 +216,9 @@ export async function fetchLikedPosts(options: {
     body: row.body,
     created_at: row.created_at,
     attachments: row.attachments || [],
-    reaction_summary: {
-      count: Number(row.reaction_count ?? 0),
-      reactedByMe: true,
-    },
+    content_warning: toContentWarning(row.content_warning),
+    edited_at: row.edited_at ?? null,
+    reaction_summary: toReactionSummary(row, true),
     comment_summary: { count: Number(row.comment_count ?? 0) },
     user: {
       id: row.user_id,
@@ -182,12 +230,75 @@ export async function fetchLikedPosts(options: {
   }));
   items = await fillMissingAvatarUrls(client, items);
   items = await fillMaternalVerified(client, items);
+  items = await fillPolls(items);
+  items = await fillLinkPreviews(items);
+  items = await fillBookmarks(items);
   return { items, nextCursor: computeNextCursor(items) };
 }
 
+/**
+ * 保存した投稿を保存した順に取得する。
+ * before には前ページの nextCursor（最後の投稿を保存した日時）を渡す。
+ */
+export async function fetchBookmarks(
+  options: {
+    before?: string | null;
+    limit?: number;
+    collectionId?: string | null;
+  } = {}
+): Promise<PaginatedResult<PostWithMeta>> {
+  const client = getSupabaseClient();
+  const before = options.before ?? null;
+  const limit = options.limit ?? PAGE_SIZE_DEFAULT;
+  const { data, error } = await client.rpc('get_bookmarked_posts_v2', {
+    p_offset_time: before,
+    p_limit: limit,
+    p_collection_id: options.collectionId ?? null,
+  });
+  if (error) {
+    throw error;
+  }
+  const rows = (data ?? []) as any[];
+  let items = rows.map(row => ({
+    id: row.id,
+    user_id: row.user_id,
+    body: row.body,
+    created_at: row.created_at,
+    attachments: row.attachments || [],
+    content_warning: toContentWarning(row.content_warning),
+    edited_at: row.edited_at ?? null,
+    reaction_summary: toReactionSummary(row),
+    comment_summary: { count: Number(row.comment_count ?? 0) },
+    bookmark: {
+      collection_id: row.collection_id ?? null,
+      bookmarked_at: row.bookmarked_at,
+    },
+    user: {
+      id: row.user_id,
+      username: row.user_username ?? row.username ?? '',
+      display_name: row.user_display_name ?? row.display_name ?? null,
+      avatar_emoji: row.user_avatar_emoji ?? row.avatar_emoji ?? null,
+      avatar_url: row.user_avatar_url ?? row.avatar_url ?? null,
+    },
+  }));
+  // カーソルは投稿日時ではなく保存日時で進める
+  const nextCursor = computeNextCursor(
+    items.map(it => ({
+      created_at: it.bookmark.bookmarked_at ?? it.created_at,
+    }))
+  );
+  items = await fillMissingAvatarUrls(client, items);
+  items = await fillMaternalVerified(client, items);
+  items = await fillPolls(items);
+  items = await fillLinkPreviews(items);
+  return { items, nextCursor };
+}
+
 export async function createPost(
   body: string,
-  attachments?: Attachment[]
+  attachments?: Attachment[],
+  poll?: PollInput | null,
+  contentWarning?: ContentWarningCategory | null
 ): Promise<Post> {
   if (
     (!body || body.trim().length === 0) &&
@@ -205,14 +316,19 @@ export async function createPost(
       : attachments && attachments.length > 0
         ? '[image]'
         : '';
+  const pollToSend = poll ? normalizePollInput(poll) : null;
   const { data, error } = await client.rpc('create_post_v2', {
     p_body: bodyToSend,
     p_attachments: attachments && attachments.length ? attachments : [],
+    // 投票なしの投稿では p_poll を送らない
+    ...(pollToSend ? { p_poll: pollToSend } : {}),
+    ...(contentWarning ? { p_content_warning: contentWarning } : {}),
   });
   if (error) {
     throw error;
   }
   const post = data as Post;
+  attachLinkPreview('post', post?.id, bodyToSend);
   // 日本語タグ含むハッシュタグを抽出して保存（ベストエフォート）
   try {
     const tags = extractHashtagsFromText(bodyToSend);
@@ -229,7 +345,8 @@ export async function createPost(
 
 export async function toggleReaction(
   postId: string,
-  reacted: boolean
+  reacted: boolean,
+  kind: ReactionKind = DEFAULT_REACTION_KIND
 ): Promise<{ reacted: boolean; countDelta: number }> {
   const client = getSupabaseClient();
 
@@ -244,6 +361,7 @@ export async function toggleReaction(
   } else {
     const { data, error } = await client.rpc('add_reaction_v2', {
       p_post_id: postId,
+      p_kind: kind,
     });
     if (error) {
       throw error;
@@ -255,6 +373,22 @@ export async function toggleReaction(
   }
 }
 
+/**
+ * 自分のリアクションを指定した種類に設定する。null の場合は取り消し。
+ * 既に別の種類でリアクション済みの場合は種類のみ切り替わる（件数は変わらない）。
+ */
+export async function setReaction(
+  postId: string,
+  kind: ReactionKind | null
+): Promise<{ kind: ReactionKind | null }> {
+  if (kind === null) {
+    await toggleReaction(postId, true);
+    return { kind: null };
+  }
+  await toggleReaction(postId, false, kind);
+  return { kind };
+}
+
 export async function fetchComments(
   postId: string,
   options?: { before?: string | null; limit?: number }
@@ -270,31 +404,47 @@ export async function fetchComments(
   if (error) {
     throw error;
   }
-  let items = (data ?? []).map((row: any) => ({
-    id: row.id,
-    post_id: row.post_id,
-    user_id: row.user_id,
-    body: row.body,
-    created_at: row.created_at,
-    attachments: row.attachments || [],
-    user: {
-      id: row.user_id,
-      username: row.user_username ?? row.username ?? '',
-      display_name: row.user_display_name ?? row.display_name ?? null,
-      avatar_emoji: row.user_avatar_emoji ?? row.avatar_emoji ?? null,
-      avatar_url: row.user_avatar_url ?? row.avatar_url ?? null,
-    },
-  })) as Comment[];
+  let items = (data ?? []).map(toComment);
+  const nextCursor = computeNextCursor(items);
+  items = await filterMuted(items, (c: Comment) => c.body);
   // 補完処理を共通ユーティリティで適用（ジェネリック対応で安全に変換）
   items = await fillMissingAvatarUrls(client, items);
   items = await fillMaternalVerified(client, items);
-  return { items, nextCursor: computeNextCursor(items) };
+  return { items, nextCursor };
+}
+
+/**
+ * コメントへの返信を古い順に取得する。
+ * after には前ページの nextCursor（最後の返信の created_at）を渡す。
+ */
+export async function fetchReplies(
+  parentCommentId: string,
+  options?: { after?: string | null; limit?: number }
+): Promise<PaginatedResult<Comment>> {
+  const client = getSupabaseClient();
+  const limit = options?.limit ?? PAGE_SIZE_DEFAULT;
+  const { data, error } = await client.rpc('get_comment_replies_v2', {
+    p_parent_comment_id: parentCommentId,
+    p_after: options?.after ?? null,
+    p_limit: limit,
+  });
+  if (error) {
+    throw error;
+  }
+  let items = (data ?? []).map(toComment);
+  const nextCursor = items.length < limit ? null : computeNextCursor(items);
+  items = await filterMuted(items, (c: Comment) => c.body);
+  items = await fillMissingAvatarUrls(client, items);
+  items = await fillMaternalVerified(client, items);
+  return { items, nextCursor };
 }
 
 export async function createComment(
   postId: string,
   body: string,
-  attachments?: Attachment[]
+  attachments?: Attachment[],
+  parentCommentId?: string | null,
+  contentWarning?: ContentWarningCategory | null
 ): Promise<Comment> {
   if (
     (!body || body.trim().length === 0) &&
@@ -312,6 +462,21 @@ export async function createComment(
       : attachments && attachments.length > 0
         ? '[image]'
         : '';
+  if (parentCommentId || contentWarning) {
+    // 返信・警告つきは新シグネチャのみ。フォールバックすると返信先や
+    // 警告を失ったコメントになってしまうため、そのままエラーにする。
+    const { data, error } = await client.rpc('create_comment_v2', {
+      p_post_id: postId,
+      p_body: bodyToSend,
+      p_attachments: attachments && attachments.length ? attachments : [],
+      p_parent_comment_id: parentCommentId ?? null,
+      ...(contentWarning ? { p_content_warning: contentWarning } : {}),
+    });
+    if (error) {
+      throw error;
+    }
+    return data as Comment;
+  }
   // まずは新シグネチャ (uuid, text, jsonb) を試す。存在しない環境ではフォールバックする。
   const tryAttachments = async () =>
     await client.rpc('create_comment_v2', {
@@ -355,6 +520,83 @@ export async function deletePost(postId: string): Promise<boolean> {
   return !!data;
 }
 
+/** 投稿から編集期限内か（本人かどうかは呼び出し側で判定する） */
+export function canEditPost(
+  post: Pick<Post, 'created_at'>,
+  now: Date = new Date()
+): boolean {
+  const elapsed = now.getTime() - new Date(post.created_at).getTime();
+  return elapsed >= 0 && elapsed < POST_EDIT_WINDOW_MS;
+}
+
+/**
+ * 投稿本文を編集する。編集前の本文は履歴に残り、ハッシュタグは新しい本文から付け直す。
+ */
+export async function editPost(
+  post: Pick<Post, 'id' | 'created_at' | 'attachments' | 'link_preview'>,
+  body: string
+): Promise<Post> {
+  const trimmed = (body || '').trim();
+  if (!trimmed && !(post.attachments && post.attachments.length > 0)) {
+    throw new ServiceError(
+      'POST_EDIT_INVALID_INPUT',
+      '投稿内容を入力してください'
+    );
+  }
+  if (trimmed.length > 300) {
+    throw new ServiceError(
+      'POST_EDIT_INVALID_INPUT',
+      '投稿は300文字以内にしてください'
+    );
+  }
+  if (!canEditPost(post)) {
+    throw new ServiceError(
+      'POST_EDIT_WINDOW_CLOSED',
+      '投稿から30分を過ぎたため編集できません'
+    );
+  }
+  const client = getSupabaseClient();
+  const bodyToSend = trimmed || '[image]';
+  const { data, error } = await client.rpc('edit_post_v2', {
+    p_post_id: post.id,
+    p_body: bodyToSend,
+    p_tags: extractHashtagsFromText(bodyToSend),
+  });
+  if (error) {
+    throw new ServiceError(
+      /window/i.test(error.message || '')
+        ? 'POST_EDIT_WINDOW_CLOSED'
+        : 'POST_EDIT_FAILED',
+      `[editPost] ${error.message || 'edit failed'}`,
+      error
+    );
+  }
+  attachLinkPreview('post', post.id, bodyToSend, {
+    hadPreview: !!post.link_preview,
+  });
+  return data as Post;
+}
+
+/** 編集前の本文を新しい順に取得する */
+export async function fetchPostEditHistory(
+  postId: string
+): Promise<PostEdit[]> {
+  const client = getSupabaseClient();
+  const { data, error } = await client
+    .from('post_edits')
+    .select('id,post_id,body,edited_at')
+    .eq('post_id', postId)
+    .order('edited_at', { ascending: false });
+  if (error) {
+    throw new ServiceError(
+      'POST_EDIT_HISTORY_FAILED',
+      `[fetchPostEditHistory] ${error.message || 'history fetch failed'}`,
+      error
+    );
+  }
+  return (data ?? []) as PostEdit[];
+}
+
 export async function deleteComment(commentId: string): Promise<boolean> {
   const client = getSupabaseClient();
   const { data, error } = await client.rpc('delete_comment_v2', {
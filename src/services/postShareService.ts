@@ -0,0 +1,145 @@
+import { MessageType } from '../types/chat';
+import { SharedPostPreview } from '../types/post';
+import { toContentWarning } from '../utils/contentWarnings';
+import { ServiceError } from '../utils/errors';
+
+import chatService from './chatService';
+import { RoomService } from './roomService';
+import { getSupabaseClient } from './supabaseClient';
+
+// ひとことを添えなかった場合の本文（一覧の最新メッセージにもこの文言が出る）
+export const SHARED_POST_DEFAULT_TEXT = 'ポストをシェアしました';
+
+// 同じポストのプレビューを何度も取りに行かないよう短時間キャッシュする。
+// null は「削除済み・ブロック等で表示できない」
+const CACHE_TTL_MS = 60 * 1000;
+const cache = new Map<
+  string,
+  { preview: SharedPostPreview | null; fetchedAt: number }
+>();
+
+function toPreview(row: any): SharedPostPreview {
+  return {
+    id: row.id,
+    user_id: row.user_id,
+    body: row.body === '[image]' ? '' : (row.body ?? ''),
+    attachments: row.attachments || [],
+    content_warning: toContentWarning(row.content_warning),
+    created_at: row.created_at,
+    user: {
+      display_name: row.display_name ?? null,
+      avatar_emoji: row.avatar_emoji ?? null,
+    },
+  };
+}
+
+function shareText(comment?: string): string {
+  const trimmed = (comment || '').trim();
+  return trimmed || SHARED_POST_DEFAULT_TEXT;
+}
+
+/** チャンネルのメッセージからシェアされたポストの ID を取り出す */
+export function sharedPostIdFromAttachments(
+  attachments: any[] | null | undefined
+): string | null {
+  const ref = (attachments ?? []).find(
+    a => a && typeof a === 'object' && a.type === 'post' && a.post_id
+  );
+  return ref ? String(ref.post_id) : null;
+}
+
+/** 1:1 チャットにポストをシェアする */
+export async function sharePostToChat(
+  chatId: string,
+  postId: string,
+  comment?: string
+): Promise<void> {
+  const res = await chatService.sendMessage({
+    chat_id: chatId,
+    content: shareText(comment),
+    message_type: MessageType.POST_SHARE,
+    metadata: { shared_post_id: postId },
+  });
+  if (!res.success) {
+    throw new ServiceError(
+      'POST_SHARE_FAILED',
+      res.error || 'シェアに失敗しました'
+    );
+  }
+}
+
+/** スペースのチャンネルにポストをシェアする */
+export async function sharePostToChannel(
+  channelId: string,
+  postId: string,
+  comment?: string
+): Promise<void> {
+  const res = await RoomService.sendChannelMessage({
+    channel_id: channelId,
+    content: shareText(comment),
+    message_type: 'post_share',
+    attachments: [{ type: 'post', post_id: postId }],
+  });
+  if (res.error) {
+    throw new ServiceError(
+      'POST_SHARE_FAILED',
+      'シェアに失敗しました',
+      res.error
+    );
+  }
+}
+
+/**
+ * シェアされたポストのプレビューをまとめて取得する。
+ * 表示できないポスト（削除済み・ブロック関係）は null になる。
+ */
+export async function fetchSharedPostPreviews(
+  postIds: string[]
+): Promise<Record<string, SharedPostPreview | null>> {
+  const now = Date.now();
+  const result: Record<string, SharedPostPreview | null> = {};
+  const missing: string[] = [];
+  for (const id of Array.from(new Set(postIds))) {
+    const hit = cache.get(id);
+    if (hit && now - hit.fetchedAt < CACHE_TTL_MS) {
+      result[id] = hit.preview;
+    } else {
+      missing.push(id);
+    }
+  }
+  if (missing.length === 0) {
+    return result;
+  }
+  const client = getSupabaseClient();
+  const { data, error } = await client.rpc('get_shared_post_previews_v2', {
+    p_post_ids: missing,
+  });
+  if (error) {
+    throw new ServiceError(
+      'POST_SHARE_PREVIEW_FAILED',
+      `[fetchSharedPostPreviews] ${error.message || 'preview fetch failed'}`,
+      error
+    );
+  }
+  const found = new Map<string, SharedPostPreview>(
+    ((data ?? []) as any[]).map(row => [row.id, toPreview(row)])
+  );
+  for (const id of missing) {
+    const preview = found.get(id) ?? null;
+    cache.set(id, { preview, fetchedAt: now });
+    result[id] = preview;
+  }
+  return result;
+}
+
+export async function fetchSharedPostPreview(
+  postId: string
+): Promise<SharedPostPreview | null> {
+  const map = await fetchSharedPostPreviews([postId]);
+  return map[postId] ?? null;
+}
+
+/** テスト用: キャッシュを破棄する */
+export function clearSharedPostCache(): void {
+  cache.clear();
+}
@@ -5,7 +5,9 @@ import * as SecureStore from 'expo-secure-store';
 import Constants from 'expo-constants';
 
 import { getExpoProjectId } from '../config/notificationsConfig';
+import { SpaceEvent } from '../types/room';
 import { secureLogger } from '../utils/privacyProtection';
+import { eventReminderAt, formatEventTime } from '../utils/spaceEvents';
 
 import { getSupabaseClient } from './supabaseClient';
 
@@ -189,3 +191,106 @@ export async function touchPushRegistration(userId: string): Promise<void> {
     secureLogger.warn('touchPushRegistration failed', { error: String(e) });
   }
 }
+
+// スペースのイベントのリマインダーは端末内のローカル通知として予約する。
+// 同じ ID で予約し直すと置き換わるので、返事を変えるたびに呼んでよい
+const EVENT_REMINDER_ID_PREFIX = 'space-event-';
+
+type EventReminderTarget = Pick<
+  SpaceEvent,
+  'id' | 'title' | 'starts_at' | 'cancelled_at' | 'my_status' | 'channel_id'
+>;
+
+/**
+ * Schedules (or replaces) the local reminder for a space event.
+ * Returns false when there is nothing to schedule or notifications are not allowed.
+ */
+export async function scheduleEventReminder(
+  event: EventReminderTarget,
+  now: Date = new Date()
+): Promise<boolean> {
+  const at = eventReminderAt(event, now);
+  if (!at) {
+    await cancelEventReminder(event.id);
+    return false;
+  }
+  try {
+    const perm = await ensurePushPermission();
+    if (
+      !perm.granted &&
+      perm.ios?.status !== Notifications.IosAuthorizationStatus.PROVISIONAL
+    ) {
+      return false;
+    }
+    await ensureAndroidChannels();
+    await Notifications.scheduleNotificationAsync({
+      identifier: `${EVENT_REMINDER_ID_PREFIX}${event.id}`,
+      content: {
+        title: `まもなく「${event.title}」`,
+        body: `${formatEventTime({ starts_at: event.starts_at, ends_at: null })} から始まります`,
+        data: {
+          type: 'room',
+          channel_id: event.channel_id ?? undefined,
+          event_id: event.id,
+        },
+      },
+      trigger: {
+        type: Notifications.SchedulableTriggerInputTypes.DATE,
+        date: at,
+        channelId: 'default',
+      },
+    });
+    return true;
+  } catch (e) {
+    secureLogger.warn('scheduleEventReminder failed', { error: String(e) });
+    return false;
+  }
+}
+
+export async function cancelEventReminder(eventId: string): Promise<void> {
+  try {
+    await Notifications.cancelScheduledNotificationAsync(
+      `${EVENT_REMINDER_ID_PREFIX}${eventId}`
+    );
+  } catch (e) {
+    secureLogger.warn('cancelEventReminder failed', { error: String(e) });
+  }
+}
+
+/**
+ * Re-syncs local event reminders with the server after sign-in: schedules the
+ * events the user still plans to attend and cancels the rest (cancelled events,
+ * spaces the user left, reminders from another account on this device).
+ */
+export async function syncEventReminders(): Promise<void> {
+  try {
+    const { data, error } = await getSupabaseClient().rpc(
+      'get_my_event_reminders'
+    );
+    if (error) {
+      secureLogger.warn('syncEventReminders fetch failed', {
+        error: error.message,
+      });
+      return;
+    }
+    const events = ((data || []) as EventReminderTarget[]).filter(
+      e => !e.cancelled_at
+    );
+    const keep = new Set(events.map(e => `${EVENT_REMINDER_ID_PREFIX}${e.id}`));
+    const scheduled = await Notifications.getAllScheduledNotificationsAsync();
+    await Promise.all(
+      scheduled
+        .filter(
+          n =>
+            n.identifier.startsWith(EVENT_REMINDER_ID_PREFIX) &&
+            !keep.has(n.identifier)
+        )
+        .map(n => Notifications.cancelScheduledNotificationAsync(n.identifier))
+    );
+    for (const event of events) {
+      await scheduleEventReminder(event);
+    }
+  } catch (e) {
+    secureLogger.warn('syncEventReminders failed', { error: String(e) });
+  }
+}
@@ -26,6 +26,19 @@ import {
   AnonymousRoom,
   AnonymousMessage,
   ChatListItem,
+  SpaceChannel,
+  SpaceChannelInput,
+  SpaceModerationLogEntry,
+  SpaceRestriction,
+  SpaceInviteLink,
+  CreateInviteLinkRequest,
+  SpaceInvitePreview,
+  SpaceJoinRequest,
+  SpaceRules,
+  UpdateSpaceRulesRequest,
+  SpaceEvent,
+  SpaceEventRsvpStatus,
+  CreateSpaceEventRequest,
   ReportMessageRequest,
   ApiResponse,
   MessagePaginationParams,
@@ -35,7 +48,19 @@ import {
   getCurrentAnonymousSlotId,
 } from '../types/room';
 import { PublicUserProfile } from '../types/auth';
+import { PinnedMessage } from '../types/chat';
 
+import { attachLinkPreview } from './linkPreviewService';
+import {
+  addMessageReaction,
+  fetchMessageReactions,
+  removeMessageReaction,
+} from './messageReactionService';
+import {
+  fetchPinnedMessages,
+  pinMessage,
+  unpinMessage,
+} from './pinnedMessageService';
 import { getSupabaseClient } from './supabaseClient';
 
 /**
@@ -344,10 +369,12 @@ export class RoomService {
    * Join a public space.
    * - Ensures default channel exists (RPC)
    * - Adds current user to channel_members (role: member)
+   * - Spaces with screening questions get a join request with the answers instead (pending: true)
    */
   static async joinPublicSpace(
-    spaceId: string
-  ): Promise<ApiResponse<{ channel_id: string }>> {
+    spaceId: string,
+    options: { answers?: string[] } = {}
+  ): Promise<ApiResponse<{ channel_id: string; pending?: boolean }>> {
     try {
       const supabase = getSupabaseClient();
       const { data: user } = await supabase.auth.getUser();
@@ -359,7 +386,7 @@ export class RoomService {
       // Check if space exists and is public
       const { data: space, error: spaceError } = await supabase
         .from('spaces')
-        .select('id, is_public, max_members, member_count')
+        .select('id, is_public, max_members, member_count, screening_questions')
         .eq('id', spaceId)
         .single();
 
@@ -376,11 +403,13 @@ export class RoomService {
         return { error: 'Space is at capacity' };
       }
 
-      // Get the channel for this space
+      // Get the first channel for this space (other channels are joined by DB trigger)
       const { data: channelRow, error: channelError } = await supabase
         .from('channels')
         .select('id')
         .eq('space_id', spaceId)
+        .eq('is_active', true)
+        .order('position', { ascending: true })
         .limit(1)
         .maybeSingle();
 
@@ -434,6 +463,33 @@ export class RoomService {
         };
       }
 
+      // 参加時の質問があるスペースは、回答付きの参加リクエストにする（オーナーの承認で参加）
+      if (
+        Array.isArray(space.screening_questions) &&
+        space.screening_questions.length > 0
+      ) {
+        const { error: applyError } = await supabase.rpc(
+          'apply_to_join_space',
+          {
+            p_space_id: spaceId,
+            p_answers: (options.answers ?? []).map(a => a.trim()),
+          }
+        );
+        if (applyError) {
+          return {
+            error: this.inviteErrorMessage(
+              applyError.message,
+              '参加リクエストを送信できませんでした'
+            ),
+          };
+        }
+        return {
+          success: true,
+          data: { channel_id: channel.id, pending: true },
+          message: 'Join request sent',
+        };
+      }
+
       // Add user as member
       const { error: memberError } = await supabase
         .from('channel_members')
@@ -447,7 +503,11 @@ export class RoomService {
         const raw = memberError.message || '';
         const human = raw.includes('maternal badge required')
           ? '非公開スペースに参加するには母子手帳の認証が必要です'
-          : raw;
+          : raw.includes('Banned from space')
+            ? 'このルームには参加できません'
+            : raw.includes('Screening required')
+              ? '参加するには質問にすべて回答してください'
+              : raw;
         console.error('[RoomService] Join space error:', raw);
         return { error: human || '参加に失敗しました' };
       }
@@ -481,6 +541,7 @@ export class RoomService {
         .from('channels')
         .select('id')
         .eq('space_id', spaceId)
+        .order('position', { ascending: true })
         .limit(1)
         .maybeSingle();
 
@@ -757,18 +818,41 @@ export class RoomService {
           message_type: request.message_type || 'text',
           content: contentToInsert,
           attachments: request.attachments || [],
+          ...(request.client_id ? { client_id: request.client_id } : {}),
+          ...(request.is_forwarded ? { is_forwarded: true } : {}),
         })
         .select('id')
         .single();
 
+      // 同じ client_id の再送は既存のメッセージを送信済みとして扱う
+      if (error?.code === '23505' && request.client_id) {
+        const { data: existing } = await supabase
+          .from('room_messages')
+          .select('id')
+          .eq('sender_id', user.user.id)
+          .eq('client_id', request.client_id)
+          .maybeSingle();
+        if (existing?.id) {
+          return {
+            success: true,
+            data: { message_id: existing.id },
+            message: 'Message already sent',
+          };
+        }
+      }
+
       if (error) {
         console.error(
           '[RoomService] Send channel message error:',
           error.message
         );
-        return { error: error.message };
+        return {
+          error: this.channelErrorMessage(error.message, error.message),
+        };
       }
 
+      attachLinkPreview('room_message', message.id, contentToInsert);
+
       return {
         success: true,
         data: { message_id: message.id },
@@ -786,6 +870,7 @@ export class RoomService {
    */
   static async deleteChannelMessage(
     messageId: string,
+    options: { asModerator?: boolean; reason?: string } = {}
   ): Promise<ApiResponse<boolean>> {
     try {
       const supabase = getSupabaseClient();
@@ -793,6 +878,22 @@ export class RoomService {
       if (!user.user) {
         return { error: 'Not authenticated' };
       }
+      // 他人のメッセージはオーナー・モデレーターが RPC で消す（モデレーションログに残る）
+      if (options.asModerator) {
+        const { error } = await supabase.rpc(
+          'moderate_delete_channel_message',
+          { p_message_id: messageId, p_reason: options.reason ?? null }
+        );
+        if (error) {
+          return {
+            error: this.moderationErrorMessage(
+              error.message,
+              'メッセージを削除できませんでした'
+            ),
+          };
+        }
+        return { success: true, data: true };
+      }
       // Try hard delete first (preferred if RLS allows deleting own rows)
       const del = await supabase
         .from('room_messages')
@@ -846,7 +947,8 @@ export class RoomService {
         .select('*')
         .eq('channel_id', channelId)
         .is('deleted_at', null)
-        .order('created_at', { ascending: true }); // Latest messages at the end
+        // Newest first so the limit keeps the latest page; reversed below
+        .order('created_at', { ascending: false });
 
       // Apply pagination
       if (params.before_message_id) {
@@ -905,9 +1007,16 @@ export class RoomService {
         (senderProfiles || []).map(profile => [profile.id, profile])
       );
 
-      // Transform data to include sender information
-      const messagesWithSender: RoomMessageWithSender[] = messages.map(
-        (msg: any) => {
+      // Reactions are optional; show the messages even if they fail to load
+      const reactionMap = await fetchMessageReactions(
+        'channel',
+        messages.map(msg => msg.id)
+      ).catch(() => new Map());
+
+      // Transform data to include sender information (oldest first, latest at the end)
+      const messagesWithSender: RoomMessageWithSender[] = [...messages]
+        .reverse()
+        .map((msg: any) => {
           const sender = senderMap.get(msg.sender_id);
           return {
             ...msg,
@@ -915,9 +1024,9 @@ export class RoomService {
             sender_username: sender?.username || null,
             sender_display_name: sender?.display_name || null,
             sender_avatar_emoji: sender?.avatar_emoji || null,
+            reactions: reactionMap.get(msg.id) || [],
           };
-        }
-      );
+        });
 
       return {
         success: true,
@@ -930,6 +1039,69 @@ export class RoomService {
     }
   }
 
+  /**
+   * Add or remove the current user's emoji reaction on a channel message
+   */
+  static async setMessageReaction(
+    channelId: string,
+    messageId: string,
+    emoji: string,
+    reacted: boolean
+  ): Promise<ApiResponse<boolean>> {
+    try {
+      if (reacted) {
+        await addMessageReaction('channel', channelId, messageId, emoji);
+      } else {
+        await removeMessageReaction('channel', messageId, emoji);
+      }
+      return { success: true, data: reacted };
+    } catch (error: unknown) {
+      return {
+        error: this.normalizeError(error, 'Failed to update reaction'),
+      };
+    }
+  }
+
+  /**
+   * Get the messages pinned to a channel (newest pin first)
+   */
+  static async getPinnedMessages(
+    channelId: string
+  ): Promise<ApiResponse<PinnedMessage[]>> {
+    try {
+      return {
+        success: true,
+        data: await fetchPinnedMessages('channel', channelId),
+      };
+    } catch (error: unknown) {
+      return {
+        error: this.normalizeError(error, 'Failed to get pinned messages'),
+      };
+    }
+  }
+
+  /**
+   * Pin or unpin a channel message for every member
+   */
+  static async setMessagePinned(
+    channelId: string,
+    messageId: string,
+    pinned: boolean
+  ): Promise<ApiResponse<boolean>> {
+    try {
+      if (pinned) {
+        await pinMessage('channel', channelId, messageId);
+      } else {
+        await unpinMessage('channel', messageId);
+      }
+      return { success: true, data: pinned };
+    } catch (error: unknown) {
+      return {
+        error: this.normalizeError(error, 'Failed to update pin'),
+      };
+    }
+  }
+
   /**
    * Mark a channel as seen (update last_seen_at) using direct table operations
    */
@@ -981,8 +1153,9 @@ export class RoomService {
       }
 
       // Use SECURITY DEFINER RPC to avoid N+1 queries and compute NEW flags in SQL
+      // スペースごとに複数のチャンネルがあるので、まとめる前の行数を多めに取る
       const { data, error } = await supabase.rpc('get_chat_list_with_new', {
-        p_limit: 50,
+        p_limit: 100,
       });
       if (error) {
         console.error('[RoomService] Get chat list error:', error.message);
@@ -997,6 +1170,755 @@ export class RoomService {
     }
   }
 
+  // =====================================================
+  // CHANNEL MANAGEMENT
+  // =====================================================
+
+  /**
+   * Map channel RPC / trigger errors to messages shown to the user
+   */
+  static channelErrorMessage(raw: string, fallback: string): string {
+    if (raw.includes('Announcement channel is read-only')) {
+      return 'お知らせチャンネルはオーナーとモデレーターだけが投稿できます';
+    }
+    if (raw.includes('Channel is archived')) {
+      return 'アーカイブされたチャンネルには投稿できません';
+    }
+    if (raw.includes('Channel name already exists')) {
+      return '同じ名前のチャンネルがあります';
+    }
+    if (raw.includes('Invalid channel name')) {
+      return 'チャンネル名は1〜50文字で入力してください';
+    }
+    if (raw.includes('Channel limit exceeded')) {
+      return 'チャンネルは1つのルームに20個まで作れます';
+    }
+    if (raw.includes('Cannot archive the last channel')) {
+      return '最後のチャンネルはアーカイブできません';
+    }
+    if (raw.includes('Muted in space')) {
+      return 'ミュート中のため、このルームには投稿できません';
+    }
+    if (raw.includes('Rules not accepted')) {
+      return 'ルームのルールに同意するとメッセージを送れます';
+    }
+    if (raw.includes('Permission denied')) {
+      return 'チャンネルを管理できるのはルームのオーナーだけです';
+    }
+    return fallback;
+  }
+
+  /**
+   * Get the channels of a space in display order with unread counts.
+   * - Archived channels are returned to the owner only
+   */
+  static async getSpaceChannels(
+    spaceId: string
+  ): Promise<ApiResponse<SpaceChannel[]>> {
+    try {
+      const { data, error } = await getSupabaseClient().rpc(
+        'get_space_channels',
+        { p_space_id: spaceId }
+      );
+      if (error) {
+        return { error: 'チャンネルを取得できませんでした' };
+      }
+      const channels = ((data as SpaceChannel[]) || []).map(c => ({
+        ...c,
+        unread_count: Number(c.unread_count) || 0,
+      }));
+      return { success: true, data: channels };
+    } catch {
+      return { error: 'チャンネルを取得できませんでした' };
+    }
+  }
+
+  /**
+   * Add a channel to a space (owner only). Current members join it too.
+   */
+  static async createChannel(
+    spaceId: string,
+    input: SpaceChannelInput
+  ): Promise<ApiResponse<{ channel_id: string }>> {
+    try {
+      const { data, error } = await getSupabaseClient().rpc(
+        'create_space_channel',
+        {
+          p_space_id: spaceId,
+          p_name: input.name.trim(),
+          p_channel_type: input.channel_type ?? 'text',
+          p_description: input.description ?? null,
+        }
+      );
+      if (error) {
+        return {
+          error: this.channelErrorMessage(
+            error.message,
+            'チャンネルを作成できませんでした'
+          ),
+        };
+      }
+      return { success: true, data: { channel_id: String(data) } };
+    } catch {
+      return { error: 'チャンネルを作成できませんでした' };
+    }
+  }
+
+  /**
+   * Rename a channel or change its type (owner only)
+   */
+  static async updateChannel(
+    channelId: string,
+    changes: Partial<SpaceChannelInput>
+  ): Promise<ApiResponse<void>> {
+    try {
+      const { error } = await getSupabaseClient().rpc('update_space_channel', {
+        p_channel_id: channelId,
+        p_name: changes.name?.trim() ?? null,
+        p_channel_type: changes.channel_type ?? null,
+        p_description:
+          changes.description === undefined
+            ? null
+            : (changes.description ?? ''),
+      });
+      if (error) {
+        return {
+          error: this.channelErrorMessage(
+            error.message,
+            'チャンネルを更新できませんでした'
+          ),
+        };
+      }
+      return { success: true };
+    } catch {
+      return { error: 'チャンネルを更新できませんでした' };
+    }
+  }
+
+  /**
+   * Archive (hide and make read-only) or restore a channel (owner only)
+   */
+  static async setChannelArchived(
+    channelId: string,
+    archived: boolean
+  ): Promise<ApiResponse<void>> {
+    try {
+      const { error } = await getSupabaseClient().rpc(
+        'set_space_channel_archived',
+        { p_channel_id: channelId, p_archived: archived }
+      );
+      if (error) {
+        return {
+          error: this.channelErrorMessage(
+            error.message,
+            archived
+              ? 'チャンネルをアーカイブできませんでした'
+              : 'チャンネルを戻せませんでした'
+          ),
+        };
+      }
+      return { success: true };
+    } catch {
+      return { error: 'チャンネルを更新できませんでした' };
+    }
+  }
+
+  /**
+   * Save the channel order of a space (owner only)
+   */
+  static async reorderChannels(
+    spaceId: string,
+    channelIds: string[]
+  ): Promise<ApiResponse<void>> {
+    try {
+      const { error } = await getSupabaseClient().rpc(
+        'reorder_space_channels',
+        { p_space_id: spaceId, p_channel_ids: channelIds }
+      );
+      if (error) {
+        return {
+          error: this.channelErrorMessage(
+            error.message,
+            '並び順を保存できませんでした'
+          ),
+        };
+      }
+      return { success: true };
+    } catch {
+      return { error: '並び順を保存できませんでした' };
+    }
+  }
+
+  // =====================================================
+  // SPACE MODERATION
+  // =====================================================
+
+  /**
+   * Map moderation RPC errors to messages shown to the user
+   */
+  static moderationErrorMessage(raw: string, fallback: string): string {
+    if (raw.includes('Permission denied')) {
+      return 'この操作をする権限がありません';
+    }
+    if (raw.includes('Cannot moderate yourself')) {
+      return '自分自身には操作できません';
+    }
+    if (raw.includes('Not a member')) {
+      return 'このユーザーはルームのメンバーではありません';
+    }
+    if (raw.includes('Message not found')) {
+      return 'メッセージが見つかりませんでした';
+    }
+    if (raw.includes('Invalid mute duration')) {
+      return 'ミュートの期間は1分から7日までです';
+    }
+    return fallback;
+  }
+
+  private static async runModerationRpc<T = unknown>(
+    fn: string,
+    params: Record<string, unknown>,
+    fallback: string
+  ): Promise<ApiResponse<T>> {
+    try {
+      const { data, error } = await getSupabaseClient().rpc(fn, params);
+      if (error) {
+        return { error: this.moderationErrorMessage(error.message, fallback) };
+      }
+      return { success: true, data: data as T };
+    } catch {
+      return { error: fallback };
+    }
+  }
+
+  /**
+   * Promote a member to moderator or demote back to member (owner only)
+   */
+  static async setMemberRole(
+    spaceId: string,
+    userId: string,
+    role: 'moderator' | 'member'
+  ): Promise<ApiResponse<void>> {
+    return this.runModerationRpc<void>(
+      'set_space_member_role',
+      { p_space_id: spaceId, p_user_id: userId, p_role: role },
+      '役割を変更できませんでした'
+    );
+  }
+
+  /**
+   * Remove a member from every channel of the space (they can rejoin)
+   */
+  static async kickMember(
+    spaceId: string,
+    userId: string,
+    reason?: string
+  ): Promise<ApiResponse<void>> {
+    return this.runModerationRpc<void>(
+      'kick_space_member',
+      { p_space_id: spaceId, p_user_id: userId, p_reason: reason ?? null },
+      '退出させられませんでした'
+    );
+  }
+
+  /**
+   * Remove a member and block them from rejoining
+   */
+  static async banMember(
+    spaceId: string,
+    userId: string,
+    reason?: string
+  ): Promise<ApiResponse<void>> {
+    return this.runModerationRpc<void>(
+      'ban_space_member',
+      { p_space_id: spaceId, p_user_id: userId, p_reason: reason ?? null },
+      'BANできませんでした'
+    );
+  }
+
+  static async unbanMember(
+    spaceId: string,
+    userId: string
+  ): Promise<ApiResponse<void>> {
+    return this.runModerationRpc<void>(
+      'unban_space_member',
+      { p_space_id: spaceId, p_user_id: userId },
+      'BANを解除できませんでした'
+    );
+  }
+
+  /**
+   * Stop a member from posting for the given minutes. Returns the end time.
+   */
+  static async muteMember(
+    spaceId: string,
+    userId: string,
+    minutes: number,
+    reason?: string
+  ): Promise<ApiResponse<string>> {
+    return this.runModerationRpc<string>(
+      'mute_space_member',
+      {
+        p_space_id: spaceId,
+        p_user_id: userId,
+        p_minutes: minutes,
+        p_reason: reason ?? null,
+      },
+      'ミュートできませんでした'
+    );
+  }
+
+  static async unmuteMember(
+    spaceId: string,
+    userId: string
+  ): Promise<ApiResponse<void>> {
+    return this.runModerationRpc<void>(
+      'unmute_space_member',
+      { p_space_id: spaceId, p_user_id: userId },
+      'ミュートを解除できませんでした'
+    );
+  }
+
+  /**
+   * Moderation log of a space, newest first (owner and moderators only)
+   */
+  static async getModerationLog(
+    spaceId: string,
+    params: { before?: string; limit?: number } = {}
+  ): Promise<ApiResponse<SpaceModerationLogEntry[]>> {
+    const res = await this.runModerationRpc<SpaceModerationLogEntry[]>(
+      'get_space_moderation_log',
+      {
+        p_space_id: spaceId,
+        p_before: params.before ?? null,
+        p_limit: params.limit ?? 30,
+      },
+      'モデレーションログを取得できませんでした'
+    );
+    return res.success ? { success: true, data: res.data || [] } : res;
+  }
+
+  /**
+   * Banned users and currently muted members of a space
+   */
+  static async getSpaceRestrictions(
+    spaceId: string
+  ): Promise<ApiResponse<SpaceRestriction[]>> {
+    const res = await this.runModerationRpc<SpaceRestriction[]>(
+      'get_space_restrictions',
+      { p_space_id: spaceId },
+      'BAN・ミュート中のユーザーを取得できませんでした'
+    );
+    return res.success ? { success: true, data: res.data || [] } : res;
+  }
+
+  // =====================================================
+  // INVITE LINKS & JOIN REQUESTS
+  // =====================================================
+
+  /**
+   * Map invite / join request RPC errors to messages shown to the user
+   */
+  static inviteErrorMessage(raw: string, fallback: string): string {
+    if (raw.includes('Permission denied')) {
+      return 'この操作をする権限がありません';
+    }
+    if (raw.includes('Invite not found')) {
+      return 'この招待リンクは無効です';
+    }
+    if (raw.includes('Invite expired')) {
+      return 'この招待リンクは期限切れです';
+    }
+    if (raw.includes('Invite used up')) {
+      return 'この招待リンクは利用回数の上限に達しています';
+    }
+    if (raw.includes('Approval required')) {
+      return 'このルームはオーナーの承認が必要です';
+    }
+    if (raw.includes('Invite link limit exceeded')) {
+      return '有効な招待リンクは20件までです';
+    }
+    if (raw.includes('Space is at capacity')) {
+      return 'このルームは満員です';
+    }
+    if (raw.includes('Banned from space')) {
+      return 'このルームには参加できません';
+    }
+    if (raw.includes('Already a member')) {
+      return 'すでにこのルームに参加しています';
+    }
+    if (raw.includes('Request already pending')) {
+      return '参加リクエストはすでに送信済みです';
+    }
+    if (raw.includes('Request already decided')) {
+      return 'このリクエストはすでに対応済みです';
+    }
+    if (raw.includes('maternal badge required')) {
+      return '非公開スペースに参加するには母子手帳の認証が必要です';
+    }
+    if (
+      raw.includes('Answers required') ||
+      raw.includes('Screening required')
+    ) {
+      return '参加するには質問にすべて回答してください';
+    }
+    if (raw.includes('Too many questions')) {
+      return '参加時の質問は5つまでです';
+    }
+    if (raw.includes('Invalid question')) {
+      return '質問は1〜200文字で入力してください';
+    }
+    if (raw.includes('Invalid rules')) {
+      return 'ルールは2000文字、ウェルカムメッセージは500文字までです';
+    }
+    return fallback;
+  }
+
+  private static async runInviteRpc<T = unknown>(
+    fn: string,
+    params: Record<string, unknown>,
+    fallback: string
+  ): Promise<ApiResponse<T>> {
+    try {
+      const { data, error } = await getSupabaseClient().rpc(fn, params);
+      if (error) {
+        return { error: this.inviteErrorMessage(error.message, fallback) };
+      }
+      return { success: true, data: data as T };
+    } catch {
+      return { error: fallback };
+    }
+  }
+
+  /**
+   * Issue a shareable invite link (owner only)
+   */
+  static async createInviteLink(
+    spaceId: string,
+    request: CreateInviteLinkRequest
+  ): Promise<ApiResponse<SpaceInviteLink>> {
+    const res = await this.runInviteRpc<Omit<SpaceInviteLink, 'status'>[]>(
+      'create_space_invite_link',
+      {
+        p_space_id: spaceId,
+        p_expires_in_hours: request.expires_in_hours,
+        p_max_uses: request.max_uses ?? null,
+        p_requires_approval: request.requires_approval ?? false,
+      },
+      '招待リンクを作成できませんでした'
+    );
+    const link = res.data?.[0];
+    if (!res.success || !link) {
+      return { error: res.error || '招待リンクを作成できませんでした' };
+    }
+    return { success: true, data: { ...link, status: 'valid' } };
+  }
+
+  /**
+   * Active (not revoked) invite links of a space, newest first
+   */
+  static async getInviteLinks(
+    spaceId: string
+  ): Promise<ApiResponse<SpaceInviteLink[]>> {
+    const res = await this.runInviteRpc<SpaceInviteLink[]>(
+      'get_space_invite_links',
+      { p_space_id: spaceId },
+      '招待リンクを取得できませんでした'
+    );
+    return res.success ? { success: true, data: res.data || [] } : res;
+  }
+
+  static async revokeInviteLink(linkId: string): Promise<ApiResponse<void>> {
+    return this.runInviteRpc<void>(
+      'revoke_space_invite_link',
+      { p_link_id: linkId },
+      '招待リンクを無効にできませんでした'
+    );
+  }
+
+  /**
+   * Space summary behind an invite code, with the caller's membership / request state
+   */
+  static async getInvitePreview(
+    code: string
+  ): Promise<ApiResponse<SpaceInvitePreview>> {
+    const res = await this.runInviteRpc<SpaceInvitePreview[]>(
+      'get_space_invite_preview',
+      { p_code: code },
+      '招待リンクを読み込めませんでした'
+    );
+    const preview = res.data?.[0];
+    if (!res.success || !preview) {
+      return { error: res.error || 'この招待リンクは無効です' };
+    }
+    return { success: true, data: preview };
+  }
+
+  /**
+   * Join a space through a valid invite link
+   */
+  static async redeemInviteLink(
+    code: string
+  ): Promise<ApiResponse<{ channel_id: string }>> {
+    const res = await this.runInviteRpc<string>(
+      'redeem_space_invite_link',
+      { p_code: code },
+      '参加に失敗しました'
+    );
+    if (!res.success || !res.data) {
+      return { error: res.error || '参加に失敗しました' };
+    }
+    return { success: true, data: { channel_id: res.data } };
+  }
+
+  /**
+   * Ask the owner to let you in (approval-only links, or expired / used up links)
+   */
+  static async requestToJoin(
+    code: string,
+    message?: string,
+    answers: string[] = []
+  ): Promise<ApiResponse<{ request_id: string }>> {
+    const res = await this.runInviteRpc<string>(
+      'request_to_join_space',
+      {
+        p_code: code,
+        p_message: message?.trim() || null,
+        p_answers: answers.map(a => a.trim()),
+      },
+      '参加リクエストを送信できませんでした'
+    );
+    if (!res.success || !res.data) {
+      return { error: res.error || '参加リクエストを送信できませんでした' };
+    }
+    return { success: true, data: { request_id: res.data } };
+  }
+
+  static async cancelJoinRequest(spaceId: string): Promise<ApiResponse<void>> {
+    return this.runInviteRpc<void>(
+      'cancel_space_join_request',
+      { p_space_id: spaceId },
+      '参加リクエストを取り消せませんでした'
+    );
+  }
+
+  /**
+   * Pending join requests of a space, oldest first (owner only)
+   */
+  static async getJoinRequests(
+    spaceId: string
+  ): Promise<ApiResponse<SpaceJoinRequest[]>> {
+    const res = await this.runInviteRpc<SpaceJoinRequest[]>(
+      'get_space_join_requests',
+      { p_space_id: spaceId },
+      '参加リクエストを取得できませんでした'
+    );
+    return res.success ? { success: true, data: res.data || [] } : res;
+  }
+
+  /**
+   * Approve or reject a join request. The note is sent to the requester
+   */
+  static async decideJoinRequest(
+    requestId: string,
+    approve: boolean,
+    note?: string
+  ): Promise<ApiResponse<void>> {
+    return this.runInviteRpc<void>(
+      'decide_space_join_request',
+      {
+        p_request_id: requestId,
+        p_approve: approve,
+        p_note: note?.trim() || null,
+      },
+      approve ? '承認できませんでした' : '却下できませんでした'
+    );
+  }
+
+  // =====================================================
+  // RULES & SCREENING
+  // =====================================================
+
+  /**
+   * Rules, welcome message and screening questions of a space.
+   * Private spaces need membership or an invite code
+   */
+  static async getSpaceRules(
+    spaceId: string,
+    inviteCode?: string
+  ): Promise<ApiResponse<SpaceRules>> {
+    const res = await this.runInviteRpc<SpaceRules[]>(
+      'get_space_rules',
+      { p_space_id: spaceId, p_invite_code: inviteCode ?? null },
+      'ルールを取得できませんでした'
+    );
+    const rules = res.data?.[0];
+    if (!res.success || !rules) {
+      return { error: res.error || 'ルールを取得できませんでした' };
+    }
+    return {
+      success: true,
+      data: {
+        ...rules,
+        screening_questions: Array.isArray(rules.screening_questions)
+          ? rules.screening_questions
+          : [],
+      },
+    };
+  }
+
+  /**
+   * Update rules, welcome message and screening questions (owner only).
+   * Members accept again only when the rules text changes
+   */
+  static async updateSpaceRules(
+    spaceId: string,
+    request: UpdateSpaceRulesRequest
+  ): Promise<ApiResponse<void>> {
+    return this.runInviteRpc<void>(
+      'update_space_rules',
+      {
+        p_space_id: spaceId,
+        p_rules: request.rules.trim() || null,
+        p_welcome_message: request.welcome_message.trim() || null,
+        p_questions: request.screening_questions
+          .map(q => q.trim())
+          .filter(Boolean),
+      },
+      'ルールを保存できませんでした'
+    );
+  }
+
+  static async acceptSpaceRules(spaceId: string): Promise<ApiResponse<void>> {
+    return this.runInviteRpc<void>(
+      'accept_space_rules',
+      { p_space_id: spaceId },
+      'ルールへの同意を保存できませんでした'
+    );
+  }
+
+  // =====================================================
+  // EVENTS
+  // =====================================================
+
+  /**
+   * Map event RPC errors to messages shown to the user.
+   * Posting the event card runs the channel triggers, so those are mapped too
+   */
+  static eventErrorMessage(raw: string, fallback: string): string {
+    if (raw.includes('Event not found')) {
+      return 'イベントが見つかりません';
+    }
+    if (raw.includes('Event cancelled')) {
+      return 'このイベントは中止になりました';
+    }
+    if (raw.includes('Event started')) {
+      return '開始したイベントには返事できません';
+    }
+    if (raw.includes('Event full')) {
+      return '定員に達しています';
+    }
+    if (raw.includes('Event limit exceeded')) {
+      return '開催前のイベントは1つのルームに50件までです';
+    }
+    if (raw.includes('Invalid event time')) {
+      return '開始は今から1年以内、終了は開始から7日以内にしてください';
+    }
+    if (raw.includes('Invalid event')) {
+      return 'タイトルは1〜100文字、説明は1000文字までです';
+    }
+    if (raw.includes('Invalid location')) {
+      return '場所を入力するか、オンラインを選んでください';
+    }
+    if (raw.includes('Invalid capacity')) {
+      return '定員は1〜1000人で入力してください';
+    }
+    if (raw.includes('Permission denied')) {
+      return 'この操作をする権限がありません';
+    }
+    return this.channelErrorMessage(raw, fallback);
+  }
+
+  private static async runEventRpc<T = unknown>(
+    fn: string,
+    params: Record<string, unknown>,
+    fallback: string
+  ): Promise<ApiResponse<T>> {
+    try {
+      const { data, error } = await getSupabaseClient().rpc(fn, params);
+      if (error) {
+        return { error: this.eventErrorMessage(error.message, fallback) };
+      }
+      return { success: true, data: data as T };
+    } catch {
+      return { error: fallback };
+    }
+  }
+
+  /**
+   * Upcoming events of a space, or the given events (including past ones)
+   */
+  static async getSpaceEvents(
+    spaceId: string,
+    eventIds?: string[]
+  ): Promise<ApiResponse<SpaceEvent[]>> {
+    const res = await this.runEventRpc<SpaceEvent[]>(
+      'get_space_events',
+      { p_space_id: spaceId, p_event_ids: eventIds ?? null },
+      'イベントを取得できませんでした'
+    );
+    return res.success ? { success: true, data: res.data || [] } : res;
+  }
+
+  /**
+   * Create an event and post its card into the channel
+   */
+  static async createSpaceEvent(
+    channelId: string,
+    request: CreateSpaceEventRequest
+  ): Promise<ApiResponse<{ event_id: string }>> {
+    const res = await this.runEventRpc<string>(
+      'create_space_event',
+      {
+        p_channel_id: channelId,
+        p_title: request.title.trim(),
+        p_description: request.description?.trim() || null,
+        p_starts_at: request.starts_at,
+        p_ends_at: request.ends_at ?? null,
+        p_location: request.location?.trim() || null,
+        p_is_online: request.is_online,
+        p_capacity: request.capacity ?? null,
+      },
+      'イベントを作成できませんでした'
+    );
+    if (!res.success || !res.data) {
+      return { error: res.error || 'イベントを作成できませんでした' };
+    }
+    return { success: true, data: { event_id: res.data } };
+  }
+
+  static async rsvpSpaceEvent(
+    eventId: string,
+    status: SpaceEventRsvpStatus
+  ): Promise<ApiResponse<void>> {
+    return this.runEventRpc<void>(
+      'rsvp_space_event',
+      { p_event_id: eventId, p_status: status },
+      '返事を保存できませんでした'
+    );
+  }
+
+  /**
+   * Cancel an event (creator, owner or moderators). Attendees are notified
+   */
+  static async cancelSpaceEvent(eventId: string): Promise<ApiResponse<void>> {
+    return this.runEventRpc<void>(
+      'cancel_space_event',
+      { p_event_id: eventId },
+      'イベントを中止できませんでした'
+    );
+  }
+
   // =====================================================
   // ANONYMOUS ROOMS
   // =====================================================
@@ -1,6 +1,13 @@
+import {
+  contentWarningLabel,
+  toContentWarning,
+} from '../utils/contentWarnings';
+import { normalizeHashtag } from '../utils/hashtag';
+
+import { filterMuted } from './mutedTermService';
 import { getSupabaseClient } from './supabaseClient';
 
-export type QueryKind = 'user' | 'hashtag' | 'none';
+export type QueryKind = 'user' | 'hashtag' | 'text' | 'none';
 
 export type SearchUserItem = {
   id: string;
@@ -10,6 +17,7 @@ export type SearchUserItem = {
   avatarEmoji?: string | null;
   // Optional URL avatar for future support; not used currently
   avatarUrl?: string | null;
+  maternalVerified?: boolean;
 };
 
 export type SearchPostItem = {
@@ -17,8 +25,40 @@ export type SearchPostItem = {
   author: SearchUserItem;
   contentPreview: string;
   createdAt: string;
+  // 全文検索の結果のみ
+  reactionCount?: number;
+};
+
+export type SearchPeriod = 'all' | '24h' | '7d' | '30d';
+
+export type PostSearchFilters = {
+  period?: SearchPeriod;
+  verifiedOnly?: boolean;
 };
 
+export const SEARCH_PERIOD_OPTIONS: { value: SearchPeriod; label: string }[] = [
+  { value: 'all', label: 'すべて' },
+  { value: '24h', label: '24時間' },
+  { value: '7d', label: '1週間' },
+  { value: '30d', label: '1か月' },
+];
+
+const SEARCH_PERIOD_MS: Record<Exclude<SearchPeriod, 'all'>, number> = {
+  '24h': 24 * 60 * 60 * 1000,
+  '7d': 7 * 24 * 60 * 60 * 1000,
+  '30d': 30 * 24 * 60 * 60 * 1000,
+};
+
+export function searchSince(
+  period: SearchPeriod | undefined,
+  now: Date = new Date()
+): string | null {
+  if (!period || period === 'all') {
+    return null;
+  }
+  return new Date(now.getTime() - SEARCH_PERIOD_MS[period]).toISOString();
+}
+
 export function parseQuery(q: string): { kind: QueryKind; term: string } {
   const raw = (q || '').trim();
   if (!raw) {
@@ -38,14 +78,13 @@ export function parseQuery(q: string): { kind: QueryKind; term: string } {
   }
   if (raw.startsWith('#')) {
     // 日本語タグ対応: 全角含む文字を許容（Unicodeの文字/数字、_、中点・長音）
-    const normalized = raw.slice(1).normalize('NFKC');
-    const term = (normalized.match(/[\p{L}\p{N}_ー・]+/gu)?.join('') || '')
-      .trim()
-      .slice(0, 48);
+    const term = normalizeHashtag(raw.slice(1));
     return { kind: term ? 'hashtag' : 'none', term };
   }
 
-  return { kind: 'none', term: '' };
+  // それ以外は本文の全文検索。空白区切りの各語をすべて含む投稿を探す
+  const term = raw.normalize('NFKC').replace(/\s+/g, ' ').trim().slice(0, 100);
+  return { kind: term ? 'text' : 'none', term };
 }
 
 export async function searchUsers(
@@ -152,7 +191,12 @@ export async function searchPostsByHashtag(
     authorMap = new Map((authors || []).map((a: any) => [String(a.id), a]));
   }
 
-  const items: SearchPostItem[] = (posts || []).map((p: any) => {
+  // ミュート中の語句・タグを含む投稿は結果から除く
+  const visiblePosts = await filterMuted(posts || [], (p: any) =>
+    String(p.body || '')
+  );
+
+  const items: SearchPostItem[] = visiblePosts.map((p: any) => {
     const a = authorMap.get(String(p.user_id)) || {};
     return {
       id: String(p.id),
@@ -170,3 +214,122 @@ export async function searchPostsByHashtag(
 
   return { items, nextCursor: null };
 }
+
+/**
+ * 投稿本文の全文検索。反応数と新しさのスコア順で、cursor は次の offset。
+ */
+export async function searchPosts(
+  term: string,
+  opts?: { limit?: number; cursor?: string | null } & PostSearchFilters
+): Promise<{ items: SearchPostItem[]; nextCursor?: string | null }> {
+  const client = getSupabaseClient();
+  const limit = Math.min(Math.max(opts?.limit ?? 20, 1), 50);
+  const offset = Math.max(Number(opts?.cursor ?? 0) || 0, 0);
+  const { data, error } = await client.rpc('search_posts_v2', {
+    p_query: term,
+    p_limit: limit,
+    p_offset: offset,
+    p_since: searchSince(opts?.period),
+    p_until: null,
+    p_verified_only: !!opts?.verifiedOnly,
+  });
+  if (error) {
+    throw error;
+  }
+  const rows = (data || []) as any[];
+  // 次ページの有無はミュート除外前の件数で判定する
+  const nextCursor = rows.length < limit ? null : String(offset + rows.length);
+  const visible = await filterMuted(rows, (r: any) => String(r.body || ''));
+
+  const items: SearchPostItem[] = visible.map((r: any) => {
+    const warning = contentWarningLabel(toContentWarning(r.content_warning));
+    return {
+      id: String(r.id),
+      // 警告つきの投稿は本文を出さない
+      contentPreview: warning
+        ? `⚠️ ${warning}`
+        : String(r.body || '').slice(0, 120),
+      createdAt: String(r.created_at),
+      reactionCount: Number(r.reaction_count ?? 0),
+      author: {
+        id: String(r.user_id),
+        username: String(r.username || ''),
+        displayName: r.display_name ?? null,
+        avatarEmoji: r.avatar_emoji ?? null,
+        avatarUrl: null,
+        maternalVerified: !!r.maternal_verified,
+      },
+    };
+  });
+  return { items, nextCursor };
+}
+
+export type MessageSearchScope = 'dm' | 'channel';
+
+export type SearchMessageItem = {
+  id: string;
+  scope: MessageSearchScope;
+  // DM・グループなら会話 ID、スペースならチャンネル ID
+  containerId: string;
+  containerName: string;
+  spaceId: string | null;
+  spaceName: string | null;
+  sender: SearchUserItem;
+  content: string;
+  createdAt: string;
+};
+
+export type MessageSearchFilters = {
+  scope?: MessageSearchScope | null;
+  containerId?: string | null;
+  senderId?: string | null;
+  period?: SearchPeriod;
+};
+
+/**
+ * 参加中のすべての DM・グループ・スペースのチャンネルをまたいだメッセージ検索。
+ * 新しい順で、cursor は最後の 1 件の created_at（それより前を返す）。
+ */
+export async function searchMessages(
+  term: string,
+  opts?: { limit?: number; cursor?: string | null } & MessageSearchFilters
+): Promise<{ items: SearchMessageItem[]; nextCursor: string | null }> {
+  const client = getSupabaseClient();
+  const limit = Math.min(Math.max(opts?.limit ?? 30, 1), 50);
+  const { data, error } = await client.rpc('search_messages_v2', {
+    p_query: term,
+    p_scope: opts?.scope ?? null,
+    p_container_id: opts?.containerId ?? null,
+    p_sender_id: opts?.senderId ?? null,
+    p_since: searchSince(opts?.period),
+    p_until: null,
+    p_before: opts?.cursor ?? null,
+    p_limit: limit,
+  });
+  if (error) {
+    throw error;
+  }
+  const rows = (data || []) as any[];
+  const last = rows[rows.length - 1];
+  const nextCursor =
+    rows.length < limit || !last ? null : String(last.created_at);
+  // チャット画面と同じく、自分の会話にはミュート語を適用しない
+  const items: SearchMessageItem[] = rows.map((r: any) => ({
+    id: String(r.message_id),
+    scope: r.scope === 'channel' ? 'channel' : 'dm',
+    containerId: String(r.container_id),
+    containerName: String(r.container_name || ''),
+    spaceId: r.space_id ?? null,
+    spaceName: r.space_name ?? null,
+    sender: {
+      id: String(r.sender_id),
+      username: String(r.sender_username || ''),
+      displayName: r.sender_display_name ?? null,
+      avatarEmoji: r.sender_avatar_emoji ?? null,
+      avatarUrl: null,
+    },
+    content: String(r.content || ''),
+    createdAt: String(r.created_at),
+  }));
+  return { items, nextCursor };
+}
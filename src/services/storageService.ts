@@ -235,6 +235,55 @@ export async function uploadChatImages(
   return results;
 }
 
+/**
+ * Uploads a recorded voice message (m4a) to the 'chat-audio' bucket and returns its public URL.
+ */
+export async function uploadChatAudio(
+  userId: string,
+  uri: string
+): Promise<{ url: string; mime: string }> {
+  const client = getSupabaseClient();
+  const env = ((global as any)?.process?.env ?? {}) as Record<
+    string,
+    string | undefined
+  >;
+  const supaUrl =
+    (Constants as any)?.expoConfig?.extra?.SUPABASE_URL ||
+    (Constants as any)?.manifestExtra?.SUPABASE_URL ||
+    env.EXPO_PUBLIC_SUPABASE_URL ||
+    env.SUPABASE_URL;
+  if (!supaUrl) {
+    throw new Error('SupabaseのURLが設定されていません');
+  }
+  const {
+    data: { session },
+  } = await client.auth.getSession();
+  if (!session?.access_token) {
+    throw new Error('ログインが必要です');
+  }
+  // expo-av の HIGH_QUALITY プリセットは iOS/Android とも AAC の m4a で保存される
+  const contentType = 'audio/mp4';
+  const path = `${userId}/${Date.now()}.m4a`;
+  const uploadUrl = `${supaUrl}/storage/v1/object/${encodeURIComponent('chat-audio')}/${path}`;
+  const resp = await FileSystem.uploadAsync(uploadUrl, uri, {
+    httpMethod: 'POST',
+    headers: {
+      Authorization: `Bearer ${session.access_token}`,
+      'Content-Type': contentType,
+      'x-upsert': 'true',
+    },
+    uploadType: FileSystem.FileSystemUploadType.BINARY_CONTENT,
+  });
+  if (resp.status >= 300) {
+    throw new Error('音声のアップロードに失敗しました');
+  }
+  const { data } = client.storage.from('chat-audio').getPublicUrl(path);
+  if (!data?.publicUrl) {
+    throw new Error('音声URLの取得に失敗しました');
+  }
+  return { url: data.publicUrl, mime: contentType };
+}
+
 export async function uploadRoomImages(
   userId: string,
   uris: string[]
@@ -10,6 +10,7 @@
  */
 
 import { PublicUserProfile, SensitiveData } from './auth';
+import { LinkPreview } from './post';
 
 // =====================================================
 // SECURITY ANNOTATIONS
@@ -80,7 +81,7 @@ export interface Chat {
   updated_at: string;
   last_message_at: string | null;
   is_active: boolean;
-  chat_type: 'direct' | 'group'; // For future expansion
+  chat_type: 'direct' | 'group';
   metadata: ChatMetadata | null;
 }
 
@@ -92,6 +93,7 @@ export interface ChatMetadata {
   description?: string;
   archived_at?: string;
   muted_until?: string;
+  disappearing_seconds?: number | null; // Disappearing messages timer (null = off)
   custom_settings?: Record<string, any>;
 }
 
@@ -110,6 +112,34 @@ export interface Message {
   deleted_at: string | null;
   reply_to_message_id: string | null;
   metadata: MessageMetadata | null;
+  reactions?: MessageReaction[];
+  expires_at?: string | null; // Set when the chat has a disappearing timer
+}
+
+/**
+ * Emoji reaction on a DM / group / channel message
+ * (one row per user and emoji; a user may add several emojis)
+ */
+export interface MessageReaction {
+  message_id: string;
+  user_id: string;
+  emoji: string;
+  created_at: string;
+}
+
+/**
+ * Message pinned to the top of a DM / group / channel (newest pin first)
+ */
+export interface PinnedMessage {
+  message_id: string;
+  pinned_by: string;
+  pinned_at: string;
+  sender_id: string;
+  content: string;
+  message_type: string;
+  created_at: string;
+  metadata: MessageMetadata | null; // DM / group only
+  attachments?: any[]; // Channel only
 }
 
 /**
@@ -121,6 +151,8 @@ export enum MessageType {
   FILE = 'file',
   SYSTEM = 'system', // For system notifications
   DELETED = 'deleted', // For deleted message placeholders
+  POST_SHARE = 'post_share', // A shared post (metadata.shared_post_id)
+  AUDIO = 'audio', // Voice message (metadata.audio_*)
 }
 
 /**
@@ -140,7 +172,37 @@ export interface MessageMetadata {
     mime?: string;
   }[];
   system_event?: SystemEventType;
+  target_user_id?: string; // User a system event is about (joined, left, promoted)
   mentions?: string[]; // User IDs mentioned in message
+  shared_post_id?: string; // For POST_SHARE messages
+  // For AUDIO messages
+  audio_url?: string;
+  audio_duration_ms?: number;
+  audio_waveform?: number[]; // Normalized 0..1 bar heights
+  audio_mime?: string;
+  // Idempotency key generated on the device (outbox retries reuse it)
+  client_message_id?: string;
+  // End-to-end encrypted DMs
+  e2e?: E2EEnvelope;
+  e2e_status?: 'decrypted' | 'undecryptable'; // Set on this device after decrypting
+  e2e_enabled?: boolean; // SETTINGS_CHANGED system event
+  disappearing_seconds?: number | null; // SETTINGS_CHANGED system event
+  forwarded?: boolean; // Forwarded from another chat or channel
+  link_preview?: LinkPreview | null; // Set server-side by the link-preview function
+}
+
+/**
+ * Ciphertext of an end-to-end encrypted DM (stored in metadata.e2e).
+ * The body is sealed with a random message key, which is wrapped once per
+ * device using the ECDH session key between the sender's and that device's key pair.
+ */
+export interface E2EEnvelope {
+  v: 1;
+  sender_device_id: string;
+  sender_public_key: string;
+  iv: string;
+  ciphertext: string;
+  keys: Record<string, { iv: string; key: string }>; // device_id → wrapped message key
 }
 
 /**
@@ -202,8 +264,17 @@ export interface ChatParticipant {
  */
 export enum ParticipantRole {
   MEMBER = 'member',
-  ADMIN = 'admin', // For future group chat features
-  OWNER = 'owner', // For future group chat features
+  ADMIN = 'admin', // Can rename the group and add/remove members
+  OWNER = 'owner', // Can also promote/demote admins
+}
+
+/**
+ * Active member of a group chat with public profile fields
+ */
+export interface GroupMember {
+  user: PublicUserProfile;
+  role: ParticipantRole;
+  joined_at: string;
 }
 
 // =====================================================
@@ -219,6 +290,9 @@ export interface ChatWithParticipants extends Chat {
   last_message?: MessageWithSender;
   participants_presence: UserPresence[];
   typing_users: string[]; // Currently typing user IDs
+  member_count?: number; // Group chats only
+  my_role?: ParticipantRole; // Group chats only
+  e2e_enabled?: boolean; // Direct chats only
 }
 
 /**
@@ -239,6 +313,8 @@ export interface OptimisticMessage extends MessageWithSender {
   isOptimistic?: boolean;
   tempId?: string;
   error?: string;
+  // Outbox state while the message is queued on this device
+  sendStatus?: 'pending' | 'failed';
 }
 
 /**
@@ -262,6 +338,14 @@ export interface CreateChatRequest {
   metadata?: Partial<ChatMetadata>;
 }
 
+/**
+ * Request to create a group chat
+ */
+export interface CreateGroupChatRequest {
+  title: string;
+  participant_ids: string[]; // Other members; the creator becomes the owner
+}
+
 /**
  * Request to send a new message
  */
@@ -346,6 +430,8 @@ export enum ChatErrorCode {
   AUTHENTICATION_REQUIRED = 'AUTHENTICATION_REQUIRED',
   SUPABASE_ERROR = 'SUPABASE_ERROR',
   VALIDATION_ERROR = 'VALIDATION_ERROR',
+  NETWORK_ERROR = 'NETWORK_ERROR',
+  ENCRYPTION_FAILED = 'ENCRYPTION_FAILED',
 }
 
 // =====================================================
@@ -403,6 +489,9 @@ export enum ChatEventType {
   USER_ONLINE = 'user_online',
   USER_OFFLINE = 'user_offline',
   USER_STATUS_CHANGED = 'user_status_changed',
+  REACTION_ADDED = 'reaction_added',
+  REACTION_REMOVED = 'reaction_removed',
+  PINS_CHANGED = 'pins_changed',
 }
 
 /**
@@ -427,6 +516,22 @@ export interface MessageEvent extends ChatEvent {
   data: MessageWithSender;
 }
 
+/**
+ * Real-time reaction event
+ */
+export interface ReactionEvent extends ChatEvent {
+  type: ChatEventType.REACTION_ADDED | ChatEventType.REACTION_REMOVED;
+  data: MessageReaction;
+}
+
+/**
+ * Real-time pin event (the pinned list should be reloaded)
+ */
+export interface PinsChangedEvent extends ChatEvent {
+  type: ChatEventType.PINS_CHANGED;
+  data: { message_id: string; pinned: boolean };
+}
+
 /**
  * Real-time typing event
  */
@@ -509,9 +614,13 @@ export const ChatConstraints = {
     minLength: 1,
   },
   chat: {
-    maxParticipants: 100, // For future group chat features
+    maxParticipants: 100,
     maxChatsPerUser: 500,
   },
+  group: {
+    maxMembers: 20, // Including the owner
+    maxTitleLength: 50,
+  },
   file: {
     maxSize: 10 * 1024 * 1024, // 10MB
     allowedTypes: [
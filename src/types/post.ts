@@ -5,11 +5,60 @@ export interface Post {
   created_at: string;
   attachments?: Attachment[];
   is_ad?: boolean;
+  poll?: Poll | null;
+  content_warning?: ContentWarningCategory | null;
+  // 本文を編集した最終日時（未編集なら null）
+  edited_at?: string | null;
+  link_preview?: LinkPreview | null;
 }
 
+// 本文中の最初の URL のプレビュー（サーバーの link-preview 関数が保存する）
+export interface LinkPreview {
+  url: string;
+  title: string | null;
+  description: string | null;
+  image_url: string | null;
+  site_name: string | null;
+}
+
+// DM・チャンネルにシェアされたポストのプレビュー
+export interface SharedPostPreview {
+  id: string;
+  user_id: string;
+  body: string;
+  attachments: Attachment[];
+  content_warning: ContentWarningCategory | null;
+  created_at: string;
+  user: {
+    display_name: string | null;
+    avatar_emoji: string | null;
+  };
+}
+
+// 編集前の本文の 1 版
+export interface PostEdit {
+  id: string;
+  post_id: string;
+  body: string;
+  edited_at: string;
+}
+
+// センシティブな話題のカテゴリ（DB の CHECK 制約と揃える）
+export type ContentWarningCategory =
+  | 'pregnancy_loss'
+  | 'mental_health'
+  | 'nicu'
+  | 'medical'
+  | 'other';
+
+export type ReactionKind = 'support' | 'metoo' | 'congrats' | 'hug';
+
 export interface ReactionSummary {
   count: number;
   reactedByMe: boolean;
+  // 種類別の件数（旧RPCでは未返却のため任意）
+  byKind?: Partial<Record<ReactionKind, number>>;
+  myReaction?: ReactionKind | null;
 }
 
 export interface CommentSummary {
@@ -19,6 +68,8 @@ export interface CommentSummary {
 export interface PostWithMeta extends Post {
   reaction_summary: ReactionSummary;
   comment_summary: CommentSummary;
+  // 自分が保存している場合のみ（本人にしか見えない）
+  bookmark?: PostBookmark | null;
   user?: {
     id: string;
     username: string;
@@ -33,7 +84,11 @@ export interface Comment {
   id: string;
   post_id: string;
   user_id: string;
+  // 返信の場合はスレッド先頭のコメントID
+  parent_comment_id?: string | null;
+  reply_count?: number;
   body: string;
+  content_warning?: ContentWarningCategory | null;
   created_at: string;
   user?: {
     id: string;
@@ -57,3 +112,54 @@ export interface Attachment {
   height?: number;
   mime?: string;
 }
+
+export type PostDraftStatus = 'draft' | 'scheduled' | 'published' | 'failed';
+
+export interface PostDraft {
+  id: string;
+  user_id: string;
+  body: string;
+  attachments: Attachment[];
+  content_warning: ContentWarningCategory | null;
+  status: PostDraftStatus;
+  scheduled_at: string | null; // ISO timestamp（予約投稿のみ）
+  published_post_id: string | null;
+  last_error: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PollOption {
+  id: string;
+  label: string;
+  position: number;
+  votes: number;
+  votedByMe: boolean;
+}
+
+export interface Poll {
+  post_id: string;
+  allows_multiple: boolean;
+  closes_at: string; // ISO timestamp
+  total_votes: number; // 複数選択では選択肢ごとの票の合計
+  voter_count: number;
+  options: PollOption[];
+}
+
+// 投稿作成時の入力
+export interface PollInput {
+  options: string[];
+  closes_at: string; // ISO timestamp
+  allows_multiple?: boolean;
+}
+
+export interface BookmarkCollection {
+  id: string;
+  name: string;
+  created_at: string;
+}
+
+export interface PostBookmark {
+  collection_id: string | null; // null は未分類
+  bookmarked_at: string; // ISO timestamp
+}
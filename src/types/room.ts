@@ -11,6 +11,8 @@
  */
 
 import { PublicUserProfile } from './auth';
+import { MessageReaction } from './chat';
+import { LinkPreview } from './post';
 
 // =====================================================
 // CORE SPACE TYPES
@@ -30,6 +32,9 @@ export interface Space {
   member_count: number;
   created_at: string;
   updated_at: string;
+  rules?: string | null;
+  welcome_message?: string | null;
+  screening_questions?: string[]; // 参加時の質問（空なら直接参加できる）
 }
 
 /**
@@ -75,9 +80,29 @@ export interface Channel {
   description: string | null;
   channel_type: 'text' | 'voice' | 'announcement';
   is_active: boolean;
+  position?: number; // スペース内の並び順（小さいほど上）
   created_at: string;
 }
 
+/**
+ * Channel in the space's channel switcher, with the caller's unread state
+ */
+export interface SpaceChannel extends Channel {
+  position: number;
+  member_role: 'owner' | 'moderator' | 'member' | null;
+  has_new: boolean;
+  unread_count: number;
+}
+
+/**
+ * Channel creation / update request (owner only)
+ */
+export interface SpaceChannelInput {
+  name: string;
+  channel_type?: 'text' | 'announcement';
+  description?: string | null;
+}
+
 /**
  * Channel member with role and status
  */
@@ -120,7 +145,7 @@ export interface RoomMessage {
   anonymous_room_id: string | null;
   sender_id: string;
   display_name: string | null; // For anonymous rooms
-  message_type: 'text' | 'image' | 'file' | 'system';
+  message_type: 'text' | 'image' | 'file' | 'system' | 'post_share' | 'event';
   content: string;
   attachments: any[];
   created_at: string;
@@ -130,6 +155,10 @@ export interface RoomMessage {
   is_edited: boolean;
   report_count: number;
   is_masked: boolean;
+  client_id?: string | null; // Outbox idempotency key (own messages only)
+  is_forwarded?: boolean; // Forwarded from another chat or channel
+  link_preview?: LinkPreview | null;
+  reactions?: MessageReaction[];
 }
 
 /**
@@ -147,8 +176,10 @@ export interface RoomMessageWithSender extends RoomMessage {
  */
 export interface SendMessageRequest {
   content: string;
-  message_type?: 'text' | 'image' | 'file';
+  message_type?: 'text' | 'image' | 'file' | 'post_share';
   attachments?: any[];
+  client_id?: string; // Idempotency key for outbox retries
+  is_forwarded?: boolean;
 }
 
 /**
@@ -216,6 +247,8 @@ export interface ChatListItem {
   space_name: string;
   space_is_public: boolean;
   channel_name: string;
+  channel_type: 'text' | 'voice' | 'announcement';
+  channel_position: number;
   member_role: 'owner' | 'moderator' | 'member';
   last_seen_at: string;
   latest_message_at: string | null;
@@ -251,6 +284,177 @@ export interface ReportMessageRequest {
   description?: string;
 }
 
+/**
+ * Action recorded in a space's moderation log
+ */
+export type SpaceModerationAction =
+  | 'promote'
+  | 'demote'
+  | 'kick'
+  | 'ban'
+  | 'unban'
+  | 'mute'
+  | 'unmute'
+  | 'delete_message';
+
+/**
+ * Space moderation log entry (visible to owner and moderators)
+ */
+export interface SpaceModerationLogEntry {
+  id: string;
+  action: SpaceModerationAction;
+  actor_id: string | null;
+  actor_username: string | null;
+  actor_display_name: string | null;
+  target_user_id: string | null;
+  target_username: string | null;
+  target_display_name: string | null;
+  message_id: string | null;
+  reason: string | null;
+  metadata: Record<string, unknown>;
+  created_at: string;
+}
+
+/**
+ * Banned or currently muted user of a space
+ */
+export interface SpaceRestriction {
+  kind: 'ban' | 'mute';
+  user_id: string;
+  username: string | null;
+  display_name: string | null;
+  avatar_emoji: string | null;
+  until: string | null; // ミュートの期限（BAN は null）
+  reason: string | null;
+  created_at: string;
+}
+
+// =====================================================
+// INVITE LINKS & JOIN REQUESTS
+// =====================================================
+
+export type SpaceInviteLinkStatus = 'valid' | 'expired' | 'used_up' | 'revoked';
+
+/**
+ * Shareable invite link of a space (owner only)
+ */
+export interface SpaceInviteLink {
+  id: string;
+  code: string;
+  requires_approval: boolean; // true なら参加リクエストになる
+  expires_at: string | null;
+  max_uses: number | null;
+  use_count: number;
+  status: SpaceInviteLinkStatus;
+  created_at: string;
+}
+
+export interface CreateInviteLinkRequest {
+  expires_in_hours: number | null; // null は無期限
+  max_uses?: number | null;
+  requires_approval?: boolean;
+}
+
+/**
+ * What someone opening an invite link sees
+ */
+export interface SpaceInvitePreview {
+  space_id: string;
+  name: string;
+  description: string | null;
+  is_public: boolean;
+  member_count: number;
+  max_members: number;
+  status: SpaceInviteLinkStatus;
+  requires_approval: boolean;
+  is_member: boolean;
+  request_status: SpaceJoinRequestStatus | null; // 自分の直近のリクエスト
+}
+
+export type SpaceJoinRequestStatus =
+  | 'pending'
+  | 'approved'
+  | 'rejected'
+  | 'cancelled';
+
+/**
+ * Pending join request shown to the space owner
+ */
+export interface SpaceJoinRequest {
+  id: string;
+  user_id: string;
+  username: string | null;
+  display_name: string | null;
+  avatar_emoji: string | null;
+  message: string | null;
+  answers: ScreeningAnswer[]; // 参加時の質問への回答
+  created_at: string;
+}
+
+// =====================================================
+// RULES & SCREENING
+// =====================================================
+
+export interface ScreeningAnswer {
+  question: string;
+  answer: string;
+}
+
+/**
+ * Rules, welcome message and screening questions of a space
+ */
+export interface SpaceRules {
+  rules: string | null;
+  welcome_message: string | null;
+  screening_questions: string[];
+  rules_updated_at: string | null;
+  accepted: boolean; // 最新のルールに同意済みか（ルールがなければ true）
+}
+
+export interface UpdateSpaceRulesRequest {
+  rules: string;
+  welcome_message: string;
+  screening_questions: string[];
+}
+
+// =====================================================
+// EVENTS
+// =====================================================
+
+export type SpaceEventRsvpStatus = 'going' | 'maybe' | 'not_going';
+
+/**
+ * Event in a space (playdate, online meetup, ...)
+ */
+export interface SpaceEvent {
+  id: string;
+  space_id: string;
+  channel_id: string | null; // イベントカードを投稿したチャンネル
+  created_by: string | null;
+  creator_name: string | null;
+  title: string;
+  description: string | null;
+  starts_at: string;
+  ends_at: string | null;
+  location: string | null;
+  is_online: boolean;
+  capacity: number | null; // null は定員なし
+  cancelled_at: string | null;
+  going_count: number;
+  maybe_count: number;
+  my_status: SpaceEventRsvpStatus | null;
+}
+
+export interface CreateSpaceEventRequest {
+  title: string;
+  description?: string;
+  starts_at: string;
+  ends_at?: string | null;
+  location?: string;
+  is_online: boolean;
+  capacity?: number | null;
+}
+
 // =====================================================
 // RATE LIMITING TYPES
 // =====================================================
@@ -443,6 +647,7 @@ export interface OptimisticRoomMessage extends RoomMessageWithSender {
   isOptimistic?: boolean;
   tempId?: string;
   error?: string;
+  sendStatus?: 'pending' | 'failed';
 }
 
 /**
@@ -0,0 +1,24 @@
+import {
+  contentWarningLabel,
+  isContentWarningCategory,
+  toContentWarning,
+} from '../contentWarnings';
+
+describe('contentWarnings', () => {
+  it('recognizes known categories only', () => {
+    expect(isContentWarningCategory('nicu')).toBe(true);
+    expect(isContentWarningCategory('spoiler')).toBe(false);
+  });
+
+  it('toContentWarning keeps null and collapses unknown values as other', () => {
+    expect(toContentWarning(null)).toBeNull();
+    expect(toContentWarning('')).toBeNull();
+    expect(toContentWarning('pregnancy_loss')).toBe('pregnancy_loss');
+    expect(toContentWarning('future_category')).toBe('other');
+  });
+
+  it('contentWarningLabel returns a Japanese label', () => {
+    expect(contentWarningLabel('mental_health')).toBe('産後うつ・メンタル');
+    expect(contentWarningLabel(null)).toBeNull();
+  });
+});
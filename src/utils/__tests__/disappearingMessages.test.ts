@@ -0,0 +1,49 @@
+import {
+  formatDisappearingTimer,
+  latestDisappearingSetting,
+  msUntilNextExpiry,
+  withoutExpiredMessages,
+} from '../disappearingMessages';
+
+const NOW = Date.parse('2026-10-20T00:00:00Z');
+
+describe('disappearingMessages utils', () => {
+  it('formats timer options', () => {
+    expect(formatDisappearingTimer(null)).toBe('オフ');
+    expect(formatDisappearingTimer(86400)).toBe('24時間');
+    expect(formatDisappearingTimer(604800)).toBe('7日');
+    expect(formatDisappearingTimer(7776000)).toBe('90日');
+  });
+
+  it('drops expired messages and keeps the list when nothing expired', () => {
+    const messages = [
+      { id: 'a', expires_at: '2026-10-19T23:59:59Z' },
+      { id: 'b', expires_at: '2026-10-20T00:01:00Z' },
+      { id: 'c', expires_at: null },
+    ];
+    const visible = withoutExpiredMessages(messages, NOW);
+    expect(visible.map(m => m.id)).toEqual(['b', 'c']);
+    expect(withoutExpiredMessages(visible, NOW)).toBe(visible);
+    expect(msUntilNextExpiry(messages, NOW)).toBe(60 * 1000);
+    expect(msUntilNextExpiry([{ expires_at: null }], NOW)).toBeNull();
+  });
+
+  it('reads the latest timer change from system messages', () => {
+    const event = (
+      created_at: string,
+      disappearing_seconds: number | null
+    ) => ({
+      created_at,
+      metadata: { disappearing_seconds },
+    });
+    expect(
+      latestDisappearingSetting([{ created_at: 'x', metadata: null }])
+    ).toBeUndefined();
+    expect(
+      latestDisappearingSetting([
+        event('2026-10-19T02:00:00Z', null),
+        event('2026-10-19T01:00:00Z', 604800),
+      ])
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,40 @@
+import { displayHost, extractFirstUrl, toLinkPreview } from '../linkPreview';
+
+describe('linkPreview utils', () => {
+  it('extracts the first URL and trims trailing punctuation', () => {
+    expect(
+      extractFirstUrl('見て https://example.com/a?b=1。ほか http://x.jp')
+    ).toBe('https://example.com/a?b=1');
+    expect(extractFirstUrl('(https://example.com/path).')).toBe(
+      'https://example.com/path'
+    );
+    expect(extractFirstUrl('URLなし')).toBeNull();
+    expect(extractFirstUrl(null)).toBeNull();
+  });
+
+  it('shows the host without www', () => {
+    expect(displayHost('https://www.Example.com/a')).toBe('example.com');
+    expect(displayHost('http://news.example.jp:80?x')).toBe(
+      'news.example.jp:80'
+    );
+  });
+
+  it('accepts only previews with an http(s) url and a title', () => {
+    expect(
+      toLinkPreview({
+        url: 'https://example.com',
+        title: 'Example',
+        image_url: 'javascript:alert(1)',
+      })
+    ).toEqual({
+      url: 'https://example.com',
+      title: 'Example',
+      description: null,
+      image_url: null,
+      site_name: null,
+    });
+    expect(toLinkPreview({ url: 'https://example.com' })).toBeNull();
+    expect(toLinkPreview({ url: 'file:///etc/passwd', title: 'x' })).toBeNull();
+    expect(toLinkPreview(null)).toBeNull();
+  });
+});
@@ -0,0 +1,59 @@
+import {
+  applyReactionChange,
+  groupReactions,
+  hasReacted,
+  withReaction,
+} from '../messageReactions';
+
+const r = (user_id: string, emoji: string, created_at: string) => ({
+  message_id: 'm1',
+  user_id,
+  emoji,
+  created_at,
+});
+
+describe('messageReactions utils', () => {
+  it('groups by emoji in order of first use', () => {
+    const chips = groupReactions(
+      [
+        r('bob', '😂', '2026-10-01T00:00:02Z'),
+        r('me', '💛', '2026-10-01T00:00:01Z'),
+        r('bob', '💛', '2026-10-01T00:00:03Z'),
+      ],
+      'me'
+    );
+    expect(chips).toEqual([
+      { emoji: '💛', count: 2, reactedByMe: true, userIds: ['me', 'bob'] },
+      { emoji: '😂', count: 1, reactedByMe: false, userIds: ['bob'] },
+    ]);
+  });
+
+  it('ignores duplicate reactions from realtime and optimistic updates', () => {
+    const first = withReaction([], r('me', '👍', '2026-10-01T00:00:00Z'));
+    const again = withReaction(first, r('me', '👍', '2026-10-01T00:00:05Z'));
+    expect(again).toBe(first);
+    expect(hasReacted(again, 'me', '👍')).toBe(true);
+    expect(hasReacted(again, 'me', '😢')).toBe(false);
+  });
+
+  it('updates only the target message and keeps the list when nothing changes', () => {
+    const messages = [
+      { id: 'm1', reactions: [r('bob', '🙏', '2026-10-01T00:00:00Z')] },
+      { id: 'm2' },
+    ];
+    const removed = applyReactionChange(
+      messages,
+      r('bob', '🙏', '2026-10-01T00:00:00Z'),
+      'removed'
+    );
+    expect(removed[0]!.reactions).toEqual([]);
+    expect(removed[1]).toBe(messages[1]);
+
+    const unknown = applyReactionChange(
+      messages,
+      { ...r('bob', '🙏', ''), message_id: 'missing' },
+      'added'
+    );
+    expect(unknown).toBe(messages);
+  });
+});
@@ -0,0 +1,54 @@
+import {
+  applyMyReaction,
+  nextReactionFor,
+  toReactionSummary,
+} from '../postReactions';
+
+describe('postReactions utils', () => {
+  it('builds summary from v2 feed row with kinds', () => {
+    const s = toReactionSummary({
+      reaction_count: 3,
+      reaction_counts: { support: 2, hug: 1, unknown: 5 },
+      my_reaction: 'hug',
+      is_liked: true,
+    });
+    expect(s).toEqual({
+      count: 3,
+      reactedByMe: true,
+      byKind: { support: 2, hug: 1 },
+      myReaction: 'hug',
+    });
+  });
+
+  it('falls back to default kind for legacy rows', () => {
+    const s = toReactionSummary({ reaction_count: 1 }, true);
+    expect(s.reactedByMe).toBe(true);
+    expect(s.myReaction).toBe('support');
+  });
+
+  it('switches kind without changing total count', () => {
+    const base = {
+      count: 2,
+      reactedByMe: true,
+      byKind: { support: 2 },
+      myReaction: 'support' as const,
+    };
+    const s = applyMyReaction(base, 'congrats');
+    expect(s.count).toBe(2);
+    expect(s.byKind).toEqual({ support: 1, congrats: 1 });
+    expect(s.myReaction).toBe('congrats');
+  });
+
+  it('removes reaction when tapping the current kind', () => {
+    const base = {
+      count: 1,
+      reactedByMe: true,
+      byKind: { metoo: 1 },
+      myReaction: 'metoo' as const,
+    };
+    const next = nextReactionFor(base, 'metoo');
+    expect(next).toBeNull();
+    const s = applyMyReaction(base, next);
+    expect(s).toMatchObject({ count: 0, reactedByMe: false, myReaction: null });
+  });
+});
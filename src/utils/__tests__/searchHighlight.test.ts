@@ -0,0 +1,34 @@
+import { highlightSegments, messageSnippet } from '../searchHighlight';
+
+describe('searchHighlight', () => {
+  it('marks every occurrence of each term, ignoring case', () => {
+    expect(highlightSegments('Zoom の後で zoom 会議', 'ZOOM 会議')).toEqual([
+      { text: 'Zoom', match: true },
+      { text: ' の後で ', match: false },
+      { text: 'zoom', match: true },
+      { text: ' ', match: false },
+      { text: '会議', match: true },
+    ]);
+  });
+
+  it('prefers the longer term when terms overlap', () => {
+    expect(highlightSegments('夜泣き対策', '夜 夜泣き')).toEqual([
+      { text: '夜泣き', match: true },
+      { text: '対策', match: false },
+    ]);
+  });
+
+  it('returns the text as a single plain segment without terms', () => {
+    expect(highlightSegments('こんにちは', '  ')).toEqual([
+      { text: 'こんにちは', match: false },
+    ]);
+    expect(highlightSegments('', '夜')).toEqual([]);
+  });
+
+  it('cuts a snippet around the first hit', () => {
+    const text = 'あ'.repeat(50) + '離乳食' + 'い'.repeat(50);
+    const snippet = messageSnippet(text, '離乳食', 5);
+    expect(snippet).toBe('…あああああ離乳食いいいいいいい…');
+    expect(messageSnippet('短い\n文', '文')).toBe('短い 文');
+  });
+});
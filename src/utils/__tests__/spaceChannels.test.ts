@@ -0,0 +1,104 @@
+import { ChatListItem } from '../../types/room';
+import {
+  canPostInChannel,
+  groupChatListBySpace,
+  moveItem,
+  validateChannelName,
+} from '../spaceChannels';
+
+const row = (
+  channel_id: string,
+  space_id: string,
+  overrides: Partial<ChatListItem> = {}
+): ChatListItem => ({
+  channel_id,
+  space_id,
+  space_name: `space-${space_id}`,
+  space_is_public: true,
+  channel_name: channel_id,
+  channel_type: 'text',
+  channel_position: 0,
+  member_role: 'member',
+  last_seen_at: '2026-10-01T00:00:00Z',
+  latest_message_at: null,
+  latest_message_content: null,
+  latest_message_sender_id: null,
+  latest_message_sender_username: null,
+  has_new: false,
+  unread_count: 0,
+  ...overrides,
+});
+
+describe('spaceChannels utils', () => {
+  it('lets only owners and moderators post in announcement channels', () => {
+    const announcement = {
+      channel_type: 'announcement' as const,
+      is_active: true,
+    };
+    expect(canPostInChannel(announcement, 'owner')).toBe(true);
+    expect(canPostInChannel(announcement, 'moderator')).toBe(true);
+    expect(canPostInChannel(announcement, 'member')).toBe(false);
+    expect(
+      canPostInChannel({ channel_type: 'text', is_active: true }, 'member')
+    ).toBe(true);
+    expect(
+      canPostInChannel({ channel_type: 'text', is_active: false }, 'owner')
+    ).toBe(false);
+  });
+
+  it('validates channel names case-insensitively against existing ones', () => {
+    expect(validateChannelName('  ')).toBe('チャンネル名を入力してください');
+    expect(validateChannelName('a'.repeat(51))).toContain('50文字以内');
+    expect(validateChannelName('General', ['general'])).toBe(
+      '同じ名前のチャンネルがあります'
+    );
+    expect(validateChannelName('sleep', ['general'])).toBeNull();
+  });
+
+  it('moves items and ignores out-of-range moves', () => {
+    const list = ['a', 'b', 'c'];
+    expect(moveItem(list, 2, 0)).toEqual(['c', 'a', 'b']);
+    expect(moveItem(list, 0, 1)).toEqual(['b', 'a', 'c']);
+    expect(moveItem(list, 0, 3)).toBe(list);
+  });
+
+  it('groups channels by space, summing unread counts and opening the latest channel', () => {
+    const grouped = groupChatListBySpace([
+      row('sleep', 's1', {
+        channel_position: 1,
+        latest_message_at: '2026-10-02T00:00:00Z',
+        latest_message_content: 'おやすみ',
+        has_new: true,
+        unread_count: 3,
+      }),
+      row('other', 's2'),
+      row('general', 's1', {
+        latest_message_at: '2026-10-01T00:00:00Z',
+        unread_count: 0,
+      }),
+      row('news', 's1', {
+        channel_position: 2,
+        has_new: true,
+        unread_count: 2,
+      }),
+    ]);
+    expect(grouped).toHaveLength(2);
+    expect(grouped[0]).toMatchObject({
+      space_id: 's1',
+      channel_id: 'sleep',
+      channel_count: 3,
+      latest_message_content: 'おやすみ',
+      has_new: true,
+      unread_count: 5,
+    });
+    expect(grouped[1]).toMatchObject({ space_id: 's2', channel_id: 'other' });
+  });
+
+  it('opens the first channel in order when a space has no messages yet', () => {
+    const grouped = groupChatListBySpace([
+      row('news', 's1', { channel_position: 1 }),
+      row('general', 's1', { channel_position: 0 }),
+    ]);
+    expect(grouped[0]?.channel_id).toBe('general');
+  });
+});
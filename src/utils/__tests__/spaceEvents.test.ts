@@ -0,0 +1,148 @@
+import { SpaceEvent } from '../../types/room';
+import {
+  buildEventIcs,
+  eventIdFromAttachments,
+  eventReminderAt,
+  eventStartAt,
+  formatEventTime,
+  isEventFull,
+  validateSpaceEvent,
+} from '../spaceEvents';
+
+const event = (overrides: Partial<SpaceEvent>): SpaceEvent => ({
+  id: 'e1',
+  space_id: 's1',
+  channel_id: 'c1',
+  created_by: 'u1',
+  creator_name: 'あいママ',
+  title: '公園で外遊び',
+  description: null,
+  starts_at: '2026-10-20T01:00:00.000Z',
+  ends_at: null,
+  location: '中央公園',
+  is_online: false,
+  capacity: null,
+  cancelled_at: null,
+  going_count: 1,
+  maybe_count: 0,
+  my_status: null,
+  ...overrides,
+});
+
+describe('spaceEvents utils', () => {
+  it('reads the event id from the card and formats the time in local time', () => {
+    expect(
+      eventIdFromAttachments([
+        { type: 'post', post_id: 'p1' },
+        { type: 'event', event_id: 'e1' },
+      ])
+    ).toBe('e1');
+    expect(eventIdFromAttachments([{ url: 'https://x/y.png' }])).toBeNull();
+
+    const start = eventStartAt(1, 10 * 60 + 30, new Date(2026, 9, 19, 15, 0));
+    expect(start.getDate()).toBe(20);
+    expect(start.getHours()).toBe(10);
+    expect(start.getMinutes()).toBe(30);
+    const end = new Date(start.getTime() + 2 * 3600000);
+    expect(
+      formatEventTime({
+        starts_at: start.toISOString(),
+        ends_at: end.toISOString(),
+      })
+    ).toBe('10月20日(火) 10:30〜12:30');
+  });
+
+  it('validates the form and capacity', () => {
+    const now = new Date('2026-10-19T00:00:00Z');
+    const base = {
+      title: 'お茶会',
+      starts_at: '2026-10-20T01:00:00Z',
+      is_online: false,
+      location: '駅前カフェ',
+    };
+    expect(validateSpaceEvent(base, now)).toBeNull();
+    expect(validateSpaceEvent({ ...base, title: ' ' }, now)).toBe(
+      'タイトルは1〜100文字で入力してください'
+    );
+    expect(
+      validateSpaceEvent({ ...base, starts_at: '2026-10-18T00:00:00Z' }, now)
+    ).toBe('開始時刻は今より後にしてください');
+    expect(validateSpaceEvent({ ...base, location: '' }, now)).toBe(
+      '場所を入力するか、オンラインを選んでください'
+    );
+    expect(
+      validateSpaceEvent({ ...base, location: '', is_online: true }, now)
+    ).toBeNull();
+    expect(validateSpaceEvent({ ...base, capacity: 0 }, now)).toBe(
+      '定員は1〜1000人で入力してください'
+    );
+
+    expect(isEventFull(event({ capacity: 3, going_count: 3 }))).toBe(true);
+    expect(
+      isEventFull(event({ capacity: 3, going_count: 3, my_status: 'going' }))
+    ).toBe(false);
+  });
+
+  it('schedules reminders only for attendees before the reminder time', () => {
+    const now = new Date('2026-10-19T00:00:00Z');
+    expect(
+      eventReminderAt(event({ my_status: 'going' }), now)?.toISOString()
+    ).toBe('2026-10-20T00:00:00.000Z');
+    expect(eventReminderAt(event({ my_status: 'maybe' }), now)).not.toBeNull();
+    expect(eventReminderAt(event({ my_status: 'not_going' }), now)).toBeNull();
+    expect(
+      eventReminderAt(
+        event({ my_status: 'going', cancelled_at: '2026-10-19T00:00:00Z' }),
+        now
+      )
+    ).toBeNull();
+    expect(
+      eventReminderAt(
+        event({ my_status: 'going' }),
+        new Date('2026-10-20T00:30:00Z')
+      )
+    ).toBeNull();
+  });
+
+  it('builds an .ics file for a single event', () => {
+    const ics = buildEventIcs(
+      event({
+        title: 'お茶会; 持ち物, なし',
+        description: '1行目\n2行目',
+        is_online: true,
+        location: 'Zoom',
+      }),
+      '早産児ママの部屋',
+      new Date('2026-10-19T00:00:00Z')
+    );
+    const lines = ics.split('\r\n');
+    expect(lines[0]).toBe('BEGIN:VCALENDAR');
+    expect(lines).toContain('UID:e1@mamapace');
+    expect(lines).toContain('DTSTAMP:20261019T000000Z');
+    expect(lines).toContain('DTSTART:20261020T010000Z');
+    // 終了時刻がなければ 1 時間
+    expect(lines).toContain('DTEND:20261020T020000Z');
+    expect(lines).toContain('SUMMARY:お茶会\\; 持ち物\\, なし');
+    expect(lines).toContain(
+      'DESCRIPTION:1行目\\n2行目\\nルーム: 早産児ママの部屋'
+    );
+    expect(lines).toContain('LOCATION:オンライン・Zoom');
+    expect(lines).toContain('STATUS:CONFIRMED');
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+  });
+
+  it('folds long lines at 75 octets without splitting characters', () => {
+    const ics = buildEventIcs(
+      event({ title: 'あ'.repeat(60) }),
+      undefined,
+      new Date('2026-10-19T00:00:00Z')
+    );
+    ics.split('\r\n').forEach(line => {
+      expect(Buffer.byteLength(line, 'utf8')).toBeLessThanOrEqual(75);
+    });
+    // 折り返しを戻すと元の 1 行になる
+    expect(ics.replace(/\r\n /g, '')).toContain(
+      `SUMMARY:${'あ'.repeat(60)}\r\n`
+    );
+  });
+});
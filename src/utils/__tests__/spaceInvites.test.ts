@@ -0,0 +1,60 @@
+import { describeInviteLink, parseInviteCode } from '../spaceInvites';
+
+describe('spaceInvites utils', () => {
+  it('parses invite codes from app and Expo Go deep links', () => {
+    expect(parseInviteCode('mamapace://invite/a1b2c3d4e5f6')).toBe(
+      'a1b2c3d4e5f6'
+    );
+    expect(
+      parseInviteCode('exp://192.168.0.2:8081/--/invite/abcdef123456')
+    ).toBe('abcdef123456');
+    expect(parseInviteCode('mamapace://invite/abcdef123456?ref=dm')).toBe(
+      'abcdef123456'
+    );
+    expect(
+      parseInviteCode('mamapace://auth-callback#access_token=x')
+    ).toBeNull();
+    expect(parseInviteCode('mamapace://invite/ab')).toBeNull();
+    expect(parseInviteCode(null)).toBeNull();
+  });
+
+  it('describes remaining time, uses and approval', () => {
+    const now = new Date('2026-10-01T00:00:00Z');
+    expect(
+      describeInviteLink(
+        {
+          status: 'valid',
+          expires_at: '2026-10-04T01:00:00Z',
+          max_uses: 10,
+          use_count: 3,
+          requires_approval: true,
+        },
+        now
+      )
+    ).toBe('あと3日・残り7回・承認制');
+    expect(
+      describeInviteLink(
+        {
+          status: 'valid',
+          expires_at: '2026-10-01T05:30:00Z',
+          max_uses: null,
+          use_count: 2,
+          requires_approval: false,
+        },
+        now
+      )
+    ).toBe('あと6時間・2人が参加');
+    expect(
+      describeInviteLink(
+        {
+          status: 'used_up',
+          expires_at: null,
+          max_uses: 1,
+          use_count: 1,
+          requires_approval: false,
+        },
+        now
+      )
+    ).toBe('上限に達しました');
+  });
+});
@@ -0,0 +1,59 @@
+import { SpaceModerationLogEntry } from '../../types/room';
+import {
+  canModerateMember,
+  describeModerationEntry,
+  isSpaceModerator,
+} from '../spaceModeration';
+
+const entry = (
+  overrides: Partial<SpaceModerationLogEntry>
+): SpaceModerationLogEntry => ({
+  id: 'l1',
+  action: 'ban',
+  actor_id: 'u1',
+  actor_username: 'sakura',
+  actor_display_name: 'さくら',
+  target_user_id: 'u2',
+  target_username: 'taro',
+  target_display_name: null,
+  message_id: null,
+  reason: null,
+  metadata: {},
+  created_at: '2026-10-01T00:00:00Z',
+  ...overrides,
+});
+
+describe('spaceModeration utils', () => {
+  it('lets owners and moderators act only on lower roles', () => {
+    expect(canModerateMember('owner', 'moderator')).toBe(true);
+    expect(canModerateMember('owner', 'member')).toBe(true);
+    expect(canModerateMember('moderator', 'member')).toBe(true);
+    expect(canModerateMember('moderator', 'moderator')).toBe(false);
+    expect(canModerateMember('moderator', 'owner')).toBe(false);
+    expect(canModerateMember('member', 'member')).toBe(false);
+    expect(canModerateMember('owner', 'member', true)).toBe(false);
+    expect(canModerateMember(null, 'member')).toBe(false);
+    expect(isSpaceModerator('moderator')).toBe(true);
+    expect(isSpaceModerator('member')).toBe(false);
+  });
+
+  it('describes log entries with names and mute durations', () => {
+    expect(describeModerationEntry(entry({}))).toBe(
+      'さくらさんがtaroさんをBANしました'
+    );
+    expect(
+      describeModerationEntry(
+        entry({ action: 'mute', metadata: { minutes: 60 } })
+      )
+    ).toBe('さくらさんがtaroさんをミュートしました（1時間）');
+    expect(
+      describeModerationEntry(
+        entry({
+          action: 'delete_message',
+          target_username: null,
+          metadata: { channel_id: 'c1' },
+        })
+      )
+    ).toBe('さくらさんが退会したユーザーのメッセージを削除しました');
+  });
+});
@@ -0,0 +1,56 @@
+import { SpaceRules } from '../../types/room';
+import {
+  hasJoinGuidance,
+  needsRulesAcceptance,
+  validateScreeningAnswers,
+  validateSpaceRules,
+} from '../spaceRules';
+
+const rules = (overrides: Partial<SpaceRules>): SpaceRules => ({
+  rules: null,
+  welcome_message: null,
+  screening_questions: [],
+  rules_updated_at: null,
+  accepted: true,
+  ...overrides,
+});
+
+describe('spaceRules utils', () => {
+  it('tells whether there is anything to show before joining or posting', () => {
+    expect(hasJoinGuidance(rules({}))).toBe(false);
+    expect(hasJoinGuidance(rules({ welcome_message: 'ようこそ' }))).toBe(true);
+    expect(hasJoinGuidance(rules({ screening_questions: ['月齢は？'] }))).toBe(
+      true
+    );
+    expect(needsRulesAcceptance(rules({ rules: '  ', accepted: false }))).toBe(
+      false
+    );
+    expect(
+      needsRulesAcceptance(
+        rules({ rules: '医療相談はしない', accepted: false })
+      )
+    ).toBe(true);
+    expect(needsRulesAcceptance(null)).toBe(false);
+  });
+
+  it('validates answers and owner input', () => {
+    expect(
+      validateScreeningAnswers(['月齢は？', '出生体重は？'], ['3か月'])
+    ).toBe('質問にすべて回答してください');
+    expect(validateScreeningAnswers(['月齢は？'], [' 3か月 '])).toBeNull();
+    expect(
+      validateSpaceRules({
+        rules: 'ルール',
+        welcome_message: '',
+        screening_questions: ['1', '2', '3', '4', '5', '6'],
+      })
+    ).toBe('参加時の質問は5つまでです');
+    expect(
+      validateSpaceRules({
+        rules: '',
+        welcome_message: '',
+        screening_questions: ['', '月齢は？'],
+      })
+    ).toBeNull();
+  });
+});
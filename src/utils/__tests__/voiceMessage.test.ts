@@ -0,0 +1,41 @@
+import {
+  compressWaveform,
+  formatVoiceDuration,
+  meteringToLevel,
+  nextPlaybackRate,
+  normalizeWaveform,
+} from '../voiceMessage';
+
+describe('voiceMessage', () => {
+  it('メータリングの dB を 0..1 に変換する', () => {
+    expect(meteringToLevel(0)).toBe(1);
+    expect(meteringToLevel(-30)).toBe(0.5);
+    expect(meteringToLevel(-120)).toBe(0);
+    expect(meteringToLevel(5)).toBe(1);
+    expect(meteringToLevel(undefined)).toBe(0);
+  });
+
+  it('波形を指定本数の平均にまとめる', () => {
+    expect(compressWaveform([0, 1, 0.5, 0.5], 2)).toEqual([0.5, 0.5]);
+    expect(compressWaveform([0.123, 0.456], 4)).toEqual([0.12, 0.46]);
+    expect(compressWaveform(Array(100).fill(0.3))).toHaveLength(32);
+  });
+
+  it('壊れた波形は範囲内に丸め、空なら平らな波形にする', () => {
+    expect(normalizeWaveform([2, -1, 'x', 0.4])).toEqual([1, 0, 0.4]);
+    expect(normalizeWaveform(undefined, 3)).toEqual([0.15, 0.15, 0.15]);
+  });
+
+  it('再生時間を m:ss で表示する', () => {
+    expect(formatVoiceDuration(0)).toBe('0:00');
+    expect(formatVoiceDuration(65_400)).toBe('1:05');
+    expect(formatVoiceDuration(undefined)).toBe('0:00');
+  });
+
+  it('再生速度は 1x → 1.5x → 2x → 1x と切り替わる', () => {
+    expect(nextPlaybackRate(1)).toBe(1.5);
+    expect(nextPlaybackRate(1.5)).toBe(2);
+    expect(nextPlaybackRate(2)).toBe(1);
+    expect(nextPlaybackRate(3)).toBe(1);
+  });
+});
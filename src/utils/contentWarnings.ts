@@ -0,0 +1,38 @@
+import { ContentWarningCategory } from '../types/post';
+
+export const CONTENT_WARNING_OPTIONS: {
+  category: ContentWarningCategory;
+  label: string;
+}[] = [
+  { category: 'pregnancy_loss', label: '流産・死産' },
+  { category: 'mental_health', label: '産後うつ・メンタル' },
+  { category: 'nicu', label: 'NICU・入院' },
+  { category: 'medical', label: '医療・出産の描写' },
+  { category: 'other', label: 'その他センシティブ' },
+];
+
+export function isContentWarningCategory(
+  v: unknown
+): v is ContentWarningCategory {
+  return CONTENT_WARNING_OPTIONS.some(o => o.category === v);
+}
+
+/** DB の値をカテゴリに変換（未知の値は other として扱い、必ず折りたたむ） */
+export function toContentWarning(v: unknown): ContentWarningCategory | null {
+  if (v === null || v === undefined || v === '') {
+    return null;
+  }
+  return isContentWarningCategory(v) ? v : 'other';
+}
+
+export function contentWarningLabel(
+  category: ContentWarningCategory | null | undefined
+): string | null {
+  if (!category) {
+    return null;
+  }
+  return (
+    CONTENT_WARNING_OPTIONS.find(o => o.category === category)?.label ??
+    'センシティブな内容'
+  );
+}
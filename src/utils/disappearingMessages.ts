@@ -0,0 +1,78 @@
+import { Message } from '../types/chat';
+
+const DAY = 24 * 60 * 60;
+
+/** 選べるタイマー（秒）。null はオフ。サーバー側の CHECK 制約と揃えること */
+export const DISAPPEARING_TIMER_OPTIONS: (number | null)[] = [
+  null,
+  DAY,
+  7 * DAY,
+  90 * DAY,
+];
+
+export function formatDisappearingTimer(seconds: number | null | undefined) {
+  if (!seconds) {
+    return 'オフ';
+  }
+  if (seconds % DAY !== 0) {
+    return `${Math.round(seconds / 3600)}時間`;
+  }
+  const days = seconds / DAY;
+  return days === 1 ? '24時間' : `${days}日`;
+}
+
+export function isMessageExpired(
+  message: Pick<Message, 'expires_at'>,
+  now: number = Date.now()
+): boolean {
+  return message.expires_at
+    ? new Date(message.expires_at).getTime() <= now
+    : false;
+}
+
+/** 期限切れを除く。何も消えなければ同じ配列を返す（再描画を避ける） */
+export function withoutExpiredMessages<T extends Pick<Message, 'expires_at'>>(
+  messages: T[],
+  now: number = Date.now()
+): T[] {
+  return messages.some(m => isMessageExpired(m, now))
+    ? messages.filter(m => !isMessageExpired(m, now))
+    : messages;
+}
+
+/** 次に期限が来るメッセージまでのミリ秒（なければ null） */
+export function msUntilNextExpiry(
+  messages: Pick<Message, 'expires_at'>[],
+  now: number = Date.now()
+): number | null {
+  let next: number | null = null;
+  for (const m of messages) {
+    if (!m.expires_at) {
+      continue;
+    }
+    const at = new Date(m.expires_at).getTime();
+    if (at > now && (next === null || at < next)) {
+      next = at;
+    }
+  }
+  return next === null ? null : next - now;
+}
+
+/**
+ * 直近の設定変更システムメッセージからタイマーを読む。
+ * 見つからなければ undefined（会話側の設定を使う）
+ */
+export function latestDisappearingSetting(
+  messages: Pick<Message, 'created_at' | 'metadata'>[]
+): number | null | undefined {
+  let latest: Pick<Message, 'created_at' | 'metadata'> | undefined;
+  for (const m of messages) {
+    if (
+      m.metadata?.disappearing_seconds !== undefined &&
+      (!latest || m.created_at > latest.created_at)
+    ) {
+      latest = m;
+    }
+  }
+  return latest ? (latest.metadata?.disappearing_seconds ?? null) : undefined;
+}
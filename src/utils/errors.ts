@@ -5,7 +5,45 @@ export type ServiceErrorCode =
   | 'BLOCK_LIST_FAILED'
   | 'BLOCK_CHECK_FAILED'
   | 'REPORT_INVALID_INPUT'
-  | 'REPORT_INSERT_FAILED';
+  | 'REPORT_INSERT_FAILED'
+  | 'DRAFT_INVALID_INPUT'
+  | 'DRAFT_LIST_FAILED'
+  | 'DRAFT_SAVE_FAILED'
+  | 'DRAFT_DELETE_FAILED'
+  | 'POLL_INVALID_INPUT'
+  | 'POLL_FETCH_FAILED'
+  | 'POLL_VOTE_FAILED'
+  | 'MUTE_INVALID_INPUT'
+  | 'MUTE_LIST_FAILED'
+  | 'MUTE_SAVE_FAILED'
+  | 'MUTE_DELETE_FAILED'
+  | 'BOOKMARK_INVALID_INPUT'
+  | 'BOOKMARK_LIST_FAILED'
+  | 'BOOKMARK_SAVE_FAILED'
+  | 'BOOKMARK_DELETE_FAILED'
+  | 'POST_EDIT_INVALID_INPUT'
+  | 'POST_EDIT_WINDOW_CLOSED'
+  | 'POST_EDIT_FAILED'
+  | 'POST_EDIT_HISTORY_FAILED'
+  | 'POST_SHARE_FAILED'
+  | 'POST_SHARE_PREVIEW_FAILED'
+  | 'E2E_UNAVAILABLE'
+  | 'E2E_KEY_FAILED'
+  | 'E2E_NO_RECIPIENT_KEYS'
+  | 'E2E_TOGGLE_FAILED'
+  | 'REACTION_INVALID_INPUT'
+  | 'REACTION_FETCH_FAILED'
+  | 'REACTION_SAVE_FAILED'
+  | 'REACTION_DELETE_FAILED'
+  | 'PIN_LIMIT_REACHED'
+  | 'PIN_FETCH_FAILED'
+  | 'PIN_SAVE_FAILED'
+  | 'PIN_DELETE_FAILED'
+  | 'FORWARD_UNSUPPORTED'
+  | 'FORWARD_FAILED'
+  | 'LINK_PREVIEW_FAILED'
+  | 'CHAT_EXPORT_FAILED'
+  | 'EVENT_EXPORT_FAILED';
 
 export class ServiceError extends Error {
   public code: ServiceErrorCode;
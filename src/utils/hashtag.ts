@@ -22,3 +22,14 @@ export function extractHashtagsFromText(body: string): string[] {
   }
   return Array.from(found);
 }
+
+/**
+ * Normalize a single hashtag term typed by the user (without the leading '#').
+ * Same character rules as extractHashtagsFromText. Returns '' when nothing remains.
+ */
+export function normalizeHashtag(raw: string): string {
+  const normalized = (raw || '').normalize('NFKC');
+  return (normalized.match(/[\p{L}\p{N}_ー・]+/gu)?.join('') || '')
+    .trim()
+    .slice(0, 48);
+}
@@ -0,0 +1,48 @@
+import { LinkPreview } from '../types/post';
+
+// サーバーの link-preview 関数と同じ規則で本文中の URL を拾う
+const URL_RE = /https?:\/\/[^\s<>"'「」『』（）、。]+/i;
+const TRAILING_PUNCT_RE = /[)\]}.,!?;:！？]+$/;
+
+/** 本文中の最初の http(s) URL（末尾の句読点は除く）。無ければ null */
+export function extractFirstUrl(
+  text: string | null | undefined
+): string | null {
+  const m = URL_RE.exec(text || '');
+  if (!m) {
+    return null;
+  }
+  const url = m[0].replace(TRAILING_PUNCT_RE, '');
+  return url.length > 'https://'.length ? url : null;
+}
+
+/** カードに出すドメイン表記（www. は省く） */
+export function displayHost(url: string): string {
+  const m = /^https?:\/\/([^/?#]+)/i.exec(url);
+  const host = (m?.[1] ?? url).replace(/^[^@]*@/, '').toLowerCase();
+  return host.replace(/^www\./, '');
+}
+
+/** jsonb から読んだ値をプレビューとして扱えるものだけに絞る */
+export function toLinkPreview(value: unknown): LinkPreview | null {
+  if (!value || typeof value !== 'object') {
+    return null;
+  }
+  const v = value as Record<string, unknown>;
+  if (typeof v.url !== 'string' || !/^https?:\/\//i.test(v.url)) {
+    return null;
+  }
+  const str = (x: unknown) => (typeof x === 'string' && x ? x : null);
+  const title = str(v.title);
+  if (!title) {
+    return null;
+  }
+  const image = str(v.image_url);
+  return {
+    url: v.url,
+    title,
+    description: str(v.description),
+    image_url: image && /^https?:\/\//i.test(image) ? image : null,
+    site_name: str(v.site_name),
+  };
+}
@@ -0,0 +1,105 @@
+import { MessageReaction } from '../types/chat';
+
+/** 長押しメニューにすぐ出す絵文字（それ以外は EmojiPicker から選ぶ） */
+export const QUICK_MESSAGE_REACTIONS = ['💛', '👍', '😂', '😢', '🙏', '🎉'];
+
+export type ReactionChip = {
+  emoji: string;
+  count: number;
+  reactedByMe: boolean;
+  userIds: string[];
+};
+
+function sameReaction(
+  a: Pick<MessageReaction, 'user_id' | 'emoji'>,
+  b: Pick<MessageReaction, 'user_id' | 'emoji'>
+): boolean {
+  return a.user_id === b.user_id && a.emoji === b.emoji;
+}
+
+/** 絵文字ごとにまとめる。最初に付いた絵文字から順に並べる */
+export function groupReactions(
+  reactions: MessageReaction[] | undefined,
+  myUserId: string | null | undefined
+): ReactionChip[] {
+  const chips = new Map<string, ReactionChip & { firstAt: string }>();
+  for (const r of reactions || []) {
+    const chip = chips.get(r.emoji);
+    if (chip) {
+      chip.count += 1;
+      chip.userIds.push(r.user_id);
+      chip.reactedByMe = chip.reactedByMe || r.user_id === myUserId;
+      if (r.created_at < chip.firstAt) {
+        chip.firstAt = r.created_at;
+      }
+    } else {
+      chips.set(r.emoji, {
+        emoji: r.emoji,
+        count: 1,
+        reactedByMe: r.user_id === myUserId,
+        userIds: [r.user_id],
+        firstAt: r.created_at,
+      });
+    }
+  }
+  return Array.from(chips.values())
+    .sort((a, b) => a.firstAt.localeCompare(b.firstAt))
+    .map(({ firstAt: _firstAt, ...chip }) => chip);
+}
+
+export function hasReacted(
+  reactions: MessageReaction[] | undefined,
+  userId: string,
+  emoji: string
+): boolean {
+  return (reactions || []).some(r =>
+    sameReaction(r, { user_id: userId, emoji })
+  );
+}
+
+/** リアクションを足す（realtime と楽観的更新の両方から届くので重複は無視） */
+export function withReaction(
+  reactions: MessageReaction[] | undefined,
+  reaction: MessageReaction
+): MessageReaction[] {
+  const list = reactions || [];
+  if (list.some(r => sameReaction(r, reaction))) {
+    return list;
+  }
+  return [...list, reaction];
+}
+
+export function withoutReaction(
+  reactions: MessageReaction[] | undefined,
+  reaction: Pick<MessageReaction, 'user_id' | 'emoji'>
+): MessageReaction[] {
+  const list = reactions || [];
+  return list.some(r => sameReaction(r, reaction))
+    ? list.filter(r => !sameReaction(r, reaction))
+    : list;
+}
+
+/**
+ * メッセージ一覧のうち message_id が一致するものだけリアクションを差し替える。
+ * 対象がなければ同じ配列を返す（再描画を避ける）。
+ */
+export function applyReactionChange<
+  T extends { id: string; reactions?: MessageReaction[] },
+>(messages: T[], reaction: MessageReaction, change: 'added' | 'removed'): T[] {
+  let changed = false;
+  const next = messages.map(m => {
+    if (m.id !== reaction.message_id) {
+      return m;
+    }
+    const reactions =
+      change === 'added'
+        ? withReaction(m.reactions, reaction)
+        : withoutReaction(m.reactions, reaction);
+    if (reactions === m.reactions) {
+      return m;
+    }
+    changed = true;
+    return { ...m, reactions };
+  });
+  return changed ? next : messages;
+}
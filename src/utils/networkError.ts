@@ -0,0 +1,25 @@
+// fetch / supabase-js が通信できなかったときに返すエラーの特徴
+const NETWORK_ERROR_PATTERN =
+  /network request failed|failed to fetch|network ?error|load failed|timed? ?out|ECONNREFUSED|ENOTFOUND/i;
+
+/**
+ * 通信断（オフライン・タイムアウト）による失敗かどうか。
+ * サーバーが返したエラー（権限・検証など）は false になり、再送しても結果は変わらない。
+ */
+export function isNetworkError(error: unknown): boolean {
+  if (!error) {
+    return false;
+  }
+  if (typeof error === 'string') {
+    return NETWORK_ERROR_PATTERN.test(error);
+  }
+  const e = error as { name?: unknown; message?: unknown; status?: unknown };
+  if (e.name === 'AuthRetryableFetchError') {
+    return true;
+  }
+  // PostgREST は fetch 自体が失敗すると status 0 を返す
+  if (e.status === 0) {
+    return true;
+  }
+  return typeof e.message === 'string' && NETWORK_ERROR_PATTERN.test(e.message);
+}
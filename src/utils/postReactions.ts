@@ -0,0 +1,110 @@
+import { ReactionKind, ReactionSummary } from '../types/post';
+
+export type ReactionOption = {
+  kind: ReactionKind;
+  emoji: string;
+  label: string;
+};
+
+export const REACTION_OPTIONS: ReactionOption[] = [
+  { kind: 'support', emoji: '💛', label: '応援' },
+  { kind: 'metoo', emoji: '🤝', label: 'わかる' },
+  { kind: 'congrats', emoji: '🎉', label: 'おめでとう' },
+  { kind: 'hug', emoji: '🫂', label: 'ぎゅっ' },
+];
+
+export const DEFAULT_REACTION_KIND: ReactionKind = 'support';
+
+export function isReactionKind(value: unknown): value is ReactionKind {
+  return REACTION_OPTIONS.some(o => o.kind === value);
+}
+
+export function reactionEmoji(kind: ReactionKind | null | undefined): string {
+  return REACTION_OPTIONS.find(o => o.kind === kind)?.emoji ?? '💗';
+}
+
+export function emptyReactionSummary(): ReactionSummary {
+  return { count: 0, reactedByMe: false, byKind: {}, myReaction: null };
+}
+
+/**
+ * DB行（reaction_counts / my_reaction / is_liked / reaction_count）から
+ * ReactionSummary を組み立てる。旧RPCの列構成にも対応する。
+ */
+export function toReactionSummary(
+  row: any,
+  reactedByMeFallback = false
+): ReactionSummary {
+  const byKind: Partial<Record<ReactionKind, number>> = {};
+  const raw = row?.reaction_counts;
+  if (raw && typeof raw === 'object') {
+    for (const [kind, n] of Object.entries(raw)) {
+      if (isReactionKind(kind) && Number(n) > 0) {
+        byKind[kind] = Number(n);
+      }
+    }
+  }
+  const myReaction = isReactionKind(row?.my_reaction) ? row.my_reaction : null;
+  const reactedByMe =
+    myReaction !== null || Boolean(row?.is_liked ?? reactedByMeFallback);
+  return {
+    count: Number(row?.reaction_count ?? 0),
+    reactedByMe,
+    byKind,
+    myReaction: myReaction ?? (reactedByMe ? DEFAULT_REACTION_KIND : null),
+  };
+}
+
+/** 種類別件数を delta だけ増減させる（realtime 反映用） */
+export function adjustReactionCount(
+  summary: ReactionSummary | undefined,
+  kind: ReactionKind | null,
+  delta: number
+): ReactionSummary {
+  const base = summary || emptyReactionSummary();
+  const byKind = { ...(base.byKind || {}) };
+  if (kind) {
+    byKind[kind] = Math.max(0, (byKind[kind] || 0) + delta);
+  }
+  return {
+    ...base,
+    byKind,
+    count: Math.max(0, (base.count || 0) + delta),
+  };
+}
+
+/**
+ * 自分のリアクションを next に変更した後の ReactionSummary を返す（楽観的更新用）。
+ * next が null の場合は取り消し。
+ */
+export function applyMyReaction(
+  summary: ReactionSummary | undefined,
+  next: ReactionKind | null
+): ReactionSummary {
+  const base = summary || emptyReactionSummary();
+  const current = base.reactedByMe
+    ? (base.myReaction ?? DEFAULT_REACTION_KIND)
+    : null;
+  if (current === next) {
+    return base;
+  }
+  let updated = base;
+  if (current) {
+    updated = adjustReactionCount(updated, current, -1);
+  }
+  if (next) {
+    updated = adjustReactionCount(updated, next, +1);
+  }
+  return { ...updated, reactedByMe: next !== null, myReaction: next };
+}
+
+/** ピッカーでタップされた種類から次の自分のリアクションを決める（同じ種類なら取り消し） */
+export function nextReactionFor(
+  summary: ReactionSummary | undefined,
+  tapped: ReactionKind
+): ReactionKind | null {
+  const current = summary?.reactedByMe
+    ? (summary.myReaction ?? DEFAULT_REACTION_KIND)
+    : null;
+  return current === tapped ? null : tapped;
+}
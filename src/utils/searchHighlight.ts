@@ -0,0 +1,65 @@
+export type HighlightSegment = { text: string; match: boolean };
+
+function searchTokens(term: string): string[] {
+  const tokens = term
+    .normalize('NFKC')
+    .split(/\s+/)
+    .map(t => t.toLowerCase())
+    .filter(Boolean);
+  // 長い語を先に当てて、短い語に分断されないようにする
+  return Array.from(new Set(tokens)).sort((a, b) => b.length - a.length);
+}
+
+/** 検索語（空白区切り）に一致する部分とそれ以外に分ける。大文字小文字は区別しない */
+export function highlightSegments(
+  text: string,
+  term: string
+): HighlightSegment[] {
+  const tokens = searchTokens(term);
+  if (!text || tokens.length === 0) {
+    return text ? [{ text, match: false }] : [];
+  }
+  const lower = text.toLowerCase();
+  const segments: HighlightSegment[] = [];
+  let plainStart = 0;
+  let i = 0;
+  while (i < text.length) {
+    const token = tokens.find(t => lower.startsWith(t, i));
+    if (!token) {
+      i += 1;
+      continue;
+    }
+    if (i > plainStart) {
+      segments.push({ text: text.slice(plainStart, i), match: false });
+    }
+    segments.push({ text: text.slice(i, i + token.length), match: true });
+    i += token.length;
+    plainStart = i;
+  }
+  if (plainStart < text.length) {
+    segments.push({ text: text.slice(plainStart), match: false });
+  }
+  return segments;
+}
+
+/**
+ * 最初に一致した語の前後だけを切り出す。長文でも一致箇所が一覧に見えるようにする。
+ * 改行は空白にまとめ、切った側には … を付ける。
+ */
+export function messageSnippet(
+  text: string,
+  term: string,
+  radius = 30
+): string {
+  const flat = (text || '').replace(/\s+/g, ' ').trim();
+  const lower = flat.toLowerCase();
+  const hits = searchTokens(term)
+    .map(t => lower.indexOf(t))
+    .filter(idx => idx >= 0);
+  const first = hits.length > 0 ? Math.min(...hits) : 0;
+  const start = Math.max(0, first - radius);
+  const end = Math.min(flat.length, start + radius * 3);
+  return `${start > 0 ? '…' : ''}${flat.slice(start, end)}${
+    end < flat.length ? '…' : ''
+  }`;
+}
@@ -0,0 +1,123 @@
+import { Channel, ChannelMember, ChatListItem } from '../types/room';
+
+/** サーバーの create_space_channel と同じ上限 */
+export const SPACE_CHANNEL_NAME_MAX = 50;
+export const SPACE_CHANNEL_LIMIT = 20;
+
+/** チャンネル名の入力チェック。問題なければ null */
+export function validateChannelName(
+  name: string,
+  existingNames: string[] = []
+): string | null {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    return 'チャンネル名を入力してください';
+  }
+  if (trimmed.length > SPACE_CHANNEL_NAME_MAX) {
+    return `チャンネル名は${SPACE_CHANNEL_NAME_MAX}文字以内で入力してください`;
+  }
+  const lower = trimmed.toLowerCase();
+  if (existingNames.some(n => n.trim().toLowerCase() === lower)) {
+    return '同じ名前のチャンネルがあります';
+  }
+  return null;
+}
+
+/** お知らせチャンネルはオーナーとモデレーターだけが投稿できる */
+export function canPostInChannel(
+  channel: Pick<Channel, 'channel_type' | 'is_active'> | null | undefined,
+  role: ChannelMember['role'] | null | undefined
+): boolean {
+  if (!channel) {
+    return true;
+  }
+  if (!channel.is_active) {
+    return false;
+  }
+  if (channel.channel_type === 'announcement') {
+    return role === 'owner' || role === 'moderator';
+  }
+  return true;
+}
+
+/** 並べ替え用。範囲外への移動は元の配列をそのまま返す */
+export function moveItem<T>(items: T[], from: number, to: number): T[] {
+  if (
+    from === to ||
+    from < 0 ||
+    to < 0 ||
+    from >= items.length ||
+    to >= items.length
+  ) {
+    return items;
+  }
+  const next = [...items];
+  const [moved] = next.splice(from, 1) as [T];
+  next.splice(to, 0, moved);
+  return next;
+}
+
+/** スペースごとに 1 行へまとめたチャットリストの行 */
+export type SpaceChatListItem = {
+  space_id: string;
+  space_name: string;
+  space_is_public: boolean;
+  // 開いたときに表示するチャンネル（最後に動きがあったチャンネル）
+  channel_id: string;
+  channel_name: string;
+  channel_count: number;
+  latest_message_at: string | null;
+  latest_message_content: string | null;
+  has_new: boolean;
+  unread_count: number;
+};
+
+/**
+ * チャンネルごとのチャットリストをスペースごとにまとめる。
+ * 未読数は合計し、並びは最新メッセージの新しい順（入力の順）を保つ
+ */
+export function groupChatListBySpace(
+  items: ChatListItem[]
+): SpaceChatListItem[] {
+  const bySpace = new Map<string, SpaceChatListItem>();
+  const positions = new Map<string, number>();
+  for (const item of items) {
+    const row = bySpace.get(item.space_id);
+    if (!row) {
+      bySpace.set(item.space_id, {
+        space_id: item.space_id,
+        space_name: item.space_name,
+        space_is_public: item.space_is_public,
+        channel_id: item.channel_id,
+        channel_name: item.channel_name,
+        channel_count: 1,
+        latest_message_at: item.latest_message_at,
+        latest_message_content: item.latest_message_content,
+        has_new: item.has_new,
+        unread_count: item.unread_count,
+      });
+      positions.set(item.space_id, item.channel_position ?? 0);
+      continue;
+    }
+    row.channel_count += 1;
+    row.has_new = row.has_new || item.has_new;
+    row.unread_count += item.unread_count;
+    const newer =
+      !!item.latest_message_at &&
+      (!row.latest_message_at ||
+        item.latest_message_at > row.latest_message_at);
+    // メッセージがまだどこにも無ければ、並びが先頭のチャンネルを開く
+    const firstInOrder =
+      !row.latest_message_at &&
+      !item.latest_message_at &&
+      (item.channel_position ?? 0) < (positions.get(item.space_id) ?? 0);
+    if (newer || firstInOrder) {
+      row.channel_id = item.channel_id;
+      row.channel_name = item.channel_name;
+      row.latest_message_at = item.latest_message_at;
+      row.latest_message_content = item.latest_message_content;
+      positions.set(item.space_id, item.channel_position ?? 0);
+    }
+  }
+  return Array.from(bySpace.values());
+}
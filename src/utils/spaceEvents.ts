@@ -0,0 +1,296 @@
+import { addDays, addMinutes, format, startOfDay } from 'date-fns';
+import { ja } from 'date-fns/locale';
+
+import {
+  CreateSpaceEventRequest,
+  SpaceEvent,
+  SpaceEventRsvpStatus,
+} from '../types/room';
+
+/** 入力の上限（サーバー側と同じ） */
+export const MAX_EVENT_TITLE_LENGTH = 100;
+export const MAX_EVENT_DESCRIPTION_LENGTH = 1000;
+export const MAX_EVENT_LOCATION_LENGTH = 200;
+export const MAX_EVENT_CAPACITY = 1000;
+
+/** 開始の何分前にリマインダーを出すか */
+export const EVENT_REMINDER_MINUTES = 60;
+
+/** 作成フォームで選べる日付（今日から何日先まで） */
+export const EVENT_DAY_RANGE = 30;
+
+/** 開始時刻の選択肢（0時からの分。7:00〜22:00 を 30 分おき） */
+export const EVENT_TIME_SLOTS: number[] = Array.from(
+  { length: 31 },
+  (_, i) => 7 * 60 + i * 30
+);
+
+/** 長さの選択肢（分。null は終了時刻なし） */
+export const EVENT_DURATION_OPTIONS: {
+  minutes: number | null;
+  label: string;
+}[] = [
+  { minutes: 60, label: '1時間' },
+  { minutes: 120, label: '2時間' },
+  { minutes: 180, label: '3時間' },
+  { minutes: null, label: '未定' },
+];
+
+export const EVENT_RSVP_OPTIONS: {
+  status: SpaceEventRsvpStatus;
+  label: string;
+}[] = [
+  { status: 'going', label: '行く' },
+  { status: 'maybe', label: 'たぶん' },
+  { status: 'not_going', label: '行かない' },
+];
+
+// .ics の終了時刻がないときの長さ
+const DEFAULT_ICS_DURATION_MINUTES = 60;
+
+/** チャンネルのメッセージからイベントカードのイベント ID を取り出す */
+export function eventIdFromAttachments(
+  attachments: any[] | null | undefined
+): string | null {
+  const ref = (attachments ?? []).find(
+    a => a && typeof a === 'object' && a.type === 'event' && a.event_id
+  );
+  return ref ? String(ref.event_id) : null;
+}
+
+/** 今日から dayOffset 日後の、0時から minutes 分の時刻（端末のタイムゾーン） */
+export function eventStartAt(
+  dayOffset: number,
+  minutes: number,
+  now: Date = new Date()
+): Date {
+  return addMinutes(addDays(startOfDay(now), dayOffset), minutes);
+}
+
+/** 日付の選択肢の表示（今日・明日・10/22(木)） */
+export function formatEventDayLabel(
+  dayOffset: number,
+  now: Date = new Date()
+): string {
+  if (dayOffset === 0) {
+    return '今日';
+  }
+  if (dayOffset === 1) {
+    return '明日';
+  }
+  return format(addDays(now, dayOffset), 'M/d(E)', { locale: ja });
+}
+
+/** 0時からの分を「9:30」に */
+export function formatEventTimeSlot(minutes: number): string {
+  return `${Math.floor(minutes / 60)}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+/** 入力に問題があればエラーメッセージ、なければ null */
+export function validateSpaceEvent(
+  request: CreateSpaceEventRequest,
+  now: Date = new Date()
+): string | null {
+  const title = request.title.trim();
+  if (!title || title.length > MAX_EVENT_TITLE_LENGTH) {
+    return `タイトルは1〜${MAX_EVENT_TITLE_LENGTH}文字で入力してください`;
+  }
+  if (
+    (request.description?.trim().length ?? 0) > MAX_EVENT_DESCRIPTION_LENGTH
+  ) {
+    return `説明は${MAX_EVENT_DESCRIPTION_LENGTH}文字までです`;
+  }
+  if (new Date(request.starts_at).getTime() <= now.getTime()) {
+    return '開始時刻は今より後にしてください';
+  }
+  const location = request.location?.trim() ?? '';
+  if (!request.is_online && !location) {
+    return '場所を入力するか、オンラインを選んでください';
+  }
+  if (location.length > MAX_EVENT_LOCATION_LENGTH) {
+    return `場所は${MAX_EVENT_LOCATION_LENGTH}文字までです`;
+  }
+  const capacity = request.capacity;
+  if (
+    capacity !== null &&
+    capacity !== undefined &&
+    (!Number.isInteger(capacity) ||
+      capacity < 1 ||
+      capacity > MAX_EVENT_CAPACITY)
+  ) {
+    return `定員は1〜${MAX_EVENT_CAPACITY}人で入力してください`;
+  }
+  return null;
+}
+
+/** 「10月20日(火) 10:00〜12:00」のような日時 */
+export function formatEventTime(
+  event: Pick<SpaceEvent, 'starts_at' | 'ends_at'>
+): string {
+  const start = new Date(event.starts_at);
+  const label = format(start, 'M月d日(E) HH:mm', { locale: ja });
+  if (!event.ends_at) {
+    return label;
+  }
+  const end = new Date(event.ends_at);
+  const sameDay = startOfDay(start).getTime() === startOfDay(end).getTime();
+  return `${label}〜${format(end, sameDay ? 'HH:mm' : 'M月d日(E) HH:mm', {
+    locale: ja,
+  })}`;
+}
+
+/** 場所の表示。オンラインで補足があれば「オンライン・Zoom」 */
+export function describeEventLocation(
+  event: Pick<SpaceEvent, 'location' | 'is_online'>
+): string {
+  const location = event.location?.trim() ?? '';
+  if (event.is_online) {
+    return location ? `オンライン・${location}` : 'オンライン';
+  }
+  return location;
+}
+
+/** 「行く 3/5人・たぶん 2人」のような返事の集計 */
+export function describeEventAttendance(
+  event: Pick<SpaceEvent, 'going_count' | 'maybe_count' | 'capacity'>
+): string {
+  const going =
+    event.capacity === null
+      ? `行く ${event.going_count}人`
+      : `行く ${event.going_count}/${event.capacity}人`;
+  return event.maybe_count > 0
+    ? `${going}・たぶん ${event.maybe_count}人`
+    : going;
+}
+
+/** 「行く」を選べないほど埋まっているか（自分がすでに行くなら埋まっていない扱い） */
+export function isEventFull(
+  event: Pick<SpaceEvent, 'going_count' | 'capacity' | 'my_status'>
+): boolean {
+  return (
+    event.capacity !== null &&
+    event.my_status !== 'going' &&
+    event.going_count >= event.capacity
+  );
+}
+
+/** まだ返事を変えられるか（中止・開始後は不可） */
+export function canRsvpEvent(
+  event: Pick<SpaceEvent, 'starts_at' | 'cancelled_at'>,
+  now: Date = new Date()
+): boolean {
+  return (
+    !event.cancelled_at && new Date(event.starts_at).getTime() > now.getTime()
+  );
+}
+
+/**
+ * リマインダーを出す時刻。行く・たぶんで、まだその時刻が来ていなければ返す。
+ * 開始まで minutesBefore 分を切っていれば null（通知しても間に合わないため）
+ */
+export function eventReminderAt(
+  event: Pick<SpaceEvent, 'starts_at' | 'cancelled_at' | 'my_status'>,
+  now: Date = new Date(),
+  minutesBefore: number = EVENT_REMINDER_MINUTES
+): Date | null {
+  if (
+    event.cancelled_at ||
+    (event.my_status !== 'going' && event.my_status !== 'maybe')
+  ) {
+    return null;
+  }
+  const at = addMinutes(new Date(event.starts_at), -minutesBefore);
+  return at.getTime() > now.getTime() ? at : null;
+}
+
+// RFC 5545 の TEXT 値のエスケープ
+function escapeIcsText(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+// 20261020T010000Z の形（UTC）
+function toIcsDate(date: Date): string {
+  return date
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace(/\.\d{3}/, '');
+}
+
+// 1 行 75 オクテットで折り返す。続きの行は空白 1 つで始める
+function foldIcsLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let bytes = 0;
+  for (const char of line) {
+    const code = char.codePointAt(0) ?? 0;
+    const size = code < 0x80 ? 1 : code < 0x800 ? 2 : code < 0x10000 ? 3 : 4;
+    const limit = parts.length === 0 ? 75 : 74;
+    if (bytes + size > limit) {
+      parts.push(current);
+      current = '';
+      bytes = 0;
+    }
+    current += char;
+    bytes += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+/** 1 件のイベントをカレンダーに取り込める .ics（iCalendar）にする */
+export function buildEventIcs(
+  event: Pick<
+    SpaceEvent,
+    | 'id'
+    | 'title'
+    | 'description'
+    | 'starts_at'
+    | 'ends_at'
+    | 'location'
+    | 'is_online'
+    | 'cancelled_at'
+  >,
+  spaceName?: string,
+  now: Date = new Date()
+): string {
+  const start = new Date(event.starts_at);
+  const end = event.ends_at
+    ? new Date(event.ends_at)
+    : addMinutes(start, DEFAULT_ICS_DURATION_MINUTES);
+  const description = [
+    event.description?.trim(),
+    spaceName ? `ルーム: ${spaceName}` : '',
+  ]
+    .filter(Boolean)
+    .join('\n');
+  const location = describeEventLocation(event);
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//mamapace//space events//JA',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    'BEGIN:VEVENT',
+    `UID:${event.id}@mamapace`,
+    `DTSTAMP:${toIcsDate(now)}`,
+    `DTSTART:${toIcsDate(start)}`,
+    `DTEND:${toIcsDate(end)}`,
+    `SUMMARY:${escapeIcsText(event.title)}`,
+    ...(description ? [`DESCRIPTION:${escapeIcsText(description)}`] : []),
+    ...(location ? [`LOCATION:${escapeIcsText(location)}`] : []),
+    `STATUS:${event.cancelled_at ? 'CANCELLED' : 'CONFIRMED'}`,
+    'BEGIN:VALARM',
+    'ACTION:DISPLAY',
+    `DESCRIPTION:${escapeIcsText(event.title)}`,
+    `TRIGGER:-PT${EVENT_REMINDER_MINUTES}M`,
+    'END:VALARM',
+    'END:VEVENT',
+    'END:VCALENDAR',
+  ];
+  return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,80 @@
+import { SpaceInviteLink } from '../types/room';
+
+/** 招待リンクのディープリンクのパス（mamapace://invite/<code>） */
+export const INVITE_PATH = 'invite';
+
+/** 有効期限の選択肢（時間。null は無期限） */
+export const INVITE_EXPIRY_OPTIONS: { hours: number | null; label: string }[] =
+  [
+    { hours: 24, label: '1日' },
+    { hours: 24 * 7, label: '7日' },
+    { hours: 24 * 30, label: '30日' },
+    { hours: null, label: '無期限' },
+  ];
+
+/** 利用回数の上限の選択肢（null は無制限） */
+export const INVITE_MAX_USE_OPTIONS: { uses: number | null; label: string }[] =
+  [
+    { uses: 1, label: '1回' },
+    { uses: 10, label: '10回' },
+    { uses: 50, label: '50回' },
+    { uses: null, label: '無制限' },
+  ];
+
+const INVITE_CODE = new RegExp(
+  `(?:^|[/:])${INVITE_PATH}/([A-Za-z0-9]{6,64})(?:[/?#]|$)`
+);
+
+/**
+ * URL から招待コードを取り出す。招待リンクでなければ null。
+ * mamapace://invite/<code> と、Expo Go の exp://…/--/invite/<code> の両方を受け付ける
+ */
+export function parseInviteCode(url: string | null | undefined): string | null {
+  if (!url) {
+    return null;
+  }
+  const match = INVITE_CODE.exec(url);
+  return match?.[1] ?? null;
+}
+
+/** 一覧に出す「あと3日・残り7回・承認制」のような説明 */
+export function describeInviteLink(
+  link: Pick<
+    SpaceInviteLink,
+    'status' | 'expires_at' | 'max_uses' | 'use_count' | 'requires_approval'
+  >,
+  now: Date = new Date()
+): string {
+  if (link.status === 'expired') {
+    return '期限切れ';
+  }
+  if (link.status === 'used_up') {
+    return '上限に達しました';
+  }
+  if (link.status === 'revoked') {
+    return '無効';
+  }
+  const parts: string[] = [];
+  if (link.expires_at) {
+    const hours = Math.max(
+      0,
+      (new Date(link.expires_at).getTime() - now.getTime()) / 3600000
+    );
+    parts.push(
+      hours >= 24
+        ? `あと${Math.floor(hours / 24)}日`
+        : `あと${Math.max(1, Math.ceil(hours))}時間`
+    );
+  } else {
+    parts.push('無期限');
+  }
+  parts.push(
+    link.max_uses === null
+      ? `${link.use_count}人が参加`
+      : `残り${Math.max(0, link.max_uses - link.use_count)}回`
+  );
+  if (link.requires_approval) {
+    parts.push('承認制');
+  }
+  return parts.join('・');
+}
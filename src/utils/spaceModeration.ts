@@ -0,0 +1,73 @@
+import {
+  ChannelMember,
+  SpaceModerationAction,
+  SpaceModerationLogEntry,
+} from '../types/room';
+
+type Role = ChannelMember['role'];
+
+/** 一時ミュートの選択肢（サーバー側の上限は 7 日） */
+export const MUTE_DURATIONS: { minutes: number; label: string }[] = [
+  { minutes: 10, label: '10分' },
+  { minutes: 60, label: '1時間' },
+  { minutes: 60 * 24, label: '24時間' },
+  { minutes: 60 * 24 * 7, label: '7日間' },
+];
+
+const ROLE_RANK: Record<Role, number> = { owner: 2, moderator: 1, member: 0 };
+
+export function isSpaceModerator(role: Role | null | undefined): boolean {
+  return role === 'owner' || role === 'moderator';
+}
+
+/**
+ * 退出・BAN・ミュート・メッセージ削除ができるか。
+ * サーバーの assert_can_moderate と同じく、自分より下のロールにだけ操作できる
+ */
+export function canModerateMember(
+  actorRole: Role | null | undefined,
+  targetRole: Role | null | undefined,
+  isSelf = false
+): boolean {
+  if (isSelf || !actorRole || !isSpaceModerator(actorRole)) {
+    return false;
+  }
+  return ROLE_RANK[actorRole] > ROLE_RANK[targetRole ?? 'member'];
+}
+
+const ACTION_LABELS: Record<SpaceModerationAction, string> = {
+  promote: 'をモデレーターにしました',
+  demote: 'をモデレーターから外しました',
+  kick: 'を退出させました',
+  ban: 'をBANしました',
+  unban: 'のBANを解除しました',
+  mute: 'をミュートしました',
+  unmute: 'のミュートを解除しました',
+  delete_message: 'のメッセージを削除しました',
+};
+
+function durationLabel(minutes: number): string {
+  const preset = MUTE_DURATIONS.find(d => d.minutes === minutes);
+  if (preset) {
+    return preset.label;
+  }
+  return minutes % 60 === 0 ? `${minutes / 60}時間` : `${minutes}分`;
+}
+
+/** ログ 1 件を「さくらさんがたろうさんをBANしました」の形にする */
+export function describeModerationEntry(
+  entry: SpaceModerationLogEntry
+): string {
+  const name = (displayName: string | null, username: string | null) => {
+    const n = displayName || username;
+    return n ? `${n}さん` : '退会したユーザー';
+  };
+  const actor = name(entry.actor_display_name, entry.actor_username);
+  const target = name(entry.target_display_name, entry.target_username);
+  const minutes = Number(entry.metadata?.minutes);
+  const duration =
+    entry.action === 'mute' && minutes > 0
+      ? `（${durationLabel(minutes)}）`
+      : '';
+  return `${actor}が${target}${ACTION_LABELS[entry.action] ?? 'を操作しました'}${duration}`;
+}
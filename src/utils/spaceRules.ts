@@ -0,0 +1,64 @@
+import { SpaceRules, UpdateSpaceRulesRequest } from '../types/room';
+
+/** 参加時の質問の上限（サーバー側と同じ） */
+export const MAX_SCREENING_QUESTIONS = 5;
+export const MAX_RULES_LENGTH = 2000;
+export const MAX_WELCOME_LENGTH = 500;
+export const MAX_QUESTION_LENGTH = 200;
+export const MAX_ANSWER_LENGTH = 500;
+
+/** 参加前に見せるもの（ルール・ウェルカムメッセージ・質問）があるか */
+export function hasJoinGuidance(rules: SpaceRules | null | undefined): boolean {
+  return (
+    !!rules &&
+    (!!rules.rules?.trim() ||
+      !!rules.welcome_message?.trim() ||
+      rules.screening_questions.length > 0)
+  );
+}
+
+/** ルールがあって、まだ（最新のルールに）同意していない */
+export function needsRulesAcceptance(
+  rules: SpaceRules | null | undefined
+): boolean {
+  return !!rules?.rules?.trim() && !rules.accepted;
+}
+
+/** 回答に問題があればエラーメッセージ、なければ null */
+export function validateScreeningAnswers(
+  questions: string[],
+  answers: string[]
+): string | null {
+  for (let i = 0; i < questions.length; i++) {
+    const answer = (answers[i] ?? '').trim();
+    if (!answer) {
+      return '質問にすべて回答してください';
+    }
+    if (answer.length > MAX_ANSWER_LENGTH) {
+      return `回答は${MAX_ANSWER_LENGTH}文字以内で入力してください`;
+    }
+  }
+  return null;
+}
+
+/** オーナーが編集したルールに問題があればエラーメッセージ、なければ null */
+export function validateSpaceRules(
+  request: UpdateSpaceRulesRequest
+): string | null {
+  if (request.rules.trim().length > MAX_RULES_LENGTH) {
+    return `ルールは${MAX_RULES_LENGTH}文字以内で入力してください`;
+  }
+  if (request.welcome_message.trim().length > MAX_WELCOME_LENGTH) {
+    return `ウェルカムメッセージは${MAX_WELCOME_LENGTH}文字以内で入力してください`;
+  }
+  const questions = request.screening_questions
+    .map(q => q.trim())
+    .filter(Boolean);
+  if (questions.length > MAX_SCREENING_QUESTIONS) {
+    return `参加時の質問は${MAX_SCREENING_QUESTIONS}つまでです`;
+  }
+  if (questions.some(q => q.length > MAX_QUESTION_LENGTH)) {
+    return `質問は${MAX_QUESTION_LENGTH}文字以内で入力してください`;
+  }
+  return null;
+}
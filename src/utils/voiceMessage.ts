@@ -0,0 +1,74 @@
+/** ボイスメッセージの本文（一覧のプレビューや通知に出る） */
+export const VOICE_MESSAGE_TEXT = '🎤 ボイスメッセージ';
+
+export const VOICE_MAX_DURATION_MS = 2 * 60 * 1000;
+export const VOICE_MIN_DURATION_MS = 1000;
+export const VOICE_WAVEFORM_BARS = 32;
+
+export const VOICE_PLAYBACK_RATES = [1, 1.5, 2] as const;
+export type VoicePlaybackRate = (typeof VOICE_PLAYBACK_RATES)[number];
+
+// 録音中のメータリング（dBFS）をこの範囲で 0..1 に変換する
+const METERING_FLOOR_DB = -60;
+
+export function meteringToLevel(db: number | null | undefined): number {
+  if (typeof db !== 'number' || !Number.isFinite(db)) {
+    return 0;
+  }
+  const clamped = Math.min(Math.max(db, METERING_FLOOR_DB), 0);
+  return (clamped - METERING_FLOOR_DB) / -METERING_FLOOR_DB;
+}
+
+/**
+ * 録音中に集めたレベルを bars 本の棒にまとめる（区間ごとの平均、小数 2 桁）。
+ * 録音が短くレベルが bars より少ないときはそのまま返す。
+ */
+export function compressWaveform(
+  levels: number[],
+  bars: number = VOICE_WAVEFORM_BARS
+): number[] {
+  if (levels.length <= bars) {
+    return levels.map(round2);
+  }
+  const out: number[] = [];
+  for (let i = 0; i < bars; i++) {
+    const start = Math.floor((i * levels.length) / bars);
+    const end = Math.floor(((i + 1) * levels.length) / bars);
+    let sum = 0;
+    for (let j = start; j < end; j++) {
+      sum += levels[j] ?? 0;
+    }
+    out.push(round2(sum / Math.max(end - start, 1)));
+  }
+  return out;
+}
+
+/** metadata の波形を表示用に整える（欠けている・壊れている場合は平らな波形） */
+export function normalizeWaveform(
+  raw: unknown,
+  bars: number = VOICE_WAVEFORM_BARS
+): number[] {
+  const values = Array.isArray(raw)
+    ? raw
+        .map(v => Number(v))
+        .filter(v => Number.isFinite(v))
+        .map(v => Math.min(Math.max(v, 0), 1))
+    : [];
+  return values.length > 0 ? values : Array(bars).fill(0.15);
+}
+
+export function formatVoiceDuration(ms: number | null | undefined): string {
+  const total = Math.max(Math.round((ms ?? 0) / 1000), 0);
+  const m = Math.floor(total / 60);
+  const s = total % 60;
+  return `${m}:${String(s).padStart(2, '0')}`;
+}
+
+export function nextPlaybackRate(rate: number): VoicePlaybackRate {
+  const idx = VOICE_PLAYBACK_RATES.indexOf(rate as VoicePlaybackRate);
+  return VOICE_PLAYBACK_RATES[(idx + 1) % VOICE_PLAYBACK_RATES.length] ?? 1;
+}
+
+function round2(v: number): number {
+  return Math.round(v * 100) / 100;
+}
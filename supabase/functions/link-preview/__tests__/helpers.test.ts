@@ -0,0 +1,71 @@
+import { extractFirstUrl, isPrivateAddress, normalizeUrl, parseHttpResponse, parsePreview } from '../helpers';
+
+describe('link-preview helpers', () => {
+  test('extractFirstUrl stops at Japanese punctuation', () => {
+    expect(extractFirstUrl('これ https://example.com/a、どう？')).toBe('https://example.com/a');
+    expect(extractFirstUrl('なし')).toBeNull();
+  });
+
+  test('normalizeUrl rejects non-web schemes, credentials, odd ports and internal hosts', () => {
+    expect(normalizeUrl('https://example.com/a#frag')).toBe('https://example.com/a');
+    expect(normalizeUrl('ftp://example.com')).toBeNull();
+    expect(normalizeUrl('https://user:pw@example.com')).toBeNull();
+    expect(normalizeUrl('http://example.com:8080')).toBeNull();
+    expect(normalizeUrl('http://localhost/')).toBeNull();
+    expect(normalizeUrl('http://metadata.internal/')).toBeNull();
+    expect(normalizeUrl('http://intranet/')).toBeNull();
+    expect(normalizeUrl('http://127.0.0.1/')).toBeNull();
+    expect(normalizeUrl('http://2130706433/')).toBeNull();
+    expect(normalizeUrl('http://[::1]/')).toBeNull();
+    expect(normalizeUrl('http://93.184.216.34/')).toBe('http://93.184.216.34/');
+  });
+
+  test('isPrivateAddress covers private, loopback, link-local and mapped ranges', () => {
+    for (const ip of ['10.1.2.3', '172.20.0.1', '192.168.1.1', '169.254.169.254', '100.64.0.1', '0.0.0.0', 'fd00::1', 'fe80::1', '::ffff:127.0.0.1', '64:ff9b::a9fe:a9fe', '64:ff9b::127.0.0.1', '64:ff9b:1::a00:1', 'bogus']) {
+      expect(isPrivateAddress(ip)).toBe(true);
+    }
+    for (const ip of ['8.8.8.8', '172.32.0.1', '2606:4700::1111', '::ffff:8.8.8.8']) {
+      expect(isPrivateAddress(ip)).toBe(false);
+    }
+  });
+
+  test('parseHttpResponse splits status, lower-cased headers and body', () => {
+    const raw = new TextEncoder().encode(
+      'HTTP/1.1 301 Moved Permanently\r\nLocation: https://example.com/b\r\nContent-Type: text/html\r\n\r\n<p>moved</p>',
+    );
+    const res = parseHttpResponse(raw);
+    expect(res).toMatchObject({
+      status: 301,
+      headers: { location: 'https://example.com/b', 'content-type': 'text/html' },
+    });
+    expect(new TextDecoder().decode(res!.body)).toBe('<p>moved</p>');
+    expect(parseHttpResponse(new TextEncoder().encode('HTTP/1.1 200 OK\r\nX: y'))).toBeNull();
+    expect(parseHttpResponse(new TextEncoder().encode('SSH-2.0-OpenSSH\r\n\r\n'))).toBeNull();
+  });
+
+  test('parsePreview prefers OGP tags and resolves relative images', () => {
+    const html = `<html><head>
+      <title>Fallback</title>
+      <meta content="OG &amp; Title" property="og:title">
+      <meta property="og:description" content="説明文">
+      <meta property="og:image" content="/img/cover.png">
+      <meta property="og:site_name" content="Example">
+    </head></html>`;
+    expect(parsePreview(html, 'https://example.com/post/1')).toEqual({
+      url: 'https://example.com/post/1',
+      title: 'OG & Title',
+      description: '説明文',
+      image_url: 'https://example.com/img/cover.png',
+      site_name: 'Example',
+    });
+  });
+
+  test('parsePreview falls back to <title> and drops internal images', () => {
+    const html = '<title> Page </title><meta name="twitter:image" content="http://10.0.0.1/x.png">';
+    expect(parsePreview(html, 'https://example.com')).toMatchObject({
+      title: 'Page',
+      image_url: null,
+    });
+    expect(parsePreview('<p>no title</p>', 'https://example.com')).toBeNull();
+  });
+});
@@ -0,0 +1,176 @@
+export type LinkPreview = {
+  url: string;
+  title: string | null;
+  description: string | null;
+  image_url: string | null;
+  site_name: string | null;
+};
+
+const URL_RE = /https?:\/\/[^\s<>"'「」『』（）、。]+/i;
+const TRAILING_PUNCT_RE = /[)\]}.,!?;:！？]+$/;
+
+/** 本文中の最初の http(s) URL（末尾の句読点は除く） */
+export function extractFirstUrl(text: string | null | undefined): string | null {
+  const m = URL_RE.exec(text || '');
+  if (!m) return null;
+  const url = m[0].replace(TRAILING_PUNCT_RE, '');
+  return url.length > 'https://'.length ? url : null;
+}
+
+const BLOCKED_HOST_SUFFIXES = ['.localhost', '.local', '.internal', '.lan', '.home.arpa'];
+
+/**
+ * 外部に取りに行ってよい URL だけを正規化して返す。
+ * http/https 以外・認証情報付き・標準以外のポート・内部ホスト名は null
+ */
+export function normalizeUrl(raw: string): string | null {
+  let u: URL;
+  try {
+    u = new URL(raw.trim());
+  } catch {
+    return null;
+  }
+  if (u.protocol !== 'http:' && u.protocol !== 'https:') return null;
+  if (u.username || u.password) return null;
+  if (u.port && u.port !== '80' && u.port !== '443') return null;
+  const host = u.hostname.toLowerCase().replace(/\.$/, '');
+  if (!host || host === 'localhost' || (!host.includes('.') && !host.includes(':'))) return null;
+  if (BLOCKED_HOST_SUFFIXES.some(s => host.endsWith(s))) return null;
+  const literal = host.startsWith('[') ? host.slice(1, -1) : host;
+  if (isIpLiteral(literal) && isPrivateAddress(literal)) return null;
+  u.hash = '';
+  return u.toString();
+}
+
+function isIpLiteral(host: string): boolean {
+  return /^\d{1,3}(\.\d{1,3}){3}$/.test(host) || host.includes(':');
+}
+
+function ipv4ToInt(ip: string): number | null {
+  const parts = ip.split('.').map(Number);
+  if (parts.length !== 4 || parts.some(p => !Number.isInteger(p) || p < 0 || p > 255)) return null;
+  return ((parts[0]! << 24) >>> 0) + (parts[1]! << 16) + (parts[2]! << 8) + parts[3]!;
+}
+
+const PRIVATE_V4: [string, number][] = [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+];
+
+/** ループバック・プライベート・リンクローカル・予約済みのアドレスなら true（解析できないものも true） */
+export function isPrivateAddress(ip: string): boolean {
+  const addr = ip.toLowerCase();
+  if (addr.includes(':')) {
+    if (addr === '::' || addr === '::1') return true;
+    const mapped = /^::ffff:(\d{1,3}(?:\.\d{1,3}){3})$/.exec(addr);
+    if (mapped) return isPrivateAddress(mapped[1]!);
+    if (addr.startsWith('::ffff:')) return true;
+    // NAT64（64:ff9b::/96, 64:ff9b:1::/48）は埋め込まれた IPv4 に抜けられるので丸ごと弾く
+    if (addr.startsWith('64:ff9b:')) return true;
+    return /^(fc|fd|fe[89ab]|ff)/.test(addr);
+  }
+  const n = ipv4ToInt(addr);
+  if (n === null) return true;
+  return PRIVATE_V4.some(([base, bits]) => {
+    const mask = bits === 0 ? 0 : (~0 << (32 - bits)) >>> 0;
+    return ((n & mask) >>> 0) === ((ipv4ToInt(base)! & mask) >>> 0);
+  });
+}
+
+export type HttpResponse = {
+  status: number;
+  headers: Record<string, string>; // 名前は小文字
+  body: Uint8Array;
+};
+
+/** 受け取った HTTP/1.x の応答をステータス・ヘッダー・本文に分ける。形が崩れていれば null */
+export function parseHttpResponse(data: Uint8Array): HttpResponse | null {
+  let headEnd = -1;
+  for (let i = 0; i + 3 < data.length; i++) {
+    if (data[i] === 13 && data[i + 1] === 10 && data[i + 2] === 13 && data[i + 3] === 10) {
+      headEnd = i;
+      break;
+    }
+  }
+  if (headEnd < 0) return null;
+  const [statusLine, ...lines] = new TextDecoder().decode(data.subarray(0, headEnd)).split('\r\n');
+  const m = /^HTTP\/1\.[01] (\d{3})(?: |$)/.exec(statusLine || '');
+  if (!m) return null;
+  const headers: Record<string, string> = {};
+  for (const line of lines) {
+    const i = line.indexOf(':');
+    if (i <= 0) continue;
+    const name = line.slice(0, i).trim().toLowerCase();
+    if (!(name in headers)) headers[name] = line.slice(i + 1).trim();
+  }
+  return { status: Number(m[1]), headers, body: data.subarray(headEnd + 4) };
+}
+
+function decodeEntities(s: string): string {
+  return s
+    .replace(/&#x([0-9a-f]+);/gi, (_, h) => String.fromCodePoint(parseInt(h, 16)))
+    .replace(/&#(\d+);/g, (_, d) => String.fromCodePoint(parseInt(d, 10)))
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&');
+}
+
+function clean(s: string | undefined, max: number): string | null {
+  if (!s) return null;
+  const t = decodeEntities(s).replace(/\s+/g, ' ').trim();
+  if (!t) return null;
+  return t.length > max ? t.slice(0, max) + '…' : t;
+}
+
+function attr(tag: string, name: string): string | undefined {
+  const re = new RegExp(`(?:^|\\s)${name}\\s*=\\s*("([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i');
+  const m = re.exec(tag);
+  return m ? (m[2] ?? m[3] ?? m[4]) : undefined;
+}
+
+/** OGP / Twitter Card / <title> からプレビューを組み立てる。タイトルが無ければ null */
+export function parsePreview(html: string, pageUrl: string): LinkPreview | null {
+  const head = html.slice(0, 200_000);
+  const meta: Record<string, string> = {};
+  for (const m of head.matchAll(/<meta\b[^>]*>/gi)) {
+    const tag = m[0];
+    const key = (attr(tag, 'property') || attr(tag, 'name') || '').toLowerCase();
+    const content = attr(tag, 'content');
+    if (key && content !== undefined && !(key in meta)) meta[key] = content;
+  }
+  const titleTag = /<title[^>]*>([\s\S]*?)<\/title>/i.exec(head)?.[1];
+
+  const title = clean(meta['og:title'] || meta['twitter:title'] || titleTag, 200);
+  if (!title) return null;
+
+  let image: string | null = null;
+  const rawImage = meta['og:image:secure_url'] || meta['og:image'] || meta['twitter:image'];
+  if (rawImage) {
+    try {
+      const abs = new URL(decodeEntities(rawImage.trim()), pageUrl).toString();
+      image = normalizeUrl(abs) ? abs : null;
+    } catch {
+      image = null;
+    }
+  }
+
+  return {
+    url: pageUrl,
+    title,
+    description: clean(meta['og:description'] || meta['twitter:description'] || meta['description'], 300),
+    image_url: image,
+    site_name: clean(meta['og:site_name'], 100),
+  };
+}
@@ -0,0 +1,249 @@
+import 'jsr:@supabase/functions-js/edge-runtime.d.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.54.0';
+import {
+  extractFirstUrl,
+  isPrivateAddress,
+  normalizeUrl,
+  parseHttpResponse,
+  parsePreview,
+  type HttpResponse,
+  type LinkPreview,
+} from './helpers.ts';
+
+type PreviewPayload = {
+  target_type: 'post' | 'message' | 'room_message';
+  target_id: string;
+};
+
+// 対象ごとの本文・投稿者カラムとプレビューの保存先
+const TARGETS = {
+  post: { table: 'posts', author: 'user_id', text: 'body' },
+  message: { table: 'messages', author: 'sender_id', text: 'content' },
+  room_message: { table: 'room_messages', author: 'sender_id', text: 'content' },
+} as const;
+
+const CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+const FAILED_CACHE_TTL_MS = 60 * 60 * 1000;
+const FETCH_TIMEOUT_MS = 5000;
+const MAX_REDIRECTS = 3;
+const MAX_HTML_BYTES = 512 * 1024;
+const MAX_HEAD_BYTES = 16 * 1024;
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+// ホスト名が内部アドレスに解決される場合は取りに行かない（SSRF 対策）。
+// 検査に通ったアドレスを返し、接続にはそれをそのまま使う（検査後に DNS を差し替えられても内部に向かない）
+async function resolvePublicAddress(url: string): Promise<string | null> {
+  const host = new URL(url).hostname.replace(/^\[|\]$/g, '');
+  if (/^\d{1,3}(\.\d{1,3}){3}$/.test(host) || host.includes(':')) {
+    return isPrivateAddress(host) ? null : host;
+  }
+  const addrs: string[] = [];
+  for (const type of ['A', 'AAAA'] as const) {
+    try {
+      addrs.push(...(await Deno.resolveDns(host, type)));
+    } catch {
+      // レコードが無い種類は無視
+    }
+  }
+  return addrs.length > 0 && addrs.every(a => !isPrivateAddress(a)) ? addrs[0]! : null;
+}
+
+/**
+ * 検査済みのアドレスに直接つないで GET する。https の SNI と証明書の検証は元のホスト名で行う。
+ * チャンク転送や圧縮を避けるため HTTP/1.0・identity で頼み、本文は MAX_HTML_BYTES まで読む
+ */
+async function fetchPinned(url: string, address: string): Promise<HttpResponse | null> {
+  const u = new URL(url);
+  const host = u.hostname.replace(/^\[|\]$/g, '');
+  const secure = u.protocol === 'https:';
+  const tcp = await Deno.connect({ hostname: address, port: Number(u.port) || (secure ? 443 : 80) });
+  let conn: Deno.Conn = tcp;
+  const timer = setTimeout(() => conn.close(), FETCH_TIMEOUT_MS);
+  try {
+    if (secure) conn = await Deno.startTls(tcp, { hostname: host });
+    const request = new TextEncoder().encode(
+      [
+        `GET ${u.pathname}${u.search} HTTP/1.0`,
+        `Host: ${u.host}`,
+        'User-Agent: MamapaceLinkPreview/1.0',
+        'Accept: text/html,application/xhtml+xml',
+        'Accept-Encoding: identity',
+        'Connection: close',
+        '',
+        '',
+      ].join('\r\n'),
+    );
+    for (let written = 0; written < request.length; ) {
+      written += await conn.write(request.subarray(written));
+    }
+    const chunks: Uint8Array[] = [];
+    let total = 0;
+    const buf = new Uint8Array(16 * 1024);
+    while (total < MAX_HEAD_BYTES + MAX_HTML_BYTES) {
+      const n = await conn.read(buf);
+      if (n === null) break;
+      chunks.push(buf.slice(0, n));
+      total += n;
+    }
+    const data = new Uint8Array(total);
+    let offset = 0;
+    for (const c of chunks) {
+      data.set(c, offset);
+      offset += c.length;
+    }
+    return parseHttpResponse(data);
+  } finally {
+    clearTimeout(timer);
+    try {
+      conn.close();
+    } catch {
+      // タイムアウトで閉じ済み
+    }
+  }
+}
+
+/** リダイレクトは自前で追い、毎回 URL と解決先アドレスを検査し直して、そのアドレスにつなぐ */
+async function unfurl(startUrl: string): Promise<LinkPreview | null> {
+  let url = startUrl;
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    const address = await resolvePublicAddress(url);
+    if (!address) return null;
+    const res = await fetchPinned(url, address);
+    if (!res) return null;
+    if (res.status >= 300 && res.status < 400) {
+      const location = res.headers['location'];
+      const next = location ? normalizeUrl(new URL(location, url).toString()) : null;
+      if (!next) return null;
+      url = next;
+      continue;
+    }
+    const type = res.headers['content-type'] || '';
+    if (res.status < 200 || res.status >= 300 || !/text\/html|application\/xhtml\+xml/i.test(type)) {
+      return null;
+    }
+    return parsePreview(new TextDecoder().decode(res.body.subarray(0, MAX_HTML_BYTES)), url);
+  }
+  return null;
+}
+
+Deno.serve(async (req) => {
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method Not Allowed' }, 405);
+  }
+
+  let payload: PreviewPayload | null = null;
+  try {
+    payload = (await req.json()) as PreviewPayload;
+  } catch {
+    return jsonResponse({ error: 'Invalid JSON' }, 400);
+  }
+  if (!payload || !payload.target_type || !payload.target_id) {
+    return jsonResponse({ error: 'Missing fields' }, 400);
+  }
+  const target = TARGETS[payload.target_type];
+  if (!target) {
+    return jsonResponse({ error: 'Invalid target_type' }, 400);
+  }
+  const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+  if (!UUID_RE.test(payload.target_id)) {
+    return jsonResponse({ error: 'invalid target_id format' }, 400);
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL');
+  const anonKey = Deno.env.get('SUPABASE_ANON_KEY');
+  const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  if (!supabaseUrl || !anonKey || !serviceKey) {
+    return jsonResponse({ error: 'Server not configured' }, 500);
+  }
+  const supabase = createClient(supabaseUrl, anonKey, {
+    global: { headers: { Authorization: req.headers.get('Authorization') || '' } },
+  });
+  const { data: userRes } = await supabase.auth.getUser();
+  const user = userRes?.user;
+  if (!user) return jsonResponse({ error: 'Not authenticated' }, 401);
+
+  // 本人のクライアントで読めて、かつ本人が書いたものだけ対象にする
+  const columns = `id, ${target.author}, ${target.text}${payload.target_type === 'message' ? ', metadata' : ''}`;
+  const { data: row, error: rowErr } = await supabase
+    .from(target.table)
+    .select(columns)
+    .eq('id', payload.target_id)
+    .maybeSingle();
+  if (rowErr) return jsonResponse({ error: rowErr.message }, 400);
+  if (!row) return jsonResponse({ error: 'Not found' }, 404);
+  const record = row as Record<string, any>;
+  if (record[target.author] !== user.id) {
+    return jsonResponse({ error: 'Forbidden' }, 403);
+  }
+  // 暗号化された DM はサーバーが本文を読めないのでプレビューを作らない
+  if (payload.target_type === 'message' && record.metadata?.e2e) {
+    return jsonResponse({ preview: null });
+  }
+
+  const raw = extractFirstUrl(record[target.text]);
+  const url = raw ? normalizeUrl(raw) : null;
+
+  const supabaseAdmin = createClient(supabaseUrl, serviceKey);
+  let preview: LinkPreview | null = null;
+  if (url) {
+    const { data: cached } = await supabaseAdmin
+      .from('link_previews')
+      .select('url, title, description, image_url, site_name, status, fetched_at')
+      .eq('url', url)
+      .maybeSingle();
+    const age = cached ? Date.now() - new Date(cached.fetched_at).getTime() : Infinity;
+    if (cached && age < (cached.status === 'ok' ? CACHE_TTL_MS : FAILED_CACHE_TTL_MS)) {
+      preview =
+        cached.status === 'ok'
+          ? {
+              url: cached.url,
+              title: cached.title,
+              description: cached.description,
+              image_url: cached.image_url,
+              site_name: cached.site_name,
+            }
+          : null;
+    } else {
+      try {
+        preview = await unfurl(url);
+      } catch (e) {
+        console.error('link-preview: unfurl failed', url, e);
+        preview = null;
+      }
+      // プレビューは最初に書かれた URL で引けるよう、リダイレクト後ではなく元の URL で保存する
+      if (preview) preview = { ...preview, url };
+      const { error: cacheErr } = await supabaseAdmin.from('link_previews').upsert({
+        url,
+        title: preview?.title ?? null,
+        description: preview?.description ?? null,
+        image_url: preview?.image_url ?? null,
+        site_name: preview?.site_name ?? null,
+        status: preview ? 'ok' : 'failed',
+        fetched_at: new Date().toISOString(),
+      });
+      if (cacheErr) console.error('link-preview: cache upsert failed', cacheErr);
+    }
+  }
+
+  // 本文から URL が消えた（編集された）場合はプレビューも外す。
+  // DM の metadata は他の更新と消し合わないよう、link_preview だけを DB 側で差し替える
+  const { error: updErr } =
+    payload.target_type === 'message'
+      ? await supabaseAdmin.rpc('set_message_link_preview', {
+          p_message_id: payload.target_id,
+          p_preview: preview,
+        })
+      : await supabaseAdmin
+          .from(target.table)
+          .update({ link_preview: preview })
+          .eq('id', payload.target_id);
+  if (updErr) return jsonResponse({ error: updErr.message }, 500);
+
+  return jsonResponse({ preview });
+});
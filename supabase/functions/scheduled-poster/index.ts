@@ -0,0 +1,113 @@
+// Deno Edge Function: scheduled-poster
+// cron（setup_scheduled_posts_cron.sql）から毎分呼ばれ、期限の来た予約投稿を公開する
+// 公開処理は publish_scheduled_post()（create_post_v2 を作者として実行）に委譲し、
+// ここではハッシュタグの保存のみを追加で行う
+
+import 'jsr:@supabase/functions-js/edge-runtime.d.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.45.4';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// 1回の起動で処理する最大件数（cron は毎分なので溢れた分は次回に回す）
+const BATCH_SIZE = 50;
+
+/**
+ * 投稿本文からハッシュタグを抽出（src/utils/hashtag.ts と同じ規則）
+ */
+function extractHashtags(body: string): string[] {
+  if (!body) {
+    return [];
+  }
+  const text = body.normalize('NFKC');
+  const regex = /#([\p{L}\p{N}_ー・]+)/gu;
+  const found = new Set<string>();
+  let m: RegExpExecArray | null;
+  while ((m = regex.exec(text))) {
+    const tag = (m[1] || '').trim();
+    if (tag.length > 0) {
+      found.add(tag.slice(0, 48));
+    }
+  }
+  return Array.from(found);
+}
+
+Deno.serve(async (req) => {
+  // CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const SUPABASE_URL = Deno.env.get('SUPABASE_URL') ?? '';
+    const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+
+    if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+      throw new Error('Supabase の環境変数が設定されていません');
+    }
+
+    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+
+    // ========== 1. 期限の来た予約投稿を取得 ==========
+    const { data: due, error: dueError } = await supabase
+      .from('post_drafts')
+      .select('id')
+      .eq('status', 'scheduled')
+      .lte('scheduled_at', new Date().toISOString())
+      .order('scheduled_at', { ascending: true })
+      .limit(BATCH_SIZE);
+
+    if (dueError) {
+      throw new Error(`予約投稿の取得エラー: ${dueError.message}`);
+    }
+
+    let published = 0;
+    let failed = 0;
+
+    // ========== 2. 1件ずつ公開（失敗は publish_scheduled_post 側で failed に記録） ==========
+    for (const draft of due ?? []) {
+      const { data: post, error } = await supabase.rpc('publish_scheduled_post', {
+        p_draft_id: draft.id,
+      });
+      if (error) {
+        console.error('予約投稿の公開エラー:', draft.id, error);
+        failed++;
+        continue;
+      }
+      if (!post?.id) {
+        // 他ワーカーが処理済み、または create_post_v2 が失敗
+        continue;
+      }
+      published++;
+
+      // ========== 3. ハッシュタグ保存（ベストエフォート） ==========
+      const tags = extractHashtags(post.body ?? '');
+      if (tags.length) {
+        const { error: tagError } = await supabase
+          .from('post_hashtags')
+          .upsert(
+            tags.map((t) => ({ post_id: post.id, tag: t })),
+            { onConflict: 'post_id,tag' }
+          );
+        if (tagError) {
+          console.error('ハッシュタグ保存エラー:', tagError);
+        }
+      }
+    }
+
+    console.log(`予約投稿: 対象 ${due?.length ?? 0} 件 / 公開 ${published} 件 / エラー ${failed} 件`);
+
+    return new Response(
+      JSON.stringify({ success: true, due: due?.length ?? 0, published, failed }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 200 }
+    );
+  } catch (error) {
+    console.error('エラー発生:', error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : String(error) }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+    );
+  }
+});
@@ -0,0 +1,293 @@
+-- 投稿リアクションの種類（💛 応援 / 🤝 わかる / 🎉 おめでとう / 🫂 ぎゅっ）
+-- 1ユーザー1投稿につき1リアクション（unique (post_id, user_id)）は維持し、種類だけを持たせる。
+
+-- =====================================================
+-- 1. post_reactions.kind
+-- =====================================================
+ALTER TABLE public.post_reactions
+  ADD COLUMN IF NOT EXISTS kind text NOT NULL DEFAULT 'support';
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'post_reactions_kind_check'
+  ) THEN
+    ALTER TABLE public.post_reactions
+      ADD CONSTRAINT post_reactions_kind_check
+      CHECK (kind IN ('support', 'metoo', 'congrats', 'hug'));
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_post_reactions_post_id_kind
+  ON public.post_reactions(post_id, kind);
+
+-- Realtime の UPDATE / DELETE でも切り替え前の kind を受け取れるようにする
+ALTER TABLE public.post_reactions REPLICA IDENTITY FULL;
+
+-- 種類別件数を {"support": 3, "hug": 1} の形で返す
+CREATE OR REPLACE FUNCTION public.post_reaction_counts(p_post_id uuid)
+RETURNS jsonb
+LANGUAGE sql STABLE SECURITY DEFINER AS $$
+  SELECT coalesce(jsonb_object_agg(kind, cnt), '{}'::jsonb)
+  FROM (
+    SELECT r.kind, count(*) AS cnt
+    FROM public.post_reactions r
+    WHERE r.post_id = p_post_id
+    GROUP BY r.kind
+  ) k;
+$$;
+
+-- =====================================================
+-- 2. add_reaction_v2 に種類を追加（既存のリアクションは種類を切り替える）
+-- =====================================================
+DROP FUNCTION IF EXISTS public.add_reaction_v2(uuid);
+
+CREATE OR REPLACE FUNCTION public.add_reaction_v2(
+  p_post_id uuid,
+  p_kind text DEFAULT 'support'
+)
+RETURNS boolean
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  v_inserted boolean;
+BEGIN
+  IF p_kind NOT IN ('support', 'metoo', 'congrats', 'hug') THEN
+    RAISE EXCEPTION 'Invalid reaction kind: %', p_kind;
+  END IF;
+
+  INSERT INTO public.post_reactions(post_id, user_id, kind)
+  VALUES (p_post_id, auth.uid(), p_kind)
+  ON CONFLICT (post_id, user_id) DO UPDATE SET kind = excluded.kind
+  RETURNING (xmax = 0) INTO v_inserted;
+
+  RETURN coalesce(v_inserted, false); -- true if inserted, false if kind switched
+END; $$;
+
+GRANT EXECUTE ON FUNCTION public.add_reaction_v2(uuid, text) TO authenticated;
+
+-- =====================================================
+-- 3. 通知: like 通知にリアクションの種類を載せる
+-- =====================================================
+ALTER TABLE public.notifications
+  ADD COLUMN IF NOT EXISTS metadata jsonb NOT NULL DEFAULT '{}'::jsonb;
+
+CREATE OR REPLACE FUNCTION public.notify_post_reaction()
+RETURNS trigger
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  v_author uuid;
+  v_name text;
+BEGIN
+  -- 種類が変わらない更新は通知しない
+  IF TG_OP = 'UPDATE' AND NEW.kind = OLD.kind THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT p.user_id INTO v_author FROM public.posts p WHERE p.id = NEW.post_id;
+  IF v_author IS NULL OR v_author = NEW.user_id THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT coalesce(u.display_name, u.username) INTO v_name
+  FROM public.user_profiles u WHERE u.id = NEW.user_id;
+
+  INSERT INTO public.notifications(user_id, type, content, metadata)
+  VALUES (
+    v_author,
+    'like',
+    coalesce(v_name, 'だれか') || 'さんがあなたのポストにリアクションしました',
+    jsonb_build_object(
+      'post_id', NEW.post_id,
+      'actor_id', NEW.user_id,
+      'reaction', NEW.kind
+    )
+  );
+  RETURN NEW;
+END; $$;
+
+DROP TRIGGER IF EXISTS trg_notify_post_reaction ON public.post_reactions;
+CREATE TRIGGER trg_notify_post_reaction
+  AFTER INSERT OR UPDATE OF kind ON public.post_reactions
+  FOR EACH ROW EXECUTE FUNCTION public.notify_post_reaction();
+
+-- =====================================================
+-- 4. フィードRPCに種類別件数と自分のリアクションを追加
+-- =====================================================
+DROP FUNCTION IF EXISTS public.get_home_feed_v2(int, timestamptz);
+DROP FUNCTION IF EXISTS public.get_home_feed_v2_filtered(int, timestamptz);
+DROP FUNCTION IF EXISTS public.get_user_posts_v2(int, timestamptz);
+DROP FUNCTION IF EXISTS public.get_liked_posts_v2(int, timestamptz);
+
+CREATE OR REPLACE FUNCTION public.get_home_feed_v2(
+  p_limit int DEFAULT 20,
+  p_offset_time timestamptz DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  body text,
+  attachments jsonb,
+  is_ad boolean,
+  created_at timestamptz,
+  display_name text,
+  avatar_emoji text,
+  is_liked boolean,
+  my_reaction text,
+  reaction_count bigint,
+  reaction_counts jsonb,
+  comment_count bigint
+) LANGUAGE plpgsql SECURITY DEFINER AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    p.id,
+    p.user_id,
+    p.body,
+    p.attachments,
+    coalesce(p.is_ad, false),
+    p.created_at,
+    u.display_name,
+    u.avatar_emoji,
+    mr.kind IS NOT NULL AS is_liked,
+    mr.kind AS my_reaction,
+    (SELECT count(*) FROM public.post_reactions r WHERE r.post_id = p.id) AS reaction_count,
+    public.post_reaction_counts(p.id) AS reaction_counts,
+    (SELECT count(*) FROM public.post_comments c WHERE c.post_id = p.id) AS comment_count
+  FROM public.posts p
+  JOIN public.user_profiles u ON p.user_id = u.id
+  LEFT JOIN public.post_reactions mr ON mr.post_id = p.id AND mr.user_id = auth.uid()
+  WHERE (p_offset_time IS NULL OR p.created_at < p_offset_time)
+  ORDER BY p.created_at DESC
+  LIMIT greatest(1, least(coalesce(p_limit, 20), 100));
+END; $$;
+
+CREATE OR REPLACE FUNCTION public.get_home_feed_v2_filtered(
+  p_limit int DEFAULT 20,
+  p_offset_time timestamptz DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  body text,
+  attachments jsonb,
+  is_ad boolean,
+  created_at timestamptz,
+  display_name text,
+  avatar_emoji text,
+  is_liked boolean,
+  my_reaction text,
+  reaction_count bigint,
+  reaction_counts jsonb,
+  comment_count bigint
+) LANGUAGE plpgsql SECURITY DEFINER AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    p.id,
+    p.user_id,
+    p.body,
+    p.attachments,
+    coalesce(p.is_ad, false),
+    p.created_at,
+    u.display_name,
+    u.avatar_emoji,
+    mr.kind IS NOT NULL AS is_liked,
+    mr.kind AS my_reaction,
+    (SELECT count(*) FROM public.post_reactions r WHERE r.post_id = p.id) AS reaction_count,
+    public.post_reaction_counts(p.id) AS reaction_counts,
+    (SELECT count(*) FROM public.post_comments c WHERE c.post_id = p.id) AS comment_count
+  FROM public.posts_filtered p
+  JOIN public.user_profiles u ON p.user_id = u.id
+  LEFT JOIN public.post_reactions mr ON mr.post_id = p.id AND mr.user_id = auth.uid()
+  WHERE (p_offset_time IS NULL OR p.created_at < p_offset_time)
+  ORDER BY p.created_at DESC
+  LIMIT greatest(1, least(coalesce(p_limit, 20), 100));
+END; $$;
+
+CREATE OR REPLACE FUNCTION public.get_user_posts_v2(
+  p_limit int DEFAULT 20,
+  p_offset_time timestamptz DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  body text,
+  attachments jsonb,
+  created_at timestamptz,
+  display_name text,
+  avatar_emoji text,
+  is_liked boolean,
+  my_reaction text,
+  reaction_count bigint,
+  reaction_counts jsonb,
+  comment_count bigint
+) LANGUAGE plpgsql SECURITY DEFINER AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    p.id,
+    p.user_id,
+    p.body,
+    p.attachments,
+    p.created_at,
+    u.display_name,
+    u.avatar_emoji,
+    mr.kind IS NOT NULL AS is_liked,
+    mr.kind AS my_reaction,
+    (SELECT count(*) FROM public.post_reactions r WHERE r.post_id = p.id) AS reaction_count,
+    public.post_reaction_counts(p.id) AS reaction_counts,
+    (SELECT count(*) FROM public.post_comments c WHERE c.post_id = p.id) AS comment_count
+  FROM public.posts p
+  JOIN public.user_profiles u ON p.user_id = u.id
+  LEFT JOIN public.post_reactions mr ON mr.post_id = p.id AND mr.user_id = auth.uid()
+  WHERE p.user_id = auth.uid()
+    AND (p_offset_time IS NULL OR p.created_at < p_offset_time)
+  ORDER BY p.created_at DESC
+  LIMIT greatest(1, least(coalesce(p_limit, 20), 100));
+END; $$;
+
+CREATE OR REPLACE FUNCTION public.get_liked_posts_v2(
+  p_limit int DEFAULT 20,
+  p_offset_time timestamptz DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  body text,
+  attachments jsonb,
+  created_at timestamptz,
+  display_name text,
+  avatar_emoji text,
+  is_liked boolean,
+  my_reaction text,
+  reaction_count bigint,
+  reaction_counts jsonb,
+  comment_count bigint
+) LANGUAGE plpgsql SECURITY DEFINER AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    p.id,
+    p.user_id,
+    p.body,
+    p.attachments,
+    p.created_at,
+    u.display_name,
+    u.avatar_emoji,
+    true AS is_liked,
+    r.kind AS my_reaction,
+    (SELECT count(*) FROM public.post_reactions r2 WHERE r2.post_id = p.id) AS reaction_count,
+    public.post_reaction_counts(p.id) AS reaction_counts,
+    (SELECT count(*) FROM public.post_comments c2 WHERE c2.post_id = p.id) AS comment_count
+  FROM public.posts p
+  JOIN public.user_profiles u ON p.user_id = u.id
+  JOIN public.post_reactions r ON r.post_id = p.id AND r.user_id = auth.uid()
+  WHERE (p_offset_time IS NULL OR r.created_at < p_offset_time)
+  ORDER BY r.created_at DESC
+  LIMIT greatest(1, least(coalesce(p_limit, 20), 100));
+END; $$;
+
+GRANT EXECUTE ON FUNCTION public.get_home_feed_v2(int, timestamptz) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_home_feed_v2_filtered(int, timestamptz) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_user_posts_v2(int, timestamptz) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_liked_posts_v2(int, timestamptz) TO authenticated;
@@ -0,0 +1,146 @@
+-- 投稿の下書きと予約投稿
+-- 下書きは本人のみ読み書き可能。scheduled_at を設定すると予約投稿になり、
+-- cron から呼ばれる scheduled-poster（Edge Function）が publish_scheduled_post() で公開する。
+
+-- =====================================================
+-- 1. post_drafts
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.post_drafts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES public.user_profiles(id) ON DELETE CASCADE,
+  body text NOT NULL DEFAULT '' CHECK (char_length(body) <= 300),
+  attachments jsonb NOT NULL DEFAULT '[]'::jsonb,
+  status text NOT NULL DEFAULT 'draft'
+    CHECK (status IN ('draft', 'scheduled', 'published', 'failed')),
+  scheduled_at timestamptz NULL,
+  published_post_id uuid NULL REFERENCES public.posts(id) ON DELETE SET NULL,
+  last_error text NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT post_drafts_attachments_max CHECK (jsonb_array_length(attachments) <= 4),
+  CONSTRAINT post_drafts_scheduled_at_required
+    CHECK (status <> 'scheduled' OR scheduled_at IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_post_drafts_user_updated
+  ON public.post_drafts(user_id, updated_at DESC);
+CREATE INDEX IF NOT EXISTS idx_post_drafts_due
+  ON public.post_drafts(scheduled_at) WHERE status = 'scheduled';
+
+CREATE OR REPLACE FUNCTION public.touch_post_drafts_updated_at()
+RETURNS trigger LANGUAGE plpgsql AS $$
+BEGIN
+  NEW.updated_at := now();
+  RETURN NEW;
+END; $$;
+
+DROP TRIGGER IF EXISTS trg_post_drafts_updated_at ON public.post_drafts;
+CREATE TRIGGER trg_post_drafts_updated_at
+  BEFORE UPDATE ON public.post_drafts
+  FOR EACH ROW EXECUTE FUNCTION public.touch_post_drafts_updated_at();
+
+-- =====================================================
+-- 2. RLS: 本人の下書きのみ。公開済み・失敗の行はクライアントから状態を書き換えさせない
+-- =====================================================
+ALTER TABLE public.post_drafts ENABLE ROW LEVEL SECURITY;
+
+DO $$ BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE schemaname = 'public' AND tablename = 'post_drafts' AND policyname = 'post_drafts_select_own'
+  ) THEN
+    CREATE POLICY post_drafts_select_own ON public.post_drafts
+      FOR SELECT USING (auth.uid() = user_id);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE schemaname = 'public' AND tablename = 'post_drafts' AND policyname = 'post_drafts_insert_own'
+  ) THEN
+    CREATE POLICY post_drafts_insert_own ON public.post_drafts
+      FOR INSERT WITH CHECK (
+        auth.uid() = user_id AND status IN ('draft', 'scheduled')
+      );
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE schemaname = 'public' AND tablename = 'post_drafts' AND policyname = 'post_drafts_update_own'
+  ) THEN
+    CREATE POLICY post_drafts_update_own ON public.post_drafts
+      FOR UPDATE USING (auth.uid() = user_id AND status IN ('draft', 'scheduled', 'failed'))
+      WITH CHECK (auth.uid() = user_id AND status IN ('draft', 'scheduled'));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE schemaname = 'public' AND tablename = 'post_drafts' AND policyname = 'post_drafts_delete_own'
+  ) THEN
+    CREATE POLICY post_drafts_delete_own ON public.post_drafts
+      FOR DELETE USING (auth.uid() = user_id);
+  END IF;
+END $$;
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.post_drafts TO authenticated;
+
+-- =====================================================
+-- 3. 予約投稿の公開（service_role 専用）
+-- create_post_v2 は auth.uid() で投稿者を決めるため、JWT クレームを作者に差し替えて呼び出す。
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.publish_scheduled_post(p_draft_id uuid)
+RETURNS public.posts
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  v_draft public.post_drafts%rowtype;
+  v_post public.posts%rowtype;
+BEGIN
+  SELECT * INTO v_draft
+  FROM public.post_drafts
+  WHERE id = p_draft_id
+    AND status = 'scheduled'
+    AND scheduled_at <= now()
+  FOR UPDATE SKIP LOCKED;
+
+  IF NOT FOUND THEN
+    RETURN NULL; -- 既に処理済み / 他ワーカーが処理中
+  END IF;
+
+  PERFORM set_config(
+    'request.jwt.claims',
+    json_build_object('sub', v_draft.user_id, 'role', 'authenticated')::text,
+    true
+  );
+
+  BEGIN
+    v_post := public.create_post_v2(v_draft.body, v_draft.attachments);
+  EXCEPTION WHEN others THEN
+    UPDATE public.post_drafts
+      SET status = 'failed', last_error = SQLERRM
+      WHERE id = v_draft.id;
+    INSERT INTO public.notifications(user_id, type, content, metadata)
+    VALUES (
+      v_draft.user_id,
+      'system',
+      '予約投稿に失敗しました。下書きから内容を確認してください',
+      jsonb_build_object('draft_id', v_draft.id)
+    );
+    RETURN NULL;
+  END;
+
+  UPDATE public.post_drafts
+    SET status = 'published', published_post_id = v_post.id, last_error = NULL
+    WHERE id = v_draft.id;
+
+  INSERT INTO public.notifications(user_id, type, content, metadata)
+  VALUES (
+    v_draft.user_id,
+    'system',
+    '予約していたポストを公開しました',
+    jsonb_build_object('draft_id', v_draft.id, 'post_id', v_post.id)
+  );
+
+  RETURN v_post;
+END; $$;
+
+REVOKE ALL ON FUNCTION public.publish_scheduled_post(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.publish_scheduled_post(uuid) TO service_role;
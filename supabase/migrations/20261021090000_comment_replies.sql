@@ -0,0 +1,204 @@
+-- コメントへの返信（1階層のスレッド）
+-- 返信への返信は親コメント（スレッドの先頭）にぶら下げ、ツリーを深くしない。
+-- 実際に返信した相手は reply_to_comment_id に残し、通知はそのコメントの作者に送る。
+
+-- =====================================================
+-- 1. post_comments.parent_comment_id
+-- =====================================================
+ALTER TABLE public.post_comments
+  ADD COLUMN IF NOT EXISTS parent_comment_id uuid NULL
+  REFERENCES public.post_comments(id) ON DELETE CASCADE;
+
+-- 返信先のコメント（返信への返信では parent_comment_id と異なる）
+ALTER TABLE public.post_comments
+  ADD COLUMN IF NOT EXISTS reply_to_comment_id uuid NULL
+  REFERENCES public.post_comments(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_post_comments_parent_created_at
+  ON public.post_comments(parent_comment_id, created_at)
+  WHERE parent_comment_id IS NOT NULL;
+
+-- =====================================================
+-- 2. 通知タイプに comment_reply を追加
+-- =====================================================
+ALTER TABLE public.notifications DROP CONSTRAINT IF EXISTS notifications_type_check;
+ALTER TABLE public.notifications
+  ADD CONSTRAINT notifications_type_check
+  CHECK (type IN ('like', 'comment', 'comment_reply', 'system', 'follow', 'message', 'room'));
+
+CREATE OR REPLACE FUNCTION public.notify_comment_reply()
+RETURNS trigger
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  v_reply_to uuid := coalesce(NEW.reply_to_comment_id, NEW.parent_comment_id);
+  v_parent_author uuid;
+  v_name text;
+BEGIN
+  IF v_reply_to IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  -- スレッドの先頭ではなく、実際に返信したコメントの作者に通知する
+  SELECT c.user_id INTO v_parent_author
+  FROM public.post_comments c WHERE c.id = v_reply_to;
+  IF v_parent_author IS NULL OR v_parent_author = NEW.user_id THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT coalesce(u.display_name, u.username) INTO v_name
+  FROM public.user_profiles u WHERE u.id = NEW.user_id;
+
+  INSERT INTO public.notifications(user_id, type, content, metadata)
+  VALUES (
+    v_parent_author,
+    'comment_reply',
+    coalesce(v_name, 'だれか') || 'さんがあなたのコメントに返信しました',
+    jsonb_build_object(
+      'post_id', NEW.post_id,
+      'comment_id', NEW.id,
+      'parent_comment_id', NEW.parent_comment_id,
+      'reply_to_comment_id', v_reply_to,
+      'actor_id', NEW.user_id
+    )
+  );
+  RETURN NEW;
+END; $$;
+
+DROP TRIGGER IF EXISTS trg_notify_comment_reply ON public.post_comments;
+CREATE TRIGGER trg_notify_comment_reply
+  AFTER INSERT ON public.post_comments
+  FOR EACH ROW EXECUTE FUNCTION public.notify_comment_reply();
+
+-- =====================================================
+-- 3. create_comment_v2 に返信先を追加
+-- =====================================================
+DROP FUNCTION IF EXISTS public.create_comment_v2(uuid, text, jsonb);
+
+CREATE OR REPLACE FUNCTION public.create_comment_v2(
+  p_post_id uuid,
+  p_body text,
+  p_attachments jsonb DEFAULT '[]',
+  p_parent_comment_id uuid DEFAULT NULL
+)
+RETURNS public.post_comments
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  v_comment public.post_comments%rowtype;
+  v_parent public.post_comments%rowtype;
+  v_parent_id uuid := NULL;
+BEGIN
+  -- Validate attachments array (max 4 images)
+  IF jsonb_array_length(COALESCE(p_attachments, '[]'::jsonb)) > 4 THEN
+    RAISE EXCEPTION 'Maximum 4 images allowed per comment';
+  END IF;
+
+  -- Body or attachments must be present
+  IF (p_body IS NULL OR trim(p_body) = '') AND
+     (p_attachments IS NULL OR p_attachments = '[]'::jsonb) THEN
+    RAISE EXCEPTION 'Comment must have content or images';
+  END IF;
+
+  IF p_parent_comment_id IS NOT NULL THEN
+    SELECT * INTO v_parent FROM public.post_comments WHERE id = p_parent_comment_id;
+    IF NOT FOUND OR v_parent.post_id <> p_post_id THEN
+      RAISE EXCEPTION 'Parent comment not found for this post';
+    END IF;
+    -- 返信への返信はスレッドの先頭にまとめる
+    v_parent_id := coalesce(v_parent.parent_comment_id, v_parent.id);
+  END IF;
+
+  INSERT INTO public.post_comments(post_id, user_id, body, attachments, parent_comment_id, reply_to_comment_id)
+  VALUES (p_post_id, auth.uid(), COALESCE(p_body, ''), COALESCE(p_attachments, '[]'::jsonb), v_parent_id, p_parent_comment_id)
+  RETURNING * INTO v_comment;
+
+  RETURN v_comment;
+END; $$;
+
+GRANT EXECUTE ON FUNCTION public.create_comment_v2(uuid, text, jsonb, uuid) TO authenticated;
+
+-- =====================================================
+-- 4. コメント一覧はスレッドの先頭のみ＋返信数
+-- =====================================================
+DROP FUNCTION IF EXISTS public.get_post_comments_v2(uuid, int, timestamptz);
+
+CREATE OR REPLACE FUNCTION public.get_post_comments_v2(
+  p_post_id uuid,
+  p_limit int DEFAULT 50,
+  p_offset_time timestamptz DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  post_id uuid,
+  user_id uuid,
+  parent_comment_id uuid,
+  body text,
+  attachments jsonb,
+  created_at timestamptz,
+  display_name text,
+  avatar_emoji text,
+  reply_count bigint
+) LANGUAGE plpgsql SECURITY DEFINER AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    c.id,
+    c.post_id,
+    c.user_id,
+    c.parent_comment_id,
+    c.body,
+    c.attachments,
+    c.created_at,
+    u.display_name,
+    u.avatar_emoji,
+    (SELECT count(*) FROM public.post_comments r WHERE r.parent_comment_id = c.id) AS reply_count
+  FROM public.post_comments c
+  JOIN public.user_profiles u ON c.user_id = u.id
+  WHERE c.post_id = p_post_id
+    AND c.parent_comment_id IS NULL
+    AND (p_offset_time IS NULL OR c.created_at < p_offset_time)
+  ORDER BY c.created_at DESC
+  LIMIT greatest(1, least(coalesce(p_limit, 50), 100));
+END; $$;
+
+GRANT EXECUTE ON FUNCTION public.get_post_comments_v2(uuid, int, timestamptz) TO authenticated;
+
+-- =====================================================
+-- 5. 返信一覧（古い順・p_after でページング）
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.get_comment_replies_v2(
+  p_parent_comment_id uuid,
+  p_limit int DEFAULT 20,
+  p_after timestamptz DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  post_id uuid,
+  user_id uuid,
+  parent_comment_id uuid,
+  body text,
+  attachments jsonb,
+  created_at timestamptz,
+  display_name text,
+  avatar_emoji text
+) LANGUAGE plpgsql SECURITY DEFINER AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    c.id,
+    c.post_id,
+    c.user_id,
+    c.parent_comment_id,
+    c.body,
+    c.attachments,
+    c.created_at,
+    u.display_name,
+    u.avatar_emoji
+  FROM public.post_comments c
+  JOIN public.user_profiles u ON c.user_id = u.id
+  WHERE c.parent_comment_id = p_parent_comment_id
+    AND (p_after IS NULL OR c.created_at > p_after)
+  ORDER BY c.created_at ASC
+  LIMIT greatest(1, least(coalesce(p_limit, 20), 100));
+END; $$;
+
+GRANT EXECUTE ON FUNCTION public.get_comment_replies_v2(uuid, int, timestamptz) TO authenticated;
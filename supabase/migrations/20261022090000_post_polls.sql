@@ -0,0 +1,256 @@
+-- 投稿に添付する投票（2〜4択、締切あり、単一/複数選択）
+-- 投票は1ユーザーにつき単一選択なら1票、複数選択なら各選択肢1票まで。
+
+-- =====================================================
+-- 1. Tables
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.post_polls (
+  post_id uuid PRIMARY KEY REFERENCES public.posts(id) ON DELETE CASCADE,
+  allows_multiple boolean NOT NULL DEFAULT false,
+  closes_at timestamptz NOT NULL,
+  closed_notified_at timestamptz NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_post_polls_due
+  ON public.post_polls(closes_at) WHERE closed_notified_at IS NULL;
+
+CREATE TABLE IF NOT EXISTS public.post_poll_options (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  post_id uuid NOT NULL REFERENCES public.post_polls(post_id) ON DELETE CASCADE,
+  position smallint NOT NULL CHECK (position BETWEEN 0 AND 3),
+  label text NOT NULL CHECK (char_length(trim(label)) BETWEEN 1 AND 40),
+  UNIQUE (post_id, position)
+);
+
+CREATE TABLE IF NOT EXISTS public.post_poll_votes (
+  post_id uuid NOT NULL REFERENCES public.post_polls(post_id) ON DELETE CASCADE,
+  option_id uuid NOT NULL REFERENCES public.post_poll_options(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES public.user_profiles(id) ON DELETE CASCADE,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (option_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_post_poll_votes_post_user
+  ON public.post_poll_votes(post_id, user_id);
+
+-- 直接の読み書きはさせず、RPC 経由のみ（posts と同じ方針）
+ALTER TABLE public.post_polls ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.post_poll_options ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.post_poll_votes ENABLE ROW LEVEL SECURITY;
+REVOKE SELECT, INSERT, UPDATE, DELETE ON TABLE public.post_polls FROM anon, authenticated;
+REVOKE SELECT, INSERT, UPDATE, DELETE ON TABLE public.post_poll_options FROM anon, authenticated;
+REVOKE INSERT, UPDATE, DELETE ON TABLE public.post_poll_votes FROM anon, authenticated;
+
+-- Realtime で票数の変化を受け取るため、票は post_id の一致だけ読めるようにする（誰が投票したかは RPC で返さない）
+DO $$ BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE schemaname = 'public' AND tablename = 'post_poll_votes' AND policyname = 'post_poll_votes_select_authenticated'
+  ) THEN
+    CREATE POLICY post_poll_votes_select_authenticated ON public.post_poll_votes
+      FOR SELECT TO authenticated USING (true);
+  END IF;
+END $$;
+GRANT SELECT (post_id, option_id, created_at) ON public.post_poll_votes TO authenticated;
+
+DO $$ BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'post_poll_votes'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.post_poll_votes;
+  END IF;
+END $$;
+
+-- =====================================================
+-- 2. create_post_v2 に投票を追加
+-- p_poll: {"options": ["A", "B"], "closes_at": "...", "allows_multiple": false}
+-- =====================================================
+DROP FUNCTION IF EXISTS public.create_post_v2(text, jsonb);
+
+CREATE OR REPLACE FUNCTION public.create_post_v2(
+  p_body text,
+  p_attachments jsonb DEFAULT '[]',
+  p_poll jsonb DEFAULT NULL
+)
+RETURNS public.posts
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  v_post public.posts%rowtype;
+  v_options jsonb;
+  v_closes_at timestamptz;
+  v_label text;
+  v_pos int := 0;
+BEGIN
+  -- Validate attachments array (max 4 images)
+  IF jsonb_array_length(COALESCE(p_attachments, '[]'::jsonb)) > 4 THEN
+    RAISE EXCEPTION 'Maximum 4 images allowed per post';
+  END IF;
+
+  -- Body or attachments must be present
+  IF (p_body IS NULL OR trim(p_body) = '') AND
+     (p_attachments IS NULL OR p_attachments = '[]'::jsonb) THEN
+    RAISE EXCEPTION 'Post must have content or images';
+  END IF;
+
+  IF p_poll IS NOT NULL THEN
+    v_options := coalesce(p_poll->'options', '[]'::jsonb);
+    IF jsonb_typeof(v_options) <> 'array'
+       OR jsonb_array_length(v_options) NOT BETWEEN 2 AND 4 THEN
+      RAISE EXCEPTION 'Poll must have 2 to 4 options';
+    END IF;
+    v_closes_at := (p_poll->>'closes_at')::timestamptz;
+    IF v_closes_at IS NULL
+       OR v_closes_at < now() + interval '5 minutes'
+       OR v_closes_at > now() + interval '7 days' THEN
+      RAISE EXCEPTION 'Poll closing time must be between 5 minutes and 7 days from now';
+    END IF;
+  END IF;
+
+  INSERT INTO public.posts(user_id, body, attachments)
+  VALUES (auth.uid(), COALESCE(p_body, ''), COALESCE(p_attachments, '[]'::jsonb))
+  RETURNING * INTO v_post;
+
+  IF p_poll IS NOT NULL THEN
+    INSERT INTO public.post_polls(post_id, allows_multiple, closes_at)
+    VALUES (v_post.id, coalesce((p_poll->>'allows_multiple')::boolean, false), v_closes_at);
+
+    FOR v_label IN SELECT jsonb_array_elements_text(v_options) LOOP
+      INSERT INTO public.post_poll_options(post_id, position, label)
+      VALUES (v_post.id, v_pos, trim(v_label));
+      v_pos := v_pos + 1;
+    END LOOP;
+  END IF;
+
+  RETURN v_post;
+END; $$;
+
+GRANT EXECUTE ON FUNCTION public.create_post_v2(text, jsonb, jsonb) TO authenticated;
+
+-- =====================================================
+-- 3. 投票の取得（複数投稿まとめて）
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.get_post_polls_v2(p_post_ids uuid[])
+RETURNS TABLE (
+  post_id uuid,
+  allows_multiple boolean,
+  closes_at timestamptz,
+  total_votes bigint,
+  voter_count bigint,
+  options jsonb
+) LANGUAGE sql STABLE SECURITY DEFINER AS $$
+  SELECT
+    pp.post_id,
+    pp.allows_multiple,
+    pp.closes_at,
+    (SELECT count(*) FROM public.post_poll_votes v WHERE v.post_id = pp.post_id) AS total_votes,
+    (SELECT count(DISTINCT v.user_id) FROM public.post_poll_votes v WHERE v.post_id = pp.post_id) AS voter_count,
+    (
+      SELECT coalesce(jsonb_agg(jsonb_build_object(
+        'id', o.id,
+        'label', o.label,
+        'position', o.position,
+        'votes', (SELECT count(*) FROM public.post_poll_votes v WHERE v.option_id = o.id),
+        'voted_by_me', EXISTS (
+          SELECT 1 FROM public.post_poll_votes v
+          WHERE v.option_id = o.id AND v.user_id = auth.uid()
+        )
+      ) ORDER BY o.position), '[]'::jsonb)
+      FROM public.post_poll_options o
+      WHERE o.post_id = pp.post_id
+    ) AS options
+  FROM public.post_polls pp
+  WHERE pp.post_id = ANY(p_post_ids);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_post_polls_v2(uuid[]) TO authenticated;
+
+-- =====================================================
+-- 4. 投票 / 取り消し
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.vote_poll_v2(p_post_id uuid, p_option_ids uuid[])
+RETURNS boolean
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  v_poll public.post_polls%rowtype;
+  v_count int := coalesce(array_length(p_option_ids, 1), 0);
+BEGIN
+  SELECT * INTO v_poll FROM public.post_polls WHERE post_id = p_post_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Poll not found';
+  END IF;
+  IF v_poll.closes_at <= now() THEN
+    RAISE EXCEPTION 'Poll is closed';
+  END IF;
+  IF v_count = 0 THEN
+    RAISE EXCEPTION 'Select at least one option';
+  END IF;
+  IF NOT v_poll.allows_multiple AND v_count > 1 THEN
+    RAISE EXCEPTION 'This poll allows only one choice';
+  END IF;
+  IF (
+    SELECT count(*) FROM public.post_poll_options
+    WHERE post_id = p_post_id AND id = ANY(p_option_ids)
+  ) <> v_count THEN
+    RAISE EXCEPTION 'Invalid poll option';
+  END IF;
+
+  -- 選び直しは置き換え
+  DELETE FROM public.post_poll_votes
+  WHERE post_id = p_post_id AND user_id = auth.uid();
+
+  INSERT INTO public.post_poll_votes(post_id, option_id, user_id)
+  SELECT p_post_id, unnest(p_option_ids), auth.uid();
+
+  RETURN true;
+END; $$;
+
+CREATE OR REPLACE FUNCTION public.unvote_poll_v2(p_post_id uuid)
+RETURNS boolean
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM public.post_polls WHERE post_id = p_post_id AND closes_at <= now()
+  ) THEN
+    RAISE EXCEPTION 'Poll is closed';
+  END IF;
+  DELETE FROM public.post_poll_votes WHERE post_id = p_post_id AND user_id = auth.uid();
+  RETURN found; -- true if deleted
+END; $$;
+
+GRANT EXECUTE ON FUNCTION public.vote_poll_v2(uuid, uuid[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.unvote_poll_v2(uuid) TO authenticated;
+
+-- =====================================================
+-- 5. 締切通知（cron から毎分実行: setup_poll_close_cron.sql）
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.notify_closed_polls()
+RETURNS integer
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  WITH due AS (
+    UPDATE public.post_polls pp
+      SET closed_notified_at = now()
+      WHERE pp.closed_notified_at IS NULL AND pp.closes_at <= now()
+      RETURNING pp.post_id
+  )
+  INSERT INTO public.notifications(user_id, type, content, metadata)
+  SELECT
+    p.user_id,
+    'system',
+    'あなたの投票が締め切られました。結果をチェックしましょう',
+    jsonb_build_object(
+      'post_id', p.id,
+      'total_votes', (SELECT count(*) FROM public.post_poll_votes v WHERE v.post_id = p.id)
+    )
+  FROM due
+  JOIN public.posts p ON p.id = due.post_id;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END; $$;
+
+REVOKE ALL ON FUNCTION public.notify_closed_polls() FROM PUBLIC, anon, authenticated;
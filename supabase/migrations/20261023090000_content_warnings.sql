@@ -0,0 +1,536 @@
+-- 投稿・コメントのコンテンツ警告（流産・産後うつ・NICU など）
+-- 警告つきの本文はアプリ側で折りたたみ表示し、設定で選んだカテゴリはホームフィードから除外する。
+-- カテゴリは src/utils/contentWarnings.ts と揃えること。
+
+-- =====================================================
+-- 1. Columns
+-- =====================================================
+ALTER TABLE public.posts
+  ADD COLUMN IF NOT EXISTS content_warning text NULL;
+ALTER TABLE public.post_comments
+  ADD COLUMN IF NOT EXISTS content_warning text NULL;
+
+ALTER TABLE public.posts DROP CONSTRAINT IF EXISTS posts_content_warning_check;
+ALTER TABLE public.posts
+  ADD CONSTRAINT posts_content_warning_check
+  CHECK (content_warning IS NULL OR content_warning IN ('pregnancy_loss', 'mental_health', 'nicu', 'medical', 'other'));
+ALTER TABLE public.post_comments DROP CONSTRAINT IF EXISTS post_comments_content_warning_check;
+ALTER TABLE public.post_comments
+  ADD CONSTRAINT post_comments_content_warning_check
+  CHECK (content_warning IS NULL OR content_warning IN ('pregnancy_loss', 'mental_health', 'nicu', 'medical', 'other'));
+
+-- 下書き・予約投稿も警告つきのまま保存し、公開時にそのまま付ける
+ALTER TABLE public.post_drafts
+  ADD COLUMN IF NOT EXISTS content_warning text NULL;
+ALTER TABLE public.post_drafts DROP CONSTRAINT IF EXISTS post_drafts_content_warning_check;
+ALTER TABLE public.post_drafts
+  ADD CONSTRAINT post_drafts_content_warning_check
+  CHECK (content_warning IS NULL OR content_warning IN ('pregnancy_loss', 'mental_health', 'nicu', 'medical', 'other'));
+
+-- posts_filtered は p.* で作られているため、追加した列を含めるよう作り直す
+CREATE OR REPLACE VIEW public.posts_filtered AS
+SELECT p.*
+FROM public.posts p
+WHERE NOT EXISTS (
+  SELECT 1 FROM public.block_relationships br
+  WHERE br.blocker_id = auth.uid()
+    AND br.blocked_id = p.user_id
+);
+ALTER VIEW public.posts_filtered SET (security_invoker = true);
+
+-- =====================================================
+-- 2. ユーザーごとの非表示カテゴリ
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.user_content_preferences (
+  user_id uuid PRIMARY KEY REFERENCES public.user_profiles(id) ON DELETE CASCADE,
+  hidden_content_warnings text[] NOT NULL DEFAULT '{}',
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.user_content_preferences ENABLE ROW LEVEL SECURITY;
+
+DO $$ BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE schemaname = 'public' AND tablename = 'user_content_preferences' AND policyname = 'user_content_preferences_own'
+  ) THEN
+    CREATE POLICY user_content_preferences_own ON public.user_content_preferences
+      FOR ALL TO authenticated
+      USING (user_id = auth.uid())
+      WITH CHECK (user_id = auth.uid());
+  END IF;
+END $$;
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.user_content_preferences TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.my_hidden_content_warnings()
+RETURNS text[]
+LANGUAGE sql STABLE SECURITY DEFINER AS $$
+  SELECT coalesce(
+    (SELECT hidden_content_warnings FROM public.user_content_preferences WHERE user_id = auth.uid()),
+    '{}'::text[]
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.my_hidden_content_warnings() TO authenticated;
+
+-- =====================================================
+-- 3. create_post_v2 / create_comment_v2 に警告カテゴリを追加
+-- =====================================================
+DROP FUNCTION IF EXISTS public.create_post_v2(text, jsonb, jsonb);
+
+CREATE OR REPLACE FUNCTION public.create_post_v2(
+  p_body text,
+  p_attachments jsonb DEFAULT '[]',
+  p_poll jsonb DEFAULT NULL,
+  p_content_warning text DEFAULT NULL
+)
+RETURNS public.posts
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  v_post public.posts%rowtype;
+  v_options jsonb;
+  v_closes_at timestamptz;
+  v_label text;
+  v_pos int := 0;
+BEGIN
+  -- Validate attachments array (max 4 images)
+  IF jsonb_array_length(COALESCE(p_attachments, '[]'::jsonb)) > 4 THEN
+    RAISE EXCEPTION 'Maximum 4 images allowed per post';
+  END IF;
+
+  -- Body or attachments must be present
+  IF (p_body IS NULL OR trim(p_body) = '') AND
+     (p_attachments IS NULL OR p_attachments = '[]'::jsonb) THEN
+    RAISE EXCEPTION 'Post must have content or images';
+  END IF;
+
+  IF p_poll IS NOT NULL THEN
+    v_options := coalesce(p_poll->'options', '[]'::jsonb);
+    IF jsonb_typeof(v_options) <> 'array'
+       OR jsonb_array_length(v_options) NOT BETWEEN 2 AND 4 THEN
+      RAISE EXCEPTION 'Poll must have 2 to 4 options';
+    END IF;
+    v_closes_at := (p_poll->>'closes_at')::timestamptz;
+    IF v_closes_at IS NULL
+       OR v_closes_at < now() + interval '5 minutes'
+       OR v_closes_at > now() + interval '7 days' THEN
+      RAISE EXCEPTION 'Poll closing time must be between 5 minutes and 7 days from now';
+    END IF;
+  END IF;
+
+  INSERT INTO public.posts(user_id, body, attachments, content_warning)
+  VALUES (auth.uid(), COALESCE(p_body, ''), COALESCE(p_attachments, '[]'::jsonb), p_content_warning)
+  RETURNING * INTO v_post;
+
+  IF p_poll IS NOT NULL THEN
+    INSERT INTO public.post_polls(post_id, allows_multiple, closes_at)
+    VALUES (v_post.id, coalesce((p_poll->>'allows_multiple')::boolean, false), v_closes_at);
+
+    FOR v_label IN SELECT jsonb_array_elements_text(v_options) LOOP
+      INSERT INTO public.post_poll_options(post_id, position, label)
+      VALUES (v_post.id, v_pos, trim(v_label));
+      v_pos := v_pos + 1;
+    END LOOP;
+  END IF;
+
+  RETURN v_post;
+END; $$;
+
+GRANT EXECUTE ON FUNCTION public.create_post_v2(text, jsonb, jsonb, text) TO authenticated;
+
+DROP FUNCTION IF EXISTS public.create_comment_v2(uuid, text, jsonb, uuid);
+
+CREATE OR REPLACE FUNCTION public.create_comment_v2(
+  p_post_id uuid,
+  p_body text,
+  p_attachments jsonb DEFAULT '[]',
+  p_parent_comment_id uuid DEFAULT NULL,
+  p_content_warning text DEFAULT NULL
+)
+RETURNS public.post_comments
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  v_comment public.post_comments%rowtype;
+  v_parent public.post_comments%rowtype;
+  v_parent_id uuid := NULL;
+BEGIN
+  -- Validate attachments array (max 4 images)
+  IF jsonb_array_length(COALESCE(p_attachments, '[]'::jsonb)) > 4 THEN
+    RAISE EXCEPTION 'Maximum 4 images allowed per comment';
+  END IF;
+
+  -- Body or attachments must be present
+  IF (p_body IS NULL OR trim(p_body) = '') AND
+     (p_attachments IS NULL OR p_attachments = '[]'::jsonb) THEN
+    RAISE EXCEPTION 'Comment must have content or images';
+  END IF;
+
+  IF p_parent_comment_id IS NOT NULL THEN
+    SELECT * INTO v_parent FROM public.post_comments WHERE id = p_parent_comment_id;
+    IF NOT FOUND OR v_parent.post_id <> p_post_id THEN
+      RAISE EXCEPTION 'Parent comment not found for this post';
+    END IF;
+    -- 返信への返信はスレッドの先頭にまとめる
+    v_parent_id := coalesce(v_parent.parent_comment_id, v_parent.id);
+  END IF;
+
+  INSERT INTO public.post_comments(post_id, user_id, body, attachments, parent_comment_id, reply_to_comment_id, content_warning)
+  VALUES (p_post_id, auth.uid(), COALESCE(p_body, ''), COALESCE(p_attachments, '[]'::jsonb), v_parent_id, p_parent_comment_id, p_content_warning)
+  RETURNING * INTO v_comment;
+
+  RETURN v_comment;
+END; $$;
+
+GRANT EXECUTE ON FUNCTION public.create_comment_v2(uuid, text, jsonb, uuid, text) TO authenticated;
+
+DROP FUNCTION IF EXISTS public.get_post_comments_v2(uuid, int, timestamptz);
+
+CREATE OR REPLACE FUNCTION public.get_post_comments_v2(
+  p_post_id uuid,
+  p_limit int DEFAULT 50,
+  p_offset_time timestamptz DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  post_id uuid,
+  user_id uuid,
+  parent_comment_id uuid,
+  body text,
+  attachments jsonb,
+  content_warning text,
+  created_at timestamptz,
+  display_name text,
+  avatar_emoji text,
+  reply_count bigint
+) LANGUAGE plpgsql SECURITY DEFINER AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    c.id,
+    c.post_id,
+    c.user_id,
+    c.parent_comment_id,
+    c.body,
+    c.attachments,
+    c.content_warning,
+    c.created_at,
+    u.display_name,
+    u.avatar_emoji,
+    (SELECT count(*) FROM public.post_comments r WHERE r.parent_comment_id = c.id) AS reply_count
+  FROM public.post_comments c
+  JOIN public.user_profiles u ON c.user_id = u.id
+  WHERE c.post_id = p_post_id
+    AND c.parent_comment_id IS NULL
+    AND (p_offset_time IS NULL OR c.created_at < p_offset_time)
+  ORDER BY c.created_at DESC
+  LIMIT greatest(1, least(coalesce(p_limit, 50), 100));
+END; $$;
+
+GRANT EXECUTE ON FUNCTION public.get_post_comments_v2(uuid, int, timestamptz) TO authenticated;
+
+DROP FUNCTION IF EXISTS public.get_comment_replies_v2(uuid, int, timestamptz);
+
+CREATE OR REPLACE FUNCTION public.get_comment_replies_v2(
+  p_parent_comment_id uuid,
+  p_limit int DEFAULT 20,
+  p_after timestamptz DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  post_id uuid,
+  user_id uuid,
+  parent_comment_id uuid,
+  body text,
+  attachments jsonb,
+  content_warning text,
+  created_at timestamptz,
+  display_name text,
+  avatar_emoji text
+) LANGUAGE plpgsql SECURITY DEFINER AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    c.id,
+    c.post_id,
+    c.user_id,
+    c.parent_comment_id,
+    c.body,
+    c.attachments,
+    c.content_warning,
+    c.created_at,
+    u.display_name,
+    u.avatar_emoji
+  FROM public.post_comments c
+  JOIN public.user_profiles u ON c.user_id = u.id
+  WHERE c.parent_comment_id = p_parent_comment_id
+    AND (p_after IS NULL OR c.created_at > p_after)
+  ORDER BY c.created_at ASC
+  LIMIT greatest(1, least(coalesce(p_limit, 20), 100));
+END; $$;
+
+GRANT EXECUTE ON FUNCTION public.get_comment_replies_v2(uuid, int, timestamptz) TO authenticated;
+
+-- =====================================================
+-- 4. フィードに content_warning を追加し、非表示カテゴリを除外
+-- =====================================================
+DROP FUNCTION IF EXISTS public.get_home_feed_v2(int, timestamptz);
+DROP FUNCTION IF EXISTS public.get_home_feed_v2_filtered(int, timestamptz);
+DROP FUNCTION IF EXISTS public.get_user_posts_v2(int, timestamptz);
+DROP FUNCTION IF EXISTS public.get_liked_posts_v2(int, timestamptz);
+
+CREATE OR REPLACE FUNCTION public.get_home_feed_v2(
+  p_limit int DEFAULT 20,
+  p_offset_time timestamptz DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  body text,
+  attachments jsonb,
+  content_warning text,
+  is_ad boolean,
+  created_at timestamptz,
+  display_name text,
+  avatar_emoji text,
+  is_liked boolean,
+  my_reaction text,
+  reaction_count bigint,
+  reaction_counts jsonb,
+  comment_count bigint
+) LANGUAGE plpgsql SECURITY DEFINER AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    p.id,
+    p.user_id,
+    p.body,
+    p.attachments,
+    p.content_warning,
+    coalesce(p.is_ad, false),
+    p.created_at,
+    u.display_name,
+    u.avatar_emoji,
+    mr.kind IS NOT NULL AS is_liked,
+    mr.kind AS my_reaction,
+    (SELECT count(*) FROM public.post_reactions r WHERE r.post_id = p.id) AS reaction_count,
+    public.post_reaction_counts(p.id) AS reaction_counts,
+    (SELECT count(*) FROM public.post_comments c WHERE c.post_id = p.id) AS comment_count
+  FROM public.posts p
+  JOIN public.user_profiles u ON p.user_id = u.id
+  LEFT JOIN public.post_reactions mr ON mr.post_id = p.id AND mr.user_id = auth.uid()
+  WHERE (p_offset_time IS NULL OR p.created_at < p_offset_time)
+    -- 設定で非表示にしたカテゴリの投稿は除外（自分の投稿は常に表示）
+    AND (
+      p.content_warning IS NULL
+      OR p.user_id = auth.uid()
+      OR NOT p.content_warning = ANY(public.my_hidden_content_warnings())
+    )
+  ORDER BY p.created_at DESC
+  LIMIT greatest(1, least(coalesce(p_limit, 20), 100));
+END; $$;
+
+CREATE OR REPLACE FUNCTION public.get_home_feed_v2_filtered(
+  p_limit int DEFAULT 20,
+  p_offset_time timestamptz DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  body text,
+  attachments jsonb,
+  content_warning text,
+  is_ad boolean,
+  created_at timestamptz,
+  display_name text,
+  avatar_emoji text,
+  is_liked boolean,
+  my_reaction text,
+  reaction_count bigint,
+  reaction_counts jsonb,
+  comment_count bigint
+) LANGUAGE plpgsql SECURITY DEFINER AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    p.id,
+    p.user_id,
+    p.body,
+    p.attachments,
+    p.content_warning,
+    coalesce(p.is_ad, false),
+    p.created_at,
+    u.display_name,
+    u.avatar_emoji,
+    mr.kind IS NOT NULL AS is_liked,
+    mr.kind AS my_reaction,
+    (SELECT count(*) FROM public.post_reactions r WHERE r.post_id = p.id) AS reaction_count,
+    public.post_reaction_counts(p.id) AS reaction_counts,
+    (SELECT count(*) FROM public.post_comments c WHERE c.post_id = p.id) AS comment_count
+  FROM public.posts_filtered p
+  JOIN public.user_profiles u ON p.user_id = u.id
+  LEFT JOIN public.post_reactions mr ON mr.post_id = p.id AND mr.user_id = auth.uid()
+  WHERE (p_offset_time IS NULL OR p.created_at < p_offset_time)
+    -- 設定で非表示にしたカテゴリの投稿は除外（自分の投稿は常に表示）
+    AND (
+      p.content_warning IS NULL
+      OR p.user_id = auth.uid()
+      OR NOT p.content_warning = ANY(public.my_hidden_content_warnings())
+    )
+  ORDER BY p.created_at DESC
+  LIMIT greatest(1, least(coalesce(p_limit, 20), 100));
+END; $$;
+
+CREATE OR REPLACE FUNCTION public.get_user_posts_v2(
+  p_limit int DEFAULT 20,
+  p_offset_time timestamptz DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  body text,
+  attachments jsonb,
+  content_warning text,
+  created_at timestamptz,
+  display_name text,
+  avatar_emoji text,
+  is_liked boolean,
+  my_reaction text,
+  reaction_count bigint,
+  reaction_counts jsonb,
+  comment_count bigint
+) LANGUAGE plpgsql SECURITY DEFINER AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    p.id,
+    p.user_id,
+    p.body,
+    p.attachments,
+    p.content_warning,
+    p.created_at,
+    u.display_name,
+    u.avatar_emoji,
+    mr.kind IS NOT NULL AS is_liked,
+    mr.kind AS my_reaction,
+    (SELECT count(*) FROM public.post_reactions r WHERE r.post_id = p.id) AS reaction_count,
+    public.post_reaction_counts(p.id) AS reaction_counts,
+    (SELECT count(*) FROM public.post_comments c WHERE c.post_id = p.id) AS comment_count
+  FROM public.posts p
+  JOIN public.user_profiles u ON p.user_id = u.id
+  LEFT JOIN public.post_reactions mr ON mr.post_id = p.id AND mr.user_id = auth.uid()
+  WHERE p.user_id = auth.uid()
+    AND (p_offset_time IS NULL OR p.created_at < p_offset_time)
+  ORDER BY p.created_at DESC
+  LIMIT greatest(1, least(coalesce(p_limit, 20), 100));
+END; $$;
+
+CREATE OR REPLACE FUNCTION public.get_liked_posts_v2(
+  p_limit int DEFAULT 20,
+  p_offset_time timestamptz DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  body text,
+  attachments jsonb,
+  content_warning text,
+  created_at timestamptz,
+  display_name text,
+  avatar_emoji text,
+  is_liked boolean,
+  my_reaction text,
+  reaction_count bigint,
+  reaction_counts jsonb,
+  comment_count bigint
+) LANGUAGE plpgsql SECURITY DEFINER AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    p.id,
+    p.user_id,
+    p.body,
+    p.attachments,
+    p.content_warning,
+    p.created_at,
+    u.display_name,
+    u.avatar_emoji,
+    true AS is_liked,
+    r.kind AS my_reaction,
+    (SELECT count(*) FROM public.post_reactions r2 WHERE r2.post_id = p.id) AS reaction_count,
+    public.post_reaction_counts(p.id) AS reaction_counts,
+    (SELECT count(*) FROM public.post_comments c2 WHERE c2.post_id = p.id) AS comment_count
+  FROM public.posts p
+  JOIN public.user_profiles u ON p.user_id = u.id
+  JOIN public.post_reactions r ON r.post_id = p.id AND r.user_id = auth.uid()
+  WHERE (p_offset_time IS NULL OR r.created_at < p_offset_time)
+  ORDER BY r.created_at DESC
+  LIMIT greatest(1, least(coalesce(p_limit, 20), 100));
+END; $$;
+
+GRANT EXECUTE ON FUNCTION public.get_home_feed_v2(int, timestamptz) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_home_feed_v2_filtered(int, timestamptz) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_user_posts_v2(int, timestamptz) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_liked_posts_v2(int, timestamptz) TO authenticated;
+
+-- =====================================================
+-- 5. 予約投稿の公開で警告カテゴリを引き継ぐ
+-- =====================================================
+-- 20261020090000_post_drafts_and_schedule の publish_scheduled_post を作り直す
+CREATE OR REPLACE FUNCTION public.publish_scheduled_post(p_draft_id uuid)
+RETURNS public.posts
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  v_draft public.post_drafts%rowtype;
+  v_post public.posts%rowtype;
+BEGIN
+  SELECT * INTO v_draft
+  FROM public.post_drafts
+  WHERE id = p_draft_id
+    AND status = 'scheduled'
+    AND scheduled_at <= now()
+  FOR UPDATE SKIP LOCKED;
+
+  IF NOT FOUND THEN
+    RETURN NULL; -- 既に処理済み / 他ワーカーが処理中
+  END IF;
+
+  PERFORM set_config(
+    'request.jwt.claims',
+    json_build_object('sub', v_draft.user_id, 'role', 'authenticated')::text,
+    true
+  );
+
+  BEGIN
+    v_post := public.create_post_v2(v_draft.body, v_draft.attachments, NULL, v_draft.content_warning);
+  EXCEPTION WHEN others THEN
+    UPDATE public.post_drafts
+      SET status = 'failed', last_error = SQLERRM
+      WHERE id = v_draft.id;
+    INSERT INTO public.notifications(user_id, type, content, metadata)
+    VALUES (
+      v_draft.user_id,
+      'system',
+      '予約投稿に失敗しました。下書きから内容を確認してください',
+      jsonb_build_object('draft_id', v_draft.id)
+    );
+    RETURN NULL;
+  END;
+
+  UPDATE public.post_drafts
+    SET status = 'published', published_post_id = v_post.id, last_error = NULL
+    WHERE id = v_draft.id;
+
+  INSERT INTO public.notifications(user_id, type, content, metadata)
+  VALUES (
+    v_draft.user_id,
+    'system',
+    '予約していたポストを公開しました',
+    jsonb_build_object('draft_id', v_draft.id, 'post_id', v_post.id)
+  );
+
+  RETURN v_post;
+END; $$;
+
+REVOKE ALL ON FUNCTION public.publish_scheduled_post(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.publish_scheduled_post(uuid) TO service_role;
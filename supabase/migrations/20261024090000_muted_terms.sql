@@ -0,0 +1,42 @@
+-- ミュートワード・ハッシュタグ（ユーザーごと、期限つき）
+-- 照合はアプリ側で行う（NFKC 正規化は src/services/mutedTermService.ts と揃える）。
+
+CREATE TABLE IF NOT EXISTS public.muted_terms (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES public.user_profiles(id) ON DELETE CASCADE,
+  kind text NOT NULL CHECK (kind IN ('word', 'hashtag')),
+  term text NOT NULL CHECK (char_length(term) BETWEEN 1 AND 48),
+  expires_at timestamptz NULL, -- NULL は無期限
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (user_id, kind, term)
+);
+
+CREATE INDEX IF NOT EXISTS idx_muted_terms_user
+  ON public.muted_terms(user_id, created_at DESC);
+
+ALTER TABLE public.muted_terms ENABLE ROW LEVEL SECURITY;
+
+DO $$ BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE schemaname = 'public' AND tablename = 'muted_terms' AND policyname = 'muted_terms_own'
+  ) THEN
+    CREATE POLICY muted_terms_own ON public.muted_terms
+      FOR ALL TO authenticated
+      USING (user_id = auth.uid())
+      WITH CHECK (user_id = auth.uid());
+  END IF;
+END $$;
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.muted_terms TO authenticated;
+
+-- 期限切れの行は毎日掃除（pg_cron が有効な環境のみ）
+DO $$ BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule(
+      'purge-expired-muted-terms',
+      '30 3 * * *',
+      $cron$ DELETE FROM public.muted_terms WHERE expires_at IS NOT NULL AND expires_at < now(); $cron$
+    );
+  END IF;
+END $$;
@@ -0,0 +1,128 @@
+-- 非公開のブックマーク（保存した投稿）とユーザーが名前をつけるコレクション
+-- 共感（リアクション）と違い、本人以外には一切見えない。
+
+-- =====================================================
+-- 1. Tables
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.bookmark_collections (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES public.user_profiles(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (char_length(trim(name)) BETWEEN 1 AND 30),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (user_id, name)
+);
+
+CREATE TABLE IF NOT EXISTS public.post_bookmarks (
+  user_id uuid NOT NULL REFERENCES public.user_profiles(id) ON DELETE CASCADE,
+  post_id uuid NOT NULL REFERENCES public.posts(id) ON DELETE CASCADE,
+  -- NULL は未分類。コレクションを消しても保存は残す
+  collection_id uuid NULL REFERENCES public.bookmark_collections(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, post_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_post_bookmarks_user_created_at
+  ON public.post_bookmarks(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_post_bookmarks_collection
+  ON public.post_bookmarks(collection_id, created_at DESC)
+  WHERE collection_id IS NOT NULL;
+
+ALTER TABLE public.bookmark_collections ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.post_bookmarks ENABLE ROW LEVEL SECURITY;
+
+DO $$ BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE schemaname = 'public' AND tablename = 'bookmark_collections' AND policyname = 'bookmark_collections_own'
+  ) THEN
+    CREATE POLICY bookmark_collections_own ON public.bookmark_collections
+      FOR ALL TO authenticated
+      USING (user_id = auth.uid())
+      WITH CHECK (user_id = auth.uid());
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE schemaname = 'public' AND tablename = 'post_bookmarks' AND policyname = 'post_bookmarks_own'
+  ) THEN
+    -- 他人のコレクションには入れられないようにする
+    CREATE POLICY post_bookmarks_own ON public.post_bookmarks
+      FOR ALL TO authenticated
+      USING (user_id = auth.uid())
+      WITH CHECK (
+        user_id = auth.uid()
+        AND (
+          collection_id IS NULL
+          OR EXISTS (
+            SELECT 1 FROM public.bookmark_collections bc
+            WHERE bc.id = collection_id AND bc.user_id = auth.uid()
+          )
+        )
+      );
+  END IF;
+END $$;
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.bookmark_collections TO authenticated;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.post_bookmarks TO authenticated;
+
+-- =====================================================
+-- 2. 保存した投稿の一覧（保存した順・p_offset_time は bookmarked_at）
+-- p_collection_id: NULL ならすべて
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.get_bookmarked_posts_v2(
+  p_limit int DEFAULT 20,
+  p_offset_time timestamptz DEFAULT NULL,
+  p_collection_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  body text,
+  attachments jsonb,
+  content_warning text,
+  created_at timestamptz,
+  display_name text,
+  avatar_emoji text,
+  is_liked boolean,
+  my_reaction text,
+  reaction_count bigint,
+  reaction_counts jsonb,
+  comment_count bigint,
+  collection_id uuid,
+  bookmarked_at timestamptz
+) LANGUAGE plpgsql STABLE SECURITY DEFINER AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    p.id,
+    p.user_id,
+    p.body,
+    p.attachments,
+    p.content_warning,
+    p.created_at,
+    u.display_name,
+    u.avatar_emoji,
+    mr.kind IS NOT NULL AS is_liked,
+    mr.kind AS my_reaction,
+    (SELECT count(*) FROM public.post_reactions r WHERE r.post_id = p.id) AS reaction_count,
+    public.post_reaction_counts(p.id) AS reaction_counts,
+    (SELECT count(*) FROM public.post_comments c WHERE c.post_id = p.id) AS comment_count,
+    b.collection_id,
+    b.created_at AS bookmarked_at
+  FROM public.post_bookmarks b
+  JOIN public.posts p ON p.id = b.post_id
+  JOIN public.user_profiles u ON p.user_id = u.id
+  LEFT JOIN public.post_reactions mr ON mr.post_id = p.id AND mr.user_id = auth.uid()
+  WHERE b.user_id = auth.uid()
+    AND (p_collection_id IS NULL OR b.collection_id = p_collection_id)
+    AND (p_offset_time IS NULL OR b.created_at < p_offset_time)
+    -- ブロックした相手の投稿は出さない
+    AND NOT EXISTS (
+      SELECT 1 FROM public.block_relationships br
+      WHERE br.blocker_id = auth.uid() AND br.blocked_id = p.user_id
+    )
+  ORDER BY b.created_at DESC
+  LIMIT greatest(1, least(coalesce(p_limit, 20), 100));
+END; $$;
+
+GRANT EXECUTE ON FUNCTION public.get_bookmarked_posts_v2(int, timestamptz, uuid) TO authenticated;
@@ -0,0 +1,377 @@
+-- 投稿の編集と編集履歴
+-- 投稿後 30 分以内なら本文を直せる。直す前の本文は post_edits に残し、誰でも履歴として見られる。
+-- 編集期限は src/services/postService.ts の POST_EDIT_WINDOW_MS と揃えること。
+
+-- =====================================================
+-- 1. Columns
+-- =====================================================
+ALTER TABLE public.posts
+  ADD COLUMN IF NOT EXISTS edited_at timestamptz NULL;
+
+-- posts_filtered は p.* で作られているため、追加した列を含めるよう作り直す
+CREATE OR REPLACE VIEW public.posts_filtered AS
+SELECT p.*
+FROM public.posts p
+WHERE NOT EXISTS (
+  SELECT 1 FROM public.block_relationships br
+  WHERE br.blocker_id = auth.uid()
+    AND br.blocked_id = p.user_id
+);
+ALTER VIEW public.posts_filtered SET (security_invoker = true);
+
+-- =====================================================
+-- 2. 編集履歴（編集前の本文を 1 版ずつ保存）
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.post_edits (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  post_id uuid NOT NULL REFERENCES public.posts(id) ON DELETE CASCADE,
+  body text NOT NULL,
+  -- この版が書き換えられた日時
+  edited_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_post_edits_post_id
+  ON public.post_edits (post_id, edited_at);
+
+ALTER TABLE public.post_edits ENABLE ROW LEVEL SECURITY;
+
+-- 履歴は見えている投稿についてのみ読める。書き込みは edit_post_v2 経由のみ
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE schemaname = 'public' AND tablename = 'post_edits' AND policyname = 'post_edits_select_visible'
+  ) THEN
+    CREATE POLICY post_edits_select_visible ON public.post_edits
+      FOR SELECT TO authenticated
+      USING (EXISTS (SELECT 1 FROM public.posts_filtered p WHERE p.id = post_id));
+  END IF;
+END $$;
+
+-- =====================================================
+-- 3. edit_post_v2
+-- =====================================================
+-- p_tags はアプリ側で抽出したハッシュタグ（src/utils/hashtag.ts）。post_hashtags を置き換える
+CREATE OR REPLACE FUNCTION public.edit_post_v2(
+  p_post_id uuid,
+  p_body text,
+  p_tags text[] DEFAULT '{}'
+)
+RETURNS public.posts
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  v_post public.posts%rowtype;
+  v_body text := trim(coalesce(p_body, ''));
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_post FROM public.posts WHERE id = p_post_id FOR UPDATE;
+  IF NOT FOUND OR v_post.user_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Post not found';
+  END IF;
+  IF v_post.created_at < now() - interval '30 minutes' THEN
+    RAISE EXCEPTION 'Edit window has passed';
+  END IF;
+  IF v_body = '' AND coalesce(v_post.attachments, '[]'::jsonb) = '[]'::jsonb THEN
+    RAISE EXCEPTION 'Post must have content or images';
+  END IF;
+  IF char_length(v_body) > 300 THEN
+    RAISE EXCEPTION 'Post body is too long';
+  END IF;
+
+  -- 変更がなければ履歴を増やさない
+  IF v_body = v_post.body THEN
+    RETURN v_post;
+  END IF;
+
+  INSERT INTO public.post_edits(post_id, body) VALUES (v_post.id, v_post.body);
+
+  UPDATE public.posts
+  SET body = v_body, edited_at = now()
+  WHERE id = v_post.id
+  RETURNING * INTO v_post;
+
+  DELETE FROM public.post_hashtags WHERE post_id = v_post.id;
+  INSERT INTO public.post_hashtags(post_id, tag)
+  SELECT DISTINCT v_post.id, t
+  FROM unnest(coalesce(p_tags, '{}'::text[])) AS t
+  WHERE t <> ''
+  ON CONFLICT (post_id, tag) DO NOTHING;
+
+  RETURN v_post;
+END; $$;
+
+GRANT EXECUTE ON FUNCTION public.edit_post_v2(uuid, text, text[]) TO authenticated;
+
+-- =====================================================
+-- 4. フィードに edited_at を追加
+-- =====================================================
+DROP FUNCTION IF EXISTS public.get_home_feed_v2(int, timestamptz);
+DROP FUNCTION IF EXISTS public.get_home_feed_v2_filtered(int, timestamptz);
+DROP FUNCTION IF EXISTS public.get_user_posts_v2(int, timestamptz);
+DROP FUNCTION IF EXISTS public.get_liked_posts_v2(int, timestamptz);
+DROP FUNCTION IF EXISTS public.get_bookmarked_posts_v2(int, timestamptz, uuid);
+
+CREATE OR REPLACE FUNCTION public.get_home_feed_v2(
+  p_limit int DEFAULT 20,
+  p_offset_time timestamptz DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  body text,
+  attachments jsonb,
+  content_warning text,
+  edited_at timestamptz,
+  is_ad boolean,
+  created_at timestamptz,
+  display_name text,
+  avatar_emoji text,
+  is_liked boolean,
+  my_reaction text,
+  reaction_count bigint,
+  reaction_counts jsonb,
+  comment_count bigint
+) LANGUAGE plpgsql SECURITY DEFINER AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    p.id,
+    p.user_id,
+    p.body,
+    p.attachments,
+    p.content_warning,
+    p.edited_at,
+    coalesce(p.is_ad, false),
+    p.created_at,
+    u.display_name,
+    u.avatar_emoji,
+    mr.kind IS NOT NULL AS is_liked,
+    mr.kind AS my_reaction,
+    (SELECT count(*) FROM public.post_reactions r WHERE r.post_id = p.id) AS reaction_count,
+    public.post_reaction_counts(p.id) AS reaction_counts,
+    (SELECT count(*) FROM public.post_comments c WHERE c.post_id = p.id) AS comment_count
+  FROM public.posts p
+  JOIN public.user_profiles u ON p.user_id = u.id
+  LEFT JOIN public.post_reactions mr ON mr.post_id = p.id AND mr.user_id = auth.uid()
+  WHERE (p_offset_time IS NULL OR p.created_at < p_offset_time)
+    -- 設定で非表示にしたカテゴリの投稿は除外（自分の投稿は常に表示）
+    AND (
+      p.content_warning IS NULL
+      OR p.user_id = auth.uid()
+      OR NOT p.content_warning = ANY(public.my_hidden_content_warnings())
+    )
+  ORDER BY p.created_at DESC
+  LIMIT greatest(1, least(coalesce(p_limit, 20), 100));
+END; $$;
+
+CREATE OR REPLACE FUNCTION public.get_home_feed_v2_filtered(
+  p_limit int DEFAULT 20,
+  p_offset_time timestamptz DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  body text,
+  attachments jsonb,
+  content_warning text,
+  edited_at timestamptz,
+  is_ad boolean,
+  created_at timestamptz,
+  display_name text,
+  avatar_emoji text,
+  is_liked boolean,
+  my_reaction text,
+  reaction_count bigint,
+  reaction_counts jsonb,
+  comment_count bigint
+) LANGUAGE plpgsql SECURITY DEFINER AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    p.id,
+    p.user_id,
+    p.body,
+    p.attachments,
+    p.content_warning,
+    p.edited_at,
+    coalesce(p.is_ad, false),
+    p.created_at,
+    u.display_name,
+    u.avatar_emoji,
+    mr.kind IS NOT NULL AS is_liked,
+    mr.kind AS my_reaction,
+    (SELECT count(*) FROM public.post_reactions r WHERE r.post_id = p.id) AS reaction_count,
+    public.post_reaction_counts(p.id) AS reaction_counts,
+    (SELECT count(*) FROM public.post_comments c WHERE c.post_id = p.id) AS comment_count
+  FROM public.posts_filtered p
+  JOIN public.user_profiles u ON p.user_id = u.id
+  LEFT JOIN public.post_reactions mr ON mr.post_id = p.id AND mr.user_id = auth.uid()
+  WHERE (p_offset_time IS NULL OR p.created_at < p_offset_time)
+    -- 設定で非表示にしたカテゴリの投稿は除外（自分の投稿は常に表示）
+    AND (
+      p.content_warning IS NULL
+      OR p.user_id = auth.uid()
+      OR NOT p.content_warning = ANY(public.my_hidden_content_warnings())
+    )
+  ORDER BY p.created_at DESC
+  LIMIT greatest(1, least(coalesce(p_limit, 20), 100));
+END; $$;
+
+CREATE OR REPLACE FUNCTION public.get_user_posts_v2(
+  p_limit int DEFAULT 20,
+  p_offset_time timestamptz DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  body text,
+  attachments jsonb,
+  content_warning text,
+  edited_at timestamptz,
+  created_at timestamptz,
+  display_name text,
+  avatar_emoji text,
+  is_liked boolean,
+  my_reaction text,
+  reaction_count bigint,
+  reaction_counts jsonb,
+  comment_count bigint
+) LANGUAGE plpgsql SECURITY DEFINER AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    p.id,
+    p.user_id,
+    p.body,
+    p.attachments,
+    p.content_warning,
+    p.edited_at,
+    p.created_at,
+    u.display_name,
+    u.avatar_emoji,
+    mr.kind IS NOT NULL AS is_liked,
+    mr.kind AS my_reaction,
+    (SELECT count(*) FROM public.post_reactions r WHERE r.post_id = p.id) AS reaction_count,
+    public.post_reaction_counts(p.id) AS reaction_counts,
+    (SELECT count(*) FROM public.post_comments c WHERE c.post_id = p.id) AS comment_count
+  FROM public.posts p
+  JOIN public.user_profiles u ON p.user_id = u.id
+  LEFT JOIN public.post_reactions mr ON mr.post_id = p.id AND mr.user_id = auth.uid()
+  WHERE p.user_id = auth.uid()
+    AND (p_offset_time IS NULL OR p.created_at < p_offset_time)
+  ORDER BY p.created_at DESC
+  LIMIT greatest(1, least(coalesce(p_limit, 20), 100));
+END; $$;
+
+CREATE OR REPLACE FUNCTION public.get_liked_posts_v2(
+  p_limit int DEFAULT 20,
+  p_offset_time timestamptz DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  body text,
+  attachments jsonb,
+  content_warning text,
+  edited_at timestamptz,
+  created_at timestamptz,
+  display_name text,
+  avatar_emoji text,
+  is_liked boolean,
+  my_reaction text,
+  reaction_count bigint,
+  reaction_counts jsonb,
+  comment_count bigint
+) LANGUAGE plpgsql SECURITY DEFINER AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    p.id,
+    p.user_id,
+    p.body,
+    p.attachments,
+    p.content_warning,
+    p.edited_at,
+    p.created_at,
+    u.display_name,
+    u.avatar_emoji,
+    true AS is_liked,
+    r.kind AS my_reaction,
+    (SELECT count(*) FROM public.post_reactions r2 WHERE r2.post_id = p.id) AS reaction_count,
+    public.post_reaction_counts(p.id) AS reaction_counts,
+    (SELECT count(*) FROM public.post_comments c2 WHERE c2.post_id = p.id) AS comment_count
+  FROM public.posts p
+  JOIN public.user_profiles u ON p.user_id = u.id
+  JOIN public.post_reactions r ON r.post_id = p.id AND r.user_id = auth.uid()
+  WHERE (p_offset_time IS NULL OR r.created_at < p_offset_time)
+  ORDER BY r.created_at DESC
+  LIMIT greatest(1, least(coalesce(p_limit, 20), 100));
+END; $$;
+
+GRANT EXECUTE ON FUNCTION public.get_home_feed_v2(int, timestamptz) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_home_feed_v2_filtered(int, timestamptz) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_user_posts_v2(int, timestamptz) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_liked_posts_v2(int, timestamptz) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.get_bookmarked_posts_v2(
+  p_limit int DEFAULT 20,
+  p_offset_time timestamptz DEFAULT NULL,
+  p_collection_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  body text,
+  attachments jsonb,
+  content_warning text,
+  edited_at timestamptz,
+  created_at timestamptz,
+  display_name text,
+  avatar_emoji text,
+  is_liked boolean,
+  my_reaction text,
+  reaction_count bigint,
+  reaction_counts jsonb,
+  comment_count bigint,
+  collection_id uuid,
+  bookmarked_at timestamptz
+) LANGUAGE plpgsql STABLE SECURITY DEFINER AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    p.id,
+    p.user_id,
+    p.body,
+    p.attachments,
+    p.content_warning,
+    p.edited_at,
+    p.created_at,
+    u.display_name,
+    u.avatar_emoji,
+    mr.kind IS NOT NULL AS is_liked,
+    mr.kind AS my_reaction,
+    (SELECT count(*) FROM public.post_reactions r WHERE r.post_id = p.id) AS reaction_count,
+    public.post_reaction_counts(p.id) AS reaction_counts,
+    (SELECT count(*) FROM public.post_comments c WHERE c.post_id = p.id) AS comment_count,
+    b.collection_id,
+    b.created_at AS bookmarked_at
+  FROM public.post_bookmarks b
+  JOIN public.posts p ON p.id = b.post_id
+  JOIN public.user_profiles u ON p.user_id = u.id
+  LEFT JOIN public.post_reactions mr ON mr.post_id = p.id AND mr.user_id = auth.uid()
+  WHERE b.user_id = auth.uid()
+    AND (p_collection_id IS NULL OR b.collection_id = p_collection_id)
+    AND (p_offset_time IS NULL OR b.created_at < p_offset_time)
+    -- ブロックした相手の投稿は出さない
+    AND NOT EXISTS (
+      SELECT 1 FROM public.block_relationships br
+      WHERE br.blocker_id = auth.uid() AND br.blocked_id = p.user_id
+    )
+  ORDER BY b.created_at DESC
+  LIMIT greatest(1, least(coalesce(p_limit, 20), 100));
+END; $$;
+
+GRANT EXECUTE ON FUNCTION public.get_bookmarked_posts_v2(int, timestamptz, uuid) TO authenticated;
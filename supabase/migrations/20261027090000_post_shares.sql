@@ -0,0 +1,61 @@
+-- ポストを DM・スペースのチャンネルにシェアする
+-- メッセージにはポストの ID だけを持たせ、プレビューは表示時に get_shared_post_previews_v2 で取り直す。
+-- 削除されたポストやブロック関係にある相手のポストはプレビューが返らず、アプリ側で「表示できません」とする。
+
+-- =====================================================
+-- 1. message_type に post_share を追加
+-- =====================================================
+ALTER TABLE public.messages DROP CONSTRAINT IF EXISTS messages_message_type_check;
+ALTER TABLE public.messages
+  ADD CONSTRAINT messages_message_type_check
+  CHECK (message_type IN ('text', 'image', 'file', 'system', 'post_share'));
+
+ALTER TABLE public.room_messages DROP CONSTRAINT IF EXISTS room_messages_message_type_check;
+ALTER TABLE public.room_messages
+  ADD CONSTRAINT room_messages_message_type_check
+  CHECK (message_type IN ('text', 'image', 'file', 'system', 'post_share'));
+
+-- =====================================================
+-- 2. シェアされたポストのプレビュー
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.get_shared_post_previews_v2(
+  p_post_ids uuid[]
+)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  body text,
+  attachments jsonb,
+  content_warning text,
+  created_at timestamptz,
+  display_name text,
+  avatar_emoji text
+) LANGUAGE plpgsql STABLE SECURITY DEFINER AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    p.id,
+    p.user_id,
+    p.body,
+    p.attachments,
+    p.content_warning,
+    p.created_at,
+    u.display_name,
+    u.avatar_emoji
+  FROM public.posts p
+  JOIN public.user_profiles u ON p.user_id = u.id
+  WHERE p.id = ANY(coalesce(p_post_ids, '{}'::uuid[]))
+    -- どちらかがブロックしていれば見せない
+    AND NOT EXISTS (
+      SELECT 1 FROM public.block_relationships br
+      WHERE (br.blocker_id = auth.uid() AND br.blocked_id = p.user_id)
+         OR (br.blocker_id = p.user_id AND br.blocked_id = auth.uid())
+    )
+  LIMIT 100;
+END; $$;
+
+GRANT EXECUTE ON FUNCTION public.get_shared_post_previews_v2(uuid[]) TO authenticated;
@@ -0,0 +1,128 @@
+-- ポスト本文の全文検索（ハッシュタグ・ユーザー以外の自由入力）
+-- 日本語は単語区切りがないため、形態素解析ではなく n-gram インデックスで部分一致を速くする。
+-- pg_bigm（2-gram）が使える環境ではそちらを優先し、なければ pg_trgm（3-gram）を使う。
+-- pg_bigm は ILIKE に効かないため、どちらも lower(body) に張って LIKE で引く。
+-- 並び順は反応数と新しさのスコア。ページングはスコア順のため offset で行う。
+
+-- =====================================================
+-- 1. n-gram インデックス
+-- =====================================================
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_available_extensions WHERE name = 'pg_bigm') THEN
+    CREATE EXTENSION IF NOT EXISTS pg_bigm;
+    EXECUTE 'CREATE INDEX IF NOT EXISTS idx_posts_body_bigm ON public.posts USING gin (lower(body) gin_bigm_ops)';
+  ELSE
+    CREATE EXTENSION IF NOT EXISTS pg_trgm;
+    EXECUTE 'CREATE INDEX IF NOT EXISTS idx_posts_body_trgm ON public.posts USING gin (lower(body) gin_trgm_ops)';
+  END IF;
+END $$;
+
+-- =====================================================
+-- 2. search_posts_v2
+-- =====================================================
+-- p_query は空白区切りで、すべての語を含む投稿を返す（AND 検索）
+CREATE OR REPLACE FUNCTION public.search_posts_v2(
+  p_query text,
+  p_limit int DEFAULT 20,
+  p_offset int DEFAULT 0,
+  p_since timestamptz DEFAULT NULL,
+  p_until timestamptz DEFAULT NULL,
+  p_verified_only boolean DEFAULT false
+)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  body text,
+  content_warning text,
+  created_at timestamptz,
+  username text,
+  display_name text,
+  avatar_emoji text,
+  maternal_verified boolean,
+  reaction_count bigint,
+  score double precision
+) LANGUAGE plpgsql STABLE SECURITY DEFINER AS $$
+DECLARE
+  v_tokens text[];
+  v_p text[];
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- LIKE のワイルドカードをエスケープして語に分ける
+  SELECT coalesce(array_agg(replace(replace(replace(lower(t), '\', '\\'), '%', '\%'), '_', '\_')), '{}')
+  INTO v_tokens
+  FROM (
+    SELECT DISTINCT t
+    FROM regexp_split_to_table(trim(coalesce(p_query, '')), '\s+') AS t
+    WHERE t <> ''
+    LIMIT 5
+  ) s;
+
+  IF cardinality(v_tokens) = 0 THEN
+    RETURN;
+  END IF;
+
+  -- 語ごとに LIKE 条件を並べてインデックスを使わせる。
+  -- 条件は 5 つ固定なので、語が少ないときは 1 つ目の語で埋める（同じ条件が重なるだけ）
+  SELECT array_agg('%' || coalesce(v_tokens[i], v_tokens[1]) || '%' ORDER BY i)
+  INTO v_p
+  FROM generate_series(1, 5) AS i;
+
+  RETURN QUERY
+  WITH matched AS (
+    SELECT
+      p.id,
+      p.user_id,
+      p.body,
+      p.content_warning,
+      p.created_at,
+      u.username,
+      u.display_name,
+      u.avatar_emoji,
+      coalesce(u.maternal_verified, false) AS maternal_verified,
+      (SELECT count(*) FROM public.post_reactions r WHERE r.post_id = p.id) AS reaction_count
+    FROM public.posts p
+    JOIN public.user_profiles u ON p.user_id = u.id
+    WHERE lower(p.body) LIKE v_p[1]
+      AND lower(p.body) LIKE v_p[2]
+      AND lower(p.body) LIKE v_p[3]
+      AND lower(p.body) LIKE v_p[4]
+      AND lower(p.body) LIKE v_p[5]
+      AND (p_since IS NULL OR p.created_at >= p_since)
+      AND (p_until IS NULL OR p.created_at < p_until)
+      AND NOT EXISTS (
+        SELECT 1 FROM public.block_relationships br
+        WHERE (br.blocker_id = auth.uid() AND br.blocked_id = p.user_id)
+           OR (br.blocker_id = p.user_id AND br.blocked_id = auth.uid())
+      )
+      -- フィードと同じく、設定で非表示にしたカテゴリの投稿は除外（自分の投稿は常に表示）
+      AND (
+        p.content_warning IS NULL
+        OR p.user_id = auth.uid()
+        OR NOT p.content_warning = ANY(public.my_hidden_content_warnings())
+      )
+  )
+  SELECT
+    m.id,
+    m.user_id,
+    m.body,
+    m.content_warning,
+    m.created_at,
+    m.username,
+    m.display_name,
+    m.avatar_emoji,
+    m.maternal_verified,
+    m.reaction_count,
+    -- 反応数は対数で効かせ、1 週間ごとに 1 点ずつ下げる
+    ln(1 + m.reaction_count) - extract(epoch FROM now() - m.created_at) / (7 * 86400.0) AS score
+  FROM matched m
+  WHERE (NOT coalesce(p_verified_only, false) OR m.maternal_verified)
+  ORDER BY score DESC, m.created_at DESC, m.id
+  OFFSET greatest(0, coalesce(p_offset, 0))
+  LIMIT greatest(1, least(coalesce(p_limit, 20), 50));
+END; $$;
+
+GRANT EXECUTE ON FUNCTION public.search_posts_v2(text, int, int, timestamptz, timestamptz, boolean) TO authenticated;
@@ -0,0 +1,630 @@
+-- 少人数のグループ DM（例: 同じ出産月のママ最大 20 人）
+-- conversations は 1:1 を participant_1_id / participant_2_id で表しているため、
+-- グループは chat_type = 'group' とし、参加者は conversation_members に持たせる。
+-- 参加・退出・設定変更はシステムメッセージ（metadata.system_event）として会話に残す。
+
+-- =====================================================
+-- 1. conversations をグループ対応にする
+-- =====================================================
+ALTER TABLE public.conversations
+  ADD COLUMN IF NOT EXISTS chat_type text NOT NULL DEFAULT 'direct',
+  ADD COLUMN IF NOT EXISTS title text,
+  ADD COLUMN IF NOT EXISTS created_by uuid REFERENCES public.user_profiles(id) ON DELETE SET NULL;
+
+ALTER TABLE public.conversations ALTER COLUMN participant_1_id DROP NOT NULL;
+ALTER TABLE public.conversations ALTER COLUMN participant_2_id DROP NOT NULL;
+
+ALTER TABLE public.conversations DROP CONSTRAINT IF EXISTS conversations_chat_type_check;
+ALTER TABLE public.conversations
+  ADD CONSTRAINT conversations_chat_type_check CHECK (
+    (chat_type = 'direct' AND participant_1_id IS NOT NULL AND participant_2_id IS NOT NULL)
+    OR (chat_type = 'group' AND char_length(trim(coalesce(title, ''))) BETWEEN 1 AND 50)
+  );
+
+-- =====================================================
+-- 2. グループの参加者
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.conversation_members (
+  conversation_id uuid NOT NULL REFERENCES public.conversations(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES public.user_profiles(id) ON DELETE CASCADE,
+  role text NOT NULL DEFAULT 'member' CHECK (role IN ('member', 'admin', 'owner')),
+  joined_at timestamptz NOT NULL DEFAULT now(),
+  -- 退出・削除されたら埋める。再追加時は NULL に戻す
+  left_at timestamptz,
+  PRIMARY KEY (conversation_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_conversation_members_user
+  ON public.conversation_members(user_id)
+  WHERE left_at IS NULL;
+
+ALTER TABLE public.conversation_members ENABLE ROW LEVEL SECURITY;
+
+-- 1:1 の当事者、またはグループの現メンバーか
+CREATE OR REPLACE FUNCTION public.is_conversation_member(
+  p_conversation_id uuid,
+  p_user_id uuid
+) RETURNS boolean
+LANGUAGE sql STABLE SECURITY DEFINER AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.conversations c
+    WHERE c.id = p_conversation_id
+      AND (c.participant_1_id = p_user_id OR c.participant_2_id = p_user_id)
+  ) OR EXISTS (
+    SELECT 1 FROM public.conversation_members cm
+    WHERE cm.conversation_id = p_conversation_id
+      AND cm.user_id = p_user_id
+      AND cm.left_at IS NULL
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.is_conversation_member(uuid, uuid) TO authenticated;
+
+-- 既存のポリシーは 1:1 の参加者だけを見ているので、グループのメンバー向けを足す
+DO $$ BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE schemaname = 'public' AND tablename = 'conversation_members' AND policyname = 'conversation_members_select_members'
+  ) THEN
+    CREATE POLICY conversation_members_select_members ON public.conversation_members
+      FOR SELECT TO authenticated
+      USING (public.is_conversation_member(conversation_id, auth.uid()));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE schemaname = 'public' AND tablename = 'conversations' AND policyname = 'conversations_select_group_members'
+  ) THEN
+    CREATE POLICY conversations_select_group_members ON public.conversations
+      FOR SELECT TO authenticated
+      USING (chat_type = 'group' AND public.is_conversation_member(id, auth.uid()));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE schemaname = 'public' AND tablename = 'messages' AND policyname = 'messages_select_group_members'
+  ) THEN
+    CREATE POLICY messages_select_group_members ON public.messages
+      FOR SELECT TO authenticated
+      USING (
+        EXISTS (
+          SELECT 1 FROM public.conversations c
+          WHERE c.id = conversation_id AND c.chat_type = 'group'
+        )
+        AND public.is_conversation_member(conversation_id, auth.uid())
+      );
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE schemaname = 'public' AND tablename = 'read_receipts' AND policyname = 'read_receipts_select_group_members'
+  ) THEN
+    CREATE POLICY read_receipts_select_group_members ON public.read_receipts
+      FOR SELECT TO authenticated
+      USING (public.is_conversation_member(conversation_id, auth.uid()));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE schemaname = 'public' AND tablename = 'typing_indicators' AND policyname = 'typing_indicators_select_group_members'
+  ) THEN
+    CREATE POLICY typing_indicators_select_group_members ON public.typing_indicators
+      FOR SELECT TO authenticated
+      USING (public.is_conversation_member(conversation_id, auth.uid()));
+  END IF;
+END $$;
+
+-- =====================================================
+-- 3. 内部ヘルパー
+-- =====================================================
+-- システムメッセージを追加して会話の最終メッセージを更新する（RPC からのみ呼ぶ）
+CREATE OR REPLACE FUNCTION public.add_group_system_message(
+  p_conversation_id uuid,
+  p_actor_id uuid,
+  p_event text,
+  p_content text,
+  p_target_id uuid DEFAULT NULL
+) RETURNS void
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  v_msg public.messages%rowtype;
+BEGIN
+  INSERT INTO public.messages (conversation_id, sender_id, content, message_type, metadata)
+  VALUES (
+    p_conversation_id,
+    p_actor_id,
+    left(p_content, 2000),
+    'system',
+    jsonb_strip_nulls(jsonb_build_object('system_event', p_event, 'target_user_id', p_target_id))
+  )
+  RETURNING * INTO v_msg;
+
+  UPDATE public.conversations
+  SET last_message_id = v_msg.id, updated_at = v_msg.created_at
+  WHERE id = p_conversation_id;
+END; $$;
+
+REVOKE ALL ON FUNCTION public.add_group_system_message(uuid, uuid, text, text, uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.group_member_name(p_user_id uuid)
+RETURNS text
+LANGUAGE sql STABLE SECURITY DEFINER AS $$
+  SELECT coalesce(nullif(display_name, ''), nullif(username, ''), 'メンバー')
+  FROM public.user_profiles WHERE id = p_user_id;
+$$;
+
+-- 呼び出し元の現在のロール（メンバーでなければ NULL）
+CREATE OR REPLACE FUNCTION public.group_member_role(
+  p_conversation_id uuid,
+  p_user_id uuid
+) RETURNS text
+LANGUAGE sql STABLE SECURITY DEFINER AS $$
+  SELECT cm.role
+  FROM public.conversation_members cm
+  JOIN public.conversations c ON c.id = cm.conversation_id AND c.chat_type = 'group'
+  WHERE cm.conversation_id = p_conversation_id
+    AND cm.user_id = p_user_id
+    AND cm.left_at IS NULL;
+$$;
+
+-- =====================================================
+-- 4. 作成・メンバー管理
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.create_group_chat_v2(
+  p_title text,
+  p_member_ids uuid[]
+) RETURNS uuid
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  v_uid uuid := auth.uid();
+  v_title text := trim(coalesce(p_title, ''));
+  v_members uuid[];
+  v_id uuid;
+  v_member uuid;
+BEGIN
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+  IF char_length(v_title) NOT BETWEEN 1 AND 50 THEN
+    RAISE EXCEPTION 'Invalid group title';
+  END IF;
+
+  SELECT coalesce(array_agg(DISTINCT m), '{}') INTO v_members
+  FROM unnest(coalesce(p_member_ids, '{}'::uuid[])) AS m
+  WHERE m IS NOT NULL AND m <> v_uid;
+
+  IF cardinality(v_members) < 1 THEN
+    RAISE EXCEPTION 'Group needs at least one other member';
+  END IF;
+  IF cardinality(v_members) + 1 > 20 THEN
+    RAISE EXCEPTION 'Group member limit exceeded';
+  END IF;
+  -- どちらかがブロックしている相手は追加できない
+  IF EXISTS (
+    SELECT 1 FROM unnest(v_members) AS m
+    WHERE NOT public.can_send_dm(v_uid, m)
+  ) THEN
+    RAISE EXCEPTION 'Blocked user cannot be added';
+  END IF;
+
+  INSERT INTO public.conversations (chat_type, title, created_by)
+  VALUES ('group', v_title, v_uid)
+  RETURNING id INTO v_id;
+
+  INSERT INTO public.conversation_members (conversation_id, user_id, role)
+  VALUES (v_id, v_uid, 'owner');
+  INSERT INTO public.conversation_members (conversation_id, user_id, role)
+  SELECT v_id, m, 'member' FROM unnest(v_members) AS m;
+
+  PERFORM public.add_group_system_message(
+    v_id, v_uid, 'chat_created',
+    public.group_member_name(v_uid) || 'さんがグループ「' || v_title || '」を作成しました'
+  );
+  FOREACH v_member IN ARRAY v_members LOOP
+    PERFORM public.add_group_system_message(
+      v_id, v_uid, 'user_joined',
+      public.group_member_name(v_member) || 'さんが参加しました',
+      v_member
+    );
+  END LOOP;
+
+  RETURN v_id;
+END; $$;
+
+CREATE OR REPLACE FUNCTION public.add_group_members_v2(
+  p_conversation_id uuid,
+  p_user_ids uuid[]
+) RETURNS void
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  v_uid uuid := auth.uid();
+  v_role text;
+  v_new uuid[];
+  v_member uuid;
+BEGIN
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+  v_role := public.group_member_role(p_conversation_id, v_uid);
+  IF v_role IS NULL OR v_role NOT IN ('owner', 'admin') THEN
+    RAISE EXCEPTION 'Permission denied';
+  END IF;
+
+  -- 同時に追加されても上限を超えないよう、同じグループへの追加は順番に処理する
+  PERFORM 1 FROM public.conversations WHERE id = p_conversation_id FOR UPDATE;
+
+  -- すでに在籍している人は除く
+  SELECT coalesce(array_agg(DISTINCT m), '{}') INTO v_new
+  FROM unnest(coalesce(p_user_ids, '{}'::uuid[])) AS m
+  WHERE m IS NOT NULL
+    AND NOT EXISTS (
+      SELECT 1 FROM public.conversation_members cm
+      WHERE cm.conversation_id = p_conversation_id AND cm.user_id = m AND cm.left_at IS NULL
+    );
+
+  IF cardinality(v_new) = 0 THEN
+    RETURN;
+  END IF;
+  IF (
+    SELECT count(*) FROM public.conversation_members
+    WHERE conversation_id = p_conversation_id AND left_at IS NULL
+  ) + cardinality(v_new) > 20 THEN
+    RAISE EXCEPTION 'Group member limit exceeded';
+  END IF;
+  IF EXISTS (
+    SELECT 1 FROM unnest(v_new) AS m
+    WHERE NOT public.can_send_dm(v_uid, m)
+  ) THEN
+    RAISE EXCEPTION 'Blocked user cannot be added';
+  END IF;
+
+  FOREACH v_member IN ARRAY v_new LOOP
+    INSERT INTO public.conversation_members (conversation_id, user_id, role)
+    VALUES (p_conversation_id, v_member, 'member')
+    ON CONFLICT (conversation_id, user_id)
+    DO UPDATE SET role = 'member', joined_at = now(), left_at = NULL;
+
+    PERFORM public.add_group_system_message(
+      p_conversation_id, v_uid, 'user_joined',
+      public.group_member_name(v_member) || 'さんが参加しました',
+      v_member
+    );
+  END LOOP;
+END; $$;
+
+CREATE OR REPLACE FUNCTION public.remove_group_member_v2(
+  p_conversation_id uuid,
+  p_user_id uuid
+) RETURNS void
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  v_uid uuid := auth.uid();
+  v_role text;
+  v_target_role text;
+BEGIN
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+  IF p_user_id = v_uid THEN
+    RAISE EXCEPTION 'Use leave_group_chat_v2 to leave';
+  END IF;
+  v_role := public.group_member_role(p_conversation_id, v_uid);
+  v_target_role := public.group_member_role(p_conversation_id, p_user_id);
+  IF v_target_role IS NULL THEN
+    RETURN;
+  END IF;
+  -- 管理者はメンバーのみ、オーナーは管理者も外せる
+  IF NOT (
+    (v_role = 'owner' AND v_target_role <> 'owner')
+    OR (v_role = 'admin' AND v_target_role = 'member')
+  ) THEN
+    RAISE EXCEPTION 'Permission denied';
+  END IF;
+
+  UPDATE public.conversation_members
+  SET left_at = now()
+  WHERE conversation_id = p_conversation_id AND user_id = p_user_id;
+
+  PERFORM public.add_group_system_message(
+    p_conversation_id, v_uid, 'user_left',
+    public.group_member_name(p_user_id) || 'さんがグループから外されました',
+    p_user_id
+  );
+END; $$;
+
+CREATE OR REPLACE FUNCTION public.set_group_member_role_v2(
+  p_conversation_id uuid,
+  p_user_id uuid,
+  p_role text
+) RETURNS void
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  v_uid uuid := auth.uid();
+  v_target_role text;
+BEGIN
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+  IF p_role NOT IN ('member', 'admin') THEN
+    RAISE EXCEPTION 'Invalid role';
+  END IF;
+  IF public.group_member_role(p_conversation_id, v_uid) IS DISTINCT FROM 'owner' THEN
+    RAISE EXCEPTION 'Permission denied';
+  END IF;
+  v_target_role := public.group_member_role(p_conversation_id, p_user_id);
+  IF v_target_role IS NULL OR v_target_role = 'owner' THEN
+    RAISE EXCEPTION 'Permission denied';
+  END IF;
+  IF v_target_role = p_role THEN
+    RETURN;
+  END IF;
+
+  UPDATE public.conversation_members
+  SET role = p_role
+  WHERE conversation_id = p_conversation_id AND user_id = p_user_id;
+
+  PERFORM public.add_group_system_message(
+    p_conversation_id, v_uid, 'settings_changed',
+    public.group_member_name(p_user_id) ||
+      CASE WHEN p_role = 'admin' THEN 'さんが管理者になりました' ELSE 'さんが管理者から外れました' END,
+    p_user_id
+  );
+END; $$;
+
+CREATE OR REPLACE FUNCTION public.update_group_chat_v2(
+  p_conversation_id uuid,
+  p_title text
+) RETURNS void
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  v_uid uuid := auth.uid();
+  v_title text := trim(coalesce(p_title, ''));
+BEGIN
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+  IF char_length(v_title) NOT BETWEEN 1 AND 50 THEN
+    RAISE EXCEPTION 'Invalid group title';
+  END IF;
+  IF coalesce(public.group_member_role(p_conversation_id, v_uid), '') NOT IN ('owner', 'admin') THEN
+    RAISE EXCEPTION 'Permission denied';
+  END IF;
+  IF EXISTS (
+    SELECT 1 FROM public.conversations WHERE id = p_conversation_id AND title = v_title
+  ) THEN
+    RETURN;
+  END IF;
+
+  UPDATE public.conversations SET title = v_title WHERE id = p_conversation_id;
+
+  PERFORM public.add_group_system_message(
+    p_conversation_id, v_uid, 'settings_changed',
+    public.group_member_name(v_uid) || 'さんがグループ名を「' || v_title || '」に変更しました'
+  );
+END; $$;
+
+-- オーナーが抜けるときは、管理者 → メンバーの順で古参にオーナーを引き継ぐ
+CREATE OR REPLACE FUNCTION public.leave_group_chat_v2(
+  p_conversation_id uuid
+) RETURNS void
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  v_uid uuid := auth.uid();
+  v_role text;
+  v_successor uuid;
+BEGIN
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+  v_role := public.group_member_role(p_conversation_id, v_uid);
+  IF v_role IS NULL THEN
+    RETURN;
+  END IF;
+
+  UPDATE public.conversation_members
+  SET left_at = now()
+  WHERE conversation_id = p_conversation_id AND user_id = v_uid;
+
+  PERFORM public.add_group_system_message(
+    p_conversation_id, v_uid, 'user_left',
+    public.group_member_name(v_uid) || 'さんが退出しました',
+    v_uid
+  );
+
+  IF v_role = 'owner' THEN
+    SELECT cm.user_id INTO v_successor
+    FROM public.conversation_members cm
+    WHERE cm.conversation_id = p_conversation_id AND cm.left_at IS NULL
+    ORDER BY (cm.role = 'admin') DESC, cm.joined_at ASC
+    LIMIT 1;
+
+    IF v_successor IS NOT NULL THEN
+      UPDATE public.conversation_members
+      SET role = 'owner'
+      WHERE conversation_id = p_conversation_id AND user_id = v_successor;
+
+      PERFORM public.add_group_system_message(
+        p_conversation_id, v_uid, 'settings_changed',
+        public.group_member_name(v_successor) || 'さんがオーナーになりました',
+        v_successor
+      );
+    END IF;
+  END IF;
+END; $$;
+
+-- =====================================================
+-- 5. 送信・一覧
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.send_group_message_v2(
+  p_conversation_id uuid,
+  p_content text,
+  p_message_type text DEFAULT 'text',
+  p_metadata jsonb DEFAULT '{}'
+) RETURNS public.messages
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  v_uid uuid := auth.uid();
+  v_msg public.messages%rowtype;
+BEGIN
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+  IF public.group_member_role(p_conversation_id, v_uid) IS NULL THEN
+    RAISE EXCEPTION 'Not a member of this group';
+  END IF;
+  -- システムメッセージはサーバー側でしか作らない
+  IF p_message_type = 'system' THEN
+    RAISE EXCEPTION 'Invalid message type';
+  END IF;
+
+  INSERT INTO public.messages (conversation_id, sender_id, content, message_type, metadata)
+  VALUES (p_conversation_id, v_uid, p_content, coalesce(p_message_type, 'text'), coalesce(p_metadata, '{}'))
+  RETURNING * INTO v_msg;
+
+  UPDATE public.conversations
+  SET last_message_id = v_msg.id, updated_at = v_msg.created_at
+  WHERE id = p_conversation_id;
+
+  RETURN v_msg;
+END; $$;
+
+-- p_conversation_id を渡すと、自分が在籍しているそのグループだけを返す（一覧の件数に関係なく開ける）
+CREATE OR REPLACE FUNCTION public.get_group_conversations_v2(
+  p_limit int DEFAULT 20,
+  p_conversation_id uuid DEFAULT NULL
+) RETURNS TABLE (
+  id uuid,
+  title text,
+  member_count bigint,
+  my_role text,
+  last_message_content text,
+  last_message_type text,
+  last_message_created_at timestamptz,
+  last_message_sender_id uuid,
+  unread_count bigint,
+  created_at timestamptz,
+  updated_at timestamptz
+)
+LANGUAGE sql STABLE SECURITY DEFINER AS $$
+  SELECT
+    c.id,
+    c.title,
+    (SELECT count(*) FROM public.conversation_members x
+     WHERE x.conversation_id = c.id AND x.left_at IS NULL) AS member_count,
+    me.role AS my_role,
+    lm.content AS last_message_content,
+    lm.message_type AS last_message_type,
+    lm.created_at AS last_message_created_at,
+    lm.sender_id AS last_message_sender_id,
+    coalesce((
+      SELECT count(*)::bigint
+      FROM public.messages m
+      LEFT JOIN public.read_receipts rr
+        ON rr.conversation_id = c.id AND rr.user_id = auth.uid()
+      WHERE m.conversation_id = c.id
+        AND m.sender_id <> auth.uid()
+        AND m.deleted_at IS NULL
+        AND m.created_at >= me.joined_at
+        AND (rr.last_read_message_id IS NULL OR m.created_at > (
+          SELECT created_at FROM public.messages WHERE id = rr.last_read_message_id
+        ))
+    ), 0) AS unread_count,
+    c.created_at,
+    c.updated_at
+  FROM public.conversations c
+  JOIN public.conversation_members me
+    ON me.conversation_id = c.id AND me.user_id = auth.uid() AND me.left_at IS NULL
+  LEFT JOIN public.messages lm ON lm.id = c.last_message_id
+  WHERE c.chat_type = 'group'
+    AND (p_conversation_id IS NULL OR c.id = p_conversation_id)
+  ORDER BY c.updated_at DESC
+  LIMIT greatest(1, least(coalesce(p_limit, 20), 50));
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_group_members_v2(
+  p_conversation_id uuid
+) RETURNS TABLE (
+  user_id uuid,
+  username text,
+  display_name text,
+  avatar_emoji text,
+  avatar_url text,
+  role text,
+  joined_at timestamptz
+)
+LANGUAGE plpgsql STABLE SECURITY DEFINER AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+  IF public.group_member_role(p_conversation_id, auth.uid()) IS NULL THEN
+    RAISE EXCEPTION 'Not a member of this group';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    cm.user_id,
+    u.username,
+    u.display_name,
+    u.avatar_emoji,
+    u.avatar_url,
+    cm.role,
+    cm.joined_at
+  FROM public.conversation_members cm
+  JOIN public.user_profiles u ON u.id = cm.user_id
+  WHERE cm.conversation_id = p_conversation_id AND cm.left_at IS NULL
+  ORDER BY CASE cm.role WHEN 'owner' THEN 0 WHEN 'admin' THEN 1 ELSE 2 END, cm.joined_at;
+END; $$;
+
+-- 退出・削除されたメンバーは過去ログも読めないよう、在籍チェックを加えて作り直す
+CREATE OR REPLACE FUNCTION public.get_conversation_messages(
+  p_conversation_id uuid,
+  p_limit int DEFAULT 50,
+  p_before timestamptz DEFAULT NULL
+) RETURNS TABLE (
+  id uuid,
+  conversation_id uuid,
+  sender_id uuid,
+  content text,
+  message_type text,
+  metadata jsonb,
+  created_at timestamptz,
+  updated_at timestamptz,
+  is_edited boolean,
+  sender_username text,
+  sender_display_name text,
+  sender_avatar_emoji text
+)
+LANGUAGE sql STABLE SECURITY DEFINER AS $$
+  SELECT
+    m.id,
+    m.conversation_id,
+    m.sender_id,
+    m.content,
+    m.message_type,
+    m.metadata,
+    m.created_at,
+    m.updated_at,
+    m.is_edited,
+    u.username AS sender_username,
+    u.display_name AS sender_display_name,
+    u.avatar_emoji AS sender_avatar_emoji
+  FROM public.messages m
+  JOIN public.user_profiles u ON u.id = m.sender_id
+  WHERE m.conversation_id = p_conversation_id
+    AND public.is_conversation_member(p_conversation_id, auth.uid())
+    AND m.deleted_at IS NULL
+    AND (p_before IS NULL OR m.created_at < p_before)
+  ORDER BY m.created_at DESC
+  LIMIT greatest(1, least(coalesce(p_limit, 50), 100));
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_group_chat_v2(text, uuid[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.add_group_members_v2(uuid, uuid[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.remove_group_member_v2(uuid, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.set_group_member_role_v2(uuid, uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.update_group_chat_v2(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.leave_group_chat_v2(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.send_group_message_v2(uuid, text, text, jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_group_conversations_v2(int, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_group_members_v2(uuid) TO authenticated;
@@ -0,0 +1,58 @@
+-- チャットのボイスメッセージ
+-- 音声ファイルは chat-audio バケットに置き、メッセージには URL と長さ・波形を metadata で持たせる。
+-- 保存先のフォルダ規則（/{uid}/...）は画像バケットと同じ。
+
+-- =====================================================
+-- 1. message_type に audio を追加
+-- =====================================================
+ALTER TABLE public.messages DROP CONSTRAINT IF EXISTS messages_message_type_check;
+ALTER TABLE public.messages
+  ADD CONSTRAINT messages_message_type_check
+  CHECK (message_type IN ('text', 'image', 'file', 'system', 'post_share', 'audio'));
+
+-- =====================================================
+-- 2. chat-audio バケット
+-- =====================================================
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('chat-audio', 'chat-audio', true, 10485760, ARRAY['audio/m4a', 'audio/mp4', 'audio/aac', 'audio/x-m4a'])
+ON CONFLICT (id) DO UPDATE
+  SET public = excluded.public,
+      file_size_limit = excluded.file_size_limit,
+      allowed_mime_types = excluded.allowed_mime_types;
+
+DO $$ BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE schemaname = 'storage' AND tablename = 'objects' AND policyname = 'Allow read for authenticated on chat audio'
+  ) THEN
+    CREATE POLICY "Allow read for authenticated on chat audio" ON storage.objects
+      FOR SELECT
+      USING (bucket_id = 'chat-audio' AND auth.role() = 'authenticated');
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE schemaname = 'storage' AND tablename = 'objects' AND policyname = 'Allow insert to own folder on chat audio'
+  ) THEN
+    CREATE POLICY "Allow insert to own folder on chat audio" ON storage.objects
+      FOR INSERT
+      WITH CHECK (
+        bucket_id = 'chat-audio'
+        AND auth.role() = 'authenticated'
+        AND auth.uid()::text = (storage.foldername(name))[1]
+      );
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE schemaname = 'storage' AND tablename = 'objects' AND policyname = 'Allow delete own files on chat audio'
+  ) THEN
+    CREATE POLICY "Allow delete own files on chat audio" ON storage.objects
+      FOR DELETE
+      USING (
+        bucket_id = 'chat-audio'
+        AND auth.role() = 'authenticated'
+        AND auth.uid()::text = (storage.foldername(name))[1]
+      );
+  END IF;
+END $$;
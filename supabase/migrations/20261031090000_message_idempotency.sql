@@ -0,0 +1,121 @@
+-- オフライン送信キュー（アウトボックス）の冪等化
+-- 端末は送信ごとに client_message_id を生成し、再送でも同じ値を使う。
+-- サーバーは同じ送信者・同じ ID のメッセージがすでにあれば新しく作らずに既存の行を返す。
+--   DM / グループ: messages.metadata->>'client_message_id'
+--   スペースのチャンネル: room_messages.client_id
+
+-- =====================================================
+-- 1. DM / グループ（messages）
+-- =====================================================
+CREATE UNIQUE INDEX IF NOT EXISTS messages_sender_client_message_id_key
+  ON public.messages (sender_id, (metadata->>'client_message_id'))
+  WHERE metadata ? 'client_message_id';
+
+-- 既存行の検索（送信前の重複チェックと一意制約違反時の取り直しで使う）
+CREATE OR REPLACE FUNCTION public.find_message_by_client_id(
+  p_sender_id uuid,
+  p_metadata jsonb
+) RETURNS public.messages
+LANGUAGE sql STABLE SECURITY DEFINER AS $$
+  SELECT m.*
+  FROM public.messages m
+  WHERE m.sender_id = p_sender_id
+    AND nullif(p_metadata->>'client_message_id', '') IS NOT NULL
+    AND m.metadata->>'client_message_id' = p_metadata->>'client_message_id'
+  LIMIT 1;
+$$;
+
+REVOKE ALL ON FUNCTION public.find_message_by_client_id(uuid, jsonb) FROM public;
+
+CREATE OR REPLACE FUNCTION public.send_message_guarded(
+  p_sender_id uuid,
+  p_recipient_id uuid,
+  p_content text,
+  p_message_type text DEFAULT 'text',
+  p_metadata jsonb DEFAULT '{}'
+) RETURNS public.messages
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  v_msg public.messages%rowtype;
+BEGIN
+  v_msg := public.find_message_by_client_id(p_sender_id, p_metadata);
+  IF v_msg.id IS NOT NULL THEN
+    RETURN v_msg;
+  END IF;
+
+  IF NOT public.can_send_dm(p_sender_id, p_recipient_id) THEN
+    RAISE EXCEPTION 'DM is not allowed between these users' USING errcode = 'P0001';
+  END IF;
+
+  BEGIN
+    v_msg := public.send_message(p_sender_id, p_recipient_id, p_content, p_message_type, p_metadata);
+  EXCEPTION WHEN unique_violation THEN
+    -- 同じ ID の再送が並行して届いた場合
+    v_msg := public.find_message_by_client_id(p_sender_id, p_metadata);
+    IF v_msg.id IS NULL THEN
+      RAISE;
+    END IF;
+  END;
+  RETURN v_msg;
+END; $$;
+
+GRANT EXECUTE ON FUNCTION public.send_message_guarded(uuid, uuid, text, text, jsonb) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.send_group_message_v2(
+  p_conversation_id uuid,
+  p_content text,
+  p_message_type text DEFAULT 'text',
+  p_metadata jsonb DEFAULT '{}'
+) RETURNS public.messages
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  v_uid uuid := auth.uid();
+  v_msg public.messages%rowtype;
+BEGIN
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+  IF public.group_member_role(p_conversation_id, v_uid) IS NULL THEN
+    RAISE EXCEPTION 'Not a member of this group';
+  END IF;
+  -- システムメッセージはサーバー側でしか作らない
+  IF p_message_type = 'system' THEN
+    RAISE EXCEPTION 'Invalid message type';
+  END IF;
+
+  v_msg := public.find_message_by_client_id(v_uid, p_metadata);
+  IF v_msg.id IS NOT NULL THEN
+    RETURN v_msg;
+  END IF;
+
+  BEGIN
+    INSERT INTO public.messages (conversation_id, sender_id, content, message_type, metadata)
+    VALUES (p_conversation_id, v_uid, p_content, coalesce(p_message_type, 'text'), coalesce(p_metadata, '{}'))
+    RETURNING * INTO v_msg;
+  EXCEPTION WHEN unique_violation THEN
+    v_msg := public.find_message_by_client_id(v_uid, p_metadata);
+    IF v_msg.id IS NULL THEN
+      RAISE;
+    END IF;
+    RETURN v_msg;
+  END;
+
+  UPDATE public.conversations
+  SET last_message_id = v_msg.id, updated_at = v_msg.created_at
+  WHERE id = p_conversation_id;
+
+  RETURN v_msg;
+END; $$;
+
+GRANT EXECUTE ON FUNCTION public.send_group_message_v2(uuid, text, text, jsonb) TO authenticated;
+
+-- =====================================================
+-- 2. スペースのチャンネル（room_messages）
+-- =====================================================
+-- チャンネルは直接 INSERT するため、一意制約違反（23505）をクライアントが受けて既存行を取り直す
+ALTER TABLE public.room_messages
+  ADD COLUMN IF NOT EXISTS client_id text;
+
+CREATE UNIQUE INDEX IF NOT EXISTS room_messages_sender_client_id_key
+  ON public.room_messages (sender_id, client_id)
+  WHERE client_id IS NOT NULL;
@@ -0,0 +1,149 @@
+-- 1:1 DM のエンドツーエンド暗号化（オプトイン）
+-- 端末ごとに ECDH(P-256) の鍵ペアを作り、公開鍵だけを user_device_keys に登録する。
+-- 暗号化した DM は content に固定の文言を入れ、本文と添付は metadata.e2e に暗号文として持たせる。
+-- サーバーは暗号文と公開鍵しか扱わず、秘密鍵・メッセージ鍵は端末の外に出ない。
+
+-- =====================================================
+-- 1. 端末の公開鍵
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.user_device_keys (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  device_id text NOT NULL CHECK (char_length(device_id) BETWEEN 8 AND 64),
+  public_key text NOT NULL CHECK (char_length(public_key) BETWEEN 40 AND 200),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  last_seen_at timestamptz NOT NULL DEFAULT now(),
+  revoked_at timestamptz,
+  UNIQUE (user_id, device_id)
+);
+
+CREATE INDEX IF NOT EXISTS user_device_keys_user_active_idx
+  ON public.user_device_keys (user_id)
+  WHERE revoked_at IS NULL;
+
+ALTER TABLE public.user_device_keys ENABLE ROW LEVEL SECURITY;
+
+DO $$ BEGIN
+  -- 公開鍵は相手が暗号化するために必要なので、ログインユーザーなら誰でも読める
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE schemaname = 'public' AND tablename = 'user_device_keys' AND policyname = 'user_device_keys_select_authenticated'
+  ) THEN
+    CREATE POLICY user_device_keys_select_authenticated ON public.user_device_keys
+      FOR SELECT
+      USING (auth.role() = 'authenticated');
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE schemaname = 'public' AND tablename = 'user_device_keys' AND policyname = 'user_device_keys_insert_own'
+  ) THEN
+    CREATE POLICY user_device_keys_insert_own ON public.user_device_keys
+      FOR INSERT
+      WITH CHECK (user_id = auth.uid());
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE schemaname = 'public' AND tablename = 'user_device_keys' AND policyname = 'user_device_keys_update_own'
+  ) THEN
+    CREATE POLICY user_device_keys_update_own ON public.user_device_keys
+      FOR UPDATE
+      USING (user_id = auth.uid())
+      WITH CHECK (user_id = auth.uid());
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE schemaname = 'public' AND tablename = 'user_device_keys' AND policyname = 'user_device_keys_delete_own'
+  ) THEN
+    CREATE POLICY user_device_keys_delete_own ON public.user_device_keys
+      FOR DELETE
+      USING (user_id = auth.uid());
+  END IF;
+END $$;
+
+-- =====================================================
+-- 2. 会話ごとの暗号化設定
+-- =====================================================
+ALTER TABLE public.conversations
+  ADD COLUMN IF NOT EXISTS e2e_enabled boolean NOT NULL DEFAULT false;
+
+-- どちらの参加者でも切り替えられる。切り替えたことは相手にもシステムメッセージで伝える
+CREATE OR REPLACE FUNCTION public.set_conversation_e2e_v2(
+  p_conversation_id uuid,
+  p_enabled boolean
+) RETURNS boolean
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  v_uid uuid := auth.uid();
+  v_conv public.conversations%rowtype;
+BEGIN
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_conv FROM public.conversations WHERE id = p_conversation_id FOR UPDATE;
+  IF NOT FOUND OR v_conv.chat_type <> 'direct'
+     OR v_uid NOT IN (v_conv.participant_1_id, v_conv.participant_2_id) THEN
+    RAISE EXCEPTION 'Not a participant of this conversation';
+  END IF;
+
+  IF v_conv.e2e_enabled = p_enabled THEN
+    RETURN p_enabled;
+  END IF;
+
+  UPDATE public.conversations
+  SET e2e_enabled = p_enabled, updated_at = now()
+  WHERE id = p_conversation_id;
+
+  INSERT INTO public.messages (conversation_id, sender_id, content, message_type, metadata)
+  VALUES (
+    p_conversation_id,
+    v_uid,
+    CASE WHEN p_enabled
+      THEN 'エンドツーエンド暗号化をオンにしました'
+      ELSE 'エンドツーエンド暗号化をオフにしました'
+    END,
+    'system',
+    jsonb_build_object('system_event', 'settings_changed', 'e2e_enabled', p_enabled)
+  );
+
+  RETURN p_enabled;
+END; $$;
+
+GRANT EXECUTE ON FUNCTION public.set_conversation_e2e_v2(uuid, boolean) TO authenticated;
+
+-- =====================================================
+-- 3. 暗号化がオンの会話に平文を入れない
+-- =====================================================
+-- クライアントが設定を読み損ねても、サーバー側で平文の DM を拒否する。
+-- 切り替えのシステムメッセージと、削除済みの行は対象外。更新は本文が変わるときだけ確かめる
+CREATE OR REPLACE FUNCTION public.enforce_e2e_messages()
+RETURNS trigger
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+BEGIN
+  IF NEW.message_type = 'system' OR NEW.deleted_at IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+  IF TG_OP = 'UPDATE' AND NEW.content IS NOT DISTINCT FROM OLD.content THEN
+    RETURN NEW;
+  END IF;
+  IF EXISTS (
+    SELECT 1 FROM public.conversations
+    WHERE id = NEW.conversation_id AND e2e_enabled
+  ) AND NOT (
+    jsonb_typeof(NEW.metadata -> 'e2e') = 'object'
+    AND NEW.content = '🔒 暗号化されたメッセージ'
+  ) THEN
+    RAISE EXCEPTION 'Message must be end-to-end encrypted';
+  END IF;
+  RETURN NEW;
+END; $$;
+
+REVOKE ALL ON FUNCTION public.enforce_e2e_messages() FROM PUBLIC, anon, authenticated;
+
+DROP TRIGGER IF EXISTS trg_enforce_e2e_messages ON public.messages;
+CREATE TRIGGER trg_enforce_e2e_messages
+  BEFORE INSERT OR UPDATE OF content ON public.messages
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_e2e_messages();
@@ -0,0 +1,151 @@
+-- DM / グループとスペースのチャンネルのメッセージへの絵文字リアクション
+-- 1人が同じメッセージに複数の絵文字を付けられる（同じ絵文字は1回まで）。
+-- Realtime の filter で会話・チャンネル単位に受け取れるよう、所属先の ID を行に持たせる。
+
+-- =====================================================
+-- 1. DM / グループ（messages）
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.message_reactions (
+  message_id uuid NOT NULL REFERENCES public.messages(id) ON DELETE CASCADE,
+  conversation_id uuid NOT NULL REFERENCES public.conversations(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  emoji text NOT NULL CHECK (char_length(emoji) BETWEEN 1 AND 16),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (message_id, user_id, emoji)
+);
+
+CREATE INDEX IF NOT EXISTS message_reactions_conversation_idx
+  ON public.message_reactions (conversation_id);
+
+-- 削除イベントでも message_id / emoji を受け取れるようにする
+ALTER TABLE public.message_reactions REPLICA IDENTITY FULL;
+ALTER TABLE public.message_reactions ENABLE ROW LEVEL SECURITY;
+
+DO $$ BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE schemaname = 'public' AND tablename = 'message_reactions' AND policyname = 'message_reactions_select_members'
+  ) THEN
+    CREATE POLICY message_reactions_select_members ON public.message_reactions
+      FOR SELECT TO authenticated
+      USING (public.is_conversation_member(conversation_id, auth.uid()));
+  END IF;
+
+  -- メッセージが本当にその会話のものかも確かめる（conversation_id の偽装防止）
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE schemaname = 'public' AND tablename = 'message_reactions' AND policyname = 'message_reactions_insert_own'
+  ) THEN
+    CREATE POLICY message_reactions_insert_own ON public.message_reactions
+      FOR INSERT TO authenticated
+      WITH CHECK (
+        user_id = auth.uid()
+        AND public.is_conversation_member(conversation_id, auth.uid())
+        AND EXISTS (
+          SELECT 1 FROM public.messages m
+          WHERE m.id = message_id
+            AND m.conversation_id = message_reactions.conversation_id
+            AND m.deleted_at IS NULL
+        )
+      );
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE schemaname = 'public' AND tablename = 'message_reactions' AND policyname = 'message_reactions_delete_own'
+  ) THEN
+    CREATE POLICY message_reactions_delete_own ON public.message_reactions
+      FOR DELETE TO authenticated
+      USING (user_id = auth.uid());
+  END IF;
+END $$;
+
+-- =====================================================
+-- 2. スペースのチャンネル（room_messages）
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.room_message_reactions (
+  message_id uuid NOT NULL REFERENCES public.room_messages(id) ON DELETE CASCADE,
+  channel_id uuid NOT NULL REFERENCES public.channels(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  emoji text NOT NULL CHECK (char_length(emoji) BETWEEN 1 AND 16),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (message_id, user_id, emoji)
+);
+
+CREATE INDEX IF NOT EXISTS room_message_reactions_channel_idx
+  ON public.room_message_reactions (channel_id);
+
+ALTER TABLE public.room_message_reactions REPLICA IDENTITY FULL;
+ALTER TABLE public.room_message_reactions ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.is_channel_member(
+  p_channel_id uuid,
+  p_user_id uuid
+) RETURNS boolean
+LANGUAGE sql STABLE SECURITY DEFINER AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.channel_members cm
+    WHERE cm.channel_id = p_channel_id
+      AND cm.user_id = p_user_id
+      AND coalesce(cm.is_active, true)
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.is_channel_member(uuid, uuid) TO authenticated;
+
+DO $$ BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE schemaname = 'public' AND tablename = 'room_message_reactions' AND policyname = 'room_message_reactions_select_members'
+  ) THEN
+    CREATE POLICY room_message_reactions_select_members ON public.room_message_reactions
+      FOR SELECT TO authenticated
+      USING (public.is_channel_member(channel_id, auth.uid()));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE schemaname = 'public' AND tablename = 'room_message_reactions' AND policyname = 'room_message_reactions_insert_own'
+  ) THEN
+    CREATE POLICY room_message_reactions_insert_own ON public.room_message_reactions
+      FOR INSERT TO authenticated
+      WITH CHECK (
+        user_id = auth.uid()
+        AND public.is_channel_member(channel_id, auth.uid())
+        AND EXISTS (
+          SELECT 1 FROM public.room_messages m
+          WHERE m.id = message_id
+            AND m.channel_id = room_message_reactions.channel_id
+            AND m.deleted_at IS NULL
+        )
+      );
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE schemaname = 'public' AND tablename = 'room_message_reactions' AND policyname = 'room_message_reactions_delete_own'
+  ) THEN
+    CREATE POLICY room_message_reactions_delete_own ON public.room_message_reactions
+      FOR DELETE TO authenticated
+      USING (user_id = auth.uid());
+  END IF;
+END $$;
+
+-- =====================================================
+-- 3. Realtime
+-- =====================================================
+DO $$ BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'message_reactions'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.message_reactions;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'room_message_reactions'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.room_message_reactions;
+  END IF;
+END $$;
@@ -0,0 +1,186 @@
+-- チャットごとの「消えるメッセージ」タイマー（オフ / 24時間 / 7日 / 90日）
+-- 設定は conversations.disappearing_seconds に持ち、変更はシステムメッセージ（settings_changed）で全員に伝える。
+-- 設定後に送られたメッセージは送信時に expires_at が決まり、期限を過ぎたものは取得対象から外れ、定期ジョブで削除される。
+-- 設定変更のシステムメッセージ自体は消さない（いつ誰が変えたか残すため）。
+
+-- =====================================================
+-- 1. 設定とメッセージの期限
+-- =====================================================
+ALTER TABLE public.conversations
+  ADD COLUMN IF NOT EXISTS disappearing_seconds integer
+    CHECK (disappearing_seconds IS NULL OR disappearing_seconds IN (86400, 604800, 7776000));
+
+ALTER TABLE public.messages
+  ADD COLUMN IF NOT EXISTS expires_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS messages_expires_at_idx
+  ON public.messages (expires_at)
+  WHERE expires_at IS NOT NULL;
+
+-- 期限は送信時点の会話の設定で決める（あとから設定を変えても既存のメッセージは変わらない）
+CREATE OR REPLACE FUNCTION public.set_message_expires_at()
+RETURNS trigger
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  v_seconds integer;
+BEGIN
+  IF NEW.message_type = 'system' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT disappearing_seconds INTO v_seconds
+  FROM public.conversations
+  WHERE id = NEW.conversation_id;
+
+  IF v_seconds IS NOT NULL THEN
+    NEW.expires_at := coalesce(NEW.created_at, now()) + make_interval(secs => v_seconds);
+  END IF;
+  RETURN NEW;
+END; $$;
+
+DROP TRIGGER IF EXISTS messages_set_expires_at ON public.messages;
+CREATE TRIGGER messages_set_expires_at
+  BEFORE INSERT ON public.messages
+  FOR EACH ROW EXECUTE FUNCTION public.set_message_expires_at();
+
+-- =====================================================
+-- 2. 設定の変更
+-- =====================================================
+-- 1:1 はどちらの参加者でも、グループはオーナー・管理者だけが変えられる。NULL でオフ
+CREATE OR REPLACE FUNCTION public.set_conversation_disappearing_v2(
+  p_conversation_id uuid,
+  p_seconds integer
+) RETURNS integer
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  v_uid uuid := auth.uid();
+  v_conv public.conversations%rowtype;
+  v_label text;
+BEGIN
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+  IF p_seconds IS NOT NULL AND p_seconds NOT IN (86400, 604800, 7776000) THEN
+    RAISE EXCEPTION 'Invalid disappearing timer';
+  END IF;
+
+  SELECT * INTO v_conv FROM public.conversations WHERE id = p_conversation_id FOR UPDATE;
+  IF NOT FOUND OR NOT public.is_conversation_member(p_conversation_id, v_uid) THEN
+    RAISE EXCEPTION 'Not a participant of this conversation';
+  END IF;
+  IF v_conv.chat_type = 'group'
+     AND coalesce(public.group_member_role(p_conversation_id, v_uid), '') NOT IN ('owner', 'admin') THEN
+    RAISE EXCEPTION 'Permission denied';
+  END IF;
+
+  IF v_conv.disappearing_seconds IS NOT DISTINCT FROM p_seconds THEN
+    RETURN p_seconds;
+  END IF;
+
+  UPDATE public.conversations
+  SET disappearing_seconds = p_seconds, updated_at = now()
+  WHERE id = p_conversation_id;
+
+  v_label := CASE p_seconds
+    WHEN 86400 THEN '24時間'
+    WHEN 604800 THEN '7日'
+    WHEN 7776000 THEN '90日'
+  END;
+
+  INSERT INTO public.messages (conversation_id, sender_id, content, message_type, metadata)
+  VALUES (
+    p_conversation_id,
+    v_uid,
+    CASE WHEN p_seconds IS NULL
+      THEN '消えるメッセージをオフにしました'
+      ELSE '消えるメッセージを' || v_label || 'に設定しました'
+    END,
+    'system',
+    jsonb_build_object('system_event', 'settings_changed', 'disappearing_seconds', p_seconds)
+  );
+
+  RETURN p_seconds;
+END; $$;
+
+GRANT EXECUTE ON FUNCTION public.set_conversation_disappearing_v2(uuid, integer) TO authenticated;
+
+-- =====================================================
+-- 3. 取得から期限切れを外す
+-- =====================================================
+-- 戻り値の列を増やすので作り直す（削除ジョブが走るまでの間も期限切れは返さない）
+DROP FUNCTION IF EXISTS public.get_conversation_messages(uuid, int, timestamptz);
+
+CREATE FUNCTION public.get_conversation_messages(
+  p_conversation_id uuid,
+  p_limit int DEFAULT 50,
+  p_before timestamptz DEFAULT NULL
+) RETURNS TABLE (
+  id uuid,
+  conversation_id uuid,
+  sender_id uuid,
+  content text,
+  message_type text,
+  metadata jsonb,
+  created_at timestamptz,
+  updated_at timestamptz,
+  is_edited boolean,
+  expires_at timestamptz,
+  sender_username text,
+  sender_display_name text,
+  sender_avatar_emoji text
+)
+LANGUAGE sql STABLE SECURITY DEFINER AS $$
+  SELECT
+    m.id,
+    m.conversation_id,
+    m.sender_id,
+    m.content,
+    m.message_type,
+    m.metadata,
+    m.created_at,
+    m.updated_at,
+    m.is_edited,
+    m.expires_at,
+    u.username AS sender_username,
+    u.display_name AS sender_display_name,
+    u.avatar_emoji AS sender_avatar_emoji
+  FROM public.messages m
+  JOIN public.user_profiles u ON u.id = m.sender_id
+  WHERE m.conversation_id = p_conversation_id
+    AND public.is_conversation_member(p_conversation_id, auth.uid())
+    AND m.deleted_at IS NULL
+    AND (m.expires_at IS NULL OR m.expires_at > now())
+    AND (p_before IS NULL OR m.created_at < p_before)
+  ORDER BY m.created_at DESC
+  LIMIT greatest(1, least(coalesce(p_limit, 50), 100));
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_conversation_messages(uuid, int, timestamptz) TO authenticated;
+
+-- =====================================================
+-- 4. 期限切れの削除
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.purge_expired_messages()
+RETURNS integer
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  DELETE FROM public.messages
+  WHERE expires_at IS NOT NULL AND expires_at <= now();
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END; $$;
+
+REVOKE ALL ON FUNCTION public.purge_expired_messages() FROM PUBLIC;
+
+-- 15分ごとに掃除（pg_cron が有効な環境のみ）
+DO $$ BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule(
+      'purge-expired-messages',
+      '*/15 * * * *',
+      $cron$ SELECT public.purge_expired_messages(); $cron$
+    );
+  END IF;
+END $$;
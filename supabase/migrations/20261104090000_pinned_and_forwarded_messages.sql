@@ -0,0 +1,177 @@
+-- DM / グループとスペースのチャンネルのピン留め、メッセージの転送
+-- ピン留めは会話・チャンネルごとに最大5件。参加者なら誰でも留め外しできる。
+-- 転送したメッセージには印を付ける（DM は metadata.forwarded、チャンネルは room_messages.is_forwarded）。
+
+-- =====================================================
+-- 1. DM / グループ（messages）のピン留め
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.pinned_messages (
+  message_id uuid NOT NULL REFERENCES public.messages(id) ON DELETE CASCADE,
+  conversation_id uuid NOT NULL REFERENCES public.conversations(id) ON DELETE CASCADE,
+  pinned_by uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  pinned_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (message_id)
+);
+
+CREATE INDEX IF NOT EXISTS pinned_messages_conversation_idx
+  ON public.pinned_messages (conversation_id, pinned_at DESC);
+
+-- 外したイベントでも message_id / conversation_id を受け取れるようにする
+ALTER TABLE public.pinned_messages REPLICA IDENTITY FULL;
+ALTER TABLE public.pinned_messages ENABLE ROW LEVEL SECURITY;
+
+DO $$ BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE schemaname = 'public' AND tablename = 'pinned_messages' AND policyname = 'pinned_messages_select_members'
+  ) THEN
+    CREATE POLICY pinned_messages_select_members ON public.pinned_messages
+      FOR SELECT TO authenticated
+      USING (public.is_conversation_member(conversation_id, auth.uid()));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE schemaname = 'public' AND tablename = 'pinned_messages' AND policyname = 'pinned_messages_insert_members'
+  ) THEN
+    CREATE POLICY pinned_messages_insert_members ON public.pinned_messages
+      FOR INSERT TO authenticated
+      WITH CHECK (
+        pinned_by = auth.uid()
+        AND public.is_conversation_member(conversation_id, auth.uid())
+        AND EXISTS (
+          SELECT 1 FROM public.messages m
+          WHERE m.id = message_id
+            AND m.conversation_id = pinned_messages.conversation_id
+            AND m.deleted_at IS NULL
+            AND m.message_type <> 'system'
+        )
+      );
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE schemaname = 'public' AND tablename = 'pinned_messages' AND policyname = 'pinned_messages_delete_members'
+  ) THEN
+    CREATE POLICY pinned_messages_delete_members ON public.pinned_messages
+      FOR DELETE TO authenticated
+      USING (public.is_conversation_member(conversation_id, auth.uid()));
+  END IF;
+END $$;
+
+-- =====================================================
+-- 2. スペースのチャンネル（room_messages）のピン留め
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.room_pinned_messages (
+  message_id uuid NOT NULL REFERENCES public.room_messages(id) ON DELETE CASCADE,
+  channel_id uuid NOT NULL REFERENCES public.channels(id) ON DELETE CASCADE,
+  pinned_by uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  pinned_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (message_id)
+);
+
+CREATE INDEX IF NOT EXISTS room_pinned_messages_channel_idx
+  ON public.room_pinned_messages (channel_id, pinned_at DESC);
+
+ALTER TABLE public.room_pinned_messages REPLICA IDENTITY FULL;
+ALTER TABLE public.room_pinned_messages ENABLE ROW LEVEL SECURITY;
+
+DO $$ BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE schemaname = 'public' AND tablename = 'room_pinned_messages' AND policyname = 'room_pinned_messages_select_members'
+  ) THEN
+    CREATE POLICY room_pinned_messages_select_members ON public.room_pinned_messages
+      FOR SELECT TO authenticated
+      USING (public.is_channel_member(channel_id, auth.uid()));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE schemaname = 'public' AND tablename = 'room_pinned_messages' AND policyname = 'room_pinned_messages_insert_members'
+  ) THEN
+    CREATE POLICY room_pinned_messages_insert_members ON public.room_pinned_messages
+      FOR INSERT TO authenticated
+      WITH CHECK (
+        pinned_by = auth.uid()
+        AND public.is_channel_member(channel_id, auth.uid())
+        AND EXISTS (
+          SELECT 1 FROM public.room_messages m
+          WHERE m.id = message_id
+            AND m.channel_id = room_pinned_messages.channel_id
+            AND m.deleted_at IS NULL
+        )
+      );
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE schemaname = 'public' AND tablename = 'room_pinned_messages' AND policyname = 'room_pinned_messages_delete_members'
+  ) THEN
+    CREATE POLICY room_pinned_messages_delete_members ON public.room_pinned_messages
+      FOR DELETE TO authenticated
+      USING (public.is_channel_member(channel_id, auth.uid()));
+  END IF;
+END $$;
+
+-- =====================================================
+-- 3. 件数の上限
+-- =====================================================
+-- 同時に留めた場合も上限を超えないよう、会話・チャンネル単位でロックしてから数える
+CREATE OR REPLACE FUNCTION public.enforce_pinned_message_limit()
+RETURNS trigger
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  v_container uuid;
+  v_count integer;
+BEGIN
+  IF TG_TABLE_NAME = 'pinned_messages' THEN
+    v_container := NEW.conversation_id;
+    PERFORM pg_advisory_xact_lock(hashtext('pinned_messages:' || v_container::text));
+    SELECT count(*) INTO v_count FROM public.pinned_messages WHERE conversation_id = v_container;
+  ELSE
+    v_container := NEW.channel_id;
+    PERFORM pg_advisory_xact_lock(hashtext('room_pinned_messages:' || v_container::text));
+    SELECT count(*) INTO v_count FROM public.room_pinned_messages WHERE channel_id = v_container;
+  END IF;
+
+  IF v_count >= 5 THEN
+    RAISE EXCEPTION 'Pin limit reached' USING ERRCODE = 'check_violation';
+  END IF;
+  RETURN NEW;
+END; $$;
+
+DROP TRIGGER IF EXISTS pinned_messages_limit ON public.pinned_messages;
+CREATE TRIGGER pinned_messages_limit
+  BEFORE INSERT ON public.pinned_messages
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_pinned_message_limit();
+
+DROP TRIGGER IF EXISTS room_pinned_messages_limit ON public.room_pinned_messages;
+CREATE TRIGGER room_pinned_messages_limit
+  BEFORE INSERT ON public.room_pinned_messages
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_pinned_message_limit();
+
+-- =====================================================
+-- 4. 転送の印（チャンネル）
+-- =====================================================
+ALTER TABLE public.room_messages
+  ADD COLUMN IF NOT EXISTS is_forwarded boolean NOT NULL DEFAULT false;
+
+-- =====================================================
+-- 5. Realtime
+-- =====================================================
+DO $$ BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'pinned_messages'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.pinned_messages;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'room_pinned_messages'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.room_pinned_messages;
+  END IF;
+END $$;
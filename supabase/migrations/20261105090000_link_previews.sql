@@ -0,0 +1,84 @@
+-- 投稿・メッセージ内の URL のリンクプレビュー
+-- Edge Function link-preview がページを取得して OGP を読み、結果を対象の行に保存する。
+-- 取得結果は URL ごとに link_previews にキャッシュする（service role のみ読み書き）。
+-- 保存先: posts.link_preview / room_messages.link_preview / DM は messages.metadata.link_preview
+
+-- =====================================================
+-- 1. 取得結果のキャッシュ
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.link_previews (
+  url text PRIMARY KEY,
+  title text,
+  description text,
+  image_url text,
+  site_name text,
+  -- 'failed' は取得できなかった URL（短時間の再取得を避ける）
+  status text NOT NULL DEFAULT 'ok' CHECK (status IN ('ok', 'failed')),
+  fetched_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS link_previews_fetched_at_idx
+  ON public.link_previews (fetched_at);
+
+-- ポリシーは作らない（クライアントからは読めない）
+ALTER TABLE public.link_previews ENABLE ROW LEVEL SECURITY;
+
+-- =====================================================
+-- 2. プレビューの保存先
+-- =====================================================
+ALTER TABLE public.posts
+  ADD COLUMN IF NOT EXISTS link_preview jsonb;
+
+ALTER TABLE public.room_messages
+  ADD COLUMN IF NOT EXISTS link_preview jsonb;
+
+-- DM は metadata の中に持つ。編集や暗号化の状態と同時に書き換えても消し合わないよう、
+-- 読み出してから丸ごと書き戻すのではなく、1 回の UPDATE で link_preview だけを差し替える
+CREATE OR REPLACE FUNCTION public.set_message_link_preview(
+  p_message_id uuid,
+  p_preview jsonb
+) RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.messages
+  SET metadata = coalesce(metadata, '{}'::jsonb) || jsonb_build_object('link_preview', p_preview)
+  WHERE id = p_message_id
+    AND NOT coalesce(metadata, '{}'::jsonb) ? 'e2e';
+$$;
+
+REVOKE ALL ON FUNCTION public.set_message_link_preview(uuid, jsonb) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.set_message_link_preview(uuid, jsonb) TO service_role;
+
+-- =====================================================
+-- 3. 古いキャッシュの掃除
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.purge_stale_link_previews()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  DELETE FROM public.link_previews
+  WHERE fetched_at < now() - interval '7 days';
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.purge_stale_link_previews() FROM PUBLIC;
+
+-- 毎日1回掃除（pg_cron が有効な環境のみ）
+DO $$ BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule(
+      'purge-stale-link-previews',
+      '30 3 * * *',
+      $cron$ SELECT public.purge_stale_link_previews(); $cron$
+    );
+  END IF;
+END $$;
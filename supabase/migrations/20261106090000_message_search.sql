@@ -0,0 +1,186 @@
+-- すべての DM・グループと参加中のスペースのチャンネルをまたいだメッセージ検索
+-- 投稿検索（search_posts_v2）と同じく lower(content) の n-gram インデックスと語ごとの LIKE で部分一致を速くする。
+-- 暗号化された DM は本文がサーバーにないため対象外。新しい順で、ページングは created_at のカーソルで行う。
+
+-- =====================================================
+-- 1. n-gram インデックス
+-- =====================================================
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_available_extensions WHERE name = 'pg_bigm') THEN
+    CREATE EXTENSION IF NOT EXISTS pg_bigm;
+    EXECUTE 'CREATE INDEX IF NOT EXISTS idx_messages_content_bigm ON public.messages USING gin (lower(content) gin_bigm_ops)';
+    EXECUTE 'CREATE INDEX IF NOT EXISTS idx_room_messages_content_bigm ON public.room_messages USING gin (lower(content) gin_bigm_ops)';
+  ELSE
+    CREATE EXTENSION IF NOT EXISTS pg_trgm;
+    EXECUTE 'CREATE INDEX IF NOT EXISTS idx_messages_content_trgm ON public.messages USING gin (lower(content) gin_trgm_ops)';
+    EXECUTE 'CREATE INDEX IF NOT EXISTS idx_room_messages_content_trgm ON public.room_messages USING gin (lower(content) gin_trgm_ops)';
+  END IF;
+END $$;
+
+-- =====================================================
+-- 2. search_messages_v2
+-- =====================================================
+-- p_query は空白区切りで、すべての語を含むメッセージを返す（AND 検索）
+-- p_scope: 'dm' | 'channel' | NULL（両方）、p_container_id: 会話 ID かチャンネル ID で絞り込む
+CREATE OR REPLACE FUNCTION public.search_messages_v2(
+  p_query text,
+  p_scope text DEFAULT NULL,
+  p_container_id uuid DEFAULT NULL,
+  p_sender_id uuid DEFAULT NULL,
+  p_since timestamptz DEFAULT NULL,
+  p_until timestamptz DEFAULT NULL,
+  p_before timestamptz DEFAULT NULL,
+  p_limit int DEFAULT 30
+)
+RETURNS TABLE (
+  scope text,
+  message_id uuid,
+  container_id uuid,
+  container_name text,
+  space_id uuid,
+  space_name text,
+  sender_id uuid,
+  sender_username text,
+  sender_display_name text,
+  sender_avatar_emoji text,
+  content text,
+  created_at timestamptz
+) LANGUAGE plpgsql STABLE SECURITY DEFINER AS $$
+DECLARE
+  v_uid uuid := auth.uid();
+  v_tokens text[];
+  v_p text[];
+  v_limit int := greatest(1, least(coalesce(p_limit, 30), 50));
+BEGIN
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- LIKE のワイルドカードをエスケープして語に分ける
+  SELECT coalesce(array_agg(replace(replace(replace(lower(t), '\', '\\'), '%', '\%'), '_', '\_')), '{}')
+  INTO v_tokens
+  FROM (
+    SELECT DISTINCT t
+    FROM regexp_split_to_table(trim(coalesce(p_query, '')), '\s+') AS t
+    WHERE t <> ''
+    LIMIT 5
+  ) s;
+
+  IF cardinality(v_tokens) = 0 THEN
+    RETURN;
+  END IF;
+
+  -- 語ごとに LIKE 条件を並べる（足りない分は 1 つ目の語で埋める）
+  SELECT array_agg('%' || coalesce(v_tokens[i], v_tokens[1]) || '%' ORDER BY i)
+  INTO v_p
+  FROM generate_series(1, 5) AS i;
+
+  RETURN QUERY
+  WITH my_conversations AS (
+    SELECT c.id FROM public.conversations c
+    WHERE c.participant_1_id = v_uid OR c.participant_2_id = v_uid
+    UNION
+    SELECT cm.conversation_id FROM public.conversation_members cm
+    WHERE cm.user_id = v_uid AND cm.left_at IS NULL
+  ),
+  my_channels AS (
+    SELECT cm.channel_id FROM public.channel_members cm
+    WHERE cm.user_id = v_uid AND coalesce(cm.is_active, true)
+  ),
+  dm_hits AS (
+    SELECT
+      'dm'::text AS scope,
+      m.id AS message_id,
+      m.conversation_id AS container_id,
+      CASE
+        WHEN c.chat_type = 'group' THEN coalesce(c.title, 'グループ')
+        ELSE coalesce(other.display_name, other.username, '匿名')
+      END AS container_name,
+      NULL::uuid AS space_id,
+      NULL::text AS space_name,
+      m.sender_id,
+      u.username AS sender_username,
+      u.display_name AS sender_display_name,
+      u.avatar_emoji AS sender_avatar_emoji,
+      m.content,
+      m.created_at
+    FROM public.messages m
+    JOIN my_conversations mc ON mc.id = m.conversation_id
+    JOIN public.conversations c ON c.id = m.conversation_id
+    JOIN public.user_profiles u ON u.id = m.sender_id
+    LEFT JOIN public.user_profiles other ON other.id = CASE
+      WHEN c.participant_1_id = v_uid THEN c.participant_2_id
+      ELSE c.participant_1_id
+    END
+    WHERE coalesce(p_scope, 'dm') = 'dm'
+      AND m.deleted_at IS NULL
+      AND (m.expires_at IS NULL OR m.expires_at > now())
+      AND m.message_type <> 'system'
+      AND NOT (coalesce(m.metadata, '{}'::jsonb) ? 'e2e')
+      AND lower(m.content) LIKE v_p[1]
+      AND lower(m.content) LIKE v_p[2]
+      AND lower(m.content) LIKE v_p[3]
+      AND lower(m.content) LIKE v_p[4]
+      AND lower(m.content) LIKE v_p[5]
+      AND (p_container_id IS NULL OR m.conversation_id = p_container_id)
+      AND (p_sender_id IS NULL OR m.sender_id = p_sender_id)
+      AND (p_since IS NULL OR m.created_at >= p_since)
+      AND (p_until IS NULL OR m.created_at < p_until)
+      AND (p_before IS NULL OR m.created_at < p_before)
+      AND NOT EXISTS (
+        SELECT 1 FROM public.block_relationships br
+        WHERE (br.blocker_id = v_uid AND br.blocked_id = m.sender_id)
+           OR (br.blocker_id = m.sender_id AND br.blocked_id = v_uid)
+      )
+    ORDER BY m.created_at DESC
+    LIMIT v_limit
+  ),
+  channel_hits AS (
+    SELECT
+      'channel'::text AS scope,
+      rm.id AS message_id,
+      rm.channel_id AS container_id,
+      ch.name AS container_name,
+      sp.id AS space_id,
+      sp.name AS space_name,
+      rm.sender_id,
+      u.username AS sender_username,
+      u.display_name AS sender_display_name,
+      u.avatar_emoji AS sender_avatar_emoji,
+      rm.content,
+      rm.created_at
+    FROM public.room_messages rm
+    JOIN my_channels mch ON mch.channel_id = rm.channel_id
+    JOIN public.channels ch ON ch.id = rm.channel_id
+    JOIN public.spaces sp ON sp.id = ch.space_id
+    JOIN public.user_profiles u ON u.id = rm.sender_id
+    WHERE coalesce(p_scope, 'channel') = 'channel'
+      AND rm.deleted_at IS NULL
+      AND NOT coalesce(rm.is_masked, false)
+      AND rm.message_type <> 'system'
+      AND lower(rm.content) LIKE v_p[1]
+      AND lower(rm.content) LIKE v_p[2]
+      AND lower(rm.content) LIKE v_p[3]
+      AND lower(rm.content) LIKE v_p[4]
+      AND lower(rm.content) LIKE v_p[5]
+      AND (p_container_id IS NULL OR rm.channel_id = p_container_id)
+      AND (p_sender_id IS NULL OR rm.sender_id = p_sender_id)
+      AND (p_since IS NULL OR rm.created_at >= p_since)
+      AND (p_until IS NULL OR rm.created_at < p_until)
+      AND (p_before IS NULL OR rm.created_at < p_before)
+      AND NOT EXISTS (
+        SELECT 1 FROM public.block_relationships br
+        WHERE (br.blocker_id = v_uid AND br.blocked_id = rm.sender_id)
+           OR (br.blocker_id = rm.sender_id AND br.blocked_id = v_uid)
+      )
+    ORDER BY rm.created_at DESC
+    LIMIT v_limit
+  )
+  SELECT h.*
+  FROM (SELECT * FROM dm_hits UNION ALL SELECT * FROM channel_hits) h
+  ORDER BY h.created_at DESC, h.message_id
+  LIMIT v_limit;
+END; $$;
+
+GRANT EXECUTE ON FUNCTION public.search_messages_v2(text, text, uuid, uuid, timestamptz, timestamptz, timestamptz, int) TO authenticated;
@@ -0,0 +1,423 @@
+-- スペースに複数のチャンネルを作れるようにする（追加・名前変更・アーカイブ・並べ替え）
+-- 参加はこれまでどおり channel_members で管理し、スペースのどれか 1 つに参加すると全チャンネルに参加した状態にそろえる。
+-- お知らせチャンネル（channel_type = 'announcement'）はオーナーとモデレーターだけが投稿できる。
+
+-- =====================================================
+-- 1. 並び順
+-- =====================================================
+ALTER TABLE public.channels ADD COLUMN IF NOT EXISTS position int NOT NULL DEFAULT 0;
+
+-- 既存のスペースは作成順に並べておく
+UPDATE public.channels c
+SET position = s.pos
+FROM (
+  SELECT id, row_number() OVER (PARTITION BY space_id ORDER BY created_at, id) - 1 AS pos
+  FROM public.channels
+) s
+WHERE s.id = c.id AND c.position = 0 AND s.pos > 0;
+
+CREATE INDEX IF NOT EXISTS idx_channels_space_position
+  ON public.channels (space_id, position);
+
+-- =====================================================
+-- 2. スペース単位のロール
+-- =====================================================
+-- 呼び出し元のスペースでのロール（参加していなければ NULL）。オーナーは spaces.owner_id が正
+CREATE OR REPLACE FUNCTION public.space_member_role(
+  p_space_id uuid,
+  p_user_id uuid
+) RETURNS text
+LANGUAGE sql STABLE SECURITY DEFINER AS $$
+  SELECT CASE
+    WHEN EXISTS (SELECT 1 FROM public.spaces s WHERE s.id = p_space_id AND s.owner_id = p_user_id) THEN 'owner'
+    ELSE (
+      SELECT cm.role
+      FROM public.channel_members cm
+      JOIN public.channels c ON c.id = cm.channel_id
+      WHERE c.space_id = p_space_id
+        AND cm.user_id = p_user_id
+        AND cm.is_active = true
+      ORDER BY CASE cm.role WHEN 'owner' THEN 0 WHEN 'moderator' THEN 1 ELSE 2 END
+      LIMIT 1
+    )
+  END;
+$$;
+
+-- =====================================================
+-- 3. 参加状態をスペース内の全チャンネルにそろえる
+-- =====================================================
+-- 参加・退出・ロール変更は 1 つのチャンネルの行に対して行われるので、同じスペースの他のチャンネルへ写す。
+-- 写した先の変更でさらに写さないよう、トリガーの入れ子では何もしない。
+CREATE OR REPLACE FUNCTION public.sync_space_channel_membership()
+RETURNS trigger
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+BEGIN
+  IF pg_trigger_depth() > 1 THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.channel_members (channel_id, user_id, role, is_active)
+    SELECT c.id, NEW.user_id, NEW.role, NEW.is_active
+    FROM public.channels c
+    WHERE c.space_id = (SELECT space_id FROM public.channels WHERE id = NEW.channel_id)
+      AND c.id <> NEW.channel_id
+    ON CONFLICT (channel_id, user_id) DO NOTHING;
+  ELSIF TG_OP = 'UPDATE' THEN
+    UPDATE public.channel_members cm
+    SET role = NEW.role, is_active = NEW.is_active
+    FROM public.channels c
+    WHERE cm.channel_id = c.id
+      AND c.space_id = (SELECT space_id FROM public.channels WHERE id = NEW.channel_id)
+      AND cm.channel_id <> NEW.channel_id
+      AND cm.user_id = NEW.user_id;
+  ELSIF TG_OP = 'DELETE' THEN
+    DELETE FROM public.channel_members cm
+    USING public.channels c
+    WHERE cm.channel_id = c.id
+      AND c.space_id = (SELECT space_id FROM public.channels WHERE id = OLD.channel_id)
+      AND cm.channel_id <> OLD.channel_id
+      AND cm.user_id = OLD.user_id;
+  END IF;
+  RETURN NULL;
+END; $$;
+
+DROP TRIGGER IF EXISTS trigger_sync_space_channel_membership ON public.channel_members;
+CREATE TRIGGER trigger_sync_space_channel_membership
+  AFTER INSERT OR DELETE OR UPDATE OF role, is_active ON public.channel_members
+  FOR EACH ROW EXECUTE FUNCTION public.sync_space_channel_membership();
+
+-- 1 人が複数のチャンネルの行を持つので、人数は行数ではなく参加者の数で数え直す
+CREATE OR REPLACE FUNCTION public.update_space_member_count()
+RETURNS trigger
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  v_space_id uuid;
+BEGIN
+  SELECT space_id INTO v_space_id
+  FROM public.channels
+  WHERE id = CASE WHEN TG_OP = 'DELETE' THEN OLD.channel_id ELSE NEW.channel_id END;
+
+  IF v_space_id IS NOT NULL THEN
+    UPDATE public.spaces
+    SET member_count = (
+          SELECT count(DISTINCT cm.user_id)
+          FROM public.channel_members cm
+          JOIN public.channels c ON c.id = cm.channel_id
+          WHERE c.space_id = v_space_id
+        ),
+        updated_at = now()
+    WHERE id = v_space_id;
+  END IF;
+
+  RETURN CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END;
+END; $$;
+
+-- =====================================================
+-- 4. お知らせ・アーカイブ済みチャンネルへの投稿制限
+-- =====================================================
+-- 直接 insert と send_channel_message（SECURITY DEFINER）の両方を止めるためトリガーで確認する
+CREATE OR REPLACE FUNCTION public.enforce_channel_post_permission()
+RETURNS trigger
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  v_channel public.channels%ROWTYPE;
+BEGIN
+  IF NEW.channel_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_channel FROM public.channels WHERE id = NEW.channel_id;
+  IF NOT FOUND THEN
+    RETURN NEW;
+  END IF;
+  IF NOT v_channel.is_active THEN
+    RAISE EXCEPTION 'Channel is archived';
+  END IF;
+  IF v_channel.channel_type = 'announcement'
+     AND coalesce(public.space_member_role(v_channel.space_id, NEW.sender_id), 'member') NOT IN ('owner', 'moderator') THEN
+    RAISE EXCEPTION 'Announcement channel is read-only';
+  END IF;
+  RETURN NEW;
+END; $$;
+
+DROP TRIGGER IF EXISTS trigger_enforce_channel_post_permission ON public.room_messages;
+CREATE TRIGGER trigger_enforce_channel_post_permission
+  BEFORE INSERT ON public.room_messages
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_channel_post_permission();
+
+-- =====================================================
+-- 5. チャンネル管理（オーナーのみ）
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.assert_space_owner(p_space_id uuid)
+RETURNS void
+LANGUAGE plpgsql STABLE SECURITY DEFINER AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+  IF NOT EXISTS (
+    SELECT 1 FROM public.spaces WHERE id = p_space_id AND owner_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Permission denied';
+  END IF;
+END; $$;
+
+CREATE OR REPLACE FUNCTION public.create_space_channel(
+  p_space_id uuid,
+  p_name text,
+  p_channel_type text DEFAULT 'text',
+  p_description text DEFAULT NULL
+) RETURNS uuid
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  v_name text := trim(coalesce(p_name, ''));
+  v_id uuid;
+BEGIN
+  PERFORM public.assert_space_owner(p_space_id);
+  IF char_length(v_name) NOT BETWEEN 1 AND 50 THEN
+    RAISE EXCEPTION 'Invalid channel name';
+  END IF;
+  IF coalesce(p_channel_type, 'text') NOT IN ('text', 'announcement') THEN
+    RAISE EXCEPTION 'Invalid channel type';
+  END IF;
+  IF (SELECT count(*) FROM public.channels WHERE space_id = p_space_id AND is_active) >= 20 THEN
+    RAISE EXCEPTION 'Channel limit exceeded';
+  END IF;
+  IF EXISTS (
+    SELECT 1 FROM public.channels WHERE space_id = p_space_id AND lower(name) = lower(v_name)
+  ) THEN
+    RAISE EXCEPTION 'Channel name already exists';
+  END IF;
+
+  INSERT INTO public.channels (space_id, name, description, channel_type, position)
+  VALUES (
+    p_space_id,
+    v_name,
+    nullif(trim(coalesce(p_description, '')), ''),
+    coalesce(p_channel_type, 'text'),
+    (SELECT coalesce(max(position) + 1, 0) FROM public.channels WHERE space_id = p_space_id)
+  )
+  RETURNING id INTO v_id;
+
+  -- スペースの参加者をそのままのロールで新しいチャンネルにも入れる
+  INSERT INTO public.channel_members (channel_id, user_id, role, is_active)
+  SELECT DISTINCT ON (cm.user_id) v_id, cm.user_id, cm.role, cm.is_active
+  FROM public.channel_members cm
+  JOIN public.channels c ON c.id = cm.channel_id
+  WHERE c.space_id = p_space_id AND c.id <> v_id
+  ORDER BY cm.user_id, CASE cm.role WHEN 'owner' THEN 0 WHEN 'moderator' THEN 1 ELSE 2 END
+  ON CONFLICT (channel_id, user_id) DO NOTHING;
+
+  RETURN v_id;
+END; $$;
+
+CREATE OR REPLACE FUNCTION public.update_space_channel(
+  p_channel_id uuid,
+  p_name text DEFAULT NULL,
+  p_channel_type text DEFAULT NULL,
+  p_description text DEFAULT NULL
+) RETURNS void
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  v_space_id uuid;
+  v_name text := nullif(trim(coalesce(p_name, '')), '');
+BEGIN
+  SELECT space_id INTO v_space_id FROM public.channels WHERE id = p_channel_id;
+  IF v_space_id IS NULL THEN
+    RAISE EXCEPTION 'Channel not found';
+  END IF;
+  PERFORM public.assert_space_owner(v_space_id);
+  IF v_name IS NOT NULL AND char_length(v_name) > 50 THEN
+    RAISE EXCEPTION 'Invalid channel name';
+  END IF;
+  IF p_channel_type IS NOT NULL AND p_channel_type NOT IN ('text', 'announcement') THEN
+    RAISE EXCEPTION 'Invalid channel type';
+  END IF;
+  IF v_name IS NOT NULL AND EXISTS (
+    SELECT 1 FROM public.channels
+    WHERE space_id = v_space_id AND id <> p_channel_id AND lower(name) = lower(v_name)
+  ) THEN
+    RAISE EXCEPTION 'Channel name already exists';
+  END IF;
+
+  UPDATE public.channels
+  SET name = coalesce(v_name, name),
+      channel_type = coalesce(p_channel_type, channel_type),
+      description = CASE WHEN p_description IS NULL THEN description ELSE nullif(trim(p_description), '') END
+  WHERE id = p_channel_id;
+END; $$;
+
+-- アーカイブしたチャンネルは一覧から外れ、投稿できなくなる（過去のメッセージは残る）
+CREATE OR REPLACE FUNCTION public.set_space_channel_archived(
+  p_channel_id uuid,
+  p_archived boolean
+) RETURNS void
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  v_space_id uuid;
+BEGIN
+  SELECT space_id INTO v_space_id FROM public.channels WHERE id = p_channel_id;
+  IF v_space_id IS NULL THEN
+    RAISE EXCEPTION 'Channel not found';
+  END IF;
+  PERFORM public.assert_space_owner(v_space_id);
+  IF p_archived AND (
+    SELECT count(*) FROM public.channels
+    WHERE space_id = v_space_id AND is_active AND id <> p_channel_id
+  ) = 0 THEN
+    RAISE EXCEPTION 'Cannot archive the last channel';
+  END IF;
+
+  UPDATE public.channels SET is_active = NOT p_archived WHERE id = p_channel_id;
+END; $$;
+
+-- p_channel_ids の順に position を振り直す。含まれないチャンネルは後ろに回す
+CREATE OR REPLACE FUNCTION public.reorder_space_channels(
+  p_space_id uuid,
+  p_channel_ids uuid[]
+) RETURNS void
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+BEGIN
+  PERFORM public.assert_space_owner(p_space_id);
+
+  UPDATE public.channels c
+  SET position = o.pos
+  FROM (
+    SELECT ch.id,
+           row_number() OVER (
+             ORDER BY coalesce(array_position(p_channel_ids, ch.id), 2147483647), ch.position, ch.created_at
+           ) - 1 AS pos
+    FROM public.channels ch
+    WHERE ch.space_id = p_space_id
+  ) o
+  WHERE c.id = o.id;
+END; $$;
+
+-- =====================================================
+-- 6. 一覧
+-- =====================================================
+-- スペースのチャンネルを並び順で返す。アーカイブ済みはオーナーにだけ返す
+CREATE OR REPLACE FUNCTION public.get_space_channels(
+  p_space_id uuid
+) RETURNS TABLE (
+  id uuid,
+  space_id uuid,
+  name text,
+  description text,
+  channel_type text,
+  is_active boolean,
+  "position" int,
+  created_at timestamptz,
+  member_role text,
+  has_new boolean,
+  unread_count bigint
+)
+LANGUAGE sql STABLE SECURITY DEFINER AS $$
+  WITH me AS (
+    SELECT public.space_member_role(p_space_id, auth.uid()) AS role
+  )
+  SELECT
+    c.id,
+    c.space_id,
+    c.name,
+    c.description,
+    c.channel_type,
+    c.is_active,
+    c.position,
+    c.created_at,
+    me.role AS member_role,
+    coalesce(unread.n, 0) > 0 AS has_new,
+    coalesce(unread.n, 0) AS unread_count
+  FROM public.channels c
+  CROSS JOIN me
+  LEFT JOIN public.channel_members cm
+    ON cm.channel_id = c.id AND cm.user_id = auth.uid()
+  LEFT JOIN LATERAL (
+    SELECT count(*)::bigint AS n
+    FROM public.room_messages rm
+    WHERE rm.channel_id = c.id
+      AND rm.sender_id <> auth.uid()
+      AND rm.created_at > cm.last_seen_at
+      AND rm.deleted_at IS NULL
+  ) unread ON cm.user_id IS NOT NULL
+  WHERE c.space_id = p_space_id
+    AND me.role IS NOT NULL
+    AND (c.is_active OR me.role = 'owner')
+  ORDER BY c.position, c.created_at;
+$$;
+
+-- チャットリストはチャンネルごとの行。種類と並び順も返し、クライアントでスペースごとにまとめる
+DROP FUNCTION IF EXISTS public.get_chat_list_with_new(int);
+CREATE FUNCTION public.get_chat_list_with_new(
+  p_limit int DEFAULT 20
+)
+RETURNS TABLE (
+  channel_id uuid,
+  space_id uuid,
+  space_name text,
+  space_is_public boolean,
+  channel_name text,
+  channel_type text,
+  channel_position int,
+  member_role text,
+  last_seen_at timestamptz,
+  latest_message_at timestamptz,
+  latest_message_content text,
+  latest_message_sender_id uuid,
+  latest_message_sender_username text,
+  has_new boolean,
+  unread_count bigint
+)
+LANGUAGE sql STABLE SECURITY DEFINER
+AS $$
+  SELECT
+    cm.channel_id,
+    s.id AS space_id,
+    s.name AS space_name,
+    s.is_public AS space_is_public,
+    c.name AS channel_name,
+    c.channel_type,
+    c.position AS channel_position,
+    cm.role AS member_role,
+    cm.last_seen_at,
+    latest_msg.created_at AS latest_message_at,
+    latest_msg.content AS latest_message_content,
+    latest_msg.sender_id AS latest_message_sender_id,
+    latest_sender.username AS latest_message_sender_username,
+    coalesce(unread.n, 0) > 0 AS has_new,
+    coalesce(unread.n, 0) AS unread_count
+  FROM public.channel_members cm
+  JOIN public.channels c ON c.id = cm.channel_id
+  JOIN public.spaces s ON s.id = c.space_id
+  LEFT JOIN LATERAL (
+    SELECT count(*)::bigint AS n
+    FROM public.room_messages rm
+    WHERE rm.channel_id = cm.channel_id
+      AND rm.sender_id <> auth.uid()
+      AND rm.created_at > cm.last_seen_at
+      AND rm.deleted_at IS NULL
+  ) unread ON true
+  LEFT JOIN public.room_messages latest_msg ON latest_msg.id = (
+    SELECT id FROM public.room_messages rm2
+    WHERE rm2.channel_id = cm.channel_id
+      AND rm2.deleted_at IS NULL
+    ORDER BY rm2.created_at DESC, rm2.id DESC
+    LIMIT 1
+  )
+  LEFT JOIN public.user_profiles latest_sender ON latest_sender.id = latest_msg.sender_id
+  WHERE cm.user_id = auth.uid()
+    AND cm.is_active = true
+    AND c.is_active = true
+  ORDER BY
+    COALESCE(latest_msg.created_at, cm.joined_at) DESC
+  LIMIT GREATEST(1, LEAST(COALESCE(p_limit, 20), 200));
+$$;
+
+GRANT EXECUTE ON FUNCTION public.space_member_role(uuid, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.create_space_channel(uuid, text, text, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.update_space_channel(uuid, text, text, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.set_space_channel_archived(uuid, boolean) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.reorder_space_channels(uuid, uuid[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_space_channels(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_chat_list_with_new(int) TO authenticated;
@@ -0,0 +1,483 @@
+-- スペースのモデレーション（モデレーター任命、退出させる、BAN、一時ミュート、他人のメッセージ削除）
+-- 操作はすべて SECURITY DEFINER の RPC で行い、space_moderation_log に残す。ログはオーナーとモデレーターだけが読める。
+-- 権限はオーナー > モデレーター > メンバー。モデレーターはメンバーにだけ操作でき、役割の変更はオーナーだけ。
+-- ログにはメッセージ本文を残さない（メッセージ ID のみ）。
+
+-- =====================================================
+-- 1. テーブル
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.space_bans (
+  space_id uuid NOT NULL REFERENCES public.spaces(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES public.user_profiles(id) ON DELETE CASCADE,
+  banned_by uuid REFERENCES public.user_profiles(id) ON DELETE SET NULL,
+  reason text CHECK (reason IS NULL OR char_length(reason) <= 200),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (space_id, user_id)
+);
+
+CREATE TABLE IF NOT EXISTS public.space_mutes (
+  space_id uuid NOT NULL REFERENCES public.spaces(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES public.user_profiles(id) ON DELETE CASCADE,
+  muted_until timestamptz NOT NULL,
+  muted_by uuid REFERENCES public.user_profiles(id) ON DELETE SET NULL,
+  reason text CHECK (reason IS NULL OR char_length(reason) <= 200),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (space_id, user_id)
+);
+
+CREATE TABLE IF NOT EXISTS public.space_moderation_log (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  space_id uuid NOT NULL REFERENCES public.spaces(id) ON DELETE CASCADE,
+  actor_id uuid REFERENCES public.user_profiles(id) ON DELETE SET NULL,
+  action text NOT NULL CHECK (action IN (
+    'promote', 'demote', 'kick', 'ban', 'unban', 'mute', 'unmute', 'delete_message'
+  )),
+  target_user_id uuid REFERENCES public.user_profiles(id) ON DELETE SET NULL,
+  message_id uuid,
+  reason text,
+  metadata jsonb NOT NULL DEFAULT '{}'::jsonb,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_space_moderation_log_space
+  ON public.space_moderation_log (space_id, created_at DESC);
+
+ALTER TABLE public.space_bans ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.space_mutes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.space_moderation_log ENABLE ROW LEVEL SECURITY;
+
+-- 書き込みは RPC だけ。読み取りはオーナーとモデレーター（ミュートは本人も）
+DO $$ BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies WHERE tablename = 'space_bans' AND policyname = 'space_bans_select_moderators'
+  ) THEN
+    CREATE POLICY "space_bans_select_moderators" ON public.space_bans
+      FOR SELECT USING (public.space_member_role(space_id, auth.uid()) IN ('owner', 'moderator'));
+  END IF;
+END $$;
+
+DO $$ BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies WHERE tablename = 'space_mutes' AND policyname = 'space_mutes_select_moderators_or_self'
+  ) THEN
+    CREATE POLICY "space_mutes_select_moderators_or_self" ON public.space_mutes
+      FOR SELECT USING (
+        user_id = auth.uid()
+        OR public.space_member_role(space_id, auth.uid()) IN ('owner', 'moderator')
+      );
+  END IF;
+END $$;
+
+DO $$ BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies WHERE tablename = 'space_moderation_log' AND policyname = 'space_moderation_log_select_moderators'
+  ) THEN
+    CREATE POLICY "space_moderation_log_select_moderators" ON public.space_moderation_log
+      FOR SELECT USING (public.space_member_role(space_id, auth.uid()) IN ('owner', 'moderator'));
+  END IF;
+END $$;
+
+-- =====================================================
+-- 2. BAN・ミュートの適用
+-- =====================================================
+-- BAN されたユーザーは join_public_space や直接 insert でも参加できない
+CREATE OR REPLACE FUNCTION public.enforce_space_ban()
+RETURNS trigger
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1
+    FROM public.space_bans b
+    JOIN public.channels c ON c.space_id = b.space_id
+    WHERE c.id = NEW.channel_id AND b.user_id = NEW.user_id
+  ) THEN
+    RAISE EXCEPTION 'Banned from space';
+  END IF;
+  RETURN NEW;
+END; $$;
+
+DROP TRIGGER IF EXISTS trigger_enforce_space_ban ON public.channel_members;
+CREATE TRIGGER trigger_enforce_space_ban
+  BEFORE INSERT ON public.channel_members
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_space_ban();
+
+-- channel_members の更新ポリシーでは本人・モデレーターも行を書き換えられるため、
+-- ロールはここで守る。変更できるのは set_space_member_role（ログが残る）からだけ。
+-- 本人が自分を member 以外として直接追加することも認めない（スペースのオーナー本人の行は除く）。
+-- 全チャンネルへ写すトリガーからの変更は、元の変更がここを通っているので対象外
+CREATE OR REPLACE FUNCTION public.enforce_channel_member_role()
+RETURNS trigger
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+BEGIN
+  IF pg_trigger_depth() > 1
+     OR current_setting('app.space_role_change', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    IF NEW.role IS DISTINCT FROM OLD.role THEN
+      RAISE EXCEPTION 'Permission denied';
+    END IF;
+  ELSIF NEW.role IS DISTINCT FROM 'member'
+     AND NEW.user_id = auth.uid()
+     AND NOT EXISTS (
+       SELECT 1 FROM public.spaces s
+       JOIN public.channels c ON c.space_id = s.id
+       WHERE c.id = NEW.channel_id AND s.owner_id = NEW.user_id
+     ) THEN
+    RAISE EXCEPTION 'Permission denied';
+  END IF;
+  RETURN NEW;
+END; $$;
+
+DROP TRIGGER IF EXISTS trigger_enforce_channel_member_role ON public.channel_members;
+CREATE TRIGGER trigger_enforce_channel_member_role
+  BEFORE INSERT OR UPDATE OF role ON public.channel_members
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_channel_member_role();
+
+-- 20261107090000_space_channels の投稿チェックに、ミュート中かどうかを加える
+CREATE OR REPLACE FUNCTION public.enforce_channel_post_permission()
+RETURNS trigger
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  v_channel public.channels%ROWTYPE;
+BEGIN
+  IF NEW.channel_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_channel FROM public.channels WHERE id = NEW.channel_id;
+  IF NOT FOUND THEN
+    RETURN NEW;
+  END IF;
+  IF NOT v_channel.is_active THEN
+    RAISE EXCEPTION 'Channel is archived';
+  END IF;
+  IF v_channel.channel_type = 'announcement'
+     AND coalesce(public.space_member_role(v_channel.space_id, NEW.sender_id), 'member') NOT IN ('owner', 'moderator') THEN
+    RAISE EXCEPTION 'Announcement channel is read-only';
+  END IF;
+  IF EXISTS (
+    SELECT 1 FROM public.space_mutes m
+    WHERE m.space_id = v_channel.space_id
+      AND m.user_id = NEW.sender_id
+      AND m.muted_until > now()
+  ) THEN
+    RAISE EXCEPTION 'Muted in space';
+  END IF;
+  RETURN NEW;
+END; $$;
+
+-- =====================================================
+-- 3. 権限チェック
+-- =====================================================
+-- 呼び出し元が対象ユーザーに操作できるか確かめ、呼び出し元のロールを返す
+CREATE OR REPLACE FUNCTION public.assert_can_moderate(
+  p_space_id uuid,
+  p_target_user_id uuid
+) RETURNS text
+LANGUAGE plpgsql STABLE SECURITY DEFINER AS $$
+DECLARE
+  v_actor_role text;
+  v_target_role text;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+  v_actor_role := public.space_member_role(p_space_id, auth.uid());
+  IF v_actor_role IS NULL OR v_actor_role NOT IN ('owner', 'moderator') THEN
+    RAISE EXCEPTION 'Permission denied';
+  END IF;
+  IF p_target_user_id = auth.uid() THEN
+    RAISE EXCEPTION 'Cannot moderate yourself';
+  END IF;
+  v_target_role := coalesce(public.space_member_role(p_space_id, p_target_user_id), 'member');
+  IF v_target_role = 'owner' OR (v_actor_role = 'moderator' AND v_target_role = 'moderator') THEN
+    RAISE EXCEPTION 'Permission denied';
+  END IF;
+  RETURN v_actor_role;
+END; $$;
+
+CREATE OR REPLACE FUNCTION public.log_space_moderation(
+  p_space_id uuid,
+  p_action text,
+  p_target_user_id uuid,
+  p_message_id uuid DEFAULT NULL,
+  p_reason text DEFAULT NULL,
+  p_metadata jsonb DEFAULT '{}'::jsonb
+) RETURNS void
+LANGUAGE sql SECURITY DEFINER AS $$
+  INSERT INTO public.space_moderation_log (space_id, actor_id, action, target_user_id, message_id, reason, metadata)
+  VALUES (p_space_id, auth.uid(), p_action, p_target_user_id, p_message_id,
+          nullif(left(trim(coalesce(p_reason, '')), 200), ''), coalesce(p_metadata, '{}'::jsonb));
+$$;
+
+-- =====================================================
+-- 4. 操作
+-- =====================================================
+-- モデレーターの任命・解除（オーナーのみ）
+CREATE OR REPLACE FUNCTION public.set_space_member_role(
+  p_space_id uuid,
+  p_user_id uuid,
+  p_role text
+) RETURNS void
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  v_current text;
+BEGIN
+  PERFORM public.assert_space_owner(p_space_id);
+  IF p_role NOT IN ('moderator', 'member') THEN
+    RAISE EXCEPTION 'Invalid role';
+  END IF;
+  v_current := public.space_member_role(p_space_id, p_user_id);
+  IF v_current IS NULL THEN
+    RAISE EXCEPTION 'Not a member';
+  END IF;
+  IF v_current = 'owner' THEN
+    RAISE EXCEPTION 'Permission denied';
+  END IF;
+  IF v_current = p_role THEN
+    RETURN;
+  END IF;
+
+  -- ロールの変更はこの関数からだけ通す（enforce_channel_member_role を参照）
+  PERFORM set_config('app.space_role_change', 'on', true);
+  UPDATE public.channel_members cm
+  SET role = p_role
+  FROM public.channels c
+  WHERE cm.channel_id = c.id
+    AND c.space_id = p_space_id
+    AND cm.user_id = p_user_id;
+  PERFORM set_config('app.space_role_change', 'off', true);
+
+  PERFORM public.log_space_moderation(
+    p_space_id, CASE WHEN p_role = 'moderator' THEN 'promote' ELSE 'demote' END, p_user_id
+  );
+END; $$;
+
+-- 退出させる（BAN しないので再参加はできる）
+CREATE OR REPLACE FUNCTION public.kick_space_member(
+  p_space_id uuid,
+  p_user_id uuid,
+  p_reason text DEFAULT NULL
+) RETURNS void
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+BEGIN
+  PERFORM public.assert_can_moderate(p_space_id, p_user_id);
+  IF public.space_member_role(p_space_id, p_user_id) IS NULL THEN
+    RAISE EXCEPTION 'Not a member';
+  END IF;
+
+  DELETE FROM public.channel_members cm
+  USING public.channels c
+  WHERE cm.channel_id = c.id
+    AND c.space_id = p_space_id
+    AND cm.user_id = p_user_id;
+
+  PERFORM public.log_space_moderation(p_space_id, 'kick', p_user_id, NULL, p_reason);
+END; $$;
+
+-- BAN（退出させたうえで再参加できなくする）。参加していないユーザーも BAN できる
+CREATE OR REPLACE FUNCTION public.ban_space_member(
+  p_space_id uuid,
+  p_user_id uuid,
+  p_reason text DEFAULT NULL
+) RETURNS void
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+BEGIN
+  PERFORM public.assert_can_moderate(p_space_id, p_user_id);
+
+  INSERT INTO public.space_bans (space_id, user_id, banned_by, reason)
+  VALUES (p_space_id, p_user_id, auth.uid(), nullif(left(trim(coalesce(p_reason, '')), 200), ''))
+  ON CONFLICT (space_id, user_id) DO UPDATE
+    SET banned_by = EXCLUDED.banned_by, reason = EXCLUDED.reason, created_at = now();
+
+  DELETE FROM public.channel_members cm
+  USING public.channels c
+  WHERE cm.channel_id = c.id
+    AND c.space_id = p_space_id
+    AND cm.user_id = p_user_id;
+  DELETE FROM public.space_mutes WHERE space_id = p_space_id AND user_id = p_user_id;
+
+  PERFORM public.log_space_moderation(p_space_id, 'ban', p_user_id, NULL, p_reason);
+END; $$;
+
+CREATE OR REPLACE FUNCTION public.unban_space_member(
+  p_space_id uuid,
+  p_user_id uuid
+) RETURNS void
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+BEGIN
+  PERFORM public.assert_can_moderate(p_space_id, p_user_id);
+  DELETE FROM public.space_bans WHERE space_id = p_space_id AND user_id = p_user_id;
+  IF FOUND THEN
+    PERFORM public.log_space_moderation(p_space_id, 'unban', p_user_id);
+  END IF;
+END; $$;
+
+-- 一時ミュート（1 分〜7 日）。期限が過ぎれば自動で投稿できるようになる
+CREATE OR REPLACE FUNCTION public.mute_space_member(
+  p_space_id uuid,
+  p_user_id uuid,
+  p_minutes int,
+  p_reason text DEFAULT NULL
+) RETURNS timestamptz
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  v_until timestamptz;
+BEGIN
+  PERFORM public.assert_can_moderate(p_space_id, p_user_id);
+  IF p_minutes IS NULL OR p_minutes NOT BETWEEN 1 AND 10080 THEN
+    RAISE EXCEPTION 'Invalid mute duration';
+  END IF;
+  IF public.space_member_role(p_space_id, p_user_id) IS NULL THEN
+    RAISE EXCEPTION 'Not a member';
+  END IF;
+  v_until := now() + make_interval(mins => p_minutes);
+
+  INSERT INTO public.space_mutes (space_id, user_id, muted_until, muted_by, reason)
+  VALUES (p_space_id, p_user_id, v_until, auth.uid(), nullif(left(trim(coalesce(p_reason, '')), 200), ''))
+  ON CONFLICT (space_id, user_id) DO UPDATE
+    SET muted_until = EXCLUDED.muted_until, muted_by = EXCLUDED.muted_by,
+        reason = EXCLUDED.reason, created_at = now();
+
+  PERFORM public.log_space_moderation(
+    p_space_id, 'mute', p_user_id, NULL, p_reason, jsonb_build_object('minutes', p_minutes)
+  );
+  RETURN v_until;
+END; $$;
+
+CREATE OR REPLACE FUNCTION public.unmute_space_member(
+  p_space_id uuid,
+  p_user_id uuid
+) RETURNS void
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+BEGIN
+  PERFORM public.assert_can_moderate(p_space_id, p_user_id);
+  DELETE FROM public.space_mutes WHERE space_id = p_space_id AND user_id = p_user_id;
+  IF FOUND THEN
+    PERFORM public.log_space_moderation(p_space_id, 'unmute', p_user_id);
+  END IF;
+END; $$;
+
+-- 他人のメッセージの削除。本人の削除と同じく論理削除にする
+CREATE OR REPLACE FUNCTION public.moderate_delete_channel_message(
+  p_message_id uuid,
+  p_reason text DEFAULT NULL
+) RETURNS void
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  v_space_id uuid;
+  v_channel_id uuid;
+  v_sender_id uuid;
+BEGIN
+  SELECT c.space_id, rm.channel_id, rm.sender_id
+  INTO v_space_id, v_channel_id, v_sender_id
+  FROM public.room_messages rm
+  JOIN public.channels c ON c.id = rm.channel_id
+  WHERE rm.id = p_message_id AND rm.deleted_at IS NULL;
+  IF v_space_id IS NULL THEN
+    RAISE EXCEPTION 'Message not found';
+  END IF;
+  PERFORM public.assert_can_moderate(v_space_id, v_sender_id);
+
+  UPDATE public.room_messages
+  SET deleted_at = now(),
+      content = 'このメッセージは削除されました',
+      attachments = '[]'::jsonb
+  WHERE id = p_message_id;
+
+  PERFORM public.log_space_moderation(
+    v_space_id, 'delete_message', v_sender_id, p_message_id, p_reason,
+    jsonb_build_object('channel_id', v_channel_id)
+  );
+END; $$;
+
+-- =====================================================
+-- 5. 一覧
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.get_space_moderation_log(
+  p_space_id uuid,
+  p_before timestamptz DEFAULT NULL,
+  p_limit int DEFAULT 30
+) RETURNS TABLE (
+  id uuid,
+  action text,
+  actor_id uuid,
+  actor_username text,
+  actor_display_name text,
+  target_user_id uuid,
+  target_username text,
+  target_display_name text,
+  message_id uuid,
+  reason text,
+  metadata jsonb,
+  created_at timestamptz
+)
+LANGUAGE plpgsql STABLE SECURITY DEFINER AS $$
+BEGIN
+  IF coalesce(public.space_member_role(p_space_id, auth.uid()), 'member') NOT IN ('owner', 'moderator') THEN
+    RAISE EXCEPTION 'Permission denied';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    l.id, l.action,
+    l.actor_id, actor.username, actor.display_name,
+    l.target_user_id, target.username, target.display_name,
+    l.message_id, l.reason, l.metadata, l.created_at
+  FROM public.space_moderation_log l
+  LEFT JOIN public.user_profiles actor ON actor.id = l.actor_id
+  LEFT JOIN public.user_profiles target ON target.id = l.target_user_id
+  WHERE l.space_id = p_space_id
+    AND (p_before IS NULL OR l.created_at < p_before)
+  ORDER BY l.created_at DESC
+  LIMIT greatest(1, least(coalesce(p_limit, 30), 100));
+END; $$;
+
+-- BAN 中と、期限内のミュート中のユーザー
+CREATE OR REPLACE FUNCTION public.get_space_restrictions(
+  p_space_id uuid
+) RETURNS TABLE (
+  kind text,
+  user_id uuid,
+  username text,
+  display_name text,
+  avatar_emoji text,
+  until timestamptz,
+  reason text,
+  created_at timestamptz
+)
+LANGUAGE plpgsql STABLE SECURITY DEFINER AS $$
+BEGIN
+  IF coalesce(public.space_member_role(p_space_id, auth.uid()), 'member') NOT IN ('owner', 'moderator') THEN
+    RAISE EXCEPTION 'Permission denied';
+  END IF;
+
+  RETURN QUERY
+  SELECT 'ban'::text, b.user_id, u.username, u.display_name, u.avatar_emoji,
+         NULL::timestamptz, b.reason, b.created_at
+  FROM public.space_bans b
+  JOIN public.user_profiles u ON u.id = b.user_id
+  WHERE b.space_id = p_space_id
+  UNION ALL
+  SELECT 'mute'::text, m.user_id, u.username, u.display_name, u.avatar_emoji,
+         m.muted_until, m.reason, m.created_at
+  FROM public.space_mutes m
+  JOIN public.user_profiles u ON u.id = m.user_id
+  WHERE m.space_id = p_space_id AND m.muted_until > now()
+  ORDER BY 8 DESC;
+END; $$;
+
+-- ログの書き込みは各 RPC からだけ行う
+REVOKE ALL ON FUNCTION public.log_space_moderation(uuid, text, uuid, uuid, text, jsonb) FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION public.set_space_member_role(uuid, uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.kick_space_member(uuid, uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.ban_space_member(uuid, uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.unban_space_member(uuid, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.mute_space_member(uuid, uuid, int, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.unmute_space_member(uuid, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.moderate_delete_channel_message(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_space_moderation_log(uuid, timestamptz, int) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_space_restrictions(uuid) TO authenticated;
@@ -0,0 +1,481 @@
+-- スペースの招待リンクと参加リクエスト
+-- 招待リンクはオーナーが発行する。有効期限と利用回数の上限を付けられ、いつでも無効にできる。
+-- 「承認制」のリンクや、期限切れ・上限に達したリンクからは参加リクエストを送れる。オーナーが承認・却下（メモ付き）する。
+-- リクエストの送信・承認・却下、リンクからの参加はそれぞれ type = 'room' の通知で知らせる。
+-- 非公開スペースは一覧に出ないため、リクエストも招待リンクのコード経由でだけ送れる。
+
+-- =====================================================
+-- 1. テーブル
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.space_invite_links (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  space_id uuid NOT NULL REFERENCES public.spaces(id) ON DELETE CASCADE,
+  code text NOT NULL UNIQUE,
+  created_by uuid REFERENCES public.user_profiles(id) ON DELETE SET NULL,
+  requires_approval boolean NOT NULL DEFAULT false,
+  expires_at timestamptz,
+  max_uses int CHECK (max_uses IS NULL OR max_uses BETWEEN 1 AND 1000),
+  use_count int NOT NULL DEFAULT 0,
+  revoked_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_space_invite_links_space
+  ON public.space_invite_links (space_id, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS public.space_join_requests (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  space_id uuid NOT NULL REFERENCES public.spaces(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES public.user_profiles(id) ON DELETE CASCADE,
+  invite_link_id uuid REFERENCES public.space_invite_links(id) ON DELETE SET NULL,
+  message text CHECK (message IS NULL OR char_length(message) <= 200),
+  status text NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'approved', 'rejected', 'cancelled')),
+  decision_note text CHECK (decision_note IS NULL OR char_length(decision_note) <= 200),
+  decided_by uuid REFERENCES public.user_profiles(id) ON DELETE SET NULL,
+  decided_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- 保留中のリクエストは 1 人 1 件まで
+CREATE UNIQUE INDEX IF NOT EXISTS uq_space_join_requests_pending
+  ON public.space_join_requests (space_id, user_id)
+  WHERE status = 'pending';
+
+ALTER TABLE public.space_invite_links ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.space_join_requests ENABLE ROW LEVEL SECURITY;
+
+-- 書き込みは RPC だけ。リンクはオーナー、リクエストはオーナーと本人が読める
+DO $$ BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies WHERE tablename = 'space_invite_links' AND policyname = 'space_invite_links_select_owner'
+  ) THEN
+    CREATE POLICY "space_invite_links_select_owner" ON public.space_invite_links
+      FOR SELECT USING (
+        EXISTS (SELECT 1 FROM public.spaces s WHERE s.id = space_id AND s.owner_id = auth.uid())
+      );
+  END IF;
+END $$;
+
+DO $$ BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies WHERE tablename = 'space_join_requests' AND policyname = 'space_join_requests_select_owner_or_self'
+  ) THEN
+    CREATE POLICY "space_join_requests_select_owner_or_self" ON public.space_join_requests
+      FOR SELECT USING (
+        user_id = auth.uid()
+        OR EXISTS (SELECT 1 FROM public.spaces s WHERE s.id = space_id AND s.owner_id = auth.uid())
+      );
+  END IF;
+END $$;
+
+-- =====================================================
+-- 2. 内部ヘルパー
+-- =====================================================
+-- リンクの状態。valid 以外では直接参加できない
+CREATE OR REPLACE FUNCTION public.space_invite_link_status(l public.space_invite_links)
+RETURNS text
+LANGUAGE sql STABLE AS $$
+  SELECT CASE
+    WHEN l.revoked_at IS NOT NULL THEN 'revoked'
+    WHEN l.expires_at IS NOT NULL AND l.expires_at <= now() THEN 'expired'
+    WHEN l.max_uses IS NOT NULL AND l.use_count >= l.max_uses THEN 'used_up'
+    ELSE 'valid'
+  END;
+$$;
+
+-- スペースの先頭チャンネルに参加させる（ほかのチャンネルは space_channels の同期トリガーが追加する）
+-- BAN 中なら channel_members の enforce_space_ban が 'Banned from space' を投げる
+CREATE OR REPLACE FUNCTION public.add_space_member(p_space_id uuid, p_user_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  v_channel_id uuid;
+BEGIN
+  SELECT id INTO v_channel_id
+  FROM public.channels
+  WHERE space_id = p_space_id AND is_active = true
+  ORDER BY position, created_at
+  LIMIT 1;
+  IF v_channel_id IS NULL THEN
+    RAISE EXCEPTION 'Channel not found';
+  END IF;
+
+  IF public.space_member_role(p_space_id, p_user_id) IS NOT NULL THEN
+    RETURN v_channel_id;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.spaces
+    WHERE id = p_space_id AND member_count >= max_members
+  ) THEN
+    RAISE EXCEPTION 'Space is at capacity';
+  END IF;
+
+  INSERT INTO public.channel_members (channel_id, user_id, role)
+  VALUES (v_channel_id, p_user_id, 'member')
+  ON CONFLICT DO NOTHING;
+
+  RETURN v_channel_id;
+END; $$;
+
+CREATE OR REPLACE FUNCTION public.notify_space_event(
+  p_user_id uuid,
+  p_space_id uuid,
+  p_content text,
+  p_metadata jsonb
+) RETURNS void
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+BEGIN
+  IF p_user_id IS NULL THEN
+    RETURN;
+  END IF;
+  INSERT INTO public.notifications(user_id, type, content, metadata)
+  VALUES (
+    p_user_id,
+    'room',
+    p_content,
+    jsonb_build_object('space_id', p_space_id) || coalesce(p_metadata, '{}'::jsonb)
+  );
+END; $$;
+
+REVOKE ALL ON FUNCTION public.add_space_member(uuid, uuid) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.notify_space_event(uuid, uuid, text, jsonb) FROM PUBLIC, anon, authenticated;
+
+-- =====================================================
+-- 3. 招待リンク（オーナー）
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.create_space_invite_link(
+  p_space_id uuid,
+  p_expires_in_hours int DEFAULT 168,
+  p_max_uses int DEFAULT NULL,
+  p_requires_approval boolean DEFAULT false
+) RETURNS TABLE (
+  id uuid,
+  code text,
+  requires_approval boolean,
+  expires_at timestamptz,
+  max_uses int,
+  use_count int,
+  created_at timestamptz
+)
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  v_link public.space_invite_links;
+BEGIN
+  PERFORM public.assert_space_owner(p_space_id);
+  IF p_expires_in_hours IS NOT NULL AND p_expires_in_hours NOT BETWEEN 1 AND 24 * 30 THEN
+    RAISE EXCEPTION 'Invalid expiry';
+  END IF;
+  IF p_max_uses IS NOT NULL AND p_max_uses NOT BETWEEN 1 AND 1000 THEN
+    RAISE EXCEPTION 'Invalid max uses';
+  END IF;
+  IF (
+    SELECT count(*) FROM public.space_invite_links l
+    WHERE l.space_id = p_space_id AND public.space_invite_link_status(l) = 'valid'
+  ) >= 20 THEN
+    RAISE EXCEPTION 'Invite link limit exceeded';
+  END IF;
+
+  INSERT INTO public.space_invite_links (
+    space_id, code, created_by, requires_approval, expires_at, max_uses
+  )
+  VALUES (
+    p_space_id,
+    left(replace(gen_random_uuid()::text, '-', ''), 12),
+    auth.uid(),
+    coalesce(p_requires_approval, false),
+    CASE WHEN p_expires_in_hours IS NULL THEN NULL
+         ELSE now() + make_interval(hours => p_expires_in_hours) END,
+    p_max_uses
+  )
+  RETURNING * INTO v_link;
+
+  RETURN QUERY SELECT
+    v_link.id, v_link.code, v_link.requires_approval, v_link.expires_at,
+    v_link.max_uses, v_link.use_count, v_link.created_at;
+END; $$;
+
+CREATE OR REPLACE FUNCTION public.revoke_space_invite_link(p_link_id uuid)
+RETURNS void
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  v_space_id uuid;
+BEGIN
+  SELECT space_id INTO v_space_id FROM public.space_invite_links WHERE id = p_link_id;
+  IF v_space_id IS NULL THEN
+    RAISE EXCEPTION 'Invite not found';
+  END IF;
+  PERFORM public.assert_space_owner(v_space_id);
+
+  UPDATE public.space_invite_links
+  SET revoked_at = coalesce(revoked_at, now())
+  WHERE id = p_link_id;
+END; $$;
+
+-- 無効にしたリンクは一覧に出さない
+CREATE OR REPLACE FUNCTION public.get_space_invite_links(p_space_id uuid)
+RETURNS TABLE (
+  id uuid,
+  code text,
+  requires_approval boolean,
+  expires_at timestamptz,
+  max_uses int,
+  use_count int,
+  status text,
+  created_at timestamptz
+)
+LANGUAGE plpgsql STABLE SECURITY DEFINER AS $$
+BEGIN
+  PERFORM public.assert_space_owner(p_space_id);
+
+  RETURN QUERY
+  SELECT l.id, l.code, l.requires_approval, l.expires_at, l.max_uses, l.use_count,
+         public.space_invite_link_status(l), l.created_at
+  FROM public.space_invite_links l
+  WHERE l.space_id = p_space_id AND l.revoked_at IS NULL
+  ORDER BY l.created_at DESC;
+END; $$;
+
+-- =====================================================
+-- 4. 招待リンクを開いた人
+-- =====================================================
+-- リンクの中身（スペースの概要と、自分が参加済みか・リクエスト中か）
+CREATE OR REPLACE FUNCTION public.get_space_invite_preview(p_code text)
+RETURNS TABLE (
+  space_id uuid,
+  name text,
+  description text,
+  is_public boolean,
+  member_count int,
+  max_members int,
+  status text,
+  requires_approval boolean,
+  is_member boolean,
+  request_status text
+)
+LANGUAGE plpgsql STABLE SECURITY DEFINER AS $$
+DECLARE
+  v_link public.space_invite_links;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+  SELECT * INTO v_link FROM public.space_invite_links WHERE code = trim(p_code);
+  IF v_link.id IS NULL OR v_link.revoked_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Invite not found';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    s.id, s.name, s.description, s.is_public, s.member_count, s.max_members,
+    public.space_invite_link_status(v_link),
+    v_link.requires_approval,
+    public.space_member_role(s.id, auth.uid()) IS NOT NULL,
+    (
+      SELECT r.status FROM public.space_join_requests r
+      WHERE r.space_id = s.id AND r.user_id = auth.uid()
+      ORDER BY r.created_at DESC
+      LIMIT 1
+    )
+  FROM public.spaces s
+  WHERE s.id = v_link.space_id;
+END; $$;
+
+-- 有効なリンクからそのまま参加する。戻り値は参加したチャンネル
+CREATE OR REPLACE FUNCTION public.redeem_space_invite_link(p_code text)
+RETURNS uuid
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_link public.space_invite_links;
+  v_space public.spaces;
+  v_channel_id uuid;
+  v_name text;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+  SELECT * INTO v_link FROM public.space_invite_links
+  WHERE code = trim(p_code)
+  FOR UPDATE;
+  IF v_link.id IS NULL OR v_link.revoked_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Invite not found';
+  END IF;
+
+  SELECT * INTO v_space FROM public.spaces WHERE id = v_link.space_id;
+  IF public.space_member_role(v_space.id, v_user_id) IS NOT NULL THEN
+    RETURN public.add_space_member(v_space.id, v_user_id);
+  END IF;
+
+  CASE public.space_invite_link_status(v_link)
+    WHEN 'expired' THEN RAISE EXCEPTION 'Invite expired';
+    WHEN 'used_up' THEN RAISE EXCEPTION 'Invite used up';
+    ELSE NULL;
+  END CASE;
+  IF v_link.requires_approval THEN
+    RAISE EXCEPTION 'Approval required';
+  END IF;
+
+  v_channel_id := public.add_space_member(v_space.id, v_user_id);
+  UPDATE public.space_invite_links SET use_count = use_count + 1 WHERE id = v_link.id;
+
+  SELECT coalesce(display_name, username, 'ユーザー') INTO v_name
+  FROM public.user_profiles WHERE id = v_user_id;
+  PERFORM public.notify_space_event(
+    v_space.owner_id, v_space.id,
+    v_name || 'さんが招待リンクから「' || v_space.name || '」に参加しました',
+    jsonb_build_object('kind', 'invite_joined', 'user_id', v_user_id, 'channel_id', v_channel_id)
+  );
+
+  RETURN v_channel_id;
+END; $$;
+
+-- =====================================================
+-- 5. 参加リクエスト
+-- =====================================================
+-- 承認制のリンク、または期限切れ・上限に達したリンクから送る
+CREATE OR REPLACE FUNCTION public.request_to_join_space(
+  p_code text,
+  p_message text DEFAULT NULL
+) RETURNS uuid
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_link public.space_invite_links;
+  v_space public.spaces;
+  v_request_id uuid;
+  v_name text;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+  SELECT * INTO v_link FROM public.space_invite_links WHERE code = trim(p_code);
+  IF v_link.id IS NULL OR v_link.revoked_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Invite not found';
+  END IF;
+
+  SELECT * INTO v_space FROM public.spaces WHERE id = v_link.space_id;
+  IF public.space_member_role(v_space.id, v_user_id) IS NOT NULL THEN
+    RAISE EXCEPTION 'Already a member';
+  END IF;
+  IF EXISTS (
+    SELECT 1 FROM public.space_bans WHERE space_id = v_space.id AND user_id = v_user_id
+  ) THEN
+    RAISE EXCEPTION 'Banned from space';
+  END IF;
+  IF EXISTS (
+    SELECT 1 FROM public.space_join_requests
+    WHERE space_id = v_space.id AND user_id = v_user_id AND status = 'pending'
+  ) THEN
+    RAISE EXCEPTION 'Request already pending';
+  END IF;
+
+  INSERT INTO public.space_join_requests (space_id, user_id, invite_link_id, message)
+  VALUES (v_space.id, v_user_id, v_link.id, nullif(left(trim(coalesce(p_message, '')), 200), ''))
+  RETURNING id INTO v_request_id;
+
+  SELECT coalesce(display_name, username, 'ユーザー') INTO v_name
+  FROM public.user_profiles WHERE id = v_user_id;
+  PERFORM public.notify_space_event(
+    v_space.owner_id, v_space.id,
+    v_name || 'さんから「' || v_space.name || '」への参加リクエストが届きました',
+    jsonb_build_object('kind', 'join_request', 'request_id', v_request_id, 'user_id', v_user_id)
+  );
+
+  RETURN v_request_id;
+END; $$;
+
+CREATE OR REPLACE FUNCTION public.cancel_space_join_request(p_space_id uuid)
+RETURNS void
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+BEGIN
+  UPDATE public.space_join_requests
+  SET status = 'cancelled', decided_at = now()
+  WHERE space_id = p_space_id AND user_id = auth.uid() AND status = 'pending';
+END; $$;
+
+CREATE OR REPLACE FUNCTION public.get_space_join_requests(p_space_id uuid)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  username text,
+  display_name text,
+  avatar_emoji text,
+  message text,
+  created_at timestamptz
+)
+LANGUAGE plpgsql STABLE SECURITY DEFINER AS $$
+BEGIN
+  PERFORM public.assert_space_owner(p_space_id);
+
+  RETURN QUERY
+  SELECT r.id, r.user_id, u.username, u.display_name, u.avatar_emoji, r.message, r.created_at
+  FROM public.space_join_requests r
+  JOIN public.user_profiles u ON u.id = r.user_id
+  WHERE r.space_id = p_space_id AND r.status = 'pending'
+  ORDER BY r.created_at;
+END; $$;
+
+-- 承認すると先頭チャンネルに参加させる。却下のメモは本人への通知に載せる
+CREATE OR REPLACE FUNCTION public.decide_space_join_request(
+  p_request_id uuid,
+  p_approve boolean,
+  p_note text DEFAULT NULL
+) RETURNS void
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  v_request public.space_join_requests;
+  v_space public.spaces;
+  v_note text := nullif(left(trim(coalesce(p_note, '')), 200), '');
+  v_channel_id uuid;
+BEGIN
+  SELECT * INTO v_request FROM public.space_join_requests
+  WHERE id = p_request_id
+  FOR UPDATE;
+  IF v_request.id IS NULL THEN
+    RAISE EXCEPTION 'Request not found';
+  END IF;
+  PERFORM public.assert_space_owner(v_request.space_id);
+  IF v_request.status <> 'pending' THEN
+    RAISE EXCEPTION 'Request already decided';
+  END IF;
+
+  SELECT * INTO v_space FROM public.spaces WHERE id = v_request.space_id;
+  IF p_approve THEN
+    v_channel_id := public.add_space_member(v_space.id, v_request.user_id);
+  END IF;
+
+  UPDATE public.space_join_requests
+  SET status = CASE WHEN p_approve THEN 'approved' ELSE 'rejected' END,
+      decision_note = v_note,
+      decided_by = auth.uid(),
+      decided_at = now()
+  WHERE id = p_request_id;
+
+  PERFORM public.notify_space_event(
+    v_request.user_id, v_space.id,
+    CASE WHEN p_approve
+      THEN '「' || v_space.name || '」への参加リクエストが承認されました'
+      ELSE '「' || v_space.name || '」への参加リクエストは承認されませんでした'
+    END || coalesce('（' || v_note || '）', ''),
+    jsonb_build_object(
+      'kind', CASE WHEN p_approve THEN 'join_approved' ELSE 'join_rejected' END,
+      'request_id', p_request_id,
+      'channel_id', v_channel_id
+    )
+  );
+END; $$;
+
+-- =====================================================
+-- 6. 権限
+-- =====================================================
+GRANT EXECUTE ON FUNCTION public.create_space_invite_link(uuid, int, int, boolean) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.revoke_space_invite_link(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_space_invite_links(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_space_invite_preview(text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.redeem_space_invite_link(text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.request_to_join_space(text, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.cancel_space_join_request(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_space_join_requests(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.decide_space_join_request(uuid, boolean, text) TO authenticated;
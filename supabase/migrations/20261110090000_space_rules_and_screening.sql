@@ -0,0 +1,442 @@
+-- スペースのルール・ウェルカムメッセージ・参加時の質問
+-- ルールとウェルカムメッセージは参加時に表示し、チャンネル上部にも固定表示する。
+-- ルールがあるスペースでは、同意するまでメッセージを送れない（ルールを更新したら同意し直す）。
+-- 参加時の質問があるスペースは直接参加できず、回答付きの参加リクエスト（space_join_requests）になる。オーナーが回答を見て承認・却下する。
+
+-- =====================================================
+-- 1. カラム・テーブル
+-- =====================================================
+ALTER TABLE public.spaces
+  ADD COLUMN IF NOT EXISTS rules text CHECK (rules IS NULL OR char_length(rules) <= 2000),
+  ADD COLUMN IF NOT EXISTS welcome_message text CHECK (welcome_message IS NULL OR char_length(welcome_message) <= 500),
+  ADD COLUMN IF NOT EXISTS screening_questions jsonb NOT NULL DEFAULT '[]'::jsonb,
+  ADD COLUMN IF NOT EXISTS rules_updated_at timestamptz;
+
+-- 回答は [{ "question": ..., "answer": ... }] の形で、送信時点の質問ごと残す
+ALTER TABLE public.space_join_requests
+  ADD COLUMN IF NOT EXISTS answers jsonb NOT NULL DEFAULT '[]'::jsonb;
+
+CREATE TABLE IF NOT EXISTS public.space_rule_acceptances (
+  space_id uuid NOT NULL REFERENCES public.spaces(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES public.user_profiles(id) ON DELETE CASCADE,
+  accepted_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (space_id, user_id)
+);
+
+ALTER TABLE public.space_rule_acceptances ENABLE ROW LEVEL SECURITY;
+
+DO $$ BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies WHERE tablename = 'space_rule_acceptances' AND policyname = 'space_rule_acceptances_select_self'
+  ) THEN
+    CREATE POLICY "space_rule_acceptances_select_self" ON public.space_rule_acceptances
+      FOR SELECT USING (user_id = auth.uid());
+  END IF;
+END $$;
+
+-- =====================================================
+-- 2. ヘルパー
+-- =====================================================
+-- 最新のルールに同意済みか（ルールがなければ true）
+CREATE OR REPLACE FUNCTION public.has_accepted_space_rules(p_space_id uuid, p_user_id uuid)
+RETURNS boolean
+LANGUAGE sql STABLE SECURITY DEFINER AS $$
+  SELECT
+    coalesce(trim(s.rules), '') = ''
+    OR s.owner_id = p_user_id
+    OR EXISTS (
+      SELECT 1 FROM public.space_rule_acceptances a
+      WHERE a.space_id = s.id
+        AND a.user_id = p_user_id
+        AND a.accepted_at >= coalesce(s.rules_updated_at, '-infinity'::timestamptz)
+    )
+  FROM public.spaces s
+  WHERE s.id = p_space_id;
+$$;
+
+-- 質問と回答を [{question, answer}] にまとめる。回答は質問と同じ数だけ必要
+CREATE OR REPLACE FUNCTION public.build_screening_answers(p_space_id uuid, p_answers jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql STABLE SECURITY DEFINER AS $$
+DECLARE
+  v_questions jsonb;
+  v_result jsonb := '[]'::jsonb;
+  v_answer text;
+  i int;
+BEGIN
+  SELECT screening_questions INTO v_questions FROM public.spaces WHERE id = p_space_id;
+  IF coalesce(jsonb_array_length(v_questions), 0) = 0 THEN
+    RETURN '[]'::jsonb;
+  END IF;
+  IF p_answers IS NULL OR jsonb_typeof(p_answers) <> 'array'
+     OR jsonb_array_length(p_answers) <> jsonb_array_length(v_questions) THEN
+    RAISE EXCEPTION 'Answers required';
+  END IF;
+
+  FOR i IN 0 .. jsonb_array_length(v_questions) - 1 LOOP
+    v_answer := trim(coalesce(p_answers ->> i, ''));
+    IF char_length(v_answer) NOT BETWEEN 1 AND 500 THEN
+      RAISE EXCEPTION 'Answers required';
+    END IF;
+    v_result := v_result || jsonb_build_array(
+      jsonb_build_object('question', v_questions ->> i, 'answer', v_answer)
+    );
+  END LOOP;
+  RETURN v_result;
+END; $$;
+
+REVOKE ALL ON FUNCTION public.build_screening_answers(uuid, jsonb) FROM PUBLIC, anon, authenticated;
+
+-- =====================================================
+-- 3. 強制（トリガー）
+-- =====================================================
+-- ルールに同意していないメンバーは投稿できない
+CREATE OR REPLACE FUNCTION public.enforce_space_rules_accepted()
+RETURNS trigger
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  v_space_id uuid;
+BEGIN
+  IF NEW.sender_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+  SELECT space_id INTO v_space_id FROM public.channels WHERE id = NEW.channel_id;
+  IF v_space_id IS NOT NULL
+     AND NOT coalesce(public.has_accepted_space_rules(v_space_id, NEW.sender_id), true) THEN
+    RAISE EXCEPTION 'Rules not accepted';
+  END IF;
+  RETURN NEW;
+END; $$;
+
+DROP TRIGGER IF EXISTS trg_enforce_space_rules_accepted ON public.room_messages;
+CREATE TRIGGER trg_enforce_space_rules_accepted
+  BEFORE INSERT ON public.room_messages
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_space_rules_accepted();
+
+-- チャンネルのスペースに質問があり、そのユーザーがまだ参加していなければ true。
+-- トリガーは呼び出した人の権限で動くので、RLS で見えないスペースもここで読む
+CREATE OR REPLACE FUNCTION public.channel_requires_screening(p_channel_id uuid, p_user_id uuid)
+RETURNS boolean
+LANGUAGE sql STABLE SECURITY DEFINER AS $$
+  SELECT coalesce((
+    SELECT jsonb_array_length(s.screening_questions) > 0
+      AND s.owner_id IS DISTINCT FROM p_user_id
+      AND public.space_member_role(s.id, p_user_id) IS NULL
+    FROM public.channels c
+    JOIN public.spaces s ON s.id = c.space_id
+    WHERE c.id = p_channel_id
+  ), false);
+$$;
+
+-- 質問のあるスペースには、クライアントから直接参加できない。
+-- 承認・招待で入る add_space_member はトランザクション内だけ有効なフラグを立ててから追加する。
+-- SECURITY INVOKER にして、直接の INSERT では呼び出した本人の権限のまま判定する
+CREATE OR REPLACE FUNCTION public.enforce_space_screening()
+RETURNS trigger
+LANGUAGE plpgsql SECURITY INVOKER AS $$
+BEGIN
+  -- 参加済みメンバーを他のチャンネルへ写すトリガーからの追加は対象外
+  IF pg_trigger_depth() > 1
+     OR coalesce(current_setting('app.space_member_approved', true), '') = 'on' THEN
+    RETURN NEW;
+  END IF;
+  IF public.channel_requires_screening(NEW.channel_id, NEW.user_id) THEN
+    RAISE EXCEPTION 'Screening required';
+  END IF;
+  RETURN NEW;
+END; $$;
+
+-- 承認・招待を通った追加はチェックを通すよう、フラグを立てて作り直す（フラグは INSERT の間だけ）
+CREATE OR REPLACE FUNCTION public.add_space_member(p_space_id uuid, p_user_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  v_channel_id uuid;
+BEGIN
+  SELECT id INTO v_channel_id
+  FROM public.channels
+  WHERE space_id = p_space_id AND is_active = true
+  ORDER BY position, created_at
+  LIMIT 1;
+  IF v_channel_id IS NULL THEN
+    RAISE EXCEPTION 'Channel not found';
+  END IF;
+
+  IF public.space_member_role(p_space_id, p_user_id) IS NOT NULL THEN
+    RETURN v_channel_id;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.spaces
+    WHERE id = p_space_id AND member_count >= max_members
+  ) THEN
+    RAISE EXCEPTION 'Space is at capacity';
+  END IF;
+
+  PERFORM set_config('app.space_member_approved', 'on', true);
+  INSERT INTO public.channel_members (channel_id, user_id, role)
+  VALUES (v_channel_id, p_user_id, 'member')
+  ON CONFLICT DO NOTHING;
+  PERFORM set_config('app.space_member_approved', 'off', true);
+
+  RETURN v_channel_id;
+END; $$;
+
+DROP TRIGGER IF EXISTS trg_enforce_space_screening ON public.channel_members;
+CREATE TRIGGER trg_enforce_space_screening
+  BEFORE INSERT ON public.channel_members
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_space_screening();
+
+-- =====================================================
+-- 4. ルールの編集と取得
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.update_space_rules(
+  p_space_id uuid,
+  p_rules text,
+  p_welcome_message text,
+  p_questions jsonb DEFAULT '[]'::jsonb
+) RETURNS void
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  v_rules text := nullif(trim(coalesce(p_rules, '')), '');
+  v_welcome text := nullif(trim(coalesce(p_welcome_message, '')), '');
+  v_questions jsonb := '[]'::jsonb;
+  v_question text;
+BEGIN
+  PERFORM public.assert_space_owner(p_space_id);
+  IF char_length(coalesce(v_rules, '')) > 2000 OR char_length(coalesce(v_welcome, '')) > 500 THEN
+    RAISE EXCEPTION 'Invalid rules';
+  END IF;
+  IF p_questions IS NOT NULL AND jsonb_typeof(p_questions) <> 'array' THEN
+    RAISE EXCEPTION 'Invalid question';
+  END IF;
+  IF coalesce(jsonb_array_length(p_questions), 0) > 5 THEN
+    RAISE EXCEPTION 'Too many questions';
+  END IF;
+
+  FOR v_question IN SELECT trim(q) FROM jsonb_array_elements_text(coalesce(p_questions, '[]'::jsonb)) q LOOP
+    IF char_length(v_question) NOT BETWEEN 1 AND 200 THEN
+      RAISE EXCEPTION 'Invalid question';
+    END IF;
+    v_questions := v_questions || to_jsonb(v_question);
+  END LOOP;
+
+  UPDATE public.spaces
+  SET rules = v_rules,
+      welcome_message = v_welcome,
+      screening_questions = v_questions,
+      -- 本文が変わったときだけ同意し直してもらう
+      rules_updated_at = CASE
+        WHEN rules IS DISTINCT FROM v_rules THEN now()
+        ELSE rules_updated_at
+      END,
+      updated_at = now()
+  WHERE id = p_space_id;
+END; $$;
+
+-- 公開スペース・メンバー・そのスペースの招待コードを持つ人が読める
+CREATE OR REPLACE FUNCTION public.get_space_rules(
+  p_space_id uuid,
+  p_invite_code text DEFAULT NULL
+) RETURNS TABLE (
+  rules text,
+  welcome_message text,
+  screening_questions jsonb,
+  rules_updated_at timestamptz,
+  accepted boolean
+)
+LANGUAGE plpgsql STABLE SECURITY DEFINER AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+  IF NOT EXISTS (
+    SELECT 1 FROM public.spaces s
+    WHERE s.id = p_space_id
+      AND (
+        s.is_public
+        OR public.space_member_role(s.id, auth.uid()) IS NOT NULL
+        OR EXISTS (
+          SELECT 1 FROM public.space_invite_links l
+          WHERE l.space_id = s.id AND l.code = trim(p_invite_code) AND l.revoked_at IS NULL
+        )
+      )
+  ) THEN
+    RAISE EXCEPTION 'Permission denied';
+  END IF;
+
+  RETURN QUERY
+  SELECT s.rules, s.welcome_message, s.screening_questions, s.rules_updated_at,
+         public.has_accepted_space_rules(s.id, auth.uid())
+  FROM public.spaces s
+  WHERE s.id = p_space_id;
+END; $$;
+
+-- 参加前（リクエスト送信時）にも同意を記録できる
+CREATE OR REPLACE FUNCTION public.accept_space_rules(p_space_id uuid)
+RETURNS void
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+  INSERT INTO public.space_rule_acceptances (space_id, user_id)
+  VALUES (p_space_id, auth.uid())
+  ON CONFLICT (space_id, user_id) DO UPDATE SET accepted_at = now();
+END; $$;
+
+-- =====================================================
+-- 5. 回答付きの参加リクエスト
+-- =====================================================
+-- 公開スペースで質問に答えて参加を申し込む
+CREATE OR REPLACE FUNCTION public.apply_to_join_space(
+  p_space_id uuid,
+  p_answers jsonb
+) RETURNS uuid
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_space public.spaces;
+  v_answers jsonb;
+  v_request_id uuid;
+  v_name text;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+  SELECT * INTO v_space FROM public.spaces WHERE id = p_space_id;
+  IF v_space.id IS NULL THEN
+    RAISE EXCEPTION 'Space not found';
+  END IF;
+  IF NOT v_space.is_public THEN
+    RAISE EXCEPTION 'Space is not public';
+  END IF;
+  IF public.space_member_role(v_space.id, v_user_id) IS NOT NULL THEN
+    RAISE EXCEPTION 'Already a member';
+  END IF;
+  IF EXISTS (
+    SELECT 1 FROM public.space_bans WHERE space_id = v_space.id AND user_id = v_user_id
+  ) THEN
+    RAISE EXCEPTION 'Banned from space';
+  END IF;
+  IF EXISTS (
+    SELECT 1 FROM public.space_join_requests
+    WHERE space_id = v_space.id AND user_id = v_user_id AND status = 'pending'
+  ) THEN
+    RAISE EXCEPTION 'Request already pending';
+  END IF;
+  v_answers := public.build_screening_answers(v_space.id, p_answers);
+
+  INSERT INTO public.space_join_requests (space_id, user_id, answers)
+  VALUES (v_space.id, v_user_id, v_answers)
+  RETURNING id INTO v_request_id;
+
+  SELECT coalesce(display_name, username, 'ユーザー') INTO v_name
+  FROM public.user_profiles WHERE id = v_user_id;
+  PERFORM public.notify_space_event(
+    v_space.owner_id, v_space.id,
+    v_name || 'さんから「' || v_space.name || '」への参加リクエストが届きました',
+    jsonb_build_object('kind', 'join_request', 'request_id', v_request_id, 'user_id', v_user_id)
+  );
+
+  RETURN v_request_id;
+END; $$;
+
+-- 招待リンクからのリクエストにも回答を付けられるようにする
+DROP FUNCTION IF EXISTS public.request_to_join_space(text, text);
+CREATE OR REPLACE FUNCTION public.request_to_join_space(
+  p_code text,
+  p_message text DEFAULT NULL,
+  p_answers jsonb DEFAULT '[]'::jsonb
+) RETURNS uuid
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_link public.space_invite_links;
+  v_space public.spaces;
+  v_answers jsonb;
+  v_request_id uuid;
+  v_name text;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+  SELECT * INTO v_link FROM public.space_invite_links WHERE code = trim(p_code);
+  IF v_link.id IS NULL OR v_link.revoked_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Invite not found';
+  END IF;
+
+  SELECT * INTO v_space FROM public.spaces WHERE id = v_link.space_id;
+  IF public.space_member_role(v_space.id, v_user_id) IS NOT NULL THEN
+    RAISE EXCEPTION 'Already a member';
+  END IF;
+  IF EXISTS (
+    SELECT 1 FROM public.space_bans WHERE space_id = v_space.id AND user_id = v_user_id
+  ) THEN
+    RAISE EXCEPTION 'Banned from space';
+  END IF;
+  IF EXISTS (
+    SELECT 1 FROM public.space_join_requests
+    WHERE space_id = v_space.id AND user_id = v_user_id AND status = 'pending'
+  ) THEN
+    RAISE EXCEPTION 'Request already pending';
+  END IF;
+  v_answers := public.build_screening_answers(v_space.id, p_answers);
+
+  INSERT INTO public.space_join_requests (space_id, user_id, invite_link_id, message, answers)
+  VALUES (
+    v_space.id, v_user_id, v_link.id,
+    nullif(left(trim(coalesce(p_message, '')), 200), ''),
+    v_answers
+  )
+  RETURNING id INTO v_request_id;
+
+  SELECT coalesce(display_name, username, 'ユーザー') INTO v_name
+  FROM public.user_profiles WHERE id = v_user_id;
+  PERFORM public.notify_space_event(
+    v_space.owner_id, v_space.id,
+    v_name || 'さんから「' || v_space.name || '」への参加リクエストが届きました',
+    jsonb_build_object('kind', 'join_request', 'request_id', v_request_id, 'user_id', v_user_id)
+  );
+
+  RETURN v_request_id;
+END; $$;
+
+-- 保留中の一覧に回答を含める
+DROP FUNCTION IF EXISTS public.get_space_join_requests(uuid);
+CREATE OR REPLACE FUNCTION public.get_space_join_requests(p_space_id uuid)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  username text,
+  display_name text,
+  avatar_emoji text,
+  message text,
+  answers jsonb,
+  created_at timestamptz
+)
+LANGUAGE plpgsql STABLE SECURITY DEFINER AS $$
+BEGIN
+  PERFORM public.assert_space_owner(p_space_id);
+
+  RETURN QUERY
+  SELECT r.id, r.user_id, u.username, u.display_name, u.avatar_emoji, r.message, r.answers, r.created_at
+  FROM public.space_join_requests r
+  JOIN public.user_profiles u ON u.id = r.user_id
+  WHERE r.space_id = p_space_id AND r.status = 'pending'
+  ORDER BY r.created_at;
+END; $$;
+
+-- =====================================================
+-- 6. 権限
+-- =====================================================
+REVOKE ALL ON FUNCTION public.has_accepted_space_rules(uuid, uuid) FROM PUBLIC, anon, authenticated;
+
+-- 直接の INSERT で動くトリガーは呼び出した本人の権限で呼ぶ
+GRANT EXECUTE ON FUNCTION public.channel_requires_screening(uuid, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.update_space_rules(uuid, text, text, jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_space_rules(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.accept_space_rules(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.apply_to_join_space(uuid, jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.request_to_join_space(text, text, jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_space_join_requests(uuid) TO authenticated;
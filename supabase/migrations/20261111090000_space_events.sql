@@ -0,0 +1,340 @@
+-- スペースのイベント（オフ会・オンラインのお茶会など）
+-- メンバーならだれでも作成でき、作成するとチャンネルにイベントカード（message_type = 'event'）が投稿される。
+-- 参加の返事（行く・たぶん・行かない）は 1 人 1 行。定員は「行く」の人数にだけ数える。
+-- 開始前のリマインダーはアプリ側で端末のローカル通知として予約するので、サーバーでは送らない。
+-- 中止・退出した分の予約はログイン時に get_my_event_reminders と突き合わせて取り消す。
+-- 中止したときは「行く」「たぶん」と返事した人に type = 'room' の通知で知らせる。
+
+-- =====================================================
+-- 1. message_type に event を追加
+-- =====================================================
+ALTER TABLE public.room_messages DROP CONSTRAINT IF EXISTS room_messages_message_type_check;
+ALTER TABLE public.room_messages
+  ADD CONSTRAINT room_messages_message_type_check
+  CHECK (message_type IN ('text', 'image', 'file', 'system', 'post_share', 'event'));
+
+-- =====================================================
+-- 2. テーブル
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.space_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  space_id uuid NOT NULL REFERENCES public.spaces(id) ON DELETE CASCADE,
+  channel_id uuid REFERENCES public.channels(id) ON DELETE SET NULL,
+  message_id uuid REFERENCES public.room_messages(id) ON DELETE SET NULL,
+  created_by uuid REFERENCES public.user_profiles(id) ON DELETE SET NULL,
+  title text NOT NULL CHECK (char_length(title) BETWEEN 1 AND 100),
+  description text CHECK (description IS NULL OR char_length(description) <= 1000),
+  starts_at timestamptz NOT NULL,
+  ends_at timestamptz CHECK (ends_at IS NULL OR ends_at > starts_at),
+  location text CHECK (location IS NULL OR char_length(location) <= 200),
+  is_online boolean NOT NULL DEFAULT false,
+  capacity int CHECK (capacity IS NULL OR capacity BETWEEN 1 AND 1000),
+  cancelled_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_space_events_space_starts
+  ON public.space_events (space_id, starts_at);
+
+CREATE TABLE IF NOT EXISTS public.space_event_rsvps (
+  event_id uuid NOT NULL REFERENCES public.space_events(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES public.user_profiles(id) ON DELETE CASCADE,
+  status text NOT NULL CHECK (status IN ('going', 'maybe', 'not_going')),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (event_id, user_id)
+);
+
+ALTER TABLE public.space_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.space_event_rsvps ENABLE ROW LEVEL SECURITY;
+
+-- 書き込みは RPC だけ。スペースのメンバーが読める
+DO $$ BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies WHERE tablename = 'space_events' AND policyname = 'space_events_select_members'
+  ) THEN
+    CREATE POLICY "space_events_select_members" ON public.space_events
+      FOR SELECT USING (public.space_member_role(space_id, auth.uid()) IS NOT NULL);
+  END IF;
+END $$;
+
+DO $$ BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies WHERE tablename = 'space_event_rsvps' AND policyname = 'space_event_rsvps_select_members'
+  ) THEN
+    CREATE POLICY "space_event_rsvps_select_members" ON public.space_event_rsvps
+      FOR SELECT USING (
+        EXISTS (
+          SELECT 1 FROM public.space_events e
+          WHERE e.id = event_id AND public.space_member_role(e.space_id, auth.uid()) IS NOT NULL
+        )
+      );
+  END IF;
+END $$;
+
+-- =====================================================
+-- 3. 作成・中止
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.create_space_event(
+  p_channel_id uuid,
+  p_title text,
+  p_description text,
+  p_starts_at timestamptz,
+  p_ends_at timestamptz DEFAULT NULL,
+  p_location text DEFAULT NULL,
+  p_is_online boolean DEFAULT false,
+  p_capacity int DEFAULT NULL
+) RETURNS uuid
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  v_channel public.channels%ROWTYPE;
+  v_title text := trim(coalesce(p_title, ''));
+  v_location text := nullif(trim(coalesce(p_location, '')), '');
+  v_event_id uuid;
+  v_message_id uuid;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+  SELECT * INTO v_channel FROM public.channels WHERE id = p_channel_id;
+  IF NOT FOUND OR v_channel.space_id IS NULL THEN
+    RAISE EXCEPTION 'Channel not found';
+  END IF;
+  IF public.space_member_role(v_channel.space_id, auth.uid()) IS NULL THEN
+    RAISE EXCEPTION 'Permission denied';
+  END IF;
+
+  IF char_length(v_title) NOT BETWEEN 1 AND 100
+     OR char_length(coalesce(p_description, '')) > 1000 THEN
+    RAISE EXCEPTION 'Invalid event';
+  END IF;
+  IF p_starts_at IS NULL
+     OR p_starts_at < now()
+     OR p_starts_at > now() + interval '1 year'
+     OR (p_ends_at IS NOT NULL AND (p_ends_at <= p_starts_at OR p_ends_at > p_starts_at + interval '7 days')) THEN
+    RAISE EXCEPTION 'Invalid event time';
+  END IF;
+  IF (NOT coalesce(p_is_online, false) AND v_location IS NULL)
+     OR char_length(coalesce(v_location, '')) > 200 THEN
+    RAISE EXCEPTION 'Invalid location';
+  END IF;
+  IF p_capacity IS NOT NULL AND p_capacity NOT BETWEEN 1 AND 1000 THEN
+    RAISE EXCEPTION 'Invalid capacity';
+  END IF;
+  IF (
+    SELECT count(*) FROM public.space_events e
+    WHERE e.space_id = v_channel.space_id
+      AND e.cancelled_at IS NULL
+      AND coalesce(e.ends_at, e.starts_at) >= now()
+  ) >= 50 THEN
+    RAISE EXCEPTION 'Event limit exceeded';
+  END IF;
+
+  INSERT INTO public.space_events (
+    space_id, channel_id, created_by, title, description,
+    starts_at, ends_at, location, is_online, capacity
+  )
+  VALUES (
+    v_channel.space_id, p_channel_id, auth.uid(), v_title,
+    nullif(trim(coalesce(p_description, '')), ''),
+    p_starts_at, p_ends_at, v_location, coalesce(p_is_online, false), p_capacity
+  )
+  RETURNING id INTO v_event_id;
+
+  -- 作成した人は「行く」にしておく
+  INSERT INTO public.space_event_rsvps (event_id, user_id, status)
+  VALUES (v_event_id, auth.uid(), 'going');
+
+  -- イベントカード。お知らせチャンネル・ミュート・ルール未同意はメッセージ側のトリガーで弾かれる
+  INSERT INTO public.room_messages (channel_id, sender_id, content, message_type, attachments)
+  VALUES (
+    p_channel_id,
+    auth.uid(),
+    '📅 ' || v_title,
+    'event',
+    jsonb_build_array(jsonb_build_object('type', 'event', 'event_id', v_event_id))
+  )
+  RETURNING id INTO v_message_id;
+
+  UPDATE public.space_events SET message_id = v_message_id WHERE id = v_event_id;
+
+  RETURN v_event_id;
+END; $$;
+
+-- 中止（作成した人・オーナー・モデレーター）
+CREATE OR REPLACE FUNCTION public.cancel_space_event(p_event_id uuid)
+RETURNS void
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  v_event public.space_events%ROWTYPE;
+  v_rsvp record;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+  SELECT * INTO v_event FROM public.space_events WHERE id = p_event_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Event not found';
+  END IF;
+  IF v_event.created_by IS DISTINCT FROM auth.uid()
+     AND coalesce(public.space_member_role(v_event.space_id, auth.uid()), 'member') NOT IN ('owner', 'moderator') THEN
+    RAISE EXCEPTION 'Permission denied';
+  END IF;
+  IF v_event.cancelled_at IS NOT NULL THEN
+    RETURN;
+  END IF;
+
+  UPDATE public.space_events SET cancelled_at = now() WHERE id = p_event_id;
+
+  FOR v_rsvp IN
+    SELECT r.user_id FROM public.space_event_rsvps r
+    WHERE r.event_id = p_event_id
+      AND r.status IN ('going', 'maybe')
+      AND r.user_id <> auth.uid()
+  LOOP
+    PERFORM public.notify_space_event(
+      v_rsvp.user_id,
+      v_event.space_id,
+      'イベント「' || v_event.title || '」は中止になりました',
+      jsonb_build_object('kind', 'event_cancelled', 'event_id', p_event_id, 'channel_id', v_event.channel_id)
+    );
+  END LOOP;
+END; $$;
+
+-- =====================================================
+-- 4. 参加の返事
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.rsvp_space_event(
+  p_event_id uuid,
+  p_status text
+) RETURNS void
+LANGUAGE plpgsql SECURITY DEFINER AS $$
+DECLARE
+  v_event public.space_events%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+  IF p_status IS NULL OR p_status NOT IN ('going', 'maybe', 'not_going') THEN
+    RAISE EXCEPTION 'Invalid status';
+  END IF;
+  -- 定員の数え漏れがないよう、同じイベントへの返事は順番に処理する
+  SELECT * INTO v_event FROM public.space_events WHERE id = p_event_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Event not found';
+  END IF;
+  IF public.space_member_role(v_event.space_id, auth.uid()) IS NULL THEN
+    RAISE EXCEPTION 'Permission denied';
+  END IF;
+  IF v_event.cancelled_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Event cancelled';
+  END IF;
+  IF v_event.starts_at <= now() THEN
+    RAISE EXCEPTION 'Event started';
+  END IF;
+  IF p_status = 'going' AND v_event.capacity IS NOT NULL AND (
+    SELECT count(*) FROM public.space_event_rsvps r
+    WHERE r.event_id = p_event_id AND r.status = 'going' AND r.user_id <> auth.uid()
+  ) >= v_event.capacity THEN
+    RAISE EXCEPTION 'Event full';
+  END IF;
+
+  INSERT INTO public.space_event_rsvps (event_id, user_id, status)
+  VALUES (p_event_id, auth.uid(), p_status)
+  ON CONFLICT (event_id, user_id)
+  DO UPDATE SET status = excluded.status, updated_at = now();
+END; $$;
+
+-- =====================================================
+-- 5. 一覧
+-- =====================================================
+-- p_event_ids を渡すとそのイベントだけ（終わったものも含む）。省略すると開催前・開催中のもの。
+-- 中止になったものも、行く・たぶんと返事した人には返す（端末のリマインダーを取り消せるように）
+CREATE OR REPLACE FUNCTION public.get_space_events(
+  p_space_id uuid,
+  p_event_ids uuid[] DEFAULT NULL
+) RETURNS TABLE (
+  id uuid,
+  space_id uuid,
+  channel_id uuid,
+  created_by uuid,
+  creator_name text,
+  title text,
+  description text,
+  starts_at timestamptz,
+  ends_at timestamptz,
+  location text,
+  is_online boolean,
+  capacity int,
+  cancelled_at timestamptz,
+  going_count int,
+  maybe_count int,
+  my_status text
+)
+LANGUAGE plpgsql STABLE SECURITY DEFINER AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+  IF public.space_member_role(p_space_id, auth.uid()) IS NULL THEN
+    RAISE EXCEPTION 'Permission denied';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    e.id, e.space_id, e.channel_id, e.created_by,
+    coalesce(u.display_name, u.username),
+    e.title, e.description, e.starts_at, e.ends_at, e.location, e.is_online,
+    e.capacity, e.cancelled_at,
+    (SELECT count(*)::int FROM public.space_event_rsvps r WHERE r.event_id = e.id AND r.status = 'going'),
+    (SELECT count(*)::int FROM public.space_event_rsvps r WHERE r.event_id = e.id AND r.status = 'maybe'),
+    (SELECT r.status FROM public.space_event_rsvps r WHERE r.event_id = e.id AND r.user_id = auth.uid())
+  FROM public.space_events e
+  LEFT JOIN public.user_profiles u ON u.id = e.created_by
+  WHERE e.space_id = p_space_id
+    AND CASE
+      WHEN p_event_ids IS NULL THEN
+        coalesce(e.ends_at, e.starts_at) >= now()
+        AND (
+          e.cancelled_at IS NULL
+          OR EXISTS (
+            SELECT 1 FROM public.space_event_rsvps r
+            WHERE r.event_id = e.id AND r.user_id = auth.uid() AND r.status IN ('going', 'maybe')
+          )
+        )
+      ELSE e.id = ANY(p_event_ids)
+    END
+  ORDER BY e.starts_at
+  LIMIT 100;
+END; $$;
+
+-- 自分が行く・たぶんと返事した、これから始まるイベント（中止されたものも含む）をスペースをまたいで返す。
+-- ログイン時に端末のリマインダーを予約し直し、中止・退出したイベントの分を取り消すのに使う
+CREATE OR REPLACE FUNCTION public.get_my_event_reminders()
+RETURNS TABLE (
+  id uuid,
+  channel_id uuid,
+  title text,
+  starts_at timestamptz,
+  cancelled_at timestamptz,
+  my_status text
+)
+LANGUAGE sql STABLE SECURITY DEFINER AS $$
+  SELECT e.id, e.channel_id, e.title, e.starts_at, e.cancelled_at, r.status
+  FROM public.space_event_rsvps r
+  JOIN public.space_events e ON e.id = r.event_id
+  WHERE r.user_id = auth.uid()
+    AND r.status IN ('going', 'maybe')
+    AND e.starts_at > now()
+    AND public.space_member_role(e.space_id, auth.uid()) IS NOT NULL
+  ORDER BY e.starts_at
+  LIMIT 200;
+$$;
+
+-- =====================================================
+-- 6. 権限
+-- =====================================================
+GRANT EXECUTE ON FUNCTION public.create_space_event(uuid, text, text, timestamptz, timestamptz, text, boolean, int) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.cancel_space_event(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.rsvp_space_event(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_space_events(uuid, uuid[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_my_event_reminders() TO authenticated;
@@ -0,0 +1,50 @@
+-- space_member_role は任意のユーザーのロールを返すため、クライアントからは呼べないようにする
+-- （非公開スペースの参加者を外から調べられてしまう）。RPC やトリガーの中からは今まで通り使う。
+-- RLS のポリシーは呼び出した本人の権限で評価されるので、本人のロールだけを返す my_space_role に置き換える。
+
+-- =====================================================
+-- 1. 本人のロール
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.my_space_role(p_space_id uuid)
+RETURNS text
+LANGUAGE sql STABLE SECURITY DEFINER AS $$
+  SELECT public.space_member_role(p_space_id, auth.uid());
+$$;
+
+GRANT EXECUTE ON FUNCTION public.my_space_role(uuid) TO authenticated;
+
+-- =====================================================
+-- 2. ポリシーを作り直す
+-- =====================================================
+DROP POLICY IF EXISTS "space_bans_select_moderators" ON public.space_bans;
+CREATE POLICY "space_bans_select_moderators" ON public.space_bans
+  FOR SELECT USING (public.my_space_role(space_id) IN ('owner', 'moderator'));
+
+DROP POLICY IF EXISTS "space_mutes_select_moderators_or_self" ON public.space_mutes;
+CREATE POLICY "space_mutes_select_moderators_or_self" ON public.space_mutes
+  FOR SELECT USING (
+    user_id = auth.uid()
+    OR public.my_space_role(space_id) IN ('owner', 'moderator')
+  );
+
+DROP POLICY IF EXISTS "space_moderation_log_select_moderators" ON public.space_moderation_log;
+CREATE POLICY "space_moderation_log_select_moderators" ON public.space_moderation_log
+  FOR SELECT USING (public.my_space_role(space_id) IN ('owner', 'moderator'));
+
+DROP POLICY IF EXISTS "space_events_select_members" ON public.space_events;
+CREATE POLICY "space_events_select_members" ON public.space_events
+  FOR SELECT USING (public.my_space_role(space_id) IS NOT NULL);
+
+DROP POLICY IF EXISTS "space_event_rsvps_select_members" ON public.space_event_rsvps;
+CREATE POLICY "space_event_rsvps_select_members" ON public.space_event_rsvps
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.space_events e
+      WHERE e.id = event_id AND public.my_space_role(e.space_id) IS NOT NULL
+    )
+  );
+
+-- =====================================================
+-- 3. 内部ヘルパーにする
+-- =====================================================
+REVOKE ALL ON FUNCTION public.space_member_role(uuid, uuid) FROM PUBLIC, anon, authenticated;
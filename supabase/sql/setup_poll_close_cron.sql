@@ -0,0 +1,18 @@
+-- Enable the required extension
+create extension if not exists pg_cron;
+
+-- Notify poll authors when their poll closes (runs every minute)
+-- notify_closed_polls() is idempotent: each poll is notified once via closed_notified_at
+
+select
+  cron.schedule(
+    'notify-closed-polls',       -- Job name
+    '* * * * *',                 -- Schedule (Cron format: Every minute)
+    $$ select public.notify_closed_polls(); $$
+  );
+
+-- To check scheduled jobs:
+-- select * from cron.job;
+
+-- To un-schedule (stop):
+-- select cron.unschedule('notify-closed-polls');
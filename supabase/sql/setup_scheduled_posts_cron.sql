@@ -0,0 +1,28 @@
+-- Enable the required extensions
+create extension if not exists pg_cron;
+create extension if not exists pg_net;
+
+-- Schedule the 'scheduled-poster' function to run every minute
+-- REPLACE THE PLACEHOLDERS BELOW!
+-- <PROJECT_REF>: Your Supabase Project Reference ID (e.g., 'abcdefghijklm')
+-- <SERVICE_ROLE_KEY>: publish_scheduled_post() is granted to service_role only
+
+select
+  cron.schedule(
+    'publish-scheduled-posts',   -- Job name
+    '* * * * *',                 -- Schedule (Cron format: Every minute)
+    $$
+    select
+      net.http_post(
+        url:='https://<PROJECT_REF>.supabase.co/functions/v1/scheduled-poster',
+        headers:='{"Content-Type": "application/json", "Authorization": "Bearer <SERVICE_ROLE_KEY>"}'::jsonb,
+        body:='{"source": "cron"}'::jsonb
+      ) as request_id;
+    $$
+  );
+
+-- To check scheduled jobs:
+-- select * from cron.job;
+
+-- To un-schedule (stop):
+-- select cron.unschedule('publish-scheduled-posts');
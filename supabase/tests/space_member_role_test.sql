@@ -0,0 +1,80 @@
+-- channel_members のロールを守るトリガー（enforce_channel_member_role）のテスト。supabase test db で実行する（pgTAP）
+-- ロールは set_space_member_role からだけ変えられ、本人や他のモデレーターが直接書き換えることはできない
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+SELECT plan(5);
+
+INSERT INTO public.user_profiles (id, username) VALUES
+  ('00000000-0000-4000-8000-0000000000d1', 'role_owner'),
+  ('00000000-0000-4000-8000-0000000000d2', 'role_member'),
+  ('00000000-0000-4000-8000-0000000000d3', 'role_joiner');
+
+INSERT INTO public.spaces (id, name, owner_id, is_public) VALUES
+  ('00000000-0000-4000-8000-0000000000e1', 'ロールのテスト', '00000000-0000-4000-8000-0000000000d1', true);
+
+INSERT INTO public.channels (id, space_id, name) VALUES
+  ('00000000-0000-4000-8000-0000000000f1', '00000000-0000-4000-8000-0000000000e1', 'role-general');
+
+INSERT INTO public.channel_members (channel_id, user_id, role) VALUES
+  ('00000000-0000-4000-8000-0000000000f1', '00000000-0000-4000-8000-0000000000d1', 'owner'),
+  ('00000000-0000-4000-8000-0000000000f1', '00000000-0000-4000-8000-0000000000d2', 'member');
+
+-- クライアントと同じく authenticated として直接書き換える
+SET LOCAL ROLE authenticated;
+SELECT set_config(
+  'request.jwt.claims',
+  '{"sub": "00000000-0000-4000-8000-0000000000d2", "role": "authenticated"}',
+  true
+);
+
+SELECT throws_ok(
+  $$UPDATE public.channel_members SET role = 'moderator'
+    WHERE user_id = '00000000-0000-4000-8000-0000000000d2'$$,
+  'P0001',
+  'Permission denied',
+  '自分をモデレーターに書き換えることはできない'
+);
+
+SELECT set_config(
+  'request.jwt.claims',
+  '{"sub": "00000000-0000-4000-8000-0000000000d3", "role": "authenticated"}',
+  true
+);
+
+SELECT throws_ok(
+  $$INSERT INTO public.channel_members (channel_id, user_id, role)
+    VALUES ('00000000-0000-4000-8000-0000000000f1', '00000000-0000-4000-8000-0000000000d3', 'moderator')$$,
+  'P0001',
+  'Permission denied',
+  'モデレーターとして直接参加することはできない'
+);
+
+-- オーナーが RPC で任命すると変わり、ログが残る
+SELECT set_config(
+  'request.jwt.claims',
+  '{"sub": "00000000-0000-4000-8000-0000000000d1", "role": "authenticated"}',
+  true
+);
+
+SELECT lives_ok(
+  $$SELECT public.set_space_member_role('00000000-0000-4000-8000-0000000000e1', '00000000-0000-4000-8000-0000000000d2', 'moderator')$$,
+  'オーナーは set_space_member_role で任命できる'
+);
+
+RESET ROLE;
+
+SELECT is(
+  public.space_member_role('00000000-0000-4000-8000-0000000000e1', '00000000-0000-4000-8000-0000000000d2'),
+  'moderator',
+  '任命したメンバーはモデレーターになる'
+);
+
+SELECT is(
+  (SELECT count(*)::int FROM public.space_moderation_log
+   WHERE space_id = '00000000-0000-4000-8000-0000000000e1' AND action = 'promote'),
+  1,
+  '任命はログに残る'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
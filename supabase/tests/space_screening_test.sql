@@ -0,0 +1,69 @@
+-- 参加時の質問（enforce_space_screening）のテスト。supabase test db で実行する（pgTAP）
+-- 質問のあるスペースへは channel_members への直接 INSERT では入れず、承認・招待の経路（add_space_member）からだけ入れる
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+SELECT plan(5);
+
+INSERT INTO public.user_profiles (id, username) VALUES
+  ('00000000-0000-4000-8000-0000000000a1', 'screening_owner'),
+  ('00000000-0000-4000-8000-0000000000a2', 'screening_applicant'),
+  ('00000000-0000-4000-8000-0000000000a3', 'screening_open_joiner');
+
+INSERT INTO public.spaces (id, name, owner_id, is_public, screening_questions) VALUES
+  ('00000000-0000-4000-8000-0000000000b1', '質問ありスペース', '00000000-0000-4000-8000-0000000000a1', true, '["お子さんの月齢は？"]'),
+  ('00000000-0000-4000-8000-0000000000b2', '質問なしスペース', '00000000-0000-4000-8000-0000000000a1', true, '[]');
+
+INSERT INTO public.channels (id, space_id, name) VALUES
+  ('00000000-0000-4000-8000-0000000000c1', '00000000-0000-4000-8000-0000000000b1', 'screening-general'),
+  ('00000000-0000-4000-8000-0000000000c2', '00000000-0000-4000-8000-0000000000b2', 'screening-general');
+
+-- クライアントと同じく authenticated として直接 INSERT する
+SET LOCAL ROLE authenticated;
+SELECT set_config(
+  'request.jwt.claims',
+  '{"sub": "00000000-0000-4000-8000-0000000000a2", "role": "authenticated"}',
+  true
+);
+
+SELECT throws_ok(
+  $$INSERT INTO public.channel_members (channel_id, user_id, role)
+    VALUES ('00000000-0000-4000-8000-0000000000c1', '00000000-0000-4000-8000-0000000000a2', 'member')$$,
+  'P0001',
+  'Screening required',
+  '質問のあるスペースには直接参加できない'
+);
+
+SELECT set_config(
+  'request.jwt.claims',
+  '{"sub": "00000000-0000-4000-8000-0000000000a3", "role": "authenticated"}',
+  true
+);
+
+SELECT lives_ok(
+  $$INSERT INTO public.channel_members (channel_id, user_id, role)
+    VALUES ('00000000-0000-4000-8000-0000000000c2', '00000000-0000-4000-8000-0000000000a3', 'member')$$,
+  '質問のないスペースには直接参加できる'
+);
+
+RESET ROLE;
+
+-- 承認・招待の経路からは参加でき、フラグは INSERT の後に戻る
+SELECT lives_ok(
+  $$SELECT public.add_space_member('00000000-0000-4000-8000-0000000000b1', '00000000-0000-4000-8000-0000000000a2')$$,
+  'add_space_member からは質問のあるスペースにも参加できる'
+);
+
+SELECT is(
+  public.space_member_role('00000000-0000-4000-8000-0000000000b1', '00000000-0000-4000-8000-0000000000a2'),
+  'member',
+  '承認されたユーザーはメンバーになる'
+);
+
+SELECT is(
+  current_setting('app.space_member_approved', true),
+  'off',
+  '追加が終わるとフラグは戻っている'
+);
+
+SELECT * FROM finish();
+ROLLBACK;